@@ -96,6 +96,9 @@ import MarkdownPlaygroundPage from "@/pages/markdown-playground";
 import EvolutionPage from "@/pages/evolution";
 import TaskQueuePage from "@/pages/task-queue";
 import SchedulesPage from "@/pages/schedules";
+import WorkflowsPage from "@/pages/workflows";
+import ApprovalsPage from "@/pages/approvals";
+import StateInspectorPage from "@/pages/state-inspector";
 import BrowserPage from "@/pages/browser";
 import DatabaseExplorerPage from "@/pages/database-explorer";
 import LivePage from "@/pages/live";
@@ -121,6 +124,7 @@ import { TTSProvider } from "@/contexts/tts-context";
 import { LocalDriveProvider } from "@/contexts/LocalDriveContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/protected-route";
+import { ApprovalNotifier } from "@/components/approval-notifier";
 
 // ============================================================================
 // ROUTER COMPONENT
@@ -249,6 +253,18 @@ function Router() {
         {() => <ProtectedRoute><SchedulesPage /></ProtectedRoute>}
       </Route>
       
+      <Route path="/workflows">
+        {() => <ProtectedRoute><WorkflowsPage /></ProtectedRoute>}
+      </Route>
+      
+      <Route path="/approvals">
+        {() => <ProtectedRoute><ApprovalsPage /></ProtectedRoute>}
+      </Route>
+      
+      <Route path="/state">
+        {() => <ProtectedRoute><StateInspectorPage /></ProtectedRoute>}
+      </Route>
+      
       <Route path="/browser">
         {() => <ProtectedRoute><BrowserPage /></ProtectedRoute>}
       </Route>
@@ -362,6 +378,9 @@ function App() {
              */}
             <Toaster />
             
+            {/* ApprovalNotifier: toasts approvals that workflows are waiting on */}
+            <ApprovalNotifier />
+            
             {/* Router: Renders the appropriate page based on current URL */}
             <Router />
             
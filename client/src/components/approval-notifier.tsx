@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+
+const POLL_INTERVAL_MS = 15000;
+
+interface PendingApproval {
+  id: string;
+  title: string;
+  summary: string | null;
+  notifications: Array<{ channel: string }> | null;
+}
+
+/**
+ * Toasts approvals as they arrive, for approval steps that notify "app".
+ * Approvals already pending when the page loads are not toasted.
+ */
+export function ApprovalNotifier() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [location, setLocation] = useLocation();
+  const seen = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch("/api/orchestration/approvals?status=pending");
+        if (!response.ok || cancelled) return;
+        const pending: PendingApproval[] = await response.json();
+
+        const first = seen.current === null;
+        const known = seen.current ?? new Set<string>();
+        for (const approval of pending) {
+          // notifications is written just after the approval; wait for it
+          if (known.has(approval.id) || (!first && !approval.notifications)) continue;
+          known.add(approval.id);
+          const inApp = approval.notifications?.some(notification => notification.channel === "app");
+          if (first || !inApp || location === "/approvals") continue;
+          toast({
+            title: `Approval needed: ${approval.title}`,
+            description: approval.summary ?? undefined,
+            action: (
+              <ToastAction altText="Review approval" onClick={() => setLocation(`/approvals?id=${approval.id}`)}>
+                Review
+              </ToastAction>
+            ),
+          });
+        }
+        seen.current = known;
+      } catch (error) {
+        console.error("Failed to check for approvals:", error);
+      }
+    };
+
+    void poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isAuthenticated, location, setLocation, toast]);
+
+  return null;
+}
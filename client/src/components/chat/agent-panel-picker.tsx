@@ -0,0 +1,177 @@
+/**
+ * Agent Panel Picker
+ *
+ * Turns the open chat into a panel: several of the user's agents take turns
+ * answering each message (e.g. coder + reviewer), each reply attributed to
+ * its agent. Agents speak in the order they were ticked. Saved through
+ * PUT /api/chats/:id/panel; see shared/agent-panel.ts for the turn policies.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import type { Chat, UserAgent } from "@shared/schema";
+import {
+  DEFAULT_PANEL_TURNS,
+  MAX_PANEL_AGENTS,
+  MAX_PANEL_TURNS,
+  type AgentPanel,
+  type TurnPolicy,
+} from "@shared/agent-panel";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { USER_AGENTS_QUERY_KEY } from "@/components/chat/agent-picker";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const POLICY_LABELS: Record<TurnPolicy, string> = {
+  round_robin: "Round robin",
+  moderator: "Moderator picks",
+  mention: "Follow @mentions",
+};
+
+const NEW_PANEL: AgentPanel = {
+  agentIds: [],
+  turnPolicy: "round_robin",
+  maxTurns: DEFAULT_PANEL_TURNS,
+  stopOnConsensus: true,
+};
+
+interface AgentPanelPickerProps {
+  chat: Chat;
+  /** The chat as saved with its new panel */
+  onChange: (chat: Chat) => void;
+}
+
+export function AgentPanelPicker({ chat, onChange }: AgentPanelPickerProps) {
+  const { toast } = useToast();
+  const { data } = useQuery<{ agents: UserAgent[] }>({ queryKey: USER_AGENTS_QUERY_KEY });
+  const agents = (data?.agents ?? []).filter(agent => agent.isActive);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AgentPanel>(NEW_PANEL);
+
+  if (agents.length < 2) return null;
+
+  const openChange = (next: boolean) => {
+    if (next) setDraft(chat.agentPanel ?? NEW_PANEL);
+    setOpen(next);
+  };
+
+  const update = (changes: Partial<AgentPanel>) => setDraft(previous => ({ ...previous, ...changes }));
+
+  const toggleAgent = (id: string, enabled: boolean) =>
+    update({ agentIds: enabled ? [...draft.agentIds, id] : draft.agentIds.filter(agentId => agentId !== id) });
+
+  const save = async (panel: AgentPanel | null) => {
+    try {
+      const res = await apiRequest("PUT", `/api/chats/${chat.id}/panel`, { panel });
+      onChange(await res.json());
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Could not update panel",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const panelSize = chat.agentPanel?.agentIds.length ?? 0;
+  const canSave = draft.agentIds.length >= 2 && draft.agentIds.length <= MAX_PANEL_AGENTS;
+
+  return (
+    <Popover open={open} onOpenChange={openChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={panelSize > 0 ? "secondary" : "ghost"}
+          size="sm"
+          className="h-9 rounded-full gap-1"
+          title="Let several agents answer in turn"
+          data-testid="button-agent-panel"
+        >
+          <Users className="h-4 w-4" />
+          {panelSize > 0 && <span>{panelSize}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div>
+          <p className="font-medium">Agent panel</p>
+          <p className="text-xs text-muted-foreground">
+            Ticked agents answer each message in turn, in the order ticked.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {agents.map(agent => {
+            const position = draft.agentIds.indexOf(agent.id);
+            return (
+              <label key={agent.id} className="flex items-center gap-2 text-sm" data-testid={`panel-agent-${agent.id}`}>
+                <Checkbox checked={position >= 0} onCheckedChange={checked => toggleAgent(agent.id, checked === true)} />
+                <span
+                  className="h-2.5 w-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: agent.brandColor ?? undefined }}
+                />
+                <span className="truncate flex-1">{agent.displayName}</span>
+                {position >= 0 && <span className="text-xs text-muted-foreground">#{position + 1}</span>}
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Who speaks next</Label>
+          <Select value={draft.turnPolicy} onValueChange={value => update({ turnPolicy: value as TurnPolicy })}>
+            <SelectTrigger data-testid="select-panel-policy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+                <SelectItem key={policy} value={policy}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="panel-max-turns">Max replies per message</Label>
+          <Input
+            id="panel-max-turns"
+            type="number"
+            min={1}
+            max={MAX_PANEL_TURNS}
+            className="w-20"
+            value={draft.maxTurns}
+            onChange={e => update({ maxTurns: Math.min(MAX_PANEL_TURNS, Math.max(1, Number(e.target.value) || 1)) })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="panel-consensus">Stop when all agree</Label>
+          <Switch
+            id="panel-consensus"
+            checked={draft.stopOnConsensus}
+            onCheckedChange={stopOnConsensus => update({ stopOnConsensus })}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {chat.agentPanel && (
+            <Button variant="ghost" size="sm" onClick={() => save(null)} data-testid="button-clear-panel">
+              Single agent
+            </Button>
+          )}
+          <Button size="sm" disabled={!canSave} onClick={() => save(draft)} data-testid="button-save-panel">
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
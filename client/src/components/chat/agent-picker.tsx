@@ -0,0 +1,67 @@
+/**
+ * Agent Picker
+ *
+ * Chooses which of the user's agents (Agent Settings → Personas) answers in
+ * the open chat. The agent's persona, model and tool allowlist apply from
+ * the next message; "Default agent" follows whichever agent is marked
+ * default. Saved through PUT /api/chats/:id/agent.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { Bot } from "lucide-react";
+import type { Chat, UserAgent } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export const USER_AGENTS_QUERY_KEY = ["/api/user-agents"];
+
+const DEFAULT_AGENT = "default";
+
+interface AgentPickerProps {
+  chat: Chat;
+  /** The chat as saved with its new agent */
+  onChange: (chat: Chat) => void;
+}
+
+export function AgentPicker({ chat, onChange }: AgentPickerProps) {
+  const { toast } = useToast();
+  const { data } = useQuery<{ agents: UserAgent[] }>({ queryKey: USER_AGENTS_QUERY_KEY });
+  const agents = (data?.agents ?? []).filter(agent => agent.isActive);
+
+  if (agents.length === 0) return null;
+
+  const select = async (value: string) => {
+    try {
+      const res = await apiRequest("PUT", `/api/chats/${chat.id}/agent`, {
+        agentId: value === DEFAULT_AGENT ? null : value,
+      });
+      onChange(await res.json());
+    } catch (error) {
+      toast({
+        title: "Could not change agent",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const bound = agents.some(agent => agent.id === chat.agentId) ? chat.agentId! : DEFAULT_AGENT;
+
+  return (
+    <Select value={bound} onValueChange={select}>
+      <SelectTrigger className="h-9 w-44 rounded-full bg-background/80 backdrop-blur" data-testid="select-chat-agent">
+        <Bot className="h-4 w-4 mr-1 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_AGENT}>Default agent</SelectItem>
+        {agents.map(agent => (
+          <SelectItem key={agent.id} value={agent.id} data-testid={`agent-option-${agent.id}`}>
+            {agent.displayName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
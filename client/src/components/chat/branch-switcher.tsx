@@ -0,0 +1,51 @@
+/**
+ * Branch Switcher
+ *
+ * "‹ 2 / 3 ›" arrows under a message that has other versions (an edited user
+ * message or a regenerated reply). Picking a version shows its branch of the
+ * conversation.
+ */
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { MessageBranchInfo } from "@shared/message-tree";
+
+interface BranchSwitcherProps {
+  branch: MessageBranchInfo;
+  /** Called with the id of the sibling to show */
+  onSelect: (messageId: string) => void;
+  disabled?: boolean;
+}
+
+export function BranchSwitcher({ branch, onSelect, disabled }: BranchSwitcherProps) {
+  const { index, count, siblingIds } = branch;
+  const buttonClass =
+    "text-muted-foreground hover:text-foreground bg-transparent border-0 cursor-pointer p-0 disabled:opacity-40 disabled:cursor-default";
+
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-muted-foreground" data-testid="branch-switcher">
+      <button
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className={buttonClass}
+        aria-label="Previous version"
+        data-testid="button-branch-prev"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums">
+        {index + 1} / {count}
+      </span>
+      <button
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={disabled || index === count - 1}
+        className={buttonClass}
+        aria-label="Next version"
+        data-testid="button-branch-next"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+export default BranchSwitcher;
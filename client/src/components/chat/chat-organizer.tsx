@@ -0,0 +1,694 @@
+/**
+ * Chat Organizer
+ *
+ * The chat list inside the sidebar, as collapsible groups:
+ *
+ *   Pinned → Folders (nested) → Unfiled (Today / Yesterday / …) → Archived
+ *
+ * Signed-in users can file chats into folders by dragging them (or a whole
+ * multi-selection) onto a folder, drag folders into other folders, tag, pin
+ * and archive chats from each row's menu, and act on many chats at once
+ * (Ctrl/⌘-click or the row checkbox to select). Changes go through
+ * PATCH /api/chats/:id/organization, POST /api/chats/bulk and
+ * /api/chat-folders; see shared/chat-organization.ts.
+ *
+ * Row menus also export a chat (GET /api/chats/:id/export), and JSON exports
+ * can be imported back from the Folders header.
+ */
+
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent, type MouseEvent, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronRight,
+  Download,
+  FileUp,
+  Folder,
+  FolderInput,
+  FolderPlus,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Tag,
+  Trash2,
+  X,
+} from "lucide-react";
+import type { Chat, ChatFolder } from "@shared/schema";
+import { buildFolderTree, normalizeTags, type FolderNode } from "@shared/chat-organization";
+import { cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ChatOrganizerProps {
+  chats: Chat[];
+  currentChatId: string | null;
+  isCollapsed: boolean;
+  onChatClick: (chatId: string) => void;
+  /** Reload the chat list after chats were filed, tagged, archived or deleted */
+  onChatsChanged?: () => void;
+  /** The open chat was deleted */
+  onCurrentChatDeleted?: () => void;
+}
+
+type BulkAction =
+  | { action: "move"; folderId: string | null }
+  | { action: "tag" | "untag"; tags: string[] }
+  | { action: "pin" | "unpin" | "archive" | "unarchive" | "delete" };
+
+const CHAT_DRAG_TYPE = "application/x-meowstik-chats";
+const FOLDER_DRAG_TYPE = "application/x-meowstik-folder";
+const COLLAPSED_GROUPS_KEY = "meowstik-sidebar-collapsed-groups";
+const ARCHIVED_GROUP = "archived";
+const UNFILED_DROP = "unfiled";
+
+const EXPORT_OPTIONS = [
+  { label: "Markdown", query: "format=md" },
+  { label: "HTML", query: "format=html" },
+  { label: "JSON (re-importable)", query: "format=json" },
+  { label: "Markdown + files (.zip)", query: "format=md&attachments=zip" },
+] as const;
+
+const FOLDERS_QUERY_KEY = ["/api/chat-folders"];
+const ARCHIVED_QUERY_KEY = ["/api/chats", "archived"];
+
+/**
+ * Group chats by last activity (Today, Yesterday, Previous 7 Days, Older)
+ */
+function groupChatsByDate(chats: Chat[]): Array<[string, Chat[]]> {
+  const now = Date.now();
+  const groups: Array<[string, Chat[]]> = [["Today", []], ["Yesterday", []], ["Previous 7 Days", []], ["Older", []]];
+  for (const chat of chats) {
+    const diffInDays = (now - new Date(chat.updatedAt).getTime()) / (1000 * 60 * 60 * 24);
+    const index = diffInDays < 1 ? 0 : diffInDays < 2 ? 1 : diffInDays < 7 ? 2 : 3;
+    groups[index][1].push(chat);
+  }
+  return groups.filter(([, group]) => group.length > 0);
+}
+
+function loadCollapsedGroups(): Set<string> {
+  try {
+    const saved = localStorage.getItem(COLLAPSED_GROUPS_KEY);
+    return new Set(saved ? JSON.parse(saved) : [ARCHIVED_GROUP]);
+  } catch {
+    return new Set([ARCHIVED_GROUP]);
+  }
+}
+
+export function ChatOrganizer({
+  chats,
+  currentChatId,
+  isCollapsed,
+  onChatClick,
+  onChatsChanged,
+  onCurrentChatDeleted,
+}: ChatOrganizerProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [collapsedGroups, setCollapsedGroups] = useState(loadCollapsedGroups);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const canOrganize = isAuthenticated;
+  const archivedOpen = !collapsedGroups.has(ARCHIVED_GROUP);
+
+  const { data: folders = [] } = useQuery<ChatFolder[]>({
+    queryKey: FOLDERS_QUERY_KEY,
+    enabled: canOrganize,
+  });
+
+  const { data: archivedChats = [] } = useQuery<Chat[]>({
+    queryKey: ARCHIVED_QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/chats?archived=only", { credentials: "include" });
+      if (!res.ok) throw new Error(`Failed to load archived chats: ${res.status}`);
+      return res.json();
+    },
+    enabled: canOrganize && archivedOpen,
+  });
+
+  useEffect(() => {
+    localStorage.setItem(COLLAPSED_GROUPS_KEY, JSON.stringify([...collapsedGroups]));
+  }, [collapsedGroups]);
+
+  // Drop selections of chats that went away (deleted, or archived elsewhere)
+  useEffect(() => {
+    const known = new Set([...chats, ...archivedChats].map((chat) => chat.id));
+    setSelected((prev) => {
+      const next = new Set([...prev].filter((id) => known.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [chats, archivedChats]);
+
+  const folderTree = useMemo(() => buildFolderTree(folders), [folders]);
+  const folderIds = useMemo(() => new Set(folders.map((folder) => folder.id)), [folders]);
+
+  // Pinned chats show only under Pinned; chats in unknown folders count as unfiled
+  const pinned = chats.filter((chat) => chat.pinnedAt);
+  const chatsByFolder = new Map<string, Chat[]>();
+  const unfiled: Chat[] = [];
+  for (const chat of chats) {
+    if (chat.pinnedAt) continue;
+    if (chat.folderId && folderIds.has(chat.folderId)) {
+      chatsByFolder.set(chat.folderId, [...(chatsByFolder.get(chat.folderId) ?? []), chat]);
+    } else {
+      unfiled.push(chat);
+    }
+  }
+
+  const refresh = () => {
+    onChatsChanged?.();
+    queryClient.invalidateQueries({ queryKey: FOLDERS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ARCHIVED_QUERY_KEY });
+  };
+
+  const reportError = (title: string, error: unknown) => {
+    console.error(`[ChatOrganizer] ${title}:`, error);
+    toast({ title, description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+  };
+
+  const runBulk = async (chatIds: string[], body: BulkAction) => {
+    if (chatIds.length === 0) return;
+    if (body.action === "delete") {
+      const noun = chatIds.length === 1 ? "this chat" : `${chatIds.length} chats`;
+      if (!window.confirm(`Delete ${noun}? This cannot be undone.`)) return;
+    }
+    try {
+      await apiRequest("POST", "/api/chats/bulk", { chatIds, ...body });
+      if (body.action === "delete" || body.action === "move") setSelected(new Set());
+      refresh();
+      if (body.action === "delete" && currentChatId && chatIds.includes(currentChatId)) {
+        onCurrentChatDeleted?.();
+      }
+    } catch (error) {
+      reportError("Could not update chats", error);
+    }
+  };
+
+  const promptTags = (chatIds: string[], current: string[] = []) => {
+    const input = window.prompt("Tags (comma separated):", current.join(", "));
+    if (input === null) return;
+    const tags = normalizeTags(input.split(","));
+    if (chatIds.length === 1) {
+      apiRequest("PATCH", `/api/chats/${chatIds[0]}/organization`, { tags })
+        .then(refresh)
+        .catch((error) => reportError("Could not update tags", error));
+    } else if (tags.length > 0) {
+      runBulk(chatIds, { action: "tag", tags });
+    }
+  };
+
+  const createFolder = async (parentId: string | null = null) => {
+    const name = window.prompt(parentId ? "Subfolder name:" : "Folder name:")?.trim();
+    if (!name) return;
+    try {
+      await apiRequest("POST", "/api/chat-folders", { name, parentId });
+      if (parentId) setGroupOpen(`folder:${parentId}`, true);
+      refresh();
+    } catch (error) {
+      reportError("Could not create folder", error);
+    }
+  };
+
+  const updateFolder = async (folderId: string, changes: { name?: string; parentId?: string | null }) => {
+    try {
+      await apiRequest("PATCH", `/api/chat-folders/${folderId}`, changes);
+      refresh();
+    } catch (error) {
+      reportError("Could not update folder", error);
+    }
+  };
+
+  const deleteFolder = async (folder: ChatFolder) => {
+    if (!window.confirm(`Delete folder "${folder.name}"? Its chats and subfolders move up a level.`)) return;
+    try {
+      await apiRequest("DELETE", `/api/chat-folders/${folder.id}`);
+      refresh();
+    } catch (error) {
+      reportError("Could not delete folder", error);
+    }
+  };
+
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const res = await apiRequest("POST", "/api/chats/import", JSON.parse(await file.text()));
+      const { chat, skippedAttachments } = await res.json() as { chat: Chat; skippedAttachments: number };
+      refresh();
+      onChatClick(chat.id);
+      toast({
+        title: `Imported "${chat.title}"`,
+        description: skippedAttachments > 0 ? `${skippedAttachments} attachment(s) had no content and were skipped` : undefined,
+      });
+    } catch (error) {
+      reportError("Could not import chat", error);
+    }
+  };
+
+  const setGroupOpen = (group: string, open: boolean) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (open) next.delete(group);
+      else next.add(group);
+      return next;
+    });
+  };
+
+  const toggleSelected = (chatId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(chatId)) next.delete(chatId);
+      else next.add(chatId);
+      return next;
+    });
+  };
+
+  const handleRowClick = (event: MouseEvent, chatId: string) => {
+    if (canOrganize && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      toggleSelected(chatId);
+      return;
+    }
+    onChatClick(chatId);
+  };
+
+  // ─── Drag and drop ─────────────────────────────────────────────────────────
+
+  const handleChatDragStart = (event: DragEvent, chatId: string) => {
+    // Dragging a selected chat carries the whole selection
+    const ids = selected.has(chatId) ? [...selected] : [chatId];
+    event.dataTransfer.setData(CHAT_DRAG_TYPE, JSON.stringify(ids));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleFolderDragStart = (event: DragEvent, folderId: string) => {
+    event.stopPropagation();
+    event.dataTransfer.setData(FOLDER_DRAG_TYPE, folderId);
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  const dropHandlers = (target: string, folderId: string | null) => ({
+    onDragOver: (event: DragEvent) => {
+      const types = event.dataTransfer.types;
+      if (!types.includes(CHAT_DRAG_TYPE) && !types.includes(FOLDER_DRAG_TYPE)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      event.dataTransfer.dropEffect = "move";
+      setDropTarget(target);
+    },
+    onDragLeave: (event: DragEvent) => {
+      if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+        setDropTarget((current) => (current === target ? null : current));
+      }
+    },
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTarget(null);
+      const chatData = event.dataTransfer.getData(CHAT_DRAG_TYPE);
+      const draggedFolder = event.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (chatData) {
+        runBulk(JSON.parse(chatData), { action: "move", folderId });
+      } else if (draggedFolder && draggedFolder !== folderId) {
+        updateFolder(draggedFolder, { parentId: folderId });
+      }
+    },
+  });
+
+  // ─── Rendering ─────────────────────────────────────────────────────────────
+
+  const folderMenuItems = (onMove: (folderId: string | null) => void, excludeFolderId?: string) => (
+    <>
+      <DropdownMenuItem onSelect={() => onMove(null)}>No folder</DropdownMenuItem>
+      {folders.length > 0 && <DropdownMenuSeparator />}
+      {flattenTree(folderTree)
+        .filter((node) => node.folder.id !== excludeFolderId)
+        .map((node) => (
+          <DropdownMenuItem key={node.folder.id} onSelect={() => onMove(node.folder.id)}>
+            <span style={{ paddingLeft: (node.depth - 1) * 12 }} className="truncate">{node.folder.name}</span>
+          </DropdownMenuItem>
+        ))}
+    </>
+  );
+
+  const moveMenu = (onMove: (folderId: string | null) => void, excludeFolderId?: string) => (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <FolderInput className="mr-2 h-4 w-4" />
+        Move to
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+        {folderMenuItems(onMove, excludeFolderId)}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+
+  const renderChat = (chat: Chat) => {
+    const isSelected = selected.has(chat.id);
+    const isArchived = !!chat.archivedAt;
+    const tags = chat.tags ?? [];
+
+    if (isCollapsed) {
+      return (
+        <Button
+          key={chat.id}
+          data-testid={`button-chat-${chat.id}`}
+          variant="ghost"
+          onClick={() => onChatClick(chat.id)}
+          title={chat.title}
+          className={cn(
+            "font-normal text-sm text-muted-foreground hover:text-foreground hover:bg-secondary/50 rounded-lg overflow-hidden w-12 h-9 p-0 justify-center",
+            currentChatId === chat.id && "bg-secondary/50 text-foreground"
+          )}
+        >
+          <MessageSquare className="h-4 w-4 shrink-0" />
+        </Button>
+      );
+    }
+
+    return (
+      <div
+        key={chat.id}
+        draggable={canOrganize && !isArchived}
+        onDragStart={(event) => handleChatDragStart(event, chat.id)}
+        className={cn(
+          "group relative flex items-center rounded-lg hover:bg-secondary/50",
+          (currentChatId === chat.id || isSelected) && "bg-secondary/50",
+          isSelected && "ring-1 ring-primary/40"
+        )}
+      >
+        {canOrganize && (
+          <Checkbox
+            checked={isSelected}
+            onCheckedChange={() => toggleSelected(chat.id)}
+            aria-label={`Select ${chat.title}`}
+            className={cn(
+              "absolute left-2 h-3.5 w-3.5",
+              selected.size > 0 ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+            )}
+          />
+        )}
+        <Button
+          data-testid={`button-chat-${chat.id}`}
+          variant="ghost"
+          onClick={(event) => handleRowClick(event, chat.id)}
+          className={cn(
+            "flex-1 min-w-0 h-auto min-h-9 py-1.5 justify-start gap-3 px-2 font-normal text-sm text-muted-foreground hover:text-foreground hover:bg-transparent rounded-lg",
+            canOrganize && "pl-7",
+            currentChatId === chat.id && "text-foreground"
+          )}
+        >
+          {chat.pinnedAt ? <Pin className="h-4 w-4 shrink-0" /> : <MessageSquare className="h-4 w-4 shrink-0" />}
+          <span className="min-w-0 flex-1 text-left">
+            <span className="block truncate">{chat.title}</span>
+            {tags.length > 0 && (
+              <span className="mt-0.5 flex flex-wrap gap-1">
+                {tags.slice(0, 3).map((tag) => (
+                  <span key={tag} className="rounded bg-muted px-1 text-[10px] leading-4 text-muted-foreground">
+                    #{tag}
+                  </span>
+                ))}
+                {tags.length > 3 && <span className="text-[10px] leading-4 text-muted-foreground">+{tags.length - 3}</span>}
+              </span>
+            )}
+          </span>
+        </Button>
+        {canOrganize && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                aria-label={`Organize ${chat.title}`}
+                data-testid={`button-chat-menu-${chat.id}`}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              {isArchived ? (
+                <DropdownMenuItem onSelect={() => runBulk([chat.id], { action: "unarchive" })}>
+                  <ArchiveRestore className="mr-2 h-4 w-4" />
+                  Unarchive
+                </DropdownMenuItem>
+              ) : (
+                <>
+                  <DropdownMenuItem onSelect={() => runBulk([chat.id], { action: chat.pinnedAt ? "unpin" : "pin" })}>
+                    {chat.pinnedAt ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                    {chat.pinnedAt ? "Unpin" : "Pin"}
+                  </DropdownMenuItem>
+                  {moveMenu((folderId) => runBulk([chat.id], { action: "move", folderId }))}
+                  <DropdownMenuItem onSelect={() => promptTags([chat.id], tags)}>
+                    <Tag className="mr-2 h-4 w-4" />
+                    Edit tags…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => runBulk([chat.id], { action: "archive" })}>
+                    <Archive className="mr-2 h-4 w-4" />
+                    Archive
+                  </DropdownMenuItem>
+                </>
+              )}
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {EXPORT_OPTIONS.map((option) => (
+                    <DropdownMenuItem key={option.query} asChild>
+                      <a href={`/api/chats/${chat.id}/export?${option.query}`} download>
+                        {option.label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => runBulk([chat.id], { action: "delete" })}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  const renderGroup = (group: string, label: ReactNode, content: ReactNode) => {
+    const open = !collapsedGroups.has(group);
+    return (
+      <Collapsible key={group} open={open} onOpenChange={(next) => setGroupOpen(group, next)}>
+        <CollapsibleTrigger className="flex w-full items-center gap-1 rounded-md px-2 py-1 text-xs font-semibold text-muted-foreground hover:text-foreground">
+          <ChevronRight className={cn("h-3 w-3 transition-transform", open && "rotate-90")} />
+          {label}
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-1 pt-1">{content}</CollapsibleContent>
+      </Collapsible>
+    );
+  };
+
+  const renderFolder = (node: FolderNode<ChatFolder>): ReactNode => {
+    const { folder } = node;
+    const group = `folder:${folder.id}`;
+    const open = !collapsedGroups.has(group);
+    const folderChats = chatsByFolder.get(folder.id) ?? [];
+    return (
+      <Collapsible key={folder.id} open={open} onOpenChange={(next) => setGroupOpen(group, next)}>
+        <div
+          draggable
+          onDragStart={(event) => handleFolderDragStart(event, folder.id)}
+          {...dropHandlers(group, folder.id)}
+          className={cn(
+            "group flex items-center rounded-lg hover:bg-secondary/50",
+            dropTarget === group && "bg-primary/10 ring-1 ring-primary/50"
+          )}
+          data-testid={`folder-${folder.id}`}
+        >
+          <CollapsibleTrigger className="flex min-w-0 flex-1 items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground hover:text-foreground">
+            <ChevronRight className={cn("h-3 w-3 shrink-0 transition-transform", open && "rotate-90")} />
+            <Folder className="h-4 w-4 shrink-0" />
+            <span className="truncate">{folder.name}</span>
+            {folderChats.length > 0 && <span className="ml-auto text-xs opacity-60">{folderChats.length}</span>}
+          </CollapsibleTrigger>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                aria-label={`Folder options for ${folder.name}`}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onSelect={() => createFolder(folder.id)}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                New subfolder…
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  const name = window.prompt("Rename folder:", folder.name)?.trim();
+                  if (name && name !== folder.name) updateFolder(folder.id, { name });
+                }}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename…
+              </DropdownMenuItem>
+              {moveMenu((parentId) => updateFolder(folder.id, { parentId }), folder.id)}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => deleteFolder(folder)} className="text-destructive focus:text-destructive">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete folder
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <CollapsibleContent className="ml-3 space-y-1 border-l border-border/50 pl-2 pt-1">
+          {node.children.map(renderFolder)}
+          {folderChats.map(renderChat)}
+          {node.children.length === 0 && folderChats.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground/70">Drop chats here</p>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    );
+  };
+
+  // The icon-only rail has no room for groups: active chats, most recent first
+  if (isCollapsed) {
+    return <div className="space-y-1">{chats.map(renderChat)}</div>;
+  }
+
+  const selectedIds = [...selected];
+
+  return (
+    <div className="space-y-4">
+      {selected.size > 0 && (
+        <div className="sticky top-0 z-10 flex flex-wrap items-center gap-1 rounded-lg border bg-background/95 p-1.5 text-xs shadow-sm">
+          <span className="px-1 font-medium">{selected.size} selected</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Pin" onClick={() => runBulk(selectedIds, { action: "pin" })}>
+            <Pin className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Add tags" onClick={() => promptTags(selectedIds)}>
+            <Tag className="h-3.5 w-3.5" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Move to folder">
+                <FolderInput className="h-3.5 w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="max-h-72 w-48 overflow-y-auto">
+              {folderMenuItems((folderId) => runBulk(selectedIds, { action: "move", folderId }))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Archive" onClick={() => runBulk(selectedIds, { action: "archive" })}>
+            <Archive className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive"
+            title="Delete"
+            onClick={() => runBulk(selectedIds, { action: "delete" })}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" title="Clear selection" onClick={() => setSelected(new Set())}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
+      {pinned.length > 0 && renderGroup("pinned", "Pinned", pinned.map(renderChat))}
+
+      {canOrganize && (
+        <div>
+          <div className="flex items-center justify-between pr-1">
+            <h3 className="px-2 text-xs font-semibold text-muted-foreground">Folders</h3>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground"
+                title="Import chat (JSON export)"
+                onClick={() => importInputRef.current?.click()}
+                data-testid="button-import-chat"
+              >
+                <FileUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground"
+                title="New folder"
+                onClick={() => createFolder()}
+                data-testid="button-new-folder"
+              >
+                <FolderPlus className="h-3.5 w-3.5" />
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+            </div>
+          </div>
+          <div className="space-y-1 pt-1">{folderTree.map(renderFolder)}</div>
+        </div>
+      )}
+
+      <div
+        {...(canOrganize ? dropHandlers(UNFILED_DROP, null) : {})}
+        className={cn("space-y-4 rounded-lg", dropTarget === UNFILED_DROP && "bg-primary/5 ring-1 ring-primary/30")}
+      >
+        {groupChatsByDate(unfiled).map(([label, group]) => renderGroup(`date:${label}`, label, group.map(renderChat)))}
+      </div>
+
+      {canOrganize &&
+        renderGroup(
+          ARCHIVED_GROUP,
+          <>
+            <Archive className="h-3 w-3" />
+            Archived
+          </>,
+          archivedChats.length > 0
+            ? archivedChats.map(renderChat)
+            : <p className="px-2 py-1 text-xs text-muted-foreground/70">No archived chats</p>
+        )}
+    </div>
+  );
+}
+
+function flattenTree<F extends ChatFolder>(nodes: FolderNode<F>[]): FolderNode<F>[] {
+  return nodes.flatMap((node) => [node, ...flattenTree(node.children)]);
+}
+
+export default ChatOrganizer;
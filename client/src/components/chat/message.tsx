@@ -1,7 +1,10 @@
 import { format } from "date-fns";
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { renderMarkdown } from "@/lib/markdown";
 import { useTTS } from "@/contexts/tts-context";
+import type { MessageBranchInfo } from "@shared/message-tree";
+import type { AgentAttribution } from "@shared/agent-panel";
+import { BranchSwitcher } from "./branch-switcher";
 
 interface ChatMessageProps {
   id?: string;
@@ -13,6 +16,15 @@ interface ChatMessageProps {
   metadata?: any;
   promptSnapshot?: any;
   feedback?: string | null;
+  /** Position among alternative versions, when there are any */
+  branch?: MessageBranchInfo;
+  onSelectBranch?: (messageId: string) => void;
+  /** Offered on user messages: resend with new content as a new branch */
+  onEdit?: (content: string) => void;
+  /** Offered on AI replies: answer the same prompt again as a new branch */
+  onRegenerate?: () => void;
+  /** Disables branch actions, e.g. while a reply is streaming */
+  actionsDisabled?: boolean;
 }
 
 export function ChatMessage({
@@ -21,9 +33,22 @@ export function ChatMessage({
   content,
   createdAt,
   isThinking,
+  metadata,
   feedback,
+  branch,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  actionsDisabled,
 }: ChatMessageProps) {
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (isEditing) editorRef.current?.focus();
+  }, [isEditing]);
   const [isSpeakingLocal, setIsSpeakingLocal] = useState(false);
   const { speak, stopSpeaking } = useTTS();
 
@@ -43,10 +68,23 @@ export function ChatMessage({
     }
   }, [isSpeakingLocal, content, speak, stopSpeaking]);
 
+  const startEditing = useCallback(() => {
+    setDraft(content);
+    setIsEditing(true);
+  }, [content]);
+
+  const handleSaveEdit = useCallback(() => {
+    setIsEditing(false);
+    if (draft.trim() && draft !== content) onEdit?.(draft);
+  }, [draft, content, onEdit]);
+
   const isAI = role === "ai" || role === "assistant";
 
   const bgClass = role === "user" ? "bg-background" : role === "system" ? "bg-muted/50" : "bg-card";
   const avatar = isAI ? "😻" : role === "system" ? "⚙️" : "👨‍💻";
+  // Panel chats: the agent that wrote this reply (see shared/agent-panel.ts)
+  const agent: AgentAttribution | undefined = isAI ? metadata?.agent : undefined;
+  const agentColor = agent?.brandColor ?? undefined;
 
   const htmlContent = useMemo(() => renderMarkdown(content), [content]);
 
@@ -71,14 +109,67 @@ export function ChatMessage({
   }, [createdAt]);
 
   return (
-    <div className={`${bgClass} px-4 py-3 flex gap-3`}>
-      <div className="text-xl w-8 shrink-0">{avatar}</div>
+    <div
+      className={`${bgClass} px-4 py-3 flex gap-3 ${agent ? "border-l-2" : ""}`}
+      style={agent ? { borderLeftColor: agentColor } : undefined}
+    >
+      {agent ? (
+        agent.avatarUrl ? (
+          <img src={agent.avatarUrl} alt={agent.displayName} className="w-8 h-8 rounded-full shrink-0" />
+        ) : (
+          <div
+            className="w-8 h-8 rounded-full shrink-0 flex items-center justify-center text-sm font-medium text-white bg-primary"
+            style={{ backgroundColor: agentColor }}
+          >
+            {agent.displayName.charAt(0).toUpperCase()}
+          </div>
+        )
+      ) : (
+        <div className="text-xl w-8 shrink-0">{avatar}</div>
+      )}
       <div className="flex-1 min-w-0">
+        {agent && (
+          <div className="text-xs font-semibold mb-1" style={{ color: agentColor }} data-testid="text-message-agent">
+            {agent.displayName}
+          </div>
+        )}
         {isThinking ? (
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-primary animate-pulse" />
             <span className="text-sm text-muted-foreground">Meowstik is thinking...</span>
           </div>
+        ) : isEditing ? (
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSaveEdit();
+                } else if (e.key === "Escape") {
+                  setIsEditing(false);
+                }
+              }}
+              rows={Math.min(10, Math.max(2, draft.split("\n").length))}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground"
+              ref={editorRef}
+              data-testid="input-edit-message"
+            />
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => setIsEditing(false)} className="text-xs text-muted-foreground hover:text-foreground bg-transparent border-0 cursor-pointer p-0">
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={!draft.trim() || draft === content}
+                className="text-xs text-primary hover:underline bg-transparent border-0 cursor-pointer p-0 disabled:opacity-40"
+                data-testid="button-save-edit"
+              >
+                Save &amp; submit
+              </button>
+            </div>
+          </div>
         ) : (
           <div
             className="prose prose-sm dark:prose-invert max-w-none text-foreground"
@@ -87,7 +178,30 @@ export function ChatMessage({
         )}
         <div className="flex items-center gap-2 mt-1.5">
           <span className="text-xs text-muted-foreground">{timestamp}</span>
+          {branch && onSelectBranch && (
+            <BranchSwitcher branch={branch} onSelect={onSelectBranch} disabled={actionsDisabled} />
+          )}
           <div className="flex-1" />
+          {onEdit && !isEditing && (
+            <button
+              onClick={startEditing}
+              disabled={actionsDisabled}
+              className="text-xs text-muted-foreground hover:text-foreground bg-transparent border-0 cursor-pointer p-0 disabled:opacity-40"
+              data-testid="button-edit-message"
+            >
+              Edit
+            </button>
+          )}
+          {onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              disabled={actionsDisabled}
+              className="text-xs text-muted-foreground hover:text-foreground bg-transparent border-0 cursor-pointer p-0 disabled:opacity-40"
+              data-testid="button-regenerate"
+            >
+              Regenerate
+            </button>
+          )}
           <button onClick={handleCopy} className="text-xs text-muted-foreground hover:text-foreground bg-transparent border-0 cursor-pointer p-0">
             {copied ? "✓ Copied" : "Copy"}
           </button>
@@ -0,0 +1,206 @@
+/**
+ * Search Palette
+ *
+ * Full-text search across all chats (messages, text attachments and tool
+ * results), opened from the sidebar or with Ctrl/⌘+K. Results come from
+ * GET /api/search with highlighted snippets; picking one jumps to the
+ * matching message.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileText, Loader2, MessageSquare, Wrench } from "lucide-react";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+
+export type SearchSourceType = "message" | "attachment" | "tool_result";
+
+/** One hit from GET /api/search */
+export interface ChatSearchHit {
+  sourceType: SearchSourceType;
+  sourceId: string;
+  chatId: string;
+  chatTitle: string;
+  messageId: string | null;
+  role: string | null;
+  toolType: string | null;
+  title: string | null;
+  /** Escaped HTML with the matches in <mark> */
+  snippet: string;
+  createdAt: string;
+}
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentChatId: string | null;
+  onSelect: (hit: ChatSearchHit) => void;
+}
+
+const SOURCE_ICONS = {
+  message: MessageSquare,
+  attachment: FileText,
+  tool_result: Wrench,
+} as const;
+
+const ANY = "any";
+
+export function SearchPalette({ open, onOpenChange, currentChatId, onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [thisChatOnly, setThisChatOnly] = useState(false);
+  const [role, setRole] = useState(ANY);
+  const [source, setSource] = useState(ANY);
+  const [toolType, setToolType] = useState(ANY);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery, limit: "30" });
+  if (thisChatOnly && currentChatId) params.set("chatId", currentChatId);
+  if (role !== ANY) params.set("role", role);
+  if (source !== ANY) params.set("sources", source);
+  if (toolType !== ANY) params.set("toolType", toolType);
+  // Date inputs are local days; include the whole "to" day
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data, isFetching } = useQuery<{ results: ChatSearchHit[]; hasMore: boolean }>({
+    queryKey: ["/api/search", params.toString()],
+    queryFn: async () => {
+      const res = await fetch(`/api/search?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`Search failed: ${res.status}`);
+      return res.json();
+    },
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 30_000,
+  });
+
+  const { data: toolTypeData } = useQuery<{ toolTypes: string[] }>({
+    queryKey: ["/api/search/tool-types"],
+    enabled: open,
+    staleTime: 60_000,
+  });
+
+  const results = debouncedQuery ? data?.results ?? [] : [];
+
+  const handleSelect = (hit: ChatSearchHit) => {
+    onSelect(hit);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-2xl" data-testid="dialog-search">
+        <DialogTitle className="sr-only">Search chats</DialogTitle>
+        <Command shouldFilter={false} className="[&_[cmdk-input]]:h-12">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder='Search messages, files and tool output…  ("phrase", -exclude)'
+            data-testid="input-search"
+          />
+          <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2 text-xs">
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger className="h-7 w-[130px] text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Everything</SelectItem>
+                <SelectItem value="message">Messages</SelectItem>
+                <SelectItem value="attachment">Attachments</SelectItem>
+                <SelectItem value="tool_result">Tool results</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className="h-7 w-[110px] text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                <SelectItem value="user">From me</SelectItem>
+                <SelectItem value="ai">From Meowstik</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={toolType} onValueChange={setToolType}>
+              <SelectTrigger className="h-7 w-[150px] text-xs"><SelectValue placeholder="Any tool" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any tool</SelectItem>
+                {(toolTypeData?.toolTypes ?? []).map((type) => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-7 rounded-md border border-input bg-background px-2"
+              aria-label="From date"
+            />
+            <span className="text-muted-foreground">–</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-7 rounded-md border border-input bg-background px-2"
+              aria-label="To date"
+            />
+            {currentChatId && (
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id="search-this-chat"
+                  checked={thisChatOnly}
+                  onCheckedChange={(checked) => setThisChatOnly(checked === true)}
+                />
+                <label htmlFor="search-this-chat" className="text-muted-foreground cursor-pointer">
+                  This chat
+                </label>
+              </div>
+            )}
+            {isFetching && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground ml-auto" />}
+          </div>
+          <CommandList className="max-h-[420px]">
+            {debouncedQuery && !isFetching && <CommandEmpty>No matches.</CommandEmpty>}
+            {results.length > 0 && (
+              <CommandGroup heading={data?.hasMore ? "Top matches" : `${results.length} match${results.length === 1 ? "" : "es"}`}>
+                {results.map((hit) => {
+                  const Icon = SOURCE_ICONS[hit.sourceType];
+                  return (
+                    <CommandItem
+                      key={`${hit.sourceType}:${hit.sourceId}`}
+                      value={`${hit.sourceType}:${hit.sourceId}`}
+                      onSelect={() => handleSelect(hit)}
+                      className="flex items-start gap-3"
+                      data-testid={`search-result-${hit.sourceId}`}
+                    >
+                      <Icon className="mt-0.5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span className="truncate font-medium text-foreground">{hit.chatTitle}</span>
+                          {hit.sourceType === "attachment" && hit.title && <span className="truncate">· {hit.title}</span>}
+                          {hit.toolType && <span className="truncate">· {hit.toolType}</span>}
+                          <span className="ml-auto shrink-0">{format(new Date(hit.createdAt), "MMM d, yyyy")}</span>
+                        </div>
+                        <div
+                          className="mt-0.5 line-clamp-2 text-sm [&_mark]:bg-yellow-200/70 [&_mark]:text-foreground dark:[&_mark]:bg-yellow-500/30"
+                          dangerouslySetInnerHTML={{ __html: hit.snippet }}
+                        />
+                      </div>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SearchPalette;
@@ -4,7 +4,8 @@
  * ║                       SIDEBAR.TSX - CHAT HISTORY SIDEBAR                      ║
  * ║                                                                               ║
  * ║  A collapsible sidebar component that displays chat history organized by      ║
- * ║  time periods (Today, Yesterday, Previous 7 Days, Older). Provides:           ║
+ * ║  pinned chats, folders, time periods (Today, Yesterday, Previous 7 Days,      ║
+ * ║  Older) and an archive (see chat-organizer.tsx). Provides:                    ║
  * ║                                                                               ║
  * ║    - Mobile-responsive slide-in/out behavior                                  ║
  * ║    - Chat session navigation and selection                                    ║
@@ -58,7 +59,6 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 /**
  * Lucide Icons for UI elements
  * - Plus: New chat button
- * - MessageSquare: Chat item icon
  * - Settings: Settings menu item
  * - HelpCircle: Help menu item
  * - Menu: Mobile menu toggle (unused)
@@ -68,7 +68,6 @@ import { ScrollArea } from "@/components/ui/scroll-area";
  */
 import { 
   Plus, 
-  MessageSquare, 
   Settings, 
   HelpCircle, 
   Menu, 
@@ -91,6 +90,9 @@ import {
   RefreshCw,
   Brain,
   Calendar,
+  GitBranch,
+  ShieldCheck,
+  Layers,
   LogIn,
   LogOut,
   User,
@@ -119,6 +121,16 @@ import type { Chat } from "@shared/schema";
  */
 import { formatDistanceToNow } from "date-fns";
 
+/**
+ * Full-text search across all chats
+ */
+import { SearchPalette, type ChatSearchHit } from "./search-palette";
+
+/**
+ * Chat list grouped into pinned, folders, dates and archive
+ */
+import { ChatOrganizer } from "./chat-organizer";
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -132,6 +144,8 @@ import { formatDistanceToNow } from "date-fns";
  * @property {Chat[]} chats - Array of chat sessions to display
  * @property {string | null} currentChatId - ID of currently selected chat
  * @property {(chatId: string) => void} onChatSelect - Callback when chat is selected
+ * @property {(hit: ChatSearchHit) => void} onSearchResultSelect - Jump to a search hit (enables chat search)
+ * @property {() => void} onChatsChanged - Reload chats after organizing (folders, tags, archive, delete)
  */
 interface SidebarProps {
   isOpen: boolean;
@@ -142,6 +156,8 @@ interface SidebarProps {
   onChatSelect: (chatId: string) => void;
   isCollapsed: boolean;
   setIsCollapsed: (collapsed: boolean) => void;
+  onSearchResultSelect?: (hit: ChatSearchHit) => void;
+  onChatsChanged?: () => void;
 }
 
 // ============================================================================
@@ -175,7 +191,7 @@ interface SidebarProps {
  *   onChatSelect={handleChatSelect}
  * />
  */
-export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, onChatSelect, isCollapsed, setIsCollapsed }: SidebarProps) {
+export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, onChatSelect, isCollapsed, setIsCollapsed, onSearchResultSelect, onChatsChanged }: SidebarProps) {
   const [location] = useLocation();
   const { liveMode, revision, uiRevision, refresh, isLoading, googleConnected, githubConnected } = useAppSession();
   const { user, isAuthenticated } = useAuth();
@@ -194,6 +210,21 @@ export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, on
   
   // Only apply collapsed state on desktop - mobile always shows full sidebar
   const effectiveCollapsed = isDesktop && isCollapsed;
+
+  // Chat search palette (Ctrl/⌘+K)
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  useEffect(() => {
+    if (!onSearchResultSelect) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [onSearchResultSelect]);
   
   // ===========================================================================
   // EVENT HANDLERS
@@ -210,53 +241,15 @@ export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, on
     setIsOpen(false); // Close sidebar on mobile after selection
   };
 
-  // ===========================================================================
-  // HELPER FUNCTIONS
-  // ===========================================================================
-
   /**
-   * Group chats by time period
-   * 
-   * Categorizes chats into 4 groups based on their updatedAt timestamp:
-   * - Today: Updated within last 24 hours
-   * - Yesterday: Updated 24-48 hours ago
-   * - Previous 7 Days: Updated 2-7 days ago
-   * - Older: Updated more than 7 days ago
-   * 
-   * @returns {Object} Object with arrays for each time period
+   * Handle a search result pick
+   * Jumps to the matching message and closes the sidebar on mobile
    */
-  const groupChatsByDate = () => {
-    const now = new Date();
-    const today: Chat[] = [];
-    const yesterday: Chat[] = [];
-    const previous7Days: Chat[] = [];
-    const older: Chat[] = [];
-
-    // Iterate through all chats and categorize by age
-    (chats || []).forEach((chat) => {
-      const chatDate = new Date(chat.updatedAt);
-      const diffInMs = now.getTime() - chatDate.getTime();
-      const diffInHours = diffInMs / (1000 * 60 * 60);
-      const diffInDays = diffInHours / 24;
-
-      // Categorize based on time difference
-      if (diffInHours < 24) {
-        today.push(chat);
-      } else if (diffInDays < 2) {
-        yesterday.push(chat);
-      } else if (diffInDays < 7) {
-        previous7Days.push(chat);
-      } else {
-        older.push(chat);
-      }
-    });
-
-    return { today, yesterday, previous7Days, older };
+  const handleSearchResultClick = (hit: ChatSearchHit) => {
+    onSearchResultSelect?.(hit);
+    setIsOpen(false);
   };
 
-  // Group chats for rendering
-  const { today, yesterday, previous7Days, older } = groupChatsByDate();
-
   // ===========================================================================
   // RENDER
   // ===========================================================================
@@ -331,8 +324,38 @@ export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, on
             <Plus className="h-5 w-5 text-primary" />
             {!effectiveCollapsed && <span className="font-medium text-sm">New chat</span>}
           </Button>
+
+          {onSearchResultSelect && (
+            <Button
+              onClick={() => setIsSearchOpen(true)}
+              variant="ghost"
+              title={effectiveCollapsed ? "Search chats (Ctrl+K)" : undefined}
+              className={cn(
+                "mt-2 rounded-full text-muted-foreground hover:text-foreground flex items-center",
+                effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-4 h-9 px-5"
+              )}
+              data-testid="button-search-chats"
+            >
+              <Search className="h-4 w-4" />
+              {!effectiveCollapsed && (
+                <>
+                  <span className="text-sm">Search chats</span>
+                  <span className="ml-auto text-xs opacity-60">Ctrl K</span>
+                </>
+              )}
+            </Button>
+          )}
         </div>
 
+        {onSearchResultSelect && (
+          <SearchPalette
+            open={isSearchOpen}
+            onOpenChange={setIsSearchOpen}
+            currentChatId={currentChatId}
+            onSelect={handleSearchResultClick}
+          />
+        )}
+
         {/* 
          * Main Content Area (Scrollable)
          * Contains both chat history and footer tools in a single scrollable area
@@ -341,109 +364,15 @@ export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, on
         <ScrollArea className="flex-1">
           <div className={cn("space-y-6 py-2", effectiveCollapsed ? "px-2" : "px-4")}>
             
-            {/* TODAY section */}
-            {today.length > 0 && (
-              <div>
-                {!effectiveCollapsed && <h3 className="text-xs font-semibold text-muted-foreground mb-3 px-2">Today</h3>}
-                <div className="space-y-1">
-                  {today.map((chat) => (
-                    <Button
-                      key={chat.id}
-                      data-testid={`button-chat-${chat.id}`}
-                      variant="ghost"
-                      onClick={() => handleChatClick(chat.id)}
-                      title={effectiveCollapsed ? chat.title : undefined}
-                      className={cn(
-                        "font-normal text-sm text-muted-foreground hover:text-foreground hover:bg-secondary/50 rounded-lg overflow-hidden",
-                        effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3 h-9 px-2",
-                        currentChatId === chat.id && "bg-secondary/50 text-foreground"
-                      )}
-                    >
-                      <MessageSquare className="h-4 w-4 shrink-0" />
-                      {!effectiveCollapsed && <span className="truncate">{chat.title}</span>}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-            )}
-            
-            {/* YESTERDAY section */}
-            {yesterday.length > 0 && (
-              <div>
-                {!effectiveCollapsed && <h3 className="text-xs font-semibold text-muted-foreground mb-3 px-2">Yesterday</h3>}
-                <div className="space-y-1">
-                  {yesterday.map((chat) => (
-                    <Button
-                      key={chat.id}
-                      data-testid={`button-chat-${chat.id}`}
-                      variant="ghost"
-                      onClick={() => handleChatClick(chat.id)}
-                      title={effectiveCollapsed ? chat.title : undefined}
-                      className={cn(
-                        "font-normal text-sm text-muted-foreground hover:text-foreground hover:bg-secondary/50 rounded-lg overflow-hidden",
-                        effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3 h-9 px-2",
-                        currentChatId === chat.id && "bg-secondary/50 text-foreground"
-                      )}
-                    >
-                      <MessageSquare className="h-4 w-4 shrink-0" />
-                      {!effectiveCollapsed && <span className="truncate">{chat.title}</span>}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* PREVIOUS 7 DAYS section */}
-            {previous7Days.length > 0 && (
-              <div>
-                {!effectiveCollapsed && <h3 className="text-xs font-semibold text-muted-foreground mb-3 px-2">Previous 7 Days</h3>}
-                <div className="space-y-1">
-                  {previous7Days.map((chat) => (
-                    <Button
-                      key={chat.id}
-                      data-testid={`button-chat-${chat.id}`}
-                      variant="ghost"
-                      onClick={() => handleChatClick(chat.id)}
-                      title={effectiveCollapsed ? chat.title : undefined}
-                      className={cn(
-                        "font-normal text-sm text-muted-foreground hover:text-foreground hover:bg-secondary/50 rounded-lg overflow-hidden",
-                        effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3 h-9 px-2",
-                        currentChatId === chat.id && "bg-secondary/50 text-foreground"
-                      )}
-                    >
-                      <MessageSquare className="h-4 w-4 shrink-0" />
-                      {!effectiveCollapsed && <span className="truncate">{chat.title}</span>}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* OLDER section */}
-            {older.length > 0 && (
-              <div>
-                {!effectiveCollapsed && <h3 className="text-xs font-semibold text-muted-foreground mb-3 px-2">Older</h3>}
-                <div className="space-y-1">
-                  {older.map((chat) => (
-                    <Button
-                      key={chat.id}
-                      data-testid={`button-chat-${chat.id}`}
-                      variant="ghost"
-                      onClick={() => handleChatClick(chat.id)}
-                      title={effectiveCollapsed ? chat.title : undefined}
-                      className={cn(
-                        "font-normal text-sm text-muted-foreground hover:text-foreground hover:bg-secondary/50 rounded-lg overflow-hidden",
-                        effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3 h-9 px-2",
-                        currentChatId === chat.id && "bg-secondary/50 text-foreground"
-                      )}
-                    >
-                      <MessageSquare className="h-4 w-4 shrink-0" />
-                      {!effectiveCollapsed && <span className="truncate">{chat.title}</span>}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-            )}
+            {/* CHATS: pinned, folders, unfiled by date, archived */}
+            <ChatOrganizer
+              chats={chats || []}
+              currentChatId={currentChatId}
+              isCollapsed={effectiveCollapsed}
+              onChatClick={handleChatClick}
+              onChatsChanged={onChatsChanged}
+              onCurrentChatDeleted={onNewChat}
+            />
 
             {/* Separator for Tools */}
             <div className="border-t border-border/50 pt-4 mt-4">
@@ -779,6 +708,57 @@ export function Sidebar({ isOpen, setIsOpen, onNewChat, chats, currentChatId, on
                   </Button>
                 </Link>
 
+                {/* Workflow Editor Button */}
+                <Link href="/workflows">
+                  <Button 
+                    variant="ghost" 
+                    className={cn(
+                      "font-normal text-muted-foreground hover:text-foreground",
+                      effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3",
+                      location === "/workflows" && "bg-secondary/50 text-foreground"
+                    )}
+                    title={effectiveCollapsed ? "Workflows" : undefined}
+                    data-testid="button-workflows"
+                  >
+                    <GitBranch className="h-4 w-4" />
+                    {!effectiveCollapsed && "Workflows"}
+                  </Button>
+                </Link>
+
+                {/* Approvals Button */}
+                <Link href="/approvals">
+                  <Button 
+                    variant="ghost" 
+                    className={cn(
+                      "font-normal text-muted-foreground hover:text-foreground",
+                      effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3",
+                      location === "/approvals" && "bg-secondary/50 text-foreground"
+                    )}
+                    title={effectiveCollapsed ? "Approvals" : undefined}
+                    data-testid="button-approvals"
+                  >
+                    <ShieldCheck className="h-4 w-4" />
+                    {!effectiveCollapsed && "Approvals"}
+                  </Button>
+                </Link>
+
+                {/* State Inspector Button */}
+                <Link href="/state">
+                  <Button 
+                    variant="ghost" 
+                    className={cn(
+                      "font-normal text-muted-foreground hover:text-foreground",
+                      effectiveCollapsed ? "w-12 h-9 p-0 justify-center" : "w-full justify-start gap-3",
+                      location === "/state" && "bg-secondary/50 text-foreground"
+                    )}
+                    title={effectiveCollapsed ? "State Inspector" : undefined}
+                    data-testid="button-state-inspector"
+                  >
+                    <Layers className="h-4 w-4" />
+                    {!effectiveCollapsed && "State Inspector"}
+                  </Button>
+                </Link>
+
                 {/* Knowledge Ingestion Button */}
                 <Link href="/knowledge">
                   <Button 
@@ -0,0 +1,101 @@
+/**
+ * Tool Approval Card
+ *
+ * Shown in the chat while the server waits for the user to approve or deny
+ * a tool call that the permission policy marked "ask" (terminal commands,
+ * file writes, database changes, SMS, calls). The decision is POSTed to
+ * /api/tool-approvals/:id and the agentic turn resumes.
+ */
+
+import { useState } from "react";
+import { ShieldAlert, Check, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface PendingToolApproval {
+  id: string;
+  toolCallId: string;
+  toolType: string;
+  request: Record<string, unknown>;
+  reason: string;
+  expiresAt: string;
+}
+
+interface ToolApprovalCardProps {
+  approval: PendingToolApproval;
+  /** Called after the decision was accepted by the server */
+  onDecided: (id: string) => void;
+}
+
+/**
+ * The most telling argument for each guarded tool, shown prominently
+ */
+function summarize(approval: PendingToolApproval): string | undefined {
+  const { request } = approval;
+  const key = ["command", "path", "table", "to", "contact_name"].find(k => typeof request[k] === "string");
+  return key ? String(request[key]) : undefined;
+}
+
+export function ToolApprovalCard({ approval, onDecided }: ToolApprovalCardProps) {
+  const [submitting, setSubmitting] = useState<"approve" | "deny" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const summary = summarize(approval);
+
+  const decide = async (approved: boolean) => {
+    setSubmitting(approved ? "approve" : "deny");
+    setError(null);
+    try {
+      await apiRequest("POST", `/api/tool-approvals/${approval.id}`, { approved });
+      onDecided(approval.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send decision");
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div
+      className="mx-auto my-3 max-w-3xl rounded-lg border border-amber-500/40 bg-amber-500/5 p-4"
+      data-testid={`card-tool-approval-${approval.id}`}
+    >
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="mt-0.5 h-5 w-5 shrink-0 text-amber-500" />
+        <div className="min-w-0 flex-1 space-y-2">
+          <div className="text-sm font-medium">
+            Allow <code className="rounded bg-muted px-1 py-0.5">{approval.toolType}</code>?
+          </div>
+          <div className="text-xs text-muted-foreground">{approval.reason}</div>
+          {summary && (
+            <pre className="overflow-x-auto whitespace-pre-wrap break-all rounded bg-muted p-2 text-xs">{summary}</pre>
+          )}
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">All arguments</summary>
+            <pre className="mt-1 overflow-x-auto rounded bg-muted p-2">{JSON.stringify(approval.request, null, 2)}</pre>
+          </details>
+          {error && <div className="text-xs text-red-500">{error}</div>}
+          <div className="flex gap-2 pt-1">
+            <Button
+              size="sm"
+              onClick={() => decide(true)}
+              disabled={submitting !== null}
+              data-testid={`button-approve-tool-${approval.id}`}
+            >
+              {submitting === "approve" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Check className="mr-1 h-4 w-4" />}
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => decide(false)}
+              disabled={submitting !== null}
+              data-testid={`button-deny-tool-${approval.id}`}
+            >
+              {submitting === "deny" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <X className="mr-1 h-4 w-4" />}
+              Deny
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
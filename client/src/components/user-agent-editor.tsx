@@ -0,0 +1,271 @@
+/**
+ * User Agent Editor - The "Personas" tab of Agent Settings
+ *
+ * Create and edit the user's agents (/api/user-agents). A chat bound to an
+ * agent (see components/chat/agent-picker.tsx) uses its persona and
+ * instructions in the system prompt, its model, only the tools ticked here,
+ * and signs email and GitHub comments with its signatures.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, Save, Star, Trash2 } from "lucide-react";
+import type { UserAgent } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { USER_AGENTS_QUERY_KEY } from "@/components/chat/agent-picker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+type AgentDraft = Pick<
+  UserAgent,
+  | "name"
+  | "displayName"
+  | "description"
+  | "personalityPrompt"
+  | "systemPromptOverrides"
+  | "llmProvider"
+  | "llmModel"
+  | "allowedTools"
+  | "emailSignature"
+  | "githubSignature"
+>;
+
+interface ToolOption {
+  name: string;
+  description?: string;
+}
+
+function toDraft(agent: UserAgent): AgentDraft {
+  return {
+    name: agent.name,
+    displayName: agent.displayName,
+    description: agent.description,
+    personalityPrompt: agent.personalityPrompt,
+    systemPromptOverrides: agent.systemPromptOverrides,
+    llmProvider: agent.llmProvider,
+    llmModel: agent.llmModel,
+    allowedTools: agent.allowedTools,
+    emailSignature: agent.emailSignature,
+    githubSignature: agent.githubSignature,
+  };
+}
+
+/** Blank inputs are saved as null so the agent falls back to the defaults */
+function toPayload(draft: AgentDraft): AgentDraft {
+  const blank = (value: string | null) => (value?.trim() ? value : null);
+  return {
+    ...draft,
+    description: blank(draft.description),
+    personalityPrompt: blank(draft.personalityPrompt),
+    systemPromptOverrides: blank(draft.systemPromptOverrides),
+    llmProvider: blank(draft.llmProvider),
+    llmModel: blank(draft.llmModel),
+    emailSignature: blank(draft.emailSignature),
+    githubSignature: blank(draft.githubSignature),
+  };
+}
+
+export function UserAgentEditor() {
+  const { toast } = useToast();
+  const { data } = useQuery<{ agents: UserAgent[] }>({ queryKey: USER_AGENTS_QUERY_KEY });
+  const { data: toolData } = useQuery<{ tools: ToolOption[] }>({ queryKey: ["/api/user-agents/tools"] });
+  const agents = data?.agents ?? [];
+  const tools = toolData?.tools ?? [];
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AgentDraft | null>(null);
+  const selected = agents.find(agent => agent.id === selectedId) ?? agents[0];
+
+  useEffect(() => {
+    setDraft(selected ? toDraft(selected) : null);
+  }, [selected]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: USER_AGENTS_QUERY_KEY });
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createAgent = () => run(async () => {
+    const res = await apiRequest("POST", "/api/user-agents", {
+      name: `agent-${agents.length + 1}`,
+      displayName: `New Agent ${agents.length + 1}`,
+    });
+    const { agent } = await res.json();
+    setSelectedId(agent.id);
+  }, "Could not create agent");
+
+  const saveAgent = () => selected && draft && run(async () => {
+    await apiRequest("PATCH", `/api/user-agents/${selected.id}`, toPayload(draft));
+    toast({ title: "Agent saved", description: `${draft.displayName} applies from the next message.` });
+  }, "Could not save agent");
+
+  const makeDefault = () => selected && run(async () => {
+    await apiRequest("POST", `/api/user-agents/${selected.id}/default`);
+  }, "Could not set the default agent");
+
+  const deleteAgent = () => selected && run(async () => {
+    await apiRequest("DELETE", `/api/user-agents/${selected.id}`);
+    setSelectedId(null);
+  }, "Could not delete agent");
+
+  const update = (changes: Partial<AgentDraft>) => setDraft(previous => (previous ? { ...previous, ...changes } : previous));
+
+  const toggleTool = (name: string, enabled: boolean) => {
+    const current = draft?.allowedTools ?? [];
+    update({ allowedTools: enabled ? [...current, name] : current.filter(tool => tool !== name) });
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[240px_1fr]">
+      <div className="border border-border rounded-lg bg-muted/20 p-4 space-y-2">
+        {agents.map(agent => (
+          <button
+            key={agent.id}
+            onClick={() => setSelectedId(agent.id)}
+            className={`w-full text-left p-3 rounded-lg border transition-colors ${
+              agent.id === selected?.id ? "border-primary bg-primary/5" : "hover:bg-muted"
+            }`}
+            data-testid={`agent-${agent.id}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium truncate">{agent.displayName}</span>
+              {agent.isDefault && <Badge variant="secondary">Default</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">{agent.name}</p>
+          </button>
+        ))}
+        <Button variant="outline" className="w-full gap-2" onClick={createAgent} data-testid="button-new-agent">
+          <Plus className="h-4 w-4" />
+          New Agent
+        </Button>
+      </div>
+
+      {selected && draft ? (
+        <div className="border border-border rounded-lg bg-muted/20 p-6 space-y-5">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="agent-display-name">Display name</Label>
+              <Input id="agent-display-name" value={draft.displayName} onChange={e => update({ displayName: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-name">Name the agent answers to</Label>
+              <Input id="agent-name" value={draft.name} onChange={e => update({ name: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="agent-personality">Persona</Label>
+            <Textarea
+              id="agent-personality"
+              rows={5}
+              placeholder="How this agent thinks, talks and behaves"
+              value={draft.personalityPrompt ?? ""}
+              onChange={e => update({ personalityPrompt: e.target.value })}
+              data-testid="input-agent-personality"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="agent-overrides">Instructions</Label>
+            <Textarea
+              id="agent-overrides"
+              rows={4}
+              placeholder="Rules that take precedence over the default system prompt"
+              value={draft.systemPromptOverrides ?? ""}
+              onChange={e => update({ systemPromptOverrides: e.target.value })}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="agent-provider">LLM provider</Label>
+              <Input id="agent-provider" placeholder="Service default" value={draft.llmProvider ?? ""} onChange={e => update({ llmProvider: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-model">Model</Label>
+              <Input id="agent-model" placeholder="Provider default" value={draft.llmModel ?? ""} onChange={e => update({ llmModel: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="agent-email-signature">Email signature</Label>
+              <Textarea id="agent-email-signature" rows={3} value={draft.emailSignature ?? ""} onChange={e => update({ emailSignature: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-github-signature">GitHub signature</Label>
+              <Textarea id="agent-github-signature" rows={3} value={draft.githubSignature ?? ""} onChange={e => update({ githubSignature: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">All tools</p>
+                <p className="text-sm text-muted-foreground">
+                  Turn off to pick the tools this agent may use (chat output tools are always allowed)
+                </p>
+              </div>
+              <Switch
+                checked={draft.allowedTools === null}
+                onCheckedChange={all => update({ allowedTools: all ? null : [] })}
+                data-testid="switch-agent-all-tools"
+              />
+            </div>
+            {draft.allowedTools !== null && (
+              <ScrollArea className="h-64 rounded-lg border p-3">
+                <div className="grid gap-2 md:grid-cols-2">
+                  {tools.map(tool => (
+                    <label key={tool.name} className="flex items-start gap-2 text-sm" title={tool.description}>
+                      <Checkbox
+                        checked={draft.allowedTools?.includes(tool.name) ?? false}
+                        onCheckedChange={checked => toggleTool(tool.name, checked === true)}
+                      />
+                      <span className="font-mono">{tool.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button className="gap-2" onClick={saveAgent} data-testid="button-save-agent">
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+            {!selected.isDefault && (
+              <Button variant="outline" className="gap-2" onClick={makeDefault} data-testid="button-default-agent">
+                <Star className="h-4 w-4" />
+                Make Default
+              </Button>
+            )}
+            <Button variant="ghost" className="gap-2 text-destructive" onClick={deleteAgent} data-testid="button-delete-agent">
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="border border-border rounded-lg bg-muted/20 p-6 text-sm text-muted-foreground">
+          No agents yet. Create one to give chats their own persona, model, tools and signatures.
+        </div>
+      )}
+    </div>
+  );
+}
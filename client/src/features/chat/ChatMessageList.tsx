@@ -1,6 +1,7 @@
 import { useRef, useEffect } from "react";
 import type { Message } from "@shared/schema";
 import { ChatMessage } from "@/components/chat/message";
+import type { BranchedMessage } from "@/lib/chat-branches";
 
 interface ChatMessageListProps {
   messages: Message[];
@@ -9,6 +10,12 @@ interface ChatMessageListProps {
   isLoadingMore: boolean;
   loadMoreMessages: () => void;
   currentChatId: string | null;
+  /** Resend a user message with new content as a new branch */
+  onEditMessage?: (messageId: string, content: string) => void;
+  /** Answer the prompt behind an AI reply again as a new branch */
+  onRegenerateMessage?: (messageId: string) => void;
+  /** Show the branch containing a message */
+  onSelectBranch?: (messageId: string) => void;
 }
 
 export function ChatMessageList({
@@ -18,6 +25,9 @@ export function ChatMessageList({
   isLoadingMore,
   loadMoreMessages,
   currentChatId,
+  onEditMessage,
+  onRegenerateMessage,
+  onSelectBranch,
 }: ChatMessageListProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const lastMessageRef = useRef<HTMLDivElement>(null);
@@ -60,6 +70,8 @@ export function ChatMessageList({
         }
 
         const isLastMessage = index === messages.length - 1;
+        // Optimistic messages have no server id to fork from yet
+        const isSaved = !msg.id.startsWith("temp-");
 
         return (
           <div key={msg.id} ref={isLastMessage ? lastMessageRef : undefined}>
@@ -71,6 +83,19 @@ export function ChatMessageList({
               metadata={(msg as any).metadata}
               createdAt={msg.createdAt}
               promptSnapshot={promptSnapshot}
+              branch={(msg as BranchedMessage).branch}
+              onSelectBranch={onSelectBranch}
+              onEdit={
+                isSaved && msg.role === "user" && onEditMessage
+                  ? (content) => onEditMessage(msg.id, content)
+                  : undefined
+              }
+              onRegenerate={
+                isSaved && msg.role === "ai" && onRegenerateMessage
+                  ? () => onRegenerateMessage(msg.id)
+                  : undefined
+              }
+              actionsDisabled={isLoading}
             />
           </div>
         );
@@ -54,6 +54,9 @@ export default function ChatPage() {
     isLoadingMore,
     loadMoreMessages,
     handleSendMessage,
+    handleEditMessage,
+    handleRegenerateMessage,
+    handleSelectBranch,
     handleStopGeneration,
   } = useChat({
     currentChatId,
@@ -284,6 +287,9 @@ export default function ChatPage() {
                     isLoadingMore={isLoadingMore}
                     loadMoreMessages={loadMoreMessages}
                     currentChatId={currentChatId}
+                    onEditMessage={handleEditMessage}
+                    onRegenerateMessage={handleRegenerateMessage}
+                    onSelectBranch={handleSelectBranch}
                   />
                 )}
               </div>
@@ -2,6 +2,12 @@ import { useState, useRef, useEffect } from "react";
 import type { Chat, Message } from "@shared/schema";
 import { useTTS } from "@/contexts/tts-context";
 import { playSound } from "@/lib/soundboard";
+import {
+  chatTurnUrl,
+  messagesBeforeTurn,
+  selectChatBranch,
+  type BranchTurn,
+} from "@/lib/chat-branches";
 
 interface Attachment {
   id: string;
@@ -163,7 +169,8 @@ export function useChat({
 
   const handleSendMessage = async (
     content: string,
-    attachments: Attachment[] = []
+    attachments: Attachment[] = [],
+    turn?: BranchTurn
   ) => {
     console.log(
       "[handleSendMessage] Starting with content:",
@@ -190,6 +197,11 @@ export function useChat({
         abortControllerRef.current.abort();
       }
 
+      if (!chatId && turn) {
+        console.error("[handleSendMessage] Cannot edit or regenerate without a chat");
+        return;
+      }
+
       if (!chatId) {
         console.log("[handleSendMessage] No chat ID, creating new chat...");
         const newChatId = await handleNewChat();
@@ -212,7 +224,15 @@ export function useChat({
         createdAt: new Date(),
         metadata: null,
       } as unknown as Message;
-      setMessages((prev) => [...prev, tempUserMessage]);
+      // Edits and regenerations replace everything from the forked message on
+      if (turn?.kind === "regenerate") {
+        setMessages((prev) => messagesBeforeTurn(prev, turn));
+      } else {
+        setMessages((prev) => [
+          ...(turn ? messagesBeforeTurn(prev, turn) : prev),
+          tempUserMessage,
+        ]);
+      }
       setIsLoading(true);
 
       const storedSettings = localStorage.getItem("meowstic-settings");
@@ -223,7 +243,7 @@ export function useChat({
       const abortController = new AbortController();
       abortControllerRef.current = abortController;
 
-      const response = await fetch(`/api/chats/${chatId}/messages`, {
+      const response = await fetch(chatTurnUrl(chatId, turn), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
@@ -615,7 +635,8 @@ export function useChat({
                   );
                 }
 
-                if (data.savedMessage) {
+                // Forked turns reload to pick up the new branch positions
+                if (data.savedMessage && !turn) {
                   console.log(
                     "[SSE] Replacing temp message with saved message:",
                     data.savedMessage.id
@@ -641,9 +662,11 @@ export function useChat({
                     pollForAutoexecResult(chatId, data.savedMessage.id);
                   }
                 } else {
-                  console.warn(
-                    "[SSE] No savedMessage in done event, falling back to full reload"
-                  );
+                  if (!turn) {
+                    console.warn(
+                      "[SSE] No savedMessage in done event, falling back to full reload"
+                    );
+                  }
                   const updatedMessages = await loadChatMessages(chatId);
 
                   if (data.pendingAutoexec && updatedMessages) {
@@ -707,6 +730,28 @@ export function useChat({
     }
   };
 
+  const handleEditMessage = (messageId: string, content: string) =>
+    handleSendMessage(content, [], { kind: "edit", messageId });
+
+  const handleRegenerateMessage = (messageId: string) =>
+    handleSendMessage("", [], { kind: "regenerate", messageId });
+
+  const handleSelectBranch = async (messageId: string) => {
+    if (!currentChatId || isLoading) return;
+    try {
+      const data = await selectChatBranch(currentChatId, messageId);
+      setMessages(
+        data.messages.map((msg: any) => ({
+          ...msg,
+          metadata: msg.metadata || undefined,
+        }))
+      );
+      setHasMoreMessages(data.hasMore || false);
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+    }
+  };
+
   const handleStopGeneration = () => {
     console.log("[handleStopGeneration] Stop button clicked");
     activeGenerationIdRef.current += 1;
@@ -763,6 +808,9 @@ export function useChat({
     loadChatMessages,
     loadMoreMessages,
     handleSendMessage,
+    handleEditMessage,
+    handleRegenerateMessage,
+    handleSelectBranch,
     handleStopGeneration,
   };
 }
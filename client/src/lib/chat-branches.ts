@@ -0,0 +1,54 @@
+/**
+ * Chat Branches
+ *
+ * Helpers for editing a past user message or regenerating an AI reply.
+ * Both fork the conversation: the server keeps the old version as a sibling
+ * branch and streams the new turn like a normal send.
+ */
+
+import type { Message } from "@shared/schema";
+import type { MessageBranchInfo } from "@shared/message-tree";
+
+export type BranchTurn =
+  | { kind: "edit"; messageId: string }
+  | { kind: "regenerate"; messageId: string };
+
+/** A message as returned by the chat API, with its branch position if it has siblings */
+export type BranchedMessage = Message & { branch?: MessageBranchInfo };
+
+/**
+ * Endpoint that streams a turn: a normal send, an edit or a regeneration
+ */
+export function chatTurnUrl(chatId: string, turn?: BranchTurn): string {
+  if (!turn) return `/api/chats/${chatId}/messages`;
+  return `/api/chats/${chatId}/messages/${turn.messageId}/${turn.kind}`;
+}
+
+/**
+ * Messages that stay visible while a forked turn streams: everything before
+ * the edited or regenerated message.
+ */
+export function messagesBeforeTurn<T extends { id: string }>(messages: T[], turn: BranchTurn): T[] {
+  const index = messages.findIndex(m => m.id === turn.messageId);
+  return index === -1 ? messages : messages.slice(0, index);
+}
+
+/**
+ * Switch the chat to the branch containing messageId. Returns the first page
+ * of that branch, like GET /api/chats/:id.
+ */
+export async function selectChatBranch(
+  chatId: string,
+  messageId: string
+): Promise<{ messages: BranchedMessage[]; hasMore: boolean }> {
+  const response = await fetch(`/api/chats/${chatId}/branch`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ messageId }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to switch branch: ${response.status}`);
+  }
+  return response.json();
+}
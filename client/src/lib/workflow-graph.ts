@@ -0,0 +1,215 @@
+/**
+ * Layout and editing helpers for the workflow editor's node graph.
+ *
+ * Steps are laid out in columns by dependency level (the same levels the
+ * dry-run validator plans with), so the graph always reads left to right.
+ * Edges come from `needs` (explicit, removable in the editor) and from
+ * template references (implied, removed by editing the template).
+ * Every edit returns a new definition.
+ */
+
+import { executionLevels, findCycles } from "@shared/dag";
+import {
+  workflowStepDependencies,
+  WORKFLOW_DSL_VERSION,
+  type WorkflowDefinition,
+  type WorkflowStep,
+} from "@shared/workflow-dsl";
+
+export const NODE_WIDTH = 200;
+export const NODE_HEIGHT = 72;
+const COLUMN_GAP = 80;
+const ROW_GAP = 28;
+const PADDING = 24;
+
+export interface GraphNode {
+  id: string;
+  step: WorkflowStep;
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  /** Listed in `needs`, as opposed to implied by a template */
+  explicit: boolean;
+}
+
+export interface WorkflowGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  width: number;
+  height: number;
+  /** Steps on a dependency cycle */
+  cyclic: Set<string>;
+}
+
+export function layoutWorkflowGraph(definition: WorkflowDefinition): WorkflowGraph {
+  const dependencies = workflowStepDependencies(definition);
+  const dagNodes = definition.steps.map(step => ({ id: step.id, dependencies: dependencies[step.id] ?? [] }));
+  const levels = executionLevels(dagNodes);
+
+  // Steps on or behind a cycle have no level; they get a column of their own
+  const placed = new Set(levels.flat());
+  const unplaced = definition.steps.map(step => step.id).filter(id => !placed.has(id));
+  if (unplaced.length > 0) levels.push(unplaced);
+
+  const position = new Map<string, { x: number; y: number }>();
+  levels.forEach((level, column) => {
+    level.forEach((id, row) => {
+      position.set(id, {
+        x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  const nodes = definition.steps
+    .filter(step => position.has(step.id))
+    .map(step => ({ id: step.id, step, ...position.get(step.id)! }));
+
+  const ids = new Set(definition.steps.map(step => step.id));
+  const edges = definition.steps.flatMap(step =>
+    (dependencies[step.id] ?? [])
+      .filter(from => ids.has(from))
+      .map(from => ({ from, to: step.id, explicit: (step.needs ?? []).includes(from) }))
+  );
+
+  const tallest = Math.max(1, ...levels.map(level => level.length));
+  return {
+    nodes,
+    edges,
+    width: PADDING * 2 + levels.length * NODE_WIDTH + Math.max(0, levels.length - 1) * COLUMN_GAP,
+    height: PADDING * 2 + tallest * NODE_HEIGHT + (tallest - 1) * ROW_GAP,
+    cyclic: new Set(findCycles(dagNodes).flat()),
+  };
+}
+
+/** A fresh step id not used yet: step_1, step_2, ... */
+export function nextStepId(definition: WorkflowDefinition, prefix = "step"): string {
+  const ids = new Set(definition.steps.map(step => step.id));
+  let n = definition.steps.length + 1;
+  while (ids.has(`${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+}
+
+export function newStep(id: string, type: WorkflowStep["type"]): WorkflowStep {
+  switch (type) {
+    case "tool":
+      return { id, type, tool: "", args: {} };
+    case "task":
+      return { id, type, taskType: "research", description: "" };
+    case "approval":
+      return { id, type, title: "", notify: { channels: ["app"] } };
+    default:
+      return { id, type: "prompt", prompt: "" };
+  }
+}
+
+/** Add a step, optionally depending on an existing one */
+export function addStep(definition: WorkflowDefinition, type: WorkflowStep["type"], after?: string): WorkflowDefinition {
+  const step = newStep(nextStepId(definition), type);
+  if (after) step.needs = [after];
+  return { ...definition, steps: [...definition.steps, step] };
+}
+
+/** Remove a step and any `needs` pointing at it. Templates reading it are left for validation to flag. */
+export function removeStep(definition: WorkflowDefinition, id: string): WorkflowDefinition {
+  return {
+    ...definition,
+    steps: definition.steps
+      .filter(step => step.id !== id)
+      .map(step => step.needs?.includes(id) ? withNeeds(step, step.needs.filter(need => need !== id)) : step),
+  };
+}
+
+export function updateStep(definition: WorkflowDefinition, id: string, update: (step: WorkflowStep) => WorkflowStep): WorkflowDefinition {
+  return { ...definition, steps: definition.steps.map(step => step.id === id ? update(step) : step) };
+}
+
+function withNeeds(step: WorkflowStep, needs: string[]): WorkflowStep {
+  const next = { ...step };
+  delete next.needs;
+  return needs.length > 0 ? { ...next, needs } : next;
+}
+
+/** Make `to` wait for `from` */
+export function connectSteps(definition: WorkflowDefinition, from: string, to: string): WorkflowDefinition {
+  if (from === to) return definition;
+  return updateStep(definition, to, step =>
+    step.needs?.includes(from) ? step : withNeeds(step, [...(step.needs ?? []), from])
+  );
+}
+
+export function disconnectSteps(definition: WorkflowDefinition, from: string, to: string): WorkflowDefinition {
+  return updateStep(definition, to, step => withNeeds(step, (step.needs ?? []).filter(need => need !== from)));
+}
+
+function renameInTemplates(value: unknown, from: string, to: string): unknown {
+  if (typeof value === "string") {
+    const reference = new RegExp(`(\\{\\{\\s*steps\\.)${from}(?=[.\\[\\s}])`, "g");
+    return value.replace(reference, `$1${to}`);
+  }
+  if (Array.isArray(value)) return value.map(entry => renameInTemplates(entry, from, to));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, renameInTemplates(entry, from, to)]));
+  }
+  return value;
+}
+
+/** Rename a step everywhere: its id, other steps' `needs` and {{steps.<id>...}} templates */
+export function renameStep(definition: WorkflowDefinition, from: string, to: string): WorkflowDefinition {
+  if (from === to) return definition;
+  return {
+    ...definition,
+    steps: definition.steps.map(step => {
+      const renamed = renameInTemplates(step, from, to) as WorkflowStep;
+      return {
+        ...renamed,
+        id: step.id === from ? to : step.id,
+        ...(step.needs ? { needs: step.needs.map(need => need === from ? to : need) } : {}),
+      };
+    }),
+  };
+}
+
+/** Steps as legacy workflows stored them, before the DSL */
+export interface LegacyWorkflowStep {
+  title: string;
+  description?: string;
+  taskType?: string;
+}
+
+/**
+ * The DSL equivalent of a legacy step list: task steps running one after
+ * another
+ */
+export function legacyStepsToDefinition(name: string, steps: LegacyWorkflowStep[]): WorkflowDefinition {
+  return {
+    version: WORKFLOW_DSL_VERSION,
+    name,
+    steps: steps.map((step, index) => ({
+      id: `step_${index + 1}`,
+      name: step.title,
+      type: "task" as const,
+      taskType: step.taskType || "action",
+      description: step.description || step.title,
+      ...(index > 0 ? { needs: [`step_${index}`] } : {}),
+    })),
+  };
+}
+
+/**
+ * Validation messages per step id, from issue paths like "steps[2].prompt"
+ */
+export function issuesByStep(definition: WorkflowDefinition, issues: Array<{ path: string; message: string }>): Map<string, string[]> {
+  const byStep = new Map<string, string[]>();
+  for (const issue of issues) {
+    const match = /^steps\[(\d+)\]/.exec(issue.path);
+    const step = match ? definition.steps[Number(match[1])] : undefined;
+    if (!step) continue;
+    byStep.set(step.id, [...(byStep.get(step.id) ?? []), issue.message]);
+  }
+  return byStep;
+}
@@ -12,6 +12,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { UserAgentEditor } from "@/components/user-agent-editor";
 import { 
   ArrowLeft, 
   Bot, 
@@ -29,7 +30,8 @@ import {
   Globe,
   Database,
   Terminal,
-  BookOpen
+  BookOpen,
+  UserCircle
 } from "lucide-react";
 
 // Tool categories with their tools
@@ -208,7 +210,11 @@ export default function AgentSettingsPage() {
         <ScrollArea className="flex-1">
           <main className="px-4 py-6 max-w-6xl mx-auto w-full">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-4 mb-6">
+              <TabsList className="grid w-full grid-cols-5 mb-6">
+                <TabsTrigger value="personas" className="gap-2" data-testid="tab-personas">
+                  <UserCircle className="h-4 w-4" />
+                  Personas
+                </TabsTrigger>
                 <TabsTrigger value="behavior" className="gap-2" data-testid="tab-behavior">
                   <Brain className="h-4 w-4" />
                   Behavior
@@ -227,6 +233,11 @@ export default function AgentSettingsPage() {
                 </TabsTrigger>
               </TabsList>
 
+              {/* Personas Tab */}
+              <TabsContent value="personas">
+                <UserAgentEditor />
+              </TabsContent>
+
               {/* Behavior Tab */}
               <TabsContent value="behavior">
                 <div className="grid gap-6 lg:grid-cols-2">
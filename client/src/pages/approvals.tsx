@@ -0,0 +1,393 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import {
+  ArrowLeft,
+  ShieldCheck,
+  RefreshCw,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Ban,
+  Pencil,
+  AlertCircle,
+} from "lucide-react";
+import { Link, useSearch } from "wouter";
+import { cn } from "@/lib/utils";
+import type { ApprovalStatus } from "@shared/approvals";
+
+/** GET /api/orchestration/approvals */
+interface Approval {
+  id: string;
+  jobId: string;
+  workflowRunId: string | null;
+  stepId: string | null;
+  title: string;
+  summary: string | null;
+  requestedParameters: Record<string, unknown> | null;
+  expiresAt: string | null;
+  onExpiry: string;
+  notifications: Array<{ channel: string; to?: string; ok: boolean; error?: string }> | null;
+  status: ApprovalStatus;
+  action: string | null;
+  parameters: Record<string, unknown> | null;
+  decidedBy: string | null;
+  comment: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+const statusConfig: Record<ApprovalStatus, { color: string; icon: React.ReactNode; label: string }> = {
+  pending: { color: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20", icon: <Clock className="w-3 h-3" />, label: "Pending" },
+  approved: { color: "bg-green-500/10 text-green-600 border-green-500/20", icon: <CheckCircle2 className="w-3 h-3" />, label: "Approved" },
+  rejected: { color: "bg-red-500/10 text-red-600 border-red-500/20", icon: <XCircle className="w-3 h-3" />, label: "Rejected" },
+  cancelled: { color: "bg-gray-500/10 text-gray-600 border-gray-500/20", icon: <Ban className="w-3 h-3" />, label: "Cancelled" },
+};
+
+const actionLabels: Record<string, string> = {
+  approve: "Approved as requested",
+  edit: "Approved with edits",
+  reject: "Rejected",
+  expire: "Expired",
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : "-");
+
+/** Parameters whose approved value differs from the requested one */
+function changedParameters(approval: Approval): string[] {
+  const requested = approval.requestedParameters ?? {};
+  const approved = approval.parameters ?? {};
+  return Object.keys(approved).filter(key => JSON.stringify(approved[key]) !== JSON.stringify(requested[key]));
+}
+
+export default function ApprovalsPage() {
+  const search = useSearch();
+  const [approvals, setApprovals] = useState<Approval[]>([]);
+  const [filter, setFilter] = useState<"pending" | "history">("pending");
+  const [selectedId, setSelectedId] = useState<string | null>(() => new URLSearchParams(search).get("id"));
+  const [selected, setSelected] = useState<Approval | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [parametersText, setParametersText] = useState("");
+  const [comment, setComment] = useState("");
+  const [decideError, setDecideError] = useState<string | null>(null);
+  const [isDeciding, setIsDeciding] = useState(false);
+
+  const loadApprovals = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = filter === "pending" ? "?status=pending" : "?limit=200";
+      const response = await fetch(`/api/orchestration/approvals${query}`);
+      if (response.ok) {
+        const data: Approval[] = await response.json();
+        setApprovals(filter === "pending" ? data : data.filter(approval => approval.status !== "pending"));
+      }
+    } catch (error) {
+      console.error("Failed to load approvals:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadApprovals();
+    const interval = setInterval(loadApprovals, 15000);
+    return () => clearInterval(interval);
+  }, [loadApprovals]);
+
+  useEffect(() => {
+    const id = new URLSearchParams(search).get("id");
+    if (id) setSelectedId(id);
+  }, [search]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/orchestration/approvals/${encodeURIComponent(selectedId)}`);
+        if (!response.ok || cancelled) return;
+        const approval: Approval = await response.json();
+        setSelected(approval);
+        setParametersText(JSON.stringify(approval.parameters ?? approval.requestedParameters ?? {}, null, 2));
+        setComment("");
+        setDecideError(null);
+        if (approval.status !== "pending") setFilter("history");
+      } catch (error) {
+        console.error("Failed to load approval:", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const decide = async (choice: "approve" | "reject") => {
+    if (!selected) return;
+    setDecideError(null);
+
+    let body: { action: string; parameters?: Record<string, unknown>; comment?: string } = { action: choice };
+    if (choice === "approve") {
+      let parameters: unknown;
+      try {
+        parameters = JSON.parse(parametersText || "{}");
+      } catch {
+        setDecideError("Parameters must be a JSON object");
+        return;
+      }
+      if (!parameters || typeof parameters !== "object" || Array.isArray(parameters)) {
+        setDecideError("Parameters must be a JSON object");
+        return;
+      }
+      if (JSON.stringify(parameters) !== JSON.stringify(selected.requestedParameters ?? {})) {
+        body = { action: "edit", parameters: parameters as Record<string, unknown> };
+      }
+    }
+    if (comment.trim()) body.comment = comment.trim();
+
+    setIsDeciding(true);
+    try {
+      const response = await fetch(`/api/orchestration/approvals/${encodeURIComponent(selected.id)}/decide`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setDecideError(data.error || "Failed to record the decision");
+        return;
+      }
+      setSelected(data);
+      loadApprovals();
+    } catch (error) {
+      console.error("Failed to decide approval:", error);
+      setDecideError("Failed to record the decision");
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const isPending = selected?.status === "pending";
+  const isEdited = !!selected && isPending && (() => {
+    try {
+      return JSON.stringify(JSON.parse(parametersText || "{}")) !== JSON.stringify(selected.requestedParameters ?? {});
+    } catch {
+      return true;
+    }
+  })();
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col" data-testid="approvals-page">
+      {/* Header */}
+      <header className="border-b bg-card px-4 py-3 flex-shrink-0">
+        <div className="flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              Approvals
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Review what workflows want to do before they do it
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadApprovals} disabled={isLoading} data-testid="button-refresh">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-2">Refresh</span>
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-hidden flex">
+        {/* Approval list */}
+        <aside className="w-72 border-r flex flex-col flex-shrink-0">
+          <div className="p-3 border-b">
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as "pending" | "history")}>
+              <TabsList className="w-full">
+                <TabsTrigger value="pending" className="flex-1" data-testid="tab-pending">Pending</TabsTrigger>
+                <TabsTrigger value="history" className="flex-1" data-testid="tab-history">History</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-1">
+              {approvals.length === 0 && (
+                <p className="text-sm text-muted-foreground p-2">
+                  {filter === "pending" ? "Nothing is waiting for approval" : "No decisions yet"}
+                </p>
+              )}
+              {approvals.map(approval => (
+                <button
+                  key={approval.id}
+                  onClick={() => setSelectedId(approval.id)}
+                  className={cn(
+                    "w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted",
+                    selectedId === approval.id && "bg-muted"
+                  )}
+                  data-testid={`approval-${approval.id}`}
+                >
+                  <div className="font-medium truncate">{approval.title}</div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                    <Badge variant="outline" className={cn("gap-1", statusConfig[approval.status].color)}>
+                      {statusConfig[approval.status].icon}
+                      {statusConfig[approval.status].label}
+                    </Badge>
+                    <span>{formatDate(approval.decidedAt ?? approval.createdAt)}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        </aside>
+
+        {/* Detail */}
+        <section className="flex-1 overflow-auto p-6">
+          {!selected ? (
+            <p className="text-muted-foreground">Select an approval to review it</p>
+          ) : (
+            <div className="max-w-2xl space-y-6">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-semibold">{selected.title}</h2>
+                  <Badge variant="outline" className={cn("gap-1", statusConfig[selected.status].color)}>
+                    {statusConfig[selected.status].icon}
+                    {statusConfig[selected.status].label}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Requested {formatDate(selected.createdAt)}
+                  {selected.expiresAt && ` · expires ${formatDate(selected.expiresAt)}, then ${selected.onExpiry === "approve" ? "approved" : "rejected"}`}
+                  {selected.workflowRunId && (
+                    <>
+                      {" · "}
+                      <Link href="/workflows" className="underline">workflow run {selected.workflowRunId.slice(0, 8)}</Link>
+                      {selected.stepId && `, step ${selected.stepId}`}
+                    </>
+                  )}
+                </p>
+              </div>
+
+              {selected.summary && (
+                <p className="text-sm whitespace-pre-wrap rounded-md border bg-muted/30 p-3">{selected.summary}</p>
+              )}
+
+              {isPending ? (
+                <div className="space-y-4">
+                  {Object.keys(selected.requestedParameters ?? {}).length > 0 && (
+                    <div className="space-y-1">
+                      <Label>Parameters</Label>
+                      <Textarea
+                        value={parametersText}
+                        onChange={(e) => setParametersText(e.target.value)}
+                        rows={Math.min(16, parametersText.split("\n").length + 1)}
+                        className="font-mono text-xs"
+                        data-testid="textarea-approval-parameters"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Edit values to approve with changes; parameters cannot be added.
+                      </p>
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label>Comment</Label>
+                    <Textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      rows={2}
+                      placeholder="Optional, kept with the decision"
+                      data-testid="textarea-approval-comment"
+                    />
+                  </div>
+                  {decideError && (
+                    <p className="text-sm text-red-600 flex items-center gap-1">
+                      <AlertCircle className="h-4 w-4" />
+                      {decideError}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button onClick={() => decide("approve")} disabled={isDeciding} data-testid="button-approve">
+                      {isEdited ? <Pencil className="h-4 w-4 mr-1" /> : <CheckCircle2 className="h-4 w-4 mr-1" />}
+                      {isEdited ? "Approve with edits" : "Approve"}
+                    </Button>
+                    <Button variant="destructive" onClick={() => decide("reject")} disabled={isDeciding} data-testid="button-reject">
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3 text-sm">
+                  <div className="grid grid-cols-[8rem_1fr] gap-y-1">
+                    <span className="text-muted-foreground">Decision</span>
+                    <span>{selected.action ? actionLabels[selected.action] ?? selected.action : statusConfig[selected.status].label}</span>
+                    <span className="text-muted-foreground">By</span>
+                    <span>{selected.decidedBy ?? "-"}</span>
+                    <span className="text-muted-foreground">At</span>
+                    <span>{formatDate(selected.decidedAt)}</span>
+                    {selected.comment && (
+                      <>
+                        <span className="text-muted-foreground">Comment</span>
+                        <span className="whitespace-pre-wrap">{selected.comment}</span>
+                      </>
+                    )}
+                    {selected.action === "edit" && (
+                      <>
+                        <span className="text-muted-foreground">Changed</span>
+                        <span>{changedParameters(selected).join(", ") || "-"}</span>
+                      </>
+                    )}
+                  </div>
+                  {Object.keys(selected.requestedParameters ?? {}).length > 0 && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs text-muted-foreground">Requested</Label>
+                        <pre className="mt-1 p-2 bg-muted rounded text-xs overflow-x-auto">
+                          {JSON.stringify(selected.requestedParameters, null, 2)}
+                        </pre>
+                      </div>
+                      {selected.parameters && (
+                        <div>
+                          <Label className="text-xs text-muted-foreground">Approved</Label>
+                          <pre className="mt-1 p-2 bg-muted rounded text-xs overflow-x-auto">
+                            {JSON.stringify(selected.parameters, null, 2)}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selected.notifications && selected.notifications.length > 0 && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Notifications</Label>
+                  <ul className="text-xs space-y-1">
+                    {selected.notifications.map((notification, index) => (
+                      <li key={index} className="flex items-center gap-2">
+                        {notification.ok ? <CheckCircle2 className="h-3 w-3 text-green-600" /> : <XCircle className="h-3 w-3 text-red-600" />}
+                        <span className="font-medium">{notification.channel === "app" ? "In app" : notification.channel === "sms" ? "SMS" : "Email"}</span>
+                        {notification.to && <span className="text-muted-foreground">{notification.to}</span>}
+                        {notification.error && <span className="text-red-600">{notification.error}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -45,6 +45,7 @@ import { useState, useRef, useEffect } from "react";
 import { Sidebar } from "@/components/chat/sidebar";
 import { ChatMessage } from "@/components/chat/message";
 import { ChatInputArea } from "@/components/chat/input-area";
+import { ToolApprovalCard, type PendingToolApproval } from "@/components/chat/tool-approval-card";
 
 /**
  * UI Components from shadcn/ui
@@ -86,6 +87,11 @@ import logo from "@assets/generated_images/cute_cat_logo_icon.png";
  */
 import type { Chat, Message } from "@shared/schema";
 import { playSound } from "@/lib/soundboard";
+import { chatTurnUrl, messagesBeforeTurn, selectChatBranch, type BranchTurn, type BranchedMessage } from "@/lib/chat-branches";
+import type { ChatSearchHit } from "@/components/chat/search-palette";
+import { AgentPicker } from "@/components/chat/agent-picker";
+import { AgentPanelPicker } from "@/components/chat/agent-panel-picker";
+import type { AgentAttribution } from "@shared/agent-panel";
 
 import { useTTS } from "@/contexts/tts-context";
 import { useAuth } from "@/hooks/useAuth";
@@ -161,9 +167,11 @@ export default function Home() {
   /**
    * Pagination state for message loading
    * hasMoreMessages: True if there are older messages to load
-   * isLoadingMore: True while loading older messages
+   * hasNewerMessages: True after jumping to a search hit with newer messages left to load
+   * isLoadingMore: True while loading older or newer messages
    */
   const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
 
   /**
@@ -184,6 +192,12 @@ export default function Home() {
    */
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  /**
+   * Tool calls paused by the permission policy, awaiting approve/deny
+   * Added on tool_approval_request SSE events, removed when resolved
+   */
+  const [pendingApprovals, setPendingApprovals] = useState<PendingToolApproval[]>([]);
+
   /**
    * All chat sessions for sidebar display
    * Loaded on mount and updated when chats are created
@@ -195,6 +209,7 @@ export default function Home() {
    * null = no chat selected (show welcome screen)
    */
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
+  const currentChat = chats.find((chat) => chat.id === currentChatId);
 
   /**
    * Scroll anchor reference
@@ -208,6 +223,13 @@ export default function Home() {
    */
   const lastMessageRef = useRef<HTMLDivElement>(null);
 
+  /**
+   * Message to scroll to once it is loaded (a search result), and the one
+   * briefly highlighted after the jump
+   */
+  const jumpTargetRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
   /**
    * Text-to-Speech hook for reading AI responses aloud
    * Includes verbosity mode for controlling what gets spoken
@@ -304,7 +326,7 @@ export default function Home() {
    */
   useEffect(() => {
     if (currentChatId) {
-      loadChatMessages(currentChatId);
+      loadChatMessages(currentChatId, jumpTargetRef.current ?? undefined);
     }
   }, [currentChatId]);
 
@@ -314,7 +336,17 @@ export default function Home() {
    * Falls back to bottom scroll anchor if no last message ref
    */
   useEffect(() => {
-    if (lastMessageRef.current) {
+    // A pending search jump wins once its message is rendered
+    const jumpTarget = jumpTargetRef.current;
+    const jumpElement = jumpTarget
+      ? document.querySelector(`[data-message-id="${CSS.escape(jumpTarget)}"]`)
+      : null;
+    if (jumpTarget && jumpElement) {
+      jumpTargetRef.current = null;
+      jumpElement.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedMessageId(jumpTarget);
+      setTimeout(() => setHighlightedMessageId((current) => (current === jumpTarget ? null : current)), 2500);
+    } else if (lastMessageRef.current) {
       // Scroll to show the TOP of the new message
       lastMessageRef.current.scrollIntoView({ behavior: "smooth", block: "start" });
     } else if (scrollRef.current) {
@@ -391,15 +423,18 @@ export default function Home() {
    * Sets hasMoreMessages flag for lazy-loading older messages
    * 
    * @param {string} chatId - The ID of the chat to load messages for
+   * @param {string} aroundMessageId - Optional: load a page starting just
+   *   before this message instead (jumping to a search result)
    * 
    * @example
    * await loadChatMessages('abc-123');
    * // messages state now contains last 30 messages from that chat
    * // hasMoreMessages indicates if there are older messages to load
    */
-  const loadChatMessages = async (chatId: string): Promise<Message[] | undefined> => {
+  const loadChatMessages = async (chatId: string, aroundMessageId?: string): Promise<Message[] | undefined> => {
     try {
-      const response = await fetch(`/api/chats/${chatId}?limit=30`, { credentials: 'include' });
+      const around = aroundMessageId ? `&around=${encodeURIComponent(aroundMessageId)}` : '';
+      const response = await fetch(`/api/chats/${chatId}?limit=30${around}`, { credentials: 'include' });
       if (response.ok) {
         const data = await response.json();
         // Metadata is already parsed from JSONB column - just pass through
@@ -409,6 +444,7 @@ export default function Home() {
         }));
         setMessages(messagesWithMetadata);
         setHasMoreMessages(data.hasMore || false);
+        setHasNewerMessages(data.hasNewer || false);
         return messagesWithMetadata;
       }
     } catch (error) {
@@ -448,6 +484,34 @@ export default function Home() {
     }
   };
 
+  /**
+   * Load newer messages after jumping to a search hit
+   *
+   * Uses the newest loaded message ID as cursor and appends the page
+   */
+  const loadNewerMessages = async () => {
+    if (!currentChatId || isLoadingMore || messages.length === 0) return;
+
+    setIsLoadingMore(true);
+    try {
+      const newestMessageId = messages[messages.length - 1]?.id;
+      const response = await fetch(`/api/chats/${currentChatId}/messages?limit=30&after=${newestMessageId}`, { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        const newerMessages = (data.messages || []).map((msg: any) => ({
+          ...msg,
+          metadata: msg.metadata || undefined
+        }));
+        setMessages(prev => [...prev, ...newerMessages]);
+        setHasNewerMessages(data.hasNewer || false);
+      }
+    } catch (error) {
+      console.error('Failed to load newer messages:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   // ===========================================================================
   // MESSAGE HANDLING
   // ===========================================================================
@@ -470,13 +534,15 @@ export default function Home() {
    * 
    * @param {string} content - The message content to send
    * @param {Attachment[]} attachments - Optional file/screenshot attachments
+   * @param {BranchTurn} turn - Optional: edit a user message or regenerate an
+   *   AI reply instead, forking the conversation into a new branch
    * 
    * @example
    * handleSendMessage("What is the capital of France?", []);
    * // UI shows user message immediately
    * // AI response streams in token by token
    */
-  const handleSendMessage = async (content: string, attachments: Attachment[] = []) => {
+  const handleSendMessage = async (content: string, attachments: Attachment[] = [], turn?: BranchTurn) => {
     
     // Unlock audio on user gesture (required for browser autoplay policy)
     try {
@@ -488,6 +554,12 @@ export default function Home() {
     try {
       let chatId = currentChatId;
 
+      // Forking needs an existing chat
+      if (!chatId && turn) {
+        console.error('[handleSendMessage] Cannot edit or regenerate without a chat');
+        return;
+      }
+
       // Step 1: Create a new chat if none selected
       if (!chatId) {
         const newChatId = await handleNewChat();
@@ -498,6 +570,11 @@ export default function Home() {
         chatId = newChatId;
       }
 
+      // A new message goes after the latest one, so leave a search hit's window first
+      if (!turn && hasNewerMessages) {
+        await loadChatMessages(chatId);
+      }
+
       // Step 2: Add user message to UI immediately (optimistic update)
       // Uses temp ID that will be replaced after server confirms
       const tempUserMessage = {
@@ -508,7 +585,12 @@ export default function Home() {
         createdAt: new Date(),
         metadata: null,
       } as unknown as Message;
-      setMessages((prev) => [...prev, tempUserMessage]);
+      // Edits and regenerations replace everything from the forked message on
+      if (turn?.kind === 'regenerate') {
+        setMessages((prev) => messagesBeforeTurn(prev, turn));
+      } else {
+        setMessages((prev) => [...(turn ? messagesBeforeTurn(prev, turn) : prev), tempUserMessage]);
+      }
       setIsLoading(true);
       setIsThinking(true);
       // Get model preference from localStorage settings
@@ -519,7 +601,7 @@ export default function Home() {
       const abortController = new AbortController();
       abortControllerRef.current = abortController;
       
-      const response = await fetch(`/api/chats/${chatId}/messages`, {
+      const response = await fetch(chatTurnUrl(chatId, turn), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include', // Ensure cookies are sent with request
@@ -564,6 +646,8 @@ export default function Home() {
       let streamMetadata: any = null;
       let speechEventsReceived = 0;
       let cleanContentForTTS = '';
+      // Panel chats: the agent whose reply is streaming
+      let speakingAgent: AgentAttribution | null = null;
       
       // Audio playback queue for sequential playback of streaming TTS chunks
       const audioQueue: Array<{ base64: string; mimeType: string; utterance: string }> = [];
@@ -656,6 +740,12 @@ export default function Home() {
                 continue; // Skip further processing for this line
               }
 
+              // Panel chats: the next agent starts its reply
+              if (data.agentTurn) {
+                speakingAgent = data.agentTurn as AgentAttribution;
+                aiMessageContent = '';
+              }
+
               // Step 5: Update UI as tokens arrive
               if (data.text) {
                 aiMessageContent += data.text;
@@ -670,10 +760,21 @@ export default function Home() {
                       role: "ai",
                       content: aiMessageContent,
                       createdAt: new Date().toISOString(),
+                      metadata: speakingAgent ? { agent: speakingAgent } : undefined,
                     } as unknown as Message
                   ];
                 });
               }
+
+              // Panel chats: an agent's reply is saved; the next one streams below it
+              if (data.agentMessage) {
+                const saved = data.agentMessage as Message;
+                setMessages((prev) => [
+                  ...prev.filter(m => !m.id.startsWith('temp-ai-')),
+                  { ...saved, createdAt: new Date(saved.createdAt) },
+                ]);
+                aiMessageContent = '';
+              }
               
               // Handle finalContent event - authoritative final content from server
               if (data.finalContent !== undefined) {
@@ -737,6 +838,16 @@ export default function Home() {
                 }
               }
 
+              // Handle tool approval events - show/hide approve/deny cards
+              if (data.type === 'tool_approval_request' && data.data) {
+                const approval = data.data as PendingToolApproval;
+                setPendingApprovals((prev) => [...prev.filter(a => a.id !== approval.id), approval]);
+              }
+              if (data.type === 'tool_approval_resolved' && data.data) {
+                const { id } = data.data as { id: string };
+                setPendingApprovals((prev) => prev.filter(a => a.id !== id));
+              }
+
               // Handle soundboard event - play synthesized sound effect
               if (data.soundboard) {
                 const { sound, volume } = data.soundboard as { sound: string; volume?: number };
@@ -813,6 +924,7 @@ export default function Home() {
               if (data.done) {
                 if (sseTimeoutId !== null) { clearTimeout(sseTimeoutId); sseTimeoutId = null; }
                 setIsLoading(false);
+                setPendingApprovals([]);
                 
                 // Only use browser TTS if NO speech events arrived (no HD audio or streaming TTS)
                 const textToSpeak = cleanContentForTTS || aiMessageContent;
@@ -835,7 +947,8 @@ export default function Home() {
                 
                 // CRITICAL FIX: Replace temporary message with saved message from DB
                 // This avoids reloading ALL messages which could show stale data
-                if (data.savedMessage) {
+                // Forked turns reload instead, to pick up the new branch positions
+                if (data.savedMessage && !turn) {
                   setMessages((prev) => {
                     // Filter out all temporary AI messages
                     const filtered = prev.filter(m => !m.id.startsWith('temp-ai-'));
@@ -860,7 +973,9 @@ export default function Home() {
                 } else {
                   // FALLBACK: If no savedMessage in response, reload all messages from DB
                   // This is the OLD behavior that can cause the stale message bug
-                  console.warn('[SSE] No savedMessage in done event, falling back to full reload');
+                  if (!turn && !data.panel) {
+                    console.warn('[SSE] No savedMessage in done event, falling back to full reload');
+                  }
                   const updatedMessages = await loadChatMessages(chatId);
                   
                   // Handle autoexec with updated messages
@@ -892,6 +1007,7 @@ export default function Home() {
         console.error('[handleSendMessage] Failed to send message:', error);
       }
       setIsLoading(false);
+      setPendingApprovals([]);
       abortControllerRef.current = null;
     } finally {
       // Ensure loading state is always cleared after a reasonable timeout
@@ -908,6 +1024,25 @@ export default function Home() {
     }
   };
 
+  /**
+   * Switch to the branch containing a message (‹ › arrows on edited or
+   * regenerated messages) and show its latest page
+   */
+  const handleSelectBranch = async (messageId: string) => {
+    if (!currentChatId || isLoading) return;
+    try {
+      const data = await selectChatBranch(currentChatId, messageId);
+      setMessages(data.messages.map((msg: any) => ({
+        ...msg,
+        metadata: msg.metadata || undefined
+      })));
+      setHasMoreMessages(data.hasMore || false);
+      setHasNewerMessages(false);
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+    }
+  };
+
   /**
    * Stop the current AI generation
    * Aborts the in-flight request and clears loading state
@@ -1013,6 +1148,28 @@ export default function Home() {
     setCurrentChatId(chatId);
   };
 
+  /**
+   * Open a search result: switch to its chat (and to the branch it is on,
+   * if the message was edited away) and scroll to the matching message
+   */
+  const handleSearchResultSelect = async (hit: ChatSearchHit) => {
+    if (!hit.messageId) {
+      handleChatSelect(hit.chatId);
+      return;
+    }
+    jumpTargetRef.current = hit.messageId;
+    try {
+      await selectChatBranch(hit.chatId, hit.messageId);
+    } catch (error) {
+      console.error('Failed to switch to the search result branch:', error);
+    }
+    if (hit.chatId === currentChatId) {
+      await loadChatMessages(hit.chatId, hit.messageId);
+    } else {
+      setCurrentChatId(hit.chatId);
+    }
+  };
+
   // ===========================================================================
   // RENDER
   // ===========================================================================
@@ -1034,6 +1191,8 @@ export default function Home() {
         onChatSelect={handleChatSelect}
         isCollapsed={isSidebarCollapsed}
         setIsCollapsed={setIsSidebarCollapsed}
+        onSearchResultSelect={handleSearchResultSelect}
+        onChatsChanged={() => loadChats()}
       />
 
       {/* Main Content Area */}
@@ -1115,6 +1274,19 @@ export default function Home() {
                     </Button>
                   </div>
 
+                  {isAuthenticated && currentChat && (
+                    <>
+                      <AgentPicker
+                        chat={currentChat}
+                        onChange={(updated) => setChats((previous) => previous.map((chat) => (chat.id === updated.id ? updated : chat)))}
+                      />
+                      <AgentPanelPicker
+                        chat={currentChat}
+                        onChange={(updated) => setChats((previous) => previous.map((chat) => (chat.id === updated.id ? updated : chat)))}
+                      />
+                    </>
+                  )}
+
                   <LocalDriveButton />
                   
                   {errorCount > 0 && (
@@ -1250,9 +1422,16 @@ export default function Home() {
                 }
                 
                 const isLastMessage = index === messages.length - 1;
+                // Optimistic messages have no server id to fork from yet
+                const isSaved = !msg.id.startsWith('temp-');
                 
                 return (
-                  <div key={msg.id} ref={isLastMessage ? lastMessageRef : undefined}>
+                  <div
+                    key={msg.id}
+                    ref={isLastMessage ? lastMessageRef : undefined}
+                    data-message-id={msg.id}
+                    className={highlightedMessageId === msg.id ? 'ring-2 ring-primary/60 rounded-md transition-shadow' : undefined}
+                  >
                     <ChatMessage 
                       id={msg.id}
                       chatId={currentChatId || undefined}
@@ -1261,11 +1440,43 @@ export default function Home() {
                       metadata={(msg as any).metadata}
                       createdAt={msg.createdAt}
                       promptSnapshot={promptSnapshot}
+                      branch={(msg as BranchedMessage).branch}
+                      onSelectBranch={handleSelectBranch}
+                      onEdit={isSaved && msg.role === 'user'
+                        ? (content) => handleSendMessage(content, [], { kind: 'edit', messageId: msg.id })
+                        : undefined}
+                      onRegenerate={isSaved && msg.role === 'ai'
+                        ? () => handleSendMessage('', [], { kind: 'regenerate', messageId: msg.id })
+                        : undefined}
+                      actionsDisabled={isLoading}
                     />
                   </div>
                 );
               })}
-              
+
+              {/* Load Newer Button - Shows after jumping to a search hit */}
+              {hasNewerMessages && (
+                <div className="flex justify-center py-4">
+                  <button
+                    onClick={loadNewerMessages}
+                    disabled={isLoadingMore}
+                    className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground bg-muted/50 hover:bg-muted rounded-lg transition-colors disabled:opacity-50"
+                    data-testid="button-load-newer"
+                  >
+                    {isLoadingMore ? "Loading..." : "Load newer messages"}
+                  </button>
+                </div>
+              )}
+
+              {/* Tool calls waiting for the user's approval */}
+              {pendingApprovals.map((approval) => (
+                <ToolApprovalCard
+                  key={approval.id}
+                  approval={approval}
+                  onDecided={(id) => setPendingApprovals((prev) => prev.filter(a => a.id !== id))}
+                />
+              ))}
+
               {/* 
                * AI Thinking Indicator
                * Shows animated "thinking" state while waiting for response
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { 
   ArrowLeft, 
   Calendar, 
@@ -30,7 +31,12 @@ import {
   PowerOff,
   Timer,
   Loader2,
-  MoreVertical
+  MoreVertical,
+  History,
+  FolderOpen,
+  Rss,
+  Globe,
+  CalendarClock
 } from "lucide-react";
 import { Link } from "wouter";
 import {
@@ -45,6 +51,7 @@ interface Schedule {
   name: string;
   description: string | null;
   cronExpression: string;
+  timezone: string;
   workflowId: string | null;
   taskTemplate: Record<string, unknown>;
   enabled: boolean;
@@ -53,9 +60,47 @@ interface Schedule {
   runCount: number;
   consecutiveFailures: number;
   lastError: string | null;
+  misfirePolicy: string;
+  misfireGraceSeconds: number;
+  maxCatchUp: number;
+  jitterSeconds: number;
+  concurrencyPolicy: string;
   createdAt: string;
 }
 
+/** GET /api/orchestration/schedules/:id/runs */
+interface ScheduleRun {
+  id: string;
+  trigger: string;
+  scheduledFor: string;
+  firedAt: string | null;
+  status: string;
+  reason: string | null;
+  jobId: string | null;
+  jobStatus: string | null;
+  jobError: string | null;
+  jobCompletedAt: string | null;
+}
+
+/** GET /api/orchestration/triggers/:id/deliveries */
+interface WebhookDelivery {
+  id: string;
+  headers: Record<string, string> | null;
+  body: string | null;
+  status: string;
+  statusCode: number;
+  error: string | null;
+  jobId: string | null;
+  replayOf: string | null;
+  receivedAt: string;
+}
+
+/** GET /api/orchestration/schedules/cron/describe */
+interface CronPreview {
+  description: string;
+  nextRuns: string[];
+}
+
 interface Trigger {
   id: string;
   name: string;
@@ -67,6 +112,8 @@ interface Trigger {
   enabled: boolean;
   lastFiredAt: string | null;
   fireCount: number;
+  /** Polled sources: when the last check ran and why it failed */
+  state: { checkedAt?: number; error?: string } | null;
   createdAt: string;
 }
 
@@ -88,8 +135,14 @@ const triggerTypeConfig: Record<string, { color: string; icon: React.ReactNode;
   sms: { color: "bg-green-500/10 text-green-600", icon: <MessageSquare className="w-4 h-4" />, label: "SMS" },
   keyword: { color: "bg-purple-500/10 text-purple-600", icon: <Search className="w-4 h-4" />, label: "Keyword" },
   webhook: { color: "bg-orange-500/10 text-orange-600", icon: <Webhook className="w-4 h-4" />, label: "Webhook" },
+  file_watch: { color: "bg-amber-500/10 text-amber-600", icon: <FolderOpen className="w-4 h-4" />, label: "Folder" },
+  rss: { color: "bg-red-500/10 text-red-600", icon: <Rss className="w-4 h-4" />, label: "Feed" },
+  http_poll: { color: "bg-cyan-500/10 text-cyan-600", icon: <Globe className="w-4 h-4" />, label: "HTTP Poll" },
+  calendar_event: { color: "bg-indigo-500/10 text-indigo-600", icon: <CalendarClock className="w-4 h-4" />, label: "Calendar" },
 };
 
+const fileWatchEvents = ["create", "modify", "delete"];
+
 const commonCronExpressions = [
   { label: "Every minute", value: "* * * * *" },
   { label: "Every 5 minutes", value: "*/5 * * * *" },
@@ -99,8 +152,59 @@ const commonCronExpressions = [
   { label: "Every day at 9am", value: "0 9 * * *" },
   { label: "Every Monday at 9am", value: "0 9 * * 1" },
   { label: "First day of month", value: "0 0 1 * *" },
+  { label: "Last weekday of month", value: "0 9 LW * *" },
+  { label: "Weekdays at 9am", value: "0 9 * * MON-FRI" },
+];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const misfirePolicies = [
+  { value: "run_once", label: "Run once to catch up" },
+  { value: "run_all", label: "Run every missed time" },
+  { value: "skip", label: "Skip missed runs" },
 ];
 
+const concurrencyPolicies = [
+  { value: "allow", label: "Allow overlapping runs" },
+  { value: "skip", label: "Skip while previous runs" },
+  { value: "queue", label: "Queue behind previous run" },
+];
+
+const runStatusConfig: Record<string, string> = {
+  fired: "bg-blue-500/10 text-blue-600",
+  missed: "bg-yellow-500/10 text-yellow-600",
+  skipped: "bg-gray-500/10 text-gray-600",
+  failed: "bg-red-500/10 text-red-600",
+  completed: "bg-green-500/10 text-green-600",
+  dead_letter: "bg-red-500/10 text-red-600",
+};
+
+const deliveryStatusConfig: Record<string, string> = {
+  accepted: "bg-green-500/10 text-green-600",
+  rejected: "bg-red-500/10 text-red-600",
+  duplicate: "bg-yellow-500/10 text-yellow-600",
+  failed: "bg-red-500/10 text-red-600",
+};
+
+const webhookSignatureSchemes = [
+  { value: "secret", label: "Shared secret (X-Webhook-Secret)" },
+  { value: "github", label: "GitHub (X-Hub-Signature-256)" },
+  { value: "hmac", label: "HMAC with timestamp (X-Webhook-Signature)" },
+];
+
+/** "field = $.json.path" lines into a webhook payload mapping */
+function parseWebhookMapping(text: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim();
+    const path = line.slice(separator + 1).trim();
+    if (field && path) mapping[field] = path;
+  }
+  return mapping;
+}
+
 export default function SchedulesPage() {
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [triggers, setTriggers] = useState<Trigger[]>([]);
@@ -115,11 +219,21 @@ export default function SchedulesPage() {
     name: "",
     description: "",
     cronExpression: "0 * * * *",
+    timezone: browserTimezone,
+    misfirePolicy: "run_once",
+    maxCatchUp: 10,
+    concurrencyPolicy: "allow",
+    jitterSeconds: 0,
     taskTitle: "",
     taskType: "action",
     taskPriority: 5,
   });
   
+  const [cronPreview, setCronPreview] = useState<CronPreview | null>(null);
+  const [cronError, setCronError] = useState<string | null>(null);
+  const [historySchedule, setHistorySchedule] = useState<Schedule | null>(null);
+  const [historyRuns, setHistoryRuns] = useState<ScheduleRun[]>([]);
+  
   const [newTrigger, setNewTrigger] = useState({
     name: "",
     description: "",
@@ -128,10 +242,27 @@ export default function SchedulesPage() {
     taskType: "action",
     taskPriority: 5,
     keywords: "",
-    senderEmail: "",
+    emailQuery: "",
     senderPhone: "",
     webhookSecret: "",
+    webhookSignature: "secret",
+    webhookMapping: "",
+    webhookMaxRequests: 60,
+    watchPath: "",
+    watchInclude: "",
+    watchEvents: fileWatchEvents,
+    feedUrl: "",
+    feedTitlePattern: "",
+    pollUrl: "",
+    pollJsonPath: "$",
+    pollIntervalSeconds: 300,
+    calendarId: "primary",
+    minutesBefore: 10,
   });
+  const [triggerError, setTriggerError] = useState<string | null>(null);
+  const [deliveriesTrigger, setDeliveriesTrigger] = useState<Trigger | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
 
   const loadSchedules = useCallback(async () => {
     try {
@@ -179,6 +310,28 @@ export default function SchedulesPage() {
     loadAll();
   }, [loadAll]);
 
+  const { cronExpression, timezone } = newSchedule;
+  useEffect(() => {
+    if (!isCreateScheduleOpen) return;
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ expression: cronExpression, timezone, count: "5" });
+        const response = await fetch(`/api/orchestration/schedules/cron/describe?${params}`);
+        const data = await response.json();
+        if (response.ok) {
+          setCronPreview(data);
+          setCronError(null);
+        } else {
+          setCronPreview(null);
+          setCronError(data.error || "Invalid cron expression");
+        }
+      } catch (error) {
+        console.error("Failed to preview cron expression:", error);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [isCreateScheduleOpen, cronExpression, timezone]);
+
   useEffect(() => {
     const interval = setInterval(() => {
       loadExecutorStatus();
@@ -228,6 +381,19 @@ export default function SchedulesPage() {
     }
   };
 
+  const openHistory = async (schedule: Schedule) => {
+    setHistorySchedule(schedule);
+    setHistoryRuns([]);
+    try {
+      const response = await fetch(`/api/orchestration/schedules/${schedule.id}/runs?limit=100`);
+      if (response.ok) {
+        setHistoryRuns(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load schedule runs:", error);
+    }
+  };
+
   const deleteSchedule = async (id: string) => {
     try {
       await fetch(`/api/orchestration/schedules/${id}`, { method: "DELETE" });
@@ -263,6 +429,34 @@ export default function SchedulesPage() {
     }
   };
 
+  const loadDeliveries = useCallback(async (triggerId: string) => {
+    try {
+      const response = await fetch(`/api/orchestration/triggers/${triggerId}/deliveries?limit=100`);
+      if (response.ok) {
+        setDeliveries(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load webhook deliveries:", error);
+    }
+  }, []);
+
+  const openDeliveries = (trigger: Trigger) => {
+    setDeliveriesTrigger(trigger);
+    setDeliveries([]);
+    setSelectedDelivery(null);
+    loadDeliveries(trigger.id);
+  };
+
+  const replayDelivery = async (triggerId: string, deliveryId: string) => {
+    try {
+      await fetch(`/api/orchestration/triggers/${triggerId}/deliveries/${deliveryId}/replay`, { method: "POST" });
+      loadDeliveries(triggerId);
+      loadTriggers();
+    } catch (error) {
+      console.error("Failed to replay delivery:", error);
+    }
+  };
+
   const deleteTrigger = async (id: string) => {
     try {
       await fetch(`/api/orchestration/triggers/${id}`, { method: "DELETE" });
@@ -281,6 +475,11 @@ export default function SchedulesPage() {
           name: newSchedule.name,
           description: newSchedule.description || null,
           cronExpression: newSchedule.cronExpression,
+          timezone: newSchedule.timezone,
+          misfirePolicy: newSchedule.misfirePolicy,
+          maxCatchUp: newSchedule.maxCatchUp,
+          concurrencyPolicy: newSchedule.concurrencyPolicy,
+          jitterSeconds: newSchedule.jitterSeconds,
           taskTemplate: {
             title: newSchedule.taskTitle,
             taskType: newSchedule.taskType,
@@ -295,6 +494,11 @@ export default function SchedulesPage() {
           name: "",
           description: "",
           cronExpression: "0 * * * *",
+          timezone: browserTimezone,
+          misfirePolicy: "run_once",
+          maxCatchUp: 10,
+          concurrencyPolicy: "allow",
+          jitterSeconds: 0,
           taskTitle: "",
           taskType: "action",
           taskPriority: 5,
@@ -312,11 +516,28 @@ export default function SchedulesPage() {
       if (newTrigger.triggerType === "keyword") {
         config.keywords = newTrigger.keywords.split(",").map(k => k.trim());
       } else if (newTrigger.triggerType === "email") {
-        config.senderEmail = newTrigger.senderEmail;
+        if (newTrigger.emailQuery.trim()) config.query = newTrigger.emailQuery.trim();
       } else if (newTrigger.triggerType === "sms") {
         config.senderPhone = newTrigger.senderPhone;
       } else if (newTrigger.triggerType === "webhook") {
-        config.secret = newTrigger.webhookSecret;
+        config.signature = newTrigger.webhookSignature;
+        config.mapping = parseWebhookMapping(newTrigger.webhookMapping);
+        config.rateLimit = { maxRequests: newTrigger.webhookMaxRequests, windowSeconds: 60 };
+      } else if (newTrigger.triggerType === "file_watch") {
+        config.path = newTrigger.watchPath;
+        config.events = newTrigger.watchEvents;
+        const include = newTrigger.watchInclude.split(",").map(glob => glob.trim()).filter(Boolean);
+        if (include.length > 0) config.include = include;
+      } else if (newTrigger.triggerType === "rss") {
+        config.url = newTrigger.feedUrl;
+        if (newTrigger.feedTitlePattern) config.titlePattern = newTrigger.feedTitlePattern;
+      } else if (newTrigger.triggerType === "http_poll") {
+        config.url = newTrigger.pollUrl;
+        config.jsonPath = newTrigger.pollJsonPath || "$";
+        config.intervalSeconds = newTrigger.pollIntervalSeconds;
+      } else if (newTrigger.triggerType === "calendar_event") {
+        config.calendarId = newTrigger.calendarId || "primary";
+        config.minutesBefore = newTrigger.minutesBefore;
       }
 
       const response = await fetch("/api/orchestration/triggers", {
@@ -327,6 +548,7 @@ export default function SchedulesPage() {
           description: newTrigger.description || null,
           triggerType: newTrigger.triggerType,
           config,
+          webhookSecret: newTrigger.triggerType === "webhook" && newTrigger.webhookSecret ? newTrigger.webhookSecret : null,
           taskTemplate: {
             title: newTrigger.taskTitle,
             taskType: newTrigger.taskType,
@@ -345,11 +567,28 @@ export default function SchedulesPage() {
           taskType: "action",
           taskPriority: 5,
           keywords: "",
-          senderEmail: "",
+          emailQuery: "",
           senderPhone: "",
           webhookSecret: "",
+          webhookSignature: "secret",
+          webhookMapping: "",
+          webhookMaxRequests: 60,
+          watchPath: "",
+          watchInclude: "",
+          watchEvents: fileWatchEvents,
+          feedUrl: "",
+          feedTitlePattern: "",
+          pollUrl: "",
+          pollJsonPath: "$",
+          pollIntervalSeconds: 300,
+          calendarId: "primary",
+          minutesBefore: 10,
         });
+        setTriggerError(null);
         loadTriggers();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setTriggerError(data.error || "Failed to create trigger");
       }
     } catch (error) {
       console.error("Failed to create trigger:", error);
@@ -549,6 +788,9 @@ export default function SchedulesPage() {
                               <div className="flex items-center gap-1">
                                 <Clock className="w-3.5 h-3.5" />
                                 <code className="bg-muted px-1.5 py-0.5 rounded text-xs">{schedule.cronExpression}</code>
+                                {schedule.timezone !== "UTC" && (
+                                  <span className="text-xs">{schedule.timezone}</span>
+                                )}
                               </div>
                               <div className="flex items-center gap-1">
                                 <Timer className="w-3.5 h-3.5" />
@@ -557,6 +799,16 @@ export default function SchedulesPage() {
                               <div>
                                 Runs: {schedule.runCount}
                               </div>
+                              {schedule.misfirePolicy !== "run_once" && (
+                                <Badge variant="outline" className="text-xs">
+                                  {misfirePolicies.find(p => p.value === schedule.misfirePolicy)?.label ?? schedule.misfirePolicy}
+                                </Badge>
+                              )}
+                              {schedule.concurrencyPolicy !== "allow" && (
+                                <Badge variant="outline" className="text-xs">
+                                  {concurrencyPolicies.find(p => p.value === schedule.concurrencyPolicy)?.label ?? schedule.concurrencyPolicy}
+                                </Badge>
+                              )}
                             </div>
                             {schedule.lastError && (
                               <div className="mt-2 flex items-center gap-2 text-sm text-red-600">
@@ -582,6 +834,10 @@ export default function SchedulesPage() {
                                   <Play className="w-4 h-4 mr-2" />
                                   Run Now
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openHistory(schedule)}>
+                                  <History className="w-4 h-4 mr-2" />
+                                  Run History
+                                </DropdownMenuItem>
                                 <DropdownMenuItem onClick={() => deleteSchedule(schedule.id)} className="text-red-600">
                                   <Trash2 className="w-4 h-4 mr-2" />
                                   Delete
@@ -648,7 +904,23 @@ export default function SchedulesPage() {
                                     Last: {formatDate(trigger.lastFiredAt)}
                                   </div>
                                 )}
+                                {trigger.state?.checkedAt && (
+                                  <div>
+                                    Checked: {new Date(trigger.state.checkedAt).toLocaleString()}
+                                  </div>
+                                )}
                               </div>
+                              {trigger.triggerType === "webhook" && (
+                                <code className="block text-xs text-muted-foreground mt-1 break-all">
+                                  POST {window.location.origin}/api/orchestration/webhook/{trigger.id}
+                                </code>
+                              )}
+                              {trigger.state?.error && (
+                                <div className="flex items-center gap-1 text-sm text-red-600 mt-1">
+                                  <AlertCircle className="w-3 h-3" />
+                                  {trigger.state.error}
+                                </div>
+                              )}
                             </div>
                             <div className="flex items-center gap-2">
                               <Switch
@@ -667,6 +939,12 @@ export default function SchedulesPage() {
                                     <Zap className="w-4 h-4 mr-2" />
                                     Fire Now
                                   </DropdownMenuItem>
+                                  {trigger.triggerType === "webhook" && (
+                                    <DropdownMenuItem onClick={() => openDeliveries(trigger)}>
+                                      <History className="w-4 h-4 mr-2" />
+                                      Deliveries
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuItem onClick={() => deleteTrigger(trigger.id)} className="text-red-600">
                                     <Trash2 className="w-4 h-4 mr-2" />
                                     Delete
@@ -715,21 +993,110 @@ export default function SchedulesPage() {
             </div>
             <div className="space-y-2">
               <Label>Cron Expression</Label>
-              <Select
-                value={newSchedule.cronExpression}
-                onValueChange={(value) => setNewSchedule({ ...newSchedule, cronExpression: value })}
-              >
-                <SelectTrigger data-testid="select-cron-expression">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {commonCronExpressions.map((expr) => (
-                    <SelectItem key={expr.value} value={expr.value}>
-                      {expr.label} ({expr.value})
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="flex gap-2">
+                <Input
+                  className="font-mono"
+                  value={newSchedule.cronExpression}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, cronExpression: e.target.value })}
+                  data-testid="input-cron-expression"
+                />
+                <Select
+                  value=""
+                  onValueChange={(value) => setNewSchedule({ ...newSchedule, cronExpression: value })}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-cron-expression">
+                    <SelectValue placeholder="Presets" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {commonCronExpressions.map((expr) => (
+                      <SelectItem key={expr.value} value={expr.value}>
+                        {expr.label} ({expr.value})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {cronError ? (
+                <p className="text-xs text-red-600" data-testid="text-cron-error">{cronError}</p>
+              ) : cronPreview && (
+                <div className="text-xs text-muted-foreground space-y-1" data-testid="text-cron-preview">
+                  <p>{cronPreview.description}</p>
+                  <ul className="font-mono">
+                    {cronPreview.nextRuns.map((run) => (
+                      <li key={run}>{new Date(run).toLocaleString(undefined, { timeZone: newSchedule.timezone, dateStyle: "medium", timeStyle: "long" })}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Time Zone</Label>
+              <Input
+                placeholder="UTC"
+                value={newSchedule.timezone}
+                onChange={(e) => setNewSchedule({ ...newSchedule, timezone: e.target.value })}
+                data-testid="input-schedule-timezone"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Missed Runs</Label>
+                <Select
+                  value={newSchedule.misfirePolicy}
+                  onValueChange={(value) => setNewSchedule({ ...newSchedule, misfirePolicy: value })}
+                >
+                  <SelectTrigger data-testid="select-schedule-misfire">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {misfirePolicies.map((policy) => (
+                      <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Overlapping Runs</Label>
+                <Select
+                  value={newSchedule.concurrencyPolicy}
+                  onValueChange={(value) => setNewSchedule({ ...newSchedule, concurrencyPolicy: value })}
+                >
+                  <SelectTrigger data-testid="select-schedule-concurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {concurrencyPolicies.map((policy) => (
+                      <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {newSchedule.misfirePolicy === "run_all" && (
+                <div className="space-y-2">
+                  <Label>Max Catch-up Runs</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={newSchedule.maxCatchUp}
+                    onChange={(e) => setNewSchedule({ ...newSchedule, maxCatchUp: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                    data-testid="input-schedule-max-catch-up"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Jitter (seconds)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={3600}
+                  value={newSchedule.jitterSeconds}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, jitterSeconds: Math.min(3600, Math.max(0, parseInt(e.target.value) || 0)) })}
+                  data-testid="input-schedule-jitter"
+                />
+              </div>
             </div>
             <div className="space-y-2">
               <Label>Task Title</Label>
@@ -778,7 +1145,7 @@ export default function SchedulesPage() {
             </Button>
             <Button 
               onClick={createSchedule}
-              disabled={!newSchedule.name || !newSchedule.taskTitle}
+              disabled={!newSchedule.name || !newSchedule.taskTitle || !!cronError}
               data-testid="button-submit-schedule"
             >
               Create Schedule
@@ -787,6 +1154,150 @@ export default function SchedulesPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!historySchedule} onOpenChange={(open) => !open && setHistorySchedule(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Run History</DialogTitle>
+            <DialogDescription>
+              Every firing of {historySchedule?.name}, including missed and skipped ones
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            {historyRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No runs yet</p>
+            ) : (
+              <Table data-testid="table-schedule-runs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scheduled For</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {historyRuns.map((run) => {
+                    const outcome = run.jobId ? run.jobStatus ?? "deleted" : null;
+                    return (
+                      <TableRow key={run.id} data-testid={`row-schedule-run-${run.id}`}>
+                        <TableCell className="whitespace-nowrap">{new Date(run.scheduledFor).toLocaleString()}</TableCell>
+                        <TableCell className="capitalize">{run.trigger}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={runStatusConfig[run.status] ?? ""} title={run.reason ?? undefined}>
+                            {run.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {run.jobId ? (
+                            <Link href="/queue" className="font-mono text-xs underline">
+                              {run.jobId.slice(0, 8)}
+                            </Link>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">{run.reason ?? "-"}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {outcome && (
+                            <Badge variant="outline" className={runStatusConfig[outcome] ?? ""} title={run.jobError ?? undefined}>
+                              {outcome.replace("_", " ")}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deliveriesTrigger} onOpenChange={(open) => !open && setDeliveriesTrigger(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Webhook Deliveries</DialogTitle>
+            <DialogDescription>
+              Requests received by {deliveriesTrigger?.name}, newest first
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[40vh]">
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No deliveries yet</p>
+            ) : (
+              <Table data-testid="table-webhook-deliveries">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow
+                      key={delivery.id}
+                      className={`cursor-pointer ${selectedDelivery?.id === delivery.id ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedDelivery(delivery)}
+                      data-testid={`row-webhook-delivery-${delivery.id}`}
+                    >
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(delivery.receivedAt).toLocaleString()}
+                        {delivery.replayOf && <span className="text-xs text-muted-foreground ml-2">replay</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={deliveryStatusConfig[delivery.status] ?? ""} title={delivery.error ?? undefined}>
+                          {delivery.statusCode} {delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {delivery.jobId ? (
+                          <Link href="/queue" className="font-mono text-xs underline">
+                            {delivery.jobId.slice(0, 8)}
+                          </Link>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{delivery.error ?? "-"}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {/* Only accepted deliveries were authenticated, so only they can be replayed */}
+                        {delivery.status === "accepted" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={!deliveriesTrigger?.enabled}
+                            title={deliveriesTrigger?.enabled ? undefined : "Enable the trigger to replay deliveries"}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (deliveriesTrigger) replayDelivery(deliveriesTrigger.id, delivery.id);
+                            }}
+                            data-testid={`button-replay-delivery-${delivery.id}`}
+                          >
+                            <RefreshCw className="w-3 h-3 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+          {selectedDelivery && (
+            <ScrollArea className="max-h-[30vh] border border-border rounded-md">
+              <pre className="text-xs p-3 whitespace-pre-wrap break-all" data-testid="text-webhook-delivery">
+                {Object.entries(selectedDelivery.headers ?? {}).map(([name, value]) => `${name}: ${value}`).join("\n")}
+                {"\n\n"}
+                {selectedDelivery.body || "(empty body)"}
+              </pre>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isCreateTriggerOpen} onOpenChange={setIsCreateTriggerOpen}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
@@ -848,6 +1359,30 @@ export default function SchedulesPage() {
                       Webhook
                     </div>
                   </SelectItem>
+                  <SelectItem value="file_watch">
+                    <div className="flex items-center gap-2">
+                      <FolderOpen className="w-4 h-4" />
+                      Files in a Folder
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="rss">
+                    <div className="flex items-center gap-2">
+                      <Rss className="w-4 h-4" />
+                      RSS/Atom Feed Item
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="http_poll">
+                    <div className="flex items-center gap-2">
+                      <Globe className="w-4 h-4" />
+                      HTTP Endpoint Change
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="calendar_event">
+                    <div className="flex items-center gap-2">
+                      <CalendarClock className="w-4 h-4" />
+                      Before a Calendar Event
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -866,13 +1401,16 @@ export default function SchedulesPage() {
 
             {newTrigger.triggerType === "email" && (
               <div className="space-y-2">
-                <Label>Sender Email (or domain)</Label>
+                <Label>Gmail Search (optional)</Label>
                 <Input
-                  placeholder="boss@company.com or @company.com"
-                  value={newTrigger.senderEmail}
-                  onChange={(e) => setNewTrigger({ ...newTrigger, senderEmail: e.target.value })}
-                  data-testid="input-trigger-sender-email"
+                  placeholder="from:boss@company.com has:attachment"
+                  value={newTrigger.emailQuery}
+                  onChange={(e) => setNewTrigger({ ...newTrigger, emailQuery: e.target.value })}
+                  data-testid="input-trigger-email-query"
                 />
+                <p className="text-xs text-muted-foreground">
+                  Fires once for each new inbox email matching the search. Use {"{{subject}}"} or {"{{body}}"} in the task title.
+                </p>
               </div>
             )}
 
@@ -889,14 +1427,185 @@ export default function SchedulesPage() {
             )}
 
             {newTrigger.triggerType === "webhook" && (
-              <div className="space-y-2">
-                <Label>Webhook Secret (optional)</Label>
-                <Input
-                  placeholder="secret-key-for-validation"
-                  value={newTrigger.webhookSecret}
-                  onChange={(e) => setNewTrigger({ ...newTrigger, webhookSecret: e.target.value })}
-                  data-testid="input-trigger-webhook-secret"
-                />
+              <>
+                <div className="space-y-2">
+                  <Label>Signature</Label>
+                  <Select
+                    value={newTrigger.webhookSignature}
+                    onValueChange={(value) => setNewTrigger({ ...newTrigger, webhookSignature: value })}
+                  >
+                    <SelectTrigger data-testid="select-trigger-webhook-signature">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {webhookSignatureSchemes.map(scheme => (
+                        <SelectItem key={scheme.value} value={scheme.value}>{scheme.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{newTrigger.webhookSignature === "secret" ? "Webhook Secret (optional)" : "Signing Secret"}</Label>
+                  <Input
+                    placeholder="secret-key-for-validation"
+                    value={newTrigger.webhookSecret}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, webhookSecret: e.target.value })}
+                    data-testid="input-trigger-webhook-secret"
+                  />
+                  {newTrigger.webhookSignature === "hmac" && (
+                    <p className="text-xs text-muted-foreground">
+                      Senders sign &quot;timestamp.body&quot; with HMAC-SHA256 and send X-Webhook-Timestamp (Unix seconds)
+                      and X-Webhook-Signature: sha256=&lt;hex&gt;. An X-Webhook-Id header is accepted once.
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Payload Mapping (optional)</Label>
+                  <Textarea
+                    placeholder={"repo = $.repository.full_name\nauthor = $.sender.login"}
+                    value={newTrigger.webhookMapping}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, webhookMapping: e.target.value })}
+                    rows={3}
+                    className="font-mono text-sm"
+                    data-testid="input-trigger-webhook-mapping"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    One field per line; use them in the task as {"{{repo}}"}. Without a mapping the task gets the whole payload.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Max Deliveries per Minute</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={newTrigger.webhookMaxRequests}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, webhookMaxRequests: parseInt(e.target.value) || 60 })}
+                    data-testid="input-trigger-webhook-rate-limit"
+                  />
+                </div>
+              </>
+            )}
+
+            {newTrigger.triggerType === "file_watch" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Folder</Label>
+                  <Input
+                    placeholder="/home/me/Downloads"
+                    value={newTrigger.watchPath}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, watchPath: e.target.value })}
+                    data-testid="input-trigger-watch-path"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Files (comma-separated globs, optional)</Label>
+                  <Input
+                    placeholder="*.pdf, invoices/**/*.csv"
+                    value={newTrigger.watchInclude}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, watchInclude: e.target.value })}
+                    data-testid="input-trigger-watch-include"
+                  />
+                </div>
+                <div className="flex items-center gap-4">
+                  {fileWatchEvents.map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm capitalize">
+                      <Switch
+                        checked={newTrigger.watchEvents.includes(event)}
+                        onCheckedChange={(checked) => setNewTrigger({
+                          ...newTrigger,
+                          watchEvents: checked
+                            ? [...newTrigger.watchEvents, event]
+                            : newTrigger.watchEvents.filter(e => e !== event),
+                        })}
+                        data-testid={`switch-trigger-watch-${event}`}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {newTrigger.triggerType === "rss" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Feed URL</Label>
+                  <Input
+                    placeholder="https://example.com/feed.xml"
+                    value={newTrigger.feedUrl}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, feedUrl: e.target.value })}
+                    data-testid="input-trigger-feed-url"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Title Pattern (regex, optional)</Label>
+                  <Input
+                    placeholder="release|security"
+                    value={newTrigger.feedTitlePattern}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, feedTitlePattern: e.target.value })}
+                    data-testid="input-trigger-feed-pattern"
+                  />
+                </div>
+              </>
+            )}
+
+            {newTrigger.triggerType === "http_poll" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Endpoint URL</Label>
+                  <Input
+                    placeholder="https://api.example.com/status"
+                    value={newTrigger.pollUrl}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, pollUrl: e.target.value })}
+                    data-testid="input-trigger-poll-url"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>JSON Path to Watch</Label>
+                    <Input
+                      placeholder="$.data.status"
+                      value={newTrigger.pollJsonPath}
+                      onChange={(e) => setNewTrigger({ ...newTrigger, pollJsonPath: e.target.value })}
+                      className="font-mono"
+                      data-testid="input-trigger-poll-path"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Check Every (seconds)</Label>
+                    <Input
+                      type="number"
+                      min={10}
+                      value={newTrigger.pollIntervalSeconds}
+                      onChange={(e) => setNewTrigger({ ...newTrigger, pollIntervalSeconds: parseInt(e.target.value) || 300 })}
+                      data-testid="input-trigger-poll-interval"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {newTrigger.triggerType === "calendar_event" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Calendar</Label>
+                  <Input
+                    placeholder="primary"
+                    value={newTrigger.calendarId}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, calendarId: e.target.value })}
+                    data-testid="input-trigger-calendar-id"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Minutes Before Start</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={newTrigger.minutesBefore}
+                    onChange={(e) => setNewTrigger({ ...newTrigger, minutesBefore: parseInt(e.target.value) || 0 })}
+                    data-testid="input-trigger-minutes-before"
+                  />
+                </div>
               </div>
             )}
 
@@ -941,6 +1650,12 @@ export default function SchedulesPage() {
               </div>
             </div>
           </div>
+          {triggerError && (
+            <div className="flex items-center gap-2 text-sm text-red-600" data-testid="text-trigger-error">
+              <AlertCircle className="w-4 h-4" />
+              {triggerError}
+            </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsCreateTriggerOpen(false)}>
               Cancel
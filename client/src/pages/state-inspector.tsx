@@ -0,0 +1,379 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ArrowLeft,
+  History,
+  RefreshCw,
+  Loader2,
+  Lock,
+  Unlock,
+  Pencil,
+  Trash2,
+  Clock,
+} from "lucide-react";
+import { Link } from "wouter";
+import { cn } from "@/lib/utils";
+
+/** GET /api/orchestrator/state/sessions */
+interface StateSession {
+  id: string;
+  kind: string;
+  status: string;
+  userId: string | null;
+  chatId: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  lastAccessedAt: string;
+  closedAt: string | null;
+}
+
+/** GET /api/orchestrator/state/sessions/:id */
+interface SessionDetail {
+  sessionId: string;
+  kind: string;
+  status: string;
+  metadata?: Record<string, unknown>;
+  entries: Array<{ key: string; value: unknown; type: string; expiresAt?: string; createdAt: string; updatedAt: string }>;
+  locks: Array<{ key: string; holder: string; acquiredAt: string; expiresAt: string }>;
+  transactions: Array<{ id: string; status: string; operations: Array<{ key: string }>; createdAt: string; finishedAt?: string }>;
+}
+
+interface HistoryEntry {
+  id: string;
+  key: string;
+  action: string;
+  value: unknown;
+  actor: string | null;
+  transactionId: string | null;
+  createdAt: string;
+}
+
+const statusColors: Record<string, string> = {
+  active: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  completed: "bg-green-500/10 text-green-600 border-green-500/20",
+  failed: "bg-red-500/10 text-red-600 border-red-500/20",
+  cancelled: "bg-gray-500/10 text-gray-600 border-gray-500/20",
+  open: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20",
+  committed: "bg-green-500/10 text-green-600 border-green-500/20",
+  rolled_back: "bg-gray-500/10 text-gray-600 border-gray-500/20",
+  abandoned: "bg-red-500/10 text-red-600 border-red-500/20",
+};
+
+const historyIcons: Record<string, React.ReactNode> = {
+  set: <Pencil className="h-3 w-3" />,
+  delete: <Trash2 className="h-3 w-3" />,
+  expire: <Clock className="h-3 w-3" />,
+  lock: <Lock className="h-3 w-3" />,
+  unlock: <Unlock className="h-3 w-3" />,
+};
+
+const formatDate = (date: string | null | undefined) => (date ? new Date(date).toLocaleString() : "-");
+
+function preview(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text && text.length > 120 ? `${text.slice(0, 120)}…` : text ?? "";
+}
+
+export default function StateInspectorPage() {
+  const [sessions, setSessions] = useState<StateSession[]>([]);
+  const [filterKind, setFilterKind] = useState("all");
+  const [filterStatus, setFilterStatus] = useState("all");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SessionDetail | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (filterKind !== "all") params.set("kind", filterKind);
+      if (filterStatus !== "all") params.set("status", filterStatus);
+      const response = await fetch(`/api/orchestrator/state/sessions?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions);
+      }
+    } catch (error) {
+      console.error("Failed to load state sessions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterKind, filterStatus]);
+
+  const loadSession = useCallback(async (sessionId: string) => {
+    try {
+      const id = encodeURIComponent(sessionId);
+      const [detailResponse, historyResponse] = await Promise.all([
+        fetch(`/api/orchestrator/state/sessions/${id}`),
+        fetch(`/api/orchestrator/state/sessions/${id}/history`),
+      ]);
+      if (detailResponse.ok) setDetail(await detailResponse.json());
+      if (historyResponse.ok) setHistory((await historyResponse.json()).history);
+    } catch (error) {
+      console.error("Failed to load state session:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadSession(selectedId);
+    } else {
+      setDetail(null);
+      setHistory([]);
+    }
+  }, [selectedId, loadSession]);
+
+  const refresh = () => {
+    loadSessions();
+    if (selectedId) loadSession(selectedId);
+  };
+
+  const goal = typeof detail?.metadata?.goal === "string" ? detail.metadata.goal : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col" data-testid="state-inspector-page">
+      {/* Header */}
+      <header className="border-b bg-card px-4 py-3 flex-shrink-0">
+        <div className="flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              State Inspector
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Persisted orchestration sessions, their shared state and how it changed
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading} data-testid="button-refresh">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-2">Refresh</span>
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-hidden flex">
+        {/* Session list */}
+        <aside className="w-72 border-r flex flex-col flex-shrink-0">
+          <div className="p-3 border-b flex gap-2">
+            <Select value={filterKind} onValueChange={setFilterKind}>
+              <SelectTrigger className="h-8" data-testid="select-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All kinds</SelectItem>
+                <SelectItem value="orchestration">Orchestration</SelectItem>
+                <SelectItem value="general">General</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filterStatus} onValueChange={setFilterStatus}>
+              <SelectTrigger className="h-8" data-testid="select-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any status</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-1">
+              {sessions.length === 0 && (
+                <p className="text-sm text-muted-foreground p-2">No sessions</p>
+              )}
+              {sessions.map(session => (
+                <button
+                  key={session.id}
+                  onClick={() => setSelectedId(session.id)}
+                  className={cn(
+                    "w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted",
+                    selectedId === session.id && "bg-muted"
+                  )}
+                  data-testid={`session-${session.id}`}
+                >
+                  <div className="font-mono text-xs truncate">{session.id}</div>
+                  {typeof session.metadata?.goal === "string" && (
+                    <div className="truncate">{session.metadata.goal}</div>
+                  )}
+                  <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                    <Badge variant="outline" className={statusColors[session.status]}>{session.status}</Badge>
+                    <span>{session.kind}</span>
+                    <span>{formatDate(session.lastAccessedAt)}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        </aside>
+
+        {/* Detail */}
+        <section className="flex-1 overflow-auto p-6">
+          {!detail ? (
+            <p className="text-muted-foreground">Select a session to inspect its state</p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-semibold font-mono">{detail.sessionId}</h2>
+                  <Badge variant="outline" className={statusColors[detail.status]}>{detail.status}</Badge>
+                  {typeof detail.metadata?.status === "string" && detail.kind === "orchestration" && (
+                    <Badge variant="secondary">{detail.metadata.status}</Badge>
+                  )}
+                </div>
+                {goal && <p className="text-sm text-muted-foreground mt-1">{goal}</p>}
+              </div>
+
+              <Tabs defaultValue="history">
+                <TabsList>
+                  <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+                  <TabsTrigger value="entries">Entries ({detail.entries.length})</TabsTrigger>
+                  <TabsTrigger value="locks">Locks ({detail.locks.length})</TabsTrigger>
+                  <TabsTrigger value="transactions">Transactions ({detail.transactions.length})</TabsTrigger>
+                  <TabsTrigger value="metadata">Metadata</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="history">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Key</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {history.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="text-xs whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                          <TableCell>
+                            <span className="flex items-center gap-1 text-xs">
+                              {historyIcons[entry.action]}
+                              {entry.action}
+                            </span>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{entry.key}</TableCell>
+                          <TableCell className="font-mono text-xs">{entry.action === "set" ? preview(entry.value) : ""}</TableCell>
+                          <TableCell className="text-xs">
+                            {entry.actor ?? (entry.transactionId ? <span className="font-mono">{entry.transactionId}</span> : "-")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="entries">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Key</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Updated</TableHead>
+                        <TableHead>Expires</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.entries.map(entry => (
+                        <TableRow key={entry.key}>
+                          <TableCell className="font-mono text-xs">{entry.key}</TableCell>
+                          <TableCell className="text-xs">{entry.type}</TableCell>
+                          <TableCell className="font-mono text-xs">{preview(entry.value)}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{formatDate(entry.updatedAt)}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{formatDate(entry.expiresAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="locks">
+                  {detail.locks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-2">No locks held</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Key</TableHead>
+                          <TableHead>Holder</TableHead>
+                          <TableHead>Since</TableHead>
+                          <TableHead>Expires</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {detail.locks.map(lock => (
+                          <TableRow key={lock.key}>
+                            <TableCell className="font-mono text-xs">{lock.key}</TableCell>
+                            <TableCell className="text-xs">{lock.holder}</TableCell>
+                            <TableCell className="text-xs whitespace-nowrap">{formatDate(lock.acquiredAt)}</TableCell>
+                            <TableCell className="text-xs whitespace-nowrap">{formatDate(lock.expiresAt)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="transactions">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Transaction</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Keys</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Finished</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.transactions.map(transaction => (
+                        <TableRow key={transaction.id}>
+                          <TableCell className="font-mono text-xs">{transaction.id}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={statusColors[transaction.status]}>
+                              {transaction.status.replace("_", " ")}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {Array.from(new Set(transaction.operations.map(operation => operation.key))).join(", ")}
+                          </TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{formatDate(transaction.createdAt)}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{formatDate(transaction.finishedAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="metadata">
+                  <pre className="p-3 bg-muted rounded text-xs overflow-x-auto">
+                    {JSON.stringify(detail.metadata ?? {}, null, 2)}
+                  </pre>
+                </TabsContent>
+              </Tabs>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
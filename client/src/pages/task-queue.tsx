@@ -1,4 +1,3 @@
-
 import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -8,16 +7,16 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { 
-  ArrowLeft, 
-  ListTodo, 
-  RefreshCw, 
-  Play, 
-  Pause, 
-  CheckCircle, 
-  XCircle, 
-  Clock, 
-  Trash2, 
+import {
+  ArrowLeft,
+  ListTodo,
+  RefreshCw,
+  Play,
+  Pause,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Trash2,
   Plus,
   ChevronDown,
   ChevronRight,
@@ -28,59 +27,48 @@ import {
   Hand,
   Send,
   Zap,
-  GitBranch
+  GitBranch,
+  Eye,
+  RotateCcw,
+  Database,
+  FolderOpen,
+  ArrowRightLeft
 } from "lucide-react";
-import { Link } from "wouter";
-
-interface QueuedTask {
-  id: string;
-  parentId: string | null;
-  chatId: string | null;
-  title: string;
-  description: string | null;
-  taskType: string;
-  priority: number;
-  status: string;
-  input: Record<string, unknown> | null;
-  output: Record<string, unknown> | null;
-  error: string | null;
-  estimatedDuration: number | null;
-  actualDuration: number | null;
-  retryCount: number;
-  maxRetries: number;
-  createdAt: string;
-  startedAt: string | null;
-  completedAt: string | null;
-  executionMode?: string;
-  condition?: string | null;
-  waitingForInput?: boolean;
-  inputPrompt?: string | null;
-  dependencies?: string[] | null;
-  workflowId?: string | null;
-}
+import { Link, useLocation } from "wouter";
+import {
+  emptyQueueStats,
+  type QueueBackendName,
+  type QueueItem,
+  type QueueStats,
+  type QueueStatus,
+} from "@shared/queue";
 
-interface QueueStats {
-  pending: number;
-  running: number;
-  completed: number;
-  failed: number;
+/** GET /api/queue/stats */
+interface QueueOverview {
+  total: QueueStats;
+  backends: Partial<Record<QueueBackendName, QueueStats>>;
+  legacyTasks: number;
 }
 
 interface ExecutorStatus {
   isRunning: boolean;
   isPaused: boolean;
-  activeTaskCount: number;
-  pendingTaskCount: number;
-  stats: QueueStats;
+  runningTaskCount: number;
 }
 
-const statusConfig: Record<string, { color: string; icon: React.ReactNode; label: string }> = {
+const statusConfig: Record<QueueStatus, { color: string; icon: React.ReactNode; label: string }> = {
   pending: { color: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20", icon: <Clock className="w-3 h-3" />, label: "Pending" },
   running: { color: "bg-blue-500/10 text-blue-600 border-blue-500/20", icon: <Loader2 className="w-3 h-3 animate-spin" />, label: "Running" },
+  waiting_input: { color: "bg-purple-500/10 text-purple-600 border-purple-500/20", icon: <Hand className="w-3 h-3" />, label: "Waiting Input" },
   completed: { color: "bg-green-500/10 text-green-600 border-green-500/20", icon: <CheckCircle className="w-3 h-3" />, label: "Completed" },
   failed: { color: "bg-red-500/10 text-red-600 border-red-500/20", icon: <XCircle className="w-3 h-3" />, label: "Failed" },
   cancelled: { color: "bg-gray-500/10 text-gray-600 border-gray-500/20", icon: <XCircle className="w-3 h-3" />, label: "Cancelled" },
-  waiting_input: { color: "bg-purple-500/10 text-purple-600 border-purple-500/20", icon: <Hand className="w-3 h-3" />, label: "Waiting Input" },
+  dead_letter: { color: "bg-red-500/10 text-red-700 border-red-500/30", icon: <AlertCircle className="w-3 h-3" />, label: "Dead Letter" },
+};
+
+const backendConfig: Record<QueueBackendName, { icon: React.ReactNode; label: string }> = {
+  sqlite: { icon: <Database className="w-3 h-3" />, label: "Jobs" },
+  files: { icon: <FolderOpen className="w-3 h-3" />, label: "Files" },
 };
 
 const taskTypeConfig: Record<string, { color: string; label: string }> = {
@@ -92,52 +80,71 @@ const taskTypeConfig: Record<string, { color: string; label: string }> = {
   transform: { color: "bg-pink-500/10 text-pink-600", label: "Transform" },
   validate: { color: "bg-yellow-500/10 text-yellow-600", label: "Validate" },
   notify: { color: "bg-indigo-500/10 text-indigo-600", label: "Notify" },
+  prompt: { color: "bg-purple-500/10 text-purple-600", label: "Prompt" },
+  tool: { color: "bg-blue-500/10 text-blue-600", label: "Tool" },
+  composite: { color: "bg-cyan-500/10 text-cyan-600", label: "Composite" },
+  workflow: { color: "bg-orange-500/10 text-orange-600", label: "Workflow" },
+  approval: { color: "bg-emerald-500/10 text-emerald-600", label: "Approval" },
+};
+
+const EMPTY_ITEM = {
+  backend: "sqlite" as QueueBackendName,
+  queue: "",
+  title: "",
+  description: "",
+  kind: "action",
+  priority: 5,
 };
 
+const itemUrl = (ref: string) => `/api/queue/${encodeURIComponent(ref)}`;
+
 export default function TaskQueuePage() {
-  const [tasks, setTasks] = useState<QueuedTask[]>([]);
-  const [waitingTasks, setWaitingTasks] = useState<QueuedTask[]>([]);
-  const [stats, setStats] = useState<QueueStats>({ pending: 0, running: 0, completed: 0, failed: 0 });
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [waitingItems, setWaitingItems] = useState<QueueItem[]>([]);
+  const [deadLetterItems, setDeadLetterItems] = useState<QueueItem[]>([]);
+  const [overview, setOverview] = useState<QueueOverview>({ total: emptyQueueStats(), backends: {}, legacyTasks: 0 });
   const [executorStatus, setExecutorStatus] = useState<ExecutorStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string>("all");
-  const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+  const [filterBackend, setFilterBackend] = useState<string>("all");
+  const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [isCreateOpen, setIsCreateOpen] = useState(false);
-  const [isInputOpen, setIsInputOpen] = useState(false);
-  const [inputTask, setInputTask] = useState<QueuedTask | null>(null);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [inputItem, setInputItem] = useState<QueueItem | null>(null);
   const [inputValue, setInputValue] = useState("");
-  const [newTask, setNewTask] = useState({
-    title: "",
-    description: "",
-    taskType: "action",
-    priority: 0,
-  });
-
-  const loadTasks = useCallback(async () => {
+  const [inspectItem, setInspectItem] = useState<QueueItem | null>(null);
+  const [newItem, setNewItem] = useState(EMPTY_ITEM);
+  const [, setLocation] = useLocation();
+
+  const loadItems = useCallback(async () => {
     setIsLoading(true);
     try {
       const params = new URLSearchParams();
       if (filterStatus !== "all") {
         params.set("status", filterStatus);
       }
+      if (filterBackend !== "all") {
+        params.set("backend", filterBackend);
+      }
       const response = await fetch(`/api/queue?${params}`);
       if (response.ok) {
         const data = await response.json();
-        setTasks(data);
+        setItems(data);
       }
     } catch (error) {
-      console.error("Failed to load tasks:", error);
+      console.error("Failed to load queue items:", error);
     } finally {
       setIsLoading(false);
     }
-  }, [filterStatus]);
+  }, [filterStatus, filterBackend]);
 
   const loadStats = useCallback(async () => {
     try {
       const response = await fetch("/api/queue/stats");
       if (response.ok) {
         const data = await response.json();
-        setStats(data);
+        setOverview(data);
       }
     } catch (error) {
       console.error("Failed to load stats:", error);
@@ -156,34 +163,41 @@ export default function TaskQueuePage() {
     }
   }, []);
 
-  const loadWaitingTasks = useCallback(async () => {
+  const loadAttentionItems = useCallback(async () => {
     try {
-      const response = await fetch("/api/orchestration/tasks/waiting");
-      if (response.ok) {
-        const data = await response.json();
-        setWaitingTasks(data);
+      const [waiting, deadLetter] = await Promise.all([
+        fetch("/api/queue?status=waiting_input"),
+        fetch("/api/queue?status=dead_letter"),
+      ]);
+      if (waiting.ok) {
+        setWaitingItems(await waiting.json());
+      }
+      if (deadLetter.ok) {
+        setDeadLetterItems(await deadLetter.json());
       }
     } catch (error) {
-      console.error("Failed to load waiting tasks:", error);
+      console.error("Failed to load items needing attention:", error);
     }
   }, []);
 
-  useEffect(() => {
-    loadTasks();
+  const refresh = useCallback(() => {
+    loadItems();
     loadStats();
+    loadAttentionItems();
+  }, [loadItems, loadStats, loadAttentionItems]);
+
+  useEffect(() => {
+    refresh();
     loadExecutorStatus();
-    loadWaitingTasks();
-  }, [loadTasks, loadStats, loadExecutorStatus, loadWaitingTasks]);
+  }, [refresh, loadExecutorStatus]);
 
   useEffect(() => {
     const interval = setInterval(() => {
-      loadTasks();
-      loadStats();
+      refresh();
       loadExecutorStatus();
-      loadWaitingTasks();
     }, 5000);
     return () => clearInterval(interval);
-  }, [loadTasks, loadStats, loadExecutorStatus, loadWaitingTasks]);
+  }, [refresh, loadExecutorStatus]);
 
   const toggleExecutor = async () => {
     try {
@@ -205,104 +219,107 @@ export default function TaskQueuePage() {
     }
   };
 
-  const startTask = async (id: string) => {
+  const itemAction = async (item: QueueItem, action: "cancel" | "retry") => {
     try {
-      await fetch(`/api/queue/${id}/start`, { method: "POST" });
-      loadTasks();
-      loadStats();
+      await fetch(`${itemUrl(item.ref)}/${action}`, { method: "POST" });
+      setInspectItem(prev => (prev?.ref === item.ref ? null : prev));
+      refresh();
     } catch (error) {
-      console.error("Failed to start task:", error);
+      console.error(`Failed to ${action} item:`, error);
     }
   };
 
-  const cancelTask = async (id: string) => {
+  const prioritizeItem = async (item: QueueItem) => {
     try {
-      await fetch(`/api/queue/${id}/cancel`, { method: "POST" });
-      loadTasks();
-      loadStats();
+      await fetch(`/api/orchestration/tasks/${item.id}/prioritize`, { method: "POST" });
+      loadItems();
     } catch (error) {
-      console.error("Failed to cancel task:", error);
+      console.error("Failed to prioritize item:", error);
     }
   };
 
-  const interruptTask = async (id: string) => {
+  const deleteItem = async (item: QueueItem) => {
     try {
-      await fetch(`/api/orchestration/tasks/${id}/interrupt`, { method: "POST" });
-      loadTasks();
-      loadStats();
+      await fetch(itemUrl(item.ref), { method: "DELETE" });
+      refresh();
     } catch (error) {
-      console.error("Failed to interrupt task:", error);
+      console.error("Failed to delete item:", error);
     }
   };
 
-  const prioritizeTask = async (id: string) => {
-    try {
-      await fetch(`/api/orchestration/tasks/${id}/prioritize`, { method: "POST" });
-      loadTasks();
-    } catch (error) {
-      console.error("Failed to prioritize task:", error);
-    }
-  };
-
-  const deleteTask = async (id: string) => {
-    try {
-      await fetch(`/api/queue/${id}`, { method: "DELETE" });
-      loadTasks();
-      loadStats();
-    } catch (error) {
-      console.error("Failed to delete task:", error);
-    }
-  };
-
-  const createTask = async () => {
+  const createItem = async () => {
     try {
+      setCreateError(null);
       const response = await fetch("/api/queue", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(newTask),
+        body: JSON.stringify({
+          backend: newItem.backend,
+          title: newItem.title,
+          description: newItem.description || undefined,
+          kind: newItem.kind,
+          priority: newItem.priority,
+          queue: newItem.backend === "files" ? newItem.queue : undefined,
+        }),
       });
       if (response.ok) {
         setIsCreateOpen(false);
-        setNewTask({ title: "", description: "", taskType: "action", priority: 0 });
-        loadTasks();
-        loadStats();
+        setNewItem(EMPTY_ITEM);
+        refresh();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setCreateError(data.error || "Failed to add item");
       }
     } catch (error) {
-      console.error("Failed to create task:", error);
+      console.error("Failed to create item:", error);
     }
   };
 
   const provideInput = async () => {
-    if (!inputTask) return;
+    if (!inputItem) return;
     try {
-      await fetch(`/api/orchestration/tasks/${inputTask.id}/input`, {
+      await fetch(`${itemUrl(inputItem.ref)}/input`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ input: inputValue }),
       });
-      setIsInputOpen(false);
-      setInputTask(null);
+      setInputItem(null);
       setInputValue("");
-      loadTasks();
-      loadWaitingTasks();
+      refresh();
     } catch (error) {
       console.error("Failed to provide input:", error);
     }
   };
 
-  const openInputDialog = (task: QueuedTask) => {
-    setInputTask(task);
+  const migrateLegacyTasks = async () => {
+    setIsMigrating(true);
+    try {
+      await fetch("/api/queue/migrate", { method: "POST" });
+      refresh();
+    } catch (error) {
+      console.error("Failed to migrate legacy tasks:", error);
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const openInputDialog = (item: QueueItem) => {
+    // Approval jobs take a decision, not free text
+    if (item.kind === "approval") {
+      setLocation("/approvals");
+      return;
+    }
+    setInputItem(item);
     setInputValue("");
-    setIsInputOpen(true);
   };
 
-  const toggleExpand = (id: string) => {
-    setExpandedTasks(prev => {
+  const toggleExpand = (ref: string) => {
+    setExpandedItems(prev => {
       const next = new Set(prev);
-      if (next.has(id)) {
-        next.delete(id);
+      if (next.has(ref)) {
+        next.delete(ref);
       } else {
-        next.add(id);
+        next.add(ref);
       }
       return next;
     });
@@ -321,6 +338,16 @@ export default function TaskQueuePage() {
     return new Date(date).toLocaleString();
   };
 
+  const itemDuration = (item: QueueItem) => {
+    if (!item.startedAt || !item.completedAt) return null;
+    return Math.round((new Date(item.completedAt).getTime() - new Date(item.startedAt).getTime()) / 1000);
+  };
+
+  const backendLabel = (item: QueueItem) =>
+    item.queue ? `${backendConfig[item.backend].label}: ${item.queue}` : backendConfig[item.backend].label;
+
+  const stats = overview.total;
+
   return (
     <div className="min-h-screen bg-background flex flex-col" data-testid="task-queue-page">
       {/* Header */}
@@ -337,14 +364,14 @@ export default function TaskQueuePage() {
               Task Queue
             </h1>
             <p className="text-sm text-muted-foreground">
-              AI batch processing queue
+              Every queued job and file-queue task in one place
             </p>
           </div>
           <div className="flex items-center gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={() => { loadTasks(); loadStats(); loadExecutorStatus(); loadWaitingTasks(); }}
+              onClick={() => { refresh(); loadExecutorStatus(); }}
               disabled={isLoading}
               data-testid="button-refresh"
             >
@@ -356,7 +383,7 @@ export default function TaskQueuePage() {
             </Button>
             <Button
               size="sm"
-              onClick={() => setIsCreateOpen(true)}
+              onClick={() => { setCreateError(null); setIsCreateOpen(true); }}
               data-testid="button-create-task"
             >
               <Plus className="h-4 w-4 mr-2" />
@@ -433,29 +460,48 @@ export default function TaskQueuePage() {
               </div>
             </div>
 
-            {/* Waiting Tasks Section */}
-            {waitingTasks.length > 0 && (
+            {/* Legacy Migration Section */}
+            {overview.legacyTasks > 0 && (
+              <div className="border border-border rounded-lg bg-muted/20 p-6 border-yellow-500/30 flex items-center justify-between gap-4" data-testid="section-legacy-migration">
+                <div>
+                  <h2 className="text-lg font-semibold flex items-center gap-2 text-yellow-600">
+                    <ArrowRightLeft className="h-5 w-5" />
+                    {overview.legacyTasks} tasks in the old task table
+                  </h2>
+                  <p className="text-sm text-muted-foreground">
+                    Move them into the job queue to see and run them here. Ids, dependencies and results are kept.
+                  </p>
+                </div>
+                <Button onClick={migrateLegacyTasks} disabled={isMigrating} data-testid="button-migrate-legacy">
+                  {isMigrating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowRightLeft className="h-4 w-4 mr-2" />}
+                  Migrate
+                </Button>
+              </div>
+            )}
+
+            {/* Waiting Items Section */}
+            {waitingItems.length > 0 && (
               <div className="border border-border rounded-lg bg-muted/20 p-6 border-purple-500/30">
                 <h2 className="text-lg font-semibold flex items-center gap-2 mb-4 text-purple-600">
                   <Hand className="h-5 w-5" />
-                  Tasks Waiting for Input ({waitingTasks.length})
+                  Tasks Waiting for Input ({waitingItems.length})
                 </h2>
                 <p className="text-sm text-muted-foreground mb-4">
                   These tasks are paused and waiting for your input to continue
                 </p>
                 <div className="space-y-2">
-                  {waitingTasks.map(task => (
-                    <div key={task.id} className="flex items-center justify-between p-3 border rounded-lg bg-purple-500/5">
+                  {waitingItems.map(item => (
+                    <div key={item.ref} className="flex items-center justify-between p-3 border rounded-lg bg-purple-500/5">
                       <div>
-                        <p className="font-medium">{task.title}</p>
-                        {task.inputPrompt && (
-                          <p className="text-sm text-muted-foreground">{task.inputPrompt}</p>
+                        <p className="font-medium">{item.title}</p>
+                        {item.inputPrompt && (
+                          <p className="text-sm text-muted-foreground">{item.inputPrompt}</p>
                         )}
                       </div>
                       <Button
                         size="sm"
-                        onClick={() => openInputDialog(task)}
-                        data-testid={`button-provide-input-${task.id}`}
+                        onClick={() => openInputDialog(item)}
+                        data-testid={`button-provide-input-${item.id}`}
                       >
                         <Send className="h-4 w-4 mr-2" />
                         Provide Input
@@ -466,8 +512,59 @@ export default function TaskQueuePage() {
               </div>
             )}
 
+            {/* Dead Letter Section */}
+            {deadLetterItems.length > 0 && (
+              <div className="border border-border rounded-lg bg-muted/20 p-6 border-red-500/30" data-testid="section-dead-letter">
+                <h2 className="text-lg font-semibold flex items-center gap-2 mb-4 text-red-600">
+                  <AlertCircle className="h-5 w-5" />
+                  Dead Letter ({deadLetterItems.length})
+                </h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  These jobs failed on every attempt and will not run again until requeued
+                </p>
+                <div className="space-y-2">
+                  {deadLetterItems.map(item => (
+                    <div key={item.ref} className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-red-500/5">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium truncate">{item.title}</p>
+                          <Badge variant="outline" className="text-xs">{item.kind}</Badge>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {item.attempts} attempts · {formatDate(item.completedAt)}
+                          </span>
+                        </div>
+                        {item.error && (
+                          <p className="text-sm text-red-600 truncate">{item.error}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setInspectItem(item)}
+                          data-testid={`button-inspect-job-${item.id}`}
+                        >
+                          <Eye className="h-4 w-4 mr-2" />
+                          Inspect
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => itemAction(item, "retry")}
+                          data-testid={`button-requeue-job-${item.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Requeue
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Stats Grid */}
-            <div className="grid grid-cols-4 gap-4">
+            <div className="grid grid-cols-5 gap-4">
               <div className="border border-border rounded-lg bg-muted/20 p-6 border-yellow-500/20" data-testid="stat-pending">
                 <div className="flex items-center justify-between">
                   <div>
@@ -504,31 +601,54 @@ export default function TaskQueuePage() {
                   <XCircle className="h-8 w-8 text-red-500/50" />
                 </div>
               </div>
+              <div className="border border-border rounded-lg bg-muted/20 p-6 border-red-500/30" data-testid="stat-dead-letter">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Dead Letter</p>
+                    <p className="text-2xl font-bold text-red-700">{stats.dead_letter}</p>
+                  </div>
+                  <AlertCircle className="h-8 w-8 text-red-500/50" />
+                </div>
+              </div>
             </div>
 
-            {/* Tasks Section */}
+            {/* Items Section */}
             <div className="border border-border rounded-lg bg-muted/20 p-6">
               <div className="flex items-center justify-between mb-4">
                 <div>
                   <h2 className="text-lg font-semibold">Tasks</h2>
-                  <p className="text-sm text-muted-foreground">Queued tasks for AI processing</p>
+                  <p className="text-sm text-muted-foreground">
+                    {(Object.keys(backendConfig) as QueueBackendName[])
+                      .map(name => `${backendConfig[name].label}: ${Object.values(overview.backends[name] ?? {}).reduce((sum, count) => sum + count, 0)}`)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={filterBackend} onValueChange={setFilterBackend}>
+                    <SelectTrigger className="w-36" data-testid="select-filter-backend">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Queues</SelectItem>
+                      <SelectItem value="sqlite">Jobs</SelectItem>
+                      <SelectItem value="files">File Queues</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={filterStatus} onValueChange={setFilterStatus}>
+                    <SelectTrigger className="w-40" data-testid="select-filter-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Status</SelectItem>
+                      {(Object.keys(statusConfig) as QueueStatus[]).map(status => (
+                        <SelectItem key={status} value={status}>{statusConfig[status].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                <Select value={filterStatus} onValueChange={setFilterStatus}>
-                  <SelectTrigger className="w-40" data-testid="select-filter-status">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="running">Running</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="failed">Failed</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
-                  </SelectContent>
-                </Select>
               </div>
               <div className="h-[500px] border border-border rounded-lg">
-                {tasks.length === 0 ? (
+                {items.length === 0 ? (
                   <div className="flex flex-col items-center justify-center py-12 text-muted-foreground h-full">
                     <ListTodo className="h-12 w-12 mb-4 opacity-50" />
                     <p>No tasks in queue</p>
@@ -537,23 +657,23 @@ export default function TaskQueuePage() {
                 ) : (
                   <ScrollArea className="h-full">
                     <div className="space-y-2 p-4">
-                      {tasks.map(task => {
-                        const effectiveStatus = task.waitingForInput ? "waiting_input" : task.status;
-                        const statusInfo = statusConfig[effectiveStatus] || statusConfig.pending;
-                        const typeInfo = taskTypeConfig[task.taskType] || { color: "bg-gray-500/10 text-gray-600", label: task.taskType };
-                        const isExpanded = expandedTasks.has(task.id);
+                      {items.map(item => {
+                        const statusInfo = statusConfig[item.status] || statusConfig.pending;
+                        const typeInfo = taskTypeConfig[item.kind] || { color: "bg-gray-500/10 text-gray-600", label: item.kind };
+                        const isExpanded = expandedItems.has(item.ref);
+                        const duration = itemDuration(item);
 
                         return (
                           <div
-                            key={task.id}
+                            key={item.ref}
                             className="border rounded-lg p-3 hover:bg-muted/50 transition-colors"
-                            data-testid={`task-item-${task.id}`}
+                            data-testid={`task-item-${item.id}`}
                           >
                             <div className="flex items-start gap-3">
                               <button
-                                onClick={() => toggleExpand(task.id)}
+                                onClick={() => toggleExpand(item.ref)}
                                 className="mt-1 p-0.5 hover:bg-muted rounded"
-                                data-testid={`button-expand-${task.id}`}
+                                data-testid={`button-expand-${item.id}`}
                               >
                                 {isExpanded ? (
                                   <ChevronDown className="h-4 w-4" />
@@ -563,7 +683,7 @@ export default function TaskQueuePage() {
                               </button>
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 mb-1 flex-wrap">
-                                  <span className="font-medium truncate">{task.title}</span>
+                                  <span className="font-medium truncate">{item.title}</span>
                                   <Badge variant="outline" className={statusInfo.color}>
                                     {statusInfo.icon}
                                     <span className="ml-1">{statusInfo.label}</span>
@@ -571,34 +691,23 @@ export default function TaskQueuePage() {
                                   <Badge variant="secondary" className={typeInfo.color}>
                                     {typeInfo.label}
                                   </Badge>
-                                  {task.priority > 0 && (
-                                    <Badge variant="outline">Priority: {task.priority}</Badge>
-                                  )}
-                                  {task.executionMode && task.executionMode !== "sequential" && (
-                                    <Badge variant="outline" className="bg-cyan-500/10 text-cyan-600">
-                                      {task.executionMode}
-                                    </Badge>
+                                  <Badge variant="outline" className="text-muted-foreground">
+                                    {backendConfig[item.backend].icon}
+                                    <span className="ml-1">{backendLabel(item)}</span>
+                                  </Badge>
+                                  {item.priority !== 5 && (
+                                    <Badge variant="outline">Priority: {item.priority}</Badge>
                                   )}
-                                  {task.parentId && (
+                                  {item.parentRef && (
                                     <Badge variant="outline" className="bg-indigo-500/10 text-indigo-600">
                                       <GitBranch className="h-3 w-3 mr-1" />
                                       Subtask
                                     </Badge>
                                   )}
-                                  {task.workflowId && (
-                                    <Badge variant="outline" className="bg-orange-500/10 text-orange-600">
-                                      Workflow
-                                    </Badge>
-                                  )}
                                 </div>
-                                {task.description && (
+                                {item.description && (
                                   <p className="text-sm text-muted-foreground truncate">
-                                    {task.description}
-                                  </p>
-                                )}
-                                {task.condition && (
-                                  <p className="text-xs text-purple-600 mt-1">
-                                    Condition: {task.condition}
+                                    {item.description}
                                   </p>
                                 )}
                                 {isExpanded && (
@@ -606,56 +715,68 @@ export default function TaskQueuePage() {
                                     <div className="grid grid-cols-2 gap-4">
                                       <div>
                                         <span className="text-muted-foreground">Created:</span>{" "}
-                                        {formatDate(task.createdAt)}
+                                        {formatDate(item.createdAt)}
                                       </div>
-                                      {task.startedAt && (
+                                      {item.startedAt && (
                                         <div>
                                           <span className="text-muted-foreground">Started:</span>{" "}
-                                          {formatDate(task.startedAt)}
+                                          {formatDate(item.startedAt)}
                                         </div>
                                       )}
-                                      {task.completedAt && (
+                                      {item.completedAt && (
                                         <div>
                                           <span className="text-muted-foreground">Completed:</span>{" "}
-                                          {formatDate(task.completedAt)}
+                                          {formatDate(item.completedAt)}
                                         </div>
                                       )}
-                                      {task.actualDuration && (
+                                      {duration !== null && (
                                         <div>
                                           <span className="text-muted-foreground">Duration:</span>{" "}
-                                          {formatDuration(task.actualDuration)}
+                                          {formatDuration(duration)}
+                                        </div>
+                                      )}
+                                      {item.scheduledFor && item.status === "pending" && (
+                                        <div>
+                                          <span className="text-muted-foreground">Next attempt:</span>{" "}
+                                          {formatDate(item.scheduledFor)}
+                                        </div>
+                                      )}
+                                      {item.attempts > 0 && (
+                                        <div>
+                                          <span className="text-muted-foreground">Failed attempts:</span>{" "}
+                                          {item.attempts}{item.maxAttempts ? ` of ${item.maxAttempts}` : ""}
                                         </div>
                                       )}
                                     </div>
-                                    {task.dependencies && task.dependencies.length > 0 && (
+                                    {item.dependencies.length > 0 && (
                                       <div className="flex items-center gap-2">
                                         <span className="text-muted-foreground">Dependencies:</span>
-                                        {task.dependencies.map((dep, idx) => (
-                                          <Badge key={idx} variant="outline" className="text-xs">
-                                            {dep.slice(0, 8)}...
+                                        {item.dependencies.map(dep => (
+                                          <Badge key={dep} variant="outline" className="text-xs">
+                                            {dep.split(":").pop()?.slice(0, 8)}...
                                           </Badge>
                                         ))}
                                       </div>
                                     )}
-                                    {task.error && (
+                                    {item.error && (
                                       <div className="p-2 bg-red-500/10 rounded text-red-600 flex items-start gap-2">
                                         <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                                        <span>{task.error}</span>
+                                        <span>{item.error}</span>
                                       </div>
                                     )}
-                                    {task.input && (
+                                    {item.input != null && (
                                       <div>
                                         <span className="text-muted-foreground">Input:</span>
                                         <pre className="mt-1 p-2 bg-muted rounded text-xs overflow-x-auto">
-                                          {JSON.stringify(task.input, null, 2)}
+                                          {JSON.stringify(item.input, null, 2)}
                                         </pre>
                                       </div>
                                     )}
-                                    {task.output && (
+                                    {item.output != null && (
                                       <div>
                                         <span className="text-muted-foreground">Output:</span>
                                         <pre className="mt-1 p-2 bg-muted rounded text-xs overflow-x-auto">
-                                          {JSON.stringify(task.output, null, 2)}
+                                          {JSON.stringify(item.output, null, 2)}
                                         </pre>
                                       </div>
                                     )}
@@ -663,71 +784,62 @@ export default function TaskQueuePage() {
                                 )}
                               </div>
                               <div className="flex items-center gap-1">
-                                {task.waitingForInput && (
+                                {item.status === "waiting_input" && (
                                   <Button
                                     size="icon"
                                     variant="ghost"
-                                    onClick={() => openInputDialog(task)}
+                                    onClick={() => openInputDialog(item)}
                                     title="Provide input"
                                     className="text-purple-600"
-                                    data-testid={`button-input-${task.id}`}
+                                    data-testid={`button-input-${item.id}`}
                                   >
                                     <Send className="h-4 w-4" />
                                   </Button>
                                 )}
-                                {task.status === "pending" && (
-                                  <>
-                                    <Button
-                                      size="icon"
-                                      variant="ghost"
-                                      onClick={() => startTask(task.id)}
-                                      title="Start task"
-                                      data-testid={`button-start-${task.id}`}
-                                    >
-                                      <Play className="h-4 w-4 text-green-600" />
-                                    </Button>
-                                    <Button
-                                      size="icon"
-                                      variant="ghost"
-                                      onClick={() => prioritizeTask(task.id)}
-                                      title="Prioritize (run next)"
-                                      data-testid={`button-prioritize-${task.id}`}
-                                    >
-                                      <Zap className="h-4 w-4 text-yellow-600" />
-                                    </Button>
-                                  </>
-                                )}
-                                {task.status === "running" && (
+                                {item.status === "pending" && item.backend === "sqlite" && (
                                   <Button
                                     size="icon"
                                     variant="ghost"
-                                    onClick={() => interruptTask(task.id)}
-                                    title="Interrupt task"
-                                    data-testid={`button-interrupt-${task.id}`}
+                                    onClick={() => prioritizeItem(item)}
+                                    title="Prioritize (run next)"
+                                    data-testid={`button-prioritize-${item.id}`}
                                   >
-                                    <XCircle className="h-4 w-4 text-red-600" />
+                                    <Zap className="h-4 w-4 text-yellow-600" />
                                   </Button>
                                 )}
-                                {(task.status === "pending" || task.status === "running") && (
+                                {(item.status === "pending" || item.status === "waiting_input" || (item.status === "running" && item.backend === "sqlite")) && (
                                   <Button
                                     size="icon"
                                     variant="ghost"
-                                    onClick={() => cancelTask(task.id)}
+                                    onClick={() => itemAction(item, "cancel")}
                                     title="Cancel task"
-                                    data-testid={`button-cancel-${task.id}`}
+                                    data-testid={`button-cancel-${item.id}`}
                                   >
                                     <Pause className="h-4 w-4 text-yellow-600" />
                                   </Button>
                                 )}
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  onClick={() => deleteTask(task.id)}
-                                  title="Delete task"
-                                  data-testid={`button-delete-${task.id}`}
-                                >
-                                  <Trash2 className="h-4 w-4 text-red-600" />
-                                </Button>
+                                {(item.status === "failed" || item.status === "dead_letter" || (item.status === "cancelled" && item.backend === "files")) && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => itemAction(item, "retry")}
+                                    title="Retry task"
+                                    data-testid={`button-retry-${item.id}`}
+                                  >
+                                    <RotateCcw className="h-4 w-4 text-blue-600" />
+                                  </Button>
+                                )}
+                                {item.status !== "running" && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => deleteItem(item)}
+                                    title="Delete task"
+                                    data-testid={`button-delete-${item.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4 text-red-600" />
+                                  </Button>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -746,14 +858,14 @@ export default function TaskQueuePage() {
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Create New Task</DialogTitle>
-            <DialogDescription>Add a task to the processing queue</DialogDescription>
+            <DialogDescription>Add a task to the job queue or a file queue</DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div>
               <Label>Title</Label>
               <Input
-                value={newTask.title}
-                onChange={e => setNewTask(prev => ({ ...prev, title: e.target.value }))}
+                value={newItem.title}
+                onChange={e => setNewItem(prev => ({ ...prev, title: e.target.value }))}
                 placeholder="Task title"
                 data-testid="input-task-title"
               />
@@ -761,64 +873,108 @@ export default function TaskQueuePage() {
             <div>
               <Label>Description</Label>
               <Textarea
-                value={newTask.description}
-                onChange={e => setNewTask(prev => ({ ...prev, description: e.target.value }))}
+                value={newItem.description}
+                onChange={e => setNewItem(prev => ({ ...prev, description: e.target.value }))}
                 placeholder="Task description (optional)"
                 data-testid="input-task-description"
               />
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label>Type</Label>
+                <Label>Queue</Label>
                 <Select
-                  value={newTask.taskType}
-                  onValueChange={value => setNewTask(prev => ({ ...prev, taskType: value }))}
+                  value={newItem.backend}
+                  onValueChange={value => setNewItem(prev => ({ ...prev, backend: value as QueueBackendName }))}
                 >
-                  <SelectTrigger data-testid="select-task-type">
+                  <SelectTrigger data-testid="select-task-backend">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="research">Research</SelectItem>
-                    <SelectItem value="action">Action</SelectItem>
-                    <SelectItem value="analysis">Analysis</SelectItem>
-                    <SelectItem value="synthesis">Synthesis</SelectItem>
-                    <SelectItem value="fetch">Fetch</SelectItem>
-                    <SelectItem value="transform">Transform</SelectItem>
-                    <SelectItem value="validate">Validate</SelectItem>
-                    <SelectItem value="notify">Notify</SelectItem>
+                    <SelectItem value="sqlite">Job queue</SelectItem>
+                    <SelectItem value="files">File queue</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+              {newItem.backend === "files" && (
+                <div>
+                  <Label>Worker</Label>
+                  <Input
+                    value={newItem.queue}
+                    onChange={e => setNewItem(prev => ({ ...prev, queue: e.target.value }))}
+                    placeholder="e.g. code-review"
+                    data-testid="input-task-queue"
+                  />
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label>Priority</Label>
+                <Label>Type</Label>
+                {newItem.backend === "files" ? (
+                  <Input
+                    value={newItem.kind}
+                    onChange={e => setNewItem(prev => ({ ...prev, kind: e.target.value }))}
+                    placeholder="Job type"
+                    data-testid="input-task-type"
+                  />
+                ) : (
+                  <Select
+                    value={newItem.kind}
+                    onValueChange={value => setNewItem(prev => ({ ...prev, kind: value }))}
+                  >
+                    <SelectTrigger data-testid="select-task-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="research">Research</SelectItem>
+                      <SelectItem value="action">Action</SelectItem>
+                      <SelectItem value="analysis">Analysis</SelectItem>
+                      <SelectItem value="synthesis">Synthesis</SelectItem>
+                      <SelectItem value="fetch">Fetch</SelectItem>
+                      <SelectItem value="transform">Transform</SelectItem>
+                      <SelectItem value="validate">Validate</SelectItem>
+                      <SelectItem value="notify">Notify</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div>
+                <Label>Priority (0-10)</Label>
                 <Input
                   type="number"
-                  value={newTask.priority}
-                  onChange={e => setNewTask(prev => ({ ...prev, priority: parseInt(e.target.value, 10) || 0 }))}
+                  value={newItem.priority}
+                  onChange={e => setNewItem(prev => ({ ...prev, priority: Math.min(10, Math.max(0, parseInt(e.target.value, 10) || 0)) }))}
                   min={0}
-                  max={100}
+                  max={10}
                   data-testid="input-task-priority"
                 />
               </div>
             </div>
+            {createError && (
+              <p className="text-sm text-red-600">{createError}</p>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={createTask} disabled={!newTask.title} data-testid="button-submit-task">
+            <Button
+              onClick={createItem}
+              disabled={!newItem.title || !newItem.kind || (newItem.backend === "files" && !newItem.queue)}
+              data-testid="button-submit-task"
+            >
               Create Task
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
-      <Dialog open={isInputOpen} onOpenChange={setIsInputOpen}>
+      <Dialog open={!!inputItem} onOpenChange={open => !open && setInputItem(null)}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Provide Input</DialogTitle>
             <DialogDescription>
-              {inputTask?.inputPrompt || `The task "${inputTask?.title}" is waiting for your input to continue.`}
+              {inputItem?.inputPrompt || `The task "${inputItem?.title}" is waiting for your input to continue.`}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -834,7 +990,7 @@ export default function TaskQueuePage() {
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsInputOpen(false)}>
+            <Button variant="outline" onClick={() => setInputItem(null)}>
               Cancel
             </Button>
             <Button onClick={provideInput} disabled={!inputValue.trim()} data-testid="button-submit-input">
@@ -844,9 +1000,54 @@ export default function TaskQueuePage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!inspectItem} onOpenChange={open => !open && setInspectItem(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{inspectItem?.title}</DialogTitle>
+            <DialogDescription>
+              Dead-lettered {inspectItem?.kind} job {inspectItem?.id}
+            </DialogDescription>
+          </DialogHeader>
+          {inspectItem && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                <span className="text-muted-foreground">Attempts</span>
+                <span>{inspectItem.attempts} of {inspectItem.maxAttempts ?? "-"}</span>
+                <span className="text-muted-foreground">Queue</span>
+                <span>{backendLabel(inspectItem)}</span>
+                <span className="text-muted-foreground">Created</span>
+                <span>{formatDate(inspectItem.createdAt)}</span>
+                <span className="text-muted-foreground">Last started</span>
+                <span>{formatDate(inspectItem.startedAt)}</span>
+                <span className="text-muted-foreground">Dead-lettered</span>
+                <span>{formatDate(inspectItem.completedAt)}</span>
+              </div>
+              <div>
+                <Label>Last error</Label>
+                <pre className="mt-1 p-3 rounded bg-red-500/5 text-red-600 text-xs whitespace-pre-wrap break-words max-h-40 overflow-auto">
+                  {inspectItem.error || "-"}
+                </pre>
+              </div>
+              <div>
+                <Label>Payload</Label>
+                <pre className="mt-1 p-3 rounded bg-muted text-xs whitespace-pre-wrap break-words max-h-60 overflow-auto">
+                  {JSON.stringify(inspectItem.input, null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInspectItem(null)}>
+              Close
+            </Button>
+            <Button onClick={() => inspectItem && itemAction(inspectItem, "retry")} data-testid="button-requeue-inspected-job">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Requeue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
-
-
-
@@ -0,0 +1,1300 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from "react";
+import YAML from "yaml";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  ArrowLeft,
+  GitBranch,
+  RefreshCw,
+  Play,
+  Plus,
+  Save,
+  Trash2,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  Link2,
+  Unlink,
+  Square,
+  RotateCcw,
+  Calendar,
+  Zap,
+  ShieldCheck,
+} from "lucide-react";
+import { Link } from "wouter";
+import { cn } from "@/lib/utils";
+import { APPROVAL_CHANNELS, type ApprovalChannel } from "@shared/approvals";
+import {
+  validateWorkflowDefinition,
+  WORKFLOW_DSL_VERSION,
+  type WorkflowDefinition,
+  type WorkflowStep,
+  type WorkflowStepState,
+} from "@shared/workflow-dsl";
+import {
+  addStep,
+  connectSteps,
+  disconnectSteps,
+  issuesByStep,
+  layoutWorkflowGraph,
+  legacyStepsToDefinition,
+  newStep,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  removeStep,
+  renameStep,
+  updateStep,
+  type LegacyWorkflowStep,
+} from "@/lib/workflow-graph";
+
+interface Workflow {
+  id: string;
+  name: string;
+  description: string | null;
+  steps: unknown;
+  definition: WorkflowDefinition | null;
+  enabled: boolean;
+  updatedAt: string;
+}
+
+/** GET /api/orchestration/tools */
+interface ToolInfo {
+  name: string;
+  description?: string;
+  parameters?: {
+    properties?: Record<string, { type?: string; description?: string }>;
+    required?: string[];
+  };
+}
+
+interface LinkedSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  workflowId: string | null;
+  enabled: boolean;
+}
+
+interface LinkedTrigger {
+  id: string;
+  name: string;
+  triggerType: string;
+  workflowId: string | null;
+  enabled: boolean;
+}
+
+/** GET /api/orchestration/workflows/:id/runs */
+interface WorkflowRunSummary {
+  id: string;
+  status: string;
+  error: string | null;
+  jobId: string | null;
+  steps: Record<string, WorkflowStepState>;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface WorkflowRunJob {
+  id: string;
+  stepId: string;
+  itemIndex: number | null;
+  status: string;
+  input: { prompt?: string; systemPrompt?: string; toolName?: string; toolArgs?: Record<string, unknown> };
+  output: unknown;
+  error: string | null;
+  durationMs: number | null;
+  retryCount: number;
+}
+
+/** GET /api/orchestration/workflow-runs/:runId */
+interface WorkflowRunDetail extends WorkflowRunSummary {
+  jobs: WorkflowRunJob[];
+}
+
+interface Draft {
+  id: string | null;
+  name: string;
+  description: string;
+  enabled: boolean;
+  definition: WorkflowDefinition;
+  /** Built from a legacy step list; saving switches the workflow to the DSL */
+  convertedFromLegacy: boolean;
+}
+
+const taskTypes = ["research", "analysis", "synthesis", "action", "fetch", "transform", "validate", "notify"];
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-gray-500/10 text-gray-600",
+  running: "bg-blue-500/10 text-blue-600",
+  completed: "bg-green-500/10 text-green-600",
+  failed: "bg-red-500/10 text-red-600",
+  skipped: "bg-gray-500/10 text-gray-500",
+  cancelled: "bg-gray-500/10 text-gray-600",
+};
+
+const nodeStatusStyles: Record<string, string> = {
+  pending: "border-border",
+  running: "border-blue-500 ring-2 ring-blue-500/30 animate-pulse",
+  completed: "border-green-500",
+  failed: "border-red-500",
+  skipped: "border-dashed opacity-60",
+};
+
+function emptyDraft(): Draft {
+  return {
+    id: null,
+    name: "",
+    description: "",
+    enabled: true,
+    definition: {
+      version: WORKFLOW_DSL_VERSION,
+      steps: [{ id: "step_1", type: "prompt", prompt: "" }],
+    },
+    convertedFromLegacy: false,
+  };
+}
+
+function draftFromWorkflow(workflow: Workflow): Draft {
+  const legacy = !workflow.definition;
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description ?? "",
+    enabled: workflow.enabled,
+    definition: workflow.definition
+      ?? legacyStepsToDefinition(workflow.name, (Array.isArray(workflow.steps) ? workflow.steps : []) as LegacyWorkflowStep[]),
+    convertedFromLegacy: legacy,
+  };
+}
+
+function stepSummary(step: WorkflowStep): string {
+  switch (step.type) {
+    case "tool":
+      return step.tool || "No tool chosen";
+    case "task":
+      return step.taskType;
+    case "approval":
+      return step.title || "Untitled approval";
+    default:
+      return step.prompt ? step.prompt.slice(0, 40) : "Empty prompt";
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/** Tool argument text back to the type the tool's schema asks for */
+/** JSON object editor for an approval step's parameters; applied when valid */
+function ParametersField({ value, onChange }: { value?: Record<string, unknown>; onChange: (value?: Record<string, unknown>) => void }) {
+  const [text, setText] = useState(value ? JSON.stringify(value, null, 2) : "");
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    if (!text.trim()) {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setError("Parameters are a JSON object");
+        return;
+      }
+      setError(null);
+      onChange(parsed);
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label>Parameters the approver can edit (JSON)</Label>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={apply}
+        rows={3}
+        className="font-mono text-xs"
+        placeholder={'{ "to": "{{steps.draft.output.to}}" }'}
+        data-testid="textarea-step-approval-parameters"
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function parseArgument(text: string, type?: string): unknown {
+  if (text.includes("{{")) return text;
+  if ((type === "number" || type === "integer") && text.trim() !== "" && !Number.isNaN(Number(text))) return Number(text);
+  if (type === "boolean" && (text === "true" || text === "false")) return text === "true";
+  return text;
+}
+
+export default function WorkflowsPage() {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [tools, setTools] = useState<ToolInfo[]>([]);
+  const [schedules, setSchedules] = useState<LinkedSchedule[]>([]);
+  const [triggers, setTriggers] = useState<LinkedTrigger[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("step");
+
+  const [yamlText, setYamlText] = useState("");
+  const [yamlError, setYamlError] = useState<string | null>(null);
+
+  const [runs, setRuns] = useState<WorkflowRunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [runDetail, setRunDetail] = useState<WorkflowRunDetail | null>(null);
+  const [runInputs, setRunInputs] = useState("{}");
+  const [runError, setRunError] = useState<string | null>(null);
+  /** Bumped to restart polling after a cancel or retry */
+  const [runRefresh, setRunRefresh] = useState(0);
+
+  const loadWorkflows = useCallback(async () => {
+    try {
+      const response = await fetch("/api/orchestration/workflows");
+      if (response.ok) {
+        setWorkflows(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load workflows:", error);
+    }
+  }, []);
+
+  const loadWiring = useCallback(async () => {
+    try {
+      const [toolsResponse, schedulesResponse, triggersResponse] = await Promise.all([
+        fetch("/api/orchestration/tools"),
+        fetch("/api/orchestration/schedules"),
+        fetch("/api/orchestration/triggers"),
+      ]);
+      if (toolsResponse.ok) setTools(await toolsResponse.json());
+      if (schedulesResponse.ok) setSchedules(await schedulesResponse.json());
+      if (triggersResponse.ok) setTriggers(await triggersResponse.json());
+    } catch (error) {
+      console.error("Failed to load tools, schedules and triggers:", error);
+    }
+  }, []);
+
+  const loadRuns = useCallback(async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/orchestration/workflows/${encodeURIComponent(workflowId)}/runs?limit=30`);
+      if (response.ok) {
+        setRuns(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load workflow runs:", error);
+    }
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setIsLoading(true);
+    await Promise.all([loadWorkflows(), loadWiring()]);
+    setIsLoading(false);
+  }, [loadWorkflows, loadWiring]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  // Follow the selected run until it settles
+  useEffect(() => {
+    if (!selectedRunId) {
+      setRunDetail(null);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/orchestration/workflow-runs/${encodeURIComponent(selectedRunId)}`);
+        if (!response.ok || cancelled) return;
+        const detail: WorkflowRunDetail = await response.json();
+        setRunDetail(detail);
+        if (detail.status === "running") {
+          timer = setTimeout(poll, 2000);
+        } else if (draft?.id) {
+          loadRuns(draft.id);
+        }
+      } catch (error) {
+        console.error("Failed to load workflow run:", error);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedRunId, runRefresh, draft?.id, loadRuns]);
+
+  const definition = draft?.definition;
+  const validation = useMemo(() => definition ? validateWorkflowDefinition(definition) : null, [definition]);
+  const graph = useMemo(() => definition ? layoutWorkflowGraph(definition) : null, [definition]);
+  const stepIssues = useMemo(
+    () => definition && validation ? issuesByStep(definition, validation.errors) : new Map<string, string[]>(),
+    [definition, validation]
+  );
+
+  // The Definition tab shows the draft as YAML until the user edits the text
+  useEffect(() => {
+    if (activeTab === "definition" && definition) {
+      setYamlText(YAML.stringify(definition));
+      setYamlError(null);
+    }
+  }, [activeTab, definition]);
+
+  const openWorkflow = (workflow: Workflow | null) => {
+    const next = workflow ? draftFromWorkflow(workflow) : emptyDraft();
+    setDraft(next);
+    setIsDirty(next.convertedFromLegacy || !workflow);
+    setSaveError(null);
+    setSelectedStepId(next.definition.steps[0]?.id ?? null);
+    setConnectFrom(null);
+    setSelectedRunId(null);
+    setRuns([]);
+    setRunError(null);
+    if (workflow) loadRuns(workflow.id);
+  };
+
+  const editDefinition = (update: (definition: WorkflowDefinition) => WorkflowDefinition) => {
+    setDraft(current => current ? { ...current, definition: update(current.definition) } : current);
+    setIsDirty(true);
+  };
+
+  const editStep = (id: string, update: (step: WorkflowStep) => WorkflowStep) => {
+    editDefinition(current => updateStep(current, id, update));
+  };
+
+  const handleNodeClick = (id: string) => {
+    if (connectFrom && connectFrom !== id) {
+      editDefinition(current => connectSteps(current, connectFrom, id));
+      setConnectFrom(null);
+      return;
+    }
+    setConnectFrom(null);
+    setSelectedStepId(id);
+    setActiveTab("step");
+  };
+
+  const handleAddStep = (type: WorkflowStep["type"]) => {
+    if (!draft) return;
+    const added = addStep(draft.definition, type, selectedStepId ?? undefined);
+    editDefinition(() => added);
+    setSelectedStepId(added.steps[added.steps.length - 1].id);
+    setActiveTab("step");
+  };
+
+  const handleRename = (from: string, to: string) => {
+    if (!to || from === to || !draft) return;
+    if (draft.definition.steps.some(step => step.id === to)) return;
+    editDefinition(current => renameStep(current, from, to));
+    setSelectedStepId(to);
+  };
+
+  const applyYaml = () => {
+    try {
+      const parsed = YAML.parse(yamlText);
+      if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.steps)) {
+        setYamlError("The definition needs a steps list");
+        return;
+      }
+      editDefinition(() => parsed as WorkflowDefinition);
+      setYamlError(null);
+    } catch (error) {
+      setYamlError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const saveWorkflow = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const response = await fetch(
+        draft.id ? `/api/orchestration/workflows/${encodeURIComponent(draft.id)}` : "/api/orchestration/workflows",
+        {
+          method: draft.id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: draft.name || draft.definition.name || "Untitled workflow",
+            description: draft.description || null,
+            enabled: draft.enabled,
+            definition: draft.definition,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        const issues: Array<{ path: string; message: string }> | undefined = data.issues;
+        setSaveError(issues ? issues.map(issue => `${issue.path || "definition"}: ${issue.message}`).join("\n") : data.error);
+        return;
+      }
+      setDraft(draftFromWorkflow(data));
+      setIsDirty(false);
+      loadWorkflows();
+    } catch (error) {
+      console.error("Failed to save workflow:", error);
+      setSaveError("Failed to save workflow");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteWorkflow = async () => {
+    if (!draft?.id || !window.confirm(`Delete workflow "${draft.name}"?`)) return;
+    try {
+      await fetch(`/api/orchestration/workflows/${encodeURIComponent(draft.id)}`, { method: "DELETE" });
+      setDraft(null);
+      loadWorkflows();
+    } catch (error) {
+      console.error("Failed to delete workflow:", error);
+    }
+  };
+
+  const runWorkflow = async () => {
+    if (!draft?.id) return;
+    setRunError(null);
+    let inputs: unknown;
+    try {
+      inputs = JSON.parse(runInputs || "{}");
+    } catch {
+      setRunError("Inputs must be a JSON object");
+      return;
+    }
+    try {
+      const response = await fetch(`/api/orchestration/workflows/${encodeURIComponent(draft.id)}/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inputs }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setRunError(data.error || "Failed to run workflow");
+        return;
+      }
+      await loadRuns(draft.id);
+      setSelectedRunId(data.runId ?? null);
+    } catch (error) {
+      console.error("Failed to run workflow:", error);
+    }
+  };
+
+  const controlRun = async (action: "cancel" | "retry") => {
+    if (!selectedRunId) return;
+    try {
+      await fetch(`/api/orchestration/workflow-runs/${encodeURIComponent(selectedRunId)}/${action}`, { method: "POST" });
+      setRunRefresh(count => count + 1);
+    } catch (error) {
+      console.error(`Failed to ${action} workflow run:`, error);
+    }
+  };
+
+  const linkTo = async (kind: "schedules" | "triggers", id: string, workflowId: string | null) => {
+    try {
+      await fetch(`/api/orchestration/${kind}/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workflowId }),
+      });
+      loadWiring();
+    } catch (error) {
+      console.error(`Failed to update ${kind}:`, error);
+    }
+  };
+
+  const selectedStep = draft?.definition.steps.find(step => step.id === selectedStepId) ?? null;
+  const runStates = runDetail?.steps ?? null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col" data-testid="workflows-page">
+      {/* Header */}
+      <header className="border-b bg-card px-4 py-3 flex-shrink-0">
+        <div className="flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <GitBranch className="h-5 w-5 text-primary" />
+              Workflows
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Build step graphs, wire them to tools and schedules, and watch runs
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadAll} disabled={isLoading} data-testid="button-refresh">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-2">Refresh</span>
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-hidden flex">
+        {/* Workflow list */}
+        <aside className="w-60 border-r flex flex-col flex-shrink-0">
+          <div className="p-3 border-b">
+            <Button size="sm" className="w-full" onClick={() => openWorkflow(null)} data-testid="button-new-workflow">
+              <Plus className="h-4 w-4 mr-1" />
+              New workflow
+            </Button>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-1">
+              {workflows.length === 0 && (
+                <p className="text-sm text-muted-foreground p-2">No workflows yet</p>
+              )}
+              {workflows.map(workflow => (
+                <button
+                  key={workflow.id}
+                  onClick={() => openWorkflow(workflow)}
+                  className={cn(
+                    "w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted",
+                    draft?.id === workflow.id && "bg-muted"
+                  )}
+                  data-testid={`workflow-${workflow.id}`}
+                >
+                  <div className="font-medium truncate">{workflow.name}</div>
+                  <div className="text-xs text-muted-foreground flex items-center gap-2">
+                    {workflow.definition ? `${workflow.definition.steps.length} steps` : "Legacy step list"}
+                    {!workflow.enabled && <span>· disabled</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        </aside>
+
+        {!draft || !graph || !validation ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+            Select a workflow or create a new one
+          </div>
+        ) : (
+          <>
+            {/* Canvas */}
+            <section className="flex-1 flex flex-col overflow-hidden">
+              <div className="border-b px-4 py-2 flex items-center gap-2 flex-wrap">
+                <Input
+                  value={draft.name}
+                  placeholder="Workflow name"
+                  className="w-56 h-8"
+                  onChange={(e) => { setDraft({ ...draft, name: e.target.value }); setIsDirty(true); }}
+                  data-testid="input-workflow-name"
+                />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={draft.enabled}
+                    onCheckedChange={(enabled) => { setDraft({ ...draft, enabled }); setIsDirty(true); }}
+                  />
+                  <span className="text-sm text-muted-foreground">Enabled</span>
+                </div>
+                <div className="flex-1" />
+                <Button variant="outline" size="sm" onClick={() => handleAddStep("prompt")} data-testid="button-add-prompt">
+                  <Plus className="h-4 w-4 mr-1" /> Prompt
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleAddStep("tool")} data-testid="button-add-tool">
+                  <Plus className="h-4 w-4 mr-1" /> Tool
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleAddStep("task")} data-testid="button-add-task">
+                  <Plus className="h-4 w-4 mr-1" /> Task
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleAddStep("approval")} data-testid="button-add-approval">
+                  <ShieldCheck className="h-4 w-4 mr-1" /> Approval
+                </Button>
+                <Button size="sm" onClick={saveWorkflow} disabled={isSaving || !isDirty} data-testid="button-save-workflow">
+                  {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Save
+                </Button>
+                {draft.id && (
+                  <Button variant="ghost" size="icon" onClick={deleteWorkflow} data-testid="button-delete-workflow">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+
+              {draft.convertedFromLegacy && (
+                <div className="mx-4 mt-3 rounded-md border border-yellow-500/40 bg-yellow-500/10 p-2 text-sm">
+                  This workflow used a plain step list. It is shown as sequential task steps; saving stores it as a workflow definition.
+                </div>
+              )}
+              {connectFrom && (
+                <div className="mx-4 mt-3 rounded-md border border-primary/40 bg-primary/10 p-2 text-sm flex items-center gap-2">
+                  <Link2 className="h-4 w-4" />
+                  Click the step that should run after <span className="font-mono">{connectFrom}</span>
+                  <Button variant="ghost" size="sm" className="ml-auto h-6" onClick={() => setConnectFrom(null)}>Cancel</Button>
+                </div>
+              )}
+
+              <div className="flex-1 overflow-auto p-4">
+                <div className="relative" style={{ width: graph.width, height: graph.height }}>
+                  <svg className="absolute inset-0" width={graph.width} height={graph.height}>
+                    <defs>
+                      <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                        <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                      </marker>
+                    </defs>
+                    {graph.edges.map(edge => {
+                      const from = graph.nodes.find(node => node.id === edge.from);
+                      const to = graph.nodes.find(node => node.id === edge.to);
+                      if (!from || !to) return null;
+                      const x1 = from.x + NODE_WIDTH;
+                      const y1 = from.y + NODE_HEIGHT / 2;
+                      const x2 = to.x;
+                      const y2 = to.y + NODE_HEIGHT / 2;
+                      const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+                      return (
+                        <path
+                          key={`${edge.from}-${edge.to}`}
+                          d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                          className={cn(
+                            "fill-none stroke-muted-foreground",
+                            edge.explicit ? "cursor-pointer hover:stroke-destructive" : "opacity-60"
+                          )}
+                          strokeWidth={2}
+                          strokeDasharray={edge.explicit ? undefined : "5 4"}
+                          markerEnd="url(#workflow-arrow)"
+                          onClick={edge.explicit ? () => editDefinition(current => disconnectSteps(current, edge.from, edge.to)) : undefined}
+                        >
+                          <title>
+                            {edge.explicit ? "Click to remove this dependency" : "Implied by a template reading this step's output"}
+                          </title>
+                        </path>
+                      );
+                    })}
+                  </svg>
+
+                  {graph.nodes.map(node => {
+                    const runState = runStates?.[node.id];
+                    const issues = stepIssues.get(node.id);
+                    return (
+                      <div
+                        key={node.id}
+                        className={cn(
+                          "absolute rounded-lg border-2 bg-card px-3 py-2 text-sm shadow-sm cursor-pointer",
+                          runState ? nodeStatusStyles[runState.status] : "border-border",
+                          (issues || graph.cyclic.has(node.id)) && "border-red-500",
+                          selectedStepId === node.id && "ring-2 ring-primary",
+                          connectFrom && connectFrom !== node.id && "hover:ring-2 hover:ring-primary/50"
+                        )}
+                        style={{ left: node.x, top: node.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => handleNodeClick(node.id)}
+                        onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") handleNodeClick(node.id); }}
+                        data-testid={`node-${node.id}`}
+                      >
+                        <div className="flex items-center gap-1">
+                          <span className="font-medium truncate flex-1">{node.step.name || node.id}</span>
+                          {node.step.when !== undefined && <Badge variant="outline" className="h-4 px-1 text-[10px]">if</Badge>}
+                          {node.step.forEach !== undefined && <Badge variant="outline" className="h-4 px-1 text-[10px]">each</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {node.step.type} · {stepSummary(node.step)}
+                        </div>
+                        {runState && (
+                          <Badge className={cn("mt-1 h-4 px-1 text-[10px]", statusStyles[runState.status])}>
+                            {runState.status}
+                            {runState.jobIds.length > 1 ? ` ×${runState.jobIds.length}` : ""}
+                          </Badge>
+                        )}
+                        <button
+                          className="absolute -right-2 top-1/2 -translate-y-1/2 h-4 w-4 rounded-full border-2 border-primary bg-background hover:bg-primary"
+                          title="Connect to a step that runs after this one"
+                          onClick={(e) => { e.stopPropagation(); setConnectFrom(node.id); }}
+                          data-testid={`port-${node.id}`}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Validation */}
+              <div className="border-t px-4 py-2 max-h-40 overflow-auto text-sm" data-testid="workflow-validation">
+                {validation.valid && validation.warnings.length === 0 ? (
+                  <div className="flex items-center gap-2 text-green-600">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Valid: runs in {validation.plan?.levels.length ?? 0} stage(s)
+                  </div>
+                ) : (
+                  <ul className="space-y-1">
+                    {validation.errors.map((issue, index) => (
+                      <li key={`error-${index}`} className="flex items-start gap-2 text-red-600">
+                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span><span className="font-mono text-xs">{issue.path || "definition"}</span> {issue.message}</span>
+                      </li>
+                    ))}
+                    {validation.warnings.map((issue, index) => (
+                      <li key={`warning-${index}`} className="flex items-start gap-2 text-yellow-600">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span><span className="font-mono text-xs">{issue.path}</span> {issue.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {saveError && <pre className="mt-2 whitespace-pre-wrap text-red-600 text-xs">{saveError}</pre>}
+              </div>
+            </section>
+
+            {/* Inspector */}
+            <aside className="w-96 border-l flex flex-col flex-shrink-0">
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
+                <TabsList className="m-2 grid grid-cols-4">
+                  <TabsTrigger value="step">Step</TabsTrigger>
+                  <TabsTrigger value="definition">YAML</TabsTrigger>
+                  <TabsTrigger value="wiring">Wiring</TabsTrigger>
+                  <TabsTrigger value="runs">Runs</TabsTrigger>
+                </TabsList>
+
+                <ScrollArea className="flex-1">
+                  <TabsContent value="step" className="p-4 space-y-4 mt-0">
+                    {!selectedStep ? (
+                      <p className="text-sm text-muted-foreground">Select a step in the graph</p>
+                    ) : (
+                      <>
+                        {runDetail && (
+                          <StepRunPanel
+                            state={runDetail.steps[selectedStep.id]}
+                            jobs={runDetail.jobs.filter(job => job.stepId === selectedStep.id)}
+                          />
+                        )}
+                        <StepForm
+                          key={selectedStep.id}
+                          step={selectedStep}
+                          otherSteps={draft.definition.steps.filter(step => step.id !== selectedStep.id).map(step => step.id)}
+                          tools={tools}
+                          issues={stepIssues.get(selectedStep.id) ?? []}
+                          onChange={(update) => editStep(selectedStep.id, update)}
+                          onRename={(to) => handleRename(selectedStep.id, to)}
+                          onRemove={() => {
+                            editDefinition(current => removeStep(current, selectedStep.id));
+                            setSelectedStepId(null);
+                          }}
+                        />
+                      </>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="definition" className="p-4 space-y-3 mt-0">
+                    <Textarea
+                      value={yamlText}
+                      onChange={(e) => setYamlText(e.target.value)}
+                      className="font-mono text-xs min-h-[420px]"
+                      spellCheck={false}
+                      data-testid="textarea-definition"
+                    />
+                    {yamlError && <p className="text-sm text-red-600">{yamlError}</p>}
+                    <Button size="sm" onClick={applyYaml} data-testid="button-apply-yaml">Apply to graph</Button>
+                    <p className="text-xs text-muted-foreground">
+                      Inputs, defaults and compound conditions (all / any / not) are edited here.
+                    </p>
+                  </TabsContent>
+
+                  <TabsContent value="wiring" className="p-4 space-y-6 mt-0">
+                    {!draft.id ? (
+                      <p className="text-sm text-muted-foreground">Save the workflow to attach schedules and triggers</p>
+                    ) : (
+                      <>
+                        <WiringSection
+                          title="Schedules"
+                          icon={<Calendar className="h-4 w-4" />}
+                          items={schedules.map(schedule => ({ ...schedule, detail: schedule.cronExpression }))}
+                          workflowId={draft.id}
+                          onLink={(id, workflowId) => linkTo("schedules", id, workflowId)}
+                        />
+                        <WiringSection
+                          title="Triggers"
+                          icon={<Zap className="h-4 w-4" />}
+                          items={triggers.map(trigger => ({ ...trigger, detail: trigger.triggerType }))}
+                          workflowId={draft.id}
+                          onLink={(id, workflowId) => linkTo("triggers", id, workflowId)}
+                        />
+                        <Link href="/schedules" className="text-sm underline">Create schedules and triggers</Link>
+                      </>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="runs" className="p-4 space-y-4 mt-0">
+                    {!draft.id ? (
+                      <p className="text-sm text-muted-foreground">Save the workflow to run it</p>
+                    ) : (
+                      <>
+                        <div className="space-y-2">
+                          <Label>Inputs (JSON)</Label>
+                          <Textarea
+                            value={runInputs}
+                            onChange={(e) => setRunInputs(e.target.value)}
+                            className="font-mono text-xs"
+                            rows={3}
+                            data-testid="textarea-run-inputs"
+                          />
+                          {runError && <p className="text-sm text-red-600">{runError}</p>}
+                          <Button size="sm" onClick={runWorkflow} disabled={isDirty} data-testid="button-run-workflow">
+                            <Play className="h-4 w-4 mr-1" />
+                            Run
+                          </Button>
+                          {isDirty && <p className="text-xs text-muted-foreground">Save your changes before running</p>}
+                        </div>
+
+                        {runDetail && (
+                          <div className="flex items-center gap-2">
+                            <Badge className={statusStyles[runDetail.status]}>{runDetail.status}</Badge>
+                            {runDetail.status === "running" && (
+                              <Button variant="outline" size="sm" onClick={() => controlRun("cancel")} data-testid="button-cancel-run">
+                                <Square className="h-4 w-4 mr-1" /> Cancel
+                              </Button>
+                            )}
+                            {(runDetail.status === "failed" || runDetail.status === "cancelled") && (
+                              <Button variant="outline" size="sm" onClick={() => controlRun("retry")} data-testid="button-retry-run">
+                                <RotateCcw className="h-4 w-4 mr-1" /> Retry
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => setSelectedRunId(null)}>Hide overlay</Button>
+                          </div>
+                        )}
+                        {runDetail?.error && <p className="text-sm text-red-600">{runDetail.error}</p>}
+
+                        <div className="space-y-1">
+                          {runs.length === 0 && <p className="text-sm text-muted-foreground">No runs yet</p>}
+                          {runs.map(run => (
+                            <button
+                              key={run.id}
+                              onClick={() => setSelectedRunId(run.id)}
+                              className={cn(
+                                "w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted flex items-center gap-2",
+                                selectedRunId === run.id && "bg-muted"
+                              )}
+                              data-testid={`run-${run.id}`}
+                            >
+                              <Badge className={statusStyles[run.status]}>{run.status}</Badge>
+                              <span className="text-xs text-muted-foreground">{new Date(run.createdAt).toLocaleString()}</span>
+                            </button>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </TabsContent>
+                </ScrollArea>
+              </Tabs>
+            </aside>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function StepRunPanel({ state, jobs }: { state?: WorkflowStepState; jobs: WorkflowRunJob[] }) {
+  if (!state) return null;
+
+  const sorted = [...jobs].sort((a, b) => (a.itemIndex ?? 0) - (b.itemIndex ?? 0));
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-sm" data-testid="step-run-panel">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">This run</span>
+        <Badge className={statusStyles[state.status]}>{state.status}</Badge>
+      </div>
+      {state.reason && <p className="text-xs text-muted-foreground">{state.reason}</p>}
+      {state.error && <p className="text-xs text-red-600">{state.error}</p>}
+      {sorted.map(job => (
+        <div key={job.id} className="space-y-1 border-t pt-2">
+          <div className="flex items-center gap-2 text-xs">
+            {job.itemIndex !== null && <span className="font-mono">item {job.itemIndex}</span>}
+            <Badge className={cn("h-4 px-1 text-[10px]", statusStyles[job.status] ?? statusStyles.pending)}>{job.status}</Badge>
+            {job.retryCount > 0 && <span className="text-muted-foreground">{job.retryCount} retries</span>}
+            {job.durationMs !== null && <span className="text-muted-foreground">{(job.durationMs / 1000).toFixed(1)}s</span>}
+          </div>
+          <Label className="text-xs">Input</Label>
+          <pre className="text-xs bg-muted rounded p-2 whitespace-pre-wrap break-words max-h-40 overflow-auto">
+            {job.input.toolName ? formatValue({ tool: job.input.toolName, args: job.input.toolArgs }) : formatValue(job.input.prompt)}
+          </pre>
+          <Label className="text-xs">{job.error ? "Error" : "Output"}</Label>
+          <pre className={cn("text-xs rounded p-2 whitespace-pre-wrap break-words max-h-60 overflow-auto", job.error ? "bg-red-500/10" : "bg-muted")}>
+            {job.error ?? formatValue(job.output)}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface StepFormProps {
+  step: WorkflowStep;
+  otherSteps: string[];
+  tools: ToolInfo[];
+  issues: string[];
+  onChange: (update: (step: WorkflowStep) => WorkflowStep) => void;
+  onRename: (id: string) => void;
+  onRemove: () => void;
+}
+
+function StepForm({ step, otherSteps, tools, issues, onChange, onRename, onRemove }: StepFormProps) {
+  const [id, setId] = useState(step.id);
+  const tool = step.type === "tool" ? tools.find(candidate => candidate.name === step.tool) : undefined;
+
+  const setField = (field: string, value: unknown) => {
+    onChange(current => {
+      const next: Record<string, unknown> = { ...current };
+      if (value === undefined || value === "") {
+        delete next[field];
+      } else {
+        next[field] = value;
+      }
+      return next as WorkflowStep;
+    });
+  };
+
+  const changeType = (type: WorkflowStep["type"]) => {
+    onChange(current => {
+      const { id: stepId, name, needs, when, forEach, retry, timeoutSeconds, priority, agentId } = current;
+      const common = { name, needs, when, forEach, retry, timeoutSeconds, priority, agentId };
+      const defined = Object.fromEntries(Object.entries(common).filter(([, value]) => value !== undefined));
+      return { ...newStep(stepId, type), ...defined } as WorkflowStep;
+    });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="step-form">
+      {issues.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {issues.map((issue, index) => <li key={index}>{issue}</li>)}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label>Id</Label>
+          <Input
+            value={id}
+            onChange={(e) => setId(e.target.value)}
+            onBlur={() => onRename(id)}
+            className="font-mono"
+            data-testid="input-step-id"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={step.type} onValueChange={(value) => changeType(value as WorkflowStep["type"])}>
+            <SelectTrigger data-testid="select-step-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="prompt">Prompt</SelectItem>
+              <SelectItem value="tool">Tool</SelectItem>
+              <SelectItem value="task">Task</SelectItem>
+              <SelectItem value="approval">Approval</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Name</Label>
+        <Input value={step.name ?? ""} onChange={(e) => setField("name", e.target.value)} data-testid="input-step-name" />
+      </div>
+
+      {step.type === "prompt" && (
+        <>
+          <div className="space-y-1">
+            <Label>Prompt</Label>
+            <Textarea value={step.prompt} onChange={(e) => setField("prompt", e.target.value)} rows={5} data-testid="textarea-step-prompt" />
+          </div>
+          <div className="space-y-1">
+            <Label>System prompt</Label>
+            <Textarea value={step.systemPrompt ?? ""} onChange={(e) => setField("systemPrompt", e.target.value)} rows={2} />
+          </div>
+        </>
+      )}
+
+      {step.type === "tool" && (
+        <>
+          <div className="space-y-1">
+            <Label>Tool</Label>
+            <Select value={step.tool || undefined} onValueChange={(value) => setField("tool", value)}>
+              <SelectTrigger data-testid="select-step-tool">
+                <SelectValue placeholder="Choose a tool" />
+              </SelectTrigger>
+              <SelectContent>
+                {tools.map(candidate => (
+                  <SelectItem key={candidate.name} value={candidate.name}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {tool?.description && <p className="text-xs text-muted-foreground">{tool.description}</p>}
+          </div>
+          {Object.entries(tool?.parameters?.properties ?? {}).map(([name, property]) => {
+            const value = step.args?.[name];
+            return (
+              <div key={name} className="space-y-1">
+                <Label className="font-mono text-xs">
+                  {name}{tool?.parameters?.required?.includes(name) ? " *" : ""}
+                </Label>
+                <Input
+                  value={value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value)}
+                  placeholder={property.description}
+                  onChange={(e) => onChange(current => {
+                    if (current.type !== "tool") return current;
+                    const args = { ...current.args };
+                    if (e.target.value === "") {
+                      delete args[name];
+                    } else {
+                      args[name] = parseArgument(e.target.value, property.type);
+                    }
+                    return { ...current, args };
+                  })}
+                  data-testid={`input-arg-${name}`}
+                />
+              </div>
+            );
+          })}
+        </>
+      )}
+
+      {step.type === "task" && (
+        <>
+          <div className="space-y-1">
+            <Label>Task type</Label>
+            <Select value={step.taskType} onValueChange={(value) => setField("taskType", value)}>
+              <SelectTrigger data-testid="select-step-task-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {taskTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Description</Label>
+            <Textarea value={step.description} onChange={(e) => setField("description", e.target.value)} rows={4} />
+          </div>
+        </>
+      )}
+
+      {step.type === "approval" && (
+        <>
+          <div className="space-y-1">
+            <Label>Title</Label>
+            <Input value={step.title} onChange={(e) => setField("title", e.target.value)} data-testid="input-step-approval-title" />
+          </div>
+          <div className="space-y-1">
+            <Label>Summary for the approver</Label>
+            <Textarea value={step.summary ?? ""} onChange={(e) => setField("summary", e.target.value)} rows={4} />
+          </div>
+          <ParametersField
+            key={step.id}
+            value={step.parameters}
+            onChange={(parameters) => setField("parameters", parameters)}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label>Expires after (s)</Label>
+              <Input
+                type="number"
+                min={60}
+                value={step.expiresAfterSeconds ?? ""}
+                onChange={(e) => setField("expiresAfterSeconds", e.target.value ? Number(e.target.value) : undefined)}
+                data-testid="input-step-approval-expiry"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>On expiry</Label>
+              <Select value={step.onExpiry ?? "reject"} onValueChange={(value) => setField("onExpiry", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reject">Reject</SelectItem>
+                  <SelectItem value="approve">Approve</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>On reject</Label>
+              <Select value={step.onReject ?? "skip"} onValueChange={(value) => setField("onReject", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip what follows</SelectItem>
+                  <SelectItem value="fail">Fail the run</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Notify</Label>
+            <div className="flex items-center gap-4">
+              {APPROVAL_CHANNELS.map(channel => {
+                const channels = step.notify?.channels ?? [];
+                return (
+                  <label key={channel} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={channels.includes(channel)}
+                      onCheckedChange={(checked) => {
+                        const next: ApprovalChannel[] = checked
+                          ? [...channels, channel]
+                          : channels.filter(existing => existing !== channel);
+                        setField("notify", next.length > 0 ? { ...step.notify, channels: next } : undefined);
+                      }}
+                      data-testid={`checkbox-approval-notify-${channel}`}
+                    />
+                    {channel === "app" ? "In app" : channel === "sms" ? "SMS" : "Email"}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Templates: {"{{inputs.name}}"}, {"{{steps.<id>.output}}"}, and {"{{item}}"} / {"{{index}}"} in for-each steps.
+      </p>
+
+      {otherSteps.length > 0 && (
+        <div className="space-y-1">
+          <Label>Runs after</Label>
+          <div className="grid grid-cols-2 gap-1">
+            {otherSteps.map(other => (
+              <label key={other} className="flex items-center gap-2 text-sm font-mono">
+                <Checkbox
+                  checked={step.needs?.includes(other) ?? false}
+                  onCheckedChange={(checked) => {
+                    const needs = (step.needs ?? []).filter(need => need !== other);
+                    setField("needs", checked ? [...needs, other] : needs.length > 0 ? needs : undefined);
+                  }}
+                />
+                {other}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label>Run only when</Label>
+        {step.when === undefined || typeof step.when === "string" ? (
+          <Input
+            value={step.when ?? ""}
+            placeholder="{{steps.check.output.hasNew}}"
+            onChange={(e) => setField("when", e.target.value)}
+            className="font-mono text-xs"
+            data-testid="input-step-when"
+          />
+        ) : (
+          <pre className="text-xs bg-muted rounded p-2">{JSON.stringify(step.when, null, 2)}</pre>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label>For each item in</Label>
+        {step.forEach === undefined || typeof step.forEach === "string" ? (
+          <Input
+            value={step.forEach ?? ""}
+            placeholder="{{steps.fetch.output.items}}"
+            onChange={(e) => setField("forEach", e.target.value)}
+            className="font-mono text-xs"
+            data-testid="input-step-foreach"
+          />
+        ) : (
+          <pre className="text-xs bg-muted rounded p-2">{JSON.stringify(step.forEach)}</pre>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label>Max attempts</Label>
+          <Input
+            type="number"
+            min={1}
+            max={10}
+            value={step.retry?.maxAttempts ?? ""}
+            onChange={(e) => setField("retry", e.target.value ? { maxAttempts: parseInt(e.target.value) } : undefined)}
+            data-testid="input-step-attempts"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Timeout (seconds)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={step.timeoutSeconds ?? ""}
+            onChange={(e) => setField("timeoutSeconds", e.target.value ? parseInt(e.target.value) : undefined)}
+            data-testid="input-step-timeout"
+          />
+        </div>
+      </div>
+
+      <Button variant="outline" size="sm" className="text-destructive" onClick={onRemove} data-testid="button-remove-step">
+        <Trash2 className="h-4 w-4 mr-1" />
+        Remove step
+      </Button>
+    </div>
+  );
+}
+
+interface WiringSectionProps {
+  title: string;
+  icon: ReactNode;
+  items: Array<{ id: string; name: string; detail: string; workflowId: string | null; enabled: boolean }>;
+  workflowId: string;
+  onLink: (id: string, workflowId: string | null) => void;
+}
+
+function WiringSection({ title, icon, items, workflowId, onLink }: WiringSectionProps) {
+  const linked = items.filter(item => item.workflowId === workflowId);
+  const available = items.filter(item => item.workflowId !== workflowId);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium flex items-center gap-2">{icon}{title}</h3>
+      {linked.length === 0 && <p className="text-sm text-muted-foreground">None start this workflow</p>}
+      {linked.map(item => (
+        <div key={item.id} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate">{item.name}</span>
+          <span className="font-mono text-xs text-muted-foreground">{item.detail}</span>
+          {!item.enabled && <Badge variant="outline">off</Badge>}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onLink(item.id, null)} title="Detach">
+            <Unlink className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {available.length > 0 && (
+        <Select value="" onValueChange={(id) => onLink(id, workflowId)}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder={`Attach a ${title.toLowerCase().replace(/s$/, "")}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map(item => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.name}{item.workflowId ? " (moves from another workflow)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -204,6 +204,8 @@ export default function WorkspacePage() {
     const userMessage: Message = {
       id: Date.now().toString(),
       chatId: currentChatId,
+      parentId: null,
+      agentId: null,
       role: "user",
       content: inputMessage.trim(),
       createdAt: new Date(),
@@ -234,6 +236,8 @@ export default function WorkspacePage() {
       const aiMessage: Message = {
         id: (Date.now() + 1).toString(),
         chatId: currentChatId,
+        parentId: null,
+        agentId: null,
         role: "assistant",
         content: "",
         createdAt: new Date(),
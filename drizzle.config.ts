@@ -4,6 +4,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "sqlite",
+  // Full-text search tables are managed by server/services/search/schema.ts
+  tablesFilter: ["!search_*"],
   dbCredentials: {
     url: "file:./data/meowstik.db",
   },
@@ -32,21 +32,21 @@ export async function simpleTaskExample() {
 }
 
 // Example 2: State management
-export function stateManagementExample() {
+export async function stateManagementExample() {
   console.log("\n=== State Management ===\n");
   
   const sessionId = "demo-123";
-  stateManager.createSession(sessionId, {
+  await stateManager.createSession(sessionId, {
     initialState: { language: "typescript" },
   });
   
-  stateManager.setState(sessionId, {
+  await stateManager.setState(sessionId, {
     key: "framework",
     value: "express",
     type: "shared",
   });
   
-  const state = stateManager.getAllState(sessionId);
+  const state = await stateManager.getAllState(sessionId);
   console.log("State:", state);
   
   return state;
@@ -76,7 +76,7 @@ export function loggingExample() {
 export async function runExamples() {
   console.log("=== ORCHESTRATION EXAMPLES ===\n");
   await simpleTaskExample();
-  stateManagementExample();
+  await stateManagementExample();
   loggingExample();
   console.log("\n=== EXAMPLES COMPLETED ===");
 }
@@ -17,6 +17,8 @@
  * Legacy aliases maintained for backward compatibility.
  */
 import type { FunctionDeclaration } from "@google/genai";
+import type { LlmTool } from "./services/llm/types";
+import type { JsonSchema } from "./services/tool-schemas";
 
 export const geminiFunctionDeclarations: FunctionDeclaration[] = [
   // ═══════════════════════════════════════════════════════════════════════════
@@ -725,6 +727,24 @@ export const geminiFunctionDeclarations: FunctionDeclaration[] = [
     }
   },
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GITHUB
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    name: "github_issue_comment",
+    description: "Comment on a GitHub issue or pull request. The chat agent's GitHub signature is appended automatically.",
+    parametersJsonSchema: {
+      type: "object",
+      properties: {
+        owner: { type: "string", description: "Repository owner (user or organization)" },
+        repo: { type: "string", description: "Repository name" },
+        issueNumber: { type: "number", description: "Issue or pull request number" },
+        body: { type: "string", description: "Comment text (markdown)" }
+      },
+      required: ["owner", "repo", "issueNumber", "body"]
+    }
+  },
+
   // ═══════════════════════════════════════════════════════════════════════════
   // TWILIO SMS/VOICE
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1135,3 +1155,16 @@ export function getAllToolNames(): string[] {
 
 
 
+
+/**
+ * Convert declarations to the provider-neutral tool shape used by the LLM service
+ */
+export function toLlmTools(declarations: FunctionDeclaration[]): LlmTool[] {
+  return declarations
+    .filter(tool => !!tool.name)
+    .map(tool => ({
+      name: tool.name!,
+      description: tool.description,
+      parameters: tool.parametersJsonSchema as JsonSchema | undefined,
+    }));
+}
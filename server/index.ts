@@ -7,7 +7,7 @@ import express, { type Request, Response, NextFunction } from "express";
 // import session from "express-session"; // Moved to googleAuth.ts
 import { registerRoutes } from "./routes.js"; 
 import { setupVite, serveStatic } from "./vite.js";
-import { createServer } from "http";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
 import { storage } from "./storage.js";
 import { pool } from "./db.js";
 import { setupAuth } from "./routes/auth.js";
@@ -18,6 +18,8 @@ import { setupTwilioWebSocket } from "./websocket-twilio.js";
 import { setupExtensionWebSocket } from "./websocket-extension.js";
 import { setupVSCodeWebSocket } from "./websocket-vscode.js";
 import { desktopService } from "./services/desktop-service.js";
+import { stateManager } from "./services/state-manager.js";
+import { orchestrator } from "./services/orchestrator.js";
 
 // --- SONAR: GLOBAL ERROR CATCHERS ---
 process.on('uncaughtException', (err) => {
@@ -41,8 +43,16 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+// Chat imports carry whole conversations with their attachments
+app.use("/api/chats/import", express.json({ limit: "50mb" }));
+// Webhook signatures are computed over the body exactly as received
+const keepWebhookBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  if (req.url?.startsWith("/api/orchestration/webhook/")) {
+    (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buf;
+  }
+};
+app.use(express.json({ verify: keepWebhookBody }));
+app.use(express.urlencoded({ extended: false, verify: keepWebhookBody }));
 
 // app.use(session({ ... })) REMOVED: Session is handled in setupAuth inside registerRoutes
 // to ensure we use the Postgres-backed session store and avoid double-init.
@@ -163,6 +173,17 @@ async function startServer() {
     } catch(e: any) {
         console.error('⚠️  [Boot] Database Link Failed:', e.message);
     }
+
+    // Orchestration state: settle what the last run left behind, then
+    // reattach orchestrations that were still running
+    try {
+        await stateManager.initialize();
+        await orchestrator.initialize();
+        await orchestrator.recoverSessions();
+        console.log('✅ [Boot] Orchestration State Restored');
+    } catch(e: any) {
+        console.error('⚠️  [Boot] Orchestration State Recovery Failed:', e.message);
+    }
   });
 }
 
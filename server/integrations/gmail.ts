@@ -35,6 +35,8 @@
  * - sendEmail: Compose and send a new email
  * - getLabels: List all Gmail labels
  * - searchEmails: Search emails using Gmail query syntax
+ * - getHistoryId / listAddedMessageIds / searchMessageIds: Change tracking
+ *   for triggers that need each new message exactly once
  * 
  * @module gmail
  * @requires googleapis - Google APIs Node.js client library
@@ -49,7 +51,7 @@
  * Google APIs client library.
  * Provides access to all Google API services including Gmail.
  */
-import { google } from 'googleapis';
+import { google, type gmail_v1 } from 'googleapis';
 import { getAuthenticatedClient } from './google-auth';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -179,6 +181,37 @@ export async function listEmails(maxResults = 20, labelIds = ['INBOX']) {
  * const email = await getEmail('18abc123def');
  * console.log(email.subject, email.body);
  */
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+/**
+ * Finds the body text of a message payload.
+ * 
+ * Simple emails carry the body in payload.body.data; multipart emails nest
+ * it in parts, sometimes several levels deep (multipart/mixed around
+ * multipart/alternative). The text/plain part is preferred over text/html.
+ * 
+ * @param {MessagePart | undefined} payload - Message payload from the API
+ * @returns {string} Decoded body, or '' if the message has none
+ */
+function extractBody(payload: MessagePart | undefined): string {
+  const find = (part: MessagePart | undefined, mimeType: string): string | undefined => {
+    if (!part) return undefined;
+    if (part.mimeType === mimeType && part.body?.data) {
+      return Buffer.from(part.body.data, 'base64').toString('utf-8');
+    }
+    for (const child of part.parts ?? []) {
+      const found = find(child, mimeType);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  };
+  
+  if (payload?.body?.data && !payload.parts) {
+    return Buffer.from(payload.body.data, 'base64').toString('utf-8');
+  }
+  return find(payload, 'text/plain') ?? find(payload, 'text/html') ?? '';
+}
+
 export async function getEmail(messageId: string) {
   try {
     const gmail = await getUncachableGmailClient();
@@ -198,22 +231,7 @@ export async function getEmail(messageId: string) {
     // Decode email body from Base64
     // Gmail stores body content as Base64-encoded strings
     // ─────────────────────────────────────────────────────────────────────────
-    let body = '';
-    
-    // Case 1: Simple email with body directly in payload
-    if (response.data.payload?.body?.data) {
-      body = Buffer.from(response.data.payload.body.data, 'base64').toString('utf-8');
-    } 
-    // Case 2: Multipart email with body in parts array
-    else if (response.data.payload?.parts) {
-      // Find the text/plain or text/html part
-      const textPart = response.data.payload.parts.find(
-        p => p.mimeType === 'text/plain' || p.mimeType === 'text/html'
-      );
-      if (textPart?.body?.data) {
-        body = Buffer.from(textPart.body.data, 'base64').toString('utf-8');
-      }
-    }
+    const body = extractBody(response.data.payload);
     
     // Return normalized email object with decoded body
     return {
@@ -449,5 +467,94 @@ export async function searchEmails(query: string, maxResults = 20) {
   }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// SECTION: CHANGE TRACKING
+// ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Gets the mailbox's current history ID.
+ * 
+ * History IDs increase with every change to the mailbox. Saving one and
+ * later passing it to listAddedMessageIds yields exactly the messages that
+ * arrived in between. Unlike the functions above, these throw on failure
+ * (the error's `status` is the HTTP status) because their callers are
+ * background services, not tools.
+ * 
+ * @async
+ * @returns {Promise<string>} Current history ID
+ * @throws {Error} If the request fails
+ */
+export async function getHistoryId(): Promise<string> {
+  const gmail = await getUncachableGmailClient();
+  const response = await gmail.users.getProfile({ userId: 'me' });
+  if (!response.data.historyId) {
+    throw new Error('Gmail profile has no history ID');
+  }
+  return response.data.historyId;
+}
+
+/**
+ * Lists messages added to a label since a history ID.
+ * 
+ * Gmail keeps history for about a week; an older start ID fails with
+ * status 404 and the caller has to start over from getHistoryId.
+ * 
+ * @async
+ * @param {string} startHistoryId - History ID saved earlier
+ * @param {string} [labelId='INBOX'] - Only messages with this label
+ * @param {number} [maxMessages=100] - Stop once this many messages are
+ *   collected; the returned history ID then resumes after the last of them
+ * @returns {Promise<{ messageIds: string[], historyId: string }>} New message
+ *   IDs, oldest first, and the history ID to continue from
+ * @throws {Error} If the request fails (status 404 when the ID expired)
+ * 
+ * @example
+ * const { messageIds, historyId } = await listAddedMessageIds(saved);
+ */
+export async function listAddedMessageIds(startHistoryId: string, labelId = 'INBOX', maxMessages = 100) {
+  const gmail = await getUncachableGmailClient();
+  const messageIds: string[] = [];
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+  
+  do {
+    const response = await gmail.users.history.list({
+      userId: 'me',
+      startHistoryId,
+      labelId,
+      historyTypes: ['messageAdded'],
+      pageToken,
+    });
+    
+    for (const record of response.data.history ?? []) {
+      for (const added of record.messagesAdded ?? []) {
+        const id = added.message?.id;
+        if (id && !messageIds.includes(id)) messageIds.push(id);
+      }
+      if (record.id) historyId = record.id;
+      // Resume after the last record taken, so the rest arrive next time
+      if (messageIds.length >= maxMessages) return { messageIds, historyId };
+    }
+    pageToken = response.data.nextPageToken ?? undefined;
+    if (!pageToken && response.data.historyId) historyId = response.data.historyId;
+  } while (pageToken);
+  
+  return { messageIds, historyId };
+}
 
+/**
+ * Lists the IDs of messages matching a Gmail search query, newest first,
+ * without fetching the messages themselves.
+ * 
+ * @async
+ * @param {string} query - Gmail search query (see searchEmails)
+ * @param {number} [maxResults=100] - Maximum IDs to return
+ * @param {string[]} [labelIds] - Only messages with all of these labels
+ * @returns {Promise<string[]>} Matching message IDs
+ * @throws {Error} If the request fails
+ */
+export async function searchMessageIds(query: string, maxResults = 100, labelIds?: string[]): Promise<string[]> {
+  const gmail = await getUncachableGmailClient();
+  const response = await gmail.users.messages.list({ userId: 'me', q: query, maxResults, labelIds });
+  return (response.data.messages ?? []).map(message => message.id!).filter(Boolean);
+}
@@ -12,6 +12,8 @@
  * - httpGet: Perform HTTP GET requests with headers and query params
  * - httpPost: Perform HTTP POST requests with headers and body
  * - httpPut: Perform HTTP PUT requests with headers and body
+ * - httpPatch: Perform HTTP PATCH requests with headers and body
+ * - httpDelete: Perform HTTP DELETE requests with headers
  * 
  * SECURITY CONSIDERATIONS:
  * - All requests timeout after 30 seconds by default
@@ -46,6 +48,19 @@ export interface HttpPutOptions {
   timeout?: number; // in milliseconds, default: 30000
 }
 
+export interface HttpPatchOptions {
+  url: string;
+  headers?: Record<string, string>;
+  body: string | Record<string, unknown>;
+  timeout?: number; // in milliseconds, default: 30000
+}
+
+export interface HttpDeleteOptions {
+  url: string;
+  headers?: Record<string, string>;
+  timeout?: number; // in milliseconds, default: 30000
+}
+
 export interface HttpResponse {
   success: boolean;
   status: number;
@@ -331,5 +346,84 @@ export async function httpPut(options: HttpPutOptions): Promise<HttpResponse> {
   }
 }
 
+/**
+ * Perform an HTTP PATCH request
+ * 
+ * @param options - Request options including URL, headers, and body
+ * @returns HTTP response with status, headers, and parsed data
+ */
+export async function httpPatch(options: HttpPatchOptions): Promise<HttpResponse> {
+  try {
+    validateUrl(options.url);
+    
+    const headers = sanitizeHeaders(options.headers);
+    const timeout = options.timeout || DEFAULT_TIMEOUT;
+    
+    // Prepare body and set Content-Type if needed
+    const body = prepareRequestBody(options.body, headers);
+    
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    
+    try {
+      const response = await fetch(options.url, {
+        method: 'PATCH',
+        headers,
+        body,
+        signal: controller.signal
+      });
+      
+      clearTimeout(timeoutId);
+      
+      const data = await parseResponse(response);
+      return createHttpResponse(response, data);
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+      if (error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeout}ms`);
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    return createErrorResponse('PATCH', error.message);
+  }
+}
 
-
+/**
+ * Perform an HTTP DELETE request
+ * 
+ * @param options - Request options including URL and headers
+ * @returns HTTP response with status, headers, and parsed data
+ */
+export async function httpDelete(options: HttpDeleteOptions): Promise<HttpResponse> {
+  try {
+    validateUrl(options.url);
+    
+    const headers = sanitizeHeaders(options.headers);
+    const timeout = options.timeout || DEFAULT_TIMEOUT;
+    
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    
+    try {
+      const response = await fetch(options.url, {
+        method: 'DELETE',
+        headers,
+        signal: controller.signal
+      });
+      
+      clearTimeout(timeoutId);
+      
+      const data = await parseResponse(response);
+      return createHttpResponse(response, data);
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+      if (error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeout}ms`);
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    return createErrorResponse('DELETE', error.message);
+  }
+}
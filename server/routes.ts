@@ -55,7 +55,7 @@
  * Express type for the application instance.
  * Used for registering route handlers (app.get, app.post, etc.)
  */
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 
 /**
  * HTTP server creation utility and Server type.
@@ -70,74 +70,38 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 
 /**
- * RAG service for processing document attachments.
- * Chunks and vectorizes documents for retrieval augmented generation.
+ * Retrieval service: indexes messages and attachments so PromptComposer can
+ * recall relevant context from beyond the recent message window.
  */
-// import { ragService } from "./services/rag-service";
+import { retrievalService } from "./services/retrieval";
+import { chatExportService, chatExportSchema } from "./services/chat-export";
+import { searchService } from "./services/search";
 
 /**
  * Zod validation schemas for request body validation.
  * - insertChatSchema: Validates chat creation requests
- * - insertMessageSchema: Validates message creation requests
  */
-import { insertChatSchema, insertMessageSchema, GUEST_USER_ID } from "@shared/schema";
+import { insertChatSchema, GUEST_USER_ID, type Chat, type Message } from "@shared/schema";
+import { normalizeTags, validateFolderMove, MAX_FOLDER_DEPTH, folderDepth } from "@shared/chat-organization";
+import { agentPanelSchema } from "@shared/agent-panel";
+import { z } from "zod";
 
 /**
- * Google Generative AI SDK for Gemini model interactions.
- * Provides streaming text generation capabilities.
+ * Google Generative AI SDK, used directly by the debug error analyzer.
+ * Chat goes through the provider-neutral LLM service (services/llm).
  */
-import { GoogleGenAI, FunctionCallingConfigMode, type FunctionCall } from "@google/genai";
+import { GoogleGenAI } from "@google/genai";
 import { geminiFunctionDeclarations } from "./gemini-tools";
 import { getToolDeclarations } from "./gemini-tools-guest";
 
-/**
- * Prompt Composer for building system prompts from modular components.
- * Assembles core directives, personality, tools, and RAG context.
- */
-import { promptComposer } from "./services/prompt-composer";
 import { toolDispatcher } from "./services/tool-dispatcher";
-import { type ToolCall } from "@shared/schema";
-import { recognizeFamilyMember } from "./services/family-recognition";
-import { stripAllVoiceTags } from "./services/style-parser";
+import { checkToolRegistry } from "./services/tool-registry";
+import { toolPolicy } from "./services/tool-policy";
 
 import { createApiRouter } from "./routes/index";
+import { createChatTurnRouter } from "./routes/chat-turns";
 import diagRouter from "./routes/diag";
 
-// ═══════════════════════════════════════════════════════════════════════════
-// SECTION: AI CLIENT INITIALIZATION
-// ═══════════════════════════════════════════════════════════════════════════
-
-/**
- * Google Generative AI client instance.
- *
- * Configured with GEMINI_API_KEY from environment variables.
- * This client is used for all AI chat interactions in the application.
- *
- * The '!' operator asserts that GEMINI_API_KEY is defined (non-null assertion).
- * The key should be set in the environment or the application will fail.
- *
- * @see https://ai.google.dev/tutorials/node_quickstart
- */
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
-
-/** Retry a Gemini API call with exponential backoff on 503/429. */
-async function withGeminiRetry<T>(fn: () => Promise<T>, maxAttempts = 4): Promise<T> {
-  let delay = 2000;
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      return await fn();
-    } catch (err: any) {
-      const status = err?.status ?? err?.response?.status;
-      const retryable = status === 503 || status === 429;
-      if (!retryable || attempt === maxAttempts) throw err;
-      console.warn(`[Gemini] ${status} on attempt ${attempt}/${maxAttempts}, retrying in ${delay}ms…`);
-      await new Promise(res => setTimeout(res, delay));
-      delay = Math.min(delay * 2, 16000);
-    }
-  }
-  throw new Error("unreachable");
-}
-
 // ═══════════════════════════════════════════════════════════════════════════
 // SECTION: ROUTE REGISTRATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -169,6 +133,21 @@ export async function registerRoutes(
     return httpServer;
   }
 
+  toolPolicy.loadFromEnv();
+
+  // Full-text search index and its triggers must exist before messages arrive
+  try {
+    searchService.ensureIndex();
+  } catch (error) {
+    console.error("[Search] Failed to prepare the full-text index:", error);
+  }
+
+  // Report any tool we declare to Gemini that the dispatcher cannot execute
+  checkToolRegistry(toolDispatcher.registry, {
+    authenticated: getToolDeclarations(true),
+    guest: getToolDeclarations(false),
+  });
+
   // ══════════════════════════════════════════════════════════════════════════
   // GOOGLE AUTH SETUP
   // Sets up session management and OAuth flow with Google as the identity provider
@@ -222,6 +201,8 @@ export async function registerRoutes(
    *
    * Request Body:
    * - title: string (optional) - The title for the new chat
+   * - agentId: string (optional) - One of the caller's user agents to answer
+   *   in this chat (defaults to their default agent)
    *
    * Response: Created Chat object
    * - id: string (UUID)
@@ -248,6 +229,13 @@ export async function registerRoutes(
         isGuest: authStatus.isGuest, // true for guests
       });
 
+      if (validatedData.agentId) {
+        const agent = await storage.getUserAgent(validatedData.agentId);
+        if (!agent || !authStatus.userId || agent.userId !== authStatus.userId) {
+          return res.status(404).json({ error: "Agent not found" });
+        }
+      }
+
       // Create chat in database via storage layer
       const chat = await storage.createChat(validatedData);
       
@@ -271,6 +259,10 @@ export async function registerRoutes(
    *
    * Returns chats ordered by most recently updated first.
    *
+   * Query Parameters:
+   * - archived: "only" | "include" (optional) - Archived chats are left out
+   *   unless asked for
+   *
    * @route GET /api/chats
    * @returns {Chat[]} 200 - Array of all chat objects
    * @returns {Error} 500 - Server error fetching chats
@@ -279,7 +271,10 @@ export async function registerRoutes(
     try {
       const authStatus = (req as any).authStatus;
       const userId = authStatus.userId || GUEST_USER_ID;
-      const chats = await storage.getChats(userId);
+      const archived = req.query.archived === "only" || req.query.archived === "include"
+        ? req.query.archived
+        : "exclude";
+      const chats = await storage.getChats(userId, { archived });
       res.json(chats);
     } catch (error) {
       console.error("[GET /api/chats] Error fetching chats:", error);
@@ -297,11 +292,14 @@ export async function registerRoutes(
    * Query Parameters:
    * - limit: number (optional) - Max messages to return (default: 30)
    * - before: string (optional) - Message ID cursor for loading older messages
+   * - around: string (optional) - Message ID to jump to (e.g. a search hit):
+   *   returns a few messages before it and up to `limit` from it on
    *
    * Response:
    * - chat: Chat object with metadata
    * - messages: Array of Message objects (most recent, chronologically ordered)
    * - hasMore: boolean indicating if older messages exist
+   * - hasNewer: boolean indicating if newer messages exist (around only)
    *
    * @route GET /api/chats/:id
    * @param {string} id - Chat UUID
@@ -322,6 +320,24 @@ export async function registerRoutes(
       // Parse pagination params (default: last 30 messages)
       const limit = parseInt(req.query.limit as string) || 30;
       const before = req.query.before as string | undefined;
+      const around = req.query.around as string | undefined;
+
+      // Jump to a message on the active branch, with a little context before it
+      if (around) {
+        const JUMP_CONTEXT = 5;
+        const newer = await storage.getMessagesByChatId(req.params.id, { from: around, limit: limit + 1 });
+        if (newer.length > 0) {
+          const older = await storage.getMessagesByChatId(req.params.id, { limit: JUMP_CONTEXT + 1, before: around });
+          const hasMore = older.length > JUMP_CONTEXT;
+          const hasNewer = newer.length > limit;
+          return res.json({
+            chat,
+            messages: [...(hasMore ? older.slice(1) : older), ...(hasNewer ? newer.slice(0, limit) : newer)],
+            hasMore,
+            hasNewer,
+          });
+        }
+      }
       
       // Fetch paginated messages (+1 to check if more exist)
       const messages = await storage.getMessagesByChatId(req.params.id, { 
@@ -351,22 +367,34 @@ export async function registerRoutes(
   
   /**
    * GET /api/chats/:id/messages
-   * Get paginated messages for a chat (for loading older history).
+   * Get paginated messages for a chat (for loading older history, or newer
+   * history after jumping to a search hit).
    *
    * Query Parameters:
    * - limit: number (optional) - Max messages to return (default: 30)
-   * - before: string (required) - Message ID cursor for loading older messages
+   * - before: string - Message ID cursor for loading older messages
+   * - after: string - Message ID cursor for loading newer messages
+   *   (one of before/after is required)
    *
    * @route GET /api/chats/:id/messages
-   * @returns {Object} 200 - { messages: Message[], hasMore: boolean }
+   * @returns {Object} 200 - { messages: Message[], hasMore: boolean } for before,
+   *   { messages: Message[], hasNewer: boolean } for after
    */
   app.get("/api/chats/:id/messages", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 30;
       const before = req.query.before as string;
-      
+      const after = req.query.after as string | undefined;
+
+      if (after) {
+        // Fetch messages after cursor (+1 to check if more exist)
+        const messages = await storage.getMessagesByChatId(req.params.id, { limit: limit + 1, after });
+        const hasNewer = messages.length > limit;
+        return res.json({ messages: hasNewer ? messages.slice(0, limit) : messages, hasNewer });
+      }
+
       if (!before) {
-        return res.status(400).json({ error: "before cursor required" });
+        return res.status(400).json({ error: "before or after cursor required" });
       }
       
       // Fetch messages before cursor (+1 to check if more exist)
@@ -423,6 +451,422 @@ export async function registerRoutes(
       res.status(500).json({ error: "Failed to update chat" });
     }
   });
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // CHAT ORGANIZATION: folders, tags, pinning, archiving
+  // See shared/chat-organization.ts. Signed-in users only; every chat and
+  // folder touched must belong to the caller.
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const organizeSchema = z.object({
+    folderId: z.string().nullable().optional(),
+    tags: z.array(z.string()).optional(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+  });
+
+  const bulkChatSchema = z.object({
+    chatIds: z.array(z.string()).min(1).max(500),
+  }).and(z.discriminatedUnion("action", [
+    z.object({ action: z.literal("move"), folderId: z.string().nullable() }),
+    z.object({ action: z.literal("tag"), tags: z.array(z.string()).min(1) }),
+    z.object({ action: z.literal("untag"), tags: z.array(z.string()).min(1) }),
+    z.object({ action: z.literal("pin") }),
+    z.object({ action: z.literal("unpin") }),
+    z.object({ action: z.literal("archive") }),
+    z.object({ action: z.literal("unarchive") }),
+    z.object({ action: z.literal("delete") }),
+  ]));
+
+  const folderSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    parentId: z.string().nullable().optional(),
+    position: z.number().int().optional(),
+  });
+
+  /**
+   * The caller's chats among chatIds, or a 401/404 response already sent
+   */
+  const loadOwnedChats = async (req: Request, res: Response, chatIds: string[]): Promise<Chat[] | null> => {
+    const userId = (req as any).authStatus?.userId;
+    if (!userId) {
+      res.status(401).json({ error: "Sign in to organize chats" });
+      return null;
+    }
+    const found = await storage.getChatsByIds([...new Set(chatIds)]);
+    if (found.length !== new Set(chatIds).size || found.some((chat) => chat.userId !== userId)) {
+      res.status(404).json({ error: "Chat not found" });
+      return null;
+    }
+    return found;
+  };
+
+  /**
+   * Whether folderId (null = unfiled) is usable by the caller
+   */
+  const ownsFolder = async (req: Request, folderId: string | null | undefined): Promise<boolean> => {
+    if (!folderId) return true;
+    const folder = await storage.getChatFolder(folderId);
+    return !!folder && folder.userId === (req as any).authStatus?.userId;
+  };
+
+  /**
+   * PATCH /api/chats/:id/organization
+   * File, tag, pin or archive one chat.
+   *
+   * Request Body (all optional):
+   * - folderId: string | null - Folder to file the chat in (null = unfiled)
+   * - tags: string[] - Replaces the chat's tags (normalized to lowercase)
+   * - pinned: boolean
+   * - archived: boolean
+   *
+   * @route PATCH /api/chats/:id/organization
+   * @returns {Chat} 200 - The updated chat
+   */
+  app.patch("/api/chats/:id/organization", async (req, res) => {
+    try {
+      const parseResult = organizeSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      if (!(await loadOwnedChats(req, res, [req.params.id]))) return;
+      const { tags, ...changes } = parseResult.data;
+      if (!(await ownsFolder(req, changes.folderId))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+
+      const [chat] = await storage.updateChatOrganization([req.params.id], {
+        ...changes,
+        ...(tags ? { tags: normalizeTags(tags) } : {}),
+      });
+      res.json(chat);
+    } catch (error) {
+      console.error(`[PATCH /api/chats/${req.params.id}/organization] Error:`, error);
+      res.status(500).json({ error: "Failed to update chat" });
+    }
+  });
+
+  /**
+   * PUT /api/chats/:id/agent
+   * Bind one of the caller's user agents to a chat. Its persona, model and
+   * tool allowlist apply from the next turn on.
+   *
+   * Request Body:
+   * - agentId: string | null - Agent to use (null = the caller's default agent)
+   *
+   * @route PUT /api/chats/:id/agent
+   * @returns {Chat} 200 - The updated chat
+   */
+  app.put("/api/chats/:id/agent", async (req, res) => {
+    try {
+      const parseResult = z.object({ agentId: z.string().nullable() }).safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      if (!(await loadOwnedChats(req, res, [req.params.id]))) return;
+
+      const { agentId } = parseResult.data;
+      if (agentId) {
+        const agent = await storage.getUserAgent(agentId);
+        if (!agent || agent.userId !== (req as any).authStatus.userId) {
+          return res.status(404).json({ error: "Agent not found" });
+        }
+      }
+
+      res.json(await storage.setChatAgent(req.params.id, agentId));
+    } catch (error) {
+      console.error(`[PUT /api/chats/${req.params.id}/agent] Error:`, error);
+      res.status(500).json({ error: "Failed to update chat" });
+    }
+  });
+
+  /**
+   * PUT /api/chats/:id/panel
+   * Let several of the caller's user agents answer a chat in turn (see
+   * shared/agent-panel.ts), or go back to a single agent.
+   *
+   * Request Body:
+   * - panel: object | null - { agentIds, turnPolicy, maxTurns, stopOnConsensus }
+   *   (null = single agent)
+   *
+   * @route PUT /api/chats/:id/panel
+   * @returns {Chat} 200 - The updated chat
+   */
+  app.put("/api/chats/:id/panel", async (req, res) => {
+    try {
+      const parseResult = z.object({ panel: agentPanelSchema.nullable() }).safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      if (!(await loadOwnedChats(req, res, [req.params.id]))) return;
+
+      const { panel } = parseResult.data;
+      if (panel) {
+        const agents = await storage.getUserAgents((req as any).authStatus.userId);
+        const missing = panel.agentIds.filter((id) => !agents.some((agent) => agent.id === id && agent.isActive));
+        if (missing.length > 0) {
+          return res.status(404).json({ error: `Agent not found: ${missing.join(", ")}` });
+        }
+      }
+
+      res.json(await storage.setChatPanel(req.params.id, panel));
+    } catch (error) {
+      console.error(`[PUT /api/chats/${req.params.id}/panel] Error:`, error);
+      res.status(500).json({ error: "Failed to update chat" });
+    }
+  });
+
+  /**
+   * POST /api/chats/bulk
+   * Apply one action to many chats (multi-select in the sidebar).
+   *
+   * Request Body:
+   * - chatIds: string[]
+   * - action: "move" (+ folderId) | "tag" / "untag" (+ tags) | "pin" | "unpin"
+   *           | "archive" | "unarchive" | "delete"
+   *
+   * @route POST /api/chats/bulk
+   * @returns {Object} 200 - { updated: number } or { deleted: number }
+   */
+  app.post("/api/chats/bulk", async (req, res) => {
+    try {
+      const parseResult = bulkChatSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      const body = parseResult.data;
+      const owned = await loadOwnedChats(req, res, body.chatIds);
+      if (!owned) return;
+      const ids = owned.map((chat) => chat.id);
+
+      switch (body.action) {
+        case "delete": {
+          const deleted = await storage.deleteChats(ids);
+          ids.forEach((id) => retrievalService.forgetChat(id));
+          return res.json({ deleted });
+        }
+        case "move":
+          if (!(await ownsFolder(req, body.folderId))) {
+            return res.status(404).json({ error: "Folder not found" });
+          }
+          await storage.updateChatOrganization(ids, { folderId: body.folderId });
+          break;
+        case "tag":
+        case "untag": {
+          const tags = normalizeTags(body.tags);
+          // Tag sets differ per chat, so each chat is updated on its own
+          for (const chat of owned) {
+            const next = body.action === "tag"
+              ? normalizeTags([...(chat.tags ?? []), ...tags])
+              : (chat.tags ?? []).filter((tag) => !tags.includes(tag));
+            await storage.updateChatOrganization([chat.id], { tags: next });
+          }
+          break;
+        }
+        case "pin":
+        case "unpin":
+          await storage.updateChatOrganization(ids, { pinned: body.action === "pin" });
+          break;
+        case "archive":
+        case "unarchive":
+          await storage.updateChatOrganization(ids, { archived: body.action === "archive" });
+          break;
+      }
+      res.json({ updated: ids.length });
+    } catch (error) {
+      console.error("[POST /api/chats/bulk] Error:", error);
+      res.status(500).json({ error: "Failed to update chats" });
+    }
+  });
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // CHAT EXPORT / IMPORT
+  // See services/chat-export. JSON exports carry every branch and can be
+  // imported again; Markdown and HTML are transcripts of the active branch.
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const exportQuerySchema = z.object({
+    format: z.enum(["md", "json", "html"]).default("md"),
+    attachments: z.enum(["inline", "zip"]).default("inline"),
+  });
+
+  /**
+   * GET /api/chats/:id/export
+   * Download a chat with its attachments and tool call logs.
+   *
+   * Query Parameters:
+   * - format: "md" | "json" | "html" (default "md")
+   * - attachments: "inline" | "zip" (default "inline") - zip bundles the
+   *   transcript with the original attachment files
+   *
+   * @route GET /api/chats/:id/export
+   * @returns {File} 200 - The export as a download
+   * @returns {Error} 404 - Chat not found
+   */
+  app.get("/api/chats/:id/export", async (req, res) => {
+    try {
+      const parseResult = exportQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      const chat = await storage.getChat(req.params.id);
+      const userId = (req as any).authStatus?.userId;
+      if (!chat || (chat.userId && chat.userId !== userId)) {
+        return res.status(404).json({ error: "Chat not found" });
+      }
+
+      const data = await chatExportService.buildExport(chat.id);
+      if (!data) {
+        return res.status(404).json({ error: "Chat not found" });
+      }
+      const { format, attachments } = parseResult.data;
+      const file = chatExportService.render(data, format, attachments);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error(`[GET /api/chats/${req.params.id}/export] Error:`, error);
+      res.status(500).json({ error: "Failed to export chat" });
+    }
+  });
+
+  /**
+   * POST /api/chats/import
+   * Recreate a chat from a JSON export (GET /api/chats/:id/export?format=json
+   * with inline attachments). The copy gets new ids and belongs to the caller.
+   *
+   * @route POST /api/chats/import
+   * @returns {Object} 200 - { chat, skippedAttachments }
+   * @returns {Error} 400 - Not a Meowstik chat export
+   */
+  app.post("/api/chats/import", async (req, res) => {
+    try {
+      const parseResult = chatExportSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: `Not a Meowstik chat export: ${parseResult.error.message}` });
+      }
+      const userId = (req as any).authStatus?.userId ?? null;
+      res.json(await chatExportService.importChat(parseResult.data, userId));
+    } catch (error) {
+      console.error("[POST /api/chats/import] Error:", error);
+      res.status(500).json({ error: "Failed to import chat" });
+    }
+  });
+
+  /**
+   * GET /api/chat-folders
+   * The caller's folders (flat; nest them with buildFolderTree).
+   *
+   * @route GET /api/chat-folders
+   * @returns {ChatFolder[]} 200
+   */
+  app.get("/api/chat-folders", async (req, res) => {
+    try {
+      const userId = (req as any).authStatus?.userId;
+      res.json(userId ? await storage.getChatFolders(userId) : []);
+    } catch (error) {
+      console.error("[GET /api/chat-folders] Error:", error);
+      res.status(500).json({ error: "Failed to fetch folders" });
+    }
+  });
+
+  /**
+   * POST /api/chat-folders
+   * Create a folder.
+   *
+   * Request Body:
+   * - name: string (required)
+   * - parentId: string | null (optional) - Parent folder for nesting
+   * - position: number (optional) - Order among siblings
+   *
+   * @route POST /api/chat-folders
+   * @returns {ChatFolder} 200 - The new folder
+   */
+  app.post("/api/chat-folders", async (req, res) => {
+    try {
+      const userId = (req as any).authStatus?.userId;
+      if (!userId) {
+        return res.status(401).json({ error: "Sign in to create folders" });
+      }
+      const parseResult = folderSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      const { name, parentId = null, position } = parseResult.data;
+      if (!(await ownsFolder(req, parentId))) {
+        return res.status(404).json({ error: "Parent folder not found" });
+      }
+      const folders = await storage.getChatFolders(userId);
+      if (folderDepth(folders, parentId) >= MAX_FOLDER_DEPTH) {
+        return res.status(400).json({ error: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep` });
+      }
+
+      const siblings = folders.filter((folder) => folder.parentId === parentId);
+      const folder = await storage.createChatFolder({
+        userId,
+        name,
+        parentId,
+        position: position ?? siblings.reduce((max, f) => Math.max(max, f.position + 1), 0),
+      });
+      res.json(folder);
+    } catch (error) {
+      console.error("[POST /api/chat-folders] Error:", error);
+      res.status(500).json({ error: "Failed to create folder" });
+    }
+  });
+
+  /**
+   * PATCH /api/chat-folders/:id
+   * Rename, reorder or move (re-parent) a folder.
+   *
+   * @route PATCH /api/chat-folders/:id
+   * @returns {ChatFolder} 200 - The updated folder
+   * @returns {Error} 400 - Move would nest a folder inside itself or too deep
+   */
+  app.patch("/api/chat-folders/:id", async (req, res) => {
+    try {
+      const parseResult = folderSchema.partial().safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.message });
+      }
+      const userId = (req as any).authStatus?.userId;
+      if (!userId || !(await ownsFolder(req, req.params.id))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      const changes = parseResult.data;
+      if (changes.parentId !== undefined) {
+        const problem = validateFolderMove(await storage.getChatFolders(userId), req.params.id, changes.parentId);
+        if (problem) {
+          return res.status(400).json({ error: problem });
+        }
+      }
+      res.json(await storage.updateChatFolder(req.params.id, changes));
+    } catch (error) {
+      console.error(`[PATCH /api/chat-folders/${req.params.id}] Error:`, error);
+      res.status(500).json({ error: "Failed to update folder" });
+    }
+  });
+
+  /**
+   * DELETE /api/chat-folders/:id
+   * Delete a folder. Its subfolders and chats move up to its parent; no
+   * chats are deleted.
+   *
+   * @route DELETE /api/chat-folders/:id
+   * @returns {Object} 200 - { success: true }
+   */
+  app.delete("/api/chat-folders/:id", async (req, res) => {
+    try {
+      if (!(await ownsFolder(req, req.params.id)) || !(req as any).authStatus?.userId) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      await storage.deleteChatFolder(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`[DELETE /api/chat-folders/${req.params.id}] Error:`, error);
+      res.status(500).json({ error: "Failed to delete folder" });
+    }
+  });
   
   /**
    * GET /api/chats/:id/tool-calls
@@ -487,1183 +931,43 @@ export async function registerRoutes(
   });
 
   /**
-   * POST /api/chats/:id/messages
-   * Send a message and receive streaming AI response.
-   *
-   * This is the core AI chat endpoint. It:
-   * 1. Saves the user's message to the database
-   * 2. Builds conversation history for context
-   * 3. Streams AI response using Server-Sent Events (SSE)
-   * 4. Saves the complete AI response to database
-   *
-   * STREAMING PROTOCOL (Server-Sent Events):
-   * - Content-Type: text/event-stream
-   * - Each chunk: data: {"text": "..."}\\n\\n
-   * - Final event: data: {"done": true}\\n\\n
-   *
-   * Path Parameters:
-   * - id: string (UUID) - Chat ID to add message to
+   * POST /api/chats/:id/branch
+   * Switch the chat to the branch containing a message (e.g. the previous or
+   * next version of an edited message). Continues to that branch's newest
+   * message and returns the first page of it, like GET /api/chats/:id.
    *
    * Request Body:
-   * - content: string (required) - The user's message text
+   * - messageId: string (required) - Any message on the wanted branch
    *
-   * @route POST /api/chats/:id/messages
-   * @param {string} id - Chat UUID
-   * @returns {Stream} 200 - SSE stream of AI response chunks
-   * @returns {Error} 500 - Streaming/AI error
+   * @route POST /api/chats/:id/branch
+   * @returns {Object} 200 - { messages: Message[], hasMore: boolean, activeLeafId: string }
+   * @returns {Error} 404 - Message not found in this chat
    */
-  app.post("/api/chats/:id/messages", async (req, res) => {
-    const startTime = Date.now();
+  app.post("/api/chats/:id/branch", async (req, res) => {
     try {
-      // Get auth status from middleware for consistent user identification
-      const authStatus = (req as any).authStatus;
-      const userId = authStatus.userId; // Use authStatus instead of direct req.user access
-      
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 1: Validate and save user's message
-      // ─────────────────────────────────────────────────────────────────────
-
-      // Validate message structure with Zod schema
-      // Note: content defaults to empty string to support image-only messages
-      const userMessage = insertMessageSchema.parse({
-        chatId: req.params.id, // From URL parameter
-        role: "user", // Messages from this endpoint are always user messages
-        content: req.body.content || "",
-      });
-
-      // Persist user message to database and get the saved message with ID
-      const savedMessage = await storage.addMessage(userMessage);
-
-      // Check for family member catch phrases
-      const familyMember = recognizeFamilyMember(userMessage.content);
-      if (familyMember) {
-        console.log(`[family] Session personalized for: ${familyMember.name}`);
-      }
-
-      // RAG processing removed
-      // ragService
-      //   .ingestMessage(
-      //     userMessage.content,
-      //     req.params.id,
-      //     savedMessage.id,
-      //     "user",
-      //     undefined,
-      //     userId,
-      //   )
-      //   .catch((error) => {
-      //     console.error(
-      //       `[RAG] Failed to ingest user message ${savedMessage.id}:`,
-      //       error,
-      //     );
-      //   });
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 1.5: Process and save any attachments
-      // ─────────────────────────────────────────────────────────────────────
-
-      const reqAttachments = Array.isArray(req.body.attachments)
-        ? req.body.attachments
-        : [];
-      for (const att of reqAttachments) {
-        // Determine content: prefer explicit content field, fallback to dataUrl
-        let content = att.content || "";
-
-        // If no direct content but dataUrl exists, extract content
-        if (!content && att.dataUrl) {
-          const dataUrl = att.dataUrl;
-          if (dataUrl.includes(",")) {
-            const base64Part = dataUrl.split(",")[1];
-            const isTextFile =
-              att.mimeType?.startsWith("text/") ||
-              att.mimeType === "application/json" ||
-              att.mimeType === "application/xml" ||
-              att.mimeType === "application/javascript";
-
-            if (isTextFile) {
-              // Decode base64 for text files to store readable content
-              try {
-                content = Buffer.from(base64Part, "base64").toString("utf-8");
-              } catch {
-                content = base64Part;
-              }
-            } else {
-              // Store base64 for binary files (images, audio, etc.)
-              content = base64Part;
-            }
-          }
-        }
-
-        // Sanitize content to remove null bytes that PostgreSQL text columns can't store
-        // Null bytes (0x00) cause "invalid byte sequence for encoding UTF8" errors
-        const sanitizedContent = content.replace(/\\x00/g, "");
-
-        // Save attachment to database
-        let savedAttachment;
-        try {
-          savedAttachment = await storage.createAttachment({
-            messageId: savedMessage.id,
-            type: att.type || "file",
-            filename: att.filename || "unnamed",
-            mimeType: att.mimeType,
-            size: att.size,
-            content: sanitizedContent,
-          });
-        } catch (attachmentError) {
-          console.error(
-            `Failed to save attachment ${att.filename}:`,
-            attachmentError,
-          );
-          // Continue processing without this attachment rather than failing the whole message
-          continue;
-        }
-
-        // RAG processing removed per user request
-        // ragService.processAttachment(savedAttachment).catch((error) => {
-        //   console.error(`RAG processing failed for ${att.filename}:`, error);
-        // });
-      }
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 2: Build conversation history for AI context
-      // ─────────────────────────────────────────────────────────────────────
-      
-      // OPTIMIZATION: Only fetch a small recent window for immediate context.
-      // RAG (in PromptComposer) handles retrieving relevant older context.
-      // This prevents loading massive tool outputs that bloat token usage.
-      const RECENT_WINDOW = 25; // Last 25 messages for conversational flow
-      const MAX_CONTENT_LENGTH = 2000; // Truncate long messages
-      
-      // Fetch only recent messages (not all history)
-      const chatMessages = await storage.getMessagesByChatId(req.params.id, { 
-        limit: RECENT_WINDOW + 1 // +1 because we exclude the current message
-      });
-
-      // IMPORTANT: Exclude the current message we just saved, since we'll add it separately
-      // This prevents the user's message from being sent to the AI twice
-      const previousMessages = chatMessages.filter(
-        (msg) => msg.id !== savedMessage.id,
-      );
-
-      // Transform to Gemini API format with content truncation:
-      // - "user" role stays as "user"
-      // - "ai" role becomes "model" (Gemini terminology)
-      // - Truncate long messages to prevent token overflow from tool outputs
-      // - Include tool results from the most recent AI message for continuity
-      const history = previousMessages.map((msg, index) => {
-        let content = msg.content;
-        
-        // For the most recent AI message, include tool results from metadata
-        // This ensures tool output is available for the next user prompt
-        const isLastAiMessage = msg.role === "ai" && 
-          index === previousMessages.length - 1;
-        const metadata = msg.metadata as { toolResults?: Array<{ type: string; result: unknown; success: boolean }> } | null;
-        
-        if (isLastAiMessage && metadata?.toolResults?.length) {
-          // Append tool results to the most recent AI message
-          // Check each tool result for noTruncate flag before applying length limit
-          const toolSummary = metadata.toolResults
-            .filter(tr => tr.success)
-            .map(tr => {
-              const resultStr = JSON.stringify(tr.result);
-              // Check if this tool result has noTruncate flag (e.g., file_get)
-              const hasNoTruncate = typeof tr.result === 'object' && 
-                tr.result !== null && 
-                'noTruncate' in tr.result && 
-                (tr.result as any).noTruncate === true;
-              
-              // If noTruncate is set, return full result, otherwise limit to 5000 chars
-              const limitedResult = hasNoTruncate ? resultStr : resultStr.slice(0, 5000);
-              return `[Tool ${tr.type} returned: ${limitedResult}]`;
-            })
-            .join("\n");
-          content = content + "\n\n" + toolSummary;
-        } else if (content.length > MAX_CONTENT_LENGTH) {
-          // Truncate older messages if too long
-          content = content.slice(0, MAX_CONTENT_LENGTH) + "\n...[truncated for context]";
-        }
-        
-        return {
-          role: msg.role === "user" ? "user" : "model",
-          parts: [{ text: content }],
-        };
-      });
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 3: Configure SSE (Server-Sent Events) headers
-      // ─────────────────────────────────────────────────────────────────────
-
-      // These headers tell the browser to expect a continuous stream
-      res.setHeader("Content-Type", "text/event-stream"); // SSE MIME type
-      res.setHeader("Cache-Control", "no-cache"); // Don't cache the stream
-      res.setHeader("Connection", "keep-alive"); // Keep connection open
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 3.5: Compose system prompt using PromptComposer
-      // ─────────────────────────────────────────────────────────────────────
-
-      // Get saved attachments for this message
-      const savedAttachments = await storage.getAttachmentsByMessageId(
-        savedMessage.id,
-      );
-
-      // Use PromptComposer to build the complete system prompt with:
-      // - Core directives from prompts/core-directives.md
-      // - Personality from prompts/personality.md
-      // - Tools from prompts/tools.md
-      // - RAG context from relevant document chunks
-      // - Contextual instructions based on attachments
-      // Get verbosity mode from client (mute, low, normal, experimental)
-      const verbosityMode = req.body.verbosityMode || "normal";
-      const useVoice = verbosityMode !== "mute";
-      
-      // Determine content verbosity level for prompt context
-      const contentVerbosity = (() => {
-        switch (verbosityMode) {
-          case "mute": return "minimal";
-          case "low": return "low";
-          default: return "verbose"; // normal and experimental
-        }
-      })();
-      
-      const composedPrompt = await promptComposer.compose({
-        textContent: req.body.content || "",
-        voiceTranscript: "",
-        attachments: savedAttachments,
-        history: chatMessages,
-        chatId: req.params.id,
-        // userId: userId, // Pass userId for data isolation in RAG context
-      });
-      
-      // Add voice/verbosity instructions based on mode
-      let finalSystemPrompt = composedPrompt.systemPrompt;
-      if (useVoice) {
-        let voiceInstruction = "";
-        
-        switch (verbosityMode) {
-          case "low":
-            voiceInstruction = `
-## VERBOSITY MODE: LOW (Concise Text & Speech)
-The user has LOW verbosity mode enabled. Keep both text and speech responses concise.
-- Keep responses brief and focused - aim for 1-3 sentences maximum
-- Use the \`say\` tool to provide concise spoken summaries
-- Provide only essential information without elaboration
-- Example: User asks "What's the weather?" → Response: "It's 72°F and sunny in your area."
-`;
-            break;
-            
-          case "normal":
-            voiceInstruction = `
-## VERBOSITY MODE: NORMAL (Verbose Text & Speech)
-The user has NORMAL verbosity mode enabled. Provide comprehensive, detailed responses in both text and speech.
-- Use the \`say\` tool to speak your complete responses
-- All text sent via \`write\` (except code blocks) should also be spoken
-- Provide thorough explanations with context and details
-- CALL the tools natively using the function calling interface.
-`;
-            break;
-            
-          case "experimental":
-            voiceInstruction = `
-## VERBOSITY MODE: EXPERIMENTAL (Dual-Voice Discussion)
-The user has EXPERIMENTAL mode enabled - generate a two-voice discussion format.
-- Structure your response as a dialogue between two AI personas discussing the topic
-- Use the \`say\` tool to present this discussion format
-- Continue the discussion until the user interrupts (barge-in)
-- Make the conversation natural, with back-and-forth exchanges
-- Example format:
-  Persona A: "That's an interesting question about..."
-  Persona B: "I agree, and I'd add that..."
-  Persona A: "Exactly! And another key point is..."
-`;
-            break;
-        }
-        
-        finalSystemPrompt = voiceInstruction + "\\n\\n" + finalSystemPrompt;
-      } else {
-        // Mute mode - minimal output, alerts only
-        const muteInstruction = `
-## VERBOSITY MODE: MUTE (Alerts Only)
-The user has MUTE mode enabled. Minimize all output.
-- Only respond to critical alerts or explicit user queries
-- Keep responses to absolute minimum (1 sentence or less)
-- No voice output whatsoever
-- Skip conversational niceties and get straight to the essential information
-`;
-        finalSystemPrompt = muteInstruction + "\\n\\n" + finalSystemPrompt;
-      }
-      
-      // Add content verbosity instruction
-      if (contentVerbosity === "low") {
-        const verbosityNote = "\\n\\n**Content Verbosity: LOW** - Keep all responses concise and focused. Maximum 1-3 sentences.\\n";
-        finalSystemPrompt = finalSystemPrompt + verbosityNote;
-      } else if (contentVerbosity === "minimal") {
-        const verbosityNote = "\\n\\n**Content Verbosity: MINIMAL** - Only respond to critical alerts or explicit queries. Maximum 1 sentence.\\n";
-        finalSystemPrompt = finalSystemPrompt + verbosityNote;
-      } else if (contentVerbosity === "verbose") {
-        const verbosityNote = "\\n\\n**Content Verbosity: VERBOSE** - Provide comprehensive, detailed explanations with context and examples.\\n";
-        finalSystemPrompt = finalSystemPrompt + verbosityNote;
-      }
-      
-      // Replace composedPrompt.systemPrompt with our modified version
-      const modifiedPrompt = { ...composedPrompt, systemPrompt: finalSystemPrompt };
-
-      console.log(
-        `System prompt composed: ${composedPrompt.systemPrompt.length} chars, ${composedPrompt.attachments.length} attachments`,
-      );
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 4: Call Gemini AI with streaming and system instruction
-      // ─────────────────────────────────────────────────────────────────────
-
-      // Build parts array for the current user message (text + any images)
-      const userParts: Array<
-        { text: string } | { inlineData: { mimeType: string; data: string } }
-      > = [];
-
-      // Add the text content
-      if (req.body.content) {
-        userParts.push({ text: req.body.content });
-      }
-
-      // Add all attachments for multimodal input
-      for (const att of reqAttachments) {
-        if (att.dataUrl && att.mimeType) {
-          // Extract base64 data from dataUrl
-          const base64Match = att.dataUrl.match(/^data:[^;]+;base64,(.+)$/);
-          if (base64Match) {
-            userParts.push({
-              inlineData: {
-                mimeType: att.mimeType,
-                data: base64Match[1],
-              },
-            });
-          }
-        }
-      }
-
-      // Fallback if no content was added
-      if (userParts.length === 0) {
-        userParts.push({ text: "" });
-      }
-
-      // Determine model based on user preference: "pro" = gemini-2.5-pro, "flash" = gemini-3-flash-preview
-      const modelMode =
-        req.body.model === "flash"
-          ? "gemini-3-flash-preview"
-          : "gemini-2.5-pro";
-      console.log(
-        `[Routes] Using model: ${modelMode} (mode: ${req.body.model || "pro"})`
-      );
-      
-      // Log the user message for debugging
-      const userMsgText = req.body.content || "";
-      console.log(`\\n${"=".repeat(60)}`);
-      console.log(`[LLM] USER MESSAGE:`);
-      console.log(`${"─".repeat(60)}`);
-      console.log(userMsgText.slice(0, 500) + (userMsgText.length > 500 ? "..." : ""));
-      console.log(`${"=".repeat(60)}\\n`);
-
-      // Select appropriate tool set based on authentication (authStatus already declared above)
-      const toolDeclarations = getToolDeclarations(authStatus.isAuthenticated);
-      
-      console.log(
-        `[Routes] Auth Status: ${authStatus.isAuthenticated ? "AUTHENTICATED" : "GUEST"} - ` +
-        `Tools Available: ${toolDeclarations.length}`
-      );
-
-      // ═══════════════════════════════════════════════════════════════════════
-      // LOG INPUT: Capture everything sent TO the LLM
-      // ═══════════════════════════════════════════════════════════════════════
-      const { ioLogger } = await import("./services/io-logger");
-      const inputLogTimestamp = new Date().toISOString();
-      
-      // Calculate token estimates
-      const systemPromptTokens = Math.ceil(modifiedPrompt.systemPrompt.length / 4);
-      const userMessageTokens = Math.ceil(userMsgText.length / 4);
-      const historyTokens = Math.ceil(
-        chatMessages.reduce((sum, m) => sum + m.content.length, 0) / 4
-      );
-      const totalInputTokensEstimate = systemPromptTokens + userMessageTokens + historyTokens;
-
-      const inputLogFilename = ioLogger.logInput({
-        timestamp: inputLogTimestamp,
-        messageId: savedMessage.id,
-        chatId: req.params.id,
-        systemPrompt: modifiedPrompt.systemPrompt,
-        userMessage: userMsgText,
-        conversationHistory: chatMessages.map(m => ({
-          role: m.role,
-          content: m.content,
-        })),
-        attachments: reqAttachments.map((a: { type?: string; filename?: string; size?: number; mimeType?: string }) => ({
-          type: a.type || 'file',
-          filename: a.filename || 'unknown',
-          size: a.size || 0,
-          mimeType: a.mimeType,
-        })),
-        model: modelMode,
-        totalInputTokensEstimate,
-      });
-
-      console.log(`[IOLogger] Input logged to: ${inputLogFilename}`);
-
-      const result = await withGeminiRetry(() => genAI.models.generateContentStream({
-        model: modelMode,
-        config: {
-          systemInstruction: modifiedPrompt.systemPrompt,
-          // Enable native function calling with appropriate tool set
-          // Authenticated users get full tools, guests get limited safe tools
-          tools: [{ functionDeclarations: toolDeclarations }],
-          toolConfig: {
-            functionCallingConfig: {
-              // ANY mode forces the model to always call at least one function
-              mode: FunctionCallingConfigMode.ANY,
-            },
-          },
-        },
-        contents: [...history, { role: "user", parts: userParts }],
-      }));
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 5: Stream response and collect native function calls
-      // ─────────────────────────────────────────────────────────────────────
-      // With native function calling, the model returns FunctionCall objects
-      // directly - no JSON parsing from text needed!
-
-      let fullResponse = "";
-      let cleanContentForStorage = "";
-      const toolResults: Array<{
-        toolId: string;
-        type: string;
-        success: boolean;
-        result?: unknown;
-        error?: string;
-      }> = [];
-      // Track cumulative usage across multiple turns/tool calls
-      const usageMetadata = {
-        promptTokenCount: 0,
-        candidatesTokenCount: 0,
-        totalTokenCount: 0,
-      };
-
-      // Collect function calls from response chunks
-      const collectedFunctionCalls: FunctionCall[] = [];
-      let parsedResponse: { toolCalls?: ToolCall[] } | null = null;
-
-      let initialTurnUsage: typeof usageMetadata | undefined;
-      for await (const chunk of result) {
-        // FIX: Explicitly capture "Thinking" content from Gemini 2.0 Flash Thinking
-        // Check for thought parts in the chunk candidates
-        let thoughtText = "";
-        if (chunk.candidates?.[0]?.content?.parts) {
-          for (const part of chunk.candidates[0].content.parts) {
-            // Check for 'thought' property (Gemini 2.0 Flash Thinking)
-            // @ts-ignore - 'thought' might not be in the type definition yet
-            if (part.thought) { 
-              thoughtText += part.thought; 
-            }
-          }
-        }
-
-        // If we have thought text, wrap it so it persists in storage
-        if (thoughtText) {
-          const thoughtChunk = `<thinking>${thoughtText}</thinking>
-
-`;
-          fullResponse += thoughtChunk;
-          cleanContentForStorage += thoughtChunk; // CRITICAL FIX: Add to storage!
-          
-          // Stream it to the client immediately
-          res.write(`data: ${JSON.stringify({ text: thoughtChunk })}
-
-`);
-        }
-
-        // Capture any text content (rare with function calling mode)
-        const text = chunk.text || "";
-        if (text) {
-          fullResponse += text;
-          cleanContentForStorage += text;
-          // Stream text to client if any
-          res.write(`data: ${JSON.stringify({ text })}
-
-`);
-        }
-
-        // Capture function calls from the response
-        if (chunk.functionCalls && chunk.functionCalls.length > 0) {
-          collectedFunctionCalls.push(...chunk.functionCalls);
-          console.log(`[Routes] Received ${chunk.functionCalls.length} function calls from Gemini`);
-        }
-
-        // Capture usage metadata from the final chunk
-        if (chunk.usageMetadata) {
-          initialTurnUsage = chunk.usageMetadata as any;
-        }
+      const { messageId } = req.body ?? {};
+      if (typeof messageId !== "string" || !messageId) {
+        return res.status(400).json({ error: "messageId is required" });
       }
 
-      if (initialTurnUsage) {
-        usageMetadata.promptTokenCount += initialTurnUsage.promptTokenCount || 0;
-        usageMetadata.candidatesTokenCount += initialTurnUsage.candidatesTokenCount || 0;
-        usageMetadata.totalTokenCount += initialTurnUsage.totalTokenCount || 0;
-      }
-      
-      // Convert Gemini FunctionCall objects to our ToolCall format
-      if (collectedFunctionCalls.length > 0) {
-        const toolCalls: ToolCall[] = collectedFunctionCalls.map((fc, index) => ({
-          id: `fc_${index}_${Date.now()}`,
-          type: fc.name as ToolCall["type"],
-          operation: fc.name || "execute",
-          parameters: (fc.args as Record<string, unknown>) || {},
-          priority: 0,
-        }));
-        parsedResponse = { toolCalls };
-        console.log(`[Routes] Converted ${toolCalls.length} function calls to ToolCall format`);
-        for (const tc of toolCalls) {
-          console.log(`  • ${tc.type}: ${JSON.stringify(tc.parameters).substring(0, 100)}`);
-        }
-      } else {
-        console.log("[Routes] No function calls in response");
+      const activeLeafId = await storage.selectBranch(req.params.id, messageId);
+      if (!activeLeafId) {
+        return res.status(404).json({ error: "Message not found in this chat" });
       }
 
-      // Note: With native function calling, no JSON parsing needed!
-      // Function calls are already extracted above from chunk.functionCalls
-
-      // ─────────────────────────────────────────────────────────────────────
-      // AGENTIC LOOP: Execute tools repeatedly until end_turn terminates
-      //
-      // Architecture: tool-call → execute → append result → resubmit
-      //
-      //   1. Gemini emits one or more functionCall parts in a single response.
-      //   2. All function calls in that response are executed (potentially in
-      //      parallel at the dispatcher level).
-      //   3. The results are appended to agenticHistory as a user turn
-      //      containing a compact summary of each tool's output.
-      //   4. agenticHistory is resubmitted to Gemini so it can act on the
-      //      results, call more tools, or call end_turn to finish.
-      //   5. Steps 1-4 repeat until end_turn is called, no function calls are
-      //      returned (implicit end), or a safety limit is hit.
-      //
-      // Parallel tool calls: Gemini may return multiple functionCall parts in
-      // a single response.  The dispatcher executes them together, reducing
-      // round-trips.  The system prompt explicitly encourages this pattern.
-      // ─────────────────────────────────────────────────────────────────────
-      
-      let loopIteration = 0;
-      const MAX_LOOP_ITERATIONS = 20; // Safety limit to prevent infinite loops
-      const MAX_TOOLS_PER_TURN = 20; // Limit tool calls per turn to prevent runaway
-      let totalToolsExecuted = 0;
-      const MAX_TOTAL_TOOLS = 50; // Absolute limit across all turns
-      let shouldEndTurn = false;
-      let agenticHistory = [...history, { role: "user", parts: userParts }];
-      
-      // Set SSE response for real-time tool call events
-      toolDispatcher.setSseResponse(res);
-      
-      // Helper function to execute tools and return results
-      const executeToolsAndGetResults = async (
-        toolCalls: ToolCall[],
-        messageId: string
-      ): Promise<{ results: typeof toolResults; shouldEndTurn: boolean; sendChatContent: string }> => {
-        const results: typeof toolResults = [];
-        let endTurn = false;
-        let sendChatContent = ""; // Accumulate send_chat content for storage
-        
-        for (const toolCall of toolCalls) {
-          console.log(`[Routes] Executing tool call: ${toolCall.type} (${toolCall.id})`);
-          try {
-            // Pass chatId for tool call logging
-            const toolResult = await toolDispatcher.executeToolCall(toolCall, messageId, req.params.id);
-            results.push({
-              toolId: toolResult.toolId,
-              type: toolResult.type,
-              success: toolResult.success,
-              result: toolResult.result,
-              error: toolResult.error,
-            });
-
-            // Send tool result to client
-            res.write(
-              `data: ${JSON.stringify({
-                toolResult: {
-                  id: toolCall.id,
-                  type: toolCall.type,
-                  success: toolResult.success,
-                  result: toolResult.result,
-                  error: toolResult.error,
-                },
-              })}
-
-`,
-            );
-            
-            // Check for send_chat/write - stream content to client AND accumulate for storage
-            // Read from parameters directly (like say tool) — more reliable than toolResult.result
-            if ((toolCall.type === "send_chat" || toolCall.type === "write") && toolResult.success) {
-              const rawContent = (toolCall.parameters as { content?: string }).content
-                || (toolResult.result as { content?: string })?.content
-                || "";
-              if (rawContent) {
-                const cleanContent = stripAllVoiceTags(rawContent);
-                // Stream the content to the client
-                res.write(`data: ${JSON.stringify({ text: cleanContent })}
-
-`);
-                // Accumulate for storage
-                sendChatContent += cleanContent;
-              }
-            }
-            
-            // Check for end_turn - this terminates the agentic loop
-            if (toolCall.type === "end_turn" && toolResult.success) {
-              const endTurnResult = toolResult.result as { shouldEndTurn?: boolean };
-              if (endTurnResult?.shouldEndTurn) {
-                endTurn = true;
-              }
-            }
-            
-            // Special handling for say tool — generate TTS audio and display text in chat
-            if (toolCall.type === "say" && toolResult.success) {
-              const { utterance, voice } = toolCall.parameters as { utterance: string; voice?: string };
-              // Strip ALL voice-style tags (e.g. [style: warm]) from display text;
-              // the raw utterance (with tags) is still forwarded to the TTS engine below.
-              const cleanUtterance = stripAllVoiceTags(utterance || "");
-
-              if (cleanUtterance.trim()) {
-                // Always write spoken text to the chat window
-                res.write(`data: ${JSON.stringify({ text: cleanUtterance })}
-
-`);
-                sendChatContent += cleanUtterance + "\n\n";
-
-                // Generate and stream TTS audio
-                if (useVoice) {
-                  try {
-                    const provider = process.env.TTS_PROVIDER || "google";
-                    let ttsResult;
-                    if (provider === "elevenlabs" || provider === "11labs") {
-                      const { generateSingleSpeakerAudio, DEFAULT_ELEVENLABS_VOICE } = await import("./integrations/elevenlabs-tts");
-                      ttsResult = await generateSingleSpeakerAudio(utterance, voice || DEFAULT_ELEVENLABS_VOICE);
-                    } else {
-                      const { generateSingleSpeakerAudio, DEFAULT_TTS_VOICE } = await import("./integrations/expressive-tts");
-                      ttsResult = await generateSingleSpeakerAudio(utterance, voice || DEFAULT_TTS_VOICE);
-                    }
-                    if (ttsResult.audioBase64) {
-                      console.log(`[Routes][SAY] ✓ Audio generated, length: ${ttsResult.audioBase64.length}`);
-                      res.write(`data: ${JSON.stringify({
-                        speech: {
-                          utterance: cleanUtterance,
-                          audioGenerated: true,
-                          audioBase64: ttsResult.audioBase64,
-                          mimeType: ttsResult.mimeType || "audio/mpeg",
-                          duration: ttsResult.duration,
-                        }
-                      })}
-
-`);
-                    } else {
-                      console.warn(`[Routes][SAY] TTS returned no audio: ${ttsResult.error}`);
-                    }
-                  } catch (ttsErr) {
-                    console.error(`[Routes][SAY] TTS failed:`, ttsErr);
-                  }
-                }
-              }
-            }
-            
-            // Special handling for soundboard tool - send sound event to client
-            if (toolCall.type === "soundboard" && toolResult.success) {
-              const { sound, volume } = (toolResult.result ?? toolResult) as { sound?: string; volume?: number };
-              if (sound) {
-                console.log(`[Routes][SOUNDBOARD] Playing: ${sound} @ vol ${volume}`);
-                res.write(`data: ${JSON.stringify({ soundboard: { sound, volume } })}\n\n`);
-              }
-            }
-
-            // Special handling for open_url tool - send event to frontend to open URL
-            if (toolCall.type === "open_url" && toolResult.success) {
-              console.log(`[Routes][OPEN_URL] Sending open_url event`);
-              const openUrlResult = toolResult.result as { url?: string; success?: boolean };
-              if (openUrlResult?.url) {
-                res.write(
-                  `data: ${JSON.stringify({
-                    openUrl: {
-                      url: openUrlResult.url,
-                    },
-                  })}
-
-`,
-                );
-                console.log(`[Routes][OPEN_URL] ✓ Sent URL to open: ${openUrlResult.url}`);
-              } else {
-                console.log(`[Routes][OPEN_URL] ✗ No URL in result`);
-              }
-            }
-          } catch (err: any) {
-            console.error(`[Routes] Tool execution error:`, err);
-            results.push({
-              toolId: toolCall.id,
-              type: toolCall.type,
-              success: false,
-              error: err.message,
-            });
-            res.write(
-              `data: ${JSON.stringify({
-                toolResult: {
-                  id: toolCall.id,
-                  type: toolCall.type,
-                  success: false,
-                  error: err.message,
-                },
-              })}
-
-`,
-            );
-          }
-        }
-        
-        return { results, shouldEndTurn: endTurn, sendChatContent };
-      };
-      
-      // Execute initial tool calls if we parsed any
-      if (parsedResponse && parsedResponse.toolCalls && parsedResponse.toolCalls.length > 0) {
-        // Log all tool calls for debugging
-        console.log(`\\n${"=".repeat(60)}`);
-        console.log(`[LLM] AI RESPONSE (Turn ${loopIteration}) - ${parsedResponse.toolCalls.length} TOOL CALLS:`);
-        console.log(`${"─".repeat(60)}`);
-        for (const tc of parsedResponse.toolCalls) {
-          console.log(`  • ${tc.type} (${tc.id})`);
-        }
-        console.log(`${"=".repeat(60)}\\n`);
-        
-        // Execute tools (with per-turn limit)
-        const limitedToolCalls = parsedResponse.toolCalls.slice(0, MAX_TOOLS_PER_TURN);
-        if (parsedResponse.toolCalls.length > MAX_TOOLS_PER_TURN) {
-          console.warn(`[AGENTIC LOOP] Limiting ${parsedResponse.toolCalls.length} tool calls to ${MAX_TOOLS_PER_TURN}`);
-        }
-        const execResult = await executeToolsAndGetResults(limitedToolCalls, savedMessage.id);
-        toolResults.push(...execResult.results);
-        totalToolsExecuted += limitedToolCalls.length;
-        shouldEndTurn = execResult.shouldEndTurn;
-        // CRITICAL FIX: Add send_chat content to storage so it persists
-        if (execResult.sendChatContent) {
-          cleanContentForStorage += execResult.sendChatContent;
-        }
-        
-        // Add model response with function calls to agentic history
-        // Use proper function call format for multi-turn context
-        // Note: The Gemini API supports functionCall parts but TypeScript types don't reflect this
-        agenticHistory.push({
-          role: "model",
-          parts: collectedFunctionCalls.map(fc => ({ functionCall: fc })) as any
-        });
-        
-        // AGENTIC LOOP: Continue if end_turn was NOT called
-        while (!shouldEndTurn && loopIteration < MAX_LOOP_ITERATIONS && totalToolsExecuted < MAX_TOTAL_TOOLS) {
-          loopIteration++;
-          console.log(`\\n${"═".repeat(60)}`);
-          console.log(`[AGENTIC LOOP] Turn ${loopIteration} - Feeding tool results back to LLM`);
-          console.log(`${"═".repeat(60)}\\n`);
-          
-          // Build tool results message for the LLM (compact, strip large binary data)
-          const lastToolCount = parsedResponse?.toolCalls?.length || 0;
-          const toolResultsText = toolResults
-            .slice(-lastToolCount) // Only include results from last turn
-            .map(r => {
-              // Strip large binary data from results before sending back to LLM
-              let resultSummary: unknown = r.result;
-              if (typeof r.result === "object" && r.result !== null) {
-                const res = r.result as Record<string, unknown>;
-                // Remove known large binary fields to save tokens
-                const sanitized = { ...res };
-                if ("audioBase64" in sanitized) {
-                  sanitized.audioBase64 = "[audio generated]";
-                }
-                if ("base64" in sanitized) {
-                  sanitized.base64 = "[binary data]";
-                }
-                if ("screenshot" in sanitized && typeof sanitized.screenshot === "string" && (sanitized.screenshot as string).length > 100) {
-                  sanitized.screenshot = "[screenshot captured]";
-                }
-                // Check for noTruncate flag (used by file_get tool) - skip content truncation
-                const shouldTruncate = !("noTruncate" in sanitized && sanitized.noTruncate === true);
-                if ("content" in sanitized && typeof sanitized.content === "string" && shouldTruncate && (sanitized.content as string).length > 2000) {
-                  sanitized.content = (sanitized.content as string).substring(0, 2000) + "... [truncated]";
-                }
-                resultSummary = sanitized;
-              }
-              // Compact output format
-              const summary = r.success ? JSON.stringify(resultSummary) : `ERROR: ${r.error}`;
-              // Check if result has noTruncate flag - if so, don't limit summary length
-              const hasNoTruncate = typeof r.result === 'object' && 
-                r.result !== null && 
-                'noTruncate' in r.result && 
-                (r.result as { noTruncate?: boolean }).noTruncate === true;
-              const limitedSummary = hasNoTruncate ? summary : (summary.length > 500 ? summary.substring(0, 500) + "..." : summary);
-              return `• ${r.type}: ${limitedSummary}`;
-            })
-            .join("\\n");
-          
-          // Provide tool results to the model as a user message
-          agenticHistory.push({
-            role: "user", 
-            parts: [{ text: `Tool results:\\n${toolResultsText}\\n\\nContinue with more tools or call end_turn when ready.` }]
-          });
-          
-          // Call LLM again with native function calling
-          const loopResult = await withGeminiRetry(() => genAI.models.generateContentStream({
-            model: modelMode,
-            config: {
-              systemInstruction: modifiedPrompt.systemPrompt,
-              // Use same tool set as initial call (respects auth status)
-              tools: [{ functionDeclarations: toolDeclarations }],
-              toolConfig: {
-                functionCallingConfig: {
-                  mode: FunctionCallingConfigMode.ANY,
-                },
-              },
-            },
-            contents: agenticHistory,
-          }));
-          
-          // Collect function calls from loop response
-          let loopResponse = "";
-          const loopFunctionCalls: FunctionCall[] = [];
-          let loopParsedResponse: { toolCalls?: ToolCall[] } | null = null;
-          let loopTurnUsage: typeof usageMetadata | undefined;
-          
-          for await (const chunk of loopResult) {
-            const text = chunk.text || "";
-            if (text) loopResponse += text;
-            
-            // Collect function calls
-            if (chunk.functionCalls && chunk.functionCalls.length > 0) {
-              loopFunctionCalls.push(...chunk.functionCalls);
-            }
-            
-            if (chunk.usageMetadata) {
-              loopTurnUsage = chunk.usageMetadata as any;
-            }
-          }
-
-          if (loopTurnUsage) {
-             usageMetadata.promptTokenCount += loopTurnUsage.promptTokenCount || 0;
-             usageMetadata.candidatesTokenCount += loopTurnUsage.candidatesTokenCount || 0;
-             usageMetadata.totalTokenCount += loopTurnUsage.totalTokenCount || 0;
-          }
-          
-          fullResponse += `\\n\\n[Turn ${loopIteration}]\\n${loopResponse}`;
-          
-          // Convert function calls to ToolCall format
-          if (loopFunctionCalls.length > 0) {
-            const toolCalls: ToolCall[] = loopFunctionCalls.map((fc, index) => ({
-              id: `fc_loop${loopIteration}_${index}_${Date.now()}`,
-              type: fc.name as ToolCall["type"],
-              operation: fc.name || "execute",
-              parameters: (fc.args as Record<string, unknown>) || {},
-              priority: 0,
-            }));
-            loopParsedResponse = { toolCalls };
-            
-            console.log(`[AGENTIC LOOP] Turn ${loopIteration} - ${toolCalls.length} function calls`);
-            for (const tc of toolCalls) {
-              console.log(`  • ${tc.type}: ${JSON.stringify(tc.parameters).substring(0, 80)}`);
-            }
-            
-            // Execute tools (with per-turn limit)
-            const limitedLoopToolCalls = toolCalls.slice(0, MAX_TOOLS_PER_TURN);
-            if (toolCalls.length > MAX_TOOLS_PER_TURN) {
-              console.warn(`[AGENTIC LOOP] Turn ${loopIteration}: Limiting ${toolCalls.length} tool calls to ${MAX_TOOLS_PER_TURN}`);
-            }
-            const loopExecResult = await executeToolsAndGetResults(limitedLoopToolCalls, savedMessage.id);
-            toolResults.push(...loopExecResult.results);
-            totalToolsExecuted += limitedLoopToolCalls.length;
-            shouldEndTurn = loopExecResult.shouldEndTurn;
-            // CRITICAL FIX: Add send_chat content to storage so it persists
-            if (loopExecResult.sendChatContent) {
-              cleanContentForStorage += loopExecResult.sendChatContent;
-            }
-            
-            // Update history for next iteration - use proper function call format
-            agenticHistory.push({
-              role: "model",
-              parts: loopFunctionCalls.map(fc => ({ functionCall: fc })) as any
-            });
-            parsedResponse = loopParsedResponse;
-          } else {
-            // No function calls - LLM responded with plain text, treat as implicit end_turn
-            console.log(`[AGENTIC LOOP] Turn ${loopIteration} - No function calls, treating as implicit end_turn`);
-            const plainTextResponse = stripAllVoiceTags(loopResponse.trim());
-            if (plainTextResponse) {
-              res.write(`data: ${JSON.stringify({ text: plainTextResponse })}
-
-`);
-            }
-            break;
-          }
-        }
-        
-        if (!shouldEndTurn) {
-          let warningMessage = "";
-          if (loopIteration >= MAX_LOOP_ITERATIONS) {
-            console.warn(`[AGENTIC LOOP] Hit max iterations (${MAX_LOOP_ITERATIONS}), forcing termination`);
-            warningMessage = "[Loop limit reached - response truncated]";
-          } else if (totalToolsExecuted >= MAX_TOTAL_TOOLS) {
-            console.warn(`[AGENTIC LOOP] Hit max total tools (${MAX_TOTAL_TOOLS}), forcing termination`);
-            warningMessage = "[Tool execution limit reached - response truncated]";
-          }
-          if (warningMessage) {
-            res.write(`data: ${JSON.stringify({ text: warningMessage })}
-
-`);
-          }
-        }
-      }
-
-      // ─────────────────────────────────────────────────────────────────────
-      // STEP 6: Save AI response with clean content
-      // ─────────────────────────────────────────────────────────────────────
-
-      // Clean up the accumulated prose-only content
-      // Remove any residual tool_code blocks, empty code blocks, and cleanup
-      // Strip voice style tags (e.g. [style: cheerful]) — for TTS only, not display
-      let finalContent = stripAllVoiceTags(cleanContentForStorage)
-        // Remove code blocks containing tool call arrays (identified by known tool types)
-
-      // Prepare Gemini content for storage (keep original for multi-turn context)
-      // Always use the accumulated fullResponse to ensure complete content is stored
-      const geminiContentToStore = {
-        role: "model",
-        parts: [{ text: fullResponse }],
-      };
-
-      // Include tool results and token usage in message metadata
-      const tokenUsage = usageMetadata ? {
-        promptTokens: usageMetadata.promptTokenCount || 0,
-        completionTokens: usageMetadata.candidatesTokenCount || 0,
-        totalTokens: usageMetadata.totalTokenCount || 0,
-      } : undefined;
-      const messageMetadata: Record<string, unknown> = {};
-      if (toolResults.length > 0) messageMetadata.toolResults = toolResults;
-      if (tokenUsage) messageMetadata.tokenUsage = tokenUsage;
-
-      const endTime = Date.now();
-
-      const savedAiMessage = await storage.addMessage({
-        chatId: req.params.id,
-        role: "ai",
-        content: finalContent,
-        geminiContent: geminiContentToStore,
-        metadata: Object.keys(messageMetadata).length > 0 ? messageMetadata : undefined,
-      });
-
-      // Ingest AI response for RAG recall (async, don't block)
-      // RAG processing removed
-      // ragService
-      //   .ingestMessage(
-      //     finalContent,
-      //     req.params.id,
-      //     savedAiMessage.id,
-      //     "ai",
-      //     undefined,
-      //     userId,
-      //   )
-      //   .catch((error) => {
-      //     console.error(
-      //       `[RAG] Failed to ingest AI message ${savedAiMessage.id}:`,
-      //       error,
-      //     );
-      //   });
-
-      // Log to LLM debug buffer for debugging
-      try {
-        const { llmDebugBuffer } = await import("./services/llm-debug-buffer");
-        const { promptComposer } = await import("./services/prompt-composer");
-        const { ioLogger } = await import("./services/io-logger");
-        
-        // Get system prompt breakdown for detailed token analysis
-        const breakdown = promptComposer.getSystemPromptBreakdown();
-        
-        // Log output to file
-        const outputLogFilename = ioLogger.logOutput({
-          timestamp: new Date().toISOString(),
-          messageId: savedMessage.id,
-          chatId: req.params.id,
-          rawResponse: fullResponse,
-          cleanContent: finalContent,
-          toolCalls: (parsedResponse?.toolCalls || []).map(tc => ({
-            type: tc.type,
-            parameters: tc.parameters,
-          })),
-          toolResults: toolResults.map(tr => ({
-            type: tr.type,
-            success: tr.success,
-            result: tr.result,
-            error: tr.error,
-          })),
-          model: modelMode,
-          durationMs: endTime - (startTime || endTime),
-          totalOutputTokensEstimate: Math.ceil(fullResponse.length / 4),
-        });
-        
-        console.log(`[IOLogger] Output logged to: ${outputLogFilename}`);
-        
-        // Add to debug buffer with enhanced data
-        await llmDebugBuffer.add({
-          chatId: req.params.id,
-          messageId: savedMessage.id,
-          userId: userId,
-          systemPrompt: modifiedPrompt.systemPrompt,
-          systemPromptBreakdown: {
-            components: breakdown.components.map(c => ({
-              name: c.name,
-              charCount: c.charCount,
-              lineCount: c.lineCount,
-              tokenEstimate: Math.ceil(c.charCount / 4),
-            })),
-            totalChars: breakdown.totalChars,
-            totalLines: breakdown.totalLines,
-            estimatedTokens: breakdown.estimatedTokens,
-          },
-          userMessage: composedPrompt.userMessage,
-          conversationHistory: chatMessages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          attachments: composedPrompt.attachments.map((a) => ({
-            type: a.type,
-            filename: a.filename,
-            mimeType: a.mimeType,
-          })),
-          rawResponse: fullResponse,
-          parsedToolCalls: parsedResponse?.toolCalls || [],
-          cleanContent: finalContent,
-          toolResults,
-          model: modelMode,
-          durationMs: endTime - (startTime || endTime),
-          tokenEstimate: {
-            inputTokens: totalInputTokensEstimate,
-            outputTokens: Math.ceil(fullResponse.length / 4),
-          },
-          ioLogFiles: {
-            inputLog: inputLogFilename,
-            outputLog: outputLogFilename,
-          },
-        });
-        
-        // Cleanup old IO logs (keep last 50)
-        ioLogger.cleanup(50);
-      } catch (logError) {
-        console.error("Failed to log LLM interaction:", logError);
-      }
-
-      // Log LLM token usage to database
-      try {
-        if (usageMetadata && usageMetadata.promptTokenCount !== undefined) {
-          await storage.logLlmUsage({
-            chatId: req.params.id,
-            messageId: savedMessage.id,
-            model: modelMode,
-            promptTokens: usageMetadata.promptTokenCount || 0,
-            completionTokens: usageMetadata.candidatesTokenCount || 0,
-            totalTokens: usageMetadata.totalTokenCount || 0,
-            durationMs: endTime - startTime,
-            metadata: usageMetadata,
-          });
-          console.log(
-            `[Token Usage] Chat ${req.params.id}: ${usageMetadata.promptTokenCount} in, ${usageMetadata.candidatesTokenCount} out, ${usageMetadata.totalTokenCount} total`,
-          );
-        }
-      } catch (usageError) {
-        console.error("Failed to log LLM token usage:", usageError);
-      }
-
-      // ─────────────────────────────────────────────────────────────────────
-      // FALLBACK TTS: Only if zero streaming sentences AND zero say-tool calls
-      // ─────────────────────────────────────────────────────────────────────
-      const sayToolCalled = toolResults.some(r => r.type === "say" && r.success);
-      if (useVoice && !sayToolCalled && finalContent && finalContent.trim().length > 0) {
-        console.log(`[Routes][TTS-Fallback] No streaming TTS or say tool, generating single fallback`);
-        try {
-          const provider = process.env.TTS_PROVIDER || "google";
-          let ttsResult;
-          const ttsText = finalContent.length > 500 
-            ? finalContent.substring(0, 500) + "..."
-            : finalContent;
-
-          if (provider === "elevenlabs" || provider === "11labs") {
-            const { generateSingleSpeakerAudio, DEFAULT_ELEVENLABS_VOICE } = await import("./integrations/elevenlabs-tts");
-            ttsResult = await generateSingleSpeakerAudio(ttsText, DEFAULT_ELEVENLABS_VOICE);
-          } else {
-            const { generateSingleSpeakerAudio, DEFAULT_TTS_VOICE } = await import("./integrations/expressive-tts");
-            ttsResult = await generateSingleSpeakerAudio(ttsText, DEFAULT_TTS_VOICE);
-          }
-
-          if (ttsResult.audioBase64) {
-            console.log(`[Routes][TTS-Fallback] ✓ Generated fallback audio via ${provider}, length: ${ttsResult.audioBase64.length}`);
-            res.write(
-              `data: ${JSON.stringify({
-                speech: {
-                  utterance: ttsText,
-                  audioGenerated: true,
-                  audioBase64: ttsResult.audioBase64,
-                  mimeType: ttsResult.mimeType || "audio/mpeg",
-                  duration: ttsResult.duration,
-                  fallback: true,
-                },
-              })}
-
-`,
-            );
-          }
-        } catch (ttsError) {
-          console.error(`[Routes][TTS-Fallback] Failed:`, ttsError);
-        }
-      } else if (useVoice) {
-        console.log(`[Routes][TTS] Speech already delivered via say tool`);
-      }
-
-      // Send completion event with tool results summary and close the stream
-      res.write(
-        `data: ${JSON.stringify({
-          done: true,
-          toolResults: toolResults.length > 0 ? toolResults : undefined,
-          savedMessage: {
-            id: savedAiMessage.id,
-            role: savedAiMessage.role,
-            content: savedAiMessage.content,
-            createdAt: savedAiMessage.createdAt,
-            metadata: savedAiMessage.metadata,
-          },
-        })}
-
-`,
-      );
-      res.end();
+      const limit = parseInt(req.query.limit as string) || 30;
+      const messages = await storage.getMessagesByChatId(req.params.id, { limit: limit + 1 });
+      const hasMore = messages.length > limit;
+      res.json({ messages: hasMore ? messages.slice(1) : messages, hasMore, activeLeafId });
     } catch (error) {
-      // Log error for debugging
-      console.error("Error in message streaming:", error);
-
-      // Check if headers were already sent (streaming started)
-      if (res.headersSent) {
-        // Send error via SSE and end stream gracefully
-        try {
-          res.write(
-            `data: ${JSON.stringify({ error: "An error occurred while processing your message" })}
-
-`,
-          );
-          res.end();
-        } catch (e) {
-          // Stream may already be closed, just log and continue
-          console.error("Failed to send error via stream:", e);
-        }
-      } else {
-        res.status(500).json({ error: "Failed to process message" });
-      }
+      console.error(`[POST /api/chats/${req.params.id}/branch] Error:`, error);
+      res.status(500).json({ error: "Failed to switch branch" });
     }
   });
 
+  // Sending, editing and regenerating messages (SSE streams)
+  app.use("/api/chats", createChatTurnRouter());
+
   // ═════════════════════════════════════════════════════════════════════════
   // MESSAGE METADATA POLLING
   // ═════════════════════════════════════════════════════════════════════════
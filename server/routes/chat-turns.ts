@@ -0,0 +1,987 @@
+/**
+ * =============================================================================
+ * CHAT TURN ROUTES
+ * =============================================================================
+ *
+ * The streaming chat endpoints, mounted at /api/chats:
+ * - POST /api/chats/:id/messages                              - Send a message
+ * - POST /api/chats/:id/messages/:messageId/edit              - Edit a user message
+ * - POST /api/chats/:id/messages/:messageId/regenerate        - Answer again
+ *
+ * Each saves the user's message, composes the prompt, runs the agentic tool
+ * loop (or a panel exchange) and streams the reply as Server-Sent Events.
+ * Expects req.authStatus from the checkAuthStatus middleware.
+ * =============================================================================
+ */
+
+import { Router, type Request, type Response } from "express";
+import { storage } from "../storage";
+import { retrievalService } from "../services/retrieval";
+import { insertMessageSchema, type Message } from "@shared/schema";
+import { agentAttribution, panelInstructions } from "@shared/agent-panel";
+import { toLlmTools } from "../gemini-tools";
+import { getToolDeclarations } from "../gemini-tools-guest";
+import { promptComposer } from "../services/prompt-composer";
+import { filterToolsForAgent } from "../services/agent-persona";
+import { runPanelExchange } from "../services/agent-panel";
+import { toolDispatcher } from "../services/tool-dispatcher";
+import { runAgenticTurn, type AgenticTurnOptions } from "../services/agentic-loop";
+import { llm, type LlmMessage } from "../services/llm";
+import { recognizeFamilyMember } from "../services/family-recognition";
+import { stripAllVoiceTags } from "../services/style-parser";
+
+export function createChatTurnRouter(): Router {
+  const router = Router();
+
+  /**
+   * POST /api/chats/:id/messages
+   * Send a message and receive streaming AI response.
+   *
+   * This is the core AI chat endpoint. It:
+   * 1. Saves the user's message to the database
+   * 2. Builds conversation history for context (active branch only)
+   * 3. Streams AI response using Server-Sent Events (SSE)
+   * 4. Saves the complete AI response to database
+   *
+   * The same pipeline serves the branching routes:
+   * - POST /api/chats/:id/messages/:messageId/edit
+   *   Saves { content } as a new version of a user message (a sibling, so the
+   *   original branch is kept) and answers it.
+   * - POST /api/chats/:id/messages/:messageId/regenerate
+   *   Answers the user message behind an AI reply again; the new reply
+   *   becomes a sibling of the old one. Attachments are refused: the prompt
+   *   is not changed, so new files belong in an edit.
+   *
+   * STREAMING PROTOCOL (Server-Sent Events):
+   * - Content-Type: text/event-stream
+   * - Each chunk: data: {"text": "..."}\\n\\n
+   * - Final event: data: {"done": true}\\n\\n
+   *
+   * Path Parameters:
+   * - id: string (UUID) - Chat ID to add message to
+   *
+   * Request Body:
+   * - content: string (required) - The user's message text
+   *
+   * @route POST /api/chats/:id/messages
+   * @param {string} id - Chat UUID
+   * @returns {Stream} 200 - SSE stream of AI response chunks
+   * @returns {Error} 400 - Attachments sent with a regenerate
+   * @returns {Error} 404 - Edited/regenerated message not found
+   * @returns {Error} 500 - Streaming/AI error
+   */
+  const handleChatTurn = async (req: Request, res: Response, turnKind: "send" | "edit" | "regenerate") => {
+    const startTime = Date.now();
+    try {
+      // Get auth status from middleware for consistent user identification
+      const authStatus = (req as any).authStatus;
+      const userId = authStatus.userId; // Use authStatus instead of direct req.user access
+      
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 1: Validate and save user's message
+      // ─────────────────────────────────────────────────────────────────────
+
+      let savedMessage: Message;
+      let editedMessage: Message | undefined;
+
+      // A regenerated reply answers the existing prompt, which keeps its files
+      if (turnKind === "regenerate" && Array.isArray(req.body.attachments) && req.body.attachments.length > 0) {
+        return res.status(400).json({ error: "Attachments cannot be added when regenerating; edit the message instead" });
+      }
+
+      if (turnKind !== "send") {
+        // Link pre-branching chats into a chain so parent ids are meaningful
+        await storage.ensureMessageTree(req.params.id);
+        const target = await storage.getMessageById(req.params.messageId);
+        const expectedRole = turnKind === "edit" ? "user" : "ai";
+        if (!target || target.chatId !== req.params.id || target.role !== expectedRole) {
+          return res.status(404).json({ error: `No ${expectedRole} message ${req.params.messageId} in this chat` });
+        }
+        editedMessage = target;
+      }
+
+      if (turnKind === "regenerate") {
+        // Answer the same user message again; the new reply becomes a sibling
+        const prompt = editedMessage!.parentId ? await storage.getMessageById(editedMessage!.parentId) : undefined;
+        if (!prompt || prompt.role !== "user") {
+          return res.status(400).json({ error: "Only replies to a user message can be regenerated" });
+        }
+        await storage.setActiveLeaf(req.params.id, prompt.id);
+        savedMessage = prompt;
+      } else {
+        // Validate message structure with Zod schema
+        // Note: content defaults to empty string to support image-only messages
+        // An edit is saved as a sibling of the original, starting a new branch
+        const userMessage = insertMessageSchema.parse({
+          chatId: req.params.id, // From URL parameter
+          role: "user", // Messages from this endpoint are always user messages
+          content: req.body.content || "",
+          ...(editedMessage ? { parentId: editedMessage.parentId ?? null } : {}),
+        });
+
+        // Persist user message to database and get the saved message with ID
+        savedMessage = await storage.addMessage(userMessage);
+      }
+
+      // Check for family member catch phrases
+      const familyMember = recognizeFamilyMember(savedMessage.content);
+      if (familyMember) {
+        console.log(`[family] Session personalized for: ${familyMember.name}`);
+      }
+
+      // Index the message for retrieval (async, don't block). Chunks are owned
+      // by the chat's owner so recall stays within their own conversations.
+      const chatRecord = await storage.getChat(req.params.id);
+      const chatOwner = { id: req.params.id, userId: chatRecord?.userId ?? null };
+      if (turnKind !== "regenerate") {
+        retrievalService.ingestMessage(savedMessage, chatRecord).catch((error) => {
+          console.error(
+            `[Retrieval] Failed to ingest user message ${savedMessage.id}:`,
+            error,
+          );
+        });
+      }
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 1.5: Process and save any attachments
+      // ─────────────────────────────────────────────────────────────────────
+
+      const reqAttachments = Array.isArray(req.body.attachments)
+        ? req.body.attachments
+        : [];
+      for (const att of reqAttachments) {
+        // Determine content: prefer explicit content field, fallback to dataUrl
+        let content = att.content || "";
+
+        // If no direct content but dataUrl exists, extract content
+        if (!content && att.dataUrl) {
+          const dataUrl = att.dataUrl;
+          if (dataUrl.includes(",")) {
+            const base64Part = dataUrl.split(",")[1];
+            const isTextFile =
+              att.mimeType?.startsWith("text/") ||
+              att.mimeType === "application/json" ||
+              att.mimeType === "application/xml" ||
+              att.mimeType === "application/javascript";
+
+            if (isTextFile) {
+              // Decode base64 for text files to store readable content
+              try {
+                content = Buffer.from(base64Part, "base64").toString("utf-8");
+              } catch {
+                content = base64Part;
+              }
+            } else {
+              // Store base64 for binary files (images, audio, etc.)
+              content = base64Part;
+            }
+          }
+        }
+
+        // Sanitize content to remove null bytes that PostgreSQL text columns can't store
+        // Null bytes (0x00) cause "invalid byte sequence for encoding UTF8" errors
+        const sanitizedContent = content.replace(/\\x00/g, "");
+
+        // Save attachment to database
+        let savedAttachment;
+        try {
+          savedAttachment = await storage.createAttachment({
+            messageId: savedMessage.id,
+            type: att.type || "file",
+            filename: att.filename || "unnamed",
+            mimeType: att.mimeType,
+            size: att.size,
+            content: sanitizedContent,
+          });
+        } catch (attachmentError) {
+          console.error(
+            `Failed to save attachment ${att.filename}:`,
+            attachmentError,
+          );
+          // Continue processing without this attachment rather than failing the whole message
+          continue;
+        }
+
+        retrievalService.ingestAttachment(savedAttachment, chatOwner).catch((error) => {
+          console.error(`[Retrieval] Failed to ingest attachment ${att.filename}:`, error);
+        });
+      }
+
+      // An edit without new attachments keeps the original message's files
+      if (turnKind === "edit" && reqAttachments.length === 0) {
+        for (const att of await storage.getAttachmentsByMessageId(editedMessage!.id)) {
+          await storage.createAttachment({
+            messageId: savedMessage.id,
+            type: att.type,
+            filename: att.filename,
+            mimeType: att.mimeType,
+            size: att.size,
+            content: att.content,
+          });
+        }
+      }
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 2: Build conversation history for AI context
+      // ─────────────────────────────────────────────────────────────────────
+      
+      // OPTIMIZATION: Only fetch a small recent window for immediate context.
+      // Retrieval (in PromptComposer) handles recalling relevant older context.
+      // This prevents loading massive tool outputs that bloat token usage.
+      const RECENT_WINDOW = 25; // Last 25 messages for conversational flow
+      const MAX_CONTENT_LENGTH = 2000; // Truncate long messages
+      
+      // Fetch only recent messages (not all history)
+      const chatMessages = await storage.getMessagesByChatId(req.params.id, { 
+        limit: RECENT_WINDOW + 1 // +1 because we exclude the current message
+      });
+
+      // IMPORTANT: Exclude the current message we just saved, since we'll add it separately
+      // This prevents the user's message from being sent to the AI twice
+      const previousMessages = chatMessages.filter(
+        (msg) => msg.id !== savedMessage.id,
+      );
+
+      // Transform to LLM messages with content truncation:
+      // - "user" role stays as "user"
+      // - "ai" role becomes "assistant"
+      // - Truncate long messages to prevent token overflow from tool outputs
+      // - Include tool results from the most recent AI message for continuity
+      const history = previousMessages.map((msg, index): LlmMessage => {
+        let content = msg.content;
+        
+        // For the most recent AI message, include tool results from metadata
+        // This ensures tool output is available for the next user prompt
+        const isLastAiMessage = msg.role === "ai" && 
+          index === previousMessages.length - 1;
+        const metadata = msg.metadata as { toolResults?: Array<{ type: string; result: unknown; success: boolean }> } | null;
+        
+        if (isLastAiMessage && metadata?.toolResults?.length) {
+          // Append tool results to the most recent AI message
+          // Check each tool result for noTruncate flag before applying length limit
+          const toolSummary = metadata.toolResults
+            .filter(tr => tr.success)
+            .map(tr => {
+              const resultStr = JSON.stringify(tr.result);
+              // Check if this tool result has noTruncate flag (e.g., file_get)
+              const hasNoTruncate = typeof tr.result === 'object' && 
+                tr.result !== null && 
+                'noTruncate' in tr.result && 
+                (tr.result as any).noTruncate === true;
+              
+              // If noTruncate is set, return full result, otherwise limit to 5000 chars
+              const limitedResult = hasNoTruncate ? resultStr : resultStr.slice(0, 5000);
+              return `[Tool ${tr.type} returned: ${limitedResult}]`;
+            })
+            .join("\n");
+          content = content + "\n\n" + toolSummary;
+        } else if (content.length > MAX_CONTENT_LENGTH) {
+          // Truncate older messages if too long
+          content = content.slice(0, MAX_CONTENT_LENGTH) + "\n...[truncated for context]";
+        }
+        
+        return {
+          role: msg.role === "user" ? "user" : "assistant",
+          content,
+        };
+      });
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 3: Configure SSE (Server-Sent Events) headers
+      // ─────────────────────────────────────────────────────────────────────
+
+      // These headers tell the browser to expect a continuous stream
+      res.setHeader("Content-Type", "text/event-stream"); // SSE MIME type
+      res.setHeader("Cache-Control", "no-cache"); // Don't cache the stream
+      res.setHeader("Connection", "keep-alive"); // Keep connection open
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 3.5: Compose system prompt using PromptComposer
+      // ─────────────────────────────────────────────────────────────────────
+
+      // Get saved attachments for this message
+      const savedAttachments = await storage.getAttachmentsByMessageId(
+        savedMessage.id,
+      );
+
+      // Use PromptComposer to build the complete system prompt with:
+      // - Core directives from prompts/core-directives.md
+      // - Personality from prompts/personality.md
+      // - Tools from prompts/tools.md
+      // - Retrieved context from older messages, attachments and Drive files
+      // - Contextual instructions based on attachments
+      // Get verbosity mode from client (mute, low, normal, experimental)
+      const verbosityMode = req.body.verbosityMode || "normal";
+      const useVoice = verbosityMode !== "mute";
+      
+      // Determine content verbosity level for prompt context
+      const contentVerbosity = (() => {
+        switch (verbosityMode) {
+          case "mute": return "minimal";
+          case "low": return "low";
+          default: return "verbose"; // normal and experimental
+        }
+      })();
+      
+      // Voice/verbosity instructions based on mode, around a composed system prompt
+      const applyVerbosity = (systemPrompt: string): string => {
+        let finalSystemPrompt = systemPrompt;
+        if (useVoice) {
+          let voiceInstruction = "";
+        
+          switch (verbosityMode) {
+            case "low":
+              voiceInstruction = `
+## VERBOSITY MODE: LOW (Concise Text & Speech)
+The user has LOW verbosity mode enabled. Keep both text and speech responses concise.
+- Keep responses brief and focused - aim for 1-3 sentences maximum
+- Use the \`say\` tool to provide concise spoken summaries
+- Provide only essential information without elaboration
+- Example: User asks "What's the weather?" → Response: "It's 72°F and sunny in your area."
+`;
+              break;
+            
+            case "normal":
+              voiceInstruction = `
+## VERBOSITY MODE: NORMAL (Verbose Text & Speech)
+The user has NORMAL verbosity mode enabled. Provide comprehensive, detailed responses in both text and speech.
+- Use the \`say\` tool to speak your complete responses
+- All text sent via \`write\` (except code blocks) should also be spoken
+- Provide thorough explanations with context and details
+- CALL the tools natively using the function calling interface.
+`;
+              break;
+            
+            case "experimental":
+              voiceInstruction = `
+## VERBOSITY MODE: EXPERIMENTAL (Dual-Voice Discussion)
+The user has EXPERIMENTAL mode enabled - generate a two-voice discussion format.
+- Structure your response as a dialogue between two AI personas discussing the topic
+- Use the \`say\` tool to present this discussion format
+- Continue the discussion until the user interrupts (barge-in)
+- Make the conversation natural, with back-and-forth exchanges
+- Example format:
+  Persona A: "That's an interesting question about..."
+  Persona B: "I agree, and I'd add that..."
+  Persona A: "Exactly! And another key point is..."
+`;
+              break;
+          }
+        
+          finalSystemPrompt = voiceInstruction + "\\n\\n" + finalSystemPrompt;
+        } else {
+          // Mute mode - minimal output, alerts only
+          const muteInstruction = `
+## VERBOSITY MODE: MUTE (Alerts Only)
+The user has MUTE mode enabled. Minimize all output.
+- Only respond to critical alerts or explicit user queries
+- Keep responses to absolute minimum (1 sentence or less)
+- No voice output whatsoever
+- Skip conversational niceties and get straight to the essential information
+`;
+          finalSystemPrompt = muteInstruction + "\\n\\n" + finalSystemPrompt;
+        }
+      
+        // Add content verbosity instruction
+        if (contentVerbosity === "low") {
+          const verbosityNote = "\\n\\n**Content Verbosity: LOW** - Keep all responses concise and focused. Maximum 1-3 sentences.\\n";
+          finalSystemPrompt = finalSystemPrompt + verbosityNote;
+        } else if (contentVerbosity === "minimal") {
+          const verbosityNote = "\\n\\n**Content Verbosity: MINIMAL** - Only respond to critical alerts or explicit queries. Maximum 1 sentence.\\n";
+          finalSystemPrompt = finalSystemPrompt + verbosityNote;
+        } else if (contentVerbosity === "verbose") {
+          const verbosityNote = "\\n\\n**Content Verbosity: VERBOSE** - Provide comprehensive, detailed explanations with context and examples.\\n";
+          finalSystemPrompt = finalSystemPrompt + verbosityNote;
+        }
+        return finalSystemPrompt;
+      };
+
+      // Build the current user message (text + any images)
+      const llmUserMessage: LlmMessage = {
+        role: "user",
+        content: savedMessage.content,
+        attachments: [],
+      };
+
+      // Add all attachments for multimodal input
+      for (const att of reqAttachments) {
+        if (att.dataUrl && att.mimeType) {
+          // Extract base64 data from dataUrl
+          const base64Match = att.dataUrl.match(/^data:[^;]+;base64,(.+)$/);
+          if (base64Match) {
+            llmUserMessage.attachments!.push({
+              mimeType: att.mimeType,
+              data: base64Match[1],
+            });
+          }
+        }
+      }
+
+      // Edits and regenerations reuse stored files (binary ones are kept as base64)
+      if (reqAttachments.length === 0) {
+        for (const att of savedAttachments) {
+          if (att.content && att.mimeType && /^(image|audio|video)\/|^application\/pdf$/.test(att.mimeType)) {
+            llmUserMessage.attachments!.push({ mimeType: att.mimeType, data: att.content });
+          }
+        }
+      }
+
+      // Tool side effects (speech, sounds, URLs), shared by panel turns
+      const afterTool: NonNullable<AgenticTurnOptions["afterTool"]> = async (toolCall, toolResult) => {
+        // Special handling for say tool — generate TTS audio and display text in chat
+        if (toolCall.type === "say") {
+          const { utterance, voice } = toolCall.parameters as { utterance: string; voice?: string };
+          // Strip ALL voice-style tags (e.g. [style: warm]) from display text;
+          // the raw utterance (with tags) is still forwarded to the TTS engine below.
+          const cleanUtterance = stripAllVoiceTags(utterance || "");
+          if (!cleanUtterance.trim()) return;
+
+          // Always write spoken text to the chat window
+          res.write(`data: ${JSON.stringify({ text: cleanUtterance })}\n\n`);
+
+          // Generate and stream TTS audio
+          if (useVoice) {
+            try {
+              const provider = process.env.TTS_PROVIDER || "google";
+              let ttsResult;
+              if (provider === "elevenlabs" || provider === "11labs") {
+                const { generateSingleSpeakerAudio, DEFAULT_ELEVENLABS_VOICE } = await import("../integrations/elevenlabs-tts");
+                ttsResult = await generateSingleSpeakerAudio(utterance, voice || DEFAULT_ELEVENLABS_VOICE);
+              } else {
+                const { generateSingleSpeakerAudio, DEFAULT_TTS_VOICE } = await import("../integrations/expressive-tts");
+                ttsResult = await generateSingleSpeakerAudio(utterance, voice || DEFAULT_TTS_VOICE);
+              }
+              if (ttsResult.audioBase64) {
+                console.log(`[Routes][SAY] ✓ Audio generated, length: ${ttsResult.audioBase64.length}`);
+                res.write(`data: ${JSON.stringify({
+                    speech: {
+                      utterance: cleanUtterance,
+                      audioGenerated: true,
+                      audioBase64: ttsResult.audioBase64,
+                      mimeType: ttsResult.mimeType || "audio/mpeg",
+                      duration: ttsResult.duration,
+                    }
+                  })}\n\n`);
+              } else {
+                console.warn(`[Routes][SAY] TTS returned no audio: ${ttsResult.error}`);
+              }
+            } catch (ttsErr) {
+              console.error(`[Routes][SAY] TTS failed:`, ttsErr);
+            }
+          }
+          return cleanUtterance + "\n\n";
+        }
+
+        // Special handling for soundboard tool - send sound event to client
+        if (toolCall.type === "soundboard") {
+          const { sound, volume } = (toolResult.result ?? toolResult) as { sound?: string; volume?: number };
+          if (sound) {
+            console.log(`[Routes][SOUNDBOARD] Playing: ${sound} @ vol ${volume}`);
+            res.write(`data: ${JSON.stringify({ soundboard: { sound, volume } })}\n\n`);
+          }
+        }
+
+        // Special handling for open_url tool - send event to frontend to open URL
+        if (toolCall.type === "open_url") {
+          console.log(`[Routes][OPEN_URL] Sending open_url event`);
+          const openUrlResult = toolResult.result as { url?: string; success?: boolean };
+          if (openUrlResult?.url) {
+            res.write(`data: ${JSON.stringify({ openUrl: { url: openUrlResult.url } })}\n\n`);
+            console.log(`[Routes][OPEN_URL] ✓ Sent URL to open: ${openUrlResult.url}`);
+          } else {
+            console.log(`[Routes][OPEN_URL] ✗ No URL in result`);
+          }
+        }
+      };
+
+      // The chat's user agent (bound one, else the owner's default) supplies
+      // the persona, model and tool allowlist for this turn
+      const chatAgent = authStatus.isAuthenticated
+        ? await storage.getChatAgent(req.params.id)
+        : undefined;
+
+      // A panel chat is answered by several of the owner's agents in turn,
+      // each with its own persona, model and tools (shared/agent-panel.ts)
+      const panelAgents = authStatus.isAuthenticated && chatRecord?.agentPanel
+        ? await storage.getPanelAgents(chatRecord)
+        : [];
+      if (chatRecord?.agentPanel && panelAgents.length >= 2) {
+        toolDispatcher.setSseResponse(res);
+        let clientGone = false;
+        res.on("close", () => {
+          clientGone = true;
+        });
+
+        const defaultModel = req.body.model === "flash" ? "gemini-3-flash-preview" : undefined;
+        const llmUsageContext = { chatId: req.params.id, messageId: savedMessage.id };
+        const speakers = panelAgents.map((agent) => ({ id: agent.id, name: agent.name, displayName: agent.displayName }));
+        let parentId = savedMessage.id;
+
+        const exchange = await runPanelExchange({
+          panel: chatRecord.agentPanel,
+          agents: panelAgents,
+          userText: savedMessage.content,
+          transcript: [
+            ...previousMessages.map((msg) => ({
+              role: msg.role === "user" ? ("user" as const) : ("ai" as const),
+              content: msg.content.length > MAX_CONTENT_LENGTH
+                ? msg.content.slice(0, MAX_CONTENT_LENGTH) + "\n...[truncated for context]"
+                : msg.content,
+              agentId: msg.agentId,
+              agentName: (msg.metadata as { agent?: { displayName?: string } } | null)?.agent?.displayName,
+            })),
+            { role: "user", content: savedMessage.content },
+          ],
+          runTurn: async (agent, messages, { turn, promptIndex }) => {
+            res.write(`data: ${JSON.stringify({ agentTurn: { ...agentAttribution(agent), turn } })}\n\n`);
+
+            const composed = await promptComposer.compose({
+              textContent: savedMessage.content,
+              voiceTranscript: "",
+              attachments: savedAttachments,
+              history: chatMessages,
+              chatId: req.params.id,
+              agent,
+              retrieval: { userId: chatOwner.userId },
+            });
+            const system = `${applyVerbosity(composed.systemPrompt)}\n\n${panelInstructions(agent, speakers, chatRecord.agentPanel!)}`;
+            const declarations = filterToolsForAgent(getToolDeclarations(true), agent.allowedTools);
+            const target = llm.resolve("chat", { agent, defaultModel });
+            console.log(`[Routes] Panel turn ${turn + 1}: ${agent.name} on ${target.provider.name}/${target.model}`);
+
+            const result = await runAgenticTurn({
+              system,
+              messages: messages.map((message, index): LlmMessage => (
+                index === promptIndex ? { ...message, attachments: llmUserMessage.attachments } : message
+              )),
+              tools: toLlmTools(declarations),
+              stream: (request) => llm.stream(target, request, llmUsageContext),
+              emit: (event) => {
+                res.write(`data: ${JSON.stringify(event)}\n\n`);
+              },
+              executeTool: async (toolCall) => {
+                if (agent.allowedTools?.length && !declarations.some(tool => tool.name === toolCall.type)) {
+                  return {
+                    toolId: toolCall.id,
+                    type: toolCall.type,
+                    success: false,
+                    error: `${toolCall.type} is not on ${agent.displayName}'s tool allowlist`,
+                    permissionDenied: true,
+                  };
+                }
+                return toolDispatcher.executeToolCall(toolCall, savedMessage.id, req.params.id, agent.id);
+              },
+              afterTool,
+            });
+            return { content: stripAllVoiceTags(result.cleanContent), toolResults: result.toolResults };
+          },
+          saveTurn: async (agent, record) => {
+            const metadata: Record<string, unknown> = { agent: agentAttribution(agent) };
+            if (record.toolResults.length > 0) metadata.toolResults = record.toolResults;
+            if (record.agreed) metadata.agreed = true;
+            const saved = await storage.addMessage({
+              chatId: req.params.id,
+              parentId,
+              role: "ai",
+              agentId: agent.id,
+              content: record.content,
+              metadata,
+            });
+            parentId = saved.id;
+            res.write(`data: ${JSON.stringify({ agentMessage: saved })}\n\n`);
+            retrievalService.ingestMessage(saved, chatRecord).catch((error) => {
+              console.error(`[Retrieval] Failed to ingest AI message ${saved.id}:`, error);
+            });
+          },
+          moderate: async (prompt) => {
+            const response = await llm.generate(
+              llm.resolve("chat", { defaultModel }),
+              { messages: [{ role: "user", content: prompt }], json: true },
+              llmUsageContext
+            );
+            return response.text;
+          },
+          isCancelled: () => clientGone,
+        });
+
+        console.log(`[Routes] Panel exchange ended after ${exchange.turns.length} turns (${exchange.stopReason})`);
+        res.write(`data: ${JSON.stringify({
+          done: true,
+          panel: { turns: exchange.turns.length, stopReason: exchange.stopReason },
+        })}\n\n`);
+        res.end();
+        return;
+      }
+
+      const composedPrompt = await promptComposer.compose({
+        textContent: savedMessage.content,
+        voiceTranscript: "",
+        attachments: savedAttachments,
+        history: chatMessages,
+        chatId: req.params.id,
+        agent: chatAgent,
+        retrieval: { userId: chatOwner.userId },
+      });
+
+      const finalSystemPrompt = applyVerbosity(composedPrompt.systemPrompt);
+
+      // Replace composedPrompt.systemPrompt with our modified version
+      const modifiedPrompt = { ...composedPrompt, systemPrompt: finalSystemPrompt };
+
+      console.log(
+        `System prompt composed: ${composedPrompt.systemPrompt.length} chars, ${composedPrompt.attachments.length} attachments`,
+      );
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 4: Call the LLM with streaming and system instruction
+      // ─────────────────────────────────────────────────────────────────────
+
+      // Pick provider/model: the chat's agent can pin one, otherwise
+      // LLM_CHAT / LLM_PROVIDER, otherwise Gemini with the flash/pro toggle
+      // ("pro" = gemini-2.5-pro, "flash" = gemini-3-flash-preview)
+      const llmTarget = llm.resolve("chat", {
+        agent: chatAgent,
+        defaultModel: req.body.model === "flash" ? "gemini-3-flash-preview" : undefined,
+      });
+      const modelMode = llmTarget.model;
+      console.log(
+        `[Routes] Using model: ${llmTarget.provider.name}/${modelMode} (mode: ${req.body.model || "pro"}, from: ${llmTarget.source})`
+      );
+      
+      // Log the user message for debugging
+      const userMsgText = savedMessage.content;
+      console.log(`\\n${"=".repeat(60)}`);
+      console.log(`[LLM] USER MESSAGE:`);
+      console.log(`${"─".repeat(60)}`);
+      console.log(userMsgText.slice(0, 500) + (userMsgText.length > 500 ? "..." : ""));
+      console.log(`${"=".repeat(60)}\\n`);
+
+      // Select appropriate tool set based on authentication (authStatus already declared above),
+      // narrowed to the chat agent's allowlist
+      const toolDeclarations = filterToolsForAgent(
+        getToolDeclarations(authStatus.isAuthenticated),
+        chatAgent?.allowedTools
+      );
+      
+      console.log(
+        `[Routes] Auth Status: ${authStatus.isAuthenticated ? "AUTHENTICATED" : "GUEST"} - ` +
+        `Agent: ${chatAgent?.name ?? "default"} - Tools Available: ${toolDeclarations.length}`
+      );
+
+      // ═══════════════════════════════════════════════════════════════════════
+      // LOG INPUT: Capture everything sent TO the LLM
+      // ═══════════════════════════════════════════════════════════════════════
+      const { ioLogger } = await import("../services/io-logger");
+      const inputLogTimestamp = new Date().toISOString();
+      
+      // Calculate token estimates
+      const systemPromptTokens = Math.ceil(modifiedPrompt.systemPrompt.length / 4);
+      const userMessageTokens = Math.ceil(userMsgText.length / 4);
+      const historyTokens = Math.ceil(
+        chatMessages.reduce((sum, m) => sum + m.content.length, 0) / 4
+      );
+      const totalInputTokensEstimate = systemPromptTokens + userMessageTokens + historyTokens;
+
+      const inputLogFilename = ioLogger.logInput({
+        timestamp: inputLogTimestamp,
+        messageId: savedMessage.id,
+        chatId: req.params.id,
+        systemPrompt: modifiedPrompt.systemPrompt,
+        userMessage: userMsgText,
+        conversationHistory: chatMessages.map(m => ({
+          role: m.role,
+          content: m.content,
+        })),
+        attachments: reqAttachments.map((a: { type?: string; filename?: string; size?: number; mimeType?: string }) => ({
+          type: a.type || 'file',
+          filename: a.filename || 'unknown',
+          size: a.size || 0,
+          mimeType: a.mimeType,
+        })),
+        model: modelMode,
+        totalInputTokensEstimate,
+      });
+
+      console.log(`[IOLogger] Input logged to: ${inputLogFilename}`);
+
+      // Enable native function calling with appropriate tool set
+      // Authenticated users get full tools, guests get limited safe tools.
+      // Usage for each call is logged to llm_usage by the LLM service.
+      const llmTools = toLlmTools(toolDeclarations);
+      const llmUsageContext = { chatId: req.params.id, messageId: savedMessage.id };
+
+      // Set SSE response for real-time tool call events
+      toolDispatcher.setSseResponse(res);
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 5: Stream the response and run the agentic tool loop
+      // ─────────────────────────────────────────────────────────────────────
+      // With native function calling, the model returns tool call objects
+      // directly - no JSON parsing from text needed! The loop executes them,
+      // feeds results back and repeats until end_turn (see agentic-loop.ts).
+      const turn = await runAgenticTurn({
+        system: modifiedPrompt.systemPrompt,
+        messages: [...history, llmUserMessage],
+        tools: llmTools,
+        stream: (request) => llm.stream(llmTarget, request, llmUsageContext),
+        emit: (event) => {
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        },
+        executeTool: async (toolCall) => {
+          // The model only sees the agent's allowlisted tools, but may still name others
+          if (chatAgent?.allowedTools?.length && !toolDeclarations.some(tool => tool.name === toolCall.type)) {
+            return {
+              toolId: toolCall.id,
+              type: toolCall.type,
+              success: false,
+              error: `${toolCall.type} is not on ${chatAgent.displayName}'s tool allowlist`,
+              permissionDenied: true,
+            };
+          }
+          // Pass chatId for tool call logging
+          const toolResult = await toolDispatcher.executeToolCall(toolCall, savedMessage.id, req.params.id);
+          return {
+            toolId: toolResult.toolId,
+            type: toolResult.type,
+            success: toolResult.success,
+            result: toolResult.result,
+            error: toolResult.error,
+            validationErrors: toolResult.validationErrors,
+            permissionDenied: toolResult.permissionDenied,
+          };
+        },
+        afterTool,
+      });
+
+      const { fullResponse, toolResults, usage: usageMetadata } = turn;
+      const cleanContentForStorage = turn.cleanContent;
+      const parsedResponse = { toolCalls: turn.lastToolCalls };
+
+      // ─────────────────────────────────────────────────────────────────────
+      // STEP 6: Save AI response with clean content
+      // ─────────────────────────────────────────────────────────────────────
+
+      // Clean up the accumulated prose-only content
+      // Remove any residual tool_code blocks, empty code blocks, and cleanup
+      // Strip voice style tags (e.g. [style: cheerful]) — for TTS only, not display
+      let finalContent = stripAllVoiceTags(cleanContentForStorage)
+        // Remove code blocks containing tool call arrays (identified by known tool types)
+
+      // Prepare Gemini content for storage (keep original for multi-turn context)
+      // Always use the accumulated fullResponse to ensure complete content is stored
+      const geminiContentToStore = {
+        role: "model",
+        parts: [{ text: fullResponse }],
+      };
+
+      // Include tool results and token usage in message metadata
+      const tokenUsage = usageMetadata ? {
+        promptTokens: usageMetadata.promptTokenCount || 0,
+        completionTokens: usageMetadata.candidatesTokenCount || 0,
+        totalTokens: usageMetadata.totalTokenCount || 0,
+      } : undefined;
+      const messageMetadata: Record<string, unknown> = {};
+      if (toolResults.length > 0) messageMetadata.toolResults = toolResults;
+      if (tokenUsage) messageMetadata.tokenUsage = tokenUsage;
+      if (composedPrompt.metadata.citations.length > 0) {
+        messageMetadata.citations = composedPrompt.metadata.citations;
+      }
+
+      const endTime = Date.now();
+
+      const savedAiMessage = await storage.addMessage({
+        chatId: req.params.id,
+        parentId: savedMessage.id,
+        role: "ai",
+        content: finalContent,
+        geminiContent: geminiContentToStore,
+        metadata: Object.keys(messageMetadata).length > 0 ? messageMetadata : undefined,
+      });
+
+      // Index AI response for retrieval (async, don't block)
+      retrievalService.ingestMessage(savedAiMessage, chatRecord).catch((error) => {
+        console.error(
+          `[Retrieval] Failed to ingest AI message ${savedAiMessage.id}:`,
+          error,
+        );
+      });
+
+      // Log to LLM debug buffer for debugging
+      try {
+        const { llmDebugBuffer } = await import("../services/llm-debug-buffer");
+        const { promptComposer } = await import("../services/prompt-composer");
+        const { ioLogger } = await import("../services/io-logger");
+        
+        // Get system prompt breakdown for detailed token analysis
+        const breakdown = promptComposer.getSystemPromptBreakdown();
+        
+        // Log output to file
+        const outputLogFilename = ioLogger.logOutput({
+          timestamp: new Date().toISOString(),
+          messageId: savedMessage.id,
+          chatId: req.params.id,
+          rawResponse: fullResponse,
+          cleanContent: finalContent,
+          toolCalls: (parsedResponse?.toolCalls || []).map(tc => ({
+            type: tc.type,
+            parameters: tc.parameters,
+          })),
+          toolResults: toolResults.map(tr => ({
+            type: tr.type,
+            success: tr.success,
+            result: tr.result,
+            error: tr.error,
+          })),
+          model: modelMode,
+          durationMs: endTime - (startTime || endTime),
+          totalOutputTokensEstimate: Math.ceil(fullResponse.length / 4),
+        });
+        
+        console.log(`[IOLogger] Output logged to: ${outputLogFilename}`);
+        
+        // Add to debug buffer with enhanced data
+        await llmDebugBuffer.add({
+          chatId: req.params.id,
+          messageId: savedMessage.id,
+          userId: userId,
+          systemPrompt: modifiedPrompt.systemPrompt,
+          systemPromptBreakdown: {
+            components: breakdown.components.map(c => ({
+              name: c.name,
+              charCount: c.charCount,
+              lineCount: c.lineCount,
+              tokenEstimate: Math.ceil(c.charCount / 4),
+            })),
+            totalChars: breakdown.totalChars,
+            totalLines: breakdown.totalLines,
+            estimatedTokens: breakdown.estimatedTokens,
+          },
+          userMessage: composedPrompt.userMessage,
+          conversationHistory: chatMessages.map((m) => ({
+            role: m.role,
+            content: m.content,
+          })),
+          attachments: composedPrompt.attachments.map((a) => ({
+            type: a.type,
+            filename: a.filename,
+            mimeType: a.mimeType,
+          })),
+          rawResponse: fullResponse,
+          parsedToolCalls: parsedResponse?.toolCalls || [],
+          cleanContent: finalContent,
+          toolResults,
+          model: modelMode,
+          durationMs: endTime - (startTime || endTime),
+          tokenEstimate: {
+            inputTokens: totalInputTokensEstimate,
+            outputTokens: Math.ceil(fullResponse.length / 4),
+          },
+          ioLogFiles: {
+            inputLog: inputLogFilename,
+            outputLog: outputLogFilename,
+          },
+        });
+        
+        // Cleanup old IO logs (keep last 50)
+        ioLogger.cleanup(50);
+      } catch (logError) {
+        console.error("Failed to log LLM interaction:", logError);
+      }
+
+      // Token usage was written to llm_usage per LLM call by the LLM service
+      console.log(
+        `[Token Usage] Chat ${req.params.id}: ${usageMetadata.promptTokenCount} in, ${usageMetadata.candidatesTokenCount} out, ${usageMetadata.totalTokenCount} total`,
+      );
+
+      // ─────────────────────────────────────────────────────────────────────
+      // FALLBACK TTS: Only if zero streaming sentences AND zero say-tool calls
+      // ─────────────────────────────────────────────────────────────────────
+      const sayToolCalled = toolResults.some(r => r.type === "say" && r.success);
+      if (useVoice && !sayToolCalled && finalContent && finalContent.trim().length > 0) {
+        console.log(`[Routes][TTS-Fallback] No streaming TTS or say tool, generating single fallback`);
+        try {
+          const provider = process.env.TTS_PROVIDER || "google";
+          let ttsResult;
+          const ttsText = finalContent.length > 500 
+            ? finalContent.substring(0, 500) + "..."
+            : finalContent;
+
+          if (provider === "elevenlabs" || provider === "11labs") {
+            const { generateSingleSpeakerAudio, DEFAULT_ELEVENLABS_VOICE } = await import("../integrations/elevenlabs-tts");
+            ttsResult = await generateSingleSpeakerAudio(ttsText, DEFAULT_ELEVENLABS_VOICE);
+          } else {
+            const { generateSingleSpeakerAudio, DEFAULT_TTS_VOICE } = await import("../integrations/expressive-tts");
+            ttsResult = await generateSingleSpeakerAudio(ttsText, DEFAULT_TTS_VOICE);
+          }
+
+          if (ttsResult.audioBase64) {
+            console.log(`[Routes][TTS-Fallback] ✓ Generated fallback audio via ${provider}, length: ${ttsResult.audioBase64.length}`);
+            res.write(
+              `data: ${JSON.stringify({
+                speech: {
+                  utterance: ttsText,
+                  audioGenerated: true,
+                  audioBase64: ttsResult.audioBase64,
+                  mimeType: ttsResult.mimeType || "audio/mpeg",
+                  duration: ttsResult.duration,
+                  fallback: true,
+                },
+              })}
+
+`,
+            );
+          }
+        } catch (ttsError) {
+          console.error(`[Routes][TTS-Fallback] Failed:`, ttsError);
+        }
+      } else if (useVoice) {
+        console.log(`[Routes][TTS] Speech already delivered via say tool`);
+      }
+
+      // Send completion event with tool results summary and close the stream
+      res.write(
+        `data: ${JSON.stringify({
+          done: true,
+          toolResults: toolResults.length > 0 ? toolResults : undefined,
+          savedMessage: {
+            id: savedAiMessage.id,
+            role: savedAiMessage.role,
+            content: savedAiMessage.content,
+            createdAt: savedAiMessage.createdAt,
+            metadata: savedAiMessage.metadata,
+          },
+        })}
+
+`,
+      );
+      res.end();
+    } catch (error) {
+      // Log error for debugging
+      console.error("Error in message streaming:", error);
+
+      // Check if headers were already sent (streaming started)
+      if (res.headersSent) {
+        // Send error via SSE and end stream gracefully
+        try {
+          res.write(
+            `data: ${JSON.stringify({ error: "An error occurred while processing your message" })}
+
+`,
+          );
+          res.end();
+        } catch (e) {
+          // Stream may already be closed, just log and continue
+          console.error("Failed to send error via stream:", e);
+        }
+      } else {
+        res.status(500).json({ error: "Failed to process message" });
+      }
+    }
+  };
+
+  router.post("/:id/messages", (req, res) => handleChatTurn(req, res, "send"));
+  router.post("/:id/messages/:messageId/edit", (req, res) => handleChatTurn(req, res, "edit"));
+  router.post("/:id/messages/:messageId/regenerate", (req, res) => handleChatTurn(req, res, "regenerate"));
+
+  return router;
+}
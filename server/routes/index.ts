@@ -38,6 +38,9 @@ import userAgentsRouter from "./user-agents";
 import hardwareRouter from "./hardware";
 import todoRouter from "./todo";
 import promptComposerRouter from "./prompt-composer";
+import toolApprovalsRouter from "./tool-approvals";
+import retrievalRouter from "./retrieval";
+import searchRouter from "./search";
 import { errorHandler } from "./middleware";
 
 export function createApiRouter(): Router {
@@ -82,6 +85,9 @@ export function createApiRouter(): Router {
   router.use("/hardware", hardwareRouter);
   router.use("/todos", todoRouter);
   router.use("/prompt-composer", promptComposerRouter);
+  router.use("/tool-approvals", toolApprovalsRouter);
+  router.use("/retrieval", retrievalRouter);
+  router.use("/search", searchRouter);
 
   router.use(errorHandler);
 
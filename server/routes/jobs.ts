@@ -11,6 +11,7 @@ import { Router } from "express";
 import { jobDispatcher } from "../services/job-dispatcher";
 import { jobQueue } from "../services/job-queue";
 import { dependencyResolver } from "../services/dependency-resolver";
+import { storage } from "../storage";
 import { getDb } from "../db";
 import { agentJobs, jobResults, agentWorkers } from "@shared/schema";
 import { eq, desc, asc, inArray, sql } from "drizzle-orm";
@@ -26,6 +27,13 @@ const jobSubmissionSchema = z.object({
     toolName: z.string().optional(),
     toolArgs: z.record(z.unknown()).optional(),
     systemPrompt: z.string().optional(),
+    json: z.boolean().optional(),
+    tools: z.array(z.string()).optional(),
+    budget: z.object({
+      maxToolCalls: z.number().int().min(1).max(200).optional(),
+      maxTokens: z.number().int().min(1000).optional(),
+      wallClockMs: z.number().int().min(1000).max(3600000).optional(),
+    }).optional(),
     context: z.record(z.unknown()).optional(),
   }),
   priority: z.number().min(0).max(10).optional(),
@@ -128,6 +136,17 @@ router.get("/stats", async (req, res) => {
   }
 });
 
+router.get("/dead-letter", async (req, res) => {
+  try {
+    const { limit = "100" } = req.query;
+    const jobs = await jobQueue.getDeadLetterJobs(parseInt(limit as string));
+    res.json(jobs);
+  } catch (error) {
+    console.error("[Jobs API] Dead letter list error:", error);
+    res.status(500).json({ error: "Failed to list dead-lettered jobs" });
+  }
+});
+
 router.get("/:id", async (req, res) => {
   try {
     const { id } = req.params;
@@ -160,6 +179,16 @@ router.get("/:id/result", async (req, res) => {
   }
 });
 
+router.get("/:id/tool-calls", async (req, res) => {
+  try {
+    const logs = await storage.getToolCallLogsByJobId(req.params.id);
+    res.json(logs);
+  } catch (error) {
+    console.error("[Jobs API] Get tool calls error:", error);
+    res.status(500).json({ error: "Failed to get tool calls" });
+  }
+});
+
 router.get("/:id/dependencies", async (req, res) => {
   try {
     const { id } = req.params;
@@ -189,6 +218,22 @@ router.post("/:id/cancel", async (req, res) => {
   }
 });
 
+router.post("/:id/requeue", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const job = await jobQueue.requeueJob(id);
+
+    if (!job) {
+      return res.status(400).json({ error: "Only dead-lettered or failed jobs can be requeued" });
+    }
+
+    res.json({ success: true, job });
+  } catch (error) {
+    console.error("[Jobs API] Requeue error:", error);
+    res.status(500).json({ error: "Failed to requeue job" });
+  }
+});
+
 router.get("/workers/list", async (req, res) => {
   try {
     const workers = await getDb().select()
@@ -7,19 +7,45 @@
  * API endpoints for the workflow orchestration system:
  * - Executor control (start/stop/pause)
  * - Schedule management (CRUD + cron)
- * - Trigger management (CRUD + webhooks)
- * - Workflow management
+ * - Trigger management (CRUD, per-type source config, signed webhooks with
+ *   a delivery log and replay)
+ * - Workflow management (DSL definitions, dry-run validation, runs)
+ * - Approvals (decisions on workflow approval steps, with their audit trail)
  */
 
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
 import { workflowExecutor } from "../services/workflow-executor";
+import { workflowEngine, WorkflowDefinitionError } from "../services/workflow-engine";
 import { cronScheduler } from "../services/cron-scheduler";
 import { triggerService } from "../services/trigger-service";
+import { approvalService } from "../services/approval-service";
+import { queueService } from "../services/queue";
+import { geminiFunctionDeclarations, toLlmTools } from "../gemini-tools";
+import { CONCURRENCY_POLICIES, MAX_TRACKED_OCCURRENCES, MISFIRE_POLICIES } from "../services/schedule-policy";
+import { parseTriggerConfig } from "../services/trigger-sources";
 import { insertScheduleSchema, insertTriggerSchema, insertWorkflowSchema } from "@shared/schema";
+import { validateWorkflowDefinition, type WorkflowIssue } from "@shared/workflow-dsl";
+import { APPROVAL_ACTIONS, APPROVAL_STATUSES, type ApprovalStatus } from "@shared/approvals";
+import { z } from "zod";
 
 const router = Router();
 
+const schedulePolicySchema = z.object({
+  misfirePolicy: z.enum(MISFIRE_POLICIES),
+  misfireGraceSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  maxCatchUp: z.number().int().min(0).max(MAX_TRACKED_OCCURRENCES),
+  jitterSeconds: z.number().int().min(0).max(60 * 60),
+  concurrencyPolicy: z.enum(CONCURRENCY_POLICIES),
+}).partial();
+
+const approvalDecisionSchema = z.object({
+  action: z.enum(APPROVAL_ACTIONS),
+  /** edit: new values for requested parameters */
+  parameters: z.record(z.unknown()).optional(),
+  comment: z.string().max(2000).optional(),
+});
+
 // ============================================================================
 // EXECUTOR CONTROL
 // ============================================================================
@@ -36,6 +62,7 @@ router.get("/executor/status", async (req: Request, res: Response) => {
 router.post("/executor/start", async (req: Request, res: Response) => {
   try {
     await workflowExecutor.start();
+    await workflowEngine.start();
     await cronScheduler.start();
     await triggerService.start();
     const status = await workflowExecutor.getStatus();
@@ -48,6 +75,7 @@ router.post("/executor/start", async (req: Request, res: Response) => {
 router.post("/executor/stop", async (req: Request, res: Response) => {
   try {
     await workflowExecutor.stop();
+    await workflowEngine.stop();
     await cronScheduler.stop();
     await triggerService.stop();
     const status = await workflowExecutor.getStatus();
@@ -119,13 +147,62 @@ router.post("/tasks/:id/prioritize", async (req: Request, res: Response) => {
 
 router.get("/tasks/waiting", async (req: Request, res: Response) => {
   try {
-    const tasks = await storage.getTasksWaitingForInput();
-    res.json(tasks);
+    const items = await queueService.list({ status: "waiting_input" });
+    res.json(items);
   } catch (error) {
     res.status(500).json({ error: "Failed to get waiting tasks" });
   }
 });
 
+// ============================================================================
+// APPROVALS
+// ============================================================================
+
+router.get("/approvals", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(APPROVAL_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ error: `Unknown status: ${status}` });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 500);
+    const items = await approvalService.list({ status: status as ApprovalStatus | undefined, limit });
+    res.json(items);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get approvals" });
+  }
+});
+
+router.get("/approvals/:id", async (req: Request, res: Response) => {
+  try {
+    const approval = await approvalService.get(req.params.id);
+    if (!approval) {
+      return res.status(404).json({ error: "Approval not found" });
+    }
+    res.json(approval);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get approval" });
+  }
+});
+
+// Approve, reject, or approve with edited parameters; the operator is recorded
+router.post("/approvals/:id/decide", async (req: Request, res: Response) => {
+  try {
+    const parsed = approvalDecisionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid decision" });
+    }
+    
+    const user = req.user as { id?: string; email?: string } | undefined;
+    const result = await approvalService.decide(req.params.id, parsed.data, user?.email ?? user?.id ?? "operator");
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json(result.approval);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to decide approval" });
+  }
+});
+
 // ============================================================================
 // SCHEDULES
 // ============================================================================
@@ -155,14 +232,25 @@ router.get("/schedules/:id", async (req: Request, res: Response) => {
 
 router.post("/schedules", async (req: Request, res: Response) => {
   try {
+    const policies = schedulePolicySchema.safeParse(req.body);
+    if (!policies.success) {
+      return res.status(400).json({ error: policies.error.errors[0]?.message ?? "Invalid schedule policy" });
+    }
+    
     const validation = cronScheduler.isValidCronExpression(req.body.cronExpression);
     if (!validation.valid) {
       return res.status(400).json({ error: validation.error });
     }
     
-    const nextRunAt = cronScheduler.getNextRunTime(req.body.cronExpression);
+    const timezone = req.body.timezone || "UTC";
+    if (!cronScheduler.isValidTimezone(timezone)) {
+      return res.status(400).json({ error: `Unknown time zone: ${timezone}` });
+    }
+    
+    const nextRunAt = cronScheduler.getNextRunTime(req.body.cronExpression, timezone);
     const schedule = await storage.createSchedule({
       ...req.body,
+      timezone,
       nextRunAt
     });
     res.status(201).json(schedule);
@@ -175,12 +263,27 @@ router.put("/schedules/:id", async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
-    if (req.body.cronExpression) {
-      const validation = cronScheduler.isValidCronExpression(req.body.cronExpression);
+    const policies = schedulePolicySchema.safeParse(req.body);
+    if (!policies.success) {
+      return res.status(400).json({ error: policies.error.errors[0]?.message ?? "Invalid schedule policy" });
+    }
+    
+    if (req.body.cronExpression || req.body.timezone) {
+      const existing = await (storage as any).getScheduleById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+      
+      const cronExpression = req.body.cronExpression ?? existing.cronExpression;
+      const timezone = req.body.timezone ?? existing.timezone;
+      const validation = cronScheduler.isValidCronExpression(cronExpression);
       if (!validation.valid) {
         return res.status(400).json({ error: validation.error });
       }
-      req.body.nextRunAt = cronScheduler.getNextRunTime(req.body.cronExpression);
+      if (!cronScheduler.isValidTimezone(timezone)) {
+        return res.status(400).json({ error: `Unknown time zone: ${timezone}` });
+      }
+      req.body.nextRunAt = cronScheduler.getNextRunTime(cronExpression, timezone);
     }
     
     const schedule = await storage.updateSchedule(id, req.body);
@@ -206,28 +309,32 @@ router.post("/schedules/:id/run", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Schedule not found" });
     }
     
-    // Manually trigger the schedule by creating its task
-    const template = schedule.taskTemplate as {
-      title: string;
-      description?: string;
-      taskType: string;
-      priority?: number;
-    };
+    // Manually trigger the schedule; the concurrency policy still applies
+    const run = await cronScheduler.runNow(schedule);
+    if (run.status === "failed") {
+      return res.status(500).json({ error: run.reason ?? "Failed to run schedule", run });
+    }
     
-    const task = await storage.createQueuedTask({
-      title: template.title,
-      description: template.description || null,
-      taskType: template.taskType || "action",
-      priority: template.priority || 5,
-      input: { manualRun: true, scheduleName: schedule.name }
+    res.json({
+      message: run.status === "fired" ? "Schedule run initiated" : `Schedule run ${run.status}: ${run.reason}`,
+      taskId: run.jobId,
+      run
     });
-    
-    res.json({ message: "Schedule run initiated", taskId: task.id });
   } catch (error) {
     res.status(500).json({ error: "Failed to run schedule" });
   }
 });
 
+router.get("/schedules/:id/runs", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+    const runs = await storage.getScheduleRuns(req.params.id, limit);
+    res.json(runs);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get schedule runs" });
+  }
+});
+
 router.get("/schedules/cron/describe", async (req: Request, res: Response) => {
   try {
     const expression = req.query.expression as string;
@@ -240,10 +347,16 @@ router.get("/schedules/cron/describe", async (req: Request, res: Response) => {
       return res.status(400).json({ error: validation.error });
     }
     
+    const timezone = (req.query.timezone as string) || "UTC";
+    if (!cronScheduler.isValidTimezone(timezone)) {
+      return res.status(400).json({ error: `Unknown time zone: ${timezone}` });
+    }
+    
+    const count = Math.min(Math.max(parseInt(req.query.count as string) || 5, 1), 50);
     const description = cronScheduler.describeCronExpression(expression);
-    const nextRun = cronScheduler.getNextRunTime(expression);
+    const nextRuns = cronScheduler.getNextRunTimes(expression, timezone, count);
     
-    res.json({ expression, description, nextRun });
+    res.json({ expression, timezone, description, nextRun: nextRuns[0] ?? null, nextRuns });
   } catch (error) {
     res.status(500).json({ error: "Failed to describe cron expression" });
   }
@@ -279,7 +392,12 @@ router.get("/triggers/:id", async (req: Request, res: Response) => {
 
 router.post("/triggers", async (req: Request, res: Response) => {
   try {
-    const trigger = await storage.createTrigger(req.body);
+    const config = parseTriggerConfig(req.body.triggerType, req.body.config);
+    if (!config.success) {
+      return res.status(400).json({ error: config.error });
+    }
+    
+    const trigger = await storage.createTrigger({ ...req.body, config: config.config });
     res.status(201).json(trigger);
   } catch (error) {
     res.status(500).json({ error: "Failed to create trigger" });
@@ -288,7 +406,26 @@ router.post("/triggers", async (req: Request, res: Response) => {
 
 router.put("/triggers/:id", async (req: Request, res: Response) => {
   try {
+    const sourceChanged = req.body.config !== undefined || req.body.triggerType !== undefined;
+    if (sourceChanged) {
+      const existing = await storage.getTriggerById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Trigger not found" });
+      }
+      
+      const config = parseTriggerConfig(req.body.triggerType ?? existing.triggerType, req.body.config ?? existing.config);
+      if (!config.success) {
+        return res.status(400).json({ error: config.error });
+      }
+      req.body.config = config.config;
+    }
+    
     const trigger = await storage.updateTrigger(req.params.id, req.body);
+    if (trigger && sourceChanged) {
+      // A different source starts from a fresh baseline
+      await storage.updateTriggerState(trigger.id, null);
+      trigger.state = null;
+    }
     res.json(trigger);
   } catch (error) {
     res.status(500).json({ error: "Failed to update trigger" });
@@ -316,19 +453,45 @@ router.post("/triggers/:id/fire", async (req: Request, res: Response) => {
   }
 });
 
+router.get("/triggers/:id/deliveries", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+    const deliveries = await storage.getWebhookDeliveries(req.params.id, limit);
+    res.json(deliveries);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get webhook deliveries" });
+  }
+});
+
+router.post("/triggers/:id/deliveries/:deliveryId/replay", async (req: Request, res: Response) => {
+  try {
+    const result = await triggerService.replayWebhookDelivery(req.params.id, req.params.deliveryId);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ message: "Delivery replayed", taskId: result.taskId, deliveryId: result.deliveryId });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to replay delivery" });
+  }
+});
+
 // Webhook endpoint for external triggers
 router.post("/webhook/:triggerId", async (req: Request, res: Response) => {
   try {
-    const { triggerId } = req.params;
-    const secret = req.headers["x-webhook-secret"] as string | undefined;
-    
-    const result = await triggerService.handleWebhook(triggerId, req.body, secret);
+    const result = await triggerService.handleWebhook(req.params.triggerId, {
+      headers: req.headers,
+      body: req.body,
+      rawBody: (req as Request & { rawBody?: Buffer }).rawBody,
+    });
     
+    if (result.retryAfterSeconds) {
+      res.setHeader("Retry-After", String(result.retryAfterSeconds));
+    }
     if (!result.success) {
-      return res.status(400).json({ error: result.error });
+      return res.status(result.status).json({ error: result.error, deliveryId: result.deliveryId });
     }
     
-    res.json({ message: "Webhook processed", taskId: result.taskId });
+    res.json({ message: "Webhook processed", taskId: result.taskId, deliveryId: result.deliveryId });
   } catch (error) {
     res.status(500).json({ error: "Failed to process webhook" });
   }
@@ -338,6 +501,15 @@ router.post("/webhook/:triggerId", async (req: Request, res: Response) => {
 // WORKFLOWS
 // ============================================================================
 
+// Tools a workflow tool step can call, for the workflow editor
+router.get("/tools", async (req: Request, res: Response) => {
+  try {
+    res.json(toLlmTools(geminiFunctionDeclarations));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get tools" });
+  }
+});
+
 router.get("/workflows", async (req: Request, res: Response) => {
   try {
     const enabled = req.query.enabled === "true" ? true : 
@@ -361,9 +533,51 @@ router.get("/workflows/:id", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * A DSL definition in a create/update body (YAML text or an object) is
+ * validated and stored parsed, with its steps mirrored into `steps`
+ */
+function withParsedDefinition(body: Record<string, unknown>): { body: Record<string, unknown> } | { issues: WorkflowIssue[] } {
+  if (body.definition === undefined || body.definition === null) {
+    return { body };
+  }
+
+  const validation = validateWorkflowDefinition(body.definition);
+  if (!validation.valid || !validation.definition) {
+    return { issues: validation.errors };
+  }
+
+  return {
+    body: {
+      ...body,
+      name: body.name ?? validation.definition.name,
+      description: body.description ?? validation.definition.description,
+      definition: validation.definition,
+      steps: validation.definition.steps,
+    },
+  };
+}
+
+// Dry run: check a definition (and optionally a run's inputs) without saving or running it
+router.post("/workflows/validate", async (req: Request, res: Response) => {
+  try {
+    const inputs = req.body.inputs;
+    if (inputs !== undefined && (typeof inputs !== "object" || inputs === null || Array.isArray(inputs))) {
+      return res.status(400).json({ error: "inputs must be an object" });
+    }
+    res.json(validateWorkflowDefinition(req.body.definition, { inputs }));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to validate workflow" });
+  }
+});
+
 router.post("/workflows", async (req: Request, res: Response) => {
   try {
-    const workflow = await storage.createWorkflow(req.body);
+    const parsed = withParsedDefinition(req.body);
+    if ("issues" in parsed) {
+      return res.status(400).json({ error: "Invalid workflow definition", issues: parsed.issues });
+    }
+    const workflow = await storage.createWorkflow(parsed.body as any);
     res.status(201).json(workflow);
   } catch (error) {
     res.status(500).json({ error: "Failed to create workflow" });
@@ -372,7 +586,11 @@ router.post("/workflows", async (req: Request, res: Response) => {
 
 router.put("/workflows/:id", async (req: Request, res: Response) => {
   try {
-    const workflow = await (storage as any).updateWorkflow(req.params.id, req.body);
+    const parsed = withParsedDefinition(req.body);
+    if ("issues" in parsed) {
+      return res.status(400).json({ error: "Invalid workflow definition", issues: parsed.issues });
+    }
+    const workflow = await (storage as any).updateWorkflow(req.params.id, parsed.body);
     res.json(workflow);
   } catch (error) {
     res.status(500).json({ error: "Failed to update workflow" });
@@ -396,6 +614,12 @@ router.post("/workflows/:id/run", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Workflow not found" });
     }
     
+    if (workflow.definition) {
+      const job = await workflowEngine.startRun(workflow, { inputs: req.body.inputs ?? req.body.input });
+      const runId = (job.payload as { context?: { workflowRunId?: string } }).context?.workflowRunId;
+      return res.json({ message: "Workflow started", runId, jobId: job.id });
+    }
+    
     const steps = workflow.steps as Array<{
       title: string;
       description?: string;
@@ -403,23 +627,74 @@ router.post("/workflows/:id/run", async (req: Request, res: Response) => {
       priority?: number;
     }>;
     
-    const tasks = await storage.createQueuedTasks(
+    const job = await workflowExecutor.submitWorkflow(
+      workflow.name,
       steps.map((step, idx) => ({
         title: step.title,
-        description: step.description || null,
+        description: step.description,
         taskType: step.taskType || "action",
         priority: step.priority ?? (steps.length - idx),
-        input: req.body.input || null,
+        input: req.body.input || undefined,
         workflowId: workflow.id
-      }))
+      })),
+      "sequential"
     );
     
-    res.json({ message: "Workflow started", taskCount: tasks.length, tasks });
+    res.json({ message: "Workflow started", taskCount: steps.length, jobId: job.id });
   } catch (error) {
+    if (error instanceof WorkflowDefinitionError) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
     res.status(500).json({ error: "Failed to run workflow" });
   }
 });
 
+router.get("/workflows/:id/runs", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 200);
+    const runs = await workflowEngine.getRuns(req.params.id, limit);
+    res.json(runs);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get workflow runs" });
+  }
+});
+
+router.get("/workflow-runs/:runId", async (req: Request, res: Response) => {
+  try {
+    const run = await workflowEngine.getRun(req.params.runId);
+    if (!run) {
+      return res.status(404).json({ error: "Workflow run not found" });
+    }
+    res.json({ ...run, jobs: await workflowEngine.getRunJobs(run) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get workflow run" });
+  }
+});
+
+router.post("/workflow-runs/:runId/cancel", async (req: Request, res: Response) => {
+  try {
+    const cancelled = await workflowEngine.cancelRun(req.params.runId);
+    if (!cancelled) {
+      return res.status(409).json({ error: "Workflow run is not running" });
+    }
+    res.json({ message: "Workflow run cancelled" });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to cancel workflow run" });
+  }
+});
+
+router.post("/workflow-runs/:runId/retry", async (req: Request, res: Response) => {
+  try {
+    const retried = await workflowEngine.retryRun(req.params.runId);
+    if (!retried) {
+      return res.status(409).json({ error: "Only failed or cancelled runs can be retried" });
+    }
+    res.json({ message: "Workflow run restarted" });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to retry workflow run" });
+  }
+});
+
 export default router;
 
 
@@ -10,10 +10,12 @@
  * - Managing agents
  * - Monitoring session status
  * - Accessing logs and debugging information
+ * - Inspecting persisted session state and its history
  */
 
 import { Router, Request, Response } from "express";
 import { orchestrator } from "../services/orchestrator";
+import { stateManager } from "../services/state-manager";
 import { z } from "zod";
 
 const router = Router();
@@ -55,6 +57,12 @@ const updateContextSchema = z.object({
   updates: z.record(z.unknown()),
 });
 
+const stateSessionsQuerySchema = z.object({
+  kind: z.string().optional(),
+  status: z.enum(["active", "completed", "failed", "cancelled"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
 // =============================================================================
 // ORCHESTRATION ENDPOINTS
 // =============================================================================
@@ -144,7 +152,7 @@ router.patch("/sessions/:sessionId/context", async (req: Request, res: Response)
       });
     }
 
-    orchestrator.updateContext(sessionId, validation.data.updates);
+    await orchestrator.updateContext(sessionId, validation.data.updates);
 
     res.json({ success: true, message: "Context updated" });
   } catch (error) {
@@ -160,7 +168,7 @@ router.patch("/sessions/:sessionId/context", async (req: Request, res: Response)
 router.delete("/sessions/:sessionId", async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    orchestrator.cleanupSession(sessionId);
+    await orchestrator.cleanupSession(sessionId);
 
     res.json({ success: true, message: "Session cleaned up" });
   } catch (error) {
@@ -274,6 +282,87 @@ router.post("/initialize", async (req: Request, res: Response) => {
   }
 });
 
+// =============================================================================
+// STATE INSPECTOR ENDPOINTS
+// =============================================================================
+
+/**
+ * List persisted state sessions
+ * GET /api/orchestrator/state/sessions?kind=orchestration&status=active
+ */
+router.get("/state/sessions", async (req: Request, res: Response) => {
+  try {
+    const validation = stateSessionsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: "Invalid query",
+        details: validation.error.errors,
+      });
+    }
+
+    const sessions = await stateManager.listSessions(validation.data);
+    res.json({ sessions, count: sessions.length });
+  } catch (error) {
+    console.error("[Orchestrator API] List state sessions error:", error);
+    res.status(500).json({ error: "Failed to list state sessions" });
+  }
+});
+
+/**
+ * Get a session's entries, locks and transaction journal
+ * GET /api/orchestrator/state/sessions/:sessionId
+ */
+router.get("/state/sessions/:sessionId", async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await stateManager.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({
+      ...session,
+      entries: Array.from(session.entries.values()),
+      locks: await stateManager.getLocks(sessionId),
+      transactions: await stateManager.getTransactions(sessionId),
+    });
+  } catch (error) {
+    console.error("[Orchestrator API] Get state session error:", error);
+    res.status(500).json({ error: "Failed to get state session" });
+  }
+});
+
+/**
+ * Get the history of a session's state, newest first
+ * GET /api/orchestrator/state/sessions/:sessionId/history
+ */
+router.get("/state/sessions/:sessionId/history", async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 200, 1000);
+    const history = await stateManager.getHistory(sessionId, limit);
+
+    res.json({ sessionId, history });
+  } catch (error) {
+    console.error("[Orchestrator API] Get state history error:", error);
+    res.status(500).json({ error: "Failed to get state history" });
+  }
+});
+
+/**
+ * Get state manager statistics
+ * GET /api/orchestrator/state/stats
+ */
+router.get("/state/stats", async (req: Request, res: Response) => {
+  try {
+    res.json(await stateManager.getStatistics());
+  } catch (error) {
+    console.error("[Orchestrator API] Get state stats error:", error);
+    res.status(500).json({ error: "Failed to get state statistics" });
+  }
+});
+
 // =============================================================================
 // DEBUGGING & MONITORING ENDPOINTS
 // =============================================================================
@@ -1,206 +1,149 @@
-
 import { Router } from "express";
-import { asyncHandler, badRequest } from "./middleware";
-import { storage } from "../storage";
-import { insertQueuedTaskSchema, TaskStatuses } from "@shared/schema";
-
+import { z } from "zod";
+import { asyncHandler, badRequest, notFound } from "./middleware";
+import { queueService } from "../services/queue";
+import { MAX_QUEUE_PRIORITY, QUEUE_BACKENDS, QUEUE_STATUSES } from "@shared/queue";
+
+/**
+ * Unified queue API: items from every queue backend (agent_jobs, file
+ * queues) addressed by ref, "<backend>:<id>". Refs containing "/" must be
+ * URL-encoded in paths.
+ */
 const router = Router();
 
+const listQuerySchema = z.object({
+  status: z.enum(QUEUE_STATUSES).optional(),
+  backend: z.enum(QUEUE_BACKENDS).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+const enqueueSchema = z.object({
+  backend: z.enum(QUEUE_BACKENDS).default("sqlite"),
+  title: z.string().min(1).max(500),
+  description: z.string().max(20000).optional(),
+  kind: z.string().min(1).max(100),
+  input: z.record(z.unknown()).optional(),
+  priority: z.number().int().min(0).max(MAX_QUEUE_PRIORITY).optional(),
+  queue: z.string().regex(/^[\w-]+$/, "Queue names may only contain letters, digits, - and _").optional(),
+  dependencies: z.array(z.string()).optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+}).refine(item => item.backend !== "files" || !!item.queue, {
+  message: "File queue items need a queue (worker) name",
+  path: ["queue"],
+});
+
+async function requireItem(ref: string) {
+  const item = await queueService.get(ref);
+  if (!item) {
+    throw notFound("Queue item not found");
+  }
+  return item;
+}
+
 router.get(
   "/",
   asyncHandler(async (req, res) => {
-    const { status, chatId, limit } = req.query;
-    const tasks = await storage.getQueuedTasks(
-      limit ? parseInt(limit as string, 10) : undefined
-    );
-    res.json(tasks);
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw badRequest(`Invalid queue filter: ${parsed.error.message}`);
+    }
+    res.json(await queueService.list({ limit: 200, ...parsed.data }));
   })
 );
 
 router.get(
   "/stats",
   asyncHandler(async (_req, res) => {
-    const stats = await storage.getQueueStats();
-    res.json(stats);
+    res.json(await queueService.stats());
   })
 );
 
-router.get(
-  "/next",
+router.post(
+  "/migrate",
   asyncHandler(async (_req, res) => {
-    const task = await storage.getNextPendingTask();
-    res.json(task || null);
-  })
-);
-
-router.get(
-  "/:id",
-  asyncHandler(async (req, res) => {
-    const task = await storage.getQueuedTaskById(req.params.id);
-    if (!task) {
-      res.status(404).json({ error: "Task not found" });
-      return;
-    }
-    res.json(task);
-  })
-);
-
-router.get(
-  "/:id/children",
-  asyncHandler(async (req, res) => {
-    const children = await storage.getQueuedTasksByParentId(req.params.id);
-    res.json(children);
+    res.json(await queueService.migrateLegacyTasks());
   })
 );
 
 router.post(
   "/",
   asyncHandler(async (req, res) => {
-    const parseResult = insertQueuedTaskSchema.safeParse(req.body);
-    if (!parseResult.success) {
-      throw badRequest(`Invalid task data: ${parseResult.error.message}`);
+    const parsed = enqueueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw badRequest(`Invalid queue item: ${parsed.error.message}`);
     }
-    const task = await storage.createQueuedTask(parseResult.data);
-    res.status(201).json(task);
+    res.status(201).json(await queueService.enqueue(parsed.data));
   })
 );
 
 router.post(
   "/batch",
   asyncHandler(async (req, res) => {
-    const { tasks } = req.body;
-    if (!Array.isArray(tasks)) {
-      throw badRequest("Tasks must be an array");
+    const parsed = z.object({ items: z.array(enqueueSchema).min(1).max(100) }).safeParse(req.body);
+    if (!parsed.success) {
+      throw badRequest(`Invalid queue items: ${parsed.error.message}`);
     }
-    
-    const validatedTasks = tasks.map((t: unknown, i: number) => {
-      const parseResult = insertQueuedTaskSchema.safeParse(t);
-      if (!parseResult.success) {
-        throw badRequest(`Invalid task at index ${i}: ${parseResult.error.message}`);
-      }
-      return parseResult.data;
-    });
-    
-    const createdTasks = await storage.createQueuedTasks(validatedTasks);
-    res.status(201).json(createdTasks);
-  })
-);
-
-router.patch(
-  "/:id",
-  asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const existing = await storage.getQueuedTaskById(id);
-    if (!existing) {
-      res.status(404).json({ error: "Task not found" });
-      return;
+    const items = [];
+    for (const item of parsed.data.items) {
+      items.push(await queueService.enqueue(item));
     }
-    
-    const updatedTask = await storage.updateQueuedTask(id, req.body);
-    res.json(updatedTask);
+    res.status(201).json(items);
   })
 );
 
-router.post(
-  "/:id/start",
+router.get(
+  "/:ref",
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const task = await storage.getQueuedTaskById(id);
-    if (!task) {
-      res.status(404).json({ error: "Task not found" });
-      return;
-    }
-    
-    const updatedTask = await storage.updateQueuedTask(id, {
-      status: TaskStatuses.RUNNING,
-      startedAt: new Date(),
-    } as any);
-    res.json(updatedTask);
+    res.json(await requireItem(req.params.ref));
   })
 );
 
 router.post(
-  "/:id/complete",
+  "/:ref/cancel",
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const { output } = req.body;
-    const task = await storage.getQueuedTaskById(id);
-    if (!task) {
-      res.status(404).json({ error: "Task not found" });
-      return;
+    const item = await requireItem(req.params.ref);
+    if (!(await queueService.cancel(item.ref))) {
+      throw badRequest(`Cannot cancel a ${item.status} item`);
     }
-    
-    const startedAt = task.startedAt ? new Date(task.startedAt).getTime() : Date.now();
-    const actualDuration = Math.round((Date.now() - startedAt) / 1000);
-    
-    const updatedTask = await storage.updateQueuedTask(id, {
-      status: TaskStatuses.COMPLETED,
-      output,
-      completedAt: new Date(),
-      actualDuration,
-    } as any);
-    res.json(updatedTask);
+    res.json(await requireItem(item.ref));
   })
 );
 
 router.post(
-  "/:id/fail",
+  "/:ref/retry",
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const { error } = req.body;
-    const task = await storage.getQueuedTaskById(id);
-    if (!task) {
-      res.status(404).json({ error: "Task not found" });
-      return;
+    const item = await requireItem(req.params.ref);
+    if (!(await queueService.retry(item.ref))) {
+      throw badRequest(`Cannot retry a ${item.status} item`);
     }
-    
-    const retryCount = (task.retryCount || 0) + 1;
-    const maxRetries = task.maxRetries || 3;
-    
-    const updatedTask = await storage.updateQueuedTask(id, {
-      status: retryCount >= maxRetries ? TaskStatuses.FAILED : TaskStatuses.PENDING,
-      error: error || "Unknown error",
-      retryCount,
-      completedAt: retryCount >= maxRetries ? new Date() : undefined,
-    } as any);
-    res.json(updatedTask);
+    res.json(await requireItem(item.ref));
   })
 );
 
 router.post(
-  "/:id/cancel",
+  "/:ref/input",
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const task = await storage.getQueuedTaskById(id);
-    if (!task) {
-      res.status(404).json({ error: "Task not found" });
-      return;
+    const parsed = z.object({ input: z.string().min(1) }).safeParse(req.body);
+    if (!parsed.success) {
+      throw badRequest("Input is required");
+    }
+    const item = await requireItem(req.params.ref);
+    if (!(await queueService.provideInput(item.ref, parsed.data.input))) {
+      throw badRequest("This item is not waiting for input");
     }
-    
-    const updatedTask = await storage.updateQueuedTask(id, {
-      status: TaskStatuses.CANCELLED,
-      completedAt: new Date(),
-    } as any);
-    res.json(updatedTask);
+    res.json(await requireItem(item.ref));
   })
 );
 
 router.delete(
-  "/:id",
+  "/:ref",
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const task = await storage.getQueuedTaskById(id);
-    if (!task) {
-      res.status(404).json({ error: "Task not found" });
-      return;
+    const item = await requireItem(req.params.ref);
+    if (!(await queueService.remove(item.ref))) {
+      throw badRequest(`Cannot delete a ${item.status} item`);
     }
-    
-    await storage.deleteQueuedTask(id);
     res.json({ success: true });
   })
 );
 
 export default router;
-
-
-
@@ -0,0 +1,116 @@
+/**
+ * =============================================================================
+ * RETRIEVAL API ROUTES
+ * =============================================================================
+ *
+ * ENDPOINTS:
+ * ----------
+ * GET    /api/retrieval/status          - Embedding provider and indexed counts
+ * POST   /api/retrieval/search          - Top-k snippets ({ query, chatId?, k? })
+ * POST   /api/retrieval/drive/:fileId   - Index a Drive file (text or Google Doc)
+ * DELETE /api/retrieval/drive/:fileId   - Remove a Drive file from the index
+ * POST   /api/retrieval/reindex         - Re-embed your chats ({ chatId? }),
+ *                                         e.g. after changing EMBEDDING_PROVIDER
+ *
+ * Signed-in users search their own chats and files; guests can only search
+ * the chat they name.
+ *
+ * =============================================================================
+ */
+
+import { Router, type Request } from "express";
+import { z } from "zod";
+import { asyncHandler, badRequest, createApiError } from "./middleware";
+import { retrievalService } from "../services/retrieval";
+import { storage } from "../storage";
+
+const router = Router();
+
+const searchSchema = z.object({
+  query: z.string().min(1),
+  chatId: z.string().optional(),
+  k: z.number().int().min(1).max(50).optional(),
+});
+
+const reindexSchema = z.object({
+  chatId: z.string().optional(),
+});
+
+function getUserId(req: Request): string | null {
+  return (req as any).authStatus?.userId || null;
+}
+
+function requireUserId(req: Request): string {
+  const userId = getUserId(req);
+  if (!userId) {
+    throw createApiError("Sign in to manage the retrieval index", 401);
+  }
+  return userId;
+}
+
+router.get(
+  "/status",
+  asyncHandler(async (_req, res) => {
+    res.json(await retrievalService.getStatus());
+  })
+);
+
+router.post(
+  "/search",
+  asyncHandler(async (req, res) => {
+    const parseResult = searchSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw badRequest(`Invalid search: ${parseResult.error.message}`);
+    }
+    const { query, chatId, k } = parseResult.data;
+    const userId = getUserId(req);
+    if (!userId && !chatId) {
+      throw badRequest("chatId is required when not signed in");
+    }
+    const results = await retrievalService.search(query, { userId, chatId, k });
+    res.json({ results });
+  })
+);
+
+router.post(
+  "/drive/:fileId",
+  asyncHandler(async (req, res) => {
+    const userId = requireUserId(req);
+    const result = await retrievalService.ingestDriveFile(req.params.fileId, userId);
+    res.json({ success: true, fileId: req.params.fileId, ...result });
+  })
+);
+
+router.delete(
+  "/drive/:fileId",
+  asyncHandler(async (req, res) => {
+    const userId = requireUserId(req);
+    const [chunk] = await storage.getRetrievalChunksBySource("drive_file", req.params.fileId);
+    if (!chunk || chunk.userId !== userId) {
+      throw createApiError("Drive file is not indexed", 404);
+    }
+    await retrievalService.removeSource("drive_file", req.params.fileId);
+    res.json({ success: true });
+  })
+);
+
+router.post(
+  "/reindex",
+  asyncHandler(async (req, res) => {
+    const userId = requireUserId(req);
+    const parseResult = reindexSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      throw badRequest(`Invalid reindex request: ${parseResult.error.message}`);
+    }
+    const { chatId } = parseResult.data;
+    if (chatId) {
+      const chat = await storage.getChat(chatId);
+      if (!chat || chat.userId !== userId) {
+        throw createApiError("Chat not found", 404);
+      }
+    }
+    res.json(await retrievalService.reindex({ chatId, userId }));
+  })
+);
+
+export default router;
@@ -0,0 +1,88 @@
+/**
+ * =============================================================================
+ * SEARCH API ROUTES
+ * =============================================================================
+ *
+ * ENDPOINTS:
+ * ----------
+ * GET  /api/search              - Full-text search across your chats
+ * GET  /api/search/tool-types   - Tool types with indexed results (filter list)
+ * POST /api/search/rebuild      - Re-index all history (signed-in users)
+ *
+ * QUERY PARAMETERS (GET /api/search):
+ * -----------------------------------
+ *   q         Search text (see services/search/query.ts for syntax)
+ *   chatId    Only this chat
+ *   from, to  Date range (ISO dates or timestamps)
+ *   role      user | ai
+ *   toolType  Only results of this tool (e.g. terminal_execute)
+ *   sources   Comma-separated: message, attachment, tool_result
+ *   sort      relevance (default) | recent
+ *   limit, offset
+ *
+ * Results carry the chat and message to jump to and an HTML snippet with the
+ * matches in <mark>.
+ *
+ * =============================================================================
+ */
+
+import { Router, type Request } from "express";
+import { z } from "zod";
+import { GUEST_USER_ID } from "@shared/schema";
+import { asyncHandler, badRequest, createApiError } from "./middleware";
+import { searchService } from "../services/search";
+
+const router = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  chatId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  role: z.enum(["user", "ai"]).optional(),
+  toolType: z.string().optional(),
+  sources: z
+    .string()
+    .transform(value => value.split(",").map(s => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(["message", "attachment", "tool_result"])))
+    .optional(),
+  sort: z.enum(["relevance", "recent"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+/** Same scope as the sidebar's chat list */
+function getOwnerId(req: Request): string {
+  return (req as any).authStatus?.userId || GUEST_USER_ID;
+}
+
+router.get(
+  "/",
+  asyncHandler(async (req, res) => {
+    const parseResult = searchQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      throw badRequest(`Invalid search: ${parseResult.error.message}`);
+    }
+    const { q, ...filters } = parseResult.data;
+    res.json(searchService.search({ ...filters, query: q, userId: getOwnerId(req) }));
+  })
+);
+
+router.get(
+  "/tool-types",
+  asyncHandler(async (req, res) => {
+    res.json({ toolTypes: searchService.getToolTypes(getOwnerId(req)) });
+  })
+);
+
+router.post(
+  "/rebuild",
+  asyncHandler(async (req, res) => {
+    if (!(req as any).authStatus?.userId) {
+      throw createApiError("Sign in to rebuild the search index", 401);
+    }
+    res.json(searchService.rebuild());
+  })
+);
+
+export default router;
@@ -37,6 +37,15 @@ function getUserId(req: Request): string {
   return (req as any).authStatus?.userId || "guest";
 }
 
+/**
+ * Helper to get the to-do item in the URL if it belongs to the caller;
+ * anyone else's item is treated as missing
+ */
+async function getOwnTodoItem(req: Request) {
+  const todo = await storage.getTodoItem(req.params.id);
+  return todo && todo.userId === getUserId(req) ? todo : undefined;
+}
+
 /**
  * Helper to write to-do list to logs/todo.md for introspection
  */
@@ -227,7 +236,7 @@ router.post("/", async (req: Request, res: Response) => {
  */
 router.get("/:id", async (req: Request, res: Response) => {
   try {
-    const todo = await (storage as any).getTodoItem(req.params.id);
+    const todo = await getOwnTodoItem(req);
     
     if (!todo) {
       return res.status(404).json({
@@ -257,10 +266,10 @@ router.patch("/:id", async (req: Request, res: Response) => {
   try {
     const userId = getUserId(req);
     
-    // Validate partial update data
-    const updates = insertTodoItemSchema.partial().parse(req.body);
+    // Validate partial update data (items cannot change hands)
+    const updates = insertTodoItemSchema.omit({ userId: true }).partial().parse(req.body);
     
-    const todo = await storage.updateTodoItem(req.params.id, updates);
+    const todo = (await getOwnTodoItem(req)) && await storage.updateTodoItem(req.params.id, updates);
     
     if (!todo) {
       return res.status(404).json({
@@ -301,7 +310,7 @@ router.patch("/:id", async (req: Request, res: Response) => {
 router.delete("/:id", async (req: Request, res: Response) => {
   try {
     const userId = getUserId(req);
-    const deleted = await storage.deleteTodoItem(req.params.id);
+    const deleted = (await getOwnTodoItem(req)) && await storage.deleteTodoItem(req.params.id);
     
     if (!deleted) {
       return res.status(404).json({
@@ -370,7 +379,7 @@ router.post("/reorder", async (req: Request, res: Response) => {
 router.post("/:id/complete", async (req: Request, res: Response) => {
   try {
     const userId = getUserId(req);
-    const todo = await storage.completeTodoItem(req.params.id);
+    const todo = (await getOwnTodoItem(req)) && await storage.completeTodoItem(req.params.id);
     
     if (!todo) {
       return res.status(404).json({
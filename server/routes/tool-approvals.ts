@@ -0,0 +1,55 @@
+/**
+ * =============================================================================
+ * TOOL APPROVAL API ROUTES
+ * =============================================================================
+ *
+ * ENDPOINTS:
+ * ----------
+ * GET  /api/tool-approvals          - Pending approvals (optional ?chatId=)
+ * POST /api/tool-approvals/:id      - Approve or deny ({ approved: boolean })
+ * GET  /api/tool-approvals/policy   - The active tool permission policy
+ *
+ * =============================================================================
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler, badRequest, notFound } from "./middleware";
+import { toolApprovals } from "../services/tool-approvals";
+import { toolPolicy } from "../services/tool-policy";
+
+const router = Router();
+
+const decisionSchema = z.object({ approved: z.boolean() });
+
+router.get(
+  "/",
+  asyncHandler(async (req, res) => {
+    const chatId = typeof req.query.chatId === "string" ? req.query.chatId : undefined;
+    res.json(toolApprovals.listPending(chatId));
+  })
+);
+
+router.get(
+  "/policy",
+  asyncHandler(async (_req, res) => {
+    res.json(toolPolicy.getPolicy());
+  })
+);
+
+router.post(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const parseResult = decisionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw badRequest(`Invalid decision: ${parseResult.error.message}`);
+    }
+    const approval = toolApprovals.decide(req.params.id, parseResult.data.approved);
+    if (!approval) {
+      throw notFound("Approval request not found or already resolved");
+    }
+    res.json({ success: true, approval, approved: parseResult.data.approved });
+  })
+);
+
+export default router;
@@ -9,6 +9,8 @@
  * 
  * Routes:
  * - GET    /api/user-agents           - List all user's agents
+ * - GET    /api/user-agents/llm-providers - LLM providers an agent can use
+ * - GET    /api/user-agents/tools     - Tools an agent's allowlist can name
  * - GET    /api/user-agents/:id       - Get specific agent
  * - POST   /api/user-agents           - Create new agent
  * - PATCH  /api/user-agents/:id       - Update agent
@@ -20,9 +22,34 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { insertUserAgentSchema } from '@shared/schema';
+import { llm } from '../services/llm';
+import { getToolDeclarations } from '../gemini-tools-guest';
 
 const router = Router();
 
+/**
+ * Reject an llmProvider the LLM service doesn't know, so a typo can't
+ * silently break every chat that uses the agent.
+ */
+function unknownProviderError(provider: string | null | undefined): string | null {
+  if (!provider || llm.providerNames().includes(provider)) return null;
+  return `Unknown llmProvider "${provider}" (available: ${llm.providerNames().join(', ')})`;
+}
+
+/**
+ * Reject an allowedTools list that isn't a list of declared tool names
+ * (null = every tool)
+ */
+function unknownToolsError(allowedTools: unknown): string | null {
+  if (allowedTools === null || allowedTools === undefined) return null;
+  if (!Array.isArray(allowedTools) || allowedTools.some(name => typeof name !== 'string')) {
+    return 'allowedTools must be a list of tool names';
+  }
+  const known = new Set(getToolDeclarations(true).map(tool => tool.name));
+  const unknown = allowedTools.filter(name => !known.has(name));
+  return unknown.length > 0 ? `Unknown tools in allowedTools: ${unknown.join(', ')}` : null;
+}
+
 /**
  * GET /api/user-agents
  * List all agents for the current user
@@ -48,6 +75,24 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/user-agents/llm-providers
+ * List the LLM providers (and their default models) an agent can select
+ */
+router.get('/llm-providers', async (_req: Request, res: Response) => {
+  res.json({ providers: llm.listProviders() });
+});
+
+/**
+ * GET /api/user-agents/tools
+ * List the tools an agent's allowlist can choose from
+ */
+router.get('/tools', async (_req: Request, res: Response) => {
+  res.json({
+    tools: getToolDeclarations(true).map(tool => ({ name: tool.name, description: tool.description })),
+  });
+});
+
 /**
  * GET /api/user-agents/:id
  * Get a specific agent by ID
@@ -106,6 +151,11 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    const fieldError = unknownProviderError(result.data.llmProvider) ?? unknownToolsError(result.data.allowedTools);
+    if (fieldError) {
+      return res.status(400).json({ error: fieldError });
+    }
+
     const agent = await storage.createUserAgent(result.data);
     
     res.status(201).json({ 
@@ -151,6 +201,11 @@ router.patch('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    const fieldError = unknownProviderError(result.data.llmProvider) ?? unknownToolsError(result.data.allowedTools);
+    if (fieldError) {
+      return res.status(400).json({ error: fieldError });
+    }
+
     const agent = await storage.updateUserAgent(req.params.id, result.data);
     
     res.json({ 
@@ -0,0 +1,138 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - AGENT PANEL EXCHANGE
+ * =============================================================================
+ *
+ * Runs one user message through a panel chat: the agents answer in turn
+ * until a stop condition, each seeing the conversation from its own seat.
+ *
+ *   user message ──► choose speaker ──► agent turn ──► save ──┐
+ *                          ▲                                  │
+ *                          └───────── shared transcript ◄─────┘
+ *
+ * Turn taking, consensus and the moderator prompt live in
+ * shared/agent-panel.ts. A moderator reply that names nobody on the panel
+ * falls back to round robin, so a bad model call never stalls the chat.
+ *
+ * The caller runs each agent's turn (normally runAgenticTurn with the
+ * agent's persona, model and tools) and saves its message, so nothing here
+ * touches the database.
+ */
+
+import {
+  chooseNextSpeaker,
+  buildModeratorPrompt,
+  hasAgreed,
+  panelHistory,
+  parseModeratorChoice,
+  roundRobinAfter,
+  stripConsensusMarker,
+  summarizeToolResults,
+  type AgentPanel,
+  type PanelSpeaker,
+  type PanelStopReason,
+  type PanelTranscriptEntry,
+  type PanelTurn,
+} from "@shared/agent-panel";
+import type { ToolResultRecord } from "./tool-responses";
+
+export interface PanelTurnOutput {
+  /** The agent's reply as produced, consensus marker included */
+  content: string;
+  toolResults: ToolResultRecord[];
+}
+
+export interface PanelTurnRecord extends PanelTurn {
+  toolResults: ToolResultRecord[];
+}
+
+export interface PanelExchangeOptions<A extends PanelSpeaker> {
+  panel: AgentPanel;
+  /** The panel's agents, in panel order */
+  agents: A[];
+  /** The message the panel is answering */
+  userText: string;
+  /** The chat so far, ending with the user's message */
+  transcript: PanelTranscriptEntry[];
+  /**
+   * Runs one agent's turn on the conversation as that agent sees it.
+   * promptIndex is the message holding the user's message (for attachments).
+   */
+  runTurn: (
+    agent: A,
+    messages: Array<{ role: "user" | "assistant"; content: string }>,
+    context: { turn: number; promptIndex: number }
+  ) => Promise<PanelTurnOutput>;
+  /** Saves (and announces) a finished turn */
+  saveTurn: (agent: A, record: PanelTurnRecord, turn: number) => Promise<void>;
+  /** One moderator model call returning its raw reply */
+  moderate?: (prompt: string) => Promise<string>;
+  /** Checked before every turn, e.g. whether the client went away */
+  isCancelled?: () => boolean;
+}
+
+export interface PanelExchangeResult {
+  turns: PanelTurnRecord[];
+  stopReason: PanelStopReason | "cancelled";
+}
+
+async function askModerator<A extends PanelSpeaker>(
+  options: PanelExchangeOptions<A>,
+  turns: PanelTurn[]
+): Promise<{ agentId: string } | { stop: PanelStopReason }> {
+  if (options.moderate) {
+    try {
+      const reply = await options.moderate(buildModeratorPrompt(options.userText, options.agents, turns));
+      const choice = parseModeratorChoice(reply, options.agents);
+      // An agent never answers itself; that would end its history on its own turn
+      const repeats = choice !== null && "agentId" in choice && choice.agentId === turns.at(-1)?.agentId;
+      if (choice && !("askModerator" in choice) && !repeats) return choice;
+      console.warn(`[AgentPanel] Moderator did not pick another agent: ${reply.slice(0, 200)}`);
+    } catch (error) {
+      console.error("[AgentPanel] Moderator call failed:", error);
+    }
+  }
+  return { agentId: roundRobinAfter(options.agents, turns) };
+}
+
+export async function runPanelExchange<A extends PanelSpeaker>(
+  options: PanelExchangeOptions<A>
+): Promise<PanelExchangeResult> {
+  const { panel, agents } = options;
+  const transcript = [...options.transcript];
+  const turns: PanelTurnRecord[] = [];
+
+  while (true) {
+    if (options.isCancelled?.()) return { turns, stopReason: "cancelled" };
+
+    let choice = chooseNextSpeaker(panel, agents, options.userText, turns);
+    if ("askModerator" in choice) choice = await askModerator(options, turns);
+    if ("stop" in choice) return { turns, stopReason: choice.stop };
+
+    const chosenId = choice.agentId;
+    const agent = agents.find(candidate => candidate.id === chosenId)!;
+    const promptIndex = panelHistory(options.transcript, agent.id).length - 1;
+    const output = await options.runTurn(agent, panelHistory(transcript, agent.id), {
+      turn: turns.length,
+      promptIndex,
+    });
+
+    const record: PanelTurnRecord = {
+      agentId: agent.id,
+      content: stripConsensusMarker(output.content),
+      agreed: hasAgreed(output.content),
+      toolResults: output.toolResults,
+    };
+    await options.saveTurn(agent, record, turns.length);
+    turns.push(record);
+
+    // Later speakers see this reply with its tool results
+    const toolSummary = summarizeToolResults(record.toolResults);
+    transcript.push({
+      role: "ai",
+      agentId: agent.id,
+      agentName: agent.displayName,
+      content: toolSummary ? `${record.content}\n\n${toolSummary}` : record.content,
+    });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - AGENT PERSONAS
+ * =============================================================================
+ *
+ * How a user agent (user_agents row, edited on the Agent Settings page)
+ * shapes a chat bound to it:
+ *
+ *   identity      name / displayName replace the branding in prompts/*.md
+ *   persona       personalityPrompt follows prompts/personality.md
+ *   overrides     systemPromptOverrides go last, before final instructions
+ *   tools         allowedTools narrows the declarations sent to the model
+ *   model         llmProvider / llmModel (see llm/selection.ts)
+ *   signatures    emailSignature on gmail_send, githubSignature on
+ *                 github_comment
+ *
+ * A chat uses its bound agent (chats.agentId), falling back to the owner's
+ * default agent. Nothing here touches the database.
+ */
+
+import type { UserAgent } from "@shared/schema";
+
+/** The user agent fields that affect a chat */
+export type AgentPersona = Pick<
+  UserAgent,
+  "name" | "displayName" | "personalityPrompt" | "systemPromptOverrides" | "allowedTools" | "emailSignature" | "githubSignature"
+>;
+
+/** Output and turn control the chat loop cannot work without */
+export const ALWAYS_ALLOWED_TOOLS = ["write", "send_chat", "say", "end_turn"];
+
+/**
+ * Prompt sections for an agent's persona and instruction overrides; a field
+ * left blank adds nothing
+ */
+export function personaPromptSections(agent: Pick<AgentPersona, "displayName" | "personalityPrompt" | "systemPromptOverrides">): {
+  persona?: string;
+  overrides?: string;
+} {
+  const personality = agent.personalityPrompt?.trim();
+  const overrides = agent.systemPromptOverrides?.trim();
+  return {
+    persona: personality ? `# Agent Persona: ${agent.displayName}\n\n${personality}` : undefined,
+    overrides: overrides
+      ? `# Agent Instructions\nThese instructions come from the user's configuration of ${agent.displayName} and take precedence over the general guidance above.\n\n${overrides}`
+      : undefined,
+  };
+}
+
+/**
+ * The declarations an agent may use; null or an empty list means every tool
+ */
+export function filterToolsForAgent<T extends { name?: string }>(tools: T[], allowedTools: string[] | null | undefined): T[] {
+  if (!allowedTools || allowedTools.length === 0) return tools;
+  const allowed = new Set([...allowedTools, ...ALWAYS_ALLOWED_TOOLS]);
+  return tools.filter(tool => tool.name !== undefined && allowed.has(tool.name));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Append an email signature below the conventional "-- " separator. Gmail
+ * sends bodies as HTML, so an HTML body gets an HTML signature.
+ */
+export function applyEmailSignature(body: string, signature: string | null | undefined): string {
+  const text = signature?.trim();
+  if (!text || body.includes(text)) return body;
+  if (/<[a-z][\s\S]*>/i.test(body)) {
+    return `${body}<br><br>-- <br>${escapeHtml(text).replace(/\r?\n/g, "<br>")}`;
+  }
+  return `${body.trimEnd()}\n\n-- \n${text}`;
+}
+
+/**
+ * Append a GitHub signature (markdown) below a horizontal rule
+ */
+export function applyGithubSignature(body: string, signature: string | null | undefined): string {
+  const text = signature?.trim();
+  if (!text || body.includes(text)) return body;
+  return `${body.trimEnd()}\n\n---\n${text}`;
+}
@@ -4,24 +4,33 @@
  * AGENT WORKER SERVICE
  * =============================================================================
  * 
- * Individual worker that connects to Gemini and executes jobs.
+ * Individual worker that connects to an LLM and executes jobs.
  * Features:
- * - Connects to Gemini 2.5 Flash/Pro for job execution
- * - Tool calling support
+ * - Runs jobs through the LLM service ("agent-worker": Gemini 2.5 Pro by
+ *   default; overridable per worker, and per job via payload.agentId)
+ * - Tool calling: prompt jobs that carry a tool allowlist run a bounded
+ *   agentic loop (job-agent-loop.ts) through the ToolDispatcher, with each
+ *   call logged against the job in tool_call_logs
  * - Structured output handling
  * - Token usage tracking
  * - Health monitoring with heartbeat
  */
 
-import { GoogleGenAI, Type } from "@google/genai";
 import { getDb } from "../db";
-import { agentWorkers, agentJobs, type AgentWorker, type AgentJob } from "@shared/schema";
+import { agentWorkers, agentJobs, userAgents, type AgentWorker, type AgentJob } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import type { JobPayload } from "./job-queue";
+import { llm, type LlmTarget } from "./llm";
+import { getToolDeclarations, toLlmTools } from "../gemini-tools";
+import { toolDispatcher } from "./tool-dispatcher";
+import { describeStop, resolveStepBudget, runJobAgentLoop } from "./job-agent-loop";
 
 export interface WorkerConfig {
   name: string;
-  model: "gemini-2.5-pro" | "gemini-1.5-pro";
+  /** LLM provider override (default: LLM_AGENT_WORKER / LLM_PROVIDER / gemini) */
+  provider?: string;
+  /** Model override (default: the provider's default for agent workers) */
+  model?: string;
   maxConcurrency: number;
   heartbeatIntervalMs: number;
 }
@@ -35,14 +44,12 @@ export interface JobExecutionResult {
 
 const DEFAULT_CONFIG: WorkerConfig = {
   name: "agent-worker",
-  model: "gemini-2.5-pro",
   maxConcurrency: 1,
   heartbeatIntervalMs: 30000,
 };
 
 class AgentWorkerService {
   private workerId: string | null = null;
-  private ai: GoogleGenAI | null = null;
   private config: WorkerConfig;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
@@ -52,16 +59,14 @@ class AgentWorkerService {
   }
 
   async initialize(): Promise<string> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY not configured");
+    const target = this.resolveTarget();
+    if (!target.provider.isConfigured()) {
+      throw new Error(`LLM provider "${target.provider.name}" not configured`);
     }
 
-    this.ai = new GoogleGenAI({ apiKey });
-
     const [worker] = await getDb().insert(agentWorkers).values({
       name: this.config.name,
-      type: "gemini",
+      type: target.provider.name,
       status: "idle",
       maxConcurrency: this.config.maxConcurrency,
       activeJobs: 0,
@@ -71,7 +76,7 @@ class AgentWorkerService {
     this.isRunning = true;
     this.startHeartbeat();
 
-    console.log(`[AgentWorker] Initialized worker ${this.workerId} (${this.config.name})`);
+    console.log(`[AgentWorker] Initialized worker ${this.workerId} (${this.config.name}, ${target.provider.name}/${target.model})`);
     return this.workerId!;
   }
 
@@ -106,8 +111,33 @@ class AgentWorkerService {
     }, this.config.heartbeatIntervalMs);
   }
 
-  async executeJob(job: AgentJob): Promise<JobExecutionResult> {
-    if (!this.ai || !this.workerId) {
+  /**
+   * Pick the provider/model for a job: the job's user agent, if it names
+   * one, takes precedence over the worker's own configuration.
+   */
+  private resolveTarget(agent?: { llmProvider: string | null; llmModel: string | null }): LlmTarget {
+    if (agent?.llmProvider || agent?.llmModel) {
+      return llm.resolve("agent-worker", { agent });
+    }
+    return llm.resolve("agent-worker", {
+      agent: { llmProvider: this.config.provider, llmModel: this.config.model },
+    });
+  }
+
+  private async resolveJobTarget(payload: JobPayload): Promise<LlmTarget> {
+    if (!payload.agentId) return this.resolveTarget();
+    const [agent] = await getDb().select({ llmProvider: userAgents.llmProvider, llmModel: userAgents.llmModel })
+      .from(userAgents)
+      .where(eq(userAgents.id, payload.agentId));
+    return this.resolveTarget(agent);
+  }
+
+  /**
+   * Run a job on this worker. signal, when the caller has one, fires when
+   * the job is cancelled, times out or loses its lease.
+   */
+  async executeJob(job: AgentJob, signal?: AbortSignal): Promise<JobExecutionResult> {
+    if (!this.workerId) {
       return { output: null, error: "Worker not initialized" };
     }
 
@@ -129,10 +159,12 @@ class AgentWorkerService {
 
       switch (job.type) {
         case "prompt":
-          result = await this.executePromptJob(payload);
+          result = payload.tools?.length
+            ? await this.executeToolLoopJob(job, payload, await this.resolveJobTarget(payload), signal)
+            : await this.executePromptJob(payload, await this.resolveJobTarget(payload), job.id, signal);
           break;
         case "tool":
-          result = await this.executeToolJob(payload);
+          result = await this.executeToolJob(payload, await this.resolveJobTarget(payload), job.id, signal);
           break;
         case "composite":
           result = await this.executeCompositeJob(job, payload);
@@ -170,31 +202,57 @@ class AgentWorkerService {
     }
   }
 
-  private async executePromptJob(payload: JobPayload): Promise<JobExecutionResult> {
+  private async executePromptJob(payload: JobPayload, target: LlmTarget, jobId: string, signal?: AbortSignal): Promise<JobExecutionResult> {
     if (!payload.prompt) {
       return { output: null, error: "No prompt provided" };
     }
 
-    // FIX: Use systemInstruction parameter instead of embedding system prompt in message history
-    const config: any = {};
-    if (payload.systemPrompt) {
-      config.systemInstruction = payload.systemPrompt;
+    // FIX: Use the system prompt field instead of embedding system prompt in message history
+    const response = await llm.generate(target, {
+      system: payload.systemPrompt,
+      messages: [{ role: "user", content: payload.prompt }],
+      json: payload.json,
+      signal,
+    }, { metadata: { jobId } });
+
+    return {
+      output: response.text,
+      inputTokens: response.usage?.promptTokens,
+      outputTokens: response.usage?.completionTokens,
+    };
+  }
+
+  /**
+   * Run a prompt job as a tool loop limited to the job's allowlist and
+   * step budget. Running out of budget fails the job but keeps the
+   * model's last text as its output.
+   */
+  private async executeToolLoopJob(job: AgentJob, payload: JobPayload, target: LlmTarget, signal?: AbortSignal): Promise<JobExecutionResult> {
+    if (!payload.prompt) {
+      return { output: null, error: "No prompt provided" };
     }
 
-    const response = await this.ai!.models.generateContent({
-      model: this.config.model,
-      contents: [{ role: "user", parts: [{ text: payload.prompt }] }],
-      config,
+    const budget = resolveStepBudget(payload.budget, job.timeout);
+    const loop = await runJobAgentLoop({
+      system: payload.systemPrompt,
+      prompt: payload.prompt,
+      tools: toLlmTools(getToolDeclarations(payload.tools)),
+      budget,
+      generate: request => llm.generate(target, request, { metadata: { jobId: job.id } }),
+      executeTool: toolCall => toolDispatcher.executeJobToolCall(toolCall, job.id),
+      signal,
     });
 
+    console.log(`[AgentWorker] Job ${job.id} used ${loop.toolCalls} tool calls in ${loop.steps} steps (${loop.stopReason})`);
     return {
-      output: response.text,
-      inputTokens: response.usageMetadata?.promptTokenCount,
-      outputTokens: response.usageMetadata?.candidatesTokenCount,
+      output: loop.output,
+      error: describeStop(loop.stopReason, budget),
+      inputTokens: loop.inputTokens,
+      outputTokens: loop.outputTokens,
     };
   }
 
-  private async executeToolJob(payload: JobPayload): Promise<JobExecutionResult> {
+  private async executeToolJob(payload: JobPayload, target: LlmTarget, jobId: string, signal?: AbortSignal): Promise<JobExecutionResult> {
     if (!payload.toolName) {
       return { output: null, error: "No tool name provided" };
     }
@@ -205,25 +263,23 @@ Arguments: ${JSON.stringify(payload.toolArgs ?? {})}
 
 Return a JSON object with the result.`;
 
-    const response = await this.ai!.models.generateContent({
-      model: this.config.model,
-      contents: toolPrompt,
-      config: {
-        responseMimeType: "application/json",
-      },
-    });
+    const response = await llm.generate(target, {
+      messages: [{ role: "user", content: toolPrompt }],
+      json: true,
+      signal,
+    }, { metadata: { jobId } });
 
     let output: unknown;
     try {
-      output = JSON.parse(response.text ?? "{}");
+      output = JSON.parse(response.text || "{}");
     } catch {
       output = response.text;
     }
 
     return {
       output,
-      inputTokens: response.usageMetadata?.promptTokenCount,
-      outputTokens: response.usageMetadata?.candidatesTokenCount,
+      inputTokens: response.usage?.promptTokens,
+      outputTokens: response.usage?.completionTokens,
     };
   }
 
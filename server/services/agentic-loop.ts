@@ -0,0 +1,326 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - AGENTIC LOOP
+ * =============================================================================
+ *
+ * Runs one assistant turn of the chat pipeline: stream the model's reply,
+ * execute the tools it calls, feed the results back, and repeat until the
+ * model calls end_turn.
+ *
+ * Architecture: tool-call → execute → append result → resubmit
+ *
+ *   1. The model emits one or more tool calls in a single response.
+ *   2. All function calls in that response are executed (potentially in
+ *      parallel at the dispatcher level).
+ *   3. The results are appended to the history as a tool turn with one
+ *      result per tool call (see tool-responses.ts). Calls with invalid
+ *      arguments get a structured error naming the bad fields so the model
+ *      can correct them on the next turn.
+ *   4. The history is resubmitted to the model so it can act on the
+ *      results, call more tools, or call end_turn to finish.
+ *   5. Steps 1-4 repeat until end_turn is called, no function calls are
+ *      returned (implicit end), or a safety limit is hit.
+ *
+ * Parallel tool calls: the model may return multiple tool calls in a single
+ * response. The dispatcher executes them together, reducing round-trips.
+ * The system prompt explicitly encourages this pattern.
+ *
+ * The loop knows nothing about Express, storage or the dispatcher: the
+ * caller supplies the model stream, the tool executor and an SSE emitter.
+ * That keeps it runnable offline against recorded fixtures (see
+ * llm/fixtures.ts and tests/agentic-loop.test.ts).
+ */
+
+import type { ToolCall } from "@shared/schema";
+import type { LlmMessage, LlmRequest, LlmStreamChunk, LlmTool, LlmToolCall } from "./llm/types";
+import { buildToolResults, type ToolResultRecord } from "./tool-responses";
+import { stripAllVoiceTags } from "./style-parser";
+
+export interface AgenticLimits {
+  /** Model round-trips after the first response */
+  maxIterations: number;
+  /** Tool calls executed from a single response */
+  maxToolsPerTurn: number;
+  /** Tool calls executed across the whole turn */
+  maxTotalTools: number;
+}
+
+export const DEFAULT_AGENTIC_LIMITS: AgenticLimits = {
+  maxIterations: 20, // Safety limit to prevent infinite loops
+  maxToolsPerTurn: 20, // Limit tool calls per turn to prevent runaway
+  maxTotalTools: 50, // Absolute limit across all turns
+};
+
+export interface AgenticTurnOptions {
+  system: string;
+  /** Conversation so far, ending with the user's message */
+  messages: LlmMessage[];
+  tools: LlmTool[];
+  /** Starts one model call (normally llm.stream bound to a target) */
+  stream: (request: Omit<LlmRequest, "model">) => AsyncIterable<LlmStreamChunk>;
+  /** Executes a single tool call; thrown errors become failed results */
+  executeTool: (toolCall: ToolCall) => Promise<ToolResultRecord>;
+  /**
+   * Tool-specific side effects after a successful call (speech, sounds,
+   * opening URLs). Returned text is kept as part of the stored reply.
+   */
+  afterTool?: (toolCall: ToolCall, result: ToolResultRecord) => Promise<string | void>;
+  /** Writes one SSE data event to the client */
+  emit: (event: Record<string, unknown>) => void;
+  limits?: Partial<AgenticLimits>;
+}
+
+export interface AgenticTurnUsage {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+  totalTokenCount: number;
+}
+
+export interface AgenticTurnResult {
+  /** Everything the model produced, including thoughts and per-turn text */
+  fullResponse: string;
+  /** Prose shown to the user (thoughts, text, write/say output) */
+  cleanContent: string;
+  toolResults: ToolResultRecord[];
+  /** Tool calls from the last model response that made any */
+  lastToolCalls: ToolCall[];
+  /** Cumulative usage across every model call in the turn */
+  usage: AgenticTurnUsage;
+  /** Model round-trips after the first response */
+  iterations: number;
+  endedByTool: boolean;
+}
+
+interface ToolBatchResult {
+  results: ToolResultRecord[];
+  shouldEndTurn: boolean;
+  sendChatContent: string;
+}
+
+export function toToolCalls(calls: LlmToolCall[], idPrefix: string): ToolCall[] {
+  const now = Date.now();
+  return calls.map((fc, index) => ({
+    id: `${idPrefix}_${index}_${now}`,
+    type: fc.name as ToolCall["type"],
+    operation: fc.name || "execute",
+    parameters: fc.args || {},
+    priority: 0,
+  }));
+}
+
+export async function runAgenticTurn(options: AgenticTurnOptions): Promise<AgenticTurnResult> {
+  const limits = { ...DEFAULT_AGENTIC_LIMITS, ...options.limits };
+  const { emit } = options;
+
+  const usage: AgenticTurnUsage = {
+    promptTokenCount: 0,
+    candidatesTokenCount: 0,
+    totalTokenCount: 0,
+  };
+  const addUsage = (chunk: LlmStreamChunk) => {
+    if (!chunk.usage) return;
+    usage.promptTokenCount += chunk.usage.promptTokens;
+    usage.candidatesTokenCount += chunk.usage.completionTokens;
+    usage.totalTokenCount += chunk.usage.totalTokens;
+  };
+
+  const callModel = (messages: LlmMessage[]) => options.stream({
+    system: options.system,
+    messages,
+    tools: options.tools,
+    // "required" forces the model to always call at least one function
+    toolChoice: "required",
+  });
+
+  const executeBatch = async (toolCalls: ToolCall[]): Promise<ToolBatchResult> => {
+    const results: ToolResultRecord[] = [];
+    let endTurn = false;
+    let sendChatContent = ""; // Accumulate send_chat content for storage
+
+    for (const toolCall of toolCalls) {
+      console.log(`[AGENTIC LOOP] Executing tool call: ${toolCall.type} (${toolCall.id})`);
+      let record: ToolResultRecord;
+      try {
+        record = await options.executeTool(toolCall);
+      } catch (err: any) {
+        console.error(`[AGENTIC LOOP] Tool execution error:`, err);
+        record = { toolId: toolCall.id, type: toolCall.type, success: false, error: err.message };
+        results.push(record);
+        emit({ toolResult: { id: toolCall.id, type: toolCall.type, success: false, error: err.message } });
+        continue;
+      }
+      results.push(record);
+
+      // Send tool result to client
+      emit({
+        toolResult: {
+          id: toolCall.id,
+          type: toolCall.type,
+          success: record.success,
+          result: record.result,
+          error: record.error,
+          validationErrors: record.validationErrors,
+        },
+      });
+
+      // send_chat/write - stream content to client AND accumulate for storage
+      // Read from parameters directly (like say tool) — more reliable than the result
+      if ((toolCall.type === "send_chat" || toolCall.type === "write") && record.success) {
+        const rawContent = (toolCall.parameters as { content?: string }).content
+          || (record.result as { content?: string })?.content
+          || "";
+        if (rawContent) {
+          const cleanContent = stripAllVoiceTags(rawContent);
+          emit({ text: cleanContent });
+          sendChatContent += cleanContent;
+        }
+      }
+
+      // end_turn terminates the agentic loop
+      if (toolCall.type === "end_turn" && record.success) {
+        const endTurnResult = record.result as { shouldEndTurn?: boolean };
+        if (endTurnResult?.shouldEndTurn) {
+          endTurn = true;
+        }
+      }
+
+      if (options.afterTool && record.success) {
+        const extra = await options.afterTool(toolCall, record);
+        if (extra) sendChatContent += extra;
+      }
+    }
+
+    return { results, shouldEndTurn: endTurn, sendChatContent };
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // First response: stream text/thoughts to the client, collect tool calls
+  // ─────────────────────────────────────────────────────────────────────
+  let fullResponse = "";
+  let cleanContent = "";
+  const toolResults: ToolResultRecord[] = [];
+  const collectedFunctionCalls: LlmToolCall[] = [];
+
+  for await (const chunk of callModel(options.messages)) {
+    // Capture "Thinking" content from reasoning models
+    if (chunk.thought) {
+      // Wrap it so it persists in storage
+      const thoughtChunk = `<thinking>${chunk.thought}</thinking>\n\n`;
+      fullResponse += thoughtChunk;
+      cleanContent += thoughtChunk;
+      emit({ text: thoughtChunk });
+    }
+
+    // Capture any text content (rare with function calling mode)
+    if (chunk.text) {
+      fullResponse += chunk.text;
+      cleanContent += chunk.text;
+      emit({ text: chunk.text });
+    }
+
+    if (chunk.toolCalls && chunk.toolCalls.length > 0) {
+      collectedFunctionCalls.push(...chunk.toolCalls);
+      console.log(`[AGENTIC LOOP] Received ${chunk.toolCalls.length} function calls`);
+    }
+
+    addUsage(chunk);
+  }
+
+  let lastToolCalls = toToolCalls(collectedFunctionCalls, "fc");
+  let iterations = 0;
+  let shouldEndTurn = false;
+
+  if (lastToolCalls.length === 0) {
+    console.log("[AGENTIC LOOP] No function calls in response");
+    return { fullResponse, cleanContent, toolResults, lastToolCalls, usage, iterations, endedByTool: false };
+  }
+
+  console.log(`[AGENTIC LOOP] Turn 0 - ${lastToolCalls.length} function calls`);
+  for (const tc of lastToolCalls) {
+    console.log(`  • ${tc.type}: ${JSON.stringify(tc.parameters).substring(0, 100)}`);
+  }
+
+  // Execute tools (with per-turn limit)
+  const limitedToolCalls = lastToolCalls.slice(0, limits.maxToolsPerTurn);
+  if (lastToolCalls.length > limits.maxToolsPerTurn) {
+    console.warn(`[AGENTIC LOOP] Limiting ${lastToolCalls.length} tool calls to ${limits.maxToolsPerTurn}`);
+  }
+  const execResult = await executeBatch(limitedToolCalls);
+  toolResults.push(...execResult.results);
+  let lastTurnFunctionCalls: LlmToolCall[] = collectedFunctionCalls;
+  let lastTurnResults: ToolResultRecord[] = execResult.results;
+  let totalToolsExecuted = limitedToolCalls.length;
+  shouldEndTurn = execResult.shouldEndTurn;
+  cleanContent += execResult.sendChatContent;
+
+  const history: LlmMessage[] = [...options.messages, { role: "assistant", toolCalls: collectedFunctionCalls }];
+
+  // Continue if end_turn was NOT called
+  while (!shouldEndTurn && iterations < limits.maxIterations && totalToolsExecuted < limits.maxTotalTools) {
+    iterations++;
+    console.log(`[AGENTIC LOOP] Turn ${iterations} - Feeding tool results back to LLM`);
+
+    // Return each tool's result to the model
+    history.push({ role: "tool", toolResults: buildToolResults(lastTurnFunctionCalls, lastTurnResults) });
+
+    let loopResponse = "";
+    const loopFunctionCalls: LlmToolCall[] = [];
+    for await (const chunk of callModel(history)) {
+      if (chunk.text) loopResponse += chunk.text;
+      if (chunk.toolCalls && chunk.toolCalls.length > 0) {
+        loopFunctionCalls.push(...chunk.toolCalls);
+      }
+      addUsage(chunk);
+    }
+
+    fullResponse += `\\n\\n[Turn ${iterations}]\\n${loopResponse}`;
+
+    if (loopFunctionCalls.length === 0) {
+      // No function calls - LLM responded with plain text, treat as implicit end_turn
+      console.log(`[AGENTIC LOOP] Turn ${iterations} - No function calls, treating as implicit end_turn`);
+      const plainTextResponse = stripAllVoiceTags(loopResponse.trim());
+      if (plainTextResponse) {
+        emit({ text: plainTextResponse });
+      }
+      break;
+    }
+
+    const toolCalls = toToolCalls(loopFunctionCalls, `fc_loop${iterations}`);
+    console.log(`[AGENTIC LOOP] Turn ${iterations} - ${toolCalls.length} function calls`);
+    for (const tc of toolCalls) {
+      console.log(`  • ${tc.type}: ${JSON.stringify(tc.parameters).substring(0, 80)}`);
+    }
+
+    // Execute tools (with per-turn limit)
+    const limitedLoopToolCalls = toolCalls.slice(0, limits.maxToolsPerTurn);
+    if (toolCalls.length > limits.maxToolsPerTurn) {
+      console.warn(`[AGENTIC LOOP] Turn ${iterations}: Limiting ${toolCalls.length} tool calls to ${limits.maxToolsPerTurn}`);
+    }
+    const loopExecResult = await executeBatch(limitedLoopToolCalls);
+    toolResults.push(...loopExecResult.results);
+    lastTurnFunctionCalls = loopFunctionCalls;
+    lastTurnResults = loopExecResult.results;
+    totalToolsExecuted += limitedLoopToolCalls.length;
+    shouldEndTurn = loopExecResult.shouldEndTurn;
+    cleanContent += loopExecResult.sendChatContent;
+
+    history.push({ role: "assistant", toolCalls: loopFunctionCalls });
+    lastToolCalls = toolCalls;
+  }
+
+  if (!shouldEndTurn) {
+    let warningMessage = "";
+    if (iterations >= limits.maxIterations) {
+      console.warn(`[AGENTIC LOOP] Hit max iterations (${limits.maxIterations}), forcing termination`);
+      warningMessage = "[Loop limit reached - response truncated]";
+    } else if (totalToolsExecuted >= limits.maxTotalTools) {
+      console.warn(`[AGENTIC LOOP] Hit max total tools (${limits.maxTotalTools}), forcing termination`);
+      warningMessage = "[Tool execution limit reached - response truncated]";
+    }
+    if (warningMessage) {
+      emit({ text: warningMessage });
+    }
+  }
+
+  return { fullResponse, cleanContent, toolResults, lastToolCalls, usage, iterations, endedByTool: shouldEndTurn };
+}
@@ -0,0 +1,296 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - APPROVAL SERVICE
+ * =============================================================================
+ *
+ * Requests, notifications, decisions and expiry for approval steps (see
+ * @shared/approvals). An approval is an approvals row plus an "approval"
+ * agent job parked in waiting_input, which no worker ever picks up.
+ * Deciding completes that job with the outcome as its result; the workflow
+ * engine then settles the step like any other.
+ *
+ * Notifications go out over the channels the step asks for: "app" is the
+ * in-app toast (the client polls pending approvals), SMS goes through
+ * Twilio to OWNER_PHONE_NUMBER and email through Gmail to OWNER_EMAIL,
+ * unless the step names a recipient.
+ */
+
+import { getDb } from "../db";
+import { agentJobs, approvals, jobResults, type AgentJob, type Approval } from "@shared/schema";
+import {
+  approvalNotificationText,
+  expiredApprovalOutcome,
+  mergeApprovalParameters,
+  type ApprovalAction,
+  type ApprovalChannel,
+  type ApprovalOutcome,
+  type ApprovalStatus,
+} from "@shared/approvals";
+import { and, desc, eq, inArray, isNotNull, lte, ne } from "drizzle-orm";
+import type { JobPayload } from "./job-queue";
+
+const SWEEP_INTERVAL_MS = 30000;
+
+/** worker_id of approval jobs, so no queue mistakes them for its own */
+const APPROVAL_WORKER_ID = "approvals";
+
+export interface ApprovalRequest {
+  name: string;
+  title: string;
+  summary?: string;
+  parameters?: Record<string, unknown>;
+  expiresAfterSeconds?: number;
+  onExpiry?: "approve" | "reject";
+  notify?: { channels: ApprovalChannel[]; phone?: string; email?: string };
+  parentJobId?: string;
+  /** Added to the job's context (workflow run and step ids) */
+  context?: Record<string, unknown>;
+}
+
+export interface ApprovalNotification {
+  channel: ApprovalChannel;
+  to?: string;
+  ok: boolean;
+  error?: string;
+}
+
+export type DecideResult =
+  | { success: true; approval: Approval }
+  | { success: false; status: number; error: string };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", "\"": "&quot;" })[char]!);
+}
+
+class ApprovalService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+    void this.sweep();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Park a job for an operator's decision and tell them about it
+   */
+  async request(request: ApprovalRequest): Promise<{ job: AgentJob; approval: Approval }> {
+    const now = new Date();
+    const expiresAt = request.expiresAfterSeconds ? new Date(now.getTime() + request.expiresAfterSeconds * 1000) : null;
+
+    const [job] = await getDb().insert(agentJobs).values({
+      name: request.name,
+      type: "approval",
+      status: "waiting_input",
+      parentJobId: request.parentJobId,
+      payload: {
+        prompt: request.title,
+        context: { ...request.context, inputPrompt: request.summary ?? request.title },
+      } satisfies JobPayload,
+      workerId: APPROVAL_WORKER_ID,
+      maxRetries: 0,
+      startedAt: now,
+    }).returning();
+
+    const [approval] = await getDb().insert(approvals).values({
+      jobId: job.id,
+      workflowRunId: typeof request.context?.workflowRunId === "string" ? request.context.workflowRunId : null,
+      stepId: typeof request.context?.workflowStepId === "string" ? request.context.workflowStepId : null,
+      title: request.title,
+      summary: request.summary ?? null,
+      requestedParameters: request.parameters ?? {},
+      expiresAt,
+      onExpiry: request.onExpiry ?? "reject",
+    }).returning();
+
+    const notifications = await this.notify(approval, request.notify ?? { channels: ["app"] });
+    await getDb().update(approvals).set({ notifications }).where(eq(approvals.id, approval.id));
+
+    console.log(`[Approvals] Waiting for approval ${approval.id}: ${request.title}`);
+    return { job, approval: { ...approval, notifications } };
+  }
+
+  async list(filter: { status?: ApprovalStatus; limit?: number } = {}): Promise<Approval[]> {
+    return getDb().select()
+      .from(approvals)
+      .where(filter.status ? eq(approvals.status, filter.status) : undefined)
+      .orderBy(desc(approvals.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async get(id: string): Promise<Approval | undefined> {
+    const [approval] = await getDb().select().from(approvals).where(eq(approvals.id, id));
+    return approval;
+  }
+
+  /**
+   * Record an operator's decision and release the waiting job
+   */
+  async decide(
+    id: string,
+    decision: { action: ApprovalAction; parameters?: Record<string, unknown>; comment?: string },
+    decidedBy: string,
+  ): Promise<DecideResult> {
+    const approval = await this.get(id);
+    if (!approval) {
+      return { success: false, status: 404, error: "Approval not found" };
+    }
+    if (approval.status !== "pending") {
+      return { success: false, status: 409, error: `Approval was already ${approval.status}` };
+    }
+
+    const requested = approval.requestedParameters ?? {};
+    let parameters = requested;
+    if (decision.action === "edit") {
+      try {
+        parameters = mergeApprovalParameters(requested, decision.parameters ?? {}).parameters;
+      } catch (error) {
+        return { success: false, status: 400, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const outcome: ApprovalOutcome = {
+      decision: decision.action === "reject" ? "rejected" : "approved",
+      action: decision.action,
+      parameters,
+      decidedBy,
+      ...(decision.comment ? { comment: decision.comment } : {}),
+    };
+    const decided = await this.settle(approval, outcome);
+    if (!decided) {
+      return { success: false, status: 409, error: "Approval is no longer pending" };
+    }
+    return { success: true, approval: decided };
+  }
+
+  /**
+   * Close the approvals of jobs that were stopped (run cancelled, job
+   * cancelled from the queue)
+   */
+  async cancelForJobs(jobIds: string[]): Promise<void> {
+    if (jobIds.length === 0) return;
+    await getDb().update(approvals)
+      .set({ status: "cancelled", decidedAt: new Date() })
+      .where(and(inArray(approvals.jobId, jobIds), eq(approvals.status, "pending")));
+  }
+
+  /**
+   * Apply the default outcome to expired approvals, and cancel pending
+   * approvals whose job stopped waiting
+   */
+  private async sweep(): Promise<void> {
+    try {
+      const expired: Approval[] = await getDb().select()
+        .from(approvals)
+        .where(and(eq(approvals.status, "pending"), isNotNull(approvals.expiresAt), lte(approvals.expiresAt, new Date())));
+      for (const approval of expired) {
+        const outcome = expiredApprovalOutcome(approval.onExpiry === "approve" ? "approve" : "reject", approval.requestedParameters ?? {});
+        if (await this.settle(approval, outcome)) {
+          console.log(`[Approvals] Approval ${approval.id} expired: ${outcome.decision}`);
+        }
+      }
+
+      const stale: Array<{ jobId: string }> = await getDb().select({ jobId: approvals.jobId })
+        .from(approvals)
+        .innerJoin(agentJobs, eq(agentJobs.id, approvals.jobId))
+        .where(and(eq(approvals.status, "pending"), ne(agentJobs.status, "waiting_input")));
+      await this.cancelForJobs(stale.map(row => row.jobId));
+    } catch (error) {
+      console.error("[Approvals] Sweep error:", error);
+    }
+  }
+
+  /**
+   * Write the decision and complete the job with it. Both updates are
+   * conditional, so two operators deciding at once cannot both win.
+   */
+  private async settle(approval: Approval, outcome: ApprovalOutcome): Promise<Approval | null> {
+    const now = new Date();
+    const [decided] = await getDb().update(approvals)
+      .set({
+        status: outcome.decision,
+        action: outcome.action,
+        parameters: outcome.parameters,
+        decidedBy: outcome.decidedBy,
+        comment: outcome.comment ?? null,
+        decidedAt: now,
+      })
+      .where(and(eq(approvals.id, approval.id), eq(approvals.status, "pending")))
+      .returning();
+    if (!decided) return null;
+
+    const [job] = await getDb().update(agentJobs)
+      .set({ status: "completed", completedAt: now })
+      .where(and(eq(agentJobs.id, approval.jobId), eq(agentJobs.status, "waiting_input")))
+      .returning();
+    if (job) {
+      const result = {
+        jobId: job.id,
+        success: true,
+        output: outcome,
+        durationMs: now.getTime() - approval.createdAt.getTime(),
+      };
+      await getDb().insert(jobResults)
+        .values(result)
+        .onConflictDoUpdate({ target: jobResults.jobId, set: { ...result, createdAt: now } });
+    }
+
+    console.log(`[Approvals] ${approval.title}: ${outcome.decision} by ${outcome.decidedBy}`);
+    return decided;
+  }
+
+  private async notify(
+    approval: Approval,
+    notify: NonNullable<ApprovalRequest["notify"]>,
+  ): Promise<ApprovalNotification[]> {
+    const link = `${process.env.BASE_URL ?? ""}/approvals?id=${approval.id}`;
+    const results: ApprovalNotification[] = [];
+
+    for (const channel of notify.channels) {
+      if (channel === "app") {
+        results.push({ channel, ok: true });
+        continue;
+      }
+
+      const to = channel === "sms"
+        ? notify.phone ?? process.env.OWNER_PHONE_NUMBER
+        : notify.email ?? process.env.OWNER_EMAIL;
+      if (!to) {
+        const variable = channel === "sms" ? "OWNER_PHONE_NUMBER" : "OWNER_EMAIL";
+        results.push({ channel, ok: false, error: `No recipient: set ${variable} or notify.${channel === "sms" ? "phone" : "email"}` });
+        continue;
+      }
+
+      try {
+        const text = approvalNotificationText(approval, link, channel);
+        if (channel === "sms") {
+          const { sendSMS } = await import("../integrations/twilio");
+          await sendSMS(to, text);
+        } else {
+          const { sendEmail } = await import("../integrations/gmail");
+          const sent = await sendEmail(to, `Approval needed: ${approval.title}`, escapeHtml(text).replace(/\n/g, "<br>"));
+          // sendEmail reports failures instead of throwing
+          if ("success" in sent && sent.success === false) {
+            throw new Error(sent.error);
+          }
+        }
+        results.push({ channel, to, ok: true });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Approvals] Failed to notify over ${channel}:`, message);
+        results.push({ channel, to, ok: false, error: message });
+      }
+    }
+
+    return results;
+  }
+}
+
+export const approvalService = new ApprovalService();
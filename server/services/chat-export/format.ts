@@ -0,0 +1,422 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - CHAT EXPORT FORMAT
+ * =============================================================================
+ *
+ * The portable form of a chat and its renderings. Pure (no database) so the
+ * routes, the import path and tests share it.
+ *
+ * FORMATS:
+ * --------
+ *   json  The full chat: every message branch, attachments, tool call logs
+ *         and metadata. The only form that can be imported again.
+ *   md    Readable transcript of the active branch, tool calls folded in
+ *         <details> blocks
+ *   html  Same transcript as a standalone page
+ *
+ * ATTACHMENTS:
+ * ------------
+ *   inline  Text attachments as-is, binary ones as base64 (data: URIs in
+ *           md/html)
+ *   zip     Transcript plus an attachments/ folder of the original files;
+ *           the transcript links to them by relative path
+ */
+
+import { Marked } from "marked";
+import { z } from "zod";
+import { activePath } from "@shared/message-tree";
+
+export const CHAT_EXPORT_FORMAT = "meowstik-chat";
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportFormat = "md" | "json" | "html";
+export type AttachmentMode = "inline" | "zip";
+
+const date = z.coerce.date();
+
+export const exportedAttachmentSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  filename: z.string(),
+  mimeType: z.string().nullable().optional(),
+  size: z.number().nullable().optional(),
+  path: z.string().nullable().optional(),
+  permissions: z.string().nullable().optional(),
+  createdAt: date,
+  /** "text" content is stored as-is; "base64" is a binary file */
+  encoding: z.enum(["text", "base64"]),
+  /** Inline content (absent in zip exports) */
+  content: z.string().nullable().optional(),
+  /** Path inside the zip archive (zip exports only) */
+  file: z.string().optional(),
+});
+
+export const exportedMessageSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  role: z.string(),
+  content: z.string(),
+  createdAt: date,
+  metadata: z.unknown().optional(),
+  geminiContent: z.unknown().optional(),
+  attachments: z.array(exportedAttachmentSchema).default([]),
+});
+
+export const exportedToolCallSchema = z.object({
+  id: z.string(),
+  messageId: z.string().nullable(),
+  toolCallId: z.string(),
+  toolType: z.string(),
+  status: z.string(),
+  policyDecision: z.string().nullable().optional(),
+  policyReason: z.string().nullable().optional(),
+  approvalOutcome: z.string().nullable().optional(),
+  request: z.unknown(),
+  response: z.unknown().optional(),
+  errorMessage: z.string().nullable().optional(),
+  startedAt: date,
+  completedAt: date.nullable().optional(),
+  duration: z.number().nullable().optional(),
+});
+
+export const chatExportSchema = z.object({
+  format: z.literal(CHAT_EXPORT_FORMAT),
+  version: z.literal(CHAT_EXPORT_VERSION),
+  exportedAt: date,
+  chat: z.object({
+    id: z.string(),
+    title: z.string(),
+    createdAt: date,
+    updatedAt: date,
+    activeLeafId: z.string().nullable().optional(),
+    tags: z.array(z.string()).default([]),
+  }),
+  messages: z.array(exportedMessageSchema),
+  toolCalls: z.array(exportedToolCallSchema).default([]),
+});
+
+export type ChatExport = z.infer<typeof chatExportSchema>;
+export type ExportedMessage = z.infer<typeof exportedMessageSchema>;
+export type ExportedAttachment = z.infer<typeof exportedAttachmentSchema>;
+export type ExportedToolCall = z.infer<typeof exportedToolCallSchema>;
+
+/**
+ * Whether an attachment's stored content is text (otherwise base64). Same
+ * rule the chat route uses when saving uploads.
+ */
+export function isTextAttachment(attachment: { type: string; mimeType?: string | null }): boolean {
+  const mime = attachment.mimeType ?? "";
+  return attachment.type === "voice_transcript"
+    || mime.startsWith("text/")
+    || ["application/json", "application/xml", "application/javascript"].includes(mime);
+}
+
+/**
+ * Path of an attachment inside a zip export
+ */
+export function attachmentZipPath(attachment: Pick<ExportedAttachment, "id" | "filename">): string {
+  const safeName = attachment.filename.replace(/[^\w.\- ()[\]]+/g, "_").slice(0, 120) || "file";
+  return `attachments/${attachment.id}-${safeName}`;
+}
+
+/**
+ * Download filename for a chat, e.g. "ssh-into-prod.md"
+ */
+export function exportFilename(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return `${slug || "chat"}.${extension}`;
+}
+
+/**
+ * Messages of the branch the chat shows, oldest first
+ */
+export function transcriptMessages(data: ChatExport): ExportedMessage[] {
+  return activePath(data.messages, data.chat.activeLeafId);
+}
+
+function roleLabel(role: string): string {
+  if (role === "user") return "User";
+  if (role === "ai") return "Meowstik";
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function json(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2) ?? "";
+}
+
+/** A fence longer than any backtick run in the text */
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  return "`".repeat(longest + 1);
+}
+
+function fenced(text: string, language = ""): string {
+  const marks = fence(text);
+  return `${marks}${language}\n${text}\n${marks}`;
+}
+
+function attachmentHref(attachment: ExportedAttachment, mode: AttachmentMode): string | null {
+  if (mode === "zip") return attachment.file ?? attachmentZipPath(attachment);
+  if (attachment.content == null) return null;
+  const mime = attachment.mimeType || "application/octet-stream";
+  return attachment.encoding === "base64"
+    ? `data:${mime};base64,${attachment.content}`
+    : `data:${mime};charset=utf-8,${encodeURIComponent(attachment.content)}`;
+}
+
+function toolCallsByMessage(data: ChatExport): Map<string | null, ExportedToolCall[]> {
+  const byMessage = new Map<string | null, ExportedToolCall[]>();
+  const onTranscript = new Set(transcriptMessages(data).map(m => m.id));
+  for (const call of data.toolCalls) {
+    // Calls from other branches are listed with the unattached ones
+    const key = call.messageId && onTranscript.has(call.messageId) ? call.messageId : null;
+    byMessage.set(key, [...(byMessage.get(key) ?? []), call]);
+  }
+  return byMessage;
+}
+
+// ─── Markdown ────────────────────────────────────────────────────────────────
+
+function markdownToolCall(call: ExportedToolCall): string {
+  const parts = [
+    `<details><summary>🔧 ${call.toolType} — ${call.status}</summary>`,
+    "",
+    "Request:",
+    "",
+    fenced(json(call.request), "json"),
+  ];
+  if (call.response !== undefined && call.response !== null) {
+    parts.push("", "Response:", "", fenced(json(call.response), "json"));
+  }
+  if (call.errorMessage) {
+    parts.push("", `Error: ${call.errorMessage}`);
+  }
+  parts.push("", "</details>");
+  return parts.join("\n");
+}
+
+function markdownAttachment(attachment: ExportedAttachment, mode: AttachmentMode): string {
+  const href = attachmentHref(attachment, mode);
+  const isImage = attachment.mimeType?.startsWith("image/");
+  if (mode === "inline" && attachment.encoding === "text" && attachment.content != null) {
+    return `📎 ${attachment.filename}\n\n${fenced(attachment.content)}`;
+  }
+  if (!href) return `📎 ${attachment.filename} (content not exported)`;
+  const target = `<${href}>`;
+  return isImage ? `![${attachment.filename}](${target})` : `📎 [${attachment.filename}](${target})`;
+}
+
+export function renderMarkdown(data: ChatExport, mode: AttachmentMode = "inline"): string {
+  const toolCalls = toolCallsByMessage(data);
+  const lines = [
+    `# ${data.chat.title}`,
+    "",
+    `Exported from Meowstik on ${data.exportedAt.toISOString()} · started ${data.chat.createdAt.toISOString()}`,
+  ];
+  if (data.chat.tags.length > 0) {
+    lines.push("", data.chat.tags.map(tag => `#${tag}`).join(" "));
+  }
+
+  for (const message of transcriptMessages(data)) {
+    lines.push("", "---", "", `### ${roleLabel(message.role)} · ${message.createdAt.toISOString()}`, "", message.content);
+    for (const attachment of message.attachments) {
+      lines.push("", markdownAttachment(attachment, mode));
+    }
+    for (const call of toolCalls.get(message.id) ?? []) {
+      lines.push("", markdownToolCall(call));
+    }
+  }
+
+  const unattached = toolCalls.get(null) ?? [];
+  if (unattached.length > 0) {
+    lines.push("", "---", "", "## Other tool calls");
+    for (const call of unattached) {
+      lines.push("", markdownToolCall(call));
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const SAFE_URL = /^(https?:|mailto:|data:|#|\/|\.\/|attachments\/)/i;
+
+// Message text is Markdown; raw HTML and script URLs in it are shown as text
+const transcriptMarked = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, tokens }) {
+      return SAFE_URL.test(href.trim()) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return SAFE_URL.test(href.trim()) ? false : escapeHtml(text);
+    },
+  },
+});
+
+function htmlAttachment(attachment: ExportedAttachment, mode: AttachmentMode): string {
+  const name = escapeHtml(attachment.filename);
+  if (mode === "inline" && attachment.encoding === "text" && attachment.content != null) {
+    return `<details class="attachment"><summary>📎 ${name}</summary><pre>${escapeHtml(attachment.content)}</pre></details>`;
+  }
+  const href = attachmentHref(attachment, mode);
+  if (!href) return `<p class="attachment">📎 ${name} (content not exported)</p>`;
+  const link = `<a href="${escapeHtml(href)}" download="${name}">📎 ${name}</a>`;
+  return attachment.mimeType?.startsWith("image/")
+    ? `<figure class="attachment"><img src="${escapeHtml(href)}" alt="${name}"><figcaption>${link}</figcaption></figure>`
+    : `<p class="attachment">${link}</p>`;
+}
+
+function htmlToolCall(call: ExportedToolCall): string {
+  const parts = [
+    `<details class="tool-call"><summary>🔧 ${escapeHtml(call.toolType)} — ${escapeHtml(call.status)}</summary>`,
+    `<h4>Request</h4><pre>${escapeHtml(json(call.request))}</pre>`,
+  ];
+  if (call.response !== undefined && call.response !== null) {
+    parts.push(`<h4>Response</h4><pre>${escapeHtml(json(call.response))}</pre>`);
+  }
+  if (call.errorMessage) {
+    parts.push(`<p class="error">${escapeHtml(call.errorMessage)}</p>`);
+  }
+  parts.push("</details>");
+  return parts.join("\n");
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.55; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+.meta, .tags { color: #59636e; font-size: 0.875rem; }
+article { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+article.user { background: #f6f8fa; }
+article > h3 { font-size: 0.8rem; color: #59636e; margin: 0 0 0.5rem; }
+pre { background: #f6f8fa; padding: 0.75rem; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; color: #59636e; }
+img { max-width: 100%; }
+.error { color: #cf222e; }
+`;
+
+export function renderHtml(data: ChatExport, mode: AttachmentMode = "inline"): string {
+  const toolCalls = toolCallsByMessage(data);
+  const title = escapeHtml(data.chat.title);
+  const articles = transcriptMessages(data).map(message => {
+    const body = transcriptMarked.parse(message.content, { async: false });
+    return [
+      `<article class="${escapeHtml(message.role)}">`,
+      `<h3>${escapeHtml(roleLabel(message.role))} · <time datetime="${message.createdAt.toISOString()}">${message.createdAt.toLocaleString("en-US")}</time></h3>`,
+      body,
+      ...message.attachments.map(attachment => htmlAttachment(attachment, mode)),
+      ...(toolCalls.get(message.id) ?? []).map(htmlToolCall),
+      "</article>",
+    ].join("\n");
+  });
+
+  const unattached = toolCalls.get(null) ?? [];
+  if (unattached.length > 0) {
+    articles.push(`<section><h2>Other tool calls</h2>\n${unattached.map(htmlToolCall).join("\n")}</section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<p class="meta">Exported from Meowstik on ${data.exportedAt.toISOString()} · started ${data.chat.createdAt.toISOString()}</p>
+${data.chat.tags.length > 0 ? `<p class="tags">${data.chat.tags.map(tag => `#${escapeHtml(tag)}`).join(" ")}</p>` : ""}
+</header>
+${articles.join("\n")}
+</body>
+</html>
+`;
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+
+export interface ImportedRows {
+  messages: Array<{
+    id: string;
+    parentId: string | null;
+    role: string;
+    content: string;
+    createdAt: Date;
+    metadata: unknown;
+    geminiContent: unknown;
+  }>;
+  attachments: Array<Omit<ExportedAttachment, "encoding" | "file" | "content"> & { messageId: string; content: string }>;
+  toolCalls: Array<Omit<ExportedToolCall, "messageId"> & { messageId: string | null }>;
+  activeLeafId: string | null;
+  /** Attachments left out because the export had no content for them */
+  skippedAttachments: number;
+}
+
+/**
+ * Rows for a copy of an exported chat under fresh ids, with parent links,
+ * attachments, tool calls and the active branch pointing at the new ids.
+ */
+export function prepareImport(data: ChatExport, newId: () => string): ImportedRows {
+  const ids = new Map(data.messages.map(message => [message.id, newId()]));
+  const result: ImportedRows = { messages: [], attachments: [], toolCalls: [], activeLeafId: null, skippedAttachments: 0 };
+
+  for (const message of data.messages) {
+    const id = ids.get(message.id)!;
+    result.messages.push({
+      id,
+      // Parents missing from the export make the message a root
+      parentId: message.parentId ? ids.get(message.parentId) ?? null : null,
+      role: message.role,
+      content: message.content,
+      createdAt: message.createdAt,
+      metadata: message.metadata ?? null,
+      geminiContent: message.geminiContent ?? null,
+    });
+    for (const attachment of message.attachments) {
+      if (attachment.content == null) {
+        result.skippedAttachments++;
+        continue;
+      }
+      result.attachments.push({
+        id: newId(),
+        messageId: id,
+        type: attachment.type,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        path: attachment.path,
+        permissions: attachment.permissions,
+        content: attachment.content,
+        createdAt: attachment.createdAt,
+      });
+    }
+  }
+
+  for (const call of data.toolCalls) {
+    result.toolCalls.push({
+      ...call,
+      id: newId(),
+      messageId: call.messageId ? ids.get(call.messageId) ?? null : null,
+    });
+  }
+
+  const leaf = activePath(result.messages, data.chat.activeLeafId ? ids.get(data.chat.activeLeafId) : null);
+  result.activeLeafId = leaf.length > 0 ? leaf[leaf.length - 1].id : null;
+  return result;
+}
@@ -0,0 +1,194 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - CHAT EXPORT SERVICE
+ * =============================================================================
+ *
+ * Takes conversations out of Meowstik and back in: export a chat as
+ * Markdown, JSON or HTML (attachments inline or zipped alongside), and
+ * recreate a chat from the JSON form, e.g. to move it between instances or
+ * share a transcript in a review.
+ *
+ * See format.ts for the export format and renderings.
+ */
+
+import { nanoid } from "nanoid";
+import type { Chat } from "@shared/schema";
+import { storage } from "../../storage";
+import {
+  attachmentZipPath,
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+  exportFilename,
+  isTextAttachment,
+  prepareImport,
+  renderHtml,
+  renderMarkdown,
+  type AttachmentMode,
+  type ChatExport,
+  type ChatExportFormat,
+} from "./format";
+import { createZip } from "./zip";
+
+export { chatExportSchema, type ChatExport, type ChatExportFormat, type AttachmentMode } from "./format";
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+const CONTENT_TYPES: Record<ChatExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+class ChatExportService {
+  /**
+   * The whole chat (all branches) in the portable JSON shape, or undefined
+   * if it does not exist
+   */
+  async buildExport(chatId: string): Promise<ChatExport | undefined> {
+    const chat = await storage.ensureMessageTree(chatId);
+    if (!chat) return undefined;
+
+    const chatMessages = await storage.getMessages(chatId);
+    const chatAttachments = await storage.getAttachmentsByMessageIds(chatMessages.map(m => m.id));
+    const toolCalls = await storage.getToolCallLogsByChatId(chatId);
+
+    return {
+      format: CHAT_EXPORT_FORMAT,
+      version: CHAT_EXPORT_VERSION,
+      exportedAt: new Date(),
+      chat: {
+        id: chat.id,
+        title: chat.title,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        activeLeafId: chat.activeLeafId,
+        tags: chat.tags ?? [],
+      },
+      messages: chatMessages.map(message => ({
+        id: message.id,
+        parentId: message.parentId,
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt,
+        metadata: message.metadata ?? undefined,
+        geminiContent: message.geminiContent ?? undefined,
+        attachments: chatAttachments
+          .filter(attachment => attachment.messageId === message.id)
+          .map(attachment => ({
+            id: attachment.id,
+            type: attachment.type,
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            size: attachment.size,
+            path: attachment.path,
+            permissions: attachment.permissions,
+            createdAt: attachment.createdAt,
+            encoding: isTextAttachment(attachment) ? "text" as const : "base64" as const,
+            content: attachment.content,
+          })),
+      })),
+      toolCalls: toolCalls.map(log => ({
+        id: log.id,
+        messageId: log.messageId,
+        toolCallId: log.toolCallId,
+        toolType: log.toolType,
+        status: log.status,
+        policyDecision: log.policyDecision,
+        policyReason: log.policyReason,
+        approvalOutcome: log.approvalOutcome,
+        request: log.request,
+        response: log.response ?? undefined,
+        errorMessage: log.errorMessage,
+        startedAt: log.startedAt,
+        completedAt: log.completedAt,
+        duration: log.duration,
+      })),
+    };
+  }
+
+  /**
+   * Render an export for download. In zip mode the attachments are written
+   * as files next to the transcript instead of inline.
+   */
+  render(data: ChatExport, format: ChatExportFormat, attachments: AttachmentMode): ExportFile {
+    if (attachments === "inline") {
+      return {
+        filename: exportFilename(data.chat.title, format),
+        contentType: CONTENT_TYPES[format],
+        body: this.renderTranscript(data, format, "inline"),
+      };
+    }
+
+    const files: Array<{ name: string; data: Buffer; modifiedAt: Date }> = [];
+    const zipped: ChatExport = {
+      ...data,
+      messages: data.messages.map(message => ({
+        ...message,
+        attachments: message.attachments.map(attachment => {
+          if (attachment.content == null) return attachment;
+          const file = attachmentZipPath(attachment);
+          files.push({
+            name: file,
+            data: Buffer.from(attachment.content, attachment.encoding === "base64" ? "base64" : "utf8"),
+            modifiedAt: attachment.createdAt,
+          });
+          return { ...attachment, content: undefined, file };
+        }),
+      })),
+    };
+
+    return {
+      filename: exportFilename(data.chat.title, "zip"),
+      contentType: "application/zip",
+      body: createZip([
+        { name: `chat.${format}`, data: this.renderTranscript(zipped, format, "zip") },
+        ...files,
+      ]),
+    };
+  }
+
+  /**
+   * Create a new chat from a JSON export, owned by userId (null for guests).
+   * Ids are regenerated, so importing the same file twice gives two chats.
+   */
+  async importChat(data: ChatExport, userId: string | null): Promise<{ chat: Chat; skippedAttachments: number }> {
+    const rows = prepareImport(data, nanoid);
+    const chat = await storage.importChat(
+      {
+        title: data.chat.title,
+        userId,
+        isGuest: !userId,
+        tags: data.chat.tags,
+        createdAt: data.chat.createdAt,
+        updatedAt: data.chat.updatedAt,
+      },
+      {
+        messages: rows.messages,
+        attachments: rows.attachments,
+        toolCallLogs: rows.toolCalls.map(call => ({ ...call, request: call.request ?? {} })),
+        activeLeafId: rows.activeLeafId,
+      }
+    );
+    console.log(
+      `[ChatExport] Imported "${chat.title}" as ${chat.id} (${rows.messages.length} messages, ${rows.attachments.length} attachments, ${rows.toolCalls.length} tool calls)`
+    );
+    return { chat, skippedAttachments: rows.skippedAttachments };
+  }
+
+  private renderTranscript(data: ChatExport, format: ChatExportFormat, attachments: AttachmentMode): string {
+    switch (format) {
+      case "md":
+        return renderMarkdown(data, attachments);
+      case "html":
+        return renderHtml(data, attachments);
+      case "json":
+        return JSON.stringify(data, null, 2);
+    }
+  }
+}
+
+export const chatExportService = new ChatExportService();
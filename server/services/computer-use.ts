@@ -218,6 +218,18 @@ export class ComputerUseService {
                   }
                   break;
                   
+              case 'scroll':
+                  await desktopService.performAction({
+                      type: 'scroll',
+                      direction: action.direction,
+                      amount: action.amount
+                  });
+                  break;
+
+              case 'wait':
+                  await new Promise(resolve => setTimeout(resolve, action.delay ?? 1000));
+                  break;
+
               case 'move':
                   if (typeof action.target === 'object') {
                       await desktopService.performAction({ 
@@ -0,0 +1,666 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - CRON EXPRESSIONS
+ * =============================================================================
+ *
+ * Parser and evaluator for cron expressions, kept free of storage and
+ * timers so it can be tested on its own.
+ *
+ *   ┌───────────── second (optional, 0-59)
+ *   │ ┌─────────── minute (0-59)
+ *   │ │ ┌───────── hour (0-23)
+ *   │ │ │ ┌─────── day of month (1-31, L, L-n, LW, nW, ?)
+ *   │ │ │ │ ┌───── month (1-12 or JAN-DEC)
+ *   │ │ │ │ │ ┌─── day of week (0-7 or SUN-SAT, nL, n#k, ?)
+ *   * * * * * *
+ *
+ * Every field takes lists, ranges and steps (1,3-5,10-20/2, *\/15, 5/10);
+ * ranges may wrap (FRI-MON, 22-2). @yearly, @monthly, @weekly, @daily,
+ * @midnight and @hourly are accepted as macros. As in Vixie cron, when both
+ * day fields are restricted a day matches if EITHER does.
+ *
+ * Times are evaluated as wall-clock times in an IANA time zone:
+ * - a time skipped by a DST jump fires once, at the moment of the jump
+ * - a time repeated by a DST fall-back fires once, at its first occurrence,
+ *   unless the hour field is "every hour", in which case both occurrences fire
+ */
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronParseError";
+  }
+}
+
+export interface CronSchedule {
+  /** The expression as written, or the macro's expansion */
+  source: string;
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  months: number[];
+  daysOfMonth: DayOfMonthRule;
+  daysOfWeek: DayOfWeekRule;
+  hasSeconds: boolean;
+}
+
+interface DayOfMonthRule {
+  /** "*" or "?" — unrestricted for the either/both day matching rule */
+  star: boolean;
+  days: Set<number>;
+  /** L-n offsets from the last day; L is 0 */
+  fromLast: number[];
+  /** nW: weekday nearest to day n */
+  nearestWeekday: number[];
+  /** LW: last weekday of the month */
+  lastWeekday: boolean;
+}
+
+interface DayOfWeekRule {
+  star: boolean;
+  days: Set<number>;
+  /** nL: last given weekday of the month */
+  last: Set<number>;
+  /** n#k: k-th given weekday of the month */
+  nth: Array<{ day: number; week: number }>;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const SECOND: FieldSpec = { name: "second", min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day-of-month", min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: "month", min: 1, max: 12,
+  names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"],
+};
+// 7 is accepted as Sunday and folded to 0
+const DAY_OF_WEEK: FieldSpec = {
+  name: "day-of-week", min: 0, max: 7,
+  names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+};
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"];
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS = ["", "first", "second", "third", "fourth", "fifth"];
+
+/** Far enough to find Feb 29 on a given weekday */
+const MAX_SEARCH_YEARS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+function expandMacro(expression: string): string {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith("@")) return trimmed;
+  const expansion = MACROS[trimmed.toLowerCase()];
+  if (!expansion) {
+    throw new CronParseError(`Unknown cron macro: ${trimmed}`);
+  }
+  return expansion;
+}
+
+function splitFields(expression: string): string[] {
+  const fields = expandMacro(expression).split(/\s+/).filter(Boolean);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new CronParseError(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week) or 6 with leading seconds, got ${fields.length}`
+    );
+  }
+  return fields.length === 5 ? ["0", ...fields] : fields;
+}
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  const value = named >= 0 ? named + spec.min : /^\d+$/.test(token) ? Number(token) : NaN;
+  if (Number.isNaN(value)) {
+    throw new CronParseError(`Invalid ${spec.name} value: ${token}`);
+  }
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(`Invalid ${spec.name} value: ${token} (must be ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+/** start..end by step, wrapping past max back to min when start > end */
+function expandRange(start: number, end: number, step: number, min: number, max: number): number[] {
+  const values: number[] = [];
+  const size = max - min + 1;
+  const length = start <= end ? end - start + 1 : (max - start + 1) + (end - min + 1);
+  for (let i = 0; i < length; i += step) {
+    values.push(min + ((start - min + i) % size));
+  }
+  return values;
+}
+
+/** One comma-separated item: *, a, a-b, with an optional /step */
+function parseItem(item: string, spec: FieldSpec): number[] {
+  const [base, stepText, ...extra] = item.split("/");
+  if (extra.length > 0 || base === "" || stepText === "") {
+    throw new CronParseError(`Invalid ${spec.name} field: ${item}`);
+  }
+
+  let step = 1;
+  if (stepText !== undefined) {
+    if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+      throw new CronParseError(`Invalid step in ${spec.name} field: ${item}`);
+    }
+    step = Number(stepText);
+  }
+
+  // Day-of-week ranges wrap within 0-6; 7 only closes a range (5-7)
+  const wrapMax = spec === DAY_OF_WEEK ? 6 : spec.max;
+
+  if (base === "*") {
+    return expandRange(spec.min, wrapMax, step, spec.min, wrapMax);
+  }
+
+  const range = base.split("-");
+  if (range.length > 2) {
+    throw new CronParseError(`Invalid ${spec.name} range: ${item}`);
+  }
+  const start = parseValue(range[0], spec);
+  if (range.length === 1) {
+    // "a/n" runs from a to the end of the field
+    return stepText === undefined ? [start] : expandRange(start, wrapMax, step, spec.min, wrapMax);
+  }
+  const end = parseValue(range[1], spec);
+  if (spec === DAY_OF_WEEK && (start === 7 || end === 7)) {
+    return start === 7 ? expandRange(0, end === 7 ? 0 : end, step, 0, 6) : expandRange(start, 7, step, 0, 7);
+  }
+  return expandRange(start, end, step, spec.min, wrapMax);
+}
+
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+  for (const item of field.split(",")) {
+    for (const value of parseItem(item, spec)) {
+      values.add(spec === DAY_OF_WEEK && value === 7 ? 0 : value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseDayOfMonth(field: string): DayOfMonthRule {
+  const rule: DayOfMonthRule = {
+    star: field === "?" || field.startsWith("*"),
+    days: new Set(),
+    fromLast: [],
+    nearestWeekday: [],
+    lastWeekday: false,
+  };
+  if (field === "?") {
+    rule.days = new Set(expandRange(1, 31, 1, 1, 31));
+    return rule;
+  }
+
+  for (const item of field.split(",")) {
+    const upper = item.toUpperCase();
+    const fromLast = /^L(?:-(\d+))?$/.exec(upper);
+    const nearest = /^(\d+)W$/.exec(upper);
+    if (upper === "LW") {
+      rule.lastWeekday = true;
+    } else if (fromLast) {
+      const offset = Number(fromLast[1] ?? 0);
+      if (offset > 30) {
+        throw new CronParseError(`Invalid day-of-month offset: ${item} (must be L-0 to L-30)`);
+      }
+      rule.fromLast.push(offset);
+    } else if (nearest) {
+      rule.nearestWeekday.push(parseValue(nearest[1], DAY_OF_MONTH));
+    } else {
+      for (const day of parseItem(item, DAY_OF_MONTH)) {
+        rule.days.add(day);
+      }
+    }
+  }
+  return rule;
+}
+
+function parseDayOfWeek(field: string): DayOfWeekRule {
+  const rule: DayOfWeekRule = {
+    star: field === "?" || field.startsWith("*"),
+    days: new Set(),
+    last: new Set(),
+    nth: [],
+  };
+  if (field === "?") {
+    rule.days = new Set(expandRange(0, 6, 1, 0, 6));
+    return rule;
+  }
+
+  for (const item of field.split(",")) {
+    const last = /^(\w+)L$/i.exec(item);
+    const nth = /^(\w+)#(\d+)$/.exec(item);
+    if (last) {
+      rule.last.add(parseValue(last[1], DAY_OF_WEEK) % 7);
+    } else if (nth) {
+      const week = Number(nth[2]);
+      if (week < 1 || week > 5) {
+        throw new CronParseError(`Invalid day-of-week occurrence: ${item} (must be #1 to #5)`);
+      }
+      rule.nth.push({ day: parseValue(nth[1], DAY_OF_WEEK) % 7, week });
+    } else if (item.toUpperCase() === "L") {
+      throw new CronParseError("L in day-of-week needs a day, e.g. 5L for the last Friday");
+    } else {
+      for (const day of parseItem(item, DAY_OF_WEEK)) {
+        rule.days.add(day % 7);
+      }
+    }
+  }
+  return rule;
+}
+
+/**
+ * Parse a cron expression, throwing CronParseError with the offending field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = splitFields(expression);
+  if (dayOfMonth === "?" && dayOfWeek === "?") {
+    throw new CronParseError("Only one of day-of-month and day-of-week can be ?");
+  }
+  return {
+    source: expandMacro(expression),
+    seconds: parseField(second, SECOND),
+    minutes: parseField(minute, MINUTE),
+    hours: parseField(hour, HOUR),
+    months: parseField(month, MONTH),
+    daysOfMonth: parseDayOfMonth(dayOfMonth),
+    daysOfWeek: parseDayOfWeek(dayOfWeek),
+    hasSeconds: expandMacro(expression).split(/\s+/).filter(Boolean).length === 6,
+  };
+}
+
+export function isValidCron(expression: string): { valid: boolean; error?: string } {
+  try {
+    parseCron(expression);
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof CronParseError) {
+      return { valid: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Calendar
+// -----------------------------------------------------------------------------
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** The weekday nearest the given day without leaving the month */
+function nearestWeekdayTo(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  const target = Math.min(day, last);
+  const dow = weekday(year, month, target);
+  if (dow === 6) return target === 1 ? 3 : target - 1;
+  if (dow === 0) return target === last ? target - 2 : target + 1;
+  return target;
+}
+
+function matchesDayOfMonth(rule: DayOfMonthRule, year: number, month: number, day: number): boolean {
+  if (rule.days.has(day)) return true;
+  const last = daysInMonth(year, month);
+  if (rule.fromLast.some(offset => last - offset === day)) return true;
+  if (rule.lastWeekday && nearestWeekdayTo(year, month, last) === day) return true;
+  return rule.nearestWeekday.some(target => nearestWeekdayTo(year, month, target) === day);
+}
+
+function matchesDayOfWeek(rule: DayOfWeekRule, year: number, month: number, day: number): boolean {
+  const dow = weekday(year, month, day);
+  if (rule.days.has(dow)) return true;
+  if (rule.last.has(dow) && day + 7 > daysInMonth(year, month)) return true;
+  return rule.nth.some(nth => nth.day === dow && Math.ceil(day / 7) === nth.week);
+}
+
+function matchesDay(cron: CronSchedule, year: number, month: number, day: number): boolean {
+  const dom = matchesDayOfMonth(cron.daysOfMonth, year, month, day);
+  const dow = matchesDayOfWeek(cron.daysOfWeek, year, month, day);
+  return cron.daysOfMonth.star || cron.daysOfWeek.star ? dom && dow : dom || dow;
+}
+
+// -----------------------------------------------------------------------------
+// Time zones
+// -----------------------------------------------------------------------------
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isUtc(timeZone: string): boolean {
+  return timeZone === "UTC" || timeZone === "Etc/UTC";
+}
+
+function wallTimeAt(instant: number, timeZone: string): WallTime {
+  if (isUtc(timeZone)) {
+    const date = new Date(instant);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+    };
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallTimeToUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+/** Local minus UTC, in ms, at an instant */
+function offsetAt(instant: number, timeZone: string): number {
+  const whole = instant - (((instant % 1000) + 1000) % 1000);
+  return wallTimeToUtc(wallTimeAt(whole, timeZone)) - whole;
+}
+
+/**
+ * The instants showing a wall-clock time: usually one, two during a
+ * fall-back overlap, and — for a time skipped by a DST jump — the instant
+ * of the jump
+ */
+function wallTimeToInstants(wall: WallTime, timeZone: string): number[] {
+  const local = wallTimeToUtc(wall);
+  if (isUtc(timeZone)) return [local];
+
+  const offsets = Array.from(new Set([offsetAt(local - DAY_MS, timeZone), offsetAt(local + DAY_MS, timeZone)]));
+  const candidates = offsets.map(offset => local - offset).sort((a, b) => a - b);
+  const instants = candidates.filter(instant => offsetAt(instant, timeZone) === local - instant);
+  if (instants.length > 0 || candidates.length < 2) return instants;
+
+  // Skipped time: find the first second on the far side of the jump
+  let before = candidates[0];
+  let after = candidates[candidates.length - 1];
+  const offsetAfter = offsetAt(after, timeZone);
+  while (after - before > 1000) {
+    const middle = before + Math.floor((after - before) / 2000) * 1000;
+    if (offsetAt(middle, timeZone) === offsetAfter) {
+      after = middle;
+    } else {
+      before = middle;
+    }
+  }
+  return [after];
+}
+
+// -----------------------------------------------------------------------------
+// Evaluation
+// -----------------------------------------------------------------------------
+
+/**
+ * The first fire time strictly after `after`, or null if the expression
+ * never matches (e.g. February 30th)
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date, timeZone = "UTC"): Date | null {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+  const from = Math.floor(after.getTime() / 1000) * 1000 + 1000;
+  const everyHour = cron.hours.length === 24;
+
+  // Around a fall-back, wall times earlier than `from` can still have a
+  // second occurrence after it, so start that much earlier
+  const rewind = isUtc(timeZone) ? 0 : Math.max(
+    0,
+    offsetAt(from - DAY_MS, timeZone) - offsetAt(from, timeZone),
+    offsetAt(from, timeZone) - offsetAt(from + DAY_MS, timeZone),
+  );
+  const start = wallTimeAt(from - rewind, timeZone);
+
+  let best: number | null = null;
+  for (let year = start.year; year <= start.year + MAX_SEARCH_YEARS; year++) {
+    for (const month of cron.months) {
+      if (year === start.year && month < start.month) continue;
+      const firstMonth = year === start.year && month === start.month;
+      const lastDay = daysInMonth(year, month);
+
+      for (let day = firstMonth ? start.day : 1; day <= lastDay; day++) {
+        if (!matchesDay(cron, year, month, day)) continue;
+        const firstDay = firstMonth && day === start.day;
+
+        for (const hour of cron.hours) {
+          if (firstDay && hour < start.hour) continue;
+          const firstHour = firstDay && hour === start.hour;
+
+          for (const minute of cron.minutes) {
+            if (firstHour && minute < start.minute) continue;
+            const firstMinute = firstHour && minute === start.minute;
+
+            for (const second of cron.seconds) {
+              if (firstMinute && second < start.second) continue;
+
+              const instants = wallTimeToInstants({ year, month, day, hour, minute, second }, timeZone);
+              // Wall times are visited in order of their first instant
+              if (best !== null && instants[0] > best) return new Date(best);
+              for (const instant of everyHour ? instants : instants.slice(0, 1)) {
+                if (instant >= from && (best === null || instant < best)) {
+                  best = instant;
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  return best === null ? null : new Date(best);
+}
+
+/**
+ * The next `count` fire times after `after`
+ */
+export function nextCronRuns(expression: string | CronSchedule, count: number, after: Date, timeZone = "UTC"): Date[] {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+  const runs: Date[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const next = nextCronRun(cron, cursor, timeZone);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+// -----------------------------------------------------------------------------
+// Description
+// -----------------------------------------------------------------------------
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+/**
+ * "every 15th minute from 0 through 30", "minute 5 and 10", ... Named
+ * fields read as "Monday through Friday" and "March and June".
+ */
+function describeItems(field: string, unit: string, label: (token: string) => string, named = false): string {
+  const values: string[] = [];
+  const phrases: string[] = [];
+
+  for (const item of field.split(",")) {
+    const [base, step] = item.split("/");
+    const [start, end] = base.split("-");
+    const every = step ? `every ${ordinal(Number(step))} ${unit}` : `every ${unit}`;
+    if (base === "*") {
+      phrases.push(every);
+    } else if (end !== undefined) {
+      phrases.push(named && !step
+        ? `${label(start)} through ${label(end)}`
+        : `${every} from ${label(start)} through ${label(end)}`);
+    } else if (step) {
+      phrases.push(`${every} from ${label(start)}`);
+    } else {
+      values.push(label(base));
+    }
+  }
+
+  if (values.length > 0) {
+    phrases.unshift(named ? joinList(values) : `${unit} ${joinList(values)}`);
+  }
+  return joinList(phrases);
+}
+
+function dayName(token: string): string {
+  const index = DAY_OF_WEEK.names!.indexOf(token.toUpperCase());
+  return DAY_NAMES[(index >= 0 ? index : Number(token)) % 7] ?? token;
+}
+
+function monthName(token: string): string {
+  const index = MONTH.names!.indexOf(token.toUpperCase());
+  return MONTH_NAMES[index >= 0 ? index : Number(token) - 1] ?? token;
+}
+
+function describeDayOfMonth(field: string): string {
+  const plain: string[] = [];
+  const phrases: string[] = [];
+  for (const item of field.split(",")) {
+    const upper = item.toUpperCase();
+    const fromLast = /^L-(\d+)$/.exec(upper);
+    const nearest = /^(\d+)W$/.exec(upper);
+    if (upper === "L") phrases.push("the last day of the month");
+    else if (upper === "LW") phrases.push("the last weekday of the month");
+    else if (fromLast) phrases.push(`${fromLast[1]} days before the last day of the month`);
+    else if (nearest) phrases.push(`the weekday nearest day ${nearest[1]}`);
+    else plain.push(item);
+  }
+  if (plain.length > 0) {
+    phrases.unshift(describeItems(plain.join(","), "day-of-month", token => token));
+  }
+  return `on ${joinList(phrases)}`;
+}
+
+function describeDayOfWeek(field: string): string {
+  const plain: string[] = [];
+  const phrases: string[] = [];
+  for (const item of field.split(",")) {
+    const last = /^(\w+)L$/i.exec(item);
+    const nth = /^(\w+)#(\d+)$/.exec(item);
+    if (last) phrases.push(`the last ${dayName(last[1])} of the month`);
+    else if (nth) phrases.push(`the ${ORDINALS[Number(nth[2])]} ${dayName(nth[1])} of the month`);
+    else plain.push(item);
+  }
+  if (plain.length > 0) {
+    phrases.unshift(describeItems(plain.join(","), "day-of-week", dayName, true));
+  }
+  return `on ${joinList(phrases)}`;
+}
+
+function pad(token: string): string {
+  return token.padStart(2, "0");
+}
+
+/**
+ * Plain-English description, e.g. "At 09:00 on Monday through Friday"
+ */
+export function describeCron(expression: string): string {
+  const cron = parseCron(expression);
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = splitFields(expression);
+  const single = (field: string) => /^\d+$/.test(field);
+
+  let text: string;
+  if (single(minute) && single(hour) && single(second)) {
+    text = `At ${pad(hour)}:${pad(minute)}${second !== "0" ? `:${pad(second)}` : ""}`;
+  } else {
+    const parts: string[] = [];
+    if (cron.hasSeconds && second !== "0") parts.push(describeItems(second, "second", token => token));
+    if (!(minute === "*" && parts.length > 0 && hour === "*")) {
+      parts.push(describeItems(minute, "minute", token => token));
+    }
+    if (hour !== "*") {
+      parts.push(describeItems(hour, "hour", token => token));
+    }
+    text = `At ${parts.join(" past ")}`;
+  }
+
+  const restricted = (field: string) => field !== "*" && field !== "?";
+  const days: string[] = [];
+  if (restricted(dayOfMonth)) days.push(describeDayOfMonth(dayOfMonth));
+  if (restricted(dayOfWeek)) days.push(describeDayOfWeek(dayOfWeek));
+  if (days.length > 0) {
+    // Either day field may match unless one of them starts with "*"
+    const either = !cron.daysOfMonth.star && !cron.daysOfWeek.star;
+    text += ` ${days.join(either ? " or " : " and ")}`;
+  }
+
+  if (month !== "*") {
+    text += ` in ${describeItems(month, "month", monthName, true)}`;
+  }
+  return text;
+}
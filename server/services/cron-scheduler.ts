@@ -7,23 +7,22 @@
  * Manages scheduled task execution based on cron expressions.
  * 
  * Features:
- * - Parse and evaluate cron expressions
- * - Calculate next run times
+ * - Parse and evaluate cron expressions (see cron-expression.ts)
+ * - Calculate next run times in each schedule's time zone
  * - Create tasks from schedule templates
- * - Handle timezone conversions
+ * - Catch up on missed runs and avoid overlaps (see schedule-policy.ts)
+ * - Record every firing in schedule_runs
  * - Track consecutive failures
  */
 
 import { storage } from "../storage";
-import { type Schedule } from "@shared/schema";
+import { type AgentJob, type Schedule, type ScheduleRun } from "@shared/schema";
 import { workflowExecutor } from "./workflow-executor";
+import { workflowEngine } from "./workflow-engine";
+import { describeCron, isValidCron, isValidTimeZone, nextCronRun, nextCronRuns } from "./cron-expression";
+import { dueOccurrences, jitterDelayMs, MAX_TRACKED_OCCURRENCES, planDueRuns } from "./schedule-policy";
 
-// Cron field positions
-const MINUTE = 0;
-const HOUR = 1;
-const DAY_OF_MONTH = 2;
-const MONTH = 3;
-const DAY_OF_WEEK = 4;
+const MIN_POLL_DELAY_MS = 1000;
 
 class CronScheduler {
   private isRunning = false;
@@ -64,7 +63,7 @@ class CronScheduler {
     
     for (const schedule of schedules) {
       if (!schedule.nextRunAt) {
-        const nextRun = this.getNextRunTime(schedule.cronExpression);
+        const nextRun = this.getNextRunTime(schedule.cronExpression, schedule.timezone);
         await storage.updateSchedule(schedule.id, { nextRunAt: nextRun } as any);
       }
     }
@@ -82,7 +81,21 @@ class CronScheduler {
       console.error("[CronScheduler] Poll error:", error);
     }
     
-    this.pollInterval = setTimeout(() => this.poll(), this.pollIntervalMs);
+    this.pollInterval = setTimeout(() => this.poll(), await this.getPollDelay());
+  }
+  
+  /**
+   * Wait until the next schedule is due, up to the poll interval, so
+   * sub-minute schedules fire on time
+   */
+  private async getPollDelay(): Promise<number> {
+    try {
+      const schedules: Schedule[] = await storage.getSchedules({ enabled: true });
+      const soonest = Math.min(...schedules.map(schedule => schedule.nextRunAt?.getTime() ?? Infinity));
+      return Math.max(MIN_POLL_DELAY_MS, Math.min(this.pollIntervalMs, soonest - Date.now()));
+    } catch {
+      return this.pollIntervalMs;
+    }
   }
   
   /**
@@ -93,51 +106,168 @@ class CronScheduler {
     
     for (const schedule of dueSchedules) {
       try {
-        await this.runSchedule(schedule);
-        
-        // Calculate next run time
-        const nextRun = this.getNextRunTime(schedule.cronExpression);
-        
-        await storage.updateSchedule(schedule.id, {
-          lastRunAt: new Date(),
-          nextRunAt: nextRun,
-          runCount: (schedule.runCount || 0) + 1,
-          consecutiveFailures: 0,
-          lastError: undefined
-        } as any);
-        
-        console.log(`[CronScheduler] Ran schedule: ${schedule.name}, next run: ${nextRun}`);
-        
+        await this.processSchedule(schedule);
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const failures = (schedule.consecutiveFailures || 0) + 1;
-        
-        // Disable schedule if too many consecutive failures
-        const shouldDisable = failures >= (schedule.maxConsecutiveFailures || 3);
-        
-        await storage.updateSchedule(schedule.id, {
-          lastError: errorMessage,
-          consecutiveFailures: failures,
-          enabled: !shouldDisable,
-          nextRunAt: shouldDisable ? undefined : this.getNextRunTime(schedule.cronExpression)
-        } as any);
-        
-        console.error(`[CronScheduler] Schedule ${schedule.name} failed (${failures}x):`, errorMessage);
-        
-        if (shouldDisable) {
-          console.warn(`[CronScheduler] Disabled schedule ${schedule.name} after ${failures} consecutive failures`);
-        }
+        console.error(`[CronScheduler] Failed to process schedule ${schedule.name}:`, error);
+      }
+    }
+  }
+  
+  /**
+   * Fire, skip or record as missed every occurrence of a schedule that came
+   * due since its nextRunAt, according to its misfire and concurrency policies
+   */
+  private async processSchedule(schedule: Schedule) {
+    const now = new Date();
+    const { occurrences, truncated } = dueOccurrences(
+      schedule.cronExpression,
+      schedule.nextRunAt ?? now,
+      now,
+      schedule.timezone
+    );
+    const plan = planDueRuns(occurrences, now, {
+      misfirePolicy: schedule.misfirePolicy,
+      graceMs: schedule.misfireGraceSeconds * 1000,
+      maxCatchUp: Math.min(schedule.maxCatchUp, MAX_TRACKED_OCCURRENCES),
+    });
+    
+    if (truncated) {
+      console.warn(`[CronScheduler] Schedule ${schedule.name}: only the last ${occurrences.length} missed occurrences are recorded`);
+    }
+    for (const scheduledFor of plan.missed) {
+      await storage.createScheduleRun({
+        scheduleId: schedule.id,
+        scheduledFor,
+        status: "missed",
+        reason: `Missed while the scheduler was not running (misfire policy: ${schedule.misfirePolicy})`,
+      });
+    }
+    
+    let fired = 0;
+    let lastError: string | null = null;
+    for (const scheduledFor of plan.fire) {
+      const run = await this.fire(schedule, scheduledFor, "cron");
+      if (run.status === "fired") fired++;
+      if (run.status === "failed") lastError = run.reason;
+    }
+    
+    const nextRun = this.getNextRunTime(schedule.cronExpression, schedule.timezone, now);
+    
+    if (lastError) {
+      const failures = (schedule.consecutiveFailures || 0) + 1;
+      
+      // Disable schedule if too many consecutive failures
+      const shouldDisable = failures >= (schedule.maxConsecutiveFailures || 3);
+      
+      await storage.updateSchedule(schedule.id, {
+        lastError,
+        consecutiveFailures: failures,
+        runCount: (schedule.runCount || 0) + fired,
+        enabled: !shouldDisable,
+        nextRunAt: shouldDisable ? undefined : nextRun
+      } as any);
+      
+      console.error(`[CronScheduler] Schedule ${schedule.name} failed (${failures}x):`, lastError);
+      
+      if (shouldDisable) {
+        console.warn(`[CronScheduler] Disabled schedule ${schedule.name} after ${failures} consecutive failures`);
       }
+      return;
+    }
+    
+    await storage.updateSchedule(schedule.id, {
+      ...(fired > 0 ? { lastRunAt: now, consecutiveFailures: 0, lastError: null } : {}),
+      nextRunAt: nextRun,
+      runCount: (schedule.runCount || 0) + fired,
+    } as any);
+    
+    console.log(`[CronScheduler] Schedule ${schedule.name}: started ${fired} of ${plan.fire.length} due runs, ${plan.missed.length} missed, next run: ${nextRun}`);
+  }
+  
+  /**
+   * Run a schedule immediately, outside its cron times
+   */
+  async runNow(schedule: Schedule): Promise<ScheduleRun> {
+    const run = await this.fire(schedule, new Date(), "manual");
+    if (run.status === "fired") {
+      await storage.updateSchedule(schedule.id, {
+        lastRunAt: new Date(),
+        runCount: (schedule.runCount || 0) + 1,
+      } as any);
+    }
+    return run;
+  }
+  
+  /**
+   * Start one occurrence under the schedule's concurrency policy and record it
+   */
+  private async fire(schedule: Schedule, scheduledFor: Date, trigger: "cron" | "manual"): Promise<ScheduleRun> {
+    const active = schedule.concurrencyPolicy === "allow"
+      ? undefined
+      : await storage.getActiveScheduleRun(schedule.id);
+    
+    if (active && schedule.concurrencyPolicy === "skip") {
+      return storage.createScheduleRun({
+        scheduleId: schedule.id,
+        trigger,
+        scheduledFor,
+        status: "skipped",
+        reason: `Previous run (job ${active.jobId}) is still ${active.jobStatus}`,
+        jobId: null,
+      });
+    }
+    
+    try {
+      const delayMs = trigger === "cron" ? jitterDelayMs(schedule.jitterSeconds) : 0;
+      const job = await this.runSchedule(schedule, {
+        scheduledFor,
+        dependencies: active ? [active.jobId] : undefined,
+        startAt: delayMs > 0 ? new Date(Date.now() + delayMs) : undefined,
+      });
+      return storage.createScheduleRun({
+        scheduleId: schedule.id,
+        trigger,
+        scheduledFor,
+        firedAt: new Date(),
+        status: "fired",
+        reason: active ? `Queued behind job ${active.jobId}` : null,
+        jobId: job.id,
+      });
+    } catch (error) {
+      return storage.createScheduleRun({
+        scheduleId: schedule.id,
+        trigger,
+        scheduledFor,
+        status: "failed",
+        reason: error instanceof Error ? error.message : String(error),
+        jobId: null,
+      });
     }
   }
   
   /**
    * Run a schedule - create task(s) from its template
    */
-  private async runSchedule(schedule: Schedule) {
+  private async runSchedule(
+    schedule: Schedule,
+    options: { scheduledFor: Date; dependencies?: string[]; startAt?: Date }
+  ): Promise<AgentJob> {
+    const scheduleInput = {
+      scheduledBy: schedule.id,
+      scheduleName: schedule.name,
+      scheduledAt: options.scheduledFor.toISOString()
+    };
+    
     // If schedule has a workflow, instantiate it
     if (schedule.workflowId) {
       const workflow = await storage.getWorkflowById(schedule.workflowId);
+      if (workflow?.definition) {
+        return workflowEngine.startRun(workflow, {
+          context: scheduleInput,
+          dependencies: options.dependencies,
+          startAt: options.startAt,
+        });
+      }
       if (workflow) {
         const steps = workflow.steps as Array<{
           title: string;
@@ -147,19 +277,19 @@ class CronScheduler {
         }>;
         
         // Use the new job system via workflowExecutor
-        await workflowExecutor.submitWorkflow(
+        return workflowExecutor.submitWorkflow(
           workflow.name,
           steps.map((step, idx) => ({
             title: step.title,
             description: step.description,
             taskType: step.taskType || "action",
             priority: step.priority ?? (steps.length - idx),
-            input: { scheduledBy: schedule.id, scheduleName: schedule.name }
+            input: scheduleInput,
+            dependencies: idx === 0 ? options.dependencies : undefined,
+            scheduledFor: options.startAt
           })),
           "sequential"
         );
-        
-        return;
       }
     }
     
@@ -172,205 +302,60 @@ class CronScheduler {
       input?: Record<string, unknown>;
     };
     
-    await workflowExecutor.submitTask({
+    return workflowExecutor.submitTask({
       title: template.title,
       description: template.description,
       taskType: template.taskType || "action",
       priority: template.priority || 5,
       input: {
         ...template.input,
-        scheduledBy: schedule.id,
-        scheduleName: schedule.name,
-        scheduledAt: new Date().toISOString()
-      }
+        ...scheduleInput
+      },
+      dependencies: options.dependencies,
+      scheduledFor: options.startAt
     });
   }
   
   /**
-   * Parse a cron expression and get the next run time
-   * Format: minute hour day-of-month month day-of-week
+   * Get the next run time of a cron expression in a time zone
+   * Format: [second] minute hour day-of-month month day-of-week, or a macro
    * Example: "0 9 * * 1" = Every Monday at 9:00 AM
    */
-  getNextRunTime(cronExpression: string): Date {
-    const parts = cronExpression.trim().split(/\s+/);
-    if (parts.length !== 5) {
-      throw new Error(`Invalid cron expression: ${cronExpression}`);
-    }
-    
-    const now = new Date();
-    const next = new Date(now);
-    next.setSeconds(0);
-    next.setMilliseconds(0);
-    
-    // Add 1 minute to ensure we're looking at future times
-    next.setMinutes(next.getMinutes() + 1);
-    
-    // Try to find next matching time (limit iterations to prevent infinite loops)
-    for (let attempts = 0; attempts < 366 * 24 * 60; attempts++) {
-      if (this.matchesCron(next, parts)) {
-        return next;
-      }
-      next.setMinutes(next.getMinutes() + 1);
+  getNextRunTime(cronExpression: string, timezone = "UTC", after: Date = new Date()): Date {
+    const next = nextCronRun(cronExpression, after, timezone);
+    if (!next) {
+      throw new Error(`Could not calculate next run time for: ${cronExpression}`);
     }
-    
-    throw new Error(`Could not calculate next run time for: ${cronExpression}`);
+    return next;
   }
   
   /**
-   * Check if a date matches a cron expression
+   * Get the next `count` run times, for previews
    */
-  private matchesCron(date: Date, parts: string[]): boolean {
-    const minute = date.getMinutes();
-    const hour = date.getHours();
-    const dayOfMonth = date.getDate();
-    const month = date.getMonth() + 1; // JavaScript months are 0-indexed
-    const dayOfWeek = date.getDay(); // 0 = Sunday
-    
-    return (
-      this.matchesField(parts[MINUTE], minute, 0, 59) &&
-      this.matchesField(parts[HOUR], hour, 0, 23) &&
-      this.matchesField(parts[DAY_OF_MONTH], dayOfMonth, 1, 31) &&
-      this.matchesField(parts[MONTH], month, 1, 12) &&
-      this.matchesField(parts[DAY_OF_WEEK], dayOfWeek, 0, 6)
-    );
+  getNextRunTimes(cronExpression: string, timezone = "UTC", count = 5, after: Date = new Date()): Date[] {
+    return nextCronRuns(cronExpression, count, after, timezone);
   }
   
   /**
-   * Check if a value matches a cron field
-   * Supports: asterisk, specific values, ranges, steps, lists
+   * Validate a cron expression
    */
-  private matchesField(field: string, value: number, min: number, max: number): boolean {
-    if (field === "*") return true;
-    
-    // Handle step values (*/5)
-    if (field.startsWith("*/")) {
-      const step = parseInt(field.slice(2));
-      return value % step === 0;
-    }
-    
-    // Handle ranges (1-5)
-    if (field.includes("-")) {
-      const [start, end] = field.split("-").map(Number);
-      return value >= start && value <= end;
-    }
-    
-    // Handle lists (1,3,5)
-    if (field.includes(",")) {
-      const values = field.split(",").map(Number);
-      return values.includes(value);
-    }
-    
-    // Specific value
-    return parseInt(field) === value;
+  isValidCronExpression(expression: string): { valid: boolean; error?: string } {
+    return isValidCron(expression);
   }
   
   /**
-   * Validate a cron expression
+   * Validate an IANA time zone name
    */
-  isValidCronExpression(expression: string): { valid: boolean; error?: string } {
-    const parts = expression.trim().split(/\s+/);
-    
-    if (parts.length !== 5) {
-      return { valid: false, error: "Cron expression must have 5 fields: minute hour day-of-month month day-of-week" };
-    }
-    
-    const fieldNames = ["minute", "hour", "day-of-month", "month", "day-of-week"];
-    const ranges = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 6]];
-    
-    for (let i = 0; i < 5; i++) {
-      const field = parts[i];
-      const [min, max] = ranges[i];
-      
-      if (field === "*") continue;
-      
-      if (field.startsWith("*/")) {
-        const step = parseInt(field.slice(2));
-        if (isNaN(step) || step <= 0) {
-          return { valid: false, error: `Invalid step value in ${fieldNames[i]}: ${field}` };
-        }
-        continue;
-      }
-      
-      // Extract all numbers from the field
-      const numbers = field.split(/[-,]/).map(Number);
-      for (const num of numbers) {
-        if (isNaN(num) || num < min || num > max) {
-          return { valid: false, error: `Invalid value in ${fieldNames[i]}: ${num} (must be ${min}-${max})` };
-        }
-      }
-    }
-    
-    return { valid: true };
+  isValidTimezone(timezone: string): boolean {
+    return isValidTimeZone(timezone);
   }
   
   /**
    * Get human-readable description of a cron expression
    */
   describeCronExpression(expression: string): string {
-    const parts = expression.trim().split(/\s+/);
-    if (parts.length !== 5) return "Invalid expression";
-    
-    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
-    
-    // Common patterns
-    if (minute === "0" && hour === "*" && dayOfMonth === "*" && month === "*" && dayOfWeek === "*") {
-      return "Every hour at minute 0";
-    }
-    
-    if (minute === "0" && hour === "0" && dayOfMonth === "*" && month === "*" && dayOfWeek === "*") {
-      return "Every day at midnight";
-    }
-    
-    if (minute === "0" && hour === "9" && dayOfMonth === "*" && month === "*" && dayOfWeek === "1-5") {
-      return "Weekdays at 9:00 AM";
-    }
-    
-    if (minute === "0" && hour === "9" && dayOfMonth === "*" && month === "*" && dayOfWeek === "1") {
-      return "Every Monday at 9:00 AM";
-    }
-    
-    // Generic description
-    let desc = "";
-    
-    if (minute === "*" && hour === "*") {
-      desc = "Every minute";
-    } else if (minute === "*") {
-      desc = `Every minute of hour ${hour}`;
-    } else if (hour === "*") {
-      desc = `Every hour at minute ${minute}`;
-    } else {
-      desc = `At ${hour}:${minute.padStart(2, "0")}`;
-    }
-    
-    if (dayOfWeek !== "*") {
-      const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      if (dayOfWeek.includes("-")) {
-        const [start, end] = dayOfWeek.split("-").map(Number);
-        desc += ` ${days[start]} to ${days[end]}`;
-      } else if (dayOfWeek.includes(",")) {
-        const dayNums = dayOfWeek.split(",").map(Number);
-        desc += ` on ${dayNums.map(d => days[d]).join(", ")}`;
-      } else {
-        desc += ` on ${days[parseInt(dayOfWeek)]}`;
-      }
-    }
-    
-    if (dayOfMonth !== "*") {
-      desc += ` on day ${dayOfMonth}`;
-    }
-    
-    if (month !== "*") {
-      const months = ["", "January", "February", "March", "April", "May", "June",
-                      "July", "August", "September", "October", "November", "December"];
-      if (month.includes(",")) {
-        const monthNums = month.split(",").map(Number);
-        desc += ` in ${monthNums.map(m => months[m]).join(", ")}`;
-      } else {
-        desc += ` in ${months[parseInt(month)]}`;
-      }
-    }
-    
-    return desc;
+    const validation = isValidCron(expression);
+    return validation.valid ? describeCron(expression) : "Invalid expression";
   }
 }
 
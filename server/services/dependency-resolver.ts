@@ -10,11 +10,15 @@
  * - Cycle detection
  * - Dependency chain analysis
  * - Ready-to-run job identification
+ *
+ * The graph algorithms themselves live in @shared/dag so the workflow DSL
+ * can validate step graphs with the same rules.
  */
 
 import { getDb } from "../db";
 import { agentJobs, jobResults, type AgentJob, type JobResult } from "@shared/schema";
 import { eq, inArray, and } from "drizzle-orm";
+import { findCycles, topologicalOrder, validateGraph, type DagNode, type GraphValidation } from "@shared/dag";
 
 export interface DependencyGraph {
   nodes: Map<string, AgentJob>;
@@ -93,7 +97,7 @@ class DependencyResolverService {
 
       const statusMap = new Map<string, string | null>(depStatuses.map((d: AgentJob) => [d.id, d.status]));
 
-      const failedDepIds = deps.filter((id: string) => statusMap.get(id) === "failed");
+      const failedDepIds = deps.filter((id: string) => statusMap.get(id) === "failed" || statusMap.get(id) === "dead_letter");
       if (failedDepIds.length > 0) {
         failedDeps.push({ jobId: job.id, failedDependencies: failedDepIds });
         continue;
@@ -113,71 +117,19 @@ class DependencyResolverService {
   }
 
   private async detectCycles(jobs: AgentJob[]): Promise<string[][]> {
-    const cycles: string[][] = [];
-    const visited = new Set<string>();
-    const recStack = new Set<string>();
-    const jobMap = new Map(jobs.map(j => [j.id, j]));
-
-    const dfs = (jobId: string, path: string[]): boolean => {
-      visited.add(jobId);
-      recStack.add(jobId);
-
-      const job = jobMap.get(jobId);
-      if (!job) return false;
-
-      for (const depId of job.dependencies ?? []) {
-        if (!visited.has(depId)) {
-          if (dfs(depId, [...path, depId])) {
-            return true;
-          }
-        } else if (recStack.has(depId)) {
-          const cycleStart = path.indexOf(depId);
-          if (cycleStart !== -1) {
-            cycles.push(path.slice(cycleStart));
-          } else {
-            cycles.push([...path, depId]);
-          }
-          return true;
-        }
-      }
-
-      recStack.delete(jobId);
-      return false;
-    };
-
-    for (const job of jobs) {
-      if (!visited.has(job.id)) {
-        dfs(job.id, [job.id]);
-      }
-    }
-
-    return cycles;
+    return findCycles(jobs);
   }
 
   async topologicalSort(jobs: AgentJob[]): Promise<AgentJob[]> {
-    const sorted: AgentJob[] = [];
-    const visited = new Set<string>();
-    const jobMap = new Map(jobs.map(j => [j.id, j]));
-
-    const visit = (jobId: string) => {
-      if (visited.has(jobId)) return;
-      visited.add(jobId);
-
-      const job = jobMap.get(jobId);
-      if (!job) return;
-
-      for (const depId of job.dependencies ?? []) {
-        visit(depId);
-      }
-
-      sorted.push(job);
-    };
-
-    for (const job of jobs) {
-      visit(job.id);
-    }
+    return topologicalOrder(jobs);
+  }
 
-    return sorted;
+  /**
+   * Check steps that are about to become jobs: unknown dependency ids,
+   * duplicate ids and cycles would leave jobs blocked forever
+   */
+  validateGraph(nodes: DagNode[]): GraphValidation {
+    return validateGraph(nodes);
   }
 
   async getDependencyChain(jobId: string): Promise<AgentJob[]> {
@@ -20,6 +20,8 @@ interface DesktopAction {
     app?: string;
     modifiers?: string[];
     button?: 'left' | 'right' | 'middle';
+    direction?: 'up' | 'down' | 'left' | 'right';
+    amount?: number;
 }
 
 export class DesktopService extends EventEmitter {
@@ -181,6 +183,17 @@ export class DesktopService extends EventEmitter {
                     }
                     break;
 
+                case 'scroll': {
+                    const amount = action.amount ?? 300;
+                    switch (action.direction) {
+                        case 'up': await mouse.scrollUp(amount); break;
+                        case 'left': await mouse.scrollLeft(amount); break;
+                        case 'right': await mouse.scrollRight(amount); break;
+                        default: await mouse.scrollDown(amount); break;
+                    }
+                    break;
+                }
+
                 case 'open':
                     if (action.app) {
                          const { exec } = await import('child_process');
@@ -358,6 +358,93 @@ export function failJob(workerName: string, jobId: string, error: string): boole
   }
 }
 
+/**
+ * Cancel a pending job (move to failed/ with a "cancelled" audit entry)
+ */
+export function cancelJob(workerName: string, jobId: string): boolean {
+  const queuePath = ensureQueueDir(workerName);
+  const failedDir = path.join(queuePath, "failed");
+
+  const files = fs.readdirSync(queuePath).filter(f => f.endsWith(".json") && f.includes(jobId));
+  if (files.length === 0) {
+    console.error(`[file-queue] Pending job not found: ${jobId}`);
+    return false;
+  }
+
+  const filename = files[0];
+  const sourcePath = path.join(queuePath, filename);
+  const targetPath = path.join(failedDir, filename);
+
+  try {
+    // Move first so a worker cannot claim it while we write the audit entry
+    fs.renameSync(sourcePath, targetPath);
+    const job: Job = JSON.parse(fs.readFileSync(targetPath, "utf-8"));
+    job.audit.push({
+      event: "cancelled",
+      timestamp: new Date().toISOString(),
+    });
+    fs.writeFileSync(targetPath, JSON.stringify(job, null, 2), "utf-8");
+
+    console.log(`[file-queue] Cancelled job: ${workerName}/${filename}`);
+    return true;
+  } catch (err) {
+    console.error(`[file-queue] Failed to cancel ${filename}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Requeue a failed or cancelled job (move from failed/ back to the queue)
+ */
+export function requeueJob(workerName: string, jobId: string): boolean {
+  const queuePath = ensureQueueDir(workerName);
+  const failedDir = path.join(queuePath, "failed");
+
+  const files = fs.readdirSync(failedDir).filter(f => f.includes(jobId));
+  if (files.length === 0) {
+    console.error(`[file-queue] Job not found in failed: ${jobId}`);
+    return false;
+  }
+
+  const filename = files[0];
+  const sourcePath = path.join(failedDir, filename);
+  const targetPath = path.join(queuePath, filename);
+
+  try {
+    const job: Job = JSON.parse(fs.readFileSync(sourcePath, "utf-8"));
+    job.audit.push({
+      event: "requeued",
+      timestamp: new Date().toISOString(),
+    });
+    fs.writeFileSync(sourcePath, JSON.stringify(job, null, 2), "utf-8");
+    fs.renameSync(sourcePath, targetPath);
+
+    console.log(`[file-queue] Requeued job: ${workerName}/${filename}`);
+    return true;
+  } catch (err) {
+    console.error(`[file-queue] Failed to requeue ${filename}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Delete a job that is not being processed
+ */
+export function deleteJob(workerName: string, jobId: string): boolean {
+  const queuePath = ensureQueueDir(workerName);
+
+  for (const dir of [queuePath, path.join(queuePath, "finished"), path.join(queuePath, "failed")]) {
+    const files = fs.readdirSync(dir).filter(f => f.endsWith(".json") && f.includes(jobId));
+    if (files.length > 0) {
+      fs.unlinkSync(path.join(dir, files[0]));
+      console.log(`[file-queue] Deleted job: ${workerName}/${files[0]}`);
+      return true;
+    }
+  }
+
+  return false;
+}
+
 /**
  * Get queue statistics
  */
@@ -429,6 +516,9 @@ export default {
   claimJobById,
   completeJob,
   failJob,
+  cancelJob,
+  requeueJob,
+  deleteJob,
   getQueueStats,
   listWorkers,
   getJob,
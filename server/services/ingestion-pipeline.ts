@@ -10,4 +10,7 @@
  * The Summarization Engine uses Gemini 2.0 Flash to produce structured
  * summaries of conversations and feedback, which feed the Evolution Engine.
  * No document embeddings, vector stores, or ingestion queues are used.
+ *
+ * Retrieval over messages, attachments and Drive files now lives in
+ * server/services/retrieval/ (local vector index in SQLite).
  */
@@ -0,0 +1,491 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - INTEGRATION TOOL HANDLERS
+ * =============================================================================
+ *
+ * Binds the Google Workspace, GitHub, Twilio, HTTP, browser, desktop and
+ * to-do tool declarations from gemini-tools.ts (and gemini-tools-guest.ts)
+ * to the integration modules that actually perform them.
+ *
+ * Email and GitHub comments are signed with the speaking agent's signatures
+ * (see agent-persona.ts): the panel agent making the call, else the chat's
+ * agent.
+ *
+ * Many integration functions report failure by returning
+ * `{ success: false, error }` instead of throwing. Handlers pass those
+ * results through unwrap() so the dispatcher records them as failures and
+ * the model is told the call did not succeed.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { storage } from "../storage";
+import { GUEST_USER_ID } from "@shared/schema";
+import * as gmail from "../integrations/gmail";
+import * as googleDrive from "../integrations/google-drive";
+import * as googleCalendar from "../integrations/google-calendar";
+import * as googleDocs from "../integrations/google-docs";
+import * as googleSheets from "../integrations/google-sheets";
+import * as googleTasks from "../integrations/google-tasks";
+import * as googleContacts from "../integrations/google-contacts";
+import * as twilio from "../integrations/twilio";
+import * as github from "../integrations/github";
+import { webSearch } from "../integrations/web-search";
+import { httpGet, httpPost, httpPut, httpPatch, httpDelete, type HttpResponse } from "../integrations/http-client";
+import { generateImage } from "../integrations/image-generation";
+import { mcpClient } from "./mcp-client";
+import { applyEmailSignature, applyGithubSignature } from "./agent-persona";
+import type { ToolContext, ToolHandler } from "./tool-registry";
+
+type Params = Record<string, unknown>;
+
+/**
+ * Throw if an integration reported failure via `{ success: false, error }`
+ */
+function unwrap<T>(result: T): T {
+  if (result && typeof result === "object" && (result as any).success === false) {
+    throw new Error((result as any).error || "Operation failed");
+  }
+  return result;
+}
+
+/**
+ * HTTP error statuses are valid results the model should see; only
+ * transport failures (no response at all) are treated as tool failures.
+ */
+function unwrapHttp(result: HttpResponse): HttpResponse {
+  if (result.status === 0) {
+    throw new Error(result.error || "HTTP request failed");
+  }
+  return result;
+}
+
+function str(params: Params, key: string): string | undefined {
+  const value = params[key];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function num(params: Params, key: string): number | undefined {
+  const value = params[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Calendar tools accept plain ISO strings; the integration wants
+ * `{ dateTime }` for timed events and `{ date }` for all-day events.
+ */
+function toEventTime(value: string): { dateTime?: string; date?: string } {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? { date: value } : { dateTime: value };
+}
+
+/**
+ * Resolve the owner of the chat a tool call came from
+ */
+async function resolveUserId(ctx: ToolContext): Promise<string> {
+  if (!ctx.chatId) return GUEST_USER_ID;
+  const chat = await storage.getChat(ctx.chatId);
+  return chat?.userId || GUEST_USER_ID;
+}
+
+/**
+ * The id of a to-do item owned by the chat's user; anyone else's item is
+ * reported as not found
+ */
+async function ownedTodoId(params: Params, ctx: ToolContext): Promise<string> {
+  const id = String(params.id);
+  const item = await storage.getTodoItem(id);
+  if (!item || item.userId !== await resolveUserId(ctx)) {
+    throw new Error(`To-do item ${id} not found`);
+  }
+  return id;
+}
+
+/**
+ * The user agent speaking in the chat a tool call came from, if any: the
+ * panel agent making the call, otherwise the chat's own agent
+ */
+async function resolveAgent(ctx: ToolContext) {
+  if (ctx.agentId) {
+    const agent = await storage.getUserAgent(ctx.agentId);
+    if (agent) return agent;
+  }
+  return ctx.chatId ? storage.getChatAgent(ctx.chatId) : undefined;
+}
+
+function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  if (phone.startsWith("+")) return `+${digits}`;
+  return digits.length === 10 ? `+1${digits}` : `+${digits}`;
+}
+
+async function computerAction(action: Record<string, unknown>): Promise<unknown> {
+  const { computerUseService } = await import("./computer-use");
+  return unwrap(await computerUseService.executeLocalAction(action as any));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GMAIL
+// ═══════════════════════════════════════════════════════════════════════════
+
+const gmailHandlers: Record<string, ToolHandler> = {
+  gmail_list: async (p) => unwrap(await gmail.listEmails(
+    num(p, "maxResults") ?? 10,
+    Array.isArray(p.labelIds) ? (p.labelIds as string[]) : undefined
+  )),
+  gmail_read: async (p) => unwrap(await gmail.getEmail(str(p, "messageId")!)),
+  gmail_search: async (p) => unwrap(await gmail.searchEmails(str(p, "query")!, num(p, "maxResults") ?? 10)),
+  gmail_send: async (p, ctx) => {
+    const agent = await resolveAgent(ctx);
+    const body = applyEmailSignature(str(p, "body")!, agent?.emailSignature);
+    return unwrap(await gmail.sendEmail(str(p, "to")!, str(p, "subject")!, body));
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GITHUB
+// ═══════════════════════════════════════════════════════════════════════════
+
+const githubHandlers: Record<string, ToolHandler> = {
+  github_issue_comment: async (p, ctx) => {
+    const agent = await resolveAgent(ctx);
+    return unwrap(await github.addIssueComment(
+      str(p, "owner")!,
+      str(p, "repo")!,
+      Number(p.issueNumber),
+      applyGithubSignature(str(p, "body")!, agent?.githubSignature)
+    ));
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GOOGLE DRIVE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const driveHandlers: Record<string, ToolHandler> = {
+  drive_list: async (p) => {
+    const folderId = str(p, "folderId");
+    const query = folderId ? `'${folderId.replace(/'/g, "\\'")}' in parents and trashed = false` : undefined;
+    return unwrap(await googleDrive.listDriveFiles(query, num(p, "maxResults") ?? 20));
+  },
+  drive_read: async (p) => unwrap(await googleDrive.getDriveFileContent(str(p, "fileId")!)),
+  drive_search: async (p) => unwrap(await googleDrive.searchDriveFiles(str(p, "query")!)),
+  drive_create: async (p) => unwrap(await googleDrive.createDriveFile(
+    str(p, "name")!,
+    str(p, "content")!,
+    str(p, "mimeType") ?? "text/plain"
+  )),
+  drive_update: async (p) => unwrap(await googleDrive.updateDriveFile(str(p, "fileId")!, str(p, "content")!)),
+  drive_delete: async (p) => unwrap(await googleDrive.deleteDriveFile(str(p, "fileId")!)),
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GOOGLE CALENDAR
+// ═══════════════════════════════════════════════════════════════════════════
+
+const calendarHandlers: Record<string, ToolHandler> = {
+  calendar_list: async () => unwrap(await googleCalendar.listCalendars()),
+  calendar_events: async (p) => unwrap(await googleCalendar.listEvents(
+    str(p, "calendarId") ?? "primary",
+    str(p, "timeMin"),
+    str(p, "timeMax"),
+    num(p, "maxResults") ?? 20
+  )),
+  calendar_create: async (p) => unwrap(await googleCalendar.createEvent(
+    "primary",
+    str(p, "summary")!,
+    toEventTime(str(p, "start")!),
+    toEventTime(str(p, "end")!),
+    str(p, "description"),
+    str(p, "location")
+  )),
+  calendar_update: async (p) => {
+    const start = str(p, "start");
+    const end = str(p, "end");
+    return unwrap(await googleCalendar.updateEvent("primary", str(p, "eventId")!, {
+      summary: str(p, "summary"),
+      description: str(p, "description"),
+      start: start ? toEventTime(start) : undefined,
+      end: end ? toEventTime(end) : undefined,
+    }));
+  },
+  calendar_delete: async (p) => unwrap(await googleCalendar.deleteEvent(
+    str(p, "calendarId") ?? "primary",
+    str(p, "eventId")!
+  )),
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GOOGLE DOCS & SHEETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const docsHandlers: Record<string, ToolHandler> = {
+  docs_read: async (p) => unwrap(await googleDocs.getDocumentText(str(p, "documentId")!)),
+  docs_create: async (p) => {
+    const doc = unwrap(await googleDocs.createDocument(str(p, "title")!)) as { documentId?: string };
+    const content = str(p, "content");
+    if (content && doc.documentId) {
+      unwrap(await googleDocs.appendText(doc.documentId, content));
+    }
+    return doc;
+  },
+  docs_append: async (p) => unwrap(await googleDocs.appendText(str(p, "documentId")!, str(p, "content")!)),
+  docs_replace: async (p) => unwrap(await googleDocs.replaceText(
+    str(p, "documentId")!,
+    str(p, "find")!,
+    str(p, "replace")!
+  )),
+};
+
+const sheetsHandlers: Record<string, ToolHandler> = {
+  sheets_read: async (p) => unwrap(await googleSheets.getSheetValues(str(p, "spreadsheetId")!, str(p, "range")!)),
+  sheets_write: async (p) => unwrap(await googleSheets.updateSheetValues(
+    str(p, "spreadsheetId")!,
+    str(p, "range")!,
+    p.values as unknown[][]
+  )),
+  sheets_append: async (p) => unwrap(await googleSheets.appendSheetValues(
+    str(p, "spreadsheetId")!,
+    str(p, "range")!,
+    p.values as unknown[][]
+  )),
+  sheets_create: async (p) => unwrap(await googleSheets.createSpreadsheet(str(p, "title")!)),
+  sheets_clear: async (p) => unwrap(await googleSheets.clearSheetRange(str(p, "spreadsheetId")!, str(p, "range")!)),
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GOOGLE TASKS & CONTACTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const tasksHandlers: Record<string, ToolHandler> = {
+  tasks_list: async (p) => unwrap(await googleTasks.listTasks(
+    str(p, "taskListId") ?? "@default",
+    true,
+    num(p, "maxResults") ?? 100
+  )),
+  tasks_create: async (p) => unwrap(await googleTasks.createTask(
+    str(p, "taskListId") ?? "@default",
+    str(p, "title")!,
+    str(p, "notes"),
+    str(p, "due")
+  )),
+  tasks_update: async (p) => unwrap(await googleTasks.updateTask(
+    str(p, "taskListId") ?? "@default",
+    str(p, "taskId")!,
+    { title: str(p, "title"), notes: str(p, "notes"), due: str(p, "due") }
+  )),
+  tasks_complete: async (p) => unwrap(await googleTasks.completeTask(str(p, "taskListId") ?? "@default", str(p, "taskId")!)),
+  tasks_delete: async (p) => unwrap(await googleTasks.deleteTask(str(p, "taskListId") ?? "@default", str(p, "taskId")!)),
+};
+
+const contactsHandlers: Record<string, ToolHandler> = {
+  contacts_list: async (p) => googleContacts.listContacts(num(p, "pageSize") ?? 100, str(p, "pageToken")),
+  contacts_search: async (p) => googleContacts.searchContacts(str(p, "query")!, num(p, "pageSize") ?? 30),
+  contacts_create: async (p) => googleContacts.createContact({
+    givenName: str(p, "givenName")!,
+    familyName: str(p, "familyName"),
+    email: str(p, "email"),
+    phoneNumber: str(p, "phoneNumber"),
+  }),
+  contacts_update: async (p) => googleContacts.updateContact(str(p, "resourceName")!, {
+    givenName: str(p, "givenName"),
+    email: str(p, "email"),
+    phoneNumber: str(p, "phoneNumber"),
+  }),
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEARCH, HTTP & BROWSER
+// ═══════════════════════════════════════════════════════════════════════════
+
+const webHandlers: Record<string, ToolHandler> = {
+  google_search: async (p) => unwrap(await webSearch({
+    query: str(p, "query")!,
+    maxResults: num(p, "maxResults"),
+    provider: "google",
+  })),
+  exa_search: async (p) => unwrap(await webSearch({
+    query: str(p, "query")!,
+    maxResults: num(p, "maxResults"),
+    provider: "exa",
+  })),
+  http_get: async (p) => unwrapHttp(await httpGet({
+    url: str(p, "url")!,
+    headers: p.headers as Record<string, string> | undefined,
+  })),
+  http_post: async (p) => unwrapHttp(await httpPost({
+    url: str(p, "url")!,
+    body: (p.body ?? {}) as Record<string, unknown>,
+    headers: p.headers as Record<string, string> | undefined,
+  })),
+  http_put: async (p) => unwrapHttp(await httpPut({
+    url: str(p, "url")!,
+    body: (p.body ?? {}) as Record<string, unknown>,
+    headers: p.headers as Record<string, string> | undefined,
+  })),
+  http_patch: async (p) => unwrapHttp(await httpPatch({
+    url: str(p, "url")!,
+    body: (p.body ?? {}) as Record<string, unknown>,
+    headers: p.headers as Record<string, string> | undefined,
+  })),
+  http_delete: async (p) => unwrapHttp(await httpDelete({
+    url: str(p, "url")!,
+    headers: p.headers as Record<string, string> | undefined,
+  })),
+  open_url: (p) => ({ success: true, url: str(p, "url") }),
+  image_generate: async (p) => {
+    const image = await generateImage({ prompt: str(p, "prompt")! });
+    return { success: true, mimeType: image.mimeType, base64: image.base64, textResponse: image.textResponse };
+  },
+};
+
+/**
+ * puppeteer_* tools are served by the puppeteer MCP server under
+ * servers/puppeteer-mcp, which declares the same tool names.
+ */
+const puppeteerHandlers: Record<string, ToolHandler> = Object.fromEntries(
+  [
+    "puppeteer_navigate",
+    "puppeteer_click",
+    "puppeteer_type",
+    "puppeteer_screenshot",
+    "puppeteer_evaluate",
+    "puppeteer_content",
+  ].map((name): [string, ToolHandler] => [name, async (p) => {
+    const result = await mcpClient.callTool(name, p);
+    if (result?.isError) {
+      const message = result.content?.map((c: { text?: string }) => c.text).join("\n");
+      throw new Error(message || `${name} failed`);
+    }
+    return result;
+  }])
+);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TWILIO SMS/VOICE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const twilioHandlers: Record<string, ToolHandler> = {
+  sms_send: async (p) => twilio.sendSMS(normalizePhone(str(p, "to")!), str(p, "body")!),
+  sms_list: async (p) => twilio.getMessages(num(p, "limit") ?? 20),
+  call_list: async (p) => twilio.getCalls(num(p, "limit") ?? 20),
+  call_make: async (p) => {
+    let to = str(p, "to");
+    let resolvedName = str(p, "contact_name") ?? to;
+    const contactName = str(p, "contact_name");
+
+    if (!to && contactName) {
+      const contacts = await googleContacts.searchContacts(contactName, 10);
+      const match = contacts.find(c => c.phoneNumbers.length > 0);
+      if (match) {
+        to = match.phoneNumbers[0];
+        resolvedName = match.displayName || contactName;
+      }
+    }
+    if (!to) {
+      throw new Error(contactName
+        ? `No phone number found in contacts for "${contactName}"`
+        : "Either 'to' or 'contact_name' is required");
+    }
+    to = normalizePhone(to);
+
+    let call;
+    const message = str(p, "message");
+    const objective = str(p, "objective");
+    if (message && !objective) {
+      call = await twilio.makeCallWithMessage(to, message);
+    } else {
+      const baseUrl = process.env.BASE_URL ?? `https://${process.env.REPLIT_DEV_DOMAIN ?? "localhost"}`;
+      const mission = `Calling ${resolvedName}.\n\nMISSION:\n${objective ?? ""}`;
+      call = await twilio.makeCall(to, `${baseUrl}/api/twilio/voice?direction=outbound&context=${encodeURIComponent(mission)}`);
+    }
+
+    await storage.insertCallConversation({
+      callSid: call.sid,
+      fromNumber: call.from || process.env.TWILIO_PHONE_NUMBER || "unknown",
+      toNumber: call.to || to,
+      status: "in_progress",
+      turnCount: 0,
+    });
+    return { success: true, callSid: call.sid, status: call.status, to, contact: resolvedName };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DESKTOP CONTROL (COMPUTER USE) & HARDWARE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const computerHandlers: Record<string, ToolHandler> = {
+  computer_click: (p) => computerAction({ type: "click", target: { x: num(p, "x"), y: num(p, "y") }, button: str(p, "button") ?? "left" }),
+  computer_type: (p) => computerAction({ type: "type", text: str(p, "text") }),
+  computer_key: (p) => computerAction({ type: "key", key: str(p, "key"), modifiers: p.modifiers }),
+  computer_scroll: (p) => computerAction({ type: "scroll", direction: str(p, "direction"), amount: num(p, "amount") }),
+  computer_move: (p) => computerAction({ type: "move", target: { x: num(p, "x"), y: num(p, "y") } }),
+  computer_screenshot: () => computerAction({ type: "screenshot" }),
+  computer_wait: (p) => computerAction({ type: "wait", delay: num(p, "delay") }),
+  set_mood_light: () => {
+    throw new Error("set_mood_light is not available: no driver is installed for the HP Mood Lighting device");
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TO-DO LIST & LOGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const todoHandlers: Record<string, ToolHandler> = {
+  todo_list: async (p, ctx) => storage.getTodoItems(await resolveUserId(ctx), p.includeCompleted === true),
+  todo_add: async (p, ctx) => storage.createTodoItem({
+    userId: await resolveUserId(ctx),
+    title: str(p, "title")!,
+    description: str(p, "description"),
+    priority: num(p, "priority") ?? 0,
+    category: str(p, "category"),
+    tags: Array.isArray(p.tags) ? (p.tags as string[]) : undefined,
+    relatedChatId: ctx.chatId,
+  }),
+  todo_update: async (p, ctx) => {
+    const id = await ownedTodoId(p, ctx);
+    const update: Params = { ...p };
+    delete update.id;
+    const updated = await storage.updateTodoItem(id, update as any);
+    if (!updated) throw new Error(`To-do item ${id} not found`);
+    return updated;
+  },
+  todo_complete: async (p, ctx) => {
+    const id = await ownedTodoId(p, ctx);
+    const updated = await storage.completeTodoItem(id);
+    if (!updated) throw new Error(`To-do item ${id} not found`);
+    return updated;
+  },
+  todo_remove: async (p, ctx) => {
+    const id = await ownedTodoId(p, ctx);
+    const removed = await storage.deleteTodoItem(id);
+    if (!removed) throw new Error(`To-do item ${id} not found`);
+    return { success: true };
+  },
+  append: async (p) => {
+    const name = str(p, "name")!.replace(/[^a-zA-Z0-9_-]/g, "_");
+    const logsDir = path.join(os.homedir(), "workspace", "logs");
+    await fs.mkdir(logsDir, { recursive: true });
+    const logPath = path.join(logsDir, `${name}.md`);
+    await fs.appendFile(logPath, `${str(p, "content")}\n`, "utf8");
+    return { success: true, path: logPath };
+  },
+  debug_echo: (p) => ({ success: true, echo: p }),
+};
+
+export const integrationToolHandlers: Record<string, ToolHandler> = {
+  ...gmailHandlers,
+  ...githubHandlers,
+  ...driveHandlers,
+  ...calendarHandlers,
+  ...docsHandlers,
+  ...sheetsHandlers,
+  ...tasksHandlers,
+  ...contactsHandlers,
+  ...webHandlers,
+  ...puppeteerHandlers,
+  ...twilioHandlers,
+  ...computerHandlers,
+  ...todoHandlers,
+};
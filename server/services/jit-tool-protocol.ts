@@ -6,7 +6,7 @@
  * No per-tool examples needed - single generic schema covers all.
  */
 
-import { GoogleGenAI } from "@google/genai";
+import { llm } from "./llm";
 
 // Tool categories for classification
 export type ToolCategory = 
@@ -248,15 +248,6 @@ const CATEGORY_KEYWORDS: Record<ToolCategory, string[]> = {
 // ============================================================================
 
 class JITToolProtocol {
-  private ai: GoogleGenAI | null = null;
-  
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (apiKey) {
-      this.ai = new GoogleGenAI({ apiKey });
-    }
-  }
-
   /**
    * Fast prediction of which tool categories are needed based on user query
    */
@@ -274,7 +265,7 @@ class JITToolProtocol {
     }
 
     // Otherwise, use LLM for more nuanced prediction
-    if (this.ai) {
+    if (llm.isAvailable("jit")) {
       try {
         const prediction = await this.llmBasedPrediction(userQuery);
         return prediction;
@@ -314,8 +305,8 @@ class JITToolProtocol {
    * LLM-based prediction for complex queries
    */
   private async llmBasedPrediction(query: string): Promise<ToolPrediction> {
-    if (!this.ai) {
-      return { categories: ["general"], confidence: 0.5, reasoning: "No API key" };
+    if (!llm.isAvailable("jit")) {
+      return { categories: ["general"], confidence: 0.5, reasoning: "No LLM provider configured" };
     }
 
     const categoryList = Object.keys(CATEGORY_KEYWORDS).join(", ");
@@ -324,10 +315,10 @@ class JITToolProtocol {
 Categories: ${categoryList}
 JSON only: {"categories": ["cat1"], "confidence": 0.9, "reasoning": "brief"}`;
 
-    const response = await this.ai.models.generateContent({
-      model: "gemini-3-flash-preview-lite",
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      config: { temperature: 0.1, maxOutputTokens: 100 },
+    const response = await llm.generate("jit", {
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.1,
+      maxOutputTokens: 100,
     });
 
     try {
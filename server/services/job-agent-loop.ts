@@ -0,0 +1,215 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - JOB AGENT LOOP
+ * =============================================================================
+ *
+ * Runs a prompt job as a bounded agentic loop: the model may call the tools
+ * on the job's allowlist, the results are fed back, and the loop ends when
+ * the model answers without calling a tool or a step budget runs out.
+ *
+ *   prompt ──► model ──► tool calls? ──no──► answer (completed)
+ *                ▲            │yes
+ *                └── results ◄┘ allowlisted calls run, others are refused
+ *
+ * Budgets are checked before every model call and every tool call:
+ *   maxToolCalls  tool calls executed across the job
+ *   maxTokens     prompt + completion tokens across every model call
+ *   wallClockMs   time since the loop started; also aborts a model call
+ * The job's own signal (cancelled, timed out, lease lost) is checked at the
+ * same points and aborts a model call in flight.
+ *
+ * Unlike the chat loop (agentic-loop.ts) there is no stream, no end_turn and
+ * nobody to ask for approval. The caller supplies the model call and the
+ * tool executor, so nothing here touches the database.
+ */
+
+import type { ToolCall } from "@shared/schema";
+import type { LlmMessage, LlmRequest, LlmResponse, LlmTool } from "./llm/types";
+import { buildToolResults, type ToolResultRecord } from "./tool-responses";
+import { toToolCalls } from "./agentic-loop";
+
+export interface StepBudget {
+  /** Tool calls executed across the job */
+  maxToolCalls: number;
+  /** Prompt plus completion tokens across every model call */
+  maxTokens: number;
+  /** Time the whole loop may take */
+  wallClockMs: number;
+}
+
+export const DEFAULT_STEP_BUDGET: StepBudget = {
+  maxToolCalls: 25,
+  maxTokens: 200_000,
+  wallClockMs: 5 * 60 * 1000,
+};
+
+export type JobLoopStopReason = "completed" | "max_tool_calls" | "max_tokens" | "wall_clock" | "cancelled";
+
+export interface JobAgentLoopOptions {
+  system?: string;
+  prompt: string;
+  /** Declarations of the allowlisted tools; calls to anything else are refused */
+  tools: LlmTool[];
+  budget: StepBudget;
+  /** One model call (normally llm.generate bound to the job's target) */
+  generate: (request: Omit<LlmRequest, "model">) => Promise<LlmResponse>;
+  /** Executes a single allowlisted tool call; thrown errors become failed results */
+  executeTool: (toolCall: ToolCall) => Promise<ToolResultRecord>;
+  /** The job's abort signal; stops the loop when the job is cancelled or lost */
+  signal?: AbortSignal;
+  now?: () => number;
+}
+
+export interface JobAgentLoopResult {
+  /** The model's final answer, or its last text when a budget stopped it */
+  output: string;
+  stopReason: JobLoopStopReason;
+  toolResults: ToolResultRecord[];
+  /** Tool calls executed (refused calls do not count) */
+  toolCalls: number;
+  /** Model calls made */
+  steps: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Budget for a job: payload overrides on top of the defaults, with the wall
+ * clock never outlasting the job's own timeout
+ */
+export function resolveStepBudget(overrides?: Partial<StepBudget>, timeoutMs?: number | null): StepBudget {
+  const budget = { ...DEFAULT_STEP_BUDGET, ...overrides };
+  if (timeoutMs && timeoutMs > 0) {
+    budget.wallClockMs = Math.min(budget.wallClockMs, timeoutMs);
+  }
+  return budget;
+}
+
+/** Every tool named by an agent's capabilities, once each */
+export function toolAllowlist(capabilities: Array<{ tools: string[] }>): string[] {
+  return Array.from(new Set(capabilities.flatMap(capability => capability.tools)));
+}
+
+/** Why a job stopped short, or undefined when the model finished */
+export function describeStop(reason: JobLoopStopReason, budget: StepBudget): string | undefined {
+  switch (reason) {
+    case "max_tool_calls":
+      return `Step budget exhausted: ${budget.maxToolCalls} tool calls`;
+    case "max_tokens":
+      return `Step budget exhausted: ${budget.maxTokens} tokens`;
+    case "wall_clock":
+      return `Step budget exhausted: ${Math.round(budget.wallClockMs / 1000)}s wall clock`;
+    case "cancelled":
+      return "Stopped: the job was aborted";
+    default:
+      return undefined;
+  }
+}
+
+export async function runJobAgentLoop(options: JobAgentLoopOptions): Promise<JobAgentLoopResult> {
+  const { budget } = options;
+  const now = options.now ?? Date.now;
+  const deadline = now() + budget.wallClockMs;
+  const allowed = new Set(options.tools.map(tool => tool.name));
+
+  const result: JobAgentLoopResult = {
+    output: "",
+    stopReason: "completed",
+    toolResults: [],
+    toolCalls: 0,
+    steps: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+  };
+  const history: LlmMessage[] = [{ role: "user", content: options.prompt }];
+
+  const exceeded = (): JobLoopStopReason | null => {
+    if (options.signal?.aborted) return "cancelled";
+    if (now() >= deadline) return "wall_clock";
+    if (result.inputTokens + result.outputTokens >= budget.maxTokens) return "max_tokens";
+    return null;
+  };
+
+  while (true) {
+    const limit = exceeded();
+    if (limit) {
+      result.stopReason = limit;
+      break;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), Math.max(deadline - now(), 0));
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    let response: LlmResponse;
+    try {
+      response = await options.generate({
+        system: options.system,
+        messages: history,
+        tools: options.tools.length > 0 ? options.tools : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        result.stopReason = options.signal?.aborted ? "cancelled" : "wall_clock";
+        break;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+
+    result.steps++;
+    result.inputTokens += response.usage?.promptTokens ?? 0;
+    result.outputTokens += response.usage?.completionTokens ?? 0;
+    if (response.text) result.output = response.text;
+
+    if (response.toolCalls.length === 0) {
+      result.stopReason = "completed";
+      break;
+    }
+
+    const toolCalls = toToolCalls(response.toolCalls, `job${result.steps}`);
+    const records: ToolResultRecord[] = [];
+    let stop: JobLoopStopReason | null = null;
+
+    for (const toolCall of toolCalls) {
+      stop = stop ?? exceeded() ?? (result.toolCalls >= budget.maxToolCalls ? "max_tool_calls" : null);
+      if (stop) {
+        const reason = stop === "cancelled" ? "job aborted" : `${stop.replace(/_/g, " ")} budget reached`;
+        records.push({ toolId: toolCall.id, type: toolCall.type, success: false, error: `Not executed: ${reason}` });
+        continue;
+      }
+      if (!allowed.has(toolCall.type)) {
+        records.push({
+          toolId: toolCall.id,
+          type: toolCall.type,
+          success: false,
+          error: `${toolCall.type} is not on this agent's tool allowlist`,
+          permissionDenied: true,
+        });
+        continue;
+      }
+
+      result.toolCalls++;
+      try {
+        records.push(await options.executeTool(toolCall));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        records.push({ toolId: toolCall.id, type: toolCall.type, success: false, error: message });
+      }
+    }
+
+    result.toolResults.push(...records);
+    history.push({ role: "assistant", toolCalls: response.toolCalls });
+    history.push({ role: "tool", toolResults: buildToolResults(response.toolCalls, records) });
+
+    if (stop) {
+      result.stopReason = stop;
+      break;
+    }
+  }
+
+  return result;
+}
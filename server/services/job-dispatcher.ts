@@ -26,6 +26,8 @@ class JobDispatcherService {
   private isRunning = false;
   private dispatchInterval: NodeJS.Timeout | null = null;
   private dispatchIntervalMs = 2000;
+  /** Jobs handed to a worker by this dispatcher, so cancelJob can stop them */
+  private runningJobs = new Map<string, AbortController>();
 
   async start(): Promise<void> {
     if (this.isRunning) return;
@@ -101,7 +103,9 @@ class JobDispatcherService {
           .where(eq(agentJobs.id, job.id));
 
         const startTime = Date.now();
-        worker.executeJob(job).then(async (result) => {
+        const controller = new AbortController();
+        this.runningJobs.set(job.id, controller);
+        worker.executeJob(job, controller.signal).then(async (result) => {
           const { output, error, inputTokens, outputTokens } = result;
           const durationMs = Date.now() - startTime;
           
@@ -115,12 +119,13 @@ class JobDispatcherService {
             durationMs,
           });
 
+          // A job cancelled while it ran stays cancelled
           await getDb().update(agentJobs)
             .set({
               status: error ? "failed" : "completed",
               completedAt: new Date(),
             })
-            .where(eq(agentJobs.id, job.id));
+            .where(and(eq(agentJobs.id, job.id), eq(agentJobs.status, "running")));
 
           console.log(`[JobDispatcher] Job ${job.id} ${error ? "failed" : "completed"}`);
         }).catch(async (err) => {
@@ -128,7 +133,9 @@ class JobDispatcherService {
           
           await getDb().update(agentJobs)
             .set({ status: "failed", completedAt: new Date() })
-            .where(eq(agentJobs.id, job.id));
+            .where(and(eq(agentJobs.id, job.id), eq(agentJobs.status, "running")));
+        }).finally(() => {
+          this.runningJobs.delete(job.id);
         });
 
       } catch (error) {
@@ -164,9 +171,10 @@ class JobDispatcherService {
       const childSubmission: JobSubmission = {
         ...step,
         parentJobId: parentJob.id,
-        dependencies: mode === "sequential" && previousJobId 
-          ? [previousJobId] 
-          : [],
+        dependencies: [
+          ...(step.dependencies ?? []),
+          ...(mode === "sequential" && previousJobId ? [previousJobId] : []),
+        ],
       };
 
       const childJob = await jobQueue.submitJob(childSubmission);
@@ -196,6 +204,15 @@ class JobDispatcherService {
   }
 
   async cancelJob(jobId: string): Promise<boolean> {
+    const running = this.runningJobs.get(jobId);
+    if (running) {
+      // Running on one of our workers: record the cancellation, then stop it
+      await getDb().update(agentJobs)
+        .set({ status: "cancelled", completedAt: new Date() })
+        .where(eq(agentJobs.id, jobId));
+      running.abort(new Error("Job cancelled"));
+      return true;
+    }
     return jobQueue.cancelJob(jobId);
   }
 
@@ -0,0 +1,99 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - JOB LEASES & RETRY POLICY
+ * =============================================================================
+ *
+ * Pure helpers behind the JobQueue's crash-safe execution:
+ *
+ *   claim ──► running (lease = now + leaseMs, renewed by heartbeats)
+ *               │
+ *               ├─ success ───────────────► completed
+ *               ├─ error / timeout / lease expired
+ *               │     ├─ attempts left ──► pending, scheduledFor = now + backoff
+ *               │     └─ exhausted ──────► dead_letter (until requeued)
+ *
+ * Everything that has to survive a restart lives in the agent_jobs row;
+ * nothing here touches the database.
+ */
+
+export interface RetryPolicy {
+  /** Delay before the first retry; doubles with every further attempt */
+  retryDelay: number;
+  /** Upper bound for a single backoff delay */
+  maxRetryDelay: number;
+}
+
+export type FailurePlan =
+  | { action: "retry"; retryCount: number; scheduledFor: Date }
+  | { action: "dead_letter"; retryCount: number };
+
+/** Raised through the job's AbortSignal when it runs past agent_jobs.timeout */
+export class JobTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`);
+    this.name = "JobTimeoutError";
+  }
+}
+
+/** Raised through the job's AbortSignal when another worker reclaimed it */
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on job ${jobId} was lost`);
+    this.name = "JobLeaseLostError";
+  }
+}
+
+/**
+ * Exponential backoff with equal jitter: the nth retry waits between half
+ * and all of retryDelay × 2^(n-1), capped at maxRetryDelay. The jitter keeps
+ * a batch of jobs that failed together from retrying in lockstep.
+ */
+export function retryDelayMs(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxRetryDelay, policy.retryDelay * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exponential / 2 + (random() * exponential) / 2);
+}
+
+/**
+ * Decide what happens to a job whose attempt just failed. maxRetries counts
+ * total attempts, so a job with maxRetries 3 runs at most three times.
+ */
+export function planFailure(
+  job: { retryCount: number | null; maxRetries: number | null },
+  now: Date,
+  policy: RetryPolicy,
+  random?: () => number
+): FailurePlan {
+  const retryCount = (job.retryCount ?? 0) + 1;
+  if (retryCount >= (job.maxRetries ?? 3)) {
+    return { action: "dead_letter", retryCount };
+  }
+  return {
+    action: "retry",
+    retryCount,
+    scheduledFor: new Date(now.getTime() + retryDelayMs(retryCount, policy, random)),
+  };
+}
+
+/**
+ * Run a task until it settles or the signal aborts, whichever comes first.
+ * The task receives the signal so it can stop its own work; if it ignores
+ * it, the caller still moves on with the abort reason as the error.
+ */
+export function runWithAbort<T>(task: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve().then(() => task(signal)).then(
+      value => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
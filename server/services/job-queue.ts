@@ -5,6 +5,13 @@
  * 
  * In-memory/Polling job queue replacing pg-boss to avoid Postgres dependency.
  * Uses the existing SQLite/PGlite database for persistence.
+ *
+ * Running jobs are leased: the claiming queue renews the lease with
+ * heartbeats, and any queue reclaims jobs whose lease expired, so a crash
+ * never leaves a job "running" forever. Each attempt is aborted after the
+ * job's timeout, failed attempts retry with exponential backoff persisted
+ * in scheduledFor, and jobs that exhaust their retries are parked in
+ * "dead_letter" until requeued. See job-lease.ts for the policy.
  */
 
 import { getDb } from "../db";
@@ -16,11 +23,15 @@ import {
   type JobResult,
   type InsertJobResult 
 } from "@shared/schema";
-import { eq, and, inArray, or, sql, asc, lte } from "drizzle-orm";
-import cronParser from "cron-parser";
-
-export type JobType = "prompt" | "tool" | "composite" | "workflow";
-export type JobStatus = "pending" | "queued" | "running" | "completed" | "failed" | "cancelled";
+import { eq, and, inArray, or, sql, asc, desc, lt, lte, isNull, ne, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { JobLeaseLostError, JobTimeoutError, planFailure, runWithAbort } from "./job-lease";
+import { nextCronRun } from "./cron-expression";
+import type { StepBudget } from "./job-agent-loop";
+
+/** approval jobs wait in waiting_input for a decision (see approval-service); no worker runs them */
+export type JobType = "prompt" | "tool" | "composite" | "workflow" | "approval";
+export type JobStatus = "pending" | "queued" | "running" | "waiting_input" | "completed" | "failed" | "cancelled" | "dead_letter";
 export type ExecutionMode = "sequential" | "parallel" | "batch";
 
 export interface JobPayload {
@@ -28,6 +39,14 @@ export interface JobPayload {
   toolName?: string;
   toolArgs?: Record<string, unknown>;
   systemPrompt?: string;
+  /** Ask the model for a JSON object as the whole reply */
+  json?: boolean;
+  /** User agent whose LLM provider/model the job should run on */
+  agentId?: string;
+  /** Tools the worker may call; without any the prompt runs as a single model call */
+  tools?: string[];
+  /** Limits on the worker's tool loop (see job-agent-loop.ts) */
+  budget?: Partial<StepBudget>;
   context?: Record<string, unknown>;
   childJobs?: InsertAgentJob[];
 }
@@ -52,7 +71,11 @@ export interface JobQueueConfig {
   pollInterval: number;
   retryLimit: number;
   retryDelay: number;
+  maxRetryDelay: number;
   expireInHours: number;
+  /** How long a claimed job stays leased without a heartbeat */
+  leaseMs: number;
+  heartbeatInterval: number;
 }
 
 const DEFAULT_CONFIG: JobQueueConfig = {
@@ -60,9 +83,21 @@ const DEFAULT_CONFIG: JobQueueConfig = {
   pollInterval: 2000,
   retryLimit: 3,
   retryDelay: 30000,
+  maxRetryDelay: 60 * 60 * 1000,
   expireInHours: 24,
+  leaseMs: 60000,
+  heartbeatInterval: 15000,
 };
 
+const DEFAULT_JOB_TIMEOUT = 300000;
+
+/**
+ * Processors receive an AbortSignal that fires when the job times out or
+ * its lease is lost; long-running work should pass it on (fetch, child
+ * processes, LLM calls) and stop early.
+ */
+export type JobProcessor = (job: AgentJob, signal: AbortSignal) => Promise<{ output: unknown; error?: string }>;
+
 // Event types for job lifecycle
 export type JobEvent = {
   type: "started" | "completed" | "failed" | "cancelled" | "retry" | "waiting_input" | "resumed";
@@ -77,10 +112,14 @@ type JobEventCallback = (event: JobEvent) => void;
 class JobQueueService {
   private config: JobQueueConfig;
   private isInitialized = false;
-  private processingCallbacks: Map<string, (job: AgentJob) => Promise<{ output: unknown; error?: string }>> = new Map();
+  private processingCallbacks: Map<string, JobProcessor> = new Map();
   private eventCallbacks: JobEventCallback[] = [];
   private pollInterval: NodeJS.Timeout | null = null;
   private isProcessing = false;
+  /** Lease owner id written to agent_jobs.worker_id while this queue runs a job */
+  private readonly workerId = `queue-${process.pid}-${nanoid(6)}`;
+  private runningJobs: Map<string, AbortController> = new Map();
+  private readonly bootedAt = new Date();
 
   constructor(config: Partial<JobQueueConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -130,6 +169,9 @@ class JobQueueService {
     this.isProcessing = true;
 
     try {
+      // Recover jobs left running by crashed or stalled workers
+      await this.reclaimExpiredLeases();
+
       // Check for scheduled jobs that are ready to run
       await this.checkScheduledJobs();
 
@@ -158,17 +200,25 @@ class JobQueueService {
 
   private async checkScheduledJobs(): Promise<void> {
     try {
-      // 1. Move pending jobs with passed scheduledFor time to queued
-      const dueJobs = await getDb().update(agentJobs)
-        .set({ status: "queued" })
+      // 1. Move pending jobs with passed scheduledFor time to queued,
+      // unless they are still waiting on dependencies
+      const dueJobs: AgentJob[] = await getDb().select()
+        .from(agentJobs)
         .where(and(
           eq(agentJobs.status, "pending"),
           lte(agentJobs.scheduledFor, new Date())
-        ))
-        .returning();
+        ));
 
-      if (dueJobs.length > 0) {
-        console.log(`[JobQueue] Moved ${dueJobs.length} scheduled jobs to queue`);
+      let moved = 0;
+      for (const job of dueJobs) {
+        if (await this.areDependenciesMet(job.dependencies ?? [])) {
+          await this.enqueueJob(job);
+          moved++;
+        }
+      }
+
+      if (moved > 0) {
+        console.log(`[JobQueue] Moved ${moved} scheduled jobs to queue`);
       }
 
       // 2. Handle recurring jobs (cron)
@@ -205,9 +255,8 @@ class JobQueueService {
 
     const [job] = await getDb().insert(agentJobs).values(jobData).returning();
 
-    // Check if dependencies are met before enqueuing
-    const depsReady = await this.areDependenciesMet(job.dependencies ?? []);
-    if (depsReady) {
+    // Jobs wait for their dependencies and their scheduledFor time
+    if (await this.isReady(job)) {
       await this.enqueueJob(job);
     }
 
@@ -233,10 +282,7 @@ class JobQueueService {
     setImmediate(() => this.poll());
   }
 
-  async registerProcessor(
-    type: JobType,
-    callback: (job: AgentJob) => Promise<{ output: unknown; error?: string }>
-  ): Promise<void> {
+  async registerProcessor(type: JobType, callback: JobProcessor): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -244,66 +290,111 @@ class JobQueueService {
     console.log(`[JobQueue] Registered processor for ${type}`);
   }
 
-  private async processJob(jobId: string): Promise<void> {
-    const startTime = Date.now();
+  /**
+   * Atomically move a queued job to running under this queue's lease.
+   * Returns undefined if another poller claimed it first.
+   */
+  private async claimJob(jobId: string): Promise<AgentJob | undefined> {
+    const now = new Date();
+    const [job] = await getDb().update(agentJobs)
+      .set({
+        status: "running",
+        workerId: this.workerId,
+        startedAt: now,
+        heartbeatAt: now,
+        leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+      })
+      .where(and(eq(agentJobs.id, jobId), eq(agentJobs.status, "queued")))
+      .returning();
+    return job;
+  }
 
-    const [job] = await getDb().select()
-      .from(agentJobs)
-      .where(eq(agentJobs.id, jobId));
+  /** Matches the job only while this queue still holds its lease */
+  private ownLease(jobId: string): SQL {
+    return and(
+      eq(agentJobs.id, jobId),
+      eq(agentJobs.status, "running"),
+      eq(agentJobs.workerId, this.workerId)
+    )!;
+  }
 
-    if (!job) {
-      console.error(`[JobQueue] Job ${jobId} not found`);
-      return;
+  private async renewLease(jobId: string, controller: AbortController): Promise<void> {
+    try {
+      const now = new Date();
+      const renewed = await getDb().update(agentJobs)
+        .set({ heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs) })
+        .where(this.ownLease(jobId))
+        .returning({ id: agentJobs.id });
+
+      // Reclaimed or cancelled behind our back: stop working on it
+      if (renewed.length === 0) {
+        controller.abort(new JobLeaseLostError(jobId));
+      }
+    } catch (error) {
+      // A missed heartbeat is survivable; the lease only lapses after leaseMs
+      console.error(`[JobQueue] Heartbeat for job ${jobId} failed:`, error);
     }
+  }
 
-    // Double check status to avoid race conditions
-    if (job.status !== "queued") return;
+  private async processJob(jobId: string): Promise<void> {
+    const startTime = Date.now();
 
-    await getDb().update(agentJobs)
-      .set({ 
-        status: "running", 
-        startedAt: new Date() 
-      })
-      .where(eq(agentJobs.id, jobId));
+    const job = await this.claimJob(jobId);
+    if (!job) return;
 
     console.log(`[JobQueue] Processing job ${jobId}: ${job.name}`);
     
     // Emit started event
     this.emitEvent({ type: "started", jobId, job });
 
+    const controller = new AbortController();
+    const timeoutMs = job.timeout ?? DEFAULT_JOB_TIMEOUT;
+    const timer = setTimeout(() => controller.abort(new JobTimeoutError(timeoutMs)), timeoutMs);
+    const heartbeat = setInterval(() => this.renewLease(jobId, controller), this.config.heartbeatInterval);
+    this.runningJobs.set(jobId, controller);
+
     try {
       const callback = this.processingCallbacks.get(job.type);
       if (!callback) {
         throw new Error(`No processor registered for job type: ${job.type}`);
       }
 
-      const result = await callback(job);
+      const result = await runWithAbort(signal => callback(job, signal), controller.signal);
       const durationMs = Date.now() - startTime;
 
-      const resultData: InsertJobResult = {
+      const [finished] = await getDb().update(agentJobs)
+        .set({ 
+          status: result.error ? "failed" : "completed",
+          completedAt: new Date(),
+          leaseExpiresAt: null,
+          lastError: result.error ?? null,
+        })
+        .where(this.ownLease(jobId))
+        .returning();
+
+      if (!finished) {
+        console.warn(`[JobQueue] Job ${jobId} finished after losing its lease; discarding result`);
+        return;
+      }
+
+      await this.saveResult({
         jobId: job.id,
         success: !result.error,
         output: result.output as any,
         error: result.error,
         durationMs,
-      };
-
-      await getDb().insert(jobResults).values(resultData);
-
-      await getDb().update(agentJobs)
-        .set({ 
-          status: result.error ? "failed" : "completed",
-          completedAt: new Date(),
-        })
-        .where(eq(agentJobs.id, jobId));
+      });
 
       console.log(`[JobQueue] Job ${jobId} ${result.error ? "failed" : "completed"} in ${durationMs}ms`);
 
       // Handle Cron Jobs: Schedule next run if successful
       if (!result.error && job.cronExpression) {
         try {
-          const interval = (cronParser as any).parseExpression(job.cronExpression);
-          const nextRun = interval.next().toDate();
+          // Recurring jobs have no time zone of their own; use the server's
+          const nextRun = nextCronRun(job.cronExpression, new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone);
+          if (!nextRun) {
+            throw new Error(`Cron expression never fires again: ${job.cronExpression}`);
+          }
           
           await this.submitJob({
             name: job.name,
@@ -312,7 +403,7 @@ class JobQueueService {
             priority: job.priority ?? 5,
             executionMode: job.executionMode as ExecutionMode,
             maxRetries: job.maxRetries ?? 3,
-            timeout: job.timeout,
+            timeout: job.timeout ?? undefined,
             cronExpression: job.cronExpression,
             scheduledFor: nextRun,
             userId: job.userId ?? undefined
@@ -326,10 +417,10 @@ class JobQueueService {
 
       // Emit completion or failure event
       if (result.error) {
-        this.emitEvent({ type: "failed", jobId, job, error: result.error });
+        this.emitEvent({ type: "failed", jobId, job: finished, error: result.error });
       } else {
         const savedResult = await this.getJobResult(jobId);
-        this.emitEvent({ type: "completed", jobId, job, result: savedResult ?? undefined });
+        this.emitEvent({ type: "completed", jobId, job: finished, result: savedResult ?? undefined });
       }
 
       await this.checkDependentJobs(jobId);
@@ -338,46 +429,102 @@ class JobQueueService {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`[JobQueue] Job ${jobId} error:`, errorMessage);
 
-      const currentRetryCount = (job.retryCount ?? 0) + 1;
-      if (currentRetryCount < (job.maxRetries ?? 3)) {
-        await getDb().update(agentJobs)
-          .set({ 
-            status: "pending", // Set back to pending so dependencies logic can pick it up or we can re-enqueue
-            retryCount: currentRetryCount,
-          })
-          .where(eq(agentJobs.id, jobId));
-        
-        // Re-enqueue after delay? For simplicity in polling, we just set to queued
-        // But for exponential backoff we might want a 'scheduledFor' field logic.
-        // For now, simple re-queue:
-        setTimeout(async () => {
-             await getDb().update(agentJobs)
-              .set({ status: "queued" })
-              .where(eq(agentJobs.id, jobId));
-        }, this.config.retryDelay * currentRetryCount); // simple delay
-
-        this.emitEvent({ type: "retry", jobId, job, error: errorMessage });
-      } else {
-        await getDb().insert(jobResults).values({
-          jobId: job.id,
-          success: false,
-          error: errorMessage,
-          durationMs: Date.now() - startTime,
-        });
-
-        await getDb().update(agentJobs)
-          .set({ 
-            status: "failed",
-            completedAt: new Date(),
-          })
-          .where(eq(agentJobs.id, jobId));
-        
-        // Emit failure event
-        this.emitEvent({ type: "failed", jobId, job, error: errorMessage });
-      }
+      await this.failAttempt(job, errorMessage, Date.now() - startTime, this.ownLease(jobId));
+    } finally {
+      clearTimeout(timer);
+      clearInterval(heartbeat);
+      this.runningJobs.delete(jobId);
     }
   }
 
+  /**
+   * Settle a failed attempt: back off and retry, or dead-letter the job once
+   * its retries are exhausted. `guard` scopes the update to the row state the
+   * caller observed, so an attempt is only ever settled once.
+   */
+  private async failAttempt(job: AgentJob, errorMessage: string, durationMs: number | null, guard: SQL): Promise<void> {
+    const now = new Date();
+    const plan = planFailure(job, now, this.config);
+
+    if (plan.action === "retry") {
+      // Back to pending; checkScheduledJobs requeues it once scheduledFor passes,
+      // which survives a restart unlike an in-memory timer
+      const [retrying] = await getDb().update(agentJobs)
+        .set({
+          status: "pending",
+          retryCount: plan.retryCount,
+          scheduledFor: plan.scheduledFor,
+          leaseExpiresAt: null,
+          lastError: errorMessage,
+        })
+        .where(guard)
+        .returning();
+      if (!retrying) return;
+
+      console.log(`[JobQueue] Job ${job.id} will retry at ${plan.scheduledFor.toISOString()} (attempt ${plan.retryCount + 1} of ${job.maxRetries ?? 3})`);
+      this.emitEvent({ type: "retry", jobId: job.id, job: retrying, error: errorMessage });
+      return;
+    }
+
+    const [deadLettered] = await getDb().update(agentJobs)
+      .set({
+        status: "dead_letter",
+        retryCount: plan.retryCount,
+        completedAt: now,
+        deadLetteredAt: now,
+        leaseExpiresAt: null,
+        lastError: errorMessage,
+      })
+      .where(guard)
+      .returning();
+    if (!deadLettered) return;
+
+    await this.saveResult({
+      jobId: job.id,
+      success: false,
+      error: errorMessage,
+      durationMs,
+    });
+
+    console.warn(`[JobQueue] Job ${job.id} dead-lettered after ${plan.retryCount} attempts: ${errorMessage}`);
+    this.emitEvent({ type: "failed", jobId: job.id, job: deadLettered, error: errorMessage });
+  }
+
+  /**
+   * Settle running jobs whose worker stopped heartbeating. Jobs that were
+   * started without a lease before this process came up (by the dispatcher,
+   * or before leases existed) have no live owner either. Workflow jobs are
+   * left alone: the workflow engine owns them and picks them up itself.
+   */
+  private async reclaimExpiredLeases(): Promise<void> {
+    const stale = or(
+      lt(agentJobs.leaseExpiresAt, new Date()),
+      and(isNull(agentJobs.leaseExpiresAt), lt(agentJobs.startedAt, this.bootedAt))
+    )!;
+
+    const expired = await getDb().select()
+      .from(agentJobs)
+      .where(and(eq(agentJobs.status, "running"), ne(agentJobs.type, "workflow"), stale));
+
+    for (const job of expired) {
+      const reason = job.leaseExpiresAt
+        ? `Lease held by ${job.workerId ?? "unknown worker"} expired at ${job.leaseExpiresAt.toISOString()}`
+        : "Worker stopped before the job finished";
+      console.warn(`[JobQueue] Reclaiming job ${job.id}: ${reason}`);
+      await this.failAttempt(job, reason, null, and(eq(agentJobs.id, job.id), eq(agentJobs.status, "running"), stale)!);
+    }
+  }
+
+  /** One result row per job: a later attempt overwrites an earlier one */
+  private async saveResult(result: InsertJobResult): Promise<void> {
+    await getDb().insert(jobResults)
+      .values(result)
+      .onConflictDoUpdate({
+        target: jobResults.jobId,
+        set: { ...result, createdAt: new Date() },
+      });
+  }
+
   private async areDependenciesMet(dependencies: string[]): Promise<boolean> {
     if (!dependencies || dependencies.length === 0) return true;
 
@@ -397,6 +544,11 @@ class JobQueueService {
     return deps.every((d: any) => d.status === "completed");
   }
 
+  private async isReady(job: AgentJob): Promise<boolean> {
+    if (job.scheduledFor && job.scheduledFor > new Date()) return false;
+    return this.areDependenciesMet(job.dependencies ?? []);
+  }
+
   private async checkDependentJobs(completedJobId: string): Promise<void> {
     // Find pending jobs that depend on this one
     // We don't have a direct index on dependencies (it's a JSON/Array column usually), 
@@ -414,7 +566,7 @@ class JobQueueService {
     for (const job of pendingJobs) {
       const deps = job.dependencies ?? [];
       if (deps.includes(completedJobId)) {
-        if (await this.areDependenciesMet(deps)) {
+        if (await this.isReady(job)) {
           await this.enqueueJob(job);
         }
       }
@@ -451,26 +603,74 @@ class JobQueueService {
 
   async cancelJob(jobId: string): Promise<boolean> {
     const [job] = await getDb().update(agentJobs)
-      .set({ status: "cancelled", completedAt: new Date() })
+      .set({ status: "cancelled", completedAt: new Date(), leaseExpiresAt: null })
       .where(and(
         eq(agentJobs.id, jobId),
-        or(eq(agentJobs.status, "pending"), eq(agentJobs.status, "queued"))
+        or(
+          eq(agentJobs.status, "pending"),
+          eq(agentJobs.status, "queued"),
+          eq(agentJobs.status, "waiting_input"),
+          // Running here: the processor is told to stop through its signal
+          and(eq(agentJobs.status, "running"), eq(agentJobs.workerId, this.workerId))
+        )
       ))
       .returning();
 
     if (job) {
+      this.runningJobs.get(jobId)?.abort(new Error("Job cancelled"));
       this.emitEvent({ type: "cancelled", jobId, job });
     }
 
     return !!job;
   }
 
+  /**
+   * Jobs that exhausted their retries, most recent first
+   */
+  async getDeadLetterJobs(limit: number = 100): Promise<AgentJob[]> {
+    return getDb().select()
+      .from(agentJobs)
+      .where(eq(agentJobs.status, "dead_letter"))
+      .orderBy(desc(agentJobs.deadLetteredAt))
+      .limit(limit);
+  }
+
+  /**
+   * Give a dead-lettered or failed job a fresh set of attempts. The last
+   * error is kept for reference until the job runs again.
+   */
+  async requeueJob(jobId: string): Promise<AgentJob | null> {
+    const [job] = await getDb().update(agentJobs)
+      .set({
+        status: "pending",
+        retryCount: 0,
+        scheduledFor: null,
+        startedAt: null,
+        completedAt: null,
+        deadLetteredAt: null,
+      })
+      .where(and(eq(agentJobs.id, jobId), inArray(agentJobs.status, ["dead_letter", "failed"])))
+      .returning();
+
+    if (!job) return null;
+
+    await getDb().delete(jobResults).where(eq(jobResults.jobId, jobId));
+
+    if (await this.areDependenciesMet(job.dependencies ?? [])) {
+      await this.enqueueJob(job);
+    }
+
+    console.log(`[JobQueue] Requeued job ${jobId}: ${job.name}`);
+    return job;
+  }
+
   async resumeJob(jobId: string, operatorInput?: string): Promise<boolean> {
     const [job] = await getDb().select()
       .from(agentJobs)
       .where(eq(agentJobs.id, jobId));
 
-    if (!job) return false;
+    // Approvals are decided through approvalService, never run
+    if (!job || job.type === "approval") return false;
 
     const currentPayload = (job.payload as Record<string, unknown>) || {};
     const currentContext = (currentPayload.context as Record<string, unknown>) || {};
@@ -503,9 +703,21 @@ class JobQueueService {
     return true;
   }
 
-  async markWaitingForInput(jobId: string): Promise<boolean> {
+  /**
+   * Park a job until an operator answers; resumeJob puts it back in line.
+   * The prompt is kept in payload.context.inputPrompt.
+   */
+  async markWaitingForInput(jobId: string, inputPrompt?: string): Promise<boolean> {
+    const existing = await this.getJob(jobId);
+    if (!existing) return false;
+
+    const payload = (existing.payload as Record<string, unknown>) || {};
+    const context = (payload.context as Record<string, unknown>) || {};
     const [job] = await getDb().update(agentJobs)
-      .set({ status: "pending" }) 
+      .set({
+        status: "waiting_input",
+        payload: (inputPrompt !== undefined ? { ...payload, context: { ...context, inputPrompt } } : payload) as any,
+      })
       .where(eq(agentJobs.id, jobId))
       .returning();
 
@@ -520,12 +732,15 @@ class JobQueueService {
     pending: number;
     queued: number;
     running: number;
+    waitingInput: number;
     completed: number;
     failed: number;
+    cancelled: number;
+    deadLetter: number;
   }> {
     const stats = await getDb().select({
       status: agentJobs.status,
-      count: sql<number>`count(*)::int`,
+      count: sql<number>`count(*)`,
     })
     .from(agentJobs)
     .groupBy(agentJobs.status);
@@ -534,13 +749,17 @@ class JobQueueService {
       pending: 0,
       queued: 0,
       running: 0,
+      waitingInput: 0,
       completed: 0,
       failed: 0,
+      cancelled: 0,
+      deadLetter: 0,
     };
 
     for (const stat of stats) {
-      if (stat.status in result) {
-        result[stat.status as keyof typeof result] = stat.count;
+      const key = stat.status.replace(/_(\w)/g, (_: string, letter: string) => letter.toUpperCase());
+      if (key in result) {
+        result[key as keyof typeof result] = Number(stat.count);
       }
     }
 
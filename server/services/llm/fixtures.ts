@@ -0,0 +1,294 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - LLM RECORD / REPLAY FIXTURES
+ * =============================================================================
+ *
+ * Captures LLM calls into JSON fixture files and serves them back later
+ * through the same LlmProvider interface, so the chat pipeline (tool loop,
+ * SSE events) can run without a live model or API key.
+ *
+ * MODES (env):
+ * ------------
+ *   LLM_FIXTURE_MODE=record  LLM_FIXTURE=chat-weather
+ *     → every call goes to the real provider and is appended to
+ *       tests/fixtures/llm/chat-weather.json
+ *   LLM_FIXTURE_MODE=replay  LLM_FIXTURE=chat-weather
+ *     → calls are answered from the fixture, in order; no network
+ *
+ * LLM_FIXTURE may also be a path to a .json file.
+ *
+ * Interactions replay strictly in recorded order. Before answering, the
+ * replayer checks that the request's last message (the user's text, or the
+ * names of the tool results being returned) matches what was recorded, so
+ * a drifting pipeline fails loudly instead of replaying the wrong answer.
+ *
+ * Fixtures omit the system prompt and attachment bytes (only MIME type and
+ * size are kept). Review recorded tool arguments and results for personal
+ * data before committing a fixture.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmStreamChunk,
+  LlmToolCall,
+} from "./types";
+
+export const FIXTURE_DIR = path.join(process.cwd(), "tests", "fixtures", "llm");
+
+/**
+ * A request as stored in a fixture
+ */
+export interface LlmFixtureRequest {
+  systemChars: number;
+  messages: Array<Omit<LlmMessage, "attachments"> & {
+    attachments?: Array<{ mimeType: string; size: number }>;
+  }>;
+  tools: string[];
+  toolChoice?: LlmRequest["toolChoice"];
+  json?: boolean;
+}
+
+export interface LlmFixtureInteraction {
+  service: string;
+  provider: string;
+  model: string;
+  kind: "generate" | "stream";
+  request: LlmFixtureRequest;
+  /** Streamed chunks, for kind "stream" */
+  chunks?: LlmStreamChunk[];
+  /** Full response, for kind "generate" */
+  response?: LlmResponse;
+}
+
+export interface LlmFixture {
+  version: 1;
+  name: string;
+  recordedAt: string;
+  interactions: LlmFixtureInteraction[];
+}
+
+export class LlmFixtureMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmFixtureMismatchError";
+  }
+}
+
+export function summarizeRequest(request: LlmRequest): LlmFixtureRequest {
+  return {
+    systemChars: request.system?.length ?? 0,
+    messages: request.messages.map(({ attachments, ...message }) => ({
+      ...message,
+      ...(attachments && attachments.length > 0
+        ? { attachments: attachments.map(a => ({ mimeType: a.mimeType, size: a.data.length })) }
+        : {}),
+    })),
+    tools: (request.tools ?? []).map(tool => tool.name),
+    ...(request.toolChoice ? { toolChoice: request.toolChoice } : {}),
+    ...(request.json ? { json: true } : {}),
+  };
+}
+
+/**
+ * What identifies a request's position in a conversation: the user's text,
+ * or the tool results being handed back.
+ */
+function describeLastMessage(messages: Array<Pick<LlmMessage, "role" | "content" | "toolResults">>): string {
+  const last = messages[messages.length - 1];
+  if (!last) return "(no messages)";
+  if (last.role === "tool") {
+    return `tool results: ${(last.toolResults ?? []).map(r => r.name).join(", ")}`;
+  }
+  return `${last.role}: ${last.content ?? ""}`;
+}
+
+/**
+ * Merge streamed chunks into a single response
+ */
+export function collectChunks(chunks: LlmStreamChunk[]): LlmResponse {
+  let text = "";
+  let thought = "";
+  const toolCalls: LlmToolCall[] = [];
+  let usage: LlmResponse["usage"];
+  for (const chunk of chunks) {
+    text += chunk.text ?? "";
+    thought += chunk.thought ?? "";
+    toolCalls.push(...(chunk.toolCalls ?? []));
+    if (chunk.usage) usage = chunk.usage;
+  }
+  return { text, ...(thought ? { thought } : {}), toolCalls, ...(usage ? { usage } : {}) };
+}
+
+function responseToChunks(response: LlmResponse): LlmStreamChunk[] {
+  const { usage, ...rest } = response;
+  const chunks: LlmStreamChunk[] = [{
+    ...(rest.text ? { text: rest.text } : {}),
+    ...(rest.thought ? { thought: rest.thought } : {}),
+    ...(rest.toolCalls.length > 0 ? { toolCalls: rest.toolCalls } : {}),
+  }];
+  if (usage) chunks.push({ usage });
+  return chunks;
+}
+
+/**
+ * Resolve a fixture name ("chat-weather") or path to a file path
+ */
+export function resolveFixturePath(nameOrPath: string): string {
+  if (nameOrPath.endsWith(".json") || nameOrPath.includes("/") || nameOrPath.includes(path.sep)) {
+    return path.resolve(nameOrPath);
+  }
+  return path.join(FIXTURE_DIR, `${nameOrPath}.json`);
+}
+
+export function loadFixture(nameOrPath: string): LlmFixture {
+  const file = resolveFixturePath(nameOrPath);
+  const fixture = JSON.parse(fs.readFileSync(file, "utf-8")) as LlmFixture;
+  if (fixture.version !== 1 || !Array.isArray(fixture.interactions)) {
+    throw new Error(`Unsupported LLM fixture format: ${file}`);
+  }
+  return fixture;
+}
+
+/**
+ * Passes calls through to the real provider and appends each completed
+ * call to the fixture file.
+ */
+export class LlmFixtureRecorder {
+  readonly file: string;
+  readonly fixture: LlmFixture;
+
+  constructor(nameOrPath: string) {
+    this.file = resolveFixturePath(nameOrPath);
+    this.fixture = {
+      version: 1,
+      name: path.basename(this.file, ".json"),
+      recordedAt: new Date().toISOString(),
+      interactions: [],
+    };
+  }
+
+  private append(interaction: LlmFixtureInteraction): void {
+    this.fixture.interactions.push(interaction);
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.fixture, null, 2) + "\n", "utf-8");
+    } catch (error) {
+      console.error(`[LLM Fixtures] Failed to write ${this.file}:`, error);
+    }
+  }
+
+  wrap(provider: LlmProvider, service: string): LlmProvider {
+    const recorder = this;
+    const base = { service, provider: provider.name };
+    return {
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      isConfigured: () => provider.isConfigured(),
+      async generate(request) {
+        const response = await provider.generate(request);
+        recorder.append({ ...base, model: request.model, kind: "generate", request: summarizeRequest(request), response });
+        return response;
+      },
+      async *stream(request) {
+        const chunks: LlmStreamChunk[] = [];
+        for await (const chunk of provider.stream(request)) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+        recorder.append({ ...base, model: request.model, kind: "stream", request: summarizeRequest(request), chunks });
+      },
+    };
+  }
+}
+
+/**
+ * Answers calls from a fixture, in recorded order, without touching the
+ * wrapped provider.
+ */
+export class LlmFixtureReplayer {
+  private position = 0;
+
+  constructor(readonly fixture: LlmFixture) {}
+
+  static load(nameOrPath: string): LlmFixtureReplayer {
+    return new LlmFixtureReplayer(loadFixture(nameOrPath));
+  }
+
+  /** Interactions not yet served */
+  remaining(): number {
+    return this.fixture.interactions.length - this.position;
+  }
+
+  private next(request: LlmRequest, service: string): LlmFixtureInteraction {
+    const interaction = this.fixture.interactions[this.position];
+    const callNumber = this.position + 1;
+    if (!interaction) {
+      throw new LlmFixtureMismatchError(
+        `Fixture "${this.fixture.name}" has no interaction #${callNumber} (${service}: ${describeLastMessage(request.messages)})`
+      );
+    }
+
+    const expected = describeLastMessage(interaction.request.messages);
+    const actual = describeLastMessage(request.messages);
+    if (expected !== actual) {
+      throw new LlmFixtureMismatchError(
+        `Fixture "${this.fixture.name}" interaction #${callNumber} was recorded for "${expected}" but got "${actual}"`
+      );
+    }
+
+    this.position++;
+    return interaction;
+  }
+
+  wrap(provider: LlmProvider, service: string): LlmProvider {
+    const replayer = this;
+    return {
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      isConfigured: () => true,
+      async generate(request) {
+        const interaction = replayer.next(request, service);
+        return interaction.response ?? collectChunks(interaction.chunks ?? []);
+      },
+      async *stream(request) {
+        const interaction = replayer.next(request, service);
+        const chunks = interaction.chunks ?? (interaction.response ? responseToChunks(interaction.response) : []);
+        for (const chunk of chunks) {
+          yield chunk;
+        }
+      },
+    };
+  }
+}
+
+export type LlmFixtureSession = LlmFixtureRecorder | LlmFixtureReplayer;
+
+export function fixtureSessionFromEnv(env: NodeJS.ProcessEnv = process.env): LlmFixtureSession | null {
+  const mode = env.LLM_FIXTURE_MODE;
+  if (!mode) return null;
+
+  const name = env.LLM_FIXTURE;
+  if (!name) {
+    console.warn(`[LLM Fixtures] LLM_FIXTURE_MODE=${mode} set without LLM_FIXTURE; ignoring`);
+    return null;
+  }
+
+  if (mode === "record") {
+    const recorder = new LlmFixtureRecorder(name);
+    console.log(`⏺️ [LLM Fixtures] Recording LLM calls to ${recorder.file}`);
+    return recorder;
+  }
+  if (mode === "replay") {
+    const replayer = LlmFixtureReplayer.load(name);
+    console.log(`▶️ [LLM Fixtures] Replaying ${replayer.remaining()} LLM calls from ${resolveFixturePath(name)}`);
+    return replayer;
+  }
+
+  console.warn(`[LLM Fixtures] Unknown LLM_FIXTURE_MODE "${mode}" (expected record or replay); ignoring`);
+  return null;
+}
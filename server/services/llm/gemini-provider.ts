@@ -0,0 +1,224 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - GEMINI PROVIDER
+ * =============================================================================
+ *
+ * LlmProvider adapter for Google Gemini via @google/genai.
+ *
+ * TRANSLATION:
+ * ------------
+ *   system            → config.systemInstruction
+ *   assistant turn    → role "model" with text and functionCall parts
+ *   tool turn         → role "user" with one functionResponse per result
+ *   toolChoice        → functionCallingConfig mode (AUTO / ANY / NONE)
+ *   json              → responseMimeType "application/json"
+ *
+ * Thought parts (thinking models) are surfaced as `thought`, and thought
+ * signatures on functionCall parts are kept so they can be replayed on the
+ * next turn. 503/429 responses are retried with exponential backoff.
+ */
+
+import {
+  GoogleGenAI,
+  FunctionCallingConfigMode,
+  type Content,
+  type GenerateContentConfig,
+  type GenerateContentResponse,
+  type Part,
+} from "@google/genai";
+import {
+  LlmProviderError,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmStreamChunk,
+  type LlmToolCall,
+  type LlmUsage,
+} from "./types";
+
+const TOOL_CHOICE_MODES = {
+  auto: FunctionCallingConfigMode.AUTO,
+  required: FunctionCallingConfigMode.ANY,
+  none: FunctionCallingConfigMode.NONE,
+} as const;
+
+/** Retry a Gemini API call with exponential backoff on 503/429. */
+async function withGeminiRetry<T>(fn: () => Promise<T>, maxAttempts = 4): Promise<T> {
+  let delay = 2000;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      const status = err?.status ?? err?.response?.status;
+      const retryable = status === 503 || status === 429;
+      if (!retryable || attempt === maxAttempts) throw err;
+      console.warn(`[Gemini] ${status} on attempt ${attempt}/${maxAttempts}, retrying in ${delay}ms…`);
+      await new Promise(res => setTimeout(res, delay));
+      delay = Math.min(delay * 2, 16000);
+    }
+  }
+  throw new Error("unreachable");
+}
+
+/**
+ * Convert neutral messages to Gemini contents
+ */
+export function toGeminiContents(messages: LlmMessage[]): Content[] {
+  return messages.map((message): Content => {
+    if (message.role === "tool") {
+      return {
+        role: "user",
+        parts: (message.toolResults ?? []).map(result => ({
+          functionResponse: {
+            ...(result.callId ? { id: result.callId } : {}),
+            name: result.name,
+            response: result.response,
+          },
+        })),
+      };
+    }
+
+    const parts: Part[] = [];
+    if (message.content) {
+      parts.push({ text: message.content });
+    }
+    for (const attachment of message.attachments ?? []) {
+      parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+    }
+    for (const call of message.toolCalls ?? []) {
+      parts.push({
+        functionCall: { ...(call.id ? { id: call.id } : {}), name: call.name, args: call.args },
+        ...(call.signature ? { thoughtSignature: call.signature } : {}),
+      });
+    }
+    if (parts.length === 0) {
+      parts.push({ text: "" });
+    }
+
+    return { role: message.role === "assistant" ? "model" : "user", parts };
+  });
+}
+
+function toGeminiConfig(request: LlmRequest): GenerateContentConfig {
+  const config: GenerateContentConfig = {};
+  if (request.system) config.systemInstruction = request.system;
+  if (request.tools && request.tools.length > 0) {
+    config.tools = [{
+      functionDeclarations: request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parametersJsonSchema: tool.parameters,
+      })),
+    }];
+    config.toolConfig = {
+      functionCallingConfig: { mode: TOOL_CHOICE_MODES[request.toolChoice ?? "auto"] },
+    };
+  }
+  if (request.json) config.responseMimeType = "application/json";
+  if (request.temperature !== undefined) config.temperature = request.temperature;
+  if (request.maxOutputTokens !== undefined) config.maxOutputTokens = request.maxOutputTokens;
+  if (request.signal) config.abortSignal = request.signal;
+  return config;
+}
+
+/**
+ * Split a response (or stream chunk) into text, thought and tool calls
+ */
+function toChunk(response: GenerateContentResponse): LlmStreamChunk {
+  const chunk: LlmStreamChunk = {};
+  let text = "";
+  let thought = "";
+  const toolCalls: LlmToolCall[] = [];
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.functionCall) {
+      toolCalls.push({
+        ...(part.functionCall.id ? { id: part.functionCall.id } : {}),
+        name: part.functionCall.name ?? "",
+        args: (part.functionCall.args as Record<string, unknown>) ?? {},
+        ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+      });
+    } else if (part.thought) {
+      thought += part.text ?? "";
+    } else if (part.text) {
+      text += part.text;
+    }
+  }
+
+  if (text) chunk.text = text;
+  if (thought) chunk.thought = thought;
+  if (toolCalls.length > 0) chunk.toolCalls = toolCalls;
+
+  const usage = response.usageMetadata;
+  if (usage) {
+    chunk.usage = {
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0,
+      ...(usage.thoughtsTokenCount ? { thoughtsTokens: usage.thoughtsTokenCount } : {}),
+    };
+  }
+  return chunk;
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini";
+  readonly defaultModel = "gemini-2.5-pro";
+  private client: GoogleGenAI | null = null;
+
+  constructor(private readonly apiKey: string | undefined = process.env.GEMINI_API_KEY) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private getClient(): GoogleGenAI {
+    if (!this.apiKey) {
+      throw new LlmProviderError(this.name, "GEMINI_API_KEY not configured");
+    }
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const client = this.getClient();
+    const response = await withGeminiRetry(() => client.models.generateContent({
+      model: request.model,
+      contents: toGeminiContents(request.messages),
+      config: toGeminiConfig(request),
+    }));
+
+    const chunk = toChunk(response);
+    return {
+      text: chunk.text ?? "",
+      thought: chunk.thought,
+      toolCalls: chunk.toolCalls ?? [],
+      usage: chunk.usage,
+    };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const client = this.getClient();
+    const stream = await withGeminiRetry(() => client.models.generateContentStream({
+      model: request.model,
+      contents: toGeminiContents(request.messages),
+      config: toGeminiConfig(request),
+    }));
+
+    // Gemini repeats cumulative usage on several chunks; only the last counts
+    let usage: LlmUsage | undefined;
+    for await (const response of stream) {
+      const { usage: chunkUsage, ...chunk } = toChunk(response);
+      if (chunkUsage) usage = chunkUsage;
+      if (chunk.text || chunk.thought || chunk.toolCalls) {
+        yield chunk;
+      }
+    }
+    if (usage) {
+      yield { usage };
+    }
+  }
+}
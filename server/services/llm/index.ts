@@ -0,0 +1,210 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - LLM SERVICE
+ * =============================================================================
+ *
+ * Single entry point for model calls. Services name themselves ("chat",
+ * "summarization", ...) and the provider/model is chosen per service and
+ * per user agent (see selection.ts). Every call's token usage is written to
+ * llm_usage with the provider and service in its metadata.
+ *
+ * PROVIDERS:
+ * ----------
+ *   gemini             - Google Gemini (GEMINI_API_KEY)
+ *   openai-compatible  - Ollama / llama.cpp / vLLM / OpenAI
+ *                        (OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_API_KEY)
+ *
+ * USAGE:
+ * ------
+ *   const { text } = await llm.generate("summarization", { messages, json: true });
+ *
+ *   const target = llm.resolve("chat", { agent });
+ *   for await (const chunk of llm.stream(target, request, { chatId })) { ... }
+ *
+ * With LLM_FIXTURE_MODE set, every provider is wrapped by the record/replay
+ * harness (see fixtures.ts).
+ */
+
+import { storage } from "../../storage";
+import { fixtureSessionFromEnv, type LlmFixtureSession } from "./fixtures";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import {
+  selectModel,
+  type AgentModelPreference,
+  type LlmServiceName,
+} from "./selection";
+import {
+  LlmProviderError,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmStreamChunk,
+  type LlmUsage,
+} from "./types";
+
+export * from "./types";
+export type { AgentModelPreference, LlmServiceName } from "./selection";
+export { LlmFixtureRecorder, LlmFixtureReplayer } from "./fixtures";
+
+/**
+ * A resolved provider + model for one service call
+ */
+export interface LlmTarget {
+  service: LlmServiceName;
+  provider: LlmProvider;
+  model: string;
+  source: "agent" | "env" | "default";
+}
+
+export interface ResolveOptions {
+  agent?: AgentModelPreference | null;
+  /** Model to use when nothing overrides the service default */
+  defaultModel?: string;
+}
+
+/**
+ * Where a call's usage row should be attributed
+ */
+export interface UsageContext {
+  chatId?: string;
+  messageId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export type LlmServiceRequest = Omit<LlmRequest, "model">;
+
+export interface LlmGenerateResult extends LlmResponse {
+  provider: string;
+  model: string;
+}
+
+class LlmService {
+  private providers = new Map<string, LlmProvider>();
+  private fixtures: LlmFixtureSession | null;
+
+  constructor() {
+    this.register(new GeminiProvider());
+    this.register(new OpenAICompatibleProvider());
+    this.fixtures = fixtureSessionFromEnv();
+  }
+
+  /**
+   * Record or replay every subsequent call (null restores live calls)
+   */
+  useFixtures(session: LlmFixtureSession | null): this {
+    this.fixtures = session;
+    return this;
+  }
+
+  register(provider: LlmProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  getProvider(name: string): LlmProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new LlmProviderError(name, `Unknown LLM provider (available: ${this.providerNames().join(", ")})`);
+    }
+    return provider;
+  }
+
+  providerNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  listProviders(): Array<{ name: string; defaultModel: string; configured: boolean }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+    }));
+  }
+
+  resolve(service: LlmServiceName, options: ResolveOptions = {}): LlmTarget {
+    const selection = selectModel(service, options);
+    const registered = this.getProvider(selection.provider);
+    const provider = this.fixtures ? this.fixtures.wrap(registered, service) : registered;
+    return {
+      service,
+      provider,
+      model: selection.model ?? provider.defaultModel,
+      source: selection.source,
+    };
+  }
+
+  /**
+   * Whether the provider selected for a service can be called
+   */
+  isAvailable(service: LlmServiceName, options: ResolveOptions = {}): boolean {
+    try {
+      return this.resolve(service, options).provider.isConfigured();
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(
+    target: LlmTarget | LlmServiceName,
+    request: LlmServiceRequest,
+    usage: UsageContext = {}
+  ): Promise<LlmGenerateResult> {
+    const resolved = typeof target === "string" ? this.resolve(target) : target;
+    const startTime = Date.now();
+    const response = await resolved.provider.generate({ ...request, model: resolved.model });
+    if (response.usage) {
+      await this.recordUsage(resolved, response.usage, Date.now() - startTime, usage);
+    }
+    return { ...response, provider: resolved.provider.name, model: resolved.model };
+  }
+
+  /**
+   * Stream a call, recording usage once the stream has been fully consumed
+   */
+  async *stream(
+    target: LlmTarget | LlmServiceName,
+    request: LlmServiceRequest,
+    usage: UsageContext = {}
+  ): AsyncGenerator<LlmStreamChunk> {
+    const resolved = typeof target === "string" ? this.resolve(target) : target;
+    const startTime = Date.now();
+    let finalUsage: LlmUsage | undefined;
+    for await (const chunk of resolved.provider.stream({ ...request, model: resolved.model })) {
+      if (chunk.usage) finalUsage = chunk.usage;
+      yield chunk;
+    }
+    if (finalUsage) {
+      await this.recordUsage(resolved, finalUsage, Date.now() - startTime, usage);
+    }
+  }
+
+  private async recordUsage(
+    target: LlmTarget,
+    usage: LlmUsage,
+    durationMs: number,
+    context: UsageContext
+  ): Promise<void> {
+    try {
+      await storage.logLlmUsage({
+        chatId: context.chatId,
+        messageId: context.messageId,
+        model: target.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        durationMs,
+        metadata: {
+          provider: target.provider.name,
+          service: target.service,
+          ...(usage.thoughtsTokens ? { thoughtsTokenCount: usage.thoughtsTokens } : {}),
+          ...context.metadata,
+        },
+      });
+    } catch (error) {
+      console.error(`[LLM] Failed to log ${target.service} usage:`, error);
+    }
+  }
+}
+
+export const llm = new LlmService();
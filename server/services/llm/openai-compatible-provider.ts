@@ -0,0 +1,353 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - OPENAI-COMPATIBLE PROVIDER
+ * =============================================================================
+ *
+ * LlmProvider adapter for any server speaking the OpenAI chat completions
+ * API: Ollama, llama.cpp (llama-server), vLLM, LM Studio, or OpenAI itself.
+ *
+ * CONFIGURATION:
+ * --------------
+ *   OPENAI_COMPAT_BASE_URL  - API root including /v1 (default: local Ollama,
+ *                             http://localhost:11434/v1)
+ *   OPENAI_COMPAT_API_KEY   - Bearer token, if the server wants one
+ *   OPENAI_COMPAT_MODEL     - Default model (default: llama3.1)
+ *
+ * TRANSLATION:
+ * ------------
+ *   system            → leading "system" message
+ *   attachments       → image_url / input_audio content parts
+ *   assistant turn    → "assistant" message with tool_calls
+ *   tool turn         → one "tool" message per result, keyed by tool_call_id
+ *   json              → response_format { type: "json_object" }
+ *
+ * Streaming uses server-sent events. Tool call arguments arrive as string
+ * fragments keyed by index and are assembled before being yielded.
+ * Reasoning deltas (`reasoning_content` / `reasoning`) become `thought`.
+ */
+
+import {
+  LlmProviderError,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmStreamChunk,
+  type LlmToolCall,
+  type LlmUsage,
+} from "./types";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MODEL = "llama3.1";
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export type OpenAIChatMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIChoiceMessage {
+  content?: string | null;
+  reasoning_content?: string | null;
+  reasoning?: string | null;
+  tool_calls?: OpenAIToolCallDelta[];
+}
+
+interface OpenAICompletion {
+  choices?: Array<{ message?: OpenAIChoiceMessage; delta?: OpenAIChoiceMessage }>;
+  usage?: OpenAIUsage | null;
+}
+
+function toAttachmentPart(mimeType: string, data: string): OpenAIContentPart {
+  if (mimeType.startsWith("audio/")) {
+    const format = mimeType.slice("audio/".length).replace("mpeg", "mp3");
+    return { type: "input_audio", input_audio: { data, format } };
+  }
+  return { type: "image_url", image_url: { url: `data:${mimeType};base64,${data}` } };
+}
+
+/**
+ * Convert a neutral request's system prompt and messages to chat messages.
+ * Tool calls without a provider ID (e.g. replayed from Gemini history) get
+ * a synthetic one so results can reference them.
+ */
+export function toOpenAIMessages(system: string | undefined, messages: LlmMessage[]): OpenAIChatMessage[] {
+  const out: OpenAIChatMessage[] = [];
+  if (system) {
+    out.push({ role: "system", content: system });
+  }
+
+  let lastCallIds: string[] = [];
+  messages.forEach((message, messageIndex) => {
+    if (message.role === "assistant") {
+      const toolCalls = (message.toolCalls ?? []).map((call, i) => ({
+        id: call.id ?? `call_${messageIndex}_${i}`,
+        type: "function" as const,
+        function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+      }));
+      lastCallIds = toolCalls.map(call => call.id);
+      out.push({
+        role: "assistant",
+        content: message.content ?? null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      return;
+    }
+
+    if (message.role === "tool") {
+      (message.toolResults ?? []).forEach((result, i) => {
+        out.push({
+          role: "tool",
+          tool_call_id: result.callId ?? lastCallIds[i] ?? `call_${messageIndex}_${i}`,
+          content: JSON.stringify(result.response),
+        });
+      });
+      return;
+    }
+
+    const attachments = message.attachments ?? [];
+    if (attachments.length === 0) {
+      out.push({ role: "user", content: message.content ?? "" });
+      return;
+    }
+    const parts: OpenAIContentPart[] = [];
+    if (message.content) {
+      parts.push({ type: "text", text: message.content });
+    }
+    for (const attachment of attachments) {
+      parts.push(toAttachmentPart(attachment.mimeType, attachment.data));
+    }
+    out.push({ role: "user", content: parts });
+  });
+
+  return out;
+}
+
+/**
+ * Build the chat completions request body
+ */
+export function toOpenAIRequestBody(request: LlmRequest, stream: boolean): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    model: request.model,
+    messages: toOpenAIMessages(request.system, request.messages),
+    stream,
+  };
+  if (stream) {
+    body.stream_options = { include_usage: true };
+  }
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map(tool => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description ?? "",
+        parameters: tool.parameters ?? { type: "object", properties: {} },
+      },
+    }));
+    body.tool_choice = request.toolChoice ?? "auto";
+  }
+  if (request.json) body.response_format = { type: "json_object" };
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.maxOutputTokens !== undefined) body.max_tokens = request.maxOutputTokens;
+  return body;
+}
+
+function toUsage(usage: OpenAIUsage | null | undefined): LlmUsage | undefined {
+  if (!usage) return undefined;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  const reasoning = usage.completion_tokens_details?.reasoning_tokens;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+    ...(reasoning ? { thoughtsTokens: reasoning } : {}),
+  };
+}
+
+function parseArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    console.warn(`[OpenAICompat] Unparseable tool arguments: ${raw.substring(0, 200)}`);
+    return {};
+  }
+}
+
+/**
+ * Assembles streamed tool call fragments, keyed by their index
+ */
+export class ToolCallAccumulator {
+  private calls = new Map<number, { id?: string; name: string; arguments: string }>();
+
+  add(deltas: OpenAIToolCallDelta[]): void {
+    deltas.forEach((delta, position) => {
+      const index = delta.index ?? position;
+      const call = this.calls.get(index) ?? { name: "", arguments: "" };
+      if (delta.id) call.id = delta.id;
+      if (delta.function?.name) call.name += delta.function.name;
+      if (delta.function?.arguments) call.arguments += delta.function.arguments;
+      this.calls.set(index, call);
+    });
+  }
+
+  finish(): LlmToolCall[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({
+        ...(call.id ? { id: call.id } : {}),
+        name: call.name,
+        args: parseArguments(call.arguments),
+      }));
+  }
+}
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  defaultModel?: string;
+}
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    this.name = options.name ?? "openai-compatible";
+    this.baseUrl = (options.baseUrl ?? process.env.OPENAI_COMPAT_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey ?? process.env.OPENAI_COMPAT_API_KEY;
+    this.defaultModel = options.defaultModel ?? process.env.OPENAI_COMPAT_MODEL ?? DEFAULT_MODEL;
+  }
+
+  /**
+   * Local servers need no key, so the provider is usable whenever it is
+   * pointed somewhere explicitly or the default endpoint is assumed.
+   */
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new LlmProviderError(this.name, `Request to ${this.baseUrl} failed: ${message}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new LlmProviderError(
+        this.name,
+        `HTTP ${response.status}${detail ? `: ${detail.substring(0, 500)}` : ""}`,
+        response.status
+      );
+    }
+    return response;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.post(toOpenAIRequestBody(request, false), request.signal);
+    const completion = (await response.json()) as OpenAICompletion;
+    const message = completion.choices?.[0]?.message ?? {};
+
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add(message.tool_calls ?? []);
+
+    const thought = message.reasoning_content ?? message.reasoning ?? undefined;
+    return {
+      text: message.content ?? "",
+      ...(thought ? { thought } : {}),
+      toolCalls: toolCalls.finish(),
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const response = await this.post(toOpenAIRequestBody(request, true), request.signal);
+    if (!response.body) {
+      throw new LlmProviderError(this.name, "Streaming response has no body");
+    }
+
+    const toolCalls = new ToolCallAccumulator();
+    let usage: LlmUsage | undefined;
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const data = trimmed.slice("data:".length).trim();
+        if (!data || data === "[DONE]") continue;
+
+        let completion: OpenAICompletion;
+        try {
+          completion = JSON.parse(data);
+        } catch {
+          console.warn(`[OpenAICompat] Skipping malformed stream event: ${data.substring(0, 200)}`);
+          continue;
+        }
+
+        usage = toUsage(completion.usage) ?? usage;
+        const delta = completion.choices?.[0]?.delta;
+        if (!delta) continue;
+        if (delta.tool_calls) toolCalls.add(delta.tool_calls);
+
+        const thought = delta.reasoning_content ?? delta.reasoning;
+        if (delta.content || thought) {
+          yield {
+            ...(delta.content ? { text: delta.content } : {}),
+            ...(thought ? { thought } : {}),
+          };
+        }
+      }
+    }
+
+    const calls = toolCalls.finish();
+    if (calls.length > 0) yield { toolCalls: calls };
+    if (usage) yield { usage };
+  }
+}
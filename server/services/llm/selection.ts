@@ -0,0 +1,104 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - LLM PROVIDER SELECTION
+ * =============================================================================
+ *
+ * Decides which provider and model each service uses.
+ *
+ * PRECEDENCE (first match wins):
+ * ------------------------------
+ * 1. The user agent's llmProvider / llmModel columns (user_agents); a model
+ *    without a provider applies to the service's default provider
+ * 2. LLM_<SERVICE> env var, e.g. LLM_SUMMARIZATION="openai-compatible:qwen2.5"
+ * 3. LLM_PROVIDER env var, applied to every service
+ * 4. The service's built-in default (Gemini)
+ *
+ * A spec is "provider" or "provider:model". Only the first colon splits, so
+ * Ollama tags like "openai-compatible:llama3.1:8b" keep their model tag.
+ * When a spec names a provider but no model, the service default model is
+ * kept if the provider is unchanged; otherwise the provider's own default
+ * model is used (left undefined here for the caller to fill in).
+ */
+
+export type LlmServiceName =
+  | "chat"
+  | "summarization"
+  | "jit"
+  | "agent-worker"
+  | "speech";
+
+export interface ModelSpec {
+  provider: string;
+  model?: string;
+}
+
+export interface LlmSelection extends ModelSpec {
+  source: "agent" | "env" | "default";
+}
+
+/**
+ * Per-agent override, as stored on a user_agents row
+ */
+export interface AgentModelPreference {
+  llmProvider?: string | null;
+  llmModel?: string | null;
+}
+
+export const SERVICE_DEFAULTS: Record<LlmServiceName, Required<ModelSpec>> = {
+  chat: { provider: "gemini", model: "gemini-2.5-pro" },
+  summarization: { provider: "gemini", model: "gemini-2.0-flash" },
+  jit: { provider: "gemini", model: "gemini-3-flash-preview-lite" },
+  "agent-worker": { provider: "gemini", model: "gemini-2.5-pro" },
+  speech: { provider: "gemini", model: "gemini-3-flash-preview" },
+};
+
+export function parseModelSpec(spec: string | undefined | null): ModelSpec | undefined {
+  const trimmed = spec?.trim();
+  if (!trimmed) return undefined;
+  const colon = trimmed.indexOf(":");
+  if (colon === -1) return { provider: trimmed };
+  const provider = trimmed.slice(0, colon).trim();
+  const model = trimmed.slice(colon + 1).trim();
+  if (!provider) return undefined;
+  return model ? { provider, model } : { provider };
+}
+
+export function serviceEnvVar(service: LlmServiceName): string {
+  return `LLM_${service.toUpperCase().replace(/-/g, "_")}`;
+}
+
+export interface SelectionOptions {
+  agent?: AgentModelPreference | null;
+  /** Overrides the built-in default model for this call (e.g. chat's flash/pro toggle) */
+  defaultModel?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+export function selectModel(service: LlmServiceName, options: SelectionOptions = {}): LlmSelection {
+  const env = options.env ?? process.env;
+  const fallback = {
+    provider: SERVICE_DEFAULTS[service].provider,
+    model: options.defaultModel ?? SERVICE_DEFAULTS[service].model,
+  };
+
+  const withDefaultModel = (spec: ModelSpec): ModelSpec => {
+    if (spec.model) return spec;
+    return spec.provider === fallback.provider ? { ...spec, model: fallback.model } : spec;
+  };
+
+  const agentProvider = options.agent?.llmProvider?.trim();
+  const agentModel = options.agent?.llmModel?.trim();
+  if (agentProvider || agentModel) {
+    return {
+      ...withDefaultModel({ provider: agentProvider || fallback.provider, model: agentModel || undefined }),
+      source: "agent",
+    };
+  }
+
+  const fromEnv = parseModelSpec(env[serviceEnvVar(service)]) ?? parseModelSpec(env.LLM_PROVIDER);
+  if (fromEnv) {
+    return { ...withDefaultModel(fromEnv), source: "env" };
+  }
+
+  return { ...fallback, source: "default" };
+}
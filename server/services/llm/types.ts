@@ -0,0 +1,130 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - LLM PROVIDER TYPES
+ * =============================================================================
+ *
+ * Provider-neutral request/response shapes shared by every LLM adapter.
+ * Callers build an LlmRequest; each adapter translates it to its own wire
+ * format (Gemini contents/parts, OpenAI chat messages) and translates the
+ * reply back.
+ *
+ * CONVERSATION SHAPE:
+ * -------------------
+ *   user       → text plus optional inline attachments (images, audio)
+ *   assistant  → text and/or the tool calls the model made
+ *   tool       → one result per tool call of the preceding assistant turn
+ */
+
+import type { JsonSchema } from "../tool-schemas";
+
+/**
+ * Base64 payload sent alongside a user message
+ */
+export interface LlmInlineData {
+  mimeType: string;
+  /** Base64-encoded bytes (no data: prefix) */
+  data: string;
+}
+
+export interface LlmToolCall {
+  /** Provider-assigned call ID, echoed back with the result */
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Opaque token some providers require to be replayed with the call (Gemini thought signatures) */
+  signature?: string;
+}
+
+export interface LlmToolResult {
+  /** ID of the call this answers, when the provider assigned one */
+  callId?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LlmMessage {
+  role: "user" | "assistant" | "tool";
+  content?: string;
+  attachments?: LlmInlineData[];
+  toolCalls?: LlmToolCall[];
+  toolResults?: LlmToolResult[];
+}
+
+/**
+ * A callable tool, described by a JSON Schema for its arguments
+ */
+export interface LlmTool {
+  name: string;
+  description?: string;
+  parameters?: JsonSchema;
+}
+
+/**
+ * "required" forces at least one tool call (Gemini's ANY mode)
+ */
+export type LlmToolChoice = "auto" | "required" | "none";
+
+export interface LlmRequest {
+  model: string;
+  system?: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  toolChoice?: LlmToolChoice;
+  /** Ask for a JSON object as the whole reply */
+  json?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Reasoning tokens, when the provider reports them separately */
+  thoughtsTokens?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  /** Reasoning text the provider exposed alongside the answer */
+  thought?: string;
+  toolCalls: LlmToolCall[];
+  usage?: LlmUsage;
+}
+
+/**
+ * One streamed increment. Tool calls may arrive in any chunk; usage
+ * normally arrives with the last one.
+ */
+export interface LlmStreamChunk {
+  text?: string;
+  thought?: string;
+  toolCalls?: LlmToolCall[];
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  /** Registry key, e.g. "gemini" or "openai-compatible" */
+  readonly name: string;
+  /** Model used when neither the caller nor the configuration names one */
+  readonly defaultModel: string;
+  /** Whether the provider has the credentials/endpoint it needs */
+  isConfigured(): boolean;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  stream(request: LlmRequest): AsyncIterable<LlmStreamChunk>;
+}
+
+/**
+ * Error raised by an adapter, carrying the HTTP status when there is one
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = "LlmProviderError";
+  }
+}
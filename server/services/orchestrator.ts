@@ -15,6 +15,15 @@
  * - Context Passing: Shares state between agents
  * - Logging & Debugging: Comprehensive logs at all levels
  * 
+ * Sessions are persisted through the StateManager (kind "orchestration"),
+ * with the goal, plan and job ids in the session's metadata; on boot,
+ * recoverSessions() reattaches the ones that were still running.
+ * 
+ * Plans come back from the planner as JSON and are validated against the
+ * schema in task-plan.ts, with dependency ids and cycles checked by the
+ * dependencyResolver; invalid plans are sent back for repair. When a step
+ * fails, its subtree is replanned while the rest of the plan keeps going.
+ * 
  * Architecture Analogy:
  * Think of the orchestrator as a CPU that:
  * - Fetches instructions (tasks) from memory (queue)
@@ -28,12 +37,41 @@ import { jobQueue, type JobSubmission } from "./job-queue";
 import { dependencyResolver } from "./dependency-resolver";
 import { getDb } from "../db";
 import { agentJobs, type AgentJob, jobResults, type JobResult } from "@shared/schema";
-import { eq, inArray, desc } from "drizzle-orm";
+import { inArray } from "drizzle-orm";
+import { topologicalOrder } from "@shared/dag";
+import { stateManager } from "./state-manager";
+import { orchestrationStatusFromJobs, planRecovery, type OrchestrationRecord } from "./state-journal";
+import { toolAllowlist } from "./job-agent-loop";
+import {
+  MAX_PLAN_REPAIRS,
+  MAX_REPLANS,
+  buildPlanningPrompt,
+  buildRepairPrompt,
+  buildReplanPrompt,
+  failedSubtree,
+  validatePlanOutput,
+  validateReplacementOutput,
+  type AgentType,
+  type PlanValidation,
+  type PlanValidationOptions,
+  type ReplanStepState,
+  type TaskPlan,
+  type TaskStep,
+} from "./task-plan";
 
 // =============================================================================
 // TYPES & INTERFACES
 // =============================================================================
 
+/** StateManager session kind of orchestrations */
+const ORCHESTRATION_SESSION_KIND = "orchestration";
+
+/** How long a planning job may take before planning gives up */
+const PLANNING_TIMEOUT_MS = 60000;
+
+/** How often executing orchestrations are checked for failed steps */
+const SUPERVISE_INTERVAL_MS = 5000;
+
 /**
  * Agent capabilities define what an agent can do
  */
@@ -41,7 +79,7 @@ export interface AgentCapability {
   name: string;
   description: string;
   domains: string[]; // e.g., ["code", "research", "planning"]
-  tools: string[]; // Available tools for this capability
+  tools: string[]; // Tool names (gemini-tools.ts) the agent's jobs may call
   maxConcurrency?: number; // How many tasks this agent can handle at once
 }
 
@@ -51,7 +89,7 @@ export interface AgentCapability {
 export interface AgentDefinition {
   id: string;
   name: string;
-  type: "planner" | "executor" | "researcher" | "coder" | "reviewer" | "specialist";
+  type: AgentType;
   description: string;
   capabilities: AgentCapability[];
   priority: number; // For agent selection (higher = more preferred)
@@ -62,30 +100,9 @@ export interface AgentDefinition {
 }
 
 /**
- * Task plan with hierarchical structure
+ * Task plans and their steps are defined by the zod schemas in task-plan.ts
  */
-export interface TaskPlan {
-  goal: string;
-  steps: TaskStep[];
-  estimatedDuration?: number;
-  parallelizable: boolean;
-  metadata?: Record<string, unknown>;
-}
-
-/**
- * Individual step in a task plan
- */
-export interface TaskStep {
-  id: string;
-  title: string;
-  description: string;
-  agentType: AgentDefinition["type"];
-  requiredCapabilities: string[];
-  dependencies: string[]; // IDs of steps that must complete first
-  input?: Record<string, unknown>;
-  priority: number;
-  estimatedDuration?: number;
-}
+export type { TaskPlan, TaskStep };
 
 /**
  * Execution context shared between tasks
@@ -135,6 +152,9 @@ class OrchestratorService {
   private agents: Map<string, AgentDefinition> = new Map();
   private activeSessions: Map<string, ExecutionContext> = new Map();
   private sessionLogs: Map<string, OrchestratorLog[]> = new Map();
+  /** Sessions with a replan in flight */
+  private replanning: Set<string> = new Set();
+  private supervisor: NodeJS.Timeout | null = null;
 
   /**
    * Initialize the orchestrator with default agents
@@ -151,13 +171,13 @@ class OrchestratorService {
           name: "task_decomposition",
           description: "Break down high-level goals into subtasks",
           domains: ["planning", "strategy"],
-          tools: ["analyze_requirements", "create_task_tree"],
+          tools: [],
         },
         {
           name: "dependency_analysis",
           description: "Identify task dependencies and ordering",
           domains: ["planning"],
-          tools: ["analyze_dependencies"],
+          tools: [],
         },
       ],
       priority: 10,
@@ -176,13 +196,32 @@ class OrchestratorService {
           name: "web_search",
           description: "Search the web for information",
           domains: ["research", "information"],
-          tools: ["google_search", "web_scrape", "tavily_research"],
+          tools: ["web_search", "exa_search", "http_get"],
         },
         {
           name: "document_analysis",
           description: "Analyze documents and extract insights",
           domains: ["research", "analysis"],
-          tools: ["read_document", "extract_entities"],
+          tools: ["get", "drive_read", "docs_read"],
+        },
+      ],
+      priority: 8,
+      status: "active",
+      currentLoad: 0,
+      maxLoad: 3,
+    });
+
+    this.registerAgent({
+      id: "executor-001",
+      name: "Execution Agent",
+      type: "executor",
+      description: "Carries out concrete actions with tools",
+      capabilities: [
+        {
+          name: "task_execution",
+          description: "Run commands, read and write files, call HTTP APIs",
+          domains: ["execution", "automation"],
+          tools: ["terminal", "get", "put", "http_get", "http_post", "web_search"],
         },
       ],
       priority: 8,
@@ -201,13 +240,13 @@ class OrchestratorService {
           name: "code_generation",
           description: "Generate code from specifications",
           domains: ["coding", "development"],
-          tools: ["file_put", "terminal_execute"],
+          tools: ["put", "terminal"],
         },
         {
           name: "code_analysis",
           description: "Analyze existing codebases",
           domains: ["coding", "analysis"],
-          tools: ["file_get", "github_code_search"],
+          tools: ["get", "terminal"],
         },
       ],
       priority: 9,
@@ -226,7 +265,7 @@ class OrchestratorService {
           name: "quality_assurance",
           description: "Review code, research, and other outputs",
           domains: ["review", "quality"],
-          tools: ["analyze_output", "verify_requirements"],
+          tools: ["get"],
         },
       ],
       priority: 7,
@@ -235,6 +274,12 @@ class OrchestratorService {
       maxLoad: 3,
     });
 
+    if (!this.supervisor) {
+      this.supervisor = setInterval(() => {
+        void this.superviseSessions();
+      }, SUPERVISE_INTERVAL_MS);
+    }
+
     console.log(`[Orchestrator] Initialized with ${this.agents.size} agents`);
   }
 
@@ -332,6 +377,16 @@ class OrchestratorService {
     };
     this.activeSessions.set(sessionId, context);
 
+    // Persist it, so the orchestration can be reattached after a restart
+    const record: OrchestrationRecord = { goal, status: "planning", jobIds: [], startTime: startTime.toISOString() };
+    await stateManager.createSession(sessionId, {
+      kind: ORCHESTRATION_SESSION_KIND,
+      userId: options.userId,
+      chatId: options.chatId,
+      initialState: context.state,
+      metadata: { ...record, metadata: options.metadata ?? null, history: [] },
+    });
+
     try {
       // Step 1: Create a plan using the planning agent
       this.log(sessionId, "Creating task plan...");
@@ -363,6 +418,7 @@ class OrchestratorService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.log(sessionId, `Orchestration failed: ${errorMessage}`, "error");
+      await this.finishSession(sessionId, "failed", errorMessage);
 
       return {
         sessionId,
@@ -378,13 +434,60 @@ class OrchestratorService {
     }
   }
 
+  /**
+   * Reattach orchestrations that were active when the server stopped:
+   * executing ones are tracked again, interrupted planning resumes once its
+   * job has a result, and finished ones are closed
+   */
+  async recoverSessions(): Promise<void> {
+    const sessions = await stateManager.listSessions({ kind: ORCHESTRATION_SESSION_KIND, status: "active", limit: 1000 });
+
+    for (const session of sessions) {
+      try {
+        const record = session.metadata as unknown as OrchestrationRecord & { history?: ContextHistoryEntry[] };
+        const recordedJobIds = [...record.jobIds, ...(record.planningJobId ? [record.planningJobId] : [])];
+        const jobs: Array<Pick<AgentJob, "id" | "status">> = recordedJobIds.length > 0
+          ? await getDb().select({ id: agentJobs.id, status: agentJobs.status }).from(agentJobs).where(inArray(agentJobs.id, recordedJobIds))
+          : [];
+        const recovery = planRecovery(record, Object.fromEntries(jobs.map(job => [job.id, job.status])), this.canReplan(record));
+
+        if (recovery.action === "close") {
+          await this.finishSession(session.id, recovery.status, recovery.reason);
+          continue;
+        }
+
+        this.activeSessions.set(session.id, {
+          sessionId: session.id,
+          userId: session.userId ?? undefined,
+          chatId: session.chatId ?? undefined,
+          state: await stateManager.getAllState(session.id),
+          history: (record.history ?? []).map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+          metadata: (session.metadata?.metadata as Record<string, unknown> | null) ?? undefined,
+        });
+        this.log(session.id, `Reattached after restart (${record.status})`);
+
+        if (recovery.action === "resume_planning") {
+          void (record.replacing
+            ? this.resumeReplan(session.id, recovery.planningJobId)
+            : this.resumePlanning(session.id, record.goal, recovery.planningJobId));
+        }
+      } catch (error) {
+        console.error(`[Orchestrator] Failed to recover session ${session.id}:`, error);
+      }
+    }
+
+    if (sessions.length > 0) {
+      console.log(`[Orchestrator] Recovered ${sessions.length} orchestration sessions`);
+    }
+  }
+
   /**
    * Create a task plan from a high-level goal
    */
   private async createPlan(
     goal: string,
     context: ExecutionContext
-  ): Promise<TaskPlan | null> {
+  ): Promise<TaskPlan> {
     // Select planning agent
     const planner = this.selectAgent(["task_decomposition"], "planner");
     if (!planner) {
@@ -393,71 +496,95 @@ class OrchestratorService {
 
     this.log(context.sessionId, `Using planner: ${planner.name}`);
 
-    // Submit planning job
-    const planningJob: JobSubmission = {
-      name: "Task Planning",
+    const planningJobId = await this.submitPlanningJob(
+      context,
+      "Task Planning",
+      buildPlanningPrompt(goal, context.state, this.getAgents())
+    );
+    return this.awaitPlan(context, goal, planningJobId);
+  }
+
+  /**
+   * Submit a JSON-mode planning job and record it, so a restart can pick
+   * the planning up where it was
+   */
+  private async submitPlanningJob(context: ExecutionContext, name: string, prompt: string): Promise<string> {
+    const job = await jobDispatcher.submitJob({
+      name,
       type: "prompt",
       payload: {
-        prompt: `Create a detailed task plan to achieve the following goal:
-
-Goal: ${goal}
-
-Context: ${JSON.stringify(context.state, null, 2)}
-
-Break this down into specific, actionable steps. For each step:
-1. Identify what needs to be done
-2. Specify which type of agent should handle it
-3. List required capabilities
-4. Note any dependencies on other steps
-5. Estimate duration if possible
-
-Return the plan as a JSON object matching this structure:
-{
-  "goal": "...",
-  "steps": [
-    {
-      "id": "step-1",
-      "title": "...",
-      "description": "...",
-      "agentType": "planner|executor|researcher|coder|reviewer|specialist",
-      "requiredCapabilities": ["capability1", "capability2"],
-      "dependencies": [],
-      "priority": 5,
-      "estimatedDuration": 60
-    }
-  ],
-  "parallelizable": true
-}`,
-        systemPrompt: "You are a planning agent that creates detailed, executable task plans.",
+        prompt,
+        systemPrompt: "You are a planning agent that creates detailed, executable task plans. Reply with JSON only.",
+        json: true,
       },
       priority: 10,
       userId: context.userId,
+    });
+    await stateManager.updateSessionMetadata(context.sessionId, { planningJobId: job.id });
+    return job.id;
+  }
+
+  private planValidation(): PlanValidationOptions {
+    return {
+      agents: this.getAgents(),
+      checkGraph: steps => dependencyResolver.validateGraph(steps),
     };
+  }
 
-    const job = await jobDispatcher.submitJob(planningJob);
-    
-    // Wait for planning to complete (with timeout)
-    const result = await this.waitForJob(job.id, 60000); // 60 second timeout
+  /**
+   * Wait for the planning job and validate its plan
+   */
+  private async awaitPlan(context: ExecutionContext, goal: string, planningJobId: string): Promise<TaskPlan> {
+    return this.awaitValidPlan(context, planningJobId, output =>
+      validatePlanOutput(output, goal, this.planValidation())
+    );
+  }
+
+  /**
+   * Wait for a planning job and validate what it returned. Invalid output
+   * is sent back to the planner with the problems found, up to
+   * MAX_PLAN_REPAIRS times.
+   */
+  private async awaitValidPlan(
+    context: ExecutionContext,
+    planningJobId: string,
+    validate: (output: unknown) => PlanValidation<TaskPlan>
+  ): Promise<TaskPlan> {
+    let jobId = planningJobId;
+
+    for (let repairs = 0; ; repairs++) {
+      const result = await this.waitForJob(jobId, PLANNING_TIMEOUT_MS);
+      if (!result.success) {
+        throw new Error(`Planning job failed: ${result.error ?? "no output"}`);
+      }
+
+      const validation = validate(result.output);
+      if (validation.value) return validation.value;
 
-    if (!result.success || !result.output) {
-      throw new Error("Planning job failed");
+      if (repairs >= MAX_PLAN_REPAIRS) {
+        throw new Error(`Plan still invalid after ${MAX_PLAN_REPAIRS} repairs: ${validation.issues.join("; ")}`);
+      }
+      this.log(context.sessionId, `Plan invalid (${validation.issues.length} issues), asking for a repair`, "warn");
+      jobId = await this.submitPlanningJob(context, "Plan Repair", buildRepairPrompt(result.output, validation.issues));
     }
+  }
 
-    // Parse the plan
-    try {
-      const planData = typeof result.output === "string" 
-        ? JSON.parse(result.output) 
-        : result.output;
+  /**
+   * Finish the planning a restart interrupted, then execute the plan
+   */
+  private async resumePlanning(sessionId: string, goal: string, planningJobId: string): Promise<void> {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
 
-      return {
-        goal,
-        steps: planData.steps || [],
-        estimatedDuration: planData.estimatedDuration,
-        parallelizable: planData.parallelizable !== false,
-        metadata: planData.metadata,
-      };
+    try {
+      const plan = await this.awaitPlan(context, goal, planningJobId);
+      this.log(sessionId, `Plan created with ${plan.steps.length} steps`);
+      const jobIds = await this.executePlan(plan, context);
+      this.log(sessionId, `Created ${jobIds.length} jobs`);
     } catch (error) {
-      throw new Error("Failed to parse planning result");
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(sessionId, `Orchestration failed: ${errorMessage}`, "error");
+      await this.finishSession(sessionId, "failed", errorMessage);
     }
   }
 
@@ -468,11 +595,34 @@ Return the plan as a JSON object matching this structure:
     plan: TaskPlan,
     context: ExecutionContext
   ): Promise<string[]> {
-    const jobIds: string[] = [];
-    const stepToJobMap: Map<string, string> = new Map();
+    const stepJobIds = await this.submitSteps(plan.steps, {}, context);
+    const jobIds = Object.values(stepJobIds);
+
+    await stateManager.updateSessionMetadata(context.sessionId, {
+      status: "executing",
+      plan,
+      jobIds,
+      stepJobIds,
+    } satisfies Partial<OrchestrationRecord> & { plan: TaskPlan });
+
+    return jobIds;
+  }
+
+  /**
+   * Create a job for each step. Dependencies on steps that already have a
+   * job (existingStepJobIds) point at those jobs. Returns step id -> job id
+   * for the new steps.
+   */
+  private async submitSteps(
+    steps: TaskStep[],
+    existingStepJobIds: Record<string, string>,
+    context: ExecutionContext
+  ): Promise<Record<string, string>> {
+    const stepToJobMap: Map<string, string> = new Map(Object.entries(existingStepJobIds));
+    const created: Record<string, string> = {};
 
-    // Create jobs for each step
-    for (const step of plan.steps) {
+    // Dependencies first, so their job ids are known
+    for (const step of topologicalOrder(steps)) {
       // Select appropriate agent
       const agent = this.selectAgent(step.requiredCapabilities, step.agentType);
       if (!agent) {
@@ -495,6 +645,7 @@ Return the plan as a JSON object matching this structure:
         type: "prompt", // Could be more specific based on step type
         payload: {
           prompt: step.description,
+          tools: toolAllowlist(agent.capabilities),
           context: {
             ...context.state,
             step: step,
@@ -506,7 +657,7 @@ Return the plan as a JSON object matching this structure:
       };
 
       const job = await jobDispatcher.submitJob(jobSubmission);
-      jobIds.push(job.id);
+      created[step.id] = job.id;
       stepToJobMap.set(step.id, job.id);
 
       // Update agent load
@@ -518,7 +669,196 @@ Return the plan as a JSON object matching this structure:
       );
     }
 
-    return jobIds;
+    return created;
+  }
+
+  // ===========================================================================
+  // RE-PLANNING
+  // ===========================================================================
+
+  /**
+   * Look over every executing orchestration: replace failed subtrees while
+   * replans remain, and close the ones that have finished
+   */
+  private async superviseSessions(): Promise<void> {
+    for (const sessionId of Array.from(this.activeSessions.keys())) {
+      if (this.replanning.has(sessionId)) continue;
+      try {
+        await this.superviseSession(sessionId);
+      } catch (error) {
+        console.error(`[Orchestrator] Failed to supervise session ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async superviseSession(sessionId: string): Promise<void> {
+    const session = await stateManager.getSession(sessionId);
+    if (!session || session.status !== "active") return;
+    const record = session.metadata as unknown as OrchestrationRecord & { plan?: TaskPlan };
+    if (record.status !== "executing" || !record.plan || !record.stepJobIds) return;
+
+    const jobs: Array<Pick<AgentJob, "id" | "status" | "lastError">> = record.jobIds.length > 0
+      ? await getDb().select({ id: agentJobs.id, status: agentJobs.status, lastError: agentJobs.lastError })
+        .from(agentJobs)
+        .where(inArray(agentJobs.id, record.jobIds))
+      : [];
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+    const status = orchestrationStatusFromJobs(record.jobIds.map(jobId => jobsById.get(jobId)?.status));
+
+    if (status === "completed" || status === "cancelled") {
+      await this.finishSession(sessionId, status);
+      return;
+    }
+
+    const failedStepIds = Object.entries(record.stepJobIds)
+      .filter(([, jobId]) => ["failed", "dead_letter"].includes(jobsById.get(jobId)?.status ?? "failed"))
+      .map(([stepId]) => stepId);
+    if (failedStepIds.length === 0) return;
+
+    if (!this.canReplan(record)) {
+      if (status === "failed") {
+        await this.finishSession(sessionId, "failed", `Steps ${failedStepIds.join(", ")} failed after ${MAX_REPLANS} replans`);
+      }
+      return;
+    }
+
+    this.replanning.add(sessionId);
+    void this.replan(sessionId, record as OrchestrationRecord & { plan: TaskPlan; stepJobIds: Record<string, string> }, failedStepIds)
+      .finally(() => this.replanning.delete(sessionId));
+  }
+
+  /**
+   * Replace the failed steps and everything depending on them with steps
+   * from the planner, keeping the rest of the orchestration running
+   */
+  private async replan(
+    sessionId: string,
+    record: OrchestrationRecord & { plan: TaskPlan; stepJobIds: Record<string, string> },
+    failedStepIds: string[]
+  ): Promise<void> {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    const { plan, stepJobIds } = record;
+    const replacedIds = failedSubtree(plan.steps, failedStepIds);
+    this.log(sessionId, `Steps ${failedStepIds.join(", ")} failed; replanning ${replacedIds.join(", ")}`, "warn");
+
+    try {
+      // Stop the dependents that have not run yet
+      for (const stepId of replacedIds) {
+        const jobId = stepJobIds[stepId];
+        if (jobId) await jobQueue.cancelJob(jobId);
+      }
+
+      const stepStates = await this.stepStates(plan.steps, stepJobIds);
+      const planningJobId = await this.submitPlanningJob(
+        context,
+        "Re-planning",
+        buildReplanPrompt(
+          plan,
+          stepStates.filter(state => !replacedIds.includes(state.step.id)),
+          stepStates.filter(state => failedStepIds.includes(state.step.id)),
+          replacedIds,
+          this.getAgents()
+        )
+      );
+      await stateManager.updateSessionMetadata(sessionId, {
+        status: "planning",
+        replacing: replacedIds,
+      } satisfies Partial<OrchestrationRecord>);
+
+      await this.applyReplacement(context, record, replacedIds, planningJobId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(sessionId, `Re-planning failed: ${errorMessage}`, "error");
+      await this.finishSession(sessionId, "failed", errorMessage);
+    }
+  }
+
+  /**
+   * Wait for the replacement steps, validate them against the kept part of
+   * the plan and submit their jobs
+   */
+  private async applyReplacement(
+    context: ExecutionContext,
+    record: OrchestrationRecord & { plan: TaskPlan; stepJobIds: Record<string, string> },
+    replacedIds: string[],
+    planningJobId: string
+  ): Promise<void> {
+    const newPlan = await this.awaitValidPlan(context, planningJobId, output =>
+      validateReplacementOutput(output, record.plan, replacedIds, this.planValidation())
+    );
+
+    const keptStepJobIds = Object.fromEntries(
+      Object.entries(record.stepJobIds).filter(([stepId]) => !replacedIds.includes(stepId))
+    );
+    const replacements = newPlan.steps.filter(step => !(step.id in keptStepJobIds));
+    const created = await this.submitSteps(replacements, keptStepJobIds, context);
+    const stepJobIds = { ...keptStepJobIds, ...created };
+
+    await stateManager.updateSessionMetadata(context.sessionId, {
+      status: "executing",
+      plan: newPlan,
+      jobIds: Object.values(stepJobIds),
+      stepJobIds,
+      replans: (record.replans ?? 0) + 1,
+      replacing: undefined,
+    } satisfies Partial<OrchestrationRecord> & { plan: TaskPlan });
+    this.log(context.sessionId, `Replaced ${replacedIds.length} steps with ${replacements.length} new steps`);
+  }
+
+  private canReplan(record: OrchestrationRecord): boolean {
+    return !!record.stepJobIds && (record.replans ?? 0) < MAX_REPLANS;
+  }
+
+  /**
+   * Finish a replan a restart interrupted
+   */
+  private async resumeReplan(sessionId: string, planningJobId: string): Promise<void> {
+    const context = this.activeSessions.get(sessionId);
+    const session = await stateManager.getSession(sessionId);
+    if (!context || !session) return;
+
+    const record = session.metadata as unknown as OrchestrationRecord & { plan: TaskPlan; stepJobIds: Record<string, string> };
+    this.replanning.add(sessionId);
+    try {
+      await this.applyReplacement(context, record, record.replacing ?? [], planningJobId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(sessionId, `Re-planning failed: ${errorMessage}`, "error");
+      await this.finishSession(sessionId, "failed", errorMessage);
+    } finally {
+      this.replanning.delete(sessionId);
+    }
+  }
+
+  /**
+   * Each step with its job's status and outcome, for the replan prompt
+   */
+  private async stepStates(steps: TaskStep[], stepJobIds: Record<string, string>): Promise<ReplanStepState[]> {
+    const jobIds = Object.values(stepJobIds);
+    const jobs: Array<Pick<AgentJob, "id" | "status" | "lastError">> = jobIds.length > 0
+      ? await getDb().select({ id: agentJobs.id, status: agentJobs.status, lastError: agentJobs.lastError })
+        .from(agentJobs)
+        .where(inArray(agentJobs.id, jobIds))
+      : [];
+    const results: JobResult[] = jobIds.length > 0
+      ? await getDb().select().from(jobResults).where(inArray(jobResults.jobId, jobIds))
+      : [];
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+    const resultsByJob = new Map(results.map(result => [result.jobId, result]));
+
+    return steps.map(step => {
+      const jobId = stepJobIds[step.id];
+      const job = jobId ? jobsById.get(jobId) : undefined;
+      const result = jobId ? resultsByJob.get(jobId) : undefined;
+      return {
+        step,
+        status: job?.status ?? "skipped",
+        output: result?.output ?? undefined,
+        error: result?.error ?? job?.lastError ?? undefined,
+      };
+    });
   }
 
   /**
@@ -555,37 +895,33 @@ Return the plan as a JSON object matching this structure:
    * Get orchestration status
    */
   async getOrchestrationStatus(sessionId: string): Promise<OrchestrationResult | null> {
-    const context = this.activeSessions.get(sessionId);
-    if (!context) return null;
+    const session = await stateManager.getSession(sessionId);
+    if (!session || session.kind !== ORCHESTRATION_SESSION_KIND) return null;
 
-    // Get all jobs in this session's history
-    const jobIds = context.history.map((entry) => entry.taskId);
-    
-    if (jobIds.length === 0) {
-      return null;
-    }
+    const record = session.metadata as unknown as OrchestrationRecord & { plan?: TaskPlan; error?: string };
+    const jobIds = record.jobIds ?? [];
 
     // Fetch job statuses
-    const jobs = await getDb()
-      .select()
-      .from(agentJobs)
-      .where(inArray(agentJobs.id, jobIds));
+    const jobs: AgentJob[] = jobIds.length > 0
+      ? await getDb().select().from(agentJobs).where(inArray(agentJobs.id, jobIds))
+      : [];
 
-    const results = await getDb()
-      .select()
-      .from(jobResults)
-      .where(inArray(jobResults.jobId, jobIds));
+    const results: JobResult[] = jobIds.length > 0
+      ? await getDb().select().from(jobResults).where(inArray(jobResults.jobId, jobIds))
+      : [];
 
     const completedTasks = jobs.filter((j: AgentJob) => j.status === "completed").length;
-    const failedTasks = jobs.filter((j: AgentJob) => j.status === "failed");
-    const runningTasks = jobs.filter((j: AgentJob) => j.status === "running");
+    const failedTasks = jobs.filter((j: AgentJob) => j.status === "failed" || j.status === "dead_letter");
 
     // Determine overall status
-    let status: OrchestrationResult["status"] = "executing";
-    if (completedTasks === jobs.length) {
-      status = "completed";
-    } else if (failedTasks.length > 0 && runningTasks.length === 0) {
-      status = "failed";
+    const statusById = new Map(jobs.map(job => [job.id, job.status]));
+    const jobStatus = orchestrationStatusFromJobs(jobIds.map(jobId => statusById.get(jobId)));
+    const status = record.status !== "executing"
+      ? record.status
+      // A failed step the supervisor will replan leaves the orchestration running
+      : jobStatus === "failed" && this.canReplan(record) ? "executing" : jobStatus;
+    if (session.status === "active" && status !== "planning" && status !== "executing") {
+      await this.finishSession(sessionId, status);
     }
 
     // Collect results
@@ -597,13 +933,17 @@ Return the plan as a JSON object matching this structure:
     return {
       sessionId,
       status,
+      plan: record.plan,
       jobIds,
       completedTasks,
-      totalTasks: jobs.length,
+      totalTasks: jobIds.length,
       results: resultMap,
-      errors: failedTasks.map((j: AgentJob) => `Job ${j.id} failed`),
-      startTime: new Date(context.history[0]?.timestamp || new Date()),
-      endTime: status === "completed" || status === "failed" ? new Date() : undefined,
+      errors: [
+        ...(record.error ? [record.error] : []),
+        ...failedTasks.map((j: AgentJob) => `Job ${j.id} failed`),
+      ],
+      startTime: new Date(record.startTime),
+      endTime: status === "completed" || status === "failed" || status === "cancelled" ? new Date() : undefined,
     };
   }
 
@@ -615,15 +955,21 @@ Return the plan as a JSON object matching this structure:
   }
 
   /**
-   * Update shared context for a session
+   * Update shared context for a session, as one state transaction
    */
-  updateContext(
+  async updateContext(
     sessionId: string,
     updates: Partial<ExecutionContext["state"]>
-  ): void {
+  ): Promise<void> {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
+    const transactionId = await stateManager.beginTransaction(sessionId);
+    for (const [key, value] of Object.entries(updates)) {
+      await stateManager.addToTransaction(transactionId, { key, value, type: "shared" });
+    }
+    await stateManager.commitTransaction(transactionId);
+
     context.state = { ...context.state, ...updates };
     this.log(sessionId, `Context updated: ${Object.keys(updates).join(", ")}`);
   }
@@ -631,10 +977,10 @@ Return the plan as a JSON object matching this structure:
   /**
    * Add entry to execution history
    */
-  addToHistory(
+  async addToHistory(
     sessionId: string,
     entry: Omit<ContextHistoryEntry, "timestamp">
-  ): void {
+  ): Promise<void> {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
@@ -642,17 +988,37 @@ Return the plan as a JSON object matching this structure:
       ...entry,
       timestamp: new Date(),
     });
+    await stateManager.updateSessionMetadata(sessionId, { history: context.history });
   }
 
   /**
-   * Clean up completed session
+   * Clean up completed session. One still running is closed as cancelled,
+   * so it is not reattached on the next boot.
    */
-  cleanupSession(sessionId: string): void {
+  async cleanupSession(sessionId: string): Promise<void> {
     this.activeSessions.delete(sessionId);
+    const session = await stateManager.getSession(sessionId);
+    if (session?.status === "active") {
+      await this.finishSession(sessionId, "cancelled");
+    }
     // Keep logs for debugging
     this.log(sessionId, "Session cleaned up");
   }
 
+  /**
+   * Record how an orchestration ended and stop tracking it
+   */
+  private async finishSession(
+    sessionId: string,
+    status: "completed" | "failed" | "cancelled",
+    error?: string
+  ): Promise<void> {
+    this.activeSessions.delete(sessionId);
+    await stateManager.updateSessionMetadata(sessionId, { status, ...(error ? { error } : {}) });
+    await stateManager.closeSession(sessionId, status);
+    this.log(sessionId, `Session ${status}${error ? `: ${error}` : ""}`);
+  }
+
   /**
    * Log a message
    */
@@ -18,9 +18,13 @@
  * - prompts/core-directives.md - Fundamental behavior rules
  * - prompts/personality.md - Character and communication style
  * - prompts/tools.md - Tool definitions and implementation
+ * - The chat's user agent persona and instruction overrides, when one is
+ *   bound (services/agent-persona)
  * - logs/Short_Term_Memory.md - Persistent user-defined memory
  * - logs/cache.md - Thoughts forward from last turn (auto-loaded)
  * - logs/STM_APPEND.md - Append content (auto-processed and deleted)
+ * - Retrieved context - top-k snippets from older chats, attachments and
+ *   Drive files, with numbered citations (services/retrieval)
  *
  * INPUT SOURCES:
  * - User typed text
@@ -42,6 +46,8 @@ import { DEFAULT_AGENT_NAME, DEFAULT_DISPLAY_NAME } from "@shared/schema";
 import { tavilySearch } from "../integrations/tavily";
 import { formatEnvironmentMetadata } from "../utils/environment-metadata";
 import { getFamilyContext } from "./family-recognition";
+import { retrievalService, type RetrievalCitation } from "./retrieval";
+import { personaPromptSections, type AgentPersona } from "./agent-persona";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -85,6 +91,8 @@ export interface PromptMetadata {
   hasVoiceInput: boolean;
   hasFileAttachments: boolean;
   hasScreenshots: boolean;
+  /** Sources of the "Retrieved Context" section, in citation order */
+  citations: RetrievalCitation[];
   composedAt: Date;
 }
 
@@ -377,6 +385,7 @@ These steps are mandatory before sending your response via end_turn.
    * @param options.includeTodos - Include to-do list (default: true)
    * @param options.memoryMaxLines - Maximum lines from memory to include (default: 100)
    * @param options.forceReload - Force reload of memory files from disk (default: false)
+   * @param options.persona - User agent whose persona and overrides are merged in
    */
   public async getSystemPrompt(
     agentName: string = DEFAULT_AGENT_NAME, 
@@ -388,6 +397,7 @@ These steps are mandatory before sending your response via end_turn.
       includeTodos?: boolean;
       memoryMaxLines?: number;
       forceReload?: boolean;
+      persona?: Pick<AgentPersona, "displayName" | "personalityPrompt" | "systemPromptOverrides">;
     }
   ): Promise<string> {
     // Default options
@@ -408,12 +418,14 @@ These steps are mandatory before sending your response via end_turn.
     // Inject branding into core directives and personality
     const brandedCoreDirectives = this.applyBrandingToText(this.coreDirectives, agentName);
     const brandedPersonality = this.applyBrandingToText(this.personality, agentName);
+    const persona = options?.persona ? personaPromptSections(options.persona) : {};
 
     const components: string[] = [
       `# Agent Identity\nYou are ${displayName}, referred to as ${agentName}.\n`,
       formatEnvironmentMetadata(), // Add environment metadata
       brandedCoreDirectives,
       brandedPersonality,
+      ...(persona.persona ? [persona.persona] : []),
       this.tools,
     ];
 
@@ -457,6 +469,11 @@ These steps are mandatory before sending your response via end_turn.
       components.push(`# Thoughts Forward (from last turn)\n\n${this.cache}`);
     }
 
+    // The agent's own instructions outrank everything but the final instructions
+    if (persona.overrides) {
+      components.push(persona.overrides);
+    }
+
     // Append mandatory final instructions
     components.push(this.getFinalInstructions());
 
@@ -600,6 +617,10 @@ You can analyze data, read and write files, search the web, and interact with Go
    * @param options.history - Optional array of previous messages for context
    * @param options.chatId - Chat identifier
    * @param options.userId - User identifier for data isolation
+   * @param options.agent - User agent bound to the chat; its identity replaces
+   *   the user's branding and its persona is merged into the system prompt
+   * @param options.retrieval - Scope for retrieved context, or false to skip it.
+   *   Messages in `history` and the current attachments are never retrieved.
    * @returns Complete composed prompt ready for LLM processing
    * 
    * @note This method signature replaces the previous `compose(draft: Draft, history: Message[])`.
@@ -612,12 +633,17 @@ You can analyze data, read and write files, search the web, and interact with Go
     history?: Message[];
     chatId: string;
     userId?: string;
+    agent?: AgentPersona | null;
+    retrieval?: { userId?: string | null } | false;
   }): Promise<ComposedPrompt> {
     // Fetch user branding if userId is provided
     let agentName = DEFAULT_AGENT_NAME;
     let displayName = DEFAULT_DISPLAY_NAME;
     
-    if (options.userId) {
+    if (options.agent) {
+      agentName = options.agent.name;
+      displayName = options.agent.displayName;
+    } else if (options.userId) {
       try {
         const branding = await storage.getUserBrandingOrDefault(options.userId);
         agentName = branding.agentName;
@@ -628,7 +654,10 @@ You can analyze data, read and write files, search the web, and interact with Go
     }
 
     // Build base system prompt from modular files with custom branding
-    let systemPrompt = await this.getSystemPrompt(agentName, displayName, { userId: options.userId });
+    let systemPrompt = await this.getSystemPrompt(agentName, displayName, {
+      userId: options.userId,
+      persona: options.agent ?? undefined,
+    });
 
     // Process attachments into composed format
     const composedAttachments: ComposedAttachment[] = [];
@@ -669,6 +698,23 @@ You can analyze data, read and write files, search the web, and interact with Go
     const userMessage = options.textContent || options.voiceTranscript || "";
     const hasVoiceInput = !!options.voiceTranscript;
 
+    // Inject relevant snippets from beyond the recent window
+    let citations: RetrievalCitation[] = [];
+    if (options.retrieval !== false && userMessage.trim()) {
+      const retrieved = await retrievalService.retrieveContext(userMessage, {
+        userId: options.retrieval?.userId ?? options.userId,
+        chatId: options.chatId,
+        excludeSourceIds: [
+          ...(options.history ?? []).map(msg => msg.id),
+          ...(options.attachments ?? []).map(att => att.id),
+        ],
+      });
+      if (retrieved.text) {
+        systemPrompt += `\n\n---\n\n${retrieved.text}`;
+        citations = retrieved.citations;
+      }
+    }
+
     return {
       systemPrompt,
       userMessage,
@@ -679,6 +725,7 @@ You can analyze data, read and write files, search the web, and interact with Go
         hasVoiceInput,
         hasFileAttachments,
         hasScreenshots,
+        citations,
         composedAt: new Date(),
       },
     };
@@ -0,0 +1,132 @@
+/**
+ * File queue backend: the queues/<worker>/ directory layout from
+ * file-queue.ts. Ids are "<worker>/<job id>".
+ */
+
+import {
+  emptyQueueStats,
+  fileStatusToQueueStatus,
+  formatQueueRef,
+  clampPriority,
+  queueStatusToFileLocations,
+  type FileQueueLocation,
+  type QueueItem,
+  type QueueStats,
+} from "@shared/queue";
+import * as fileQueue from "../file-queue";
+import type { EnqueueInput, QueueBackend, QueueListFilter } from "./types";
+
+const LOCATIONS: FileQueueLocation[] = ["pending", "processing", "finished", "failed"];
+const WORKER_NAME = /^[\w-]+$/;
+
+/** Split "<worker>/<job id>", refusing anything that could leave queues/ */
+function parseFileId(id: string): { worker: string; jobId: string } | null {
+  const [worker, jobId, ...rest] = id.split("/");
+  if (rest.length > 0 || !worker || !jobId || !WORKER_NAME.test(worker) || !WORKER_NAME.test(jobId)) return null;
+  if (!fileQueue.listWorkers().includes(worker)) return null;
+  return { worker, jobId };
+}
+
+function toItem(worker: string, job: fileQueue.Job, location: FileQueueLocation): QueueItem {
+  const audit = job.audit ?? [];
+  const last = audit[audit.length - 1];
+  const lastClaim = [...audit].reverse().find(entry => entry.event === "claimed");
+  const lastError = [...audit].reverse().find(entry => entry.error);
+  const completion = [...audit].reverse().find(entry => entry.event === "completed");
+  const status = fileStatusToQueueStatus(location, last?.event);
+  const id = `${worker}/${job.id}`;
+
+  return {
+    ref: formatQueueRef("files", id),
+    backend: "files",
+    id,
+    queue: worker,
+    title: job.title || job.type,
+    description: job.description ?? null,
+    kind: job.type,
+    status,
+    backendStatus: location,
+    priority: clampPriority(job.priority),
+    attempts: audit.filter(entry => entry.event === "failed").length,
+    maxAttempts: null,
+    error: location === "failed" ? lastError?.error ?? null : null,
+    inputPrompt: null,
+    input: job.input,
+    output: location === "finished" ? completion?.result ?? null : null,
+    parentRef: null,
+    dependencies: [],
+    createdAt: job.created,
+    startedAt: location === "pending" ? null : lastClaim?.timestamp ?? null,
+    completedAt: location === "finished" || location === "failed" ? last?.timestamp ?? null : null,
+    scheduledFor: null,
+  };
+}
+
+export class FileQueueBackend implements QueueBackend {
+  readonly name = "files" as const;
+
+  async list(filter: QueueListFilter): Promise<QueueItem[]> {
+    const locations = filter.status ? queueStatusToFileLocations(filter.status) : LOCATIONS;
+    const items: QueueItem[] = [];
+
+    for (const worker of fileQueue.listWorkers()) {
+      for (const location of locations) {
+        for (const job of fileQueue.listJobs(worker, location)) {
+          items.push(toItem(worker, job, location));
+        }
+      }
+    }
+
+    return items
+      .filter(item => !filter.status || item.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit);
+  }
+
+  async get(id: string): Promise<QueueItem | null> {
+    const parsed = parseFileId(id);
+    if (!parsed) return null;
+    const found = fileQueue.getJob(parsed.worker, parsed.jobId);
+    return found ? toItem(parsed.worker, found.job, found.status as FileQueueLocation) : null;
+  }
+
+  async enqueue(input: EnqueueInput): Promise<QueueItem> {
+    if (!input.queue || !WORKER_NAME.test(input.queue)) {
+      throw new Error("File queue items need a worker queue name (letters, digits, - and _)");
+    }
+    const job = fileQueue.createJob(input.queue, input.kind, input.input ?? {}, {
+      priority: clampPriority(input.priority ?? 5),
+      title: input.title,
+      description: input.description,
+    });
+    return toItem(input.queue, job, "pending");
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    const parsed = parseFileId(id);
+    return !!parsed && fileQueue.cancelJob(parsed.worker, parsed.jobId);
+  }
+
+  async retry(id: string): Promise<boolean> {
+    const parsed = parseFileId(id);
+    return !!parsed && fileQueue.requeueJob(parsed.worker, parsed.jobId);
+  }
+
+  async provideInput(): Promise<boolean> {
+    // File workers never stop to ask for input
+    return false;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const parsed = parseFileId(id);
+    return !!parsed && fileQueue.deleteJob(parsed.worker, parsed.jobId);
+  }
+
+  async stats(): Promise<QueueStats> {
+    const stats = emptyQueueStats();
+    for (const item of await this.list({})) {
+      stats[item.status]++;
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - QUEUE SERVICE
+ * =============================================================================
+ *
+ * One API over every place work is queued. Storage is pluggable: each
+ * backend keeps its own layout and execution, and this service merges them
+ * into QueueItems with one status model (see @shared/queue).
+ *
+ *   sqlite   agent_jobs, run by JobQueue and the job dispatcher
+ *   files    queues/<worker>/ directories, claimed by file-queue workers
+ *
+ * The old queued_tasks table is not a backend: its rows are migrated into
+ * agent_jobs with migrateLegacyTasks().
+ */
+
+import {
+  emptyQueueStats,
+  parseQueueRef,
+  QUEUE_STATUSES,
+  type QueueBackendName,
+  type QueueItem,
+  type QueueStats,
+} from "@shared/queue";
+import { FileQueueBackend } from "./file-backend";
+import { SqliteQueueBackend } from "./sqlite-backend";
+import type { EnqueueInput, QueueBackend, QueueListFilter } from "./types";
+
+export type { EnqueueInput, QueueBackend, QueueListFilter } from "./types";
+
+export interface QueueOverview {
+  total: QueueStats;
+  backends: Partial<Record<QueueBackendName, QueueStats>>;
+  /** queued_tasks rows that have not been migrated yet */
+  legacyTasks: number;
+}
+
+class QueueService {
+  private backends = new Map<QueueBackendName, QueueBackend>();
+  private sqlite = new SqliteQueueBackend();
+
+  constructor() {
+    this.registerBackend(this.sqlite);
+    this.registerBackend(new FileQueueBackend());
+  }
+
+  registerBackend(backend: QueueBackend): void {
+    this.backends.set(backend.name, backend);
+  }
+
+  /**
+   * Items from every backend (or one), newest first
+   */
+  async list(filter: QueueListFilter & { backend?: QueueBackendName } = {}): Promise<QueueItem[]> {
+    const backends = filter.backend
+      ? [this.backends.get(filter.backend)].filter((backend): backend is QueueBackend => !!backend)
+      : Array.from(this.backends.values());
+
+    const lists = await Promise.all(backends.map(backend => backend.list(filter)));
+    return lists
+      .flat()
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit);
+  }
+
+  async stats(): Promise<QueueOverview> {
+    const total = emptyQueueStats();
+    const backends: QueueOverview["backends"] = {};
+
+    for (const backend of Array.from(this.backends.values())) {
+      const stats = await backend.stats();
+      backends[backend.name] = stats;
+      for (const status of QUEUE_STATUSES) {
+        total[status] += stats[status];
+      }
+    }
+
+    return { total, backends, legacyTasks: await this.sqlite.legacyTaskCount() };
+  }
+
+  async get(ref: string): Promise<QueueItem | null> {
+    const target = this.resolve(ref);
+    return target ? target.backend.get(target.id) : null;
+  }
+
+  async enqueue(input: EnqueueInput & { backend?: QueueBackendName }): Promise<QueueItem> {
+    const backend = this.backends.get(input.backend ?? "sqlite");
+    if (!backend) {
+      throw new Error(`Unknown queue backend: ${input.backend}`);
+    }
+    return backend.enqueue(input);
+  }
+
+  // Actions resolve to false for unknown refs and for items whose state
+  // does not allow them
+
+  async cancel(ref: string): Promise<boolean> {
+    const target = this.resolve(ref);
+    return !!target && target.backend.cancel(target.id);
+  }
+
+  async retry(ref: string): Promise<boolean> {
+    const target = this.resolve(ref);
+    return !!target && target.backend.retry(target.id);
+  }
+
+  async provideInput(ref: string, input: string): Promise<boolean> {
+    const target = this.resolve(ref);
+    return !!target && target.backend.provideInput(target.id, input);
+  }
+
+  async remove(ref: string): Promise<boolean> {
+    const target = this.resolve(ref);
+    return !!target && target.backend.remove(target.id);
+  }
+
+  /**
+   * Move legacy queued_tasks rows into the SQLite backend
+   */
+  async migrateLegacyTasks(): Promise<{ migrated: number }> {
+    return { migrated: await this.sqlite.migrateLegacyTasks() };
+  }
+
+  private resolve(ref: string): { backend: QueueBackend; id: string } | undefined {
+    const parsed = parseQueueRef(ref);
+    const backend = parsed && this.backends.get(parsed.backend);
+    return parsed && backend ? { backend, id: parsed.id } : undefined;
+  }
+}
+
+export const queueService = new QueueService();
@@ -0,0 +1,117 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - LEGACY TASK MIGRATION
+ * =============================================================================
+ *
+ * queued_tasks predates the job system: rows were created by /api/queue and
+ * the orchestration routes but nothing executed them. These helpers turn
+ * them into agent_jobs rows (same ids, so dependencies and parent links
+ * survive) for the SQLite queue backend to take over.
+ */
+
+import type { QueuedTask, agentJobs, jobResults } from "@shared/schema";
+import { queuePriorityToJobPriority } from "@shared/queue";
+
+type AgentJobRow = typeof agentJobs.$inferInsert;
+type JobResultRow = typeof jobResults.$inferInsert;
+
+// Legacy task types mapped to job types
+export const TASK_TYPE_TO_JOB_TYPE: Record<string, "prompt" | "tool" | "composite" | "workflow"> = {
+  research: "prompt",
+  analysis: "prompt",
+  synthesis: "prompt",
+  action: "tool",
+  fetch: "tool",
+  transform: "tool",
+  validate: "tool",
+  notify: "tool",
+};
+
+function legacyStatusToJobStatus(task: QueuedTask): string {
+  if (task.waitingForInput || task.status === "waiting_input" || task.status === "waiting_for_input") {
+    return "waiting_input";
+  }
+  switch (task.status) {
+    case "completed":
+    case "failed":
+    case "cancelled":
+      return task.status;
+    default:
+      // paused, waiting_dependency and "running" (no executor ever owned
+      // these rows) all start over as pending
+      return "pending";
+  }
+}
+
+/**
+ * Convert a queued_tasks row into the agent_jobs row (and result, for
+ * finished tasks) that replaces it
+ */
+export function legacyTaskToJob(task: QueuedTask): { job: AgentJobRow; result: JobResultRow | null } {
+  const status = legacyStatusToJobStatus(task);
+  const input = task.input && typeof task.input === "object" ? (task.input as Record<string, unknown>) : {};
+  const context = Object.fromEntries(
+    Object.entries({
+      ...input,
+      legacyTaskType: task.taskType,
+      workflowId: task.workflowId,
+      chatId: task.chatId,
+      condition: task.condition,
+      inputPrompt: task.inputPrompt,
+      operatorInput: task.operatorInput,
+    }).filter(([, value]) => value != null)
+  );
+
+  const job: AgentJobRow = {
+    id: task.id,
+    name: task.title,
+    type: TASK_TYPE_TO_JOB_TYPE[task.taskType] || "prompt",
+    priority: queuePriorityToJobPriority(task.priority),
+    parentJobId: task.parentId,
+    dependencies: task.dependencies ?? [],
+    executionMode: task.executionMode,
+    payload: { prompt: task.description || task.title, context },
+    status,
+    maxRetries: task.maxRetries,
+    retryCount: task.retryCount,
+    lastError: task.error,
+    createdAt: task.createdAt,
+    startedAt: status === "pending" ? null : task.startedAt,
+    completedAt: task.completedAt,
+  };
+
+  const finished = status === "completed" || status === "failed";
+  const result: JobResultRow | null = finished && (task.output != null || task.error != null)
+    ? {
+        jobId: task.id,
+        success: status === "completed",
+        output: task.output,
+        error: task.error,
+        durationMs: task.actualDuration != null ? task.actualDuration * 1000 : null,
+      }
+    : null;
+
+  return { job, result };
+}
+
+/**
+ * Order rows so every parent comes before its children, as the agent_jobs
+ * parent foreign key requires on insert
+ */
+export function orderParentsFirst<T extends { id: string; parentId: string | null }>(rows: readonly T[]): T[] {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+
+  const place = (row: T, trail: Set<string>) => {
+    if (placed.has(row.id) || trail.has(row.id)) return;
+    trail.add(row.id);
+    const parent = row.parentId ? byId.get(row.parentId) : undefined;
+    if (parent) place(parent, trail);
+    placed.add(row.id);
+    ordered.push(row);
+  };
+
+  for (const row of rows) place(row, new Set());
+  return ordered;
+}
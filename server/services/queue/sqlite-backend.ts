@@ -0,0 +1,170 @@
+/**
+ * SQLite queue backend: the agent_jobs table run by JobQueue (leases,
+ * retries, dead letter) and the dispatcher. Also the home of migrated
+ * queued_tasks rows.
+ */
+
+import { desc, eq, and, ne, inArray, sql } from "drizzle-orm";
+import { getDb } from "../../db";
+import { agentJobs, jobResults, queuedTasks, type AgentJob, type JobResult, type QueuedTask } from "@shared/schema";
+import {
+  emptyQueueStats,
+  formatQueueRef,
+  jobPriorityToQueuePriority,
+  jobStatusToQueueStatus,
+  queuePriorityToJobPriority,
+  queueStatusToJobStatuses,
+  type QueueItem,
+  type QueueStats,
+} from "@shared/queue";
+import { jobQueue, type JobPayload, type JobType } from "../job-queue";
+import { workflowEngine } from "../workflow-engine";
+import { workflowExecutor } from "../workflow-executor";
+import { legacyTaskToJob, orderParentsFirst, TASK_TYPE_TO_JOB_TYPE } from "./legacy";
+import type { EnqueueInput, QueueBackend, QueueListFilter } from "./types";
+
+const JOB_TYPES: readonly string[] = ["prompt", "tool", "composite", "workflow"];
+const DEFAULT_LIST_LIMIT = 200;
+
+function toItem(job: AgentJob, result?: JobResult | null): QueueItem {
+  const payload = (job.payload ?? {}) as JobPayload;
+  const context = payload.context ?? {};
+  return {
+    ref: formatQueueRef("sqlite", job.id),
+    backend: "sqlite",
+    id: job.id,
+    queue: null,
+    title: job.name,
+    description: payload.prompt && payload.prompt !== job.name ? payload.prompt : null,
+    kind: typeof context.legacyTaskType === "string" ? context.legacyTaskType : job.type,
+    status: jobStatusToQueueStatus(job.status),
+    backendStatus: job.status,
+    priority: jobPriorityToQueuePriority(job.priority),
+    attempts: job.retryCount ?? 0,
+    maxAttempts: job.maxRetries,
+    error: result?.error ?? job.lastError ?? null,
+    inputPrompt: typeof context.inputPrompt === "string" ? context.inputPrompt : null,
+    input: payload,
+    output: result?.output ?? null,
+    parentRef: job.parentJobId ? formatQueueRef("sqlite", job.parentJobId) : null,
+    dependencies: (job.dependencies ?? []).map(id => formatQueueRef("sqlite", id)),
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+    scheduledFor: job.scheduledFor?.toISOString() ?? null,
+  };
+}
+
+export class SqliteQueueBackend implements QueueBackend {
+  readonly name = "sqlite" as const;
+
+  async list(filter: QueueListFilter): Promise<QueueItem[]> {
+    const jobs: AgentJob[] = await getDb().select()
+      .from(agentJobs)
+      .where(filter.status ? inArray(agentJobs.status, queueStatusToJobStatuses(filter.status)) : undefined)
+      .orderBy(desc(agentJobs.createdAt))
+      .limit(filter.limit ?? DEFAULT_LIST_LIMIT);
+    return jobs.map(job => toItem(job));
+  }
+
+  async get(id: string): Promise<QueueItem | null> {
+    const job = await jobQueue.getJob(id);
+    if (!job) return null;
+    return toItem(job, await jobQueue.getJobResult(id));
+  }
+
+  async enqueue(input: EnqueueInput): Promise<QueueItem> {
+    const priority = input.priority ?? 5;
+
+    // Legacy task types go through the executor, which adds their system prompts
+    const job = JOB_TYPES.includes(input.kind) || !TASK_TYPE_TO_JOB_TYPE[input.kind]
+      ? await jobQueue.submitJob({
+          name: input.title,
+          type: (JOB_TYPES.includes(input.kind) ? input.kind : "prompt") as JobType,
+          payload: { prompt: input.description || input.title, context: input.input },
+          priority: queuePriorityToJobPriority(priority),
+          dependencies: input.dependencies,
+          maxRetries: input.maxAttempts,
+        })
+      : await workflowExecutor.submitTask({
+          title: input.title,
+          description: input.description,
+          taskType: input.kind,
+          input: input.input,
+          priority,
+          dependencies: input.dependencies,
+          maxRetries: input.maxAttempts,
+        });
+
+    return toItem(job);
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    // Workflow jobs stand for a whole run, which the workflow engine owns
+    const run = await workflowEngine.getRunByJob(id);
+    if (run) return workflowEngine.cancelRun(run.id);
+    return jobQueue.cancelJob(id);
+  }
+
+  async retry(id: string): Promise<boolean> {
+    const run = await workflowEngine.getRunByJob(id);
+    if (run) return workflowEngine.retryRun(run.id);
+    return !!(await jobQueue.requeueJob(id));
+  }
+
+  async provideInput(id: string, input: string): Promise<boolean> {
+    const job = await jobQueue.getJob(id);
+    if (job?.status !== "waiting_input") return false;
+    return jobQueue.resumeJob(id, input);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const deleted = await getDb().delete(agentJobs)
+      .where(and(eq(agentJobs.id, id), ne(agentJobs.status, "running")))
+      .returning({ id: agentJobs.id });
+    return deleted.length > 0;
+  }
+
+  async stats(): Promise<QueueStats> {
+    const counts = await jobQueue.getQueueStats();
+    return {
+      ...emptyQueueStats(),
+      pending: counts.pending + counts.queued,
+      running: counts.running,
+      waiting_input: counts.waitingInput,
+      completed: counts.completed,
+      failed: counts.failed,
+      cancelled: counts.cancelled,
+      dead_letter: counts.deadLetter,
+    };
+  }
+
+  /** Rows still waiting in the legacy queued_tasks table */
+  async legacyTaskCount(): Promise<number> {
+    const [row] = await getDb().select({ count: sql<number>`count(*)` }).from(queuedTasks);
+    return Number(row?.count ?? 0);
+  }
+
+  /**
+   * Move every queued_tasks row into agent_jobs, keeping ids. Safe to run
+   * again: rows already present in agent_jobs are left as they are.
+   */
+  async migrateLegacyTasks(): Promise<number> {
+    const tasks: QueuedTask[] = await getDb().select().from(queuedTasks);
+    if (tasks.length === 0) return 0;
+
+    const rows = orderParentsFirst(tasks).map(legacyTaskToJob);
+    getDb().transaction((tx: any) => {
+      for (const { job, result } of rows) {
+        tx.insert(agentJobs).values(job).onConflictDoNothing().run();
+        if (result) {
+          tx.insert(jobResults).values(result).onConflictDoNothing().run();
+        }
+      }
+      tx.delete(queuedTasks).where(inArray(queuedTasks.id, tasks.map(task => task.id))).run();
+    });
+
+    console.log(`[Queue] Migrated ${tasks.length} legacy queued_tasks rows to agent_jobs`);
+    return tasks.length;
+  }
+}
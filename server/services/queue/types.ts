@@ -0,0 +1,44 @@
+import type { QueueBackendName, QueueItem, QueueStats, QueueStatus } from "@shared/queue";
+
+export interface QueueListFilter {
+  status?: QueueStatus;
+  limit?: number;
+}
+
+export interface EnqueueInput {
+  title: string;
+  description?: string;
+  /**
+   * What kind of work this is: a job type ("prompt", "tool", ...), a legacy
+   * task type ("research", "action", ...), or any file-queue job type
+   */
+  kind: string;
+  input?: Record<string, unknown>;
+  /** 0-10, higher runs first */
+  priority?: number;
+  /** File-queue worker directory (files backend only) */
+  queue?: string;
+  /** Ids of items in the same backend that must complete first */
+  dependencies?: string[];
+  maxAttempts?: number;
+}
+
+/**
+ * A place work can be stored. Ids are backend-local; QueueService adds the
+ * "<backend>:" prefix that makes them refs.
+ */
+export interface QueueBackend {
+  readonly name: QueueBackendName;
+  list(filter: QueueListFilter): Promise<QueueItem[]>;
+  get(id: string): Promise<QueueItem | null>;
+  enqueue(input: EnqueueInput): Promise<QueueItem>;
+  /** Stop an item that has not finished; false if it cannot be cancelled */
+  cancel(id: string): Promise<boolean>;
+  /** Run a failed, cancelled or dead-lettered item again */
+  retry(id: string): Promise<boolean>;
+  /** Answer an item that is waiting_input */
+  provideInput(id: string, input: string): Promise<boolean>;
+  /** Delete an item that is not running */
+  remove(id: string): Promise<boolean>;
+  stats(): Promise<QueueStats>;
+}
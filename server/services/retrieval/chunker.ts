@@ -0,0 +1,84 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - RETRIEVAL CHUNKER
+ * =============================================================================
+ *
+ * Splits text into overlapping chunks sized for embedding. Paragraphs are
+ * kept together where they fit; long paragraphs fall back to sentence and
+ * finally hard character splits. Each chunk repeats the tail of the previous
+ * one so a fact straddling a boundary is still found.
+ */
+
+export interface ChunkOptions {
+  /** Target maximum characters per chunk */
+  maxChars?: number;
+  /** Characters carried over from the end of the previous chunk */
+  overlap?: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  maxChars: 1200,
+  overlap: 150,
+};
+
+function splitOversized(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+
+  const sentences = paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current) pieces.push(current);
+      current = "";
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars));
+      }
+      continue;
+    }
+    if (current.length + sentence.length > maxChars && current) {
+      pieces.push(current);
+      current = "";
+    }
+    current += sentence;
+  }
+  if (current) pieces.push(current);
+  return pieces.map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Tail of a chunk to prefix onto the next, cut at a word boundary
+ */
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return "";
+  const tail = text.slice(-overlap);
+  const space = tail.indexOf(" ");
+  return space === -1 ? tail : tail.slice(space + 1);
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const { maxChars, overlap } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const normalized = text.replace(/\r\n/g, "\n").replace(/\u0000/g, "").trim();
+  if (!normalized) return [];
+  if (normalized.length <= maxChars) return [normalized];
+
+  const pieces = normalized
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => splitOversized(p, maxChars));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      const carried = overlapTail(current, overlap);
+      current = carried && carried.length + piece.length + 2 <= maxChars + overlap ? `${carried}\n\n${piece}` : piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
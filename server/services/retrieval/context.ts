@@ -0,0 +1,103 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - RETRIEVED CONTEXT FORMATTING
+ * =============================================================================
+ *
+ * Renders search hits as a numbered system-prompt section the model can cite
+ * ([1], [2], ...) and the matching citation list stored with the reply.
+ */
+
+export type RetrievalSourceType = "message" | "attachment" | "drive_file";
+
+export interface RetrievedSnippet {
+  chunkId: string;
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  chatId: string | null;
+  title: string | null;
+  role: string | null;
+  content: string;
+  score: number;
+  sourceCreatedAt: Date | null;
+}
+
+export interface RetrievalCitation {
+  index: number;
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  chatId: string | null;
+  title: string | null;
+  score: number;
+}
+
+export interface RetrievedContext {
+  /** System prompt section, empty when nothing was retrieved */
+  text: string;
+  citations: RetrievalCitation[];
+}
+
+const MAX_SNIPPET_CHARS = 800;
+
+export function describeSource(snippet: Pick<RetrievedSnippet, "sourceType" | "title" | "role" | "sourceCreatedAt">): string {
+  const date = snippet.sourceCreatedAt?.toISOString().slice(0, 10);
+  switch (snippet.sourceType) {
+    case "message": {
+      const who = snippet.role === "user" ? "user" : "assistant";
+      return `Chat "${snippet.title ?? "Untitled"}" (${who}${date ? `, ${date}` : ""})`;
+    }
+    case "attachment":
+      return `Attachment ${snippet.title ?? "unnamed"}${date ? ` (${date})` : ""}`;
+    case "drive_file":
+      return `Drive file ${snippet.title ?? "untitled"}`;
+  }
+}
+
+/**
+ * Build the prompt section for the given hits (best first). Several chunks
+ * from the same source share one citation number.
+ */
+export function formatRetrievedContext(snippets: RetrievedSnippet[], maxChars = 6000): RetrievedContext {
+  const citations: RetrievalCitation[] = [];
+  const bySource = new Map<string, RetrievalCitation>();
+  const entries: string[] = [];
+  let used = 0;
+
+  for (const snippet of snippets) {
+    const body = snippet.content.length > MAX_SNIPPET_CHARS
+      ? `${snippet.content.slice(0, MAX_SNIPPET_CHARS)}…`
+      : snippet.content;
+    if (used + body.length > maxChars && entries.length > 0) break;
+    used += body.length;
+
+    const key = `${snippet.sourceType}:${snippet.sourceId}`;
+    let citation = bySource.get(key);
+    if (!citation) {
+      citation = {
+        index: citations.length + 1,
+        sourceType: snippet.sourceType,
+        sourceId: snippet.sourceId,
+        chatId: snippet.chatId,
+        title: snippet.title,
+        score: Math.round(snippet.score * 1000) / 1000,
+      };
+      bySource.set(key, citation);
+      citations.push(citation);
+    }
+
+    const quoted = body.split("\n").map(line => `> ${line}`).join("\n");
+    entries.push(`[${citation.index}] ${describeSource(snippet)}\n${quoted}`);
+  }
+
+  if (entries.length === 0) return { text: "", citations: [] };
+
+  const text = [
+    "# Retrieved Context",
+    "Excerpts from earlier conversations and files that may be relevant to the current message. " +
+      "They are recalled automatically and may be outdated or unrelated; ignore them if so. " +
+      "When you rely on one, cite it by number, e.g. [1].",
+    "",
+    entries.join("\n\n"),
+  ].join("\n");
+
+  return { text, citations };
+}
@@ -0,0 +1,242 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - EMBEDDING PROVIDERS
+ * =============================================================================
+ *
+ * Turns text into vectors for the retrieval index. The provider is chosen
+ * with EMBEDDING_PROVIDER:
+ *
+ *   local              - Feature-hashed bag of words, CPU only, no model
+ *                        download and no network (default). Lexical: it
+ *                        matches shared words, not paraphrases.
+ *   gemini             - Gemini embeddings (GEMINI_API_KEY), default model
+ *                        gemini-embedding-001 at 768 dimensions
+ *   openai-compatible  - POST {OPENAI_COMPAT_BASE_URL}/embeddings, e.g.
+ *                        Ollama with nomic-embed-text for local semantic search
+ *
+ * EMBEDDING_MODEL overrides the provider's default model. Vectors from
+ * different provider/model pairs are never compared (see embeddingKey).
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { LlmProviderError } from "../llm/types";
+
+/** Queries and documents can be embedded differently by some models */
+export type EmbeddingTask = "query" | "document";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  embed(texts: string[], task: EmbeddingTask): Promise<Float32Array[]>;
+}
+
+/**
+ * Identifies which vectors are comparable with each other
+ */
+export function embeddingKey(provider: Pick<EmbeddingProvider, "name" | "model">): string {
+  return `${provider.name}:${provider.model}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Local hashing provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from",
+  "had", "has", "have", "he", "her", "his", "how", "i", "if", "in", "into", "is", "it", "its",
+  "me", "my", "no", "not", "of", "on", "or", "our", "she", "so", "that", "the", "their", "them",
+  "then", "there", "these", "they", "this", "to", "was", "we", "were", "what", "when", "where",
+  "which", "who", "why", "will", "with", "you", "your",
+]);
+
+/** FNV-1a, 32-bit */
+function hash(token: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Crude suffix stripping so "meetings" and "meeting" share a bucket */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model: string;
+
+  constructor(readonly dimensions = 512) {
+    this.model = `hash-${dimensions}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      if (i > 0) add(`${tokens[i - 1]} ${token}`, 0.5);
+    });
+
+    for (const [feature, weight] of Array.from(counts)) {
+      const h = hash(feature);
+      // Sublinear term frequency; the sign bit spreads collisions around zero
+      const value = (1 + Math.log(weight)) * (h & 0x80000000 ? -1 : 1);
+      vector[h % this.dimensions] += value;
+    }
+    return vector;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Gemini provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+const GEMINI_BATCH_SIZE = 100;
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "gemini";
+  private client: GoogleGenAI | null = null;
+
+  constructor(
+    readonly model = "gemini-embedding-001",
+    private readonly dimensions = 768,
+    private readonly apiKey: string | undefined = process.env.GEMINI_API_KEY
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private getClient(): GoogleGenAI {
+    if (!this.apiKey) {
+      throw new LlmProviderError(this.name, "GEMINI_API_KEY not configured");
+    }
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[], task: EmbeddingTask): Promise<Float32Array[]> {
+    const client = this.getClient();
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+      const batch = texts.slice(i, i + GEMINI_BATCH_SIZE);
+      const response = await client.models.embedContent({
+        model: this.model,
+        contents: batch,
+        config: {
+          taskType: task === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+          outputDimensionality: this.dimensions,
+        },
+      });
+      const embeddings = response.embeddings ?? [];
+      if (embeddings.length !== batch.length) {
+        throw new LlmProviderError(this.name, `Expected ${batch.length} embeddings, got ${embeddings.length}`);
+      }
+      vectors.push(...embeddings.map(e => Float32Array.from(e.values ?? [])));
+    }
+    return vectors;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OpenAI-compatible provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai-compatible";
+  private readonly baseUrl: string;
+
+  constructor(
+    readonly model = "nomic-embed-text",
+    baseUrl = process.env.OPENAI_COMPAT_BASE_URL ?? "http://localhost:11434/v1",
+    private readonly apiKey = process.env.OPENAI_COMPAT_API_KEY
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: texts }),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new LlmProviderError(this.name, `Request to ${this.baseUrl} failed: ${message}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new LlmProviderError(
+        this.name,
+        `HTTP ${response.status}${detail ? `: ${detail.substring(0, 500)}` : ""}`,
+        response.status
+      );
+    }
+
+    const body = (await response.json()) as { data?: Array<{ index?: number; embedding: number[] }> };
+    const data = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (data.length !== texts.length) {
+      throw new LlmProviderError(this.name, `Expected ${texts.length} embeddings, got ${data.length}`);
+    }
+    return data.map(d => Float32Array.from(d.embedding));
+  }
+}
+
+/**
+ * Build the provider selected by EMBEDDING_PROVIDER / EMBEDDING_MODEL
+ */
+export function createEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const name = env.EMBEDDING_PROVIDER || "local";
+  const model = env.EMBEDDING_MODEL || undefined;
+  switch (name) {
+    case "local":
+      return new LocalHashEmbeddingProvider();
+    case "gemini":
+      return new GeminiEmbeddingProvider(model, undefined, env.GEMINI_API_KEY);
+    case "openai-compatible":
+      return new OpenAICompatibleEmbeddingProvider(
+        model,
+        env.OPENAI_COMPAT_BASE_URL || undefined,
+        env.OPENAI_COMPAT_API_KEY
+      );
+    default:
+      console.warn(`[Retrieval] Unknown EMBEDDING_PROVIDER "${name}", using local`);
+      return new LocalHashEmbeddingProvider();
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - RETRIEVAL SERVICE
+ * =============================================================================
+ *
+ * Local recall over everything older than the chat's recent window. Messages,
+ * text attachments and Drive files are chunked, embedded (embeddings.ts) and
+ * stored in the retrieval_chunks table; searches run against an in-memory
+ * index built from that table on first use (vector-index.ts).
+ *
+ * PromptComposer asks for the top-k hits for each user message and injects
+ * them as a numbered "Retrieved Context" section with citations.
+ *
+ * ISOLATION:
+ * ----------
+ * Signed-in users only retrieve chunks they own. Guest chats have no owner,
+ * so a guest only retrieves from the chat they are in.
+ *
+ * BRANCHES:
+ * ---------
+ * Editing or regenerating a message leaves the old version on an inactive
+ * branch (shared/message-tree.ts). Its chunks stay indexed so switching back
+ * needs no re-embedding, but searches only return messages on their chat's
+ * active branch. Attachment chunks are kept: an edit carries its files over.
+ *
+ * CONFIG (env):
+ * -------------
+ *   RETRIEVAL_ENABLED=false   Turn off ingestion and injection
+ *   RETRIEVAL_TOP_K           Snippets injected per message (default 5)
+ *   RETRIEVAL_MIN_SCORE       Cosine cut-off (default depends on provider)
+ *   EMBEDDING_PROVIDER / EMBEDDING_MODEL  (see embeddings.ts)
+ */
+
+import type { Attachment, Chat, Message } from "@shared/schema";
+import { storage } from "../../storage";
+import { getDriveFile, getDriveFileContent } from "../../integrations/google-drive";
+import { getDocumentText } from "../../integrations/google-docs";
+import { chunkText } from "./chunker";
+import {
+  formatRetrievedContext,
+  type RetrievalSourceType,
+  type RetrievedContext,
+  type RetrievedSnippet,
+} from "./context";
+import { createEmbeddingProvider, embeddingKey, type EmbeddingProvider } from "./embeddings";
+import { bufferToVector, vectorToBuffer, VectorIndex } from "./vector-index";
+
+export * from "./context";
+export type { EmbeddingProvider } from "./embeddings";
+
+/** Candidates searched per requested hit, so dropping inactive branches still leaves k */
+const BRANCH_HEADROOM = 3;
+
+/** Scores below this are noise for the provider's embedding space */
+const DEFAULT_MIN_SCORE: Record<string, number> = {
+  local: 0.25,
+  gemini: 0.55,
+  "openai-compatible": 0.5,
+};
+
+interface ChunkMeta {
+  chatId: string | null;
+  userId: string | null;
+  sourceType: string;
+  sourceId: string;
+}
+
+interface SourceInfo {
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  chatId: string | null;
+  userId: string | null;
+  title: string | null;
+  role?: string | null;
+  createdAt?: Date | null;
+}
+
+export interface RetrievalSearchOptions {
+  /** Owner whose chunks may be returned; omit for guests */
+  userId?: string | null;
+  /** Current chat (the only searchable chat for guests) */
+  chatId?: string;
+  k?: number;
+  minScore?: number;
+  /** Sources already in the prompt, e.g. the recent message window */
+  excludeSourceIds?: string[];
+}
+
+const TEXT_MIME_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/x-yaml",
+  "application/x-sh",
+]);
+
+function isTextAttachment(attachment: Pick<Attachment, "type" | "mimeType">): boolean {
+  if (attachment.type === "voice_transcript") return true;
+  const mimeType = attachment.mimeType ?? "";
+  return mimeType.startsWith("text/") || TEXT_MIME_TYPES.has(mimeType);
+}
+
+/** Thoughts are stored inline with replies but are not worth recalling */
+function stripThinking(content: string): string {
+  return content.replace(/<thinking>[\s\S]*?<\/thinking>/g, "").trim();
+}
+
+class RetrievalService {
+  private provider: EmbeddingProvider = createEmbeddingProvider();
+  private index: VectorIndex<ChunkMeta> | null = null;
+  private indexLoading: Promise<VectorIndex<ChunkMeta> | null> | null = null;
+
+  /**
+   * Swap the embedding provider; the in-memory index is rebuilt on next use
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+    this.index = null;
+    this.indexLoading = null;
+  }
+
+  get embeddingKey(): string {
+    return embeddingKey(this.provider);
+  }
+
+  isEnabled(): boolean {
+    return process.env.RETRIEVAL_ENABLED !== "false" && this.provider.isConfigured();
+  }
+
+  private async loadIndex(): Promise<VectorIndex<ChunkMeta> | null> {
+    if (this.index) return this.index;
+    if (!this.indexLoading) {
+      const key = this.embeddingKey;
+      this.indexLoading = storage.getRetrievalVectors(key).then(rows => {
+        if (rows.length === 0) return null;
+        const index = new VectorIndex<ChunkMeta>(rows[0].embedding.length / 4);
+        for (const row of rows) {
+          const { embedding, id, ...meta } = row;
+          if (embedding.length / 4 !== index.dimensions) continue;
+          index.add(id, bufferToVector(embedding), meta);
+        }
+        console.log(`[Retrieval] Loaded ${index.size} chunks for ${key}`);
+        if (key === this.embeddingKey) this.index = index;
+        return index;
+      }).finally(() => {
+        this.indexLoading = null;
+      });
+    }
+    return this.indexLoading;
+  }
+
+  /**
+   * Chunk, embed and store one source, replacing anything indexed for it before
+   */
+  private async indexText(source: SourceInfo, text: string): Promise<number> {
+    const chunks = chunkText(text);
+    if (chunks.length === 0) {
+      await this.removeSource(source.sourceType, source.sourceId);
+      return 0;
+    }
+    return this.storeChunks(source, chunks);
+  }
+
+  private async storeChunks(source: SourceInfo, chunks: string[]): Promise<number> {
+    const key = this.embeddingKey;
+    const vectors = await this.provider.embed(chunks, "document");
+    const rows = await storage.replaceRetrievalChunks(source.sourceType, source.sourceId, chunks.map((content, i) => ({
+      sourceType: source.sourceType,
+      sourceId: source.sourceId,
+      chatId: source.chatId,
+      userId: source.userId,
+      title: source.title,
+      role: source.role ?? null,
+      chunkIndex: i,
+      content,
+      embeddingKey: key,
+      embedding: vectorToBuffer(vectors[i]),
+      sourceCreatedAt: source.createdAt ?? null,
+    })));
+
+    const index = this.index;
+    if (index) {
+      index.removeWhere(meta => meta.sourceType === source.sourceType && meta.sourceId === source.sourceId);
+      rows.forEach((row, i) => {
+        if (vectors[i].length === index.dimensions) {
+          index.add(row.id, vectors[i], {
+            chatId: row.chatId,
+            userId: row.userId,
+            sourceType: row.sourceType,
+            sourceId: row.sourceId,
+          });
+        }
+      });
+    } else {
+      // First chunks under this key: let the next search build the index
+      this.indexLoading = null;
+    }
+    return rows.length;
+  }
+
+  async removeSource(sourceType: RetrievalSourceType, sourceId: string): Promise<void> {
+    await storage.deleteRetrievalChunks(sourceType, sourceId);
+    this.index?.removeWhere(meta => meta.sourceType === sourceType && meta.sourceId === sourceId);
+  }
+
+  /**
+   * Drop a deleted chat's vectors from memory (its rows cascade with the chat)
+   */
+  forgetChat(chatId: string): void {
+    this.index?.removeWhere(meta => meta.chatId === chatId);
+  }
+
+  async ingestMessage(message: Message, chat?: Chat): Promise<number> {
+    if (!this.isEnabled()) return 0;
+    const owner = chat ?? await storage.getChat(message.chatId);
+    return this.indexText({
+      sourceType: "message",
+      sourceId: message.id,
+      chatId: message.chatId,
+      userId: owner?.userId ?? null,
+      title: owner?.title ?? null,
+      role: message.role,
+      createdAt: message.createdAt,
+    }, stripThinking(message.content));
+  }
+
+  /**
+   * Index a text attachment. Binary attachments (images, audio, PDFs) are
+   * skipped: their content is base64 and there is no local text extraction.
+   */
+  async ingestAttachment(attachment: Attachment, chat: Pick<Chat, "id" | "userId">): Promise<number> {
+    if (!this.isEnabled() || !attachment.content || !isTextAttachment(attachment)) return 0;
+    return this.indexText({
+      sourceType: "attachment",
+      sourceId: attachment.id,
+      chatId: chat.id,
+      userId: chat.userId,
+      title: attachment.filename,
+      createdAt: attachment.createdAt,
+    }, attachment.content);
+  }
+
+  /**
+   * Fetch a Drive file (Google Docs are exported as text) and index it
+   */
+  async ingestDriveFile(fileId: string, userId: string | null): Promise<{ title: string; chunks: number }> {
+    const file = await getDriveFile(fileId);
+    if ("success" in file && file.success === false) {
+      throw new Error(file.error);
+    }
+    const meta = file as { name?: string | null; mimeType?: string | null; modifiedTime?: string | null };
+    const title = meta.name ?? fileId;
+
+    let text: string;
+    if (meta.mimeType === "application/vnd.google-apps.document") {
+      const doc = await getDocumentText(fileId);
+      if ("success" in doc && doc.success === false) throw new Error(doc.error);
+      text = (doc as { text: string }).text;
+    } else if (meta.mimeType?.startsWith("application/vnd.google-apps.")) {
+      throw new Error(`Drive file type ${meta.mimeType} cannot be indexed (only Google Docs and text files)`);
+    } else {
+      const content = await getDriveFileContent(fileId);
+      if (typeof content !== "string") {
+        const error = (content as { error?: string } | null)?.error;
+        throw new Error(error ?? `Drive file ${title} is not a text file`);
+      }
+      text = content;
+    }
+
+    const chunks = await this.indexText({
+      sourceType: "drive_file",
+      sourceId: fileId,
+      chatId: null,
+      userId,
+      title,
+      createdAt: meta.modifiedTime ? new Date(meta.modifiedTime) : null,
+    }, text);
+    return { title, chunks };
+  }
+
+  /**
+   * Top-k chunks for a query, best first
+   */
+  async search(query: string, options: RetrievalSearchOptions = {}): Promise<RetrievedSnippet[]> {
+    if (!this.isEnabled() || !query.trim()) return [];
+    const index = await this.loadIndex();
+    if (!index || index.size === 0) return [];
+
+    const [queryVector] = await this.provider.embed([query], "query");
+    const excluded = new Set(options.excludeSourceIds ?? []);
+    const userId = options.userId ?? null;
+    const envMinScore = process.env.RETRIEVAL_MIN_SCORE ? Number(process.env.RETRIEVAL_MIN_SCORE) : undefined;
+    const minScore = options.minScore ?? envMinScore ?? DEFAULT_MIN_SCORE[this.provider.name] ?? 0.5;
+
+    const k = options.k ?? 5;
+    const matches = index.search(queryVector, k * BRANCH_HEADROOM, {
+      minScore,
+      filter: meta => {
+        if (excluded.has(meta.sourceId)) return false;
+        return userId ? meta.userId === userId : meta.chatId === (options.chatId ?? null);
+      },
+    });
+    if (matches.length === 0) return [];
+
+    const rows = new Map((await storage.getRetrievalChunksByIds(matches.map(m => m.id))).map(r => [r.id, r]));
+    const active = await this.activeMessageIds(Array.from(rows.values()));
+    return matches.flatMap(match => {
+      const row = rows.get(match.id);
+      if (!row) return [];
+      if (row.sourceType === "message" && row.chatId && !active.get(row.chatId)?.has(row.sourceId)) return [];
+      return [{
+        chunkId: row.id,
+        sourceType: row.sourceType as RetrievalSourceType,
+        sourceId: row.sourceId,
+        chatId: row.chatId,
+        title: row.title,
+        role: row.role,
+        content: row.content,
+        score: match.score,
+        sourceCreatedAt: row.sourceCreatedAt,
+      }];
+    }).slice(0, k);
+  }
+
+  /**
+   * Active-branch message ids of every chat with a message among the hits
+   */
+  private async activeMessageIds(rows: Array<{ sourceType: string; chatId: string | null }>): Promise<Map<string, Set<string>>> {
+    const chatIds = new Set(rows.flatMap(row => (row.sourceType === "message" && row.chatId ? [row.chatId] : [])));
+    const active = new Map<string, Set<string>>();
+    for (const chatId of Array.from(chatIds)) {
+      active.set(chatId, await storage.getActiveMessageIds(chatId));
+    }
+    return active;
+  }
+
+  /**
+   * Prompt section and citations for a user message. Never throws: recall is
+   * best-effort and must not block a reply.
+   */
+  async retrieveContext(query: string, options: RetrievalSearchOptions = {}): Promise<RetrievedContext> {
+    try {
+      const topK = process.env.RETRIEVAL_TOP_K ? Number(process.env.RETRIEVAL_TOP_K) : undefined;
+      const snippets = await this.search(query, { k: topK, ...options });
+      return formatRetrievedContext(snippets);
+    } catch (error) {
+      console.error("[Retrieval] Failed to retrieve context:", error);
+      return { text: "", citations: [] };
+    }
+  }
+
+  /**
+   * Re-embed everything under the current provider: messages and text
+   * attachments are re-read from their chats, Drive files are re-embedded
+   * from their stored chunks.
+   */
+  async reindex(options: { chatId?: string; userId?: string } = {}): Promise<{ sources: number; chunks: number }> {
+    if (!this.isEnabled()) return { sources: 0, chunks: 0 };
+    let sources = 0;
+    let chunks = 0;
+
+    const chats = options.chatId
+      ? [await storage.getChat(options.chatId)].filter((c): c is Chat => !!c)
+      : await storage.getChats(options.userId);
+    for (const chat of chats) {
+      for (const message of await storage.getMessages(chat.id)) {
+        chunks += await this.ingestMessage(message, chat);
+        sources++;
+        for (const attachment of await storage.getAttachmentsByMessageId(message.id)) {
+          const count = await this.ingestAttachment(attachment, chat);
+          if (count > 0) sources++;
+          chunks += count;
+        }
+      }
+    }
+
+    if (!options.chatId) {
+      for (const stale of await storage.getStaleRetrievalSources(this.embeddingKey)) {
+        if (stale.sourceType !== "drive_file") continue;
+        const rows = await storage.getRetrievalChunksBySource(stale.sourceType, stale.sourceId);
+        if (rows.length === 0 || (options.userId && rows[0].userId !== options.userId)) continue;
+        chunks += await this.storeChunks({
+          sourceType: "drive_file",
+          sourceId: stale.sourceId,
+          chatId: null,
+          userId: rows[0].userId,
+          title: rows[0].title,
+          createdAt: rows[0].sourceCreatedAt,
+        }, rows.map(r => r.content));
+        sources++;
+      }
+    }
+
+    console.log(`[Retrieval] Reindexed ${sources} sources (${chunks} chunks) with ${this.embeddingKey}`);
+    return { sources, chunks };
+  }
+
+  async getStatus() {
+    return {
+      enabled: this.isEnabled(),
+      provider: this.provider.name,
+      model: this.provider.model,
+      embeddingKey: this.embeddingKey,
+      loadedChunks: this.index?.size ?? null,
+      stored: await storage.getRetrievalStats(),
+    };
+  }
+}
+
+export const retrievalService = new RetrievalService();
@@ -0,0 +1,120 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - VECTOR INDEX
+ * =============================================================================
+ *
+ * In-memory exact nearest-neighbour search over unit-length Float32 vectors.
+ * Vectors are normalised on insert so cosine similarity is a dot product.
+ *
+ * A flat scan is deliberate: a personal chat history is tens of thousands of
+ * chunks at most, which scans in a few milliseconds, and exact results need
+ * no tuning. The index is rebuilt from the retrieval_chunks table on first
+ * use (see retrieval/index.ts); the table is the source of truth.
+ */
+
+export interface VectorEntry<M> {
+  id: string;
+  vector: Float32Array;
+  meta: M;
+}
+
+export interface VectorMatch<M> {
+  id: string;
+  score: number;
+  meta: M;
+}
+
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] /= norm;
+  }
+  return out;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Float32 vector ⇄ SQLite blob (little-endian, as stored in retrieval_chunks)
+ */
+export function vectorToBuffer(vector: Float32Array): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4);
+  for (let i = 0; i < vector.length; i++) buffer.writeFloatLE(vector[i], i * 4);
+  return buffer;
+}
+
+export function bufferToVector(buffer: Buffer): Float32Array {
+  const vector = new Float32Array(buffer.length / 4);
+  for (let i = 0; i < vector.length; i++) vector[i] = buffer.readFloatLE(i * 4);
+  return vector;
+}
+
+export class VectorIndex<M = Record<string, unknown>> {
+  private entries = new Map<string, VectorEntry<M>>();
+
+  constructor(readonly dimensions: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  add(id: string, vector: ArrayLike<number>, meta: M): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for ${id} has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    this.entries.set(id, { id, vector: normalize(vector), meta });
+  }
+
+  remove(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  /**
+   * Remove every entry whose metadata matches
+   */
+  removeWhere(predicate: (meta: M) => boolean): number {
+    let removed = 0;
+    for (const [id, entry] of Array.from(this.entries)) {
+      if (predicate(entry.meta)) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Top-k entries by cosine similarity, best first
+   */
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    options: { filter?: (meta: M) => boolean; minScore?: number } = {}
+  ): VectorMatch<M>[] {
+    if (k <= 0 || this.entries.size === 0) return [];
+    const q = normalize(query);
+    const minScore = options.minScore ?? -Infinity;
+
+    // Keep the best k in a small sorted array; k is tiny compared to the index
+    const top: VectorMatch<M>[] = [];
+    for (const entry of Array.from(this.entries.values())) {
+      if (options.filter && !options.filter(entry.meta)) continue;
+      const score = dot(q, entry.vector);
+      if (score < minScore) continue;
+      if (top.length === k && score <= top[top.length - 1].score) continue;
+
+      let i = top.length;
+      while (i > 0 && top[i - 1].score < score) i--;
+      top.splice(i, 0, { id: entry.id, score, meta: entry.meta });
+      if (top.length > k) top.pop();
+    }
+    return top;
+  }
+}
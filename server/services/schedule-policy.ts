@@ -0,0 +1,115 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - SCHEDULE POLICIES
+ * =============================================================================
+ *
+ * Decides what a schedule does with the occurrences that came due since it
+ * last ran: which fire, which count as missed, and how far each run is
+ * spread by jitter. Pure, so CronScheduler stays a thin loop around it.
+ *
+ * Misfire policies (an occurrence is missed once it is more than the grace
+ * period old):
+ *   skip       missed occurrences are recorded and dropped
+ *   run_once   all missed occurrences collapse into one run, now
+ *   run_all    the most recent maxCatchUp missed occurrences each run
+ *
+ * Concurrency policies (a run is active while its job has not finished):
+ *   allow      start regardless
+ *   skip       record the occurrence as skipped
+ *   queue      start, depending on the active run's job
+ */
+
+import { nextCronRuns, parseCron } from "./cron-expression";
+
+export const MISFIRE_POLICIES = ["skip", "run_once", "run_all"] as const;
+export type MisfirePolicy = typeof MISFIRE_POLICIES[number];
+
+export const CONCURRENCY_POLICIES = ["allow", "skip", "queue"] as const;
+export type ConcurrencyPolicy = typeof CONCURRENCY_POLICIES[number];
+
+/** Most due occurrences looked at in one pass (and most run_all replays) */
+export const MAX_TRACKED_OCCURRENCES = 100;
+
+export interface DueRunPlan {
+  fire: Date[];
+  missed: Date[];
+}
+
+/**
+ * The most recent occurrences in [from, now], oldest first. `truncated`
+ * means older occurrences in the range were left out.
+ */
+export function dueOccurrences(
+  cronExpression: string,
+  from: Date,
+  now: Date,
+  timeZone = "UTC",
+  limit = MAX_TRACKED_OCCURRENCES,
+): { occurrences: Date[]; truncated: boolean } {
+  const cron = parseCron(cronExpression);
+  const start = from.getTime() - 1000;
+
+  // Look back over a doubling window until it holds enough occurrences
+  // or reaches `from`, so a long outage never means a long scan
+  for (let windowMs = 60 * 1000; ; windowMs *= 2) {
+    const windowStart = Math.max(start, now.getTime() - windowMs);
+    const occurrences: Date[] = [];
+    let cursor = new Date(windowStart);
+    let overflowed = false;
+
+    while (true) {
+      const [next] = nextCronRuns(cron, 1, cursor, timeZone);
+      if (!next || next > now) break;
+      occurrences.push(next);
+      if (occurrences.length > limit) {
+        occurrences.shift();
+        overflowed = true;
+      }
+      cursor = next;
+    }
+
+    if (overflowed || windowStart === start) {
+      return { occurrences, truncated: overflowed || windowStart > start };
+    }
+    if (occurrences.length === limit) {
+      return { occurrences, truncated: true };
+    }
+  }
+}
+
+/**
+ * Split due occurrences into the ones to fire and the ones missed
+ */
+export function planDueRuns(
+  occurrences: Date[],
+  now: Date,
+  options: { misfirePolicy: string; graceMs: number; maxCatchUp: number },
+): DueRunPlan {
+  const onTime = occurrences.filter(time => now.getTime() - time.getTime() <= options.graceMs);
+  const late = occurrences.filter(time => now.getTime() - time.getTime() > options.graceMs);
+
+  switch (options.misfirePolicy) {
+    case "skip":
+      return { fire: onTime, missed: late };
+    case "run_all": {
+      const replay = Math.max(0, Math.min(options.maxCatchUp, late.length));
+      return {
+        fire: [...late.slice(late.length - replay), ...onTime],
+        missed: late.slice(0, late.length - replay),
+      };
+    }
+    case "run_once":
+    default:
+      if (onTime.length > 0 || late.length === 0) {
+        return { fire: onTime, missed: late };
+      }
+      return { fire: late.slice(-1), missed: late.slice(0, -1) };
+  }
+}
+
+/**
+ * Random start delay for one run
+ */
+export function jitterDelayMs(jitterSeconds: number, random: () => number = Math.random): number {
+  return jitterSeconds > 0 ? Math.floor(random() * jitterSeconds * 1000) : 0;
+}
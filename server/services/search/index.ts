@@ -0,0 +1,191 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - SEARCH SERVICE
+ * =============================================================================
+ *
+ * Keyword search across chats: message text, text attachments and tool
+ * results ("that SSH command from last month"). Backed by the SQLite FTS5
+ * index described in schema.ts, which triggers keep current on insert.
+ *
+ * Complements retrieval (services/retrieval), which finds related context by
+ * meaning for the model; this finds exact words for the user.
+ *
+ * ISOLATION:
+ * ----------
+ * Results come only from chats the caller can list in the sidebar
+ * (chats.user_id = user id, or the shared guest id when signed out).
+ */
+
+import { rawDb } from "../../db";
+import { buildMatchQuery, HIGHLIGHT_END, HIGHLIGHT_START, renderSnippet } from "./query";
+import { SEARCH_BACKFILL_SQL, SEARCH_CLEAR_SQL, SEARCH_SCHEMA_SQL } from "./schema";
+
+export { buildMatchQuery, renderSnippet } from "./query";
+
+export type SearchSourceType = "message" | "attachment" | "tool_result";
+
+export interface SearchParams {
+  query: string;
+  /** Owner scope: the signed-in user's id or GUEST_USER_ID */
+  userId: string;
+  chatId?: string;
+  from?: Date;
+  to?: Date;
+  role?: "user" | "ai";
+  toolType?: string;
+  sources?: SearchSourceType[];
+  sort?: "relevance" | "recent";
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchHit {
+  sourceType: SearchSourceType;
+  sourceId: string;
+  chatId: string;
+  chatTitle: string;
+  /** Message to jump to (the message itself, or the one the attachment/tool call belongs to) */
+  messageId: string | null;
+  role: string | null;
+  toolType: string | null;
+  /** Attachment filename or tool call request */
+  title: string | null;
+  /** HTML with matches in <mark>; everything else escaped */
+  snippet: string;
+  createdAt: Date;
+}
+
+interface HitRow {
+  source_type: SearchSourceType;
+  source_id: string;
+  chat_id: string;
+  chat_title: string;
+  message_id: string | null;
+  role: string | null;
+  tool_type: string | null;
+  title: string | null;
+  snippet: string;
+  created_at: number;
+}
+
+class SearchService {
+  private ready = false;
+
+  /**
+   * Create the index and its triggers if needed; backfills existing history
+   * the first time. Safe to call repeatedly.
+   */
+  ensureIndex(): void {
+    if (this.ready) return;
+    const existed = rawDb
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'search_documents'")
+      .get();
+    rawDb.exec(SEARCH_SCHEMA_SQL);
+    if (!existed) {
+      rawDb.exec(SEARCH_BACKFILL_SQL);
+      console.log(`[Search] Created full-text index (${this.countDocuments()} documents)`);
+    }
+    this.ready = true;
+  }
+
+  /**
+   * Re-index all history from scratch
+   */
+  rebuild(): { documents: number } {
+    this.ensureIndex();
+    rawDb.transaction(() => {
+      rawDb.exec(SEARCH_CLEAR_SQL);
+      rawDb.exec(SEARCH_BACKFILL_SQL);
+    })();
+    const documents = this.countDocuments();
+    console.log(`[Search] Rebuilt full-text index (${documents} documents)`);
+    return { documents };
+  }
+
+  search(params: SearchParams): { results: SearchHit[]; hasMore: boolean } {
+    const match = buildMatchQuery(params.query);
+    if (!match) return { results: [], hasMore: false };
+    this.ensureIndex();
+
+    const where: string[] = ["search_fts MATCH ?", "c.user_id = ?"];
+    const args: unknown[] = [match, params.userId];
+    if (params.chatId) {
+      where.push("d.chat_id = ?");
+      args.push(params.chatId);
+    }
+    if (params.from) {
+      where.push("d.created_at >= ?");
+      args.push(params.from.getTime());
+    }
+    if (params.to) {
+      where.push("d.created_at <= ?");
+      args.push(params.to.getTime());
+    }
+    if (params.role) {
+      where.push("d.role = ?");
+      args.push(params.role);
+    }
+    if (params.toolType) {
+      where.push("d.tool_type = ?");
+      args.push(params.toolType);
+    }
+    if (params.sources?.length) {
+      where.push(`d.source_type IN (${params.sources.map(() => "?").join(", ")})`);
+      args.push(...params.sources);
+    }
+
+    const limit = params.limit ?? 20;
+    // Title matches (filenames, commands) weigh double
+    const order = params.sort === "recent" ? "d.created_at DESC" : "bm25(search_fts, 2.0, 1.0), d.created_at DESC";
+    const rows = rawDb
+      .prepare(
+        `SELECT d.source_type, d.source_id, d.chat_id, c.title AS chat_title, d.message_id,
+                d.role, d.tool_type, d.title, d.created_at,
+                snippet(search_fts, -1, ?, ?, '…', 24) AS snippet
+         FROM search_fts
+         JOIN search_documents d ON d.id = search_fts.rowid
+         JOIN chats c ON c.id = d.chat_id
+         WHERE ${where.join(" AND ")}
+         ORDER BY ${order}
+         LIMIT ? OFFSET ?`
+      )
+      .all(HIGHLIGHT_START, HIGHLIGHT_END, ...args, limit + 1, params.offset ?? 0) as HitRow[];
+
+    return {
+      results: rows.slice(0, limit).map(row => ({
+        sourceType: row.source_type,
+        sourceId: row.source_id,
+        chatId: row.chat_id,
+        chatTitle: row.chat_title,
+        messageId: row.message_id,
+        role: row.role,
+        toolType: row.tool_type,
+        title: row.title,
+        snippet: renderSnippet(row.snippet ?? ""),
+        createdAt: new Date(row.created_at),
+      })),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Tool types that have indexed results, for the tool filter
+   */
+  getToolTypes(userId: string): string[] {
+    this.ensureIndex();
+    const rows = rawDb
+      .prepare(
+        `SELECT DISTINCT d.tool_type FROM search_documents d JOIN chats c ON c.id = d.chat_id
+         WHERE d.tool_type IS NOT NULL AND c.user_id = ? ORDER BY d.tool_type`
+      )
+      .all(userId) as Array<{ tool_type: string }>;
+    return rows.map(row => row.tool_type);
+  }
+
+  private countDocuments(): number {
+    const row = rawDb.prepare("SELECT count(*) AS n FROM search_documents").get() as { n: number };
+    return row.n;
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,75 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - SEARCH QUERY HELPERS
+ * =============================================================================
+ *
+ * Turns what a user types into a safe FTS5 MATCH expression and FTS5
+ * snippets into HTML. Pure, so they are unit tested without SQLite.
+ *
+ * QUERY SYNTAX:
+ * -------------
+ *   ssh deploy          both words (any order); the last word also matches
+ *                       as a prefix while typing ("depl" finds "deploy")
+ *   "git push --force"  exact phrase
+ *   docker -compose     exclude a word
+ */
+
+/** Private-use characters FTS5 wraps around matches in snippets */
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_END = "\uE001";
+
+/** Characters FTS5's unicode61 tokenizer keeps; everything else separates words */
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const quote = (term: string) => `"${term.replace(/"/g, '""')}"`;
+
+/**
+ * Build an FTS5 MATCH expression, or null when nothing searchable remains
+ */
+export function buildMatchQuery(input: string): string | null {
+  const include: string[] = [];
+  const exclude: string[] = [];
+
+  const tokens = input.match(/-?"[^"]*"?|\S+/g) ?? [];
+  tokens.forEach((token, i) => {
+    const negated = token.startsWith("-") && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const words = body.match(WORD);
+    if (!words) return;
+
+    // Punctuation inside a word makes a phrase ("file_get" → "file get")
+    let term = quote(words.join(" "));
+    const isPhrase = body.startsWith('"');
+    const isLast = i === tokens.length - 1;
+    if (isLast && !isPhrase && !negated && words.length === 1 && words[0].length >= 2) term += "*";
+    (negated ? exclude : include).push(term);
+  });
+
+  if (include.length === 0) return null;
+  const positive = include.join(" ");
+  return exclude.length > 0 ? `${positive} NOT ${exclude.join(" NOT ")}` : positive;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * HTML for an FTS5 snippet: everything escaped, matches in <mark>
+ */
+export function renderSnippet(raw: string): string {
+  const parts = raw.replace(/\s+/g, " ").trim().split(HIGHLIGHT_START);
+  return parts
+    .map((part, i) => {
+      if (i === 0) return escapeHtml(part.split(HIGHLIGHT_END).join(""));
+      const end = part.indexOf(HIGHLIGHT_END);
+      if (end === -1) return `<mark>${escapeHtml(part)}</mark>`;
+      return `<mark>${escapeHtml(part.slice(0, end))}</mark>${escapeHtml(part.slice(end + 1))}`;
+    })
+    .join("");
+}
@@ -0,0 +1,147 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - SEARCH INDEX SCHEMA
+ * =============================================================================
+ *
+ * SQLite FTS5 index over chat history, kept current by triggers so every
+ * insert path (chat route, tools, imports, raw SQL) is covered.
+ *
+ *   messages ──┐
+ *   attachments├─ triggers ─→ search_documents ─ triggers ─→ search_fts (FTS5)
+ *   tool_call_logs ┘            (one row per source,         (external content,
+ *                                filter columns)              porter stemming)
+ *
+ * Indexed sources:
+ * - message      messages.content
+ * - attachment   attachments.content for text types and voice transcripts
+ *                (binary files hold base64, which is not worth indexing)
+ * - tool_result  tool_call_logs.response once the call completes; the
+ *                request (e.g. the terminal command) is indexed as its title.
+ *                Calls an agent worker made for a job have no chat and are
+ *                left out
+ *
+ * The tables are created at startup rather than in shared/schema.ts because
+ * drizzle cannot declare virtual tables or triggers; drizzle.config.ts keeps
+ * db:push away from the search_* tables.
+ */
+
+/** Attachment rows worth indexing (alias `a`) */
+const TEXT_ATTACHMENT = `
+  a.message_id IS NOT NULL
+  AND a.content IS NOT NULL AND trim(a.content) <> ''
+  AND (
+    a.type = 'voice_transcript'
+    OR a.mime_type LIKE 'text/%'
+    OR a.mime_type IN ('application/json', 'application/xml', 'application/javascript')
+  )`;
+
+const DOCUMENT_COLUMNS = "source_type, source_id, chat_id, message_id, role, tool_type, title, content, created_at";
+
+/** SELECTs producing search_documents rows; `alias` is the source row */
+const selectMessage = (m: string, where: string) => `
+  SELECT 'message', ${m}.id, ${m}.chat_id, ${m}.id, ${m}.role, NULL, NULL, ${m}.content, ${m}.created_at
+  ${where} AND trim(${m}.content) <> ''`;
+
+const selectAttachment = (a: string, where: string) => `
+  SELECT 'attachment', ${a}.id, m.chat_id, m.id, m.role, NULL, ${a}.filename, ${a}.content, ${a}.created_at
+  ${where}`;
+
+const selectToolResult = (t: string, where: string) => `
+  SELECT 'tool_result', ${t}.id, ${t}.chat_id, ${t}.message_id, NULL, ${t}.tool_type, ${t}.request, ${t}.response, ${t}.created_at
+  ${where} AND ${t}.chat_id IS NOT NULL AND ${t}.response IS NOT NULL`;
+
+const forRow = (alias: string) => TEXT_ATTACHMENT.replace(/\ba\./g, `${alias}.`);
+
+/**
+ * Idempotent DDL, run on every start (db:push may recreate source tables,
+ * which drops their triggers)
+ */
+export const SEARCH_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS search_documents (
+  id INTEGER PRIMARY KEY,
+  source_type TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  message_id TEXT,
+  role TEXT,
+  tool_type TEXT,
+  title TEXT,
+  content TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  UNIQUE (source_type, source_id)
+);
+CREATE INDEX IF NOT EXISTS search_documents_chat ON search_documents (chat_id, created_at);
+CREATE INDEX IF NOT EXISTS search_documents_created ON search_documents (created_at);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(
+  title, content,
+  content = 'search_documents', content_rowid = 'id',
+  tokenize = 'porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS search_documents_ai AFTER INSERT ON search_documents BEGIN
+  INSERT INTO search_fts (rowid, title, content) VALUES (new.id, new.title, new.content);
+END;
+CREATE TRIGGER IF NOT EXISTS search_documents_ad AFTER DELETE ON search_documents BEGIN
+  INSERT INTO search_fts (search_fts, rowid, title, content) VALUES ('delete', old.id, old.title, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_messages_ai AFTER INSERT ON messages BEGIN
+  INSERT INTO search_documents (${DOCUMENT_COLUMNS}) ${selectMessage("new", "WHERE 1")};
+END;
+CREATE TRIGGER IF NOT EXISTS search_messages_au AFTER UPDATE OF content ON messages BEGIN
+  DELETE FROM search_documents WHERE source_type = 'message' AND source_id = old.id;
+  INSERT INTO search_documents (${DOCUMENT_COLUMNS}) ${selectMessage("new", "WHERE 1")};
+END;
+CREATE TRIGGER IF NOT EXISTS search_messages_ad AFTER DELETE ON messages BEGIN
+  DELETE FROM search_documents WHERE source_type = 'message' AND source_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_attachments_ai AFTER INSERT ON attachments BEGIN
+  INSERT INTO search_documents (${DOCUMENT_COLUMNS})
+  ${selectAttachment("new", `FROM messages m WHERE m.id = new.message_id AND ${forRow("new")}`)};
+END;
+CREATE TRIGGER IF NOT EXISTS search_attachments_au AFTER UPDATE OF content, message_id ON attachments BEGIN
+  DELETE FROM search_documents WHERE source_type = 'attachment' AND source_id = old.id;
+  INSERT INTO search_documents (${DOCUMENT_COLUMNS})
+  ${selectAttachment("new", `FROM messages m WHERE m.id = new.message_id AND ${forRow("new")}`)};
+END;
+CREATE TRIGGER IF NOT EXISTS search_attachments_ad AFTER DELETE ON attachments BEGIN
+  DELETE FROM search_documents WHERE source_type = 'attachment' AND source_id = old.id;
+END;
+
+-- Recreated rather than kept, so databases indexed before job calls were left
+-- out stop copying their NULL chat_id
+DROP TRIGGER IF EXISTS search_tool_calls_ai;
+DROP TRIGGER IF EXISTS search_tool_calls_au;
+CREATE TRIGGER IF NOT EXISTS search_tool_calls_ai AFTER INSERT ON tool_call_logs BEGIN
+  INSERT INTO search_documents (${DOCUMENT_COLUMNS}) ${selectToolResult("new", "WHERE 1")};
+END;
+CREATE TRIGGER IF NOT EXISTS search_tool_calls_au AFTER UPDATE OF response, request ON tool_call_logs BEGIN
+  DELETE FROM search_documents WHERE source_type = 'tool_result' AND source_id = old.id;
+  INSERT INTO search_documents (${DOCUMENT_COLUMNS}) ${selectToolResult("new", "WHERE 1")};
+END;
+CREATE TRIGGER IF NOT EXISTS search_tool_calls_ad AFTER DELETE ON tool_call_logs BEGIN
+  DELETE FROM search_documents WHERE source_type = 'tool_result' AND source_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_chats_ad AFTER DELETE ON chats BEGIN
+  DELETE FROM search_documents WHERE chat_id = old.id;
+END;
+`;
+
+/**
+ * Fill search_documents from existing rows (first start, or a rebuild)
+ */
+export const SEARCH_BACKFILL_SQL = `
+INSERT OR IGNORE INTO search_documents (${DOCUMENT_COLUMNS}) ${selectMessage("m", "FROM messages m WHERE 1")};
+INSERT OR IGNORE INTO search_documents (${DOCUMENT_COLUMNS})
+  ${selectAttachment("a", `FROM attachments a JOIN messages m ON m.id = a.message_id WHERE ${TEXT_ATTACHMENT}`)};
+INSERT OR IGNORE INTO search_documents (${DOCUMENT_COLUMNS}) ${selectToolResult("t", "FROM tool_call_logs t WHERE 1")};
+`;
+
+/** Empty the index before a backfill */
+export const SEARCH_CLEAR_SQL = `
+DELETE FROM search_documents;
+INSERT INTO search_fts (search_fts) VALUES ('rebuild');
+`;
@@ -5,11 +5,12 @@
  * =============================================================================
  * 
  * Provides speech-to-text transcription using multiple backends:
- * 1. Primary: Google Gemini audio transcription (backend)
+ * 1. Primary: LLM audio transcription (backend, LLM service "speech" -
+ *    Gemini by default; OpenAI-compatible servers need audio input support)
  * 2. Fallback: Browser Web Speech API (frontend, handled by client)
  * 
  * The service accepts audio data (base64 encoded) and returns transcribed text.
- * It uses the Gemini model's audio understanding capabilities for transcription.
+ * It uses the selected model's audio understanding capabilities for transcription.
  * 
  * ARCHITECTURE:
  * ┌─────────────────────────────────────────────────────────────────────────┐
@@ -36,7 +37,7 @@
  * =============================================================================
  */
 
-import { GoogleGenAI } from "@google/genai";
+import { llm } from "./llm";
 
 const MAX_AUDIO_SIZE_BYTES = 10 * 1024 * 1024; // 10MB limit for audio uploads
 
@@ -55,7 +56,8 @@ export interface TranscriptionRequest {
 export interface TranscriptionResponse {
   transcript: string;
   confidence?: number;
-  source: "gemini" | "fallback";
+  /** LLM provider that produced the transcript, or "fallback" */
+  source: string;
   error?: string;
 }
 
@@ -70,20 +72,16 @@ export interface ServiceStatus {
 /**
  * SpeechService
  * 
- * Handles audio-to-text transcription using Gemini's multimodal capabilities.
+ * Handles audio-to-text transcription using the LLM's multimodal capabilities.
  * Falls back gracefully if transcription fails.
  */
 export class SpeechService {
-  private genAI: GoogleGenAI | null = null;
   private isAvailable: boolean = false;
 
   constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (apiKey) {
-      this.genAI = new GoogleGenAI({ apiKey });
-      this.isAvailable = true;
-    } else {
-      console.warn("[SpeechService] GEMINI_API_KEY not found - transcription will rely on frontend");
+    this.isAvailable = llm.isAvailable("speech");
+    if (!this.isAvailable) {
+      console.warn("[SpeechService] No LLM provider configured for speech - transcription will rely on frontend");
     }
   }
 
@@ -93,7 +91,7 @@ export class SpeechService {
   getServiceStatus(): ServiceStatus {
     return {
       available: this.isAvailable,
-      reason: this.isAvailable ? undefined : "GEMINI_API_KEY not configured"
+      reason: this.isAvailable ? undefined : "No LLM provider configured for speech (GEMINI_API_KEY or LLM_SPEECH)"
     };
   }
 
@@ -116,13 +114,13 @@ export class SpeechService {
   }
 
   /**
-   * Transcribe audio using Gemini's audio understanding
+   * Transcribe audio using the LLM's audio understanding
    * 
    * @param request - Audio data and metadata
    * @returns Transcription result
    */
   async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
-    if (!this.isAvailable || !this.genAI) {
+    if (!this.isAvailable) {
       return {
         transcript: "",
         source: "fallback",
@@ -144,19 +142,11 @@ export class SpeechService {
         ? `Transcribe this audio exactly as spoken. The language is ${request.language}. Output only the transcribed text, nothing else.`
         : `Transcribe this audio exactly as spoken. Output only the transcribed text, nothing else.`;
 
-      const response = await this.genAI.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: [{
+      const response = await llm.generate("speech", {
+        messages: [{
           role: "user",
-          parts: [
-            { text: prompt },
-            {
-              inlineData: {
-                mimeType: request.mimeType,
-                data: request.audioBase64
-              }
-            }
-          ]
+          content: prompt,
+          attachments: [{ mimeType: request.mimeType, data: request.audioBase64 }]
         }]
       });
 
@@ -164,7 +154,7 @@ export class SpeechService {
       
       return {
         transcript: text.trim(),
-        source: "gemini",
+        source: response.provider,
         confidence: 0.95
       };
     } catch (error: any) {
@@ -182,7 +172,7 @@ export class SpeechService {
    * Useful for transcribing attached audio files
    */
   async transcribeFromUrl(url: string, mimeType: string): Promise<TranscriptionResponse> {
-    if (!this.isAvailable || !this.genAI) {
+    if (!this.isAvailable) {
       return {
         transcript: "",
         source: "fallback",
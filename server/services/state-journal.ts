@@ -0,0 +1,126 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - STATE JOURNAL
+ * =============================================================================
+ *
+ * Pure helpers behind the StateManager's SQLite persistence and the
+ * orchestrator's recovery on boot:
+ *
+ *   set/lock ──► state_entries / state_locks, each change in state_history
+ *   begin ─────► state_transactions (open), operations journalled
+ *   commit ────► operations applied in one SQLite transaction (committed)
+ *   restart ───► open transactions abandoned, expired locks released,
+ *                active orchestrations reattached from their session
+ *
+ * Nothing here touches the database.
+ */
+
+import type { StateUpdate } from "./state-manager";
+
+/** How long a lock holds when the caller does not say */
+export const DEFAULT_LOCK_TTL_SECONDS = 300;
+
+/** Job statuses after which a job will not change again by itself */
+const TERMINAL_JOB_STATUSES = new Set(["completed", "failed", "cancelled", "dead_letter"]);
+
+/** When an entry expires; ttl counts from when the key was first set */
+export function entryExpiresAt(createdAt: Date, ttl?: number | null): Date | null {
+  return ttl ? new Date(createdAt.getTime() + ttl * 1000) : null;
+}
+
+export function isExpired(expiresAt: Date | null | undefined, now: Date): boolean {
+  return !!expiresAt && expiresAt.getTime() <= now.getTime();
+}
+
+/** Whether agentId may take the lock: it is free, expired, or already theirs */
+export function canTakeLock(
+  lock: { holder: string; expiresAt: Date } | null | undefined,
+  agentId: string,
+  now: Date,
+): boolean {
+  return !lock || lock.holder === agentId || isExpired(lock.expiresAt, now);
+}
+
+/**
+ * What a commit writes: the last operation on each key, in the order keys
+ * were first touched
+ */
+export function collapseOperations(operations: StateUpdate[]): StateUpdate[] {
+  const latest = new Map<string, StateUpdate>();
+  for (const operation of operations) {
+    latest.set(operation.key, operation);
+  }
+  return Array.from(latest.values());
+}
+
+// =============================================================================
+// ORCHESTRATION RECOVERY
+// =============================================================================
+
+export type OrchestrationStatus = "planning" | "executing" | "completed" | "failed" | "cancelled";
+
+/** What an orchestrator session records in its metadata to be reattached */
+export interface OrchestrationRecord {
+  goal: string;
+  status: OrchestrationStatus;
+  planningJobId?: string;
+  jobIds: string[];
+  /** Plan step id -> the job running it */
+  stepJobIds?: Record<string, string>;
+  /** Failed subtrees replaced so far */
+  replans?: number;
+  /** Step ids being replaced while status is back to "planning" */
+  replacing?: string[];
+  startTime: string;
+}
+
+export type RecoveryAction =
+  | { action: "resume_planning"; planningJobId: string }
+  | { action: "track" }
+  | { action: "close"; status: Exclude<OrchestrationStatus, "planning" | "executing">; reason?: string };
+
+/**
+ * Overall status of an executing orchestration from its jobs. A job that no
+ * longer exists counts as failed.
+ */
+export function orchestrationStatusFromJobs(statuses: Array<string | undefined>): OrchestrationStatus {
+  if (statuses.some(status => status !== undefined && !TERMINAL_JOB_STATUSES.has(status))) {
+    return "executing";
+  }
+  if (statuses.some(status => status === undefined || status === "failed" || status === "dead_letter")) {
+    return "failed";
+  }
+  if (statuses.some(status => status === "cancelled")) {
+    return "cancelled";
+  }
+  return "completed";
+}
+
+/**
+ * What to do with an orchestration that was active when the server stopped.
+ * jobStatuses maps the job ids it recorded to their current status. One
+ * whose jobs failed is kept when it may still replace the failed steps.
+ */
+export function planRecovery(
+  record: OrchestrationRecord,
+  jobStatuses: Record<string, string>,
+  canReplan = false,
+): RecoveryAction {
+  if (record.status === "planning") {
+    const planningStatus = record.planningJobId ? jobStatuses[record.planningJobId] : undefined;
+    if (!record.planningJobId || !planningStatus || ["failed", "cancelled", "dead_letter"].includes(planningStatus)) {
+      return { action: "close", status: "failed", reason: "Planning was interrupted by a restart" };
+    }
+    return { action: "resume_planning", planningJobId: record.planningJobId };
+  }
+
+  if (record.status !== "executing") {
+    return { action: "close", status: record.status };
+  }
+
+  const status = orchestrationStatusFromJobs(record.jobIds.map(jobId => jobStatuses[jobId]));
+  if (status === "executing" || status === "planning" || (status === "failed" && canReplan)) {
+    return { action: "track" };
+  }
+  return { action: "close", status };
+}
@@ -1,23 +1,48 @@
-
 /**
  * =============================================================================
  * STATE MANAGER SERVICE
  * =============================================================================
- * 
+ *
  * Manages execution state and context for multi-agent orchestration.
  * Provides:
  * - Session-based state management
  * - Context sharing between agents
  * - State persistence and recovery
  * - Transaction-like state updates
- * 
+ *
  * This service acts as the "memory" in our CPU analogy, storing the current
  * state of all running tasks and allowing agents to share context.
+ *
+ * Everything lives in SQLite (state_sessions, state_entries, state_locks,
+ * state_transactions, state_history), so sessions survive a restart. A
+ * transaction journals its operations and applies them in one SQLite
+ * transaction on commit; transactions still open when the server stopped
+ * are abandoned on boot without having changed anything. Locks expire after
+ * their TTL, so a crashed agent cannot hold a key forever. See
+ * state-journal.ts for the rules.
  */
 
 import { getDb } from "../db";
-import { queuedTasks, agentJobs } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import {
+  stateEntries,
+  stateHistory,
+  stateLocks,
+  stateSessions,
+  stateTransactions,
+  type StateEntryRow,
+  type StateHistoryEntry,
+  type StateLock,
+  type StateSession,
+  type StateTransactionRow,
+} from "@shared/schema";
+import { and, count, desc, eq, gt, inArray, isNotNull, lte } from "drizzle-orm";
+import {
+  DEFAULT_LOCK_TTL_SECONDS,
+  canTakeLock,
+  collapseOperations,
+  entryExpiresAt,
+  isExpired,
+} from "./state-journal";
 
 // =============================================================================
 // TYPES
@@ -31,6 +56,7 @@ export interface StateEntry {
   value: unknown;
   type: "shared" | "private" | "temporary";
   ttl?: number; // Time to live in seconds
+  expiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   metadata?: Record<string, unknown>;
@@ -41,8 +67,11 @@ export interface StateEntry {
  */
 export interface SessionState {
   sessionId: string;
+  kind: string;
+  status: string;
   userId?: string;
   chatId?: string;
+  metadata?: Record<string, unknown>;
   entries: Map<string, StateEntry>;
   locks: Map<string, string>; // key -> agentId that holds the lock
   createdAt: Date;
@@ -61,12 +90,53 @@ export interface StateUpdate {
 }
 
 /**
- * State transaction
+ * State transaction, as journalled
  */
 export interface StateTransaction {
+  id: string;
   sessionId: string;
+  status: "open" | "committed" | "rolled_back" | "abandoned";
   operations: StateUpdate[];
-  rollbackData?: Map<string, StateEntry>;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Session options
+ */
+export interface SessionOptions {
+  kind?: string;
+  userId?: string;
+  chatId?: string;
+  metadata?: Record<string, unknown>;
+  initialState?: Record<string, unknown>;
+}
+
+// drizzle's better-sqlite3 transaction handle
+type Tx = any;
+
+function toEntry(row: StateEntryRow): StateEntry {
+  return {
+    key: row.key,
+    value: row.value,
+    type: row.type as StateEntry["type"],
+    ttl: row.ttl ?? undefined,
+    expiresAt: row.expiresAt ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    metadata: row.metadata ?? undefined,
+  };
+}
+
+function toTransaction(row: StateTransactionRow): StateTransaction {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    status: row.status as StateTransaction["status"],
+    operations: row.operations as unknown as StateUpdate[],
+    createdAt: row.createdAt,
+    finishedAt: row.finishedAt ?? undefined,
+  };
 }
 
 // =============================================================================
@@ -74,17 +144,27 @@ export interface StateTransaction {
 // =============================================================================
 
 class StateManagerService {
-  private sessions: Map<string, SessionState> = new Map();
-  private transactions: Map<string, StateTransaction> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   /**
-   * Initialize the state manager
+   * Initialize the state manager: settle what a restart left behind and
+   * start the periodic cleanup
    */
-  initialize(): void {
+  async initialize(): Promise<void> {
+    if (this.cleanupInterval) return;
+
+    const abandoned: StateTransactionRow[] = await getDb().update(stateTransactions)
+      .set({ status: "abandoned", finishedAt: new Date() })
+      .where(eq(stateTransactions.status, "open"))
+      .returning();
+    if (abandoned.length > 0) {
+      console.log(`[StateManager] Abandoned ${abandoned.length} transactions left open by a restart`);
+    }
+    await this.cleanupExpiredState();
+
     // Start periodic cleanup of expired state
     this.cleanupInterval = setInterval(() => {
-      this.cleanupExpiredState();
+      void this.cleanupExpiredState();
     }, 60000); // Run every minute
 
     console.log("[StateManager] Initialized");
@@ -103,90 +183,118 @@ class StateManagerService {
   }
 
   /**
-   * Create a new session
+   * Create a session, or reopen an existing one with the same id
    */
-  createSession(
-    sessionId: string,
-    options: {
-      userId?: string;
-      chatId?: string;
-      initialState?: Record<string, unknown>;
-    } = {}
-  ): SessionState {
-    const session: SessionState = {
-      sessionId,
-      userId: options.userId,
-      chatId: options.chatId,
-      entries: new Map(),
-      locks: new Map(),
-      createdAt: new Date(),
-      lastAccessedAt: new Date(),
+  async createSession(sessionId: string, options: SessionOptions = {}): Promise<SessionState> {
+    const now = new Date();
+    const values = {
+      kind: options.kind ?? "general",
+      status: "active",
+      userId: options.userId ?? null,
+      chatId: options.chatId ?? null,
+      metadata: options.metadata ?? null,
+      lastAccessedAt: now,
+      closedAt: null,
     };
+    await getDb().insert(stateSessions)
+      .values({ id: sessionId, ...values, createdAt: now })
+      .onConflictDoUpdate({ target: stateSessions.id, set: values });
 
     // Add initial state if provided
     if (options.initialState) {
       for (const [key, value] of Object.entries(options.initialState)) {
-        this.setState(sessionId, {
-          key,
-          value,
-          type: "shared",
-        });
+        await this.setState(sessionId, { key, value, type: "shared" });
       }
     }
 
-    this.sessions.set(sessionId, session);
     console.log(`[StateManager] Created session: ${sessionId}`);
-
-    return session;
+    return (await this.getSession(sessionId))!;
   }
 
   /**
    * Get session state
    */
-  getSession(sessionId: string): SessionState | null {
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      session.lastAccessedAt = new Date();
-    }
-    return session || null;
+  async getSession(sessionId: string): Promise<SessionState | null> {
+    const [session]: StateSession[] = await getDb().update(stateSessions)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(stateSessions.id, sessionId))
+      .returning();
+    if (!session) return null;
+
+    const entries = await this.getEntries(sessionId);
+    const locks = await this.getLocks(sessionId);
+    return {
+      sessionId,
+      kind: session.kind,
+      status: session.status,
+      userId: session.userId ?? undefined,
+      chatId: session.chatId ?? undefined,
+      metadata: session.metadata ?? undefined,
+      entries: new Map(entries.map(entry => [entry.key, entry])),
+      locks: new Map(locks.map(lock => [lock.key, lock.holder])),
+      createdAt: session.createdAt,
+      lastAccessedAt: session.lastAccessedAt,
+    };
+  }
+
+  /**
+   * List sessions, most recently used first
+   */
+  async listSessions(filter: { kind?: string; status?: string; limit?: number } = {}): Promise<StateSession[]> {
+    const conditions = [];
+    if (filter.kind) conditions.push(eq(stateSessions.kind, filter.kind));
+    if (filter.status) conditions.push(eq(stateSessions.status, filter.status));
+    return getDb().select()
+      .from(stateSessions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stateSessions.lastAccessedAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  /**
+   * Merge into a session's metadata
+   */
+  async updateSessionMetadata(sessionId: string, updates: Record<string, unknown>): Promise<void> {
+    const [session]: StateSession[] = await getDb().select().from(stateSessions).where(eq(stateSessions.id, sessionId));
+    if (!session) return;
+    await getDb().update(stateSessions)
+      .set({ metadata: { ...session.metadata, ...updates }, lastAccessedAt: new Date() })
+      .where(eq(stateSessions.id, sessionId));
+  }
+
+  /**
+   * Mark a session finished; its state is kept for inspection until deleted
+   */
+  async closeSession(sessionId: string, status: "completed" | "failed" | "cancelled"): Promise<void> {
+    await getDb().update(stateSessions)
+      .set({ status, closedAt: new Date() })
+      .where(eq(stateSessions.id, sessionId));
+    console.log(`[StateManager] Closed session ${sessionId}: ${status}`);
   }
 
   /**
    * Delete a session
    */
-  deleteSession(sessionId: string): boolean {
-    const deleted = this.sessions.delete(sessionId);
-    if (deleted) {
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const deleted: StateSession[] = await getDb().delete(stateSessions)
+      .where(eq(stateSessions.id, sessionId))
+      .returning();
+    if (deleted.length > 0) {
       console.log(`[StateManager] Deleted session: ${sessionId}`);
     }
-    return deleted;
+    return deleted.length > 0;
   }
 
   /**
    * Set state value
    */
-  setState(sessionId: string, update: StateUpdate): void {
-    let session = this.sessions.get(sessionId);
-    
-    // Auto-create session if it doesn't exist
-    if (!session) {
-      session = this.createSession(sessionId);
-    }
-
+  async setState(sessionId: string, update: StateUpdate, actor?: string): Promise<void> {
     const now = new Date();
-    const entry: StateEntry = {
-      key: update.key,
-      value: update.value,
-      type: update.type || "shared",
-      ttl: update.ttl,
-      createdAt:
-        session.entries.get(update.key)?.createdAt || now,
-      updatedAt: now,
-      metadata: update.metadata,
-    };
-
-    session.entries.set(update.key, entry);
-    session.lastAccessedAt = now;
+    getDb().transaction((tx: Tx) => {
+      // Auto-create session if it doesn't exist
+      this.ensureSession(tx, sessionId, now);
+      this.writeEntry(tx, sessionId, update, now, { actor });
+    });
 
     console.log(
       `[StateManager] Set state ${update.key} in session ${sessionId}`
@@ -196,66 +304,63 @@ class StateManagerService {
   /**
    * Get state value
    */
-  getState(sessionId: string, key: string): unknown | null {
-    const session = this.sessions.get(sessionId);
-    if (!session) return null;
-
-    session.lastAccessedAt = new Date();
-    const entry = session.entries.get(key);
-
-    if (!entry) return null;
-
-    // Check if entry has expired
-    if (entry.ttl) {
-      const expiresAt = new Date(
-        entry.createdAt.getTime() + entry.ttl * 1000
-      );
-      if (new Date() > expiresAt) {
-        // Entry expired, remove it
-        session.entries.delete(key);
-        return null;
-      }
+  async getState(sessionId: string, key: string): Promise<unknown | null> {
+    const [row]: StateEntryRow[] = await getDb().select()
+      .from(stateEntries)
+      .where(and(eq(stateEntries.sessionId, sessionId), eq(stateEntries.key, key)));
+    if (!row) return null;
+
+    if (isExpired(row.expiresAt, new Date())) {
+      await this.expireEntries([row]);
+      return null;
     }
 
-    return entry.value;
+    return row.value;
   }
 
   /**
-   * Get all state entries
+   * Get all state values
    */
-  getAllState(sessionId: string): Record<string, unknown> {
-    const session = this.sessions.get(sessionId);
-    if (!session) return {};
-
-    session.lastAccessedAt = new Date();
+  async getAllState(sessionId: string): Promise<Record<string, unknown>> {
     const state: Record<string, unknown> = {};
+    for (const entry of await this.getEntries(sessionId)) {
+      state[entry.key] = entry.value;
+    }
+    return state;
+  }
 
-    for (const [key, entry] of Array.from(session.entries)) {
-      // Check expiration
-      if (entry.ttl) {
-        const expiresAt = new Date(
-          entry.createdAt.getTime() + entry.ttl * 1000
-        );
-        if (new Date() > expiresAt) {
-          session.entries.delete(key);
-          continue;
-        }
-      }
+  /**
+   * Get all live entries of a session, with their type and timestamps
+   */
+  async getEntries(sessionId: string): Promise<StateEntry[]> {
+    const rows: StateEntryRow[] = await getDb().select()
+      .from(stateEntries)
+      .where(eq(stateEntries.sessionId, sessionId))
+      .orderBy(stateEntries.key);
 
-      state[key] = entry.value;
+    const now = new Date();
+    const expired = rows.filter(row => isExpired(row.expiresAt, now));
+    if (expired.length > 0) {
+      await this.expireEntries(expired);
     }
-
-    return state;
+    return rows.filter(row => !expired.includes(row)).map(toEntry);
   }
 
   /**
    * Delete state value
    */
-  deleteState(sessionId: string, key: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
+  async deleteState(sessionId: string, key: string, actor?: string): Promise<boolean> {
+    const deleted = getDb().transaction((tx: Tx) => {
+      const rows: StateEntryRow[] = tx.delete(stateEntries)
+        .where(and(eq(stateEntries.sessionId, sessionId), eq(stateEntries.key, key)))
+        .returning()
+        .all();
+      if (rows.length > 0) {
+        tx.insert(stateHistory).values({ sessionId, key, action: "delete", actor: actor ?? null }).run();
+      }
+      return rows.length > 0;
+    });
 
-    const deleted = session.entries.delete(key);
     if (deleted) {
       console.log(
         `[StateManager] Deleted state ${key} from session ${sessionId}`
@@ -268,18 +373,17 @@ class StateManagerService {
   /**
    * Begin a state transaction
    */
-  beginTransaction(sessionId: string): string {
+  async beginTransaction(sessionId: string): Promise<string> {
     const transactionId = `tx-${Date.now()}-${Math.random()
       .toString(36)
       .substring(2, 9)}`;
 
-    const transaction: StateTransaction = {
-      sessionId,
-      operations: [],
-      rollbackData: new Map(),
-    };
+    const now = new Date();
+    getDb().transaction((tx: Tx) => {
+      this.ensureSession(tx, sessionId, now);
+      tx.insert(stateTransactions).values({ id: transactionId, sessionId, operations: [] }).run();
+    });
 
-    this.transactions.set(transactionId, transaction);
     console.log(
       `[StateManager] Started transaction ${transactionId} for session ${sessionId}`
     );
@@ -290,176 +394,285 @@ class StateManagerService {
   /**
    * Add operation to transaction
    */
-  addToTransaction(transactionId: string, update: StateUpdate): void {
-    const transaction = this.transactions.get(transactionId);
-    if (!transaction) {
-      throw new Error(`Transaction ${transactionId} not found`);
-    }
-
-    // Save current value for rollback
-    const session = this.sessions.get(transaction.sessionId);
-    if (session && !transaction.rollbackData?.has(update.key)) {
-      const currentEntry = session.entries.get(update.key);
-      if (currentEntry) {
-        transaction.rollbackData?.set(update.key, currentEntry);
-      }
-    }
-
-    transaction.operations.push(update);
+  async addToTransaction(transactionId: string, update: StateUpdate): Promise<void> {
+    getDb().transaction((tx: Tx) => {
+      const transaction = this.openTransaction(tx, transactionId);
+      tx.update(stateTransactions)
+        .set({ operations: [...transaction.operations, update] })
+        .where(eq(stateTransactions.id, transactionId))
+        .run();
+    });
   }
 
   /**
-   * Commit transaction
+   * Commit transaction: every operation is applied, or none is
    */
-  commitTransaction(transactionId: string): void {
-    const transaction = this.transactions.get(transactionId);
-    if (!transaction) {
-      throw new Error(`Transaction ${transactionId} not found`);
-    }
-
-    // Apply all operations
-    for (const operation of transaction.operations) {
-      this.setState(transaction.sessionId, operation);
-    }
+  async commitTransaction(transactionId: string): Promise<void> {
+    const now = new Date();
+    const applied = getDb().transaction((tx: Tx) => {
+      const transaction = this.openTransaction(tx, transactionId);
+      const operations = collapseOperations(transaction.operations as unknown as StateUpdate[]);
+      for (const operation of operations) {
+        this.writeEntry(tx, transaction.sessionId, operation, now, { transactionId });
+      }
+      tx.update(stateTransactions)
+        .set({ status: "committed", finishedAt: now })
+        .where(eq(stateTransactions.id, transactionId))
+        .run();
+      return transaction.operations.length;
+    });
 
-    this.transactions.delete(transactionId);
     console.log(
-      `[StateManager] Committed transaction ${transactionId} with ${transaction.operations.length} operations`
+      `[StateManager] Committed transaction ${transactionId} with ${applied} operations`
     );
   }
 
   /**
-   * Rollback transaction
+   * Rollback transaction. Nothing was applied yet, so this only closes the
+   * journal.
    */
-  rollbackTransaction(transactionId: string): void {
-    const transaction = this.transactions.get(transactionId);
-    if (!transaction) {
-      throw new Error(`Transaction ${transactionId} not found`);
-    }
+  async rollbackTransaction(transactionId: string): Promise<void> {
+    getDb().transaction((tx: Tx) => {
+      this.openTransaction(tx, transactionId);
+      tx.update(stateTransactions)
+        .set({ status: "rolled_back", finishedAt: new Date() })
+        .where(eq(stateTransactions.id, transactionId))
+        .run();
+    });
 
-    // Restore original values
-    const session = this.sessions.get(transaction.sessionId);
-    if (session && transaction.rollbackData) {
-      for (const [key, entry] of Array.from(transaction.rollbackData)) {
-        session.entries.set(key, entry);
-      }
-    }
-
-    this.transactions.delete(transactionId);
     console.log(`[StateManager] Rolled back transaction ${transactionId}`);
   }
 
   /**
-   * Lock a state key for exclusive access
+   * Journalled transactions of a session, newest first
+   */
+  async getTransactions(sessionId: string, limit = 50): Promise<StateTransaction[]> {
+    const rows: StateTransactionRow[] = await getDb().select()
+      .from(stateTransactions)
+      .where(eq(stateTransactions.sessionId, sessionId))
+      .orderBy(desc(stateTransactions.createdAt))
+      .limit(limit);
+    return rows.map(toTransaction);
+  }
+
+  /**
+   * Lock a state key for exclusive access. The lock lapses after ttlSeconds
+   * unless its holder takes it again, which renews it.
    */
-  lock(sessionId: string, key: string, agentId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
+  async lock(sessionId: string, key: string, agentId: string, ttlSeconds = DEFAULT_LOCK_TTL_SECONDS): Promise<boolean> {
+    const now = new Date();
+    const locked = getDb().transaction((tx: Tx) => {
+      const session = tx.select().from(stateSessions).where(eq(stateSessions.id, sessionId)).get();
+      if (!session) return false;
+
+      const current: StateLock | undefined = tx.select()
+        .from(stateLocks)
+        .where(and(eq(stateLocks.sessionId, sessionId), eq(stateLocks.key, key)))
+        .get();
+      if (!canTakeLock(current, agentId, now)) return false;
+
+      const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+      tx.insert(stateLocks)
+        .values({ sessionId, key, holder: agentId, acquiredAt: now, expiresAt })
+        .onConflictDoUpdate({
+          target: [stateLocks.sessionId, stateLocks.key],
+          set: { holder: agentId, acquiredAt: current?.holder === agentId ? current.acquiredAt : now, expiresAt },
+        })
+        .run();
+      if (current?.holder !== agentId) {
+        tx.insert(stateHistory).values({ sessionId, key, action: "lock", value: agentId, actor: agentId }).run();
+      }
+      return true;
+    });
 
-    // Check if already locked
-    if (session.locks.has(key)) {
-      return false;
+    if (locked) {
+      console.log(
+        `[StateManager] Locked ${key} in session ${sessionId} by agent ${agentId}`
+      );
     }
 
-    session.locks.set(key, agentId);
-    console.log(
-      `[StateManager] Locked ${key} in session ${sessionId} by agent ${agentId}`
-    );
-
-    return true;
+    return locked;
   }
 
   /**
    * Release a lock
    */
-  unlock(sessionId: string, key: string, agentId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
+  async unlock(sessionId: string, key: string, agentId: string): Promise<boolean> {
+    const unlocked = getDb().transaction((tx: Tx) => {
+      // Can't unlock if you don't hold the lock
+      const rows: StateLock[] = tx.delete(stateLocks)
+        .where(and(eq(stateLocks.sessionId, sessionId), eq(stateLocks.key, key), eq(stateLocks.holder, agentId)))
+        .returning()
+        .all();
+      if (rows.length > 0) {
+        tx.insert(stateHistory).values({ sessionId, key, action: "unlock", value: agentId, actor: agentId }).run();
+      }
+      return rows.length > 0;
+    });
 
-    const lockHolder = session.locks.get(key);
-    if (lockHolder !== agentId) {
-      return false; // Can't unlock if you don't hold the lock
+    if (unlocked) {
+      console.log(
+        `[StateManager] Unlocked ${key} in session ${sessionId} by agent ${agentId}`
+      );
     }
 
-    session.locks.delete(key);
-    console.log(
-      `[StateManager] Unlocked ${key} in session ${sessionId} by agent ${agentId}`
-    );
-
-    return true;
+    return unlocked;
   }
 
   /**
    * Check if a key is locked
    */
-  isLocked(sessionId: string, key: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
-
-    return session.locks.has(key);
+  async isLocked(sessionId: string, key: string): Promise<boolean> {
+    return (await this.getLockHolder(sessionId, key)) !== null;
   }
 
   /**
    * Get lock holder
    */
-  getLockHolder(sessionId: string, key: string): string | null {
-    const session = this.sessions.get(sessionId);
-    if (!session) return null;
+  async getLockHolder(sessionId: string, key: string): Promise<string | null> {
+    const [lock]: StateLock[] = await getDb().select()
+      .from(stateLocks)
+      .where(and(eq(stateLocks.sessionId, sessionId), eq(stateLocks.key, key), gt(stateLocks.expiresAt, new Date())));
+    return lock?.holder ?? null;
+  }
 
-    return session.locks.get(key) || null;
+  /**
+   * Locks currently held in a session
+   */
+  async getLocks(sessionId: string): Promise<StateLock[]> {
+    return getDb().select()
+      .from(stateLocks)
+      .where(and(eq(stateLocks.sessionId, sessionId), gt(stateLocks.expiresAt, new Date())))
+      .orderBy(stateLocks.key);
   }
 
   /**
-   * Cleanup expired state entries
+   * Changes to a session's entries and locks, newest first
    */
-  private cleanupExpiredState(): void {
-    let expiredCount = 0;
-
-    for (const [sessionId, session] of Array.from(this.sessions)) {
-      for (const [key, entry] of Array.from(session.entries)) {
-        if (entry.ttl) {
-          const expiresAt = new Date(
-            entry.createdAt.getTime() + entry.ttl * 1000
-          );
-          if (new Date() > expiresAt) {
-            session.entries.delete(key);
-            expiredCount++;
-          }
-        }
+  async getHistory(sessionId: string, limit = 200): Promise<StateHistoryEntry[]> {
+    return getDb().select()
+      .from(stateHistory)
+      .where(eq(stateHistory.sessionId, sessionId))
+      .orderBy(desc(stateHistory.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Cleanup expired state entries and locks
+   */
+  private async cleanupExpiredState(): Promise<void> {
+    try {
+      const now = new Date();
+      const expired: StateEntryRow[] = await getDb().select()
+        .from(stateEntries)
+        .where(and(isNotNull(stateEntries.expiresAt), lte(stateEntries.expiresAt, now)));
+      if (expired.length > 0) {
+        await this.expireEntries(expired);
+        console.log(
+          `[StateManager] Cleaned up ${expired.length} expired state entries`
+        );
       }
-    }
 
-    if (expiredCount > 0) {
-      console.log(
-        `[StateManager] Cleaned up ${expiredCount} expired state entries`
-      );
+      await getDb().delete(stateLocks).where(lte(stateLocks.expiresAt, now));
+    } catch (error) {
+      console.error("[StateManager] Cleanup error:", error);
     }
   }
 
   /**
    * Get statistics
    */
-  getStatistics(): {
+  async getStatistics(): Promise<{
     activeSessions: number;
     totalStateEntries: number;
     totalLocks: number;
     activeTransactions: number;
-  } {
-    let totalStateEntries = 0;
-    let totalLocks = 0;
-
-    for (const session of Array.from(this.sessions.values())) {
-      totalStateEntries += session.entries.size;
-      totalLocks += session.locks.size;
-    }
+  }> {
+    const [[sessions], [entries], [locks], [transactions]] = await Promise.all([
+      getDb().select({ value: count() }).from(stateSessions).where(eq(stateSessions.status, "active")),
+      getDb().select({ value: count() }).from(stateEntries),
+      getDb().select({ value: count() }).from(stateLocks).where(gt(stateLocks.expiresAt, new Date())),
+      getDb().select({ value: count() }).from(stateTransactions).where(eq(stateTransactions.status, "open")),
+    ]);
 
     return {
-      activeSessions: this.sessions.size,
-      totalStateEntries,
-      totalLocks,
-      activeTransactions: this.transactions.size,
+      activeSessions: sessions.value,
+      totalStateEntries: entries.value,
+      totalLocks: locks.value,
+      activeTransactions: transactions.value,
     };
   }
+
+  private ensureSession(tx: Tx, sessionId: string, now: Date): void {
+    tx.insert(stateSessions)
+      .values({ id: sessionId, createdAt: now, lastAccessedAt: now })
+      .onConflictDoUpdate({ target: stateSessions.id, set: { lastAccessedAt: now } })
+      .run();
+  }
+
+  /** Upsert one entry and record it; the entry keeps its first createdAt */
+  private writeEntry(
+    tx: Tx,
+    sessionId: string,
+    update: StateUpdate,
+    now: Date,
+    source: { actor?: string; transactionId?: string },
+  ): void {
+    const current: StateEntryRow | undefined = tx.select()
+      .from(stateEntries)
+      .where(and(eq(stateEntries.sessionId, sessionId), eq(stateEntries.key, update.key)))
+      .get();
+    const createdAt = current && !isExpired(current.expiresAt, now) ? current.createdAt : now;
+
+    const values = {
+      value: update.value ?? null,
+      type: update.type || "shared",
+      ttl: update.ttl ?? null,
+      expiresAt: entryExpiresAt(createdAt, update.ttl),
+      metadata: update.metadata ?? null,
+      createdAt,
+      updatedAt: now,
+    };
+    tx.insert(stateEntries)
+      .values({ sessionId, key: update.key, ...values })
+      .onConflictDoUpdate({ target: [stateEntries.sessionId, stateEntries.key], set: values })
+      .run();
+    tx.insert(stateHistory).values({
+      sessionId,
+      key: update.key,
+      action: "set",
+      value: update.value ?? null,
+      actor: source.actor ?? null,
+      transactionId: source.transactionId ?? null,
+    }).run();
+  }
+
+  /** The journal row of a transaction that can still take operations */
+  private openTransaction(tx: Tx, transactionId: string): StateTransactionRow {
+    const transaction: StateTransactionRow | undefined = tx.select()
+      .from(stateTransactions)
+      .where(eq(stateTransactions.id, transactionId))
+      .get();
+    if (!transaction) {
+      throw new Error(`Transaction ${transactionId} not found`);
+    }
+    if (transaction.status !== "open") {
+      throw new Error(`Transaction ${transactionId} is ${transaction.status.replace("_", " ")}`);
+    }
+    return transaction;
+  }
+
+  private async expireEntries(rows: StateEntryRow[]): Promise<void> {
+    getDb().transaction((tx: Tx) => {
+      const deleted: StateEntryRow[] = tx.delete(stateEntries)
+        .where(and(inArray(stateEntries.id, rows.map(row => row.id)), lte(stateEntries.expiresAt, new Date())))
+        .returning()
+        .all();
+      for (const row of deleted) {
+        tx.insert(stateHistory).values({ sessionId: row.sessionId, key: row.key, action: "expire" }).run();
+      }
+    });
+  }
 }
 
 // =============================================================================
@@ -468,6 +681,3 @@ class StateManagerService {
 
 export const stateManager = new StateManagerService();
 export default stateManager;
-
-
-
@@ -6,18 +6,15 @@
  * analysis which feeds self-improvement suggestions.
  *
  * PIPELINE:
- *   Raw conversations/feedback → Summarize (Gemini Flash) → Store in DB
+ *   Raw conversations/feedback → Summarize (LLM service "summarization",
+ *   Gemini Flash by default) → Store in DB
  *   → Pattern analysis → Evolution suggestions (Evolution Engine)
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { storage } from "../storage";
+import { llm } from "./llm";
 import { type Feedback } from "@shared/schema";
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-
-const MODEL = "gemini-2.0-flash";
-
 export interface ConversationSummary {
   chatId: string;
   summary: string;
@@ -66,11 +63,10 @@ Conversation:
 ${conversationText}`;
 
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL,
-      contents: prompt,
-      config: { responseMimeType: "application/json" },
-    });
+    const result = await llm.generate("summarization", {
+      messages: [{ role: "user", content: prompt }],
+      json: true,
+    }, { chatId });
 
     const text = result.text || "{}";
     const parsed = JSON.parse(text) as {
@@ -88,7 +84,7 @@ ${conversationText}`;
       summary: parsed.summary || "Summary unavailable",
       keyTopics: Array.isArray(parsed.keyTopics) ? parsed.keyTopics : [],
       sentiment,
-      modelUsed: MODEL,
+      modelUsed: result.model,
     };
 
     await storage.createConversationSummary(summaryData);
@@ -145,10 +141,9 @@ Feedback entries:
 ${feedbackText}`;
 
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL,
-      contents: prompt,
-      config: { responseMimeType: "application/json" },
+    const result = await llm.generate("summarization", {
+      messages: [{ role: "user", content: prompt }],
+      json: true,
     });
 
     const text = result.text || "{}";
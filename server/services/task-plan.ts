@@ -0,0 +1,298 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TASK PLANS
+ * =============================================================================
+ *
+ * Schema, validation and prompts behind the orchestrator's planning:
+ *
+ *   plan job (JSON mode) ──► parse ──► zod schema ──► graph + agent checks
+ *        ▲                                                 │ issues
+ *        └──────────── repair job (output + issues) ◄──────┘
+ *
+ * When a step fails during execution, the step and everything depending
+ * on it (its subtree) is handed back to the planner, and the replacement
+ * steps it returns are merged into the plan in place of the subtree.
+ *
+ * Graph checks are passed in (the orchestrator uses dependencyResolver), so
+ * nothing here touches the database.
+ */
+
+import { z } from "zod";
+import type { GraphValidation } from "@shared/dag";
+
+export const AGENT_TYPES = ["planner", "executor", "researcher", "coder", "reviewer", "specialist"] as const;
+export type AgentType = (typeof AGENT_TYPES)[number];
+
+/** Repair prompts sent before a plan is given up on */
+export const MAX_PLAN_REPAIRS = 2;
+
+/** Times an orchestration may replace failed steps before it fails */
+export const MAX_REPLANS = 2;
+
+/** Characters of a step's output shown to the planner when replanning */
+const OUTPUT_PREVIEW_LENGTH = 300;
+
+export const taskStepSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  agentType: z.enum(AGENT_TYPES),
+  requiredCapabilities: z.array(z.string()).default([]),
+  dependencies: z.array(z.string()).default([]),
+  input: z.record(z.unknown()).optional(),
+  priority: z.number().int().min(0).max(10).default(5),
+  estimatedDuration: z.number().nonnegative().optional(),
+});
+
+export const taskPlanSchema = z.object({
+  goal: z.string(),
+  steps: z.array(taskStepSchema).min(1),
+  estimatedDuration: z.number().nonnegative().optional(),
+  parallelizable: z.boolean().default(true),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+/** What the planner returns when replacing a failed subtree */
+export const replacementStepsSchema = z.object({
+  steps: z.array(taskStepSchema).min(1),
+});
+
+export type TaskStep = z.infer<typeof taskStepSchema>;
+export type TaskPlan = z.infer<typeof taskPlanSchema>;
+
+/** The parts of an agent definition planning needs */
+export interface PlanningAgent {
+  type: string;
+  status: string;
+  capabilities: Array<{ name: string; description: string }>;
+}
+
+export interface PlanValidationOptions {
+  agents: PlanningAgent[];
+  checkGraph: (steps: TaskStep[]) => GraphValidation;
+}
+
+export type PlanValidation<T> = { value: T; issues: [] } | { value?: undefined; issues: string[] };
+
+/**
+ * JSON mode still comes back as text, sometimes inside a code fence
+ */
+export function parseJsonOutput(output: unknown): { value?: unknown; error?: string } {
+  if (typeof output !== "string") {
+    return output === null || output === undefined ? { error: "The reply was empty" } : { value: output };
+  }
+  const text = output.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `The reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+function schemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Steps no registered agent could take: nobody of that type is online with
+ * every capability the step requires
+ */
+export function assignmentIssues(steps: TaskStep[], agents: PlanningAgent[]): string[] {
+  return steps.flatMap(step => {
+    const canTake = agents.some(agent =>
+      agent.type === step.agentType &&
+      agent.status !== "offline" &&
+      step.requiredCapabilities.every(name => agent.capabilities.some(capability => capability.name === name))
+    );
+    return canTake
+      ? []
+      : [`${step.id}: no ${step.agentType} agent has the capabilities ${JSON.stringify(step.requiredCapabilities)}`];
+  });
+}
+
+export function graphIssues(graph: GraphValidation): string[] {
+  return [
+    ...graph.duplicateIds.map(id => `${id}: step id is used more than once`),
+    ...graph.unknownDependencies.map(({ id, dependency }) => `${id}: depends on unknown step "${dependency}"`),
+    ...graph.cycles.map(cycle => `dependency cycle: ${cycle.join(" -> ")}`),
+  ];
+}
+
+function checkSteps(steps: TaskStep[], options: PlanValidationOptions): string[] {
+  return [...graphIssues(options.checkGraph(steps)), ...assignmentIssues(steps, options.agents)];
+}
+
+/**
+ * Turn a planning job's output into a plan, or the list of what is wrong
+ * with it
+ */
+export function validatePlanOutput(
+  output: unknown,
+  goal: string,
+  options: PlanValidationOptions
+): PlanValidation<TaskPlan> {
+  const json = parseJsonOutput(output);
+  if (json.error) return { issues: [json.error] };
+
+  const parsed = taskPlanSchema.safeParse({ ...(json.value as object), goal });
+  if (!parsed.success) return { issues: schemaIssues(parsed.error) };
+
+  const issues = checkSteps(parsed.data.steps, options);
+  return issues.length > 0 ? { issues } : { value: parsed.data, issues: [] };
+}
+
+/**
+ * Validate replacement steps as part of the plan they will join: they may
+ * depend on kept steps but not on the ones they replace
+ */
+export function validateReplacementOutput(
+  output: unknown,
+  plan: TaskPlan,
+  replacedIds: string[],
+  options: PlanValidationOptions
+): PlanValidation<TaskPlan> {
+  const json = parseJsonOutput(output);
+  if (json.error) return { issues: [json.error] };
+
+  const parsed = replacementStepsSchema.safeParse(json.value);
+  if (!parsed.success) return { issues: schemaIssues(parsed.error) };
+
+  const merged = replaceSteps(plan, replacedIds, parsed.data.steps);
+  const issues = [
+    ...parsed.data.steps
+      .filter(step => replacedIds.includes(step.id))
+      .map(step => `${step.id}: reuses the id of a replaced step; choose a new id`),
+    ...checkSteps(merged.steps, options),
+  ];
+  return issues.length > 0 ? { issues } : { value: merged, issues: [] };
+}
+
+/**
+ * The failed steps and every step that depends on them, directly or not,
+ * in plan order
+ */
+export function failedSubtree(steps: TaskStep[], failedIds: string[]): string[] {
+  const removed = new Set(failedIds);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of steps) {
+      if (!removed.has(step.id) && step.dependencies.some(dependency => removed.has(dependency))) {
+        removed.add(step.id);
+        grew = true;
+      }
+    }
+  }
+  return steps.filter(step => removed.has(step.id)).map(step => step.id);
+}
+
+export function replaceSteps(plan: TaskPlan, replacedIds: string[], replacements: TaskStep[]): TaskPlan {
+  return {
+    ...plan,
+    steps: [...plan.steps.filter(step => !replacedIds.includes(step.id)), ...replacements],
+  };
+}
+
+// =============================================================================
+// PROMPTS
+// =============================================================================
+
+const STEP_SHAPE = `{
+  "id": "step-1",
+  "title": "...",
+  "description": "What the agent must do, self-contained",
+  "agentType": "${AGENT_TYPES.join("|")}",
+  "requiredCapabilities": ["capability names from the agent list"],
+  "dependencies": ["ids of steps that must finish first"],
+  "priority": 5,
+  "estimatedDuration": 60
+}`;
+
+function describeAgents(agents: PlanningAgent[]): string {
+  return agents
+    .filter(agent => agent.status !== "offline")
+    .map(agent => `- ${agent.type}: ${agent.capabilities.map(capability => `${capability.name} (${capability.description})`).join(", ")}`)
+    .join("\n");
+}
+
+export function buildPlanningPrompt(goal: string, context: Record<string, unknown>, agents: PlanningAgent[]): string {
+  return `Create a detailed task plan to achieve the following goal:
+
+Goal: ${goal}
+
+Context: ${JSON.stringify(context, null, 2)}
+
+Available agents and their capabilities:
+${describeAgents(agents)}
+
+Break this down into specific, actionable steps. Assign each step to an agent type from the list and only require capabilities that agent has. Dependencies must name ids of other steps in this plan and must not form a cycle.
+
+Return only a JSON object with this structure:
+{
+  "steps": [
+    ${STEP_SHAPE.replace(/\n/g, "\n    ")}
+  ],
+  "parallelizable": true,
+  "estimatedDuration": 300
+}`;
+}
+
+export function buildRepairPrompt(previousOutput: unknown, issues: string[]): string {
+  const previous = typeof previousOutput === "string" ? previousOutput : JSON.stringify(previousOutput, null, 2);
+  return `Your previous reply could not be used:
+
+${previous}
+
+Problems found:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Return the corrected JSON object only, with the same structure, fixing every problem listed.`;
+}
+
+export interface ReplanStepState {
+  step: TaskStep;
+  status: string;
+  output?: unknown;
+  error?: string;
+}
+
+export function buildReplanPrompt(
+  plan: TaskPlan,
+  kept: ReplanStepState[],
+  failed: ReplanStepState[],
+  replacedIds: string[],
+  agents: PlanningAgent[]
+): string {
+  const describe = ({ step, status, output, error }: ReplanStepState) => {
+    const detail = error
+      ? ` — error: ${error}`
+      : output !== undefined && output !== null
+        ? ` — output: ${JSON.stringify(output).slice(0, OUTPUT_PREVIEW_LENGTH)}`
+        : "";
+    return `- ${step.id} [${status}] ${step.title}: ${step.description}${detail}`;
+  };
+
+  return `A step of the plan for this goal failed and must be replaced:
+
+Goal: ${plan.goal}
+
+Steps that stay in the plan:
+${kept.map(describe).join("\n") || "- (none)"}
+
+Failed steps:
+${failed.map(describe).join("\n")}
+
+These steps are being removed and need replacing: ${replacedIds.join(", ")}
+
+Available agents and their capabilities:
+${describeAgents(agents)}
+
+Plan new steps that reach the goal another way, avoiding what caused the failure. New steps need new ids; they may depend on steps that stay in the plan or on each other, but not on removed steps.
+
+Return only a JSON object with this structure:
+{
+  "steps": [
+    ${STEP_SHAPE.replace(/\n/g, "\n    ")}
+  ]
+}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TOOL APPROVALS
+ * =============================================================================
+ *
+ * Holds tool calls that the permission policy marked "ask" until the user
+ * approves or denies them from the chat UI.
+ *
+ * FLOW:
+ * -----
+ * 1. ToolDispatcher calls request(); the turn awaits the returned outcome.
+ * 2. The dispatcher streams a `tool_approval_request` SSE event; the chat
+ *    renders an approve/deny card.
+ * 3. The card POSTs to /api/tool-approvals/:id, which calls decide().
+ * 4. If nobody answers within the timeout the call is treated as denied.
+ *
+ * Pending approvals live in memory only: a server restart abandons the turn
+ * that was waiting on them anyway.
+ */
+
+import { nanoid } from "nanoid";
+
+export type ApprovalOutcome = "approved" | "denied" | "expired";
+
+export interface ToolApprovalRequest {
+  id: string;
+  chatId: string;
+  toolCallId: string;
+  toolType: string;
+  request: Record<string, unknown>;
+  /** Why the policy asked (the matched rule's reason) */
+  reason: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingApproval {
+  approval: ToolApprovalRequest;
+  resolve: (outcome: ApprovalOutcome) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+class ToolApprovalService {
+  private pending = new Map<string, PendingApproval>();
+
+  /**
+   * Register an approval request and return it along with a promise that
+   * settles when the user decides or the request expires.
+   */
+  request(
+    details: Omit<ToolApprovalRequest, "id" | "createdAt" | "expiresAt">,
+    timeoutMs: number = APPROVAL_TIMEOUT_MS
+  ): { approval: ToolApprovalRequest; outcome: Promise<ApprovalOutcome> } {
+    const now = new Date();
+    const approval: ToolApprovalRequest = {
+      ...details,
+      id: nanoid(),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + timeoutMs),
+    };
+
+    const outcome = new Promise<ApprovalOutcome>(resolve => {
+      const timer = setTimeout(() => {
+        this.pending.delete(approval.id);
+        console.log(`⏳ [ToolApprovals] ${approval.toolType} approval ${approval.id} expired`);
+        resolve("expired");
+      }, timeoutMs);
+      this.pending.set(approval.id, { approval, resolve, timer });
+    });
+
+    return { approval, outcome };
+  }
+
+  /**
+   * Record the user's decision. Returns the request, or undefined if it no
+   * longer exists (already decided or expired).
+   */
+  decide(id: string, approved: boolean): ToolApprovalRequest | undefined {
+    const entry = this.pending.get(id);
+    if (!entry) return undefined;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    entry.resolve(approved ? "approved" : "denied");
+    return entry.approval;
+  }
+
+  listPending(chatId?: string): ToolApprovalRequest[] {
+    return Array.from(this.pending.values())
+      .map(entry => entry.approval)
+      .filter(approval => !chatId || approval.chatId === chatId);
+  }
+}
+
+export const toolApprovals = new ToolApprovalService();
@@ -56,15 +56,58 @@ import * as path from "path";
 import * as os from "os";
 import { z } from "zod";
 import { copilotService } from "./copilot-service";
+import { ToolRegistry } from "./tool-registry";
+import { ToolValidationError, type ToolArgumentIssue } from "./tool-schemas";
+import { integrationToolHandlers } from "./integration-tool-handlers";
+import { toolPolicy, ToolPermissionError } from "./tool-policy";
+import { toolApprovals } from "./tool-approvals";
+import { geminiFunctionDeclarations } from "../gemini-tools";
+import { guestToolDeclarations } from "../gemini-tools-guest";
 
 const execAsync = promisify(exec);
 
+/** SSE comment interval that keeps the chat stream alive while awaiting approval */
+const APPROVAL_HEARTBEAT_MS = 15_000;
+
+type ToolParams = Record<string, unknown>;
+
 export class ToolDispatcher {
   private readonly workspaceDir: string;
   private sseResponse?: any;
 
+  readonly registry = new ToolRegistry();
+
   constructor() {
     this.workspaceDir = process.cwd();
+    this.registerCoreTools();
+    this.registry.registerAll(integrationToolHandlers);
+    this.registry.registerSchemas([...geminiFunctionDeclarations, ...guestToolDeclarations]);
+  }
+
+  /**
+   * Tools implemented directly by the dispatcher. Integration-backed tools
+   * live in integration-tool-handlers.ts.
+   */
+  private registerCoreTools() {
+    this.registry.registerAll({
+      web_search: (params) => this.executeWebSearch(params),
+      terminal: (params) => this.executeTerminal(params),
+      file_get: (params) => this.executeFileGet(params),
+      get: (params) => this.executeFileGet(params),
+      file_put: (params) => this.executeFilePut(params),
+      put: (params) => this.executeFilePut(params),
+      db_tables: () => this.executeDbTables(),
+      db_query: (params) => this.executeDbQuery(params),
+      db_insert: (params) => this.executeDbInsert(params),
+      db_delete: (params) => this.executeDbDelete(params),
+      say: (params) => this.executeSay(params),
+      soundboard: (params) => this.executeSoundboard(params),
+      cast: (params) => this.executeCast(params),
+      camera: (params) => this.executeCamera(params),
+      end_turn: () => ({ success: true, shouldEndTurn: true }),
+      write: (params) => this.executeSendChat(params),
+      send_chat: (params) => this.executeSendChat(params),
+    });
   }
   
   setSseResponse(res: any) {
@@ -72,7 +115,7 @@ export class ToolDispatcher {
   }
   
   private emitToolCallEvent(event: {
-    type: 'tool_call_start' | 'tool_call_success' | 'tool_call_failure';
+    type: 'tool_call_start' | 'tool_call_success' | 'tool_call_failure' | 'tool_approval_request' | 'tool_approval_resolved';
     toolCallId: string;
     toolType: string;
     data?: any;
@@ -141,31 +184,55 @@ export class ToolDispatcher {
     };
   }
 
-  async executeToolCall(toolCall: ToolCall, messageId: string, chatId?: string): Promise<ToolExecutionResult> {
+  /**
+   * Execute a tool call from a chat turn. agentId names the panel agent
+   * speaking, when it is not the chat's own agent (see agent-panel.ts).
+   */
+  async executeToolCall(toolCall: ToolCall, messageId: string, chatId?: string, agentId?: string): Promise<ToolExecutionResult> {
+    return this.execute(toolCall, { messageId, chatId, agentId });
+  }
+
+  /**
+   * Execute a tool call an agent worker made while running a job. The call
+   * is logged against the job; nothing is streamed, and tools the policy
+   * would ask about are denied since nobody is watching.
+   */
+  async executeJobToolCall(toolCall: ToolCall, jobId: string): Promise<ToolExecutionResult> {
+    return this.execute(toolCall, { jobId });
+  }
+
+  private async execute(
+    toolCall: ToolCall,
+    { messageId, chatId, jobId, agentId }: { messageId?: string; chatId?: string; jobId?: string; agentId?: string }
+  ): Promise<ToolExecutionResult> {
     const startTime = Date.now();
     let taskId: string | null = null;
     let toolCallLogId: string | null = null;
 
     try {
-      const task = await storage.createToolTask({
-        messageId,
-        taskType: toolCall.type,
-        payload: toolCall,
-        status: "running"
-      });
-      taskId = task.id;
+      if (messageId) {
+        const task = await storage.createToolTask({
+          messageId,
+          taskType: toolCall.type,
+          payload: toolCall,
+          status: "running"
+        });
+        taskId = task.id;
+      }
       
-      if (chatId) {
+      if (chatId || jobId) {
         const toolCallLog = await storage.createToolCallLog({
           chatId,
           messageId,
+          jobId,
           toolCallId: toolCall.id,
           toolType: toolCall.type,
           status: "pending",
           request: toolCall.parameters,
         });
         toolCallLogId = toolCallLog.id;
-        
+      }
+      if (chatId) {
         this.emitToolCallEvent({
           type: 'tool_call_start',
           toolCallId: toolCall.id,
@@ -174,45 +241,28 @@ export class ToolDispatcher {
         });
       }
 
-      let result: unknown;
-
-      switch (toolCall.type as any) {
-        case "web_search": result = await this.executeWebSearch(toolCall); break;
-        case "terminal": result = await this.executeTerminal(toolCall); break;
-        case "file_get": case "get": result = await this.executeFileGet(toolCall); break;
-        case "file_put": case "put": result = await this.executeFilePut(toolCall); break;
-        case "db_tables": result = await this.executeDbTables(toolCall); break;
-        case "db_query": result = await this.executeDbQuery(toolCall); break;
-        case "db_insert": result = await this.executeDbInsert(toolCall); break;
-        case "db_delete": result = await this.executeDbDelete(toolCall); break;
-        case "say": result = await this.executeSay(toolCall); break;
-        case "soundboard": result = this.executeSoundboard(toolCall); break;
-        case "cast": result = await this.executeCast(toolCall); break;
-        case "camera": result = await this.executeCamera(toolCall); break;
-        case "end_turn": result = { success: true, shouldEndTurn: true }; break;
-        case "write": case "send_chat": {
-          const { content } = toolCall.parameters as { content?: string };
-          result = { content: content || "", success: true };
-          break;
-        }
-        default: result = { message: `Tool type: ${toolCall.type} executed (fallback)` };
-      }
+      const handler = this.registry.resolve(toolCall.type);
+      const params = this.registry.validate(toolCall.type, toolCall.parameters);
+      await this.enforcePolicy(toolCall, params, chatId, toolCallLogId);
+      const result = await handler(params, { messageId, chatId, jobId, agentId });
 
       if (taskId) await storage.updateToolTaskStatus(taskId, "completed", result as any);
       
-      if (toolCallLogId && chatId) {
+      if (toolCallLogId) {
         const duration = Date.now() - startTime;
-        await storage.updateToolCallLog(toolCall.id, {
+        await storage.updateToolCallLog(toolCallLogId, {
           status: "success",
           response: result as any,
           completedAt: new Date(),
           duration,
         });
+      }
+      if (chatId) {
         this.emitToolCallEvent({
           type: 'tool_call_success',
           toolCallId: toolCall.id,
           toolType: toolCall.type,
-          data: { id: toolCallLogId, duration },
+          data: { id: toolCallLogId, duration: Date.now() - startTime },
         });
       }
 
@@ -225,19 +275,21 @@ export class ToolDispatcher {
       };
     } catch (error: any) {
       if (taskId) await storage.updateToolTaskStatus(taskId, "failed", undefined, error.message);
-      if (toolCallLogId && chatId) {
+      if (toolCallLogId) {
         const duration = Date.now() - startTime;
-        await storage.updateToolCallLog(toolCall.id, {
-          status: "failure",
+        await storage.updateToolCallLog(toolCallLogId, {
+          status: error instanceof ToolPermissionError ? "denied" : "failure",
           errorMessage: error.message,
           completedAt: new Date(),
           duration,
         });
+      }
+      if (chatId) {
         this.emitToolCallEvent({
           type: 'tool_call_failure',
           toolCallId: toolCall.id,
           toolType: toolCall.type,
-          data: { id: toolCallLogId, error: error.message, duration },
+          data: { id: toolCallLogId, error: error.message, duration: Date.now() - startTime },
         });
       }
       return {
@@ -245,13 +297,103 @@ export class ToolDispatcher {
         type: toolCall.type,
         success: false,
         error: error.message,
+        validationErrors: error instanceof ToolValidationError ? error.issues : undefined,
+        permissionDenied: error instanceof ToolPermissionError || undefined,
         duration: Date.now() - startTime
       };
     }
   }
 
+  /**
+   * Apply the tool permission policy, pausing for user approval on "ask".
+   * Every decision is written to the call's tool_call_logs row.
+   * Throws ToolPermissionError if the call may not run.
+   */
+  private async enforcePolicy(
+    toolCall: ToolCall,
+    params: ToolParams,
+    chatId: string | undefined,
+    toolCallLogId: string | null
+  ): Promise<void> {
+    const evaluation = toolPolicy.evaluate(toolCall.type, params);
+    const record = async (approvalOutcome?: string) => {
+      if (!toolCallLogId) return;
+      await storage.updateToolCallLog(toolCallLogId, {
+        policyDecision: evaluation.decision,
+        policyReason: evaluation.reason,
+        approvalOutcome,
+      });
+    };
+
+    if (evaluation.decision === "allow") {
+      await record();
+      return;
+    }
+    if (evaluation.decision === "deny") {
+      await record();
+      console.log(`❌ [ToolPolicy] Denied ${toolCall.type}: ${evaluation.reason}`);
+      throw new ToolPermissionError(toolCall.type, `Permission denied for ${toolCall.type}: ${evaluation.reason}`);
+    }
+
+    // "ask" needs someone watching the chat stream to answer
+    const sse = this.sseResponse;
+    if (!chatId || !sse) {
+      await record("denied");
+      throw new ToolPermissionError(
+        toolCall.type,
+        `${toolCall.type} requires user approval (${evaluation.reason}) but no chat session is attached`
+      );
+    }
+
+    const { approval, outcome } = toolApprovals.request({
+      chatId,
+      toolCallId: toolCall.id,
+      toolType: toolCall.type,
+      request: params,
+      reason: evaluation.reason,
+    });
+    console.log(`⏳ [ToolPolicy] Awaiting approval for ${toolCall.type} (${approval.id})`);
+    this.emitToolCallEvent({
+      type: 'tool_approval_request',
+      toolCallId: toolCall.id,
+      toolType: toolCall.type,
+      data: approval,
+    });
+
+    const heartbeat = setInterval(() => {
+      try {
+        sse.write(`: awaiting approval ${approval.id}\n\n`);
+      } catch {
+        // Client went away; the approval will expire on its own
+      }
+    }, APPROVAL_HEARTBEAT_MS);
+    let result;
+    try {
+      result = await outcome;
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    await record(result);
+    this.emitToolCallEvent({
+      type: 'tool_approval_resolved',
+      toolCallId: toolCall.id,
+      toolType: toolCall.type,
+      data: { id: approval.id, outcome: result },
+    });
+
+    if (result !== "approved") {
+      throw new ToolPermissionError(
+        toolCall.type,
+        result === "expired"
+          ? `${toolCall.type} was not approved in time`
+          : `The user denied ${toolCall.type}`
+      );
+    }
+  }
+
   // Database tools - SQLite optimized
-  private async executeDbTables(toolCall: ToolCall): Promise<unknown> {
+  private async executeDbTables(): Promise<unknown> {
     try {
       const { rawDb } = await import("../db");
       const tablesList = rawDb.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'").all() as any[];
@@ -266,10 +408,10 @@ export class ToolDispatcher {
     }
   }
 
-  private async executeDbQuery(toolCall: ToolCall): Promise<unknown> {
+  private async executeDbQuery(params: ToolParams): Promise<unknown> {
     try {
       const { rawDb } = await import("../db");
-      const { query } = toolCall.parameters as { query: string };
+      const { query } = params as { query: string };
       if (!query.trim().toUpperCase().startsWith("SELECT")) throw new Error("Only SELECT queries allowed");
       const rows = rawDb.prepare(query).all();
       return { type: "db_query", success: true, rows };
@@ -278,10 +420,10 @@ export class ToolDispatcher {
     }
   }
 
-  private async executeDbInsert(toolCall: ToolCall): Promise<unknown> {
+  private async executeDbInsert(params: ToolParams): Promise<unknown> {
     try {
       const { rawDb } = await import("../db");
-      const { table, data } = toolCall.parameters as { table: string, data: any };
+      const { table, data } = params as { table: string, data: any };
       const cols = Object.keys(data).map(c => `"${c}"`).join(", ");
       const placeholders = Object.keys(data).map(() => "?").join(", ");
       const vals = Object.values(data);
@@ -293,10 +435,10 @@ export class ToolDispatcher {
     }
   }
 
-  private async executeDbDelete(toolCall: ToolCall): Promise<unknown> {
+  private async executeDbDelete(params: ToolParams): Promise<unknown> {
     try {
       const { rawDb } = await import("../db");
-      const { table, where } = toolCall.parameters as { table: string, where: any };
+      const { table, where } = params as { table: string, where: any };
       const conditions = Object.keys(where).map(c => `"${c}" = ?`).join(" AND ");
       const vals = Object.values(where);
       const query = `DELETE FROM "${table}" WHERE ${conditions}`;
@@ -308,34 +450,39 @@ export class ToolDispatcher {
   }
 
   // Placeholder implementations for basic tools
-  private async executeWebSearch(toolCall: ToolCall) { return webSearch(toolCall.parameters as any); }
-  private async executeTerminal(toolCall: ToolCall) {
-    const { command } = toolCall.parameters as { command: string };
+  private async executeWebSearch(params: ToolParams) { return webSearch(params as any); }
+  private async executeTerminal(params: ToolParams) {
+    const { command } = params as { command: string };
     const { stdout, stderr } = await execAsync(command);
     return { stdout, stderr };
   }
-  private async executeFileGet(toolCall: ToolCall) {
-    const { path: filePath } = toolCall.parameters as { path: string };
+  private async executeFileGet(params: ToolParams) {
+    const { path: filePath } = params as { path: string };
     const content = await fs.readFile(filePath, "utf8");
     return { content };
   }
-  private async executeFilePut(toolCall: ToolCall) {
-    const { path: filePath, content } = toolCall.parameters as { path: string, content: string };
+  private async executeFilePut(params: ToolParams) {
+    const { path: filePath, content } = params as { path: string, content: string };
     await fs.writeFile(filePath, content, "utf8");
     return { success: true };
   }
-  private async executeSay(toolCall: ToolCall) {
-     const { utterance } = toolCall.parameters as { utterance: string };
+  private executeSendChat(params: ToolParams) {
+    const { content } = params as { content?: string };
+    return { content: content || "", success: true };
+  }
+
+  private async executeSay(params: ToolParams) {
+     const { utterance } = params as { utterance: string };
      return { success: true, utterance: utterance || "" };
   }
 
-  private executeSoundboard(toolCall: ToolCall) {
-    const { sound, volume } = toolCall.parameters as { sound: string; volume?: number };
+  private executeSoundboard(params: ToolParams) {
+    const { sound, volume } = params as { sound: string; volume?: number };
     return { success: true, sound: sound || "", volume: volume ?? 0.8 };
   }
 
-  private async executeCast(toolCall: ToolCall) {
-    const { action, url, device, level } = toolCall.parameters as {
+  private async executeCast(params: ToolParams) {
+    const { action, url, device, level } = params as {
       action: string;
       url?: string;
       device?: string;
@@ -379,8 +526,8 @@ export class ToolDispatcher {
     }
   }
 
-  private async executeCamera(toolCall: ToolCall) {
-    const { action, direction, speed, duration } = toolCall.parameters as {
+  private async executeCamera(params: ToolParams) {
+    const { action, direction, speed, duration } = params as {
       action: string;
       direction?: string;
       speed?: number;
@@ -428,5 +575,9 @@ export interface ToolExecutionResult {
   success: boolean;
   result?: unknown;
   error?: string;
+  /** Per-field problems when the arguments failed schema validation */
+  validationErrors?: ToolArgumentIssue[];
+  /** True when the permission policy or the user blocked the call */
+  permissionDenied?: boolean;
   duration: number;
 }
@@ -0,0 +1,292 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TOOL PERMISSION POLICY
+ * =============================================================================
+ *
+ * Declarative allow / deny / ask rules for tools that can change the world
+ * outside the chat: shell commands, file writes, database mutations, SMS and
+ * outbound calls.
+ *
+ * EVALUATION:
+ * -----------
+ * Rules are checked in order; the first rule whose tool list includes the
+ * tool AND whose argument matchers all match decides. If no rule matches,
+ * the tool's entry in `defaults` applies, then `defaultDecision`.
+ *
+ * ARGUMENT MATCHERS:
+ * ------------------
+ *   pathGlob       file_put/put `path`  ("~/workspace/**", "/etc/**", "editor:*")
+ *   commandPrefix  terminal `command`   ("git status", "ls")
+ *   table          db_insert/db_delete `table`
+ *   phoneNumber    sms_send/call_make `to` (compared by digits only)
+ *
+ * A commandPrefix never matches a command that chains or substitutes other
+ * commands (`;`, `&&`, `|`, backticks, `$(`, redirection), so allowing
+ * "ls" does not allow "ls; rm -rf ~".
+ *
+ * CONFIGURATION:
+ * --------------
+ * DEFAULT_TOOL_POLICY below is used unless TOOL_POLICY_FILE points at a JSON
+ * file matching toolPolicySchema. An invalid file is reported at startup and
+ * the defaults are kept.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+
+export const policyDecisionSchema = z.enum(["allow", "deny", "ask"]);
+export type PolicyDecision = z.infer<typeof policyDecisionSchema>;
+
+export const policyRuleSchema = z.object({
+  /** Tool names this rule applies to */
+  tools: z.array(z.string()).min(1),
+  decision: policyDecisionSchema,
+  /** All specified matchers must match for the rule to apply */
+  match: z.object({
+    pathGlob: z.array(z.string()).optional(),
+    commandPrefix: z.array(z.string()).optional(),
+    table: z.array(z.string()).optional(),
+    phoneNumber: z.array(z.string()).optional(),
+  }).optional(),
+  /** Shown to the user on approval cards and stored in tool_call_logs */
+  reason: z.string().optional(),
+});
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+
+export const toolPolicySchema = z.object({
+  version: z.literal(1),
+  rules: z.array(policyRuleSchema),
+  defaults: z.record(policyDecisionSchema).default({}),
+  defaultDecision: policyDecisionSchema.default("allow"),
+});
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
+/**
+ * Thrown when the policy denies a tool call or the user rejects it
+ */
+export class ToolPermissionError extends Error {
+  constructor(public toolName: string, message: string) {
+    super(message);
+    this.name = "ToolPermissionError";
+  }
+}
+
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  reason: string;
+  /** Index of the matching rule, absent when a default applied */
+  ruleIndex?: number;
+}
+
+const FILE_WRITE_TOOLS = ["put", "file_put"];
+const DB_WRITE_TOOLS = ["db_insert", "db_delete"];
+const PHONE_TOOLS = ["sms_send", "call_make"];
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  version: 1,
+  rules: [
+    {
+      tools: ["terminal"],
+      decision: "deny",
+      match: { commandPrefix: ["sudo", "su", "mkfs", "shutdown", "reboot", "dd"] },
+      reason: "Privileged or destructive system command",
+    },
+    {
+      tools: ["terminal"],
+      decision: "allow",
+      match: { commandPrefix: ["ls", "pwd", "cat", "echo", "whoami", "date", "git status", "git log", "git diff"] },
+      reason: "Read-only command",
+    },
+    {
+      tools: FILE_WRITE_TOOLS,
+      decision: "deny",
+      match: { pathGlob: ["**/.env", "**/.env.*", "**/.ssh/**", "**/.git/**", "/etc/**", "/usr/**", "/bin/**"] },
+      reason: "Protected path",
+    },
+    {
+      tools: FILE_WRITE_TOOLS,
+      decision: "allow",
+      match: { pathGlob: ["editor:*", "editor:**", "~/workspace/**", "/tmp/**"] },
+      reason: "Workspace path",
+    },
+    {
+      tools: DB_WRITE_TOOLS,
+      decision: "deny",
+      match: { table: ["users", "sessions", "tool_call_logs", "llm_usage"] },
+      reason: "System table",
+    },
+    {
+      tools: PHONE_TOOLS,
+      decision: "allow",
+      match: { phoneNumber: ["$OWNER_PHONE_NUMBER"] },
+      reason: "Owner's own number",
+    },
+  ],
+  defaults: {
+    terminal: "ask",
+    put: "ask",
+    file_put: "ask",
+    db_insert: "ask",
+    db_delete: "ask",
+    sms_send: "ask",
+    call_make: "ask",
+  },
+  defaultDecision: "allow",
+};
+
+/**
+ * Convert a glob to a RegExp. `**` matches across path separators,
+ * `*` and `?` match within a single segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === "/") {
+        pattern += "(?:.*/)?";
+        i += 2;
+      } else {
+        pattern += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function expandHome(value: string): string {
+  return value === "~" || value.startsWith("~/") ? path.join(os.homedir(), value.slice(1)) : value;
+}
+
+/**
+ * Normalise a tool path for matching. Virtual prefixes ("editor:",
+ * "client:") are kept verbatim; real paths are resolved to absolute form so
+ * "../" can't escape an allowed directory.
+ */
+export function normalizeToolPath(value: string): string {
+  if (/^[a-z]+:/i.test(value)) return value;
+  return path.resolve(expandHome(value));
+}
+
+const SHELL_CHAINING = /[;&|`<>\n]|\$\(/;
+
+function matchesCommandPrefix(command: string, prefix: string): boolean {
+  const trimmed = command.trim();
+  if (SHELL_CHAINING.test(trimmed)) return false;
+  return trimmed === prefix || trimmed.startsWith(`${prefix} `);
+}
+
+/**
+ * Compare phone numbers by digits, treating 10-digit numbers as US (+1)
+ * the same way the Twilio handlers normalise them before sending.
+ */
+function digitsOf(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 10 ? `1${digits}` : digits;
+}
+
+function ruleMatches(rule: PolicyRule, params: Record<string, unknown>): boolean {
+  const match = rule.match;
+  if (!match) return true;
+
+  if (match.pathGlob) {
+    if (typeof params.path !== "string") return false;
+    const target = normalizeToolPath(params.path);
+    const hit = match.pathGlob.some(glob => globToRegExp(normalizeGlob(glob)).test(target));
+    if (!hit) return false;
+  }
+  if (match.commandPrefix) {
+    if (typeof params.command !== "string") return false;
+    const command = params.command;
+    if (!match.commandPrefix.some(prefix => matchesCommandPrefix(command, prefix))) return false;
+  }
+  if (match.table) {
+    if (typeof params.table !== "string") return false;
+    if (!match.table.includes(params.table)) return false;
+  }
+  if (match.phoneNumber) {
+    if (typeof params.to !== "string") return false;
+    const to = digitsOf(params.to);
+    if (!to || !match.phoneNumber.some(phone => digitsOf(expandEnv(phone)) === to)) return false;
+  }
+  return true;
+}
+
+/**
+ * Absolute and "~" globs are expanded the same way as paths; relative
+ * globs ("**\/.env") and virtual prefixes are matched as written.
+ */
+function normalizeGlob(glob: string): string {
+  return glob.startsWith("~") ? expandHome(glob) : glob;
+}
+
+/**
+ * Allow "$OWNER_PHONE_NUMBER" style entries so numbers stay out of the
+ * policy file. Unset variables expand to an empty string and never match.
+ */
+function expandEnv(value: string): string {
+  return value.startsWith("$") ? process.env[value.slice(1)] ?? "" : value;
+}
+
+export class ToolPolicyEngine {
+  private policy: ToolPolicy;
+
+  constructor(policy: ToolPolicy = DEFAULT_TOOL_POLICY) {
+    this.policy = policy;
+  }
+
+  getPolicy(): ToolPolicy {
+    return this.policy;
+  }
+
+  setPolicy(policy: ToolPolicy) {
+    this.policy = toolPolicySchema.parse(policy);
+  }
+
+  /**
+   * Load the policy named by TOOL_POLICY_FILE, keeping the current policy
+   * if the variable is unset or the file is invalid.
+   */
+  loadFromEnv() {
+    const file = process.env.TOOL_POLICY_FILE;
+    if (!file) return;
+    try {
+      this.setPolicy(JSON.parse(fs.readFileSync(file, "utf8")));
+      console.log(`✅ [ToolPolicy] Loaded ${this.policy.rules.length} rules from ${file}`);
+    } catch (error: any) {
+      console.error(`❌ [ToolPolicy] Failed to load ${file}, using defaults:`, error.message);
+    }
+  }
+
+  evaluate(toolName: string, params: Record<string, unknown>): PolicyEvaluation {
+    const index = this.policy.rules.findIndex(
+      rule => rule.tools.includes(toolName) && ruleMatches(rule, params)
+    );
+    if (index >= 0) {
+      const rule = this.policy.rules[index];
+      return {
+        decision: rule.decision,
+        reason: rule.reason ?? `Matched policy rule ${index + 1}`,
+        ruleIndex: index,
+      };
+    }
+
+    const toolDefault = this.policy.defaults[toolName];
+    if (toolDefault) {
+      return { decision: toolDefault, reason: `Default policy for ${toolName}` };
+    }
+    return { decision: this.policy.defaultDecision, reason: "Default policy" };
+  }
+}
+
+export const toolPolicy = new ToolPolicyEngine();
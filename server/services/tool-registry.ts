@@ -0,0 +1,165 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TOOL REGISTRY
+ * =============================================================================
+ *
+ * Binds every tool name the model can call to the handler that executes it.
+ *
+ * The ToolDispatcher looks tools up here instead of switching on the tool
+ * type, so a declaration in gemini-tools.ts without a matching handler is a
+ * hard error at call time (UnknownToolError) rather than a silent success.
+ *
+ * At startup, checkToolRegistry() compares the registry against the
+ * function declarations we send to Gemini and reports any tool the model
+ * could call that nothing is able to execute.
+ *
+ * Declarations registered via registerSchemas() also give each tool an
+ * argument schema; validate() checks a call against it before the handler
+ * runs (see tool-schemas.ts).
+ */
+
+import type { FunctionDeclaration } from "@google/genai";
+import type { z } from "zod";
+import {
+  jsonSchemaToZod,
+  toArgumentIssues,
+  ToolValidationError,
+  type JsonSchema,
+} from "./tool-schemas";
+
+/**
+ * Per-call context passed to every handler
+ */
+export interface ToolContext {
+  /** ID of the user message that triggered the tool call (absent for job calls) */
+  messageId?: string;
+  /** Chat the call belongs to (absent for background/dispatch() calls) */
+  chatId?: string;
+  /** Agent job the call was made for, when an agent worker made it */
+  jobId?: string;
+  /** User agent making the call in a panel chat; otherwise the chat's agent speaks */
+  agentId?: string;
+}
+
+/**
+ * A tool handler receives the raw function-call arguments and returns the
+ * result that is fed back to the model. Handlers signal failure by throwing.
+ */
+export type ToolHandler = (
+  params: Record<string, unknown>,
+  ctx: ToolContext
+) => Promise<unknown> | unknown;
+
+/**
+ * Thrown when the model calls a tool that has no registered handler
+ */
+export class UnknownToolError extends Error {
+  constructor(public toolName: string) {
+    super(`Unknown tool: "${toolName}" has no registered handler`);
+    this.name = "UnknownToolError";
+  }
+}
+
+export class ToolRegistry {
+  private handlers = new Map<string, ToolHandler>();
+  private schemas = new Map<string, { json: JsonSchema; zod: z.ZodTypeAny }>();
+
+  register(name: string, handler: ToolHandler): this {
+    if (this.handlers.has(name)) {
+      console.warn(`[ToolRegistry] Handler for "${name}" registered twice; keeping the latest`);
+    }
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  registerAll(handlers: Record<string, ToolHandler>): this {
+    for (const [name, handler] of Object.entries(handlers)) {
+      this.register(name, handler);
+    }
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  /**
+   * Get the handler for a tool, throwing UnknownToolError if none exists
+   */
+  resolve(name: string): ToolHandler {
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      throw new UnknownToolError(name);
+    }
+    return handler;
+  }
+
+  /**
+   * Attach argument schemas from function declarations. The first
+   * declaration for a name wins, so pass the full tool set before any
+   * narrower variant (e.g. the guest set).
+   */
+  registerSchemas(declarations: FunctionDeclaration[]): this {
+    for (const decl of declarations) {
+      if (!decl.name || this.schemas.has(decl.name)) continue;
+      const json = decl.parametersJsonSchema as JsonSchema | undefined;
+      if (!json) continue;
+      this.schemas.set(decl.name, { json, zod: jsonSchemaToZod(json) });
+    }
+    return this;
+  }
+
+  /**
+   * Validate arguments for a tool, returning the parsed arguments.
+   * Tools without a declared schema are passed through unchanged.
+   * Throws ToolValidationError describing every invalid field.
+   */
+  validate(name: string, params: Record<string, unknown>): Record<string, unknown> {
+    const schema = this.schemas.get(name);
+    if (!schema) return params;
+
+    const parsed = schema.zod.safeParse(params ?? {});
+    if (!parsed.success) {
+      throw new ToolValidationError(name, toArgumentIssues(parsed.error, schema.json, params));
+    }
+    return parsed.data as Record<string, unknown>;
+  }
+
+  names(): string[] {
+    return Array.from(this.handlers.keys()).sort();
+  }
+
+  /**
+   * Return the names of declarations that have no registered handler
+   */
+  findUnhandled(declarations: FunctionDeclaration[]): string[] {
+    return declarations
+      .map(decl => decl.name)
+      .filter((name): name is string => !!name && !this.handlers.has(name));
+  }
+}
+
+/**
+ * Report every declared tool that the registry cannot execute.
+ * Called once at boot; returns the missing names so callers can act on them.
+ */
+export function checkToolRegistry(
+  registry: ToolRegistry,
+  declarationSets: Record<string, FunctionDeclaration[]>
+): string[] {
+  const missing = new Set<string>();
+
+  for (const [setName, declarations] of Object.entries(declarationSets)) {
+    const unhandled = registry.findUnhandled(declarations);
+    if (unhandled.length > 0) {
+      console.error(
+        `❌ [ToolRegistry] ${unhandled.length} ${setName} tool(s) declared without a handler: ${unhandled.join(", ")}`
+      );
+      unhandled.forEach(name => missing.add(name));
+    } else {
+      console.log(`✅ [ToolRegistry] All ${declarations.length} ${setName} tools have handlers`);
+    }
+  }
+
+  return Array.from(missing);
+}
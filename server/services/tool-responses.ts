@@ -0,0 +1,126 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TOOL RESPONSES
+ * =============================================================================
+ *
+ * Builds the tool results that carry tool output back to the model in the
+ * agentic loop. Each tool call in a model turn gets exactly one result, in
+ * the same order (the LLM provider turns these into Gemini functionResponse
+ * parts or OpenAI "tool" messages):
+ *
+ *   success            → { output: <sanitised result> }
+ *   failure            → { error: { message } }
+ *   invalid arguments  → { error: { message, invalidArguments: [...] } }
+ *   blocked by policy  → { error: { message, permissionDenied: true } }
+ *   skipped (limits)   → { error: { message } }
+ *
+ * Large binary fields are replaced with placeholders and long content is
+ * truncated so tool output doesn't blow the context window.
+ */
+
+import type { LlmToolCall, LlmToolResult } from "./llm/types";
+import type { ToolArgumentIssue } from "./tool-schemas";
+
+/**
+ * Tool result as recorded by the chat route
+ */
+export interface ToolResultRecord {
+  toolId: string;
+  type: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  validationErrors?: ToolArgumentIssue[];
+  permissionDenied?: boolean;
+}
+
+const MAX_CONTENT_LENGTH = 2000;
+const MAX_OUTPUT_LENGTH = 500;
+
+/**
+ * Strip binary payloads and truncate content fields. Results flagged with
+ * `noTruncate` (used by file_get) keep their full content.
+ */
+export function sanitizeToolOutput(result: unknown): unknown {
+  if (typeof result !== "object" || result === null || Array.isArray(result)) {
+    return result;
+  }
+
+  const sanitized = { ...(result as Record<string, unknown>) };
+  if ("audioBase64" in sanitized) {
+    sanitized.audioBase64 = "[audio generated]";
+  }
+  if ("base64" in sanitized) {
+    sanitized.base64 = "[binary data]";
+  }
+  if (typeof sanitized.screenshot === "string" && sanitized.screenshot.length > 100) {
+    sanitized.screenshot = "[screenshot captured]";
+  }
+  const shouldTruncate = sanitized.noTruncate !== true;
+  if (shouldTruncate && typeof sanitized.content === "string" && sanitized.content.length > MAX_CONTENT_LENGTH) {
+    sanitized.content = sanitized.content.substring(0, MAX_CONTENT_LENGTH) + "... [truncated]";
+  }
+  return sanitized;
+}
+
+/**
+ * Sanitise a result and cap its serialised size. Oversized output is sent
+ * as a truncated JSON preview rather than cutting the structure mid-field.
+ */
+function toOutput(result: unknown): unknown {
+  const sanitized = sanitizeToolOutput(result);
+  const noTruncate = typeof result === "object" && result !== null &&
+    (result as { noTruncate?: boolean }).noTruncate === true;
+  if (noTruncate) return sanitized;
+
+  const serialized = JSON.stringify(sanitized) ?? "null";
+  if (serialized.length <= MAX_OUTPUT_LENGTH) return sanitized;
+  return { truncated: true, preview: serialized.substring(0, MAX_OUTPUT_LENGTH) + "..." };
+}
+
+function toResponse(record: ToolResultRecord): Record<string, unknown> {
+  if (record.success) {
+    return { output: toOutput(record.result) };
+  }
+  if (record.validationErrors && record.validationErrors.length > 0) {
+    return {
+      error: {
+        message: record.error,
+        invalidArguments: record.validationErrors,
+        hint: "Correct the listed arguments to match the tool's parameter schema and call the tool again.",
+      },
+    };
+  }
+  if (record.permissionDenied) {
+    return {
+      error: {
+        message: record.error,
+        permissionDenied: true,
+        hint: "This call was blocked by the permission policy or the user. Do not retry it unchanged; explain or choose another approach.",
+      },
+    };
+  }
+  return { error: { message: record.error || "Tool failed" } };
+}
+
+/**
+ * Pair each tool call from a model turn with its result.
+ * Calls beyond `results` (dropped by the per-turn tool limit) get an error
+ * so the model knows they did not run.
+ */
+export function buildToolResults(
+  toolCalls: LlmToolCall[],
+  results: ToolResultRecord[]
+): LlmToolResult[] {
+  return toolCalls.map((call, index) => {
+    const record = results[index];
+    const response = record
+      ? toResponse(record)
+      : { error: { message: "Not executed: the per-turn tool call limit was reached. Call it again if still needed." } };
+    return {
+      ...(call.id ? { callId: call.id } : {}),
+      name: call.name,
+      response,
+    };
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TOOL ARGUMENT SCHEMAS
+ * =============================================================================
+ *
+ * Derives zod schemas from the JSON Schema `parametersJsonSchema` of each
+ * Gemini function declaration, so the arguments the model sends are checked
+ * against exactly what we told it to send. There is no second copy of the
+ * tool schemas to keep in sync with gemini-tools.ts.
+ *
+ * When validation fails the dispatcher throws ToolValidationError, whose
+ * `issues` list which field is wrong and why. The agentic loop returns those
+ * to Gemini in a functionResponse so the model can fix the call and retry.
+ */
+
+import { z } from "zod";
+
+/**
+ * The subset of JSON Schema used by our function declarations
+ */
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+}
+
+/**
+ * A single invalid argument, in a shape the model can act on
+ */
+export interface ToolArgumentIssue {
+  /** Dotted path to the offending argument, e.g. "path" or "values.0" */
+  field: string;
+  message: string;
+  /** Expected JSON type or enum values, when known */
+  expected?: string;
+  /** JSON type that was actually received, when known */
+  received?: string;
+}
+
+/**
+ * Thrown when a tool call's arguments don't match its declaration
+ */
+export class ToolValidationError extends Error {
+  constructor(public toolName: string, public issues: ToolArgumentIssue[]) {
+    super(
+      `Invalid arguments for "${toolName}": ` +
+      issues.map(issue => `${issue.field || "(arguments)"}: ${issue.message}`).join("; ")
+    );
+    this.name = "ToolValidationError";
+  }
+}
+
+/**
+ * Convert a declaration's JSON Schema into a zod schema.
+ *
+ * Optional properties also accept null, since Gemini occasionally sends null
+ * for arguments it means to omit; nulls are normalised to undefined so
+ * handlers only ever see a value or nothing.
+ */
+export function jsonSchemaToZod(schema: JsonSchema | undefined): z.ZodTypeAny {
+  if (!schema) return z.unknown();
+
+  if (schema.enum && schema.enum.length > 0) {
+    const values = schema.enum;
+    return z.custom<string | number>(
+      value => values.includes(value as string | number),
+      { message: `Expected one of: ${values.join(", ")}` }
+    );
+  }
+
+  switch (schema.type) {
+    case "string":
+      return z.string();
+    case "number":
+      return z.number();
+    case "integer":
+      return z.number().int();
+    case "boolean":
+      return z.boolean();
+    case "array":
+      return z.array(jsonSchemaToZod(schema.items));
+    case "object": {
+      // Free-form objects (e.g. HTTP bodies, db_insert data)
+      if (!schema.properties) {
+        return z.record(z.unknown());
+      }
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const propertySchema = jsonSchemaToZod(property);
+        shape[key] = required.has(key)
+          ? propertySchema
+          : propertySchema.nullish().transform(value => value ?? undefined);
+      }
+      return z.object(shape);
+    }
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * Describe the JSON type of a received value for error messages
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Flatten a ZodError into per-field issues
+ */
+export function toArgumentIssues(
+  error: z.ZodError,
+  schema: JsonSchema | undefined,
+  params: unknown
+): ToolArgumentIssue[] {
+  return error.issues.map(issue => {
+    const field = issue.path.join(".");
+
+    // Walk the declaration and the received value to the offending field
+    let expected: JsonSchema | undefined = schema;
+    let received: unknown = params;
+    for (const segment of issue.path) {
+      expected = typeof segment === "number" ? expected?.items : expected?.properties?.[segment];
+      received = received && typeof received === "object"
+        ? (received as Record<string | number, unknown>)[segment]
+        : undefined;
+    }
+
+    const result: ToolArgumentIssue = {
+      field,
+      message: received === undefined && issue.code === "invalid_type" ? "Required" : issue.message,
+    };
+    if (expected?.enum) {
+      result.expected = `one of ${expected.enum.join(", ")}`;
+    } else if (expected?.type) {
+      result.expected = expected.type;
+    }
+    if (received !== undefined) {
+      result.received = jsonTypeOf(received);
+    }
+    return result;
+  });
+}
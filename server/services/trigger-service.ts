@@ -12,17 +12,151 @@
  * - prompt_keyword: Watch for keywords in user prompts
  * - webhook: External HTTP triggers
  * - manual: User-initiated triggers
+ * - file_watch: Files created, modified or deleted in a directory
+ * - rss: New items in an RSS/Atom feed
+ * - http_poll: A value in a polled JSON endpoint changed
+ * - calendar_event: N minutes before a Google Calendar event
+ *
+ * Email and the last four are polled, each on its own interval; what a
+ * check saw (a Gmail historyId, file snapshot, seen feed items, ...) is
+ * saved in the trigger's state, see trigger-sources.ts. Events for distinct
+ * items (an email, a feed item, a calendar event) also go through the
+ * trigger_events ledger, so an item fires a trigger at most once.
+ *
+ * Webhooks are signed (see webhook-security.ts), rate limited per trigger
+ * and logged in webhook_deliveries, from where a delivery can be replayed.
+ * Their nonces go through the same ledger, so a resent delivery is refused.
  */
 
+import * as fs from "fs/promises";
+import * as path from "path";
 import { storage } from "../storage";
-import { type Trigger, TriggerTypes } from "@shared/schema";
+import { type Trigger, type WebhookDelivery, TriggerTypes } from "@shared/schema";
 import { workflowExecutor } from "./workflow-executor";
+import { workflowEngine } from "./workflow-engine";
+import { httpGet, httpPost } from "../integrations/http-client";
+import {
+  POLLED_TRIGGER_TYPES,
+  MAX_WATCHED_FILES,
+  describeTriggerEvent,
+  detectValueChange,
+  emailBodyText,
+  gmailCatchUpQuery,
+  diffFiles,
+  dueCalendarEvents,
+  isSourceCheckDue,
+  matchesGlobs,
+  newFeedItems,
+  parseFeed,
+  parseTriggerConfig,
+  renderTriggerTemplate,
+  selectJsonPath,
+  usesTriggerFields,
+  webhookConfigSchema,
+  type CalendarEvent,
+  type CalendarEventConfig,
+  type EmailConfig,
+  type FeedConfig,
+  type FileEntry,
+  type FileWatchConfig,
+  type HttpPollConfig,
+  type PolledTriggerType,
+  type TriggerSourceState,
+  type WebhookConfig,
+} from "./trigger-sources";
+import {
+  consumeRateLimit,
+  mapWebhookPayload,
+  parseWebhookBody,
+  redactWebhookHeaders,
+  verifyWebhookRequest,
+  type WebhookHeaders,
+} from "./webhook-security";
+
+/** Feeds larger than this are not parsed */
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const SOURCE_TIMEOUT_MS = 30000;
+/** How long fired items are remembered in the trigger_events ledger */
+const LEDGER_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const LEDGER_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+/** How long webhook deliveries (with their bodies) are kept for replay */
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_WEBHOOK_CONFIG = webhookConfigSchema.parse({});
+
+/**
+ * A feed response's body as text, or null once it is larger than maxBytes.
+ * A Content-Length over the cap is refused before reading; otherwise the
+ * stream is cancelled as soon as it passes the cap, so an oversized feed is
+ * never held in memory whole.
+ */
+export async function readFeedBody(response: Response, maxBytes: number): Promise<string | null> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return "";
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+interface SourceEvent {
+  /** Identifies the source item in the ledger (e.g. gmail:<messageId>) */
+  key?: string;
+  context: Record<string, unknown>;
+}
+
+export interface WebhookRequest {
+  headers: WebhookHeaders;
+  /** Parsed body */
+  body: unknown;
+  /** Body as received, which signatures are computed over */
+  rawBody?: Buffer;
+}
+
+export interface WebhookResult {
+  success: boolean;
+  /** HTTP status for the sender */
+  status: number;
+  taskId?: string;
+  deliveryId?: string;
+  error?: string;
+  retryAfterSeconds?: number;
+}
+
+interface SourceCheck {
+  events: SourceEvent[];
+  state: TriggerSourceState;
+}
+
+/** HTTP status of a googleapis error */
+function errorStatus(error: unknown): number | undefined {
+  const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+  const value = Number(status ?? code);
+  return Number.isFinite(value) ? value : undefined;
+}
 
 class TriggerService {
   private isRunning = false;
   private pollInterval: NodeJS.Timeout | null = null;
   private pollIntervalMs = 30000; // Check every 30 seconds
-  private lastEmailCheck = new Date();
+  private lastLedgerPrune = 0;
+  /** Recent webhook request times per trigger, for rate limiting */
+  private webhookHits = new Map<string, number[]>();
   
   /**
    * Start monitoring triggers
@@ -53,7 +187,8 @@ class TriggerService {
     if (!this.isRunning) return;
     
     try {
-      await this.checkEmailTriggers();
+      await this.checkSourceTriggers();
+      await this.pruneLedger();
       // SMS triggers would be handled via webhook from Twilio
     } catch (error) {
       console.error("[TriggerService] Poll error:", error);
@@ -63,42 +198,295 @@ class TriggerService {
   }
   
   /**
-   * Check Gmail for emails matching trigger patterns
+   * Forget fired items and webhook deliveries older than their retention
+   * periods, once a day
+   */
+  private async pruneLedger() {
+    const now = Date.now();
+    if (now - this.lastLedgerPrune < LEDGER_PRUNE_INTERVAL_MS) return;
+    this.lastLedgerPrune = now;
+    const removed = await storage.pruneTriggerEvents(new Date(now - LEDGER_RETENTION_MS));
+    if (removed > 0) {
+      console.log(`[TriggerService] Pruned ${removed} trigger events`);
+    }
+    const deliveries = await storage.pruneWebhookDeliveries(new Date(now - DELIVERY_RETENTION_MS));
+    if (deliveries > 0) {
+      console.log(`[TriggerService] Pruned ${deliveries} webhook deliveries`);
+    }
+    for (const [triggerId, hits] of Array.from(this.webhookHits)) {
+      if (hits.every(time => now - time > LEDGER_PRUNE_INTERVAL_MS)) this.webhookHits.delete(triggerId);
+    }
+  }
+  
+  /**
+   * Check the polled sources (mail, files, feeds, endpoints, calendars)
+   * whose interval has passed
    */
-  private async checkEmailTriggers() {
-    const emailTriggers = await storage.getTriggersByType(TriggerTypes.EMAIL);
-    if (emailTriggers.length === 0) return;
+  private async checkSourceTriggers() {
+    for (const type of POLLED_TRIGGER_TYPES) {
+      const sourceTriggers = await storage.getTriggersByType(type);
+      for (const trigger of sourceTriggers) {
+        await this.checkSourceTrigger(trigger, type);
+      }
+    }
+  }
+  
+  private async checkSourceTrigger(trigger: Trigger, type: PolledTriggerType) {
+    const now = Date.now();
+    const state = (trigger.state ?? {}) as TriggerSourceState;
     
+    const parsed = parseTriggerConfig(type, trigger.config);
+    if (!parsed.success) {
+      if (state.error !== parsed.error) {
+        await storage.updateTriggerState(trigger.id, { ...state, checkedAt: now, error: parsed.error });
+      }
+      return;
+    }
+    const config = parsed.config as { intervalSeconds: number };
+    if (!isSourceCheckDue(state, config.intervalSeconds, now)) return;
+    
+    let check: SourceCheck;
+    try {
+      check = await this.readSource(trigger, type, parsed.config, state, new Date(now));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[TriggerService] ${type} check failed for "${trigger.name}":`, message);
+      await storage.updateTriggerState(trigger.id, { ...state, checkedAt: now, error: message });
+      return;
+    }
+    
+    // Saved before firing: a crash part way may drop an event, never repeat one
+    await storage.updateTriggerState(trigger.id, { ...check.state, checkedAt: now });
+    
+    let current = trigger;
+    for (const event of check.events) {
+      try {
+        const ledgerId = event.key ? await storage.claimTriggerEvent(trigger.id, event.key) : null;
+        if (event.key && !ledgerId) continue; // Already fired for this item
+        
+        const result = await this.fireTrigger(current, event.context);
+        current = { ...current, triggerCount: (current.triggerCount || 0) + 1 };
+        if (ledgerId && result) {
+          await storage.setTriggerEventJob(ledgerId, result.id);
+        }
+      } catch (error) {
+        console.error(`[TriggerService] Failed to fire trigger "${trigger.name}":`, error);
+      }
+    }
+  }
+  
+  private async readSource(trigger: Trigger, type: PolledTriggerType, config: unknown, state: TriggerSourceState, now: Date): Promise<SourceCheck> {
+    switch (type) {
+      case "email":
+        return this.readMailbox(trigger, config as EmailConfig, state, now);
+      case "file_watch":
+        return this.readDirectory(config as FileWatchConfig, state);
+      case "rss":
+        return this.readFeed(config as FeedConfig, state);
+      case "http_poll":
+        return this.readEndpoint(config as HttpPollConfig, state);
+      case "calendar_event":
+        return this.readCalendar(config as CalendarEventConfig, state, now);
+    }
+  }
+  
+  private async readMailbox(trigger: Trigger, config: EmailConfig, state: TriggerSourceState, now: Date): Promise<SourceCheck> {
+    const gmail = await import("../integrations/gmail");
+    
+    // The first check only sets the cursor: mail already there never fires
+    if (!state.historyId) {
+      return { events: [], state: { historyId: await gmail.getHistoryId() } };
+    }
+    
+    let messageIds: string[];
+    let historyId: string;
     try {
-      // Dynamic import of Gmail integration
-      const gmail = await import("../integrations/gmail");
+      ({ messageIds, historyId } = await gmail.listAddedMessageIds(state.historyId, config.labelId));
+    } catch (error) {
+      if (errorStatus(error) !== 404) throw error;
+      // Gmail only keeps about a week of history; catch up by date instead
+      // and let the ledger drop anything that already fired
+      historyId = await gmail.getHistoryId();
+      const since = new Date(state.checkedAt ?? now.getTime());
+      messageIds = (await gmail.searchMessageIds(gmailCatchUpQuery(config, since), 100, [config.labelId])).reverse();
+    }
+    
+    // New mail is the newest, so it is among the query's most recent matches
+    if (config.query && messageIds.length > 0) {
+      const matching = new Set(await gmail.searchMessageIds(config.query, 100, [config.labelId]));
+      messageIds = messageIds.filter(id => matching.has(id));
+    }
+    
+    const events: SourceEvent[] = [];
+    for (const messageId of messageIds) {
+      const email = await gmail.getEmail(messageId) as {
+        id?: string | null;
+        threadId?: string | null;
+        from?: string;
+        to?: string;
+        subject?: string;
+        date?: string;
+        snippet?: string | null;
+        body?: string;
+        error?: string;
+      };
+      if (email.error) {
+        // Deleted since it arrived, most likely
+        console.warn(`[TriggerService] Skipping email ${messageId} for "${trigger.name}": ${email.error}`);
+        continue;
+      }
       
-      // Get recent emails since last check
-      const emails = await gmail.listEmails(20);
+      const match = { from: email.from, subject: email.subject, snippet: email.snippet ?? undefined };
+      if (!this.matchesEmailTrigger(match, trigger)) continue;
       
-      for (const email of (emails as any[])) {
-        for (const trigger of emailTriggers) {
-          if (this.matchesEmailTrigger({ 
-            from: email.from, 
-            subject: email.subject, 
-            snippet: email.snippet ?? undefined 
-          }, trigger)) {
-            await this.fireTrigger(trigger, {
-              source: "email",
-              emailId: email.id,
-              from: email.from,
-              subject: email.subject,
-              snippet: email.snippet
-            });
+      events.push({
+        key: `gmail:${messageId}`,
+        context: {
+          source: "email",
+          emailId: messageId,
+          threadId: email.threadId,
+          from: email.from,
+          to: email.to,
+          subject: email.subject,
+          date: email.date,
+          snippet: email.snippet,
+          ...(config.includeBody ? { body: emailBodyText(email.body ?? "") } : {}),
+        },
+      });
+    }
+    
+    return { events, state: { historyId } };
+  }
+  
+  private async readDirectory(config: FileWatchConfig, state: TriggerSourceState): Promise<SourceCheck> {
+    const root = path.resolve(config.path);
+    const files: FileEntry[] = [];
+    
+    const walk = async (directory: string, prefix: string) => {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      for (const entry of entries) {
+        if (files.length >= MAX_WATCHED_FILES) return;
+        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        const fullPath = path.join(directory, entry.name);
+        
+        if (entry.isDirectory()) {
+          // Skip excluded directories entirely (e.g. node_modules)
+          if (config.recursive && !(config.exclude.length > 0 && matchesGlobs(relativePath, config.exclude))) {
+            await walk(fullPath, relativePath);
+          }
+        } else if (entry.isFile()) {
+          try {
+            const stats = await fs.stat(fullPath);
+            files.push({ path: relativePath, size: stats.size, mtimeMs: stats.mtimeMs });
+          } catch {
+            // Removed between listing and stat; the next check sees it gone
           }
         }
       }
-      
-      this.lastEmailCheck = new Date();
-    } catch (error) {
-      // Gmail might not be connected
-      console.debug("[TriggerService] Email check skipped:", error instanceof Error ? error.message : "Not connected");
+    };
+    await walk(root, "");
+    
+    const { changes, files: snapshot } = diffFiles(state.files, files, config);
+    return {
+      events: changes.map(change => ({
+        context: {
+          source: "file_watch",
+          event: change.event,
+          path: path.join(root, change.path),
+          relativePath: change.path,
+          directory: root,
+          size: change.size,
+          modifiedAt: change.modifiedAt,
+        },
+      })),
+      state: { files: snapshot },
+    };
+  }
+  
+  private async readFeed(config: FeedConfig, state: TriggerSourceState): Promise<SourceCheck> {
+    const response = await fetch(config.url, {
+      headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.8" },
+      signal: AbortSignal.timeout(SOURCE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Feed returned HTTP ${response.status}`);
+    }
+    const xml = await readFeedBody(response, MAX_FEED_BYTES);
+    if (xml === null) {
+      throw new Error(`Feed is larger than ${MAX_FEED_BYTES / 1024 / 1024}MB`);
+    }
+    
+    const { items, seen } = newFeedItems(parseFeed(xml), state.seen, config);
+    return {
+      events: items.map(item => ({
+        key: `rss:${item.id}`,
+        context: {
+          source: "rss",
+          feedUrl: config.url,
+          itemId: item.id,
+          title: item.title,
+          link: item.link,
+          summary: item.summary,
+          published: item.published,
+        },
+      })),
+      state: { seen },
+    };
+  }
+  
+  private async readEndpoint(config: HttpPollConfig, state: TriggerSourceState): Promise<SourceCheck> {
+    const response = config.method === "POST"
+      ? await httpPost({ url: config.url, headers: config.headers, body: config.body ?? {}, timeout: SOURCE_TIMEOUT_MS })
+      : await httpGet({ url: config.url, headers: config.headers, timeout: SOURCE_TIMEOUT_MS });
+    if (!response.success) {
+      throw new Error(response.error || `Endpoint returned HTTP ${response.status}`);
+    }
+    
+    let data = response.data;
+    if (typeof data === "string") {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        // Plain text; only "$" selects anything from it
+      }
+    }
+    
+    const value = selectJsonPath(data, config.jsonPath);
+    const change = detectValueChange(state.value, value, config);
+    return {
+      events: change.changed
+        ? [{ context: { source: "http_poll", url: config.url, jsonPath: config.jsonPath, value, previousValue: change.previousValue } }]
+        : [],
+      state: { value: change.value },
+    };
+  }
+  
+  private async readCalendar(config: CalendarEventConfig, state: TriggerSourceState, now: Date): Promise<SourceCheck> {
+    const calendar = await import("../integrations/google-calendar");
+    const until = new Date(now.getTime() + (config.minutesBefore * 60 + config.intervalSeconds) * 1000);
+    const events = await calendar.listEvents(config.calendarId, now.toISOString(), until.toISOString(), 50);
+    if (!Array.isArray(events)) {
+      throw new Error(events.error || "Failed to list calendar events");
     }
+    
+    const { due, fired } = dueCalendarEvents(events as CalendarEvent[], state.fired, config, now);
+    return {
+      events: due.map(({ key, event, start }) => ({
+        key: `calendar:${key}`,
+        context: {
+          source: "calendar_event",
+          calendarId: config.calendarId,
+          eventId: event.id,
+          summary: event.summary,
+          location: event.location,
+          link: event.htmlLink,
+          start: start.toISOString(),
+          end: event.end?.dateTime ?? event.end?.date,
+          minutesBefore: config.minutesBefore,
+        },
+      })),
+      state: { fired },
+    };
   }
   
   /**
@@ -152,30 +540,137 @@ class TriggerService {
   }
   
   /**
-   * Handle webhook trigger
+   * Handle a webhook delivery: rate limit, verify the signature, refuse
+   * replays, then fire with the payload mapped into the event
    */
-  async handleWebhook(triggerId: string, payload: unknown, secret?: string): Promise<{ success: boolean; taskId?: string; error?: string }> {
+  async handleWebhook(triggerId: string, request: WebhookRequest): Promise<WebhookResult> {
     const trigger = await storage.getTriggerById(triggerId);
     
-    if (!trigger) {
-      return { success: false, error: "Trigger not found" };
+    if (!trigger || trigger.triggerType !== TriggerTypes.WEBHOOK) {
+      return { success: false, status: 404, error: "Trigger not found" };
+    }
+    
+    const parsed = parseTriggerConfig(TriggerTypes.WEBHOOK, trigger.config);
+    const config = parsed.success ? parsed.config as WebhookConfig : DEFAULT_WEBHOOK_CONFIG;
+    
+    // Checked before anything is stored, so a flood cannot fill the log
+    const limit = consumeRateLimit(this.webhookHits.get(trigger.id), Date.now(), config.rateLimit);
+    this.webhookHits.set(trigger.id, limit.hits);
+    if (!limit.allowed) {
+      console.warn(`[TriggerService] Webhook "${trigger.name}" rate limited`);
+      return { success: false, status: 429, error: "Too many requests", retryAfterSeconds: limit.retryAfterSeconds };
     }
     
+    const record = (result: Omit<WebhookResult, "deliveryId">, status: string, jobId?: string) =>
+      this.recordDelivery(trigger.id, request, result, status, jobId);
+    
+    if (!parsed.success) {
+      return record({ success: false, status: 500, error: parsed.error }, "failed");
+    }
     if (!trigger.enabled) {
-      return { success: false, error: "Trigger is disabled" };
+      return record({ success: false, status: 400, error: "Trigger is disabled" }, "rejected");
     }
     
-    // Validate secret if configured
-    if (trigger.webhookSecret && trigger.webhookSecret !== secret) {
-      return { success: false, error: "Invalid webhook secret" };
+    const verification = verifyWebhookRequest(request, trigger.webhookSecret, config, Date.now());
+    if (!verification.ok) {
+      return record({ success: false, status: 401, error: verification.error }, "rejected");
     }
     
-    const result = await this.fireTrigger(trigger, {
-      source: "webhook",
-      payload
-    });
+    // Every nonce must be new; a delivery seen under any of them is a resend
+    const ledgerIds: string[] = [];
+    for (const nonce of verification.nonces) {
+      const ledgerId = await storage.claimTriggerEvent(trigger.id, `webhook:${nonce}`);
+      if (!ledgerId) {
+        return record({ success: false, status: 409, error: "Delivery already received" }, "duplicate");
+      }
+      ledgerIds.push(ledgerId);
+    }
     
-    return { success: true, taskId: result?.id };
+    try {
+      const result = await this.fireTrigger(trigger, this.webhookContext(request.body, config));
+      if (result) {
+        for (const ledgerId of ledgerIds) {
+          await storage.setTriggerEventJob(ledgerId, result.id);
+        }
+      }
+      return record({ success: true, status: 200, taskId: result?.id }, "accepted", result?.id);
+    } catch (error) {
+      console.error(`[TriggerService] Failed to fire webhook "${trigger.name}":`, error);
+      return record({ success: false, status: 500, error: "Failed to fire trigger" }, "failed");
+    }
+  }
+  
+  /**
+   * Fire a trigger again from a recorded delivery, as the sender sent it.
+   * Only accepted deliveries passed the signature, replay and rate checks
+   * when they arrived, so only those can be replayed, and only while the
+   * trigger is enabled.
+   */
+  async replayWebhookDelivery(triggerId: string, deliveryId: string): Promise<WebhookResult> {
+    const trigger = await storage.getTriggerById(triggerId);
+    const delivery = await storage.getWebhookDeliveryById(deliveryId);
+    if (!trigger || !delivery || delivery.triggerId !== trigger.id) {
+      return { success: false, status: 404, error: "Delivery not found" };
+    }
+    if (delivery.status !== "accepted") {
+      return { success: false, status: 409, error: `Only accepted deliveries can be replayed (this one was ${delivery.status})` };
+    }
+    if (!trigger.enabled) {
+      return { success: false, status: 400, error: "Trigger is disabled" };
+    }
+    
+    const parsed = parseTriggerConfig(TriggerTypes.WEBHOOK, trigger.config);
+    if (!parsed.success) {
+      return { success: false, status: 400, error: parsed.error };
+    }
+    
+    const headers = (delivery.headers ?? {}) as Record<string, string>;
+    const request: WebhookRequest = {
+      headers,
+      body: parseWebhookBody(delivery.body, headers["content-type"]),
+      rawBody: delivery.body === null ? undefined : Buffer.from(delivery.body),
+    };
+    
+    try {
+      const result = await this.fireTrigger(trigger, this.webhookContext(request.body, parsed.config as WebhookConfig));
+      return this.recordDelivery(trigger.id, request, { success: true, status: 200, taskId: result?.id }, "accepted", result?.id, delivery);
+    } catch (error) {
+      console.error(`[TriggerService] Failed to replay webhook "${trigger.name}":`, error);
+      return this.recordDelivery(trigger.id, request, { success: false, status: 500, error: "Failed to fire trigger" }, "failed", undefined, delivery);
+    }
+  }
+  
+  /** Mapped fields replace the raw payload; without a mapping the task gets all of it */
+  private webhookContext(payload: unknown, config: WebhookConfig): Record<string, unknown> {
+    return Object.keys(config.mapping).length > 0
+      ? { source: "webhook", ...mapWebhookPayload(payload, config.mapping) }
+      : { source: "webhook", payload };
+  }
+  
+  private async recordDelivery(
+    triggerId: string,
+    request: WebhookRequest,
+    result: Omit<WebhookResult, "deliveryId">,
+    status: string,
+    jobId?: string,
+    replayOf?: WebhookDelivery,
+  ): Promise<WebhookResult> {
+    try {
+      const delivery = await storage.createWebhookDelivery({
+        triggerId,
+        headers: redactWebhookHeaders(request.headers),
+        body: request.rawBody?.toString("utf8") ?? null,
+        status,
+        statusCode: result.status,
+        error: result.error ?? null,
+        jobId: jobId ?? null,
+        replayOf: replayOf?.id ?? null,
+      });
+      return { ...result, deliveryId: delivery.id };
+    } catch (error) {
+      console.error("[TriggerService] Failed to log webhook delivery:", error);
+      return result;
+    }
   }
   
   /**
@@ -193,6 +688,14 @@ class TriggerService {
     // If trigger has a workflow, instantiate it
     if (trigger.workflowId) {
       const workflow = await storage.getWorkflowById(trigger.workflowId);
+      if (workflow?.definition) {
+        // The event's fields become the run's inputs
+        const job = await workflowEngine.startRun(workflow, {
+          inputs: context,
+          context: { triggerId: trigger.id, triggerName: trigger.name },
+        });
+        return { id: job.id };
+      }
       if (workflow) {
         // Create tasks from workflow steps using the new job system
         const steps = workflow.steps as Array<{
@@ -227,9 +730,17 @@ class TriggerService {
         priority?: number;
       };
       
+      // {{from}}, {{subject}}, {{body}}, ... come from the event. A template
+      // that places none of them gets the whole event appended, so the task
+      // always sees the email (or item) that fired it.
+      const instructions = template.description || template.title;
+      const description = usesTriggerFields(instructions)
+        ? renderTriggerTemplate(instructions, context)
+        : `${renderTriggerTemplate(instructions, context)}\n\n${describeTriggerEvent(context)}`;
+      
       const job = await workflowExecutor.submitTask({
-        title: template.title.replace(/\{\{(\w+)\}\}/g, (_, key) => String(context[key] || "")),
-        description: template.description,
+        title: renderTriggerTemplate(template.title, context),
+        description,
         taskType: template.taskType || "action",
         priority: trigger.priority || template.priority || 5,
         input: context
@@ -0,0 +1,637 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - TRIGGER SOURCES
+ * =============================================================================
+ *
+ * Config schemas and change detection for the polled trigger types. Each
+ * check compares what a source looks like now with the state saved on the
+ * trigger after the previous check, and returns the events to fire plus the
+ * state to save. Pure, so TriggerService only does the fetching.
+ *
+ *   email           Gmail messages added since the saved historyId cursor
+ *   file_watch      files created, modified or deleted under a directory
+ *   rss             new items in an RSS 1.0/2.0 or Atom feed
+ *   http_poll       a value picked from a JSON response changed
+ *   calendar_event  a Google Calendar event starts in N minutes
+ *
+ * The first check of a source only records a baseline, so existing mail,
+ * files, feed items and the current value never fire (rss and http_poll can opt
+ * in with fireOnFirstCheck). State is bounded: feeds remember the most
+ * recent MAX_SEEN_FEED_ITEMS ids, calendars forget events once they start.
+ *
+ * Webhook triggers are not polled but have a config too (signature scheme,
+ * payload mapping, rate limit); checking a delivery is in webhook-security.ts.
+ */
+
+import { z } from "zod";
+
+export const POLLED_TRIGGER_TYPES = ["email", "file_watch", "rss", "http_poll", "calendar_event"] as const;
+export type PolledTriggerType = typeof POLLED_TRIGGER_TYPES[number];
+
+export const FILE_WATCH_EVENTS = ["create", "modify", "delete"] as const;
+export type FileWatchEvent = typeof FILE_WATCH_EVENTS[number];
+
+/** Most files one file_watch trigger tracks */
+export const MAX_WATCHED_FILES = 5000;
+/** Feed item ids remembered per rss trigger */
+export const MAX_SEEN_FEED_ITEMS = 500;
+/** Longest email body passed on to a triggered task */
+export const MAX_EMAIL_BODY_CHARS = 20000;
+
+/**
+ * How a webhook proves it comes from the sender: secret compares the
+ * X-Webhook-Secret header, github checks X-Hub-Signature-256, hmac checks a
+ * signature over X-Webhook-Timestamp and the body
+ */
+export const WEBHOOK_SIGNATURE_SCHEMES = ["secret", "github", "hmac"] as const;
+export type WebhookSignatureScheme = typeof WEBHOOK_SIGNATURE_SCHEMES[number];
+
+const regexSchema = z.string().min(1).refine(pattern => {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid regular expression");
+
+const globSchema = z.string().min(1).refine(glob => {
+  try {
+    globToRegExp(glob);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid glob");
+
+const jsonPathSchema = z.string().min(1).refine(path => {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid JSON path");
+
+const intervalSchema = (defaultSeconds: number) =>
+  z.number().int().min(10).max(24 * 60 * 60).default(defaultSeconds);
+
+export const emailConfigSchema = z.object({
+  /** Gmail search syntax, e.g. "from:billing@example.com has:attachment" */
+  query: z.string().trim().min(1).optional(),
+  labelId: z.string().min(1).default("INBOX"),
+  /** Fetch the full message and pass its text on as `body` */
+  includeBody: z.boolean().default(true),
+  intervalSeconds: intervalSchema(60),
+}).strict();
+
+export const fileWatchConfigSchema = z.object({
+  path: z.string().min(1),
+  events: z.array(z.enum(FILE_WATCH_EVENTS)).min(1).default([...FILE_WATCH_EVENTS]),
+  /** Globs relative to path; a glob without "/" matches file names at any depth */
+  include: z.array(globSchema).min(1).default(["**"]),
+  exclude: z.array(globSchema).default([]),
+  recursive: z.boolean().default(true),
+  intervalSeconds: intervalSchema(30),
+}).strict();
+
+export const feedConfigSchema = z.object({
+  url: z.string().url(),
+  /** Only items whose title matches fire */
+  titlePattern: regexSchema.optional(),
+  fireOnFirstCheck: z.boolean().default(false),
+  intervalSeconds: intervalSchema(300),
+}).strict();
+
+export const httpPollConfigSchema = z.object({
+  url: z.string().url(),
+  method: z.enum(["GET", "POST"]).default("GET"),
+  headers: z.record(z.string()).default({}),
+  body: z.union([z.string(), z.record(z.unknown())]).optional(),
+  /** The part of the JSON response to watch, e.g. $.data.items[0].status */
+  jsonPath: jsonPathSchema.default("$"),
+  fireOnFirstCheck: z.boolean().default(false),
+  intervalSeconds: intervalSchema(300),
+}).strict();
+
+export const calendarEventConfigSchema = z.object({
+  calendarId: z.string().min(1).default("primary"),
+  minutesBefore: z.number().int().min(0).max(7 * 24 * 60).default(10),
+  /** Only events whose title matches fire */
+  titlePattern: regexSchema.optional(),
+  intervalSeconds: intervalSchema(60),
+}).strict();
+
+export const webhookConfigSchema = z.object({
+  signature: z.enum(WEBHOOK_SIGNATURE_SCHEMES).default("secret"),
+  /** hmac: how far the signed timestamp may be from now */
+  toleranceSeconds: z.number().int().min(30).max(60 * 60).default(300),
+  /** Event field -> JSON path into the payload, e.g. { "repo": "$.repository.full_name" } */
+  mapping: z.record(z.string().regex(/^\w+$/, "Field names are letters, digits and _"), jsonPathSchema).default({}),
+  /** Deliveries accepted per trigger within windowSeconds */
+  rateLimit: z.object({
+    maxRequests: z.number().int().min(1).max(10000).default(60),
+    windowSeconds: z.number().int().min(1).max(24 * 60 * 60).default(60),
+  }).strict().default({}),
+}).strict();
+
+export type EmailConfig = z.infer<typeof emailConfigSchema>;
+export type FileWatchConfig = z.infer<typeof fileWatchConfigSchema>;
+export type FeedConfig = z.infer<typeof feedConfigSchema>;
+export type HttpPollConfig = z.infer<typeof httpPollConfigSchema>;
+export type CalendarEventConfig = z.infer<typeof calendarEventConfigSchema>;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+
+export const triggerConfigSchemas = {
+  email: emailConfigSchema,
+  file_watch: fileWatchConfigSchema,
+  rss: feedConfigSchema,
+  http_poll: httpPollConfigSchema,
+  calendar_event: calendarEventConfigSchema,
+  webhook: webhookConfigSchema,
+} as const;
+
+export function isPolledTriggerType(type: string): type is PolledTriggerType {
+  return (POLLED_TRIGGER_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Validate a trigger's config for its type, filling in defaults. Types
+ * without a config schema pass through unchanged.
+ */
+export function parseTriggerConfig(
+  triggerType: string,
+  config: unknown,
+): { success: true; config: unknown } | { success: false; error: string } {
+  if (!Object.prototype.hasOwnProperty.call(triggerConfigSchemas, triggerType)) {
+    return { success: true, config };
+  }
+  const result = triggerConfigSchemas[triggerType as keyof typeof triggerConfigSchemas].safeParse(config ?? {});
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    const path = issue?.path.join(".");
+    return { success: false, error: `Invalid ${triggerType} config${path ? ` (${path})` : ""}: ${issue?.message}` };
+  }
+  return { success: true, config: result.data };
+}
+
+/** Saved on the trigger between checks */
+export interface TriggerSourceState {
+  /** When the source was last checked (ms) */
+  checkedAt?: number;
+  /** Why the last check failed, cleared by the next successful one */
+  error?: string;
+  /** email: Gmail history ID the next check continues from */
+  historyId?: string;
+  /** file_watch: relative path -> "size:mtimeMs" */
+  files?: Record<string, string>;
+  /** rss: ids of items already seen, oldest first */
+  seen?: string[];
+  /** http_poll: JSON of the watched value */
+  value?: string;
+  /** calendar_event: "eventId@start" -> start (ms) for events already fired */
+  fired?: Record<string, number>;
+}
+
+/** Whether a trigger's polling interval has passed */
+export function isSourceCheckDue(state: TriggerSourceState | null | undefined, intervalSeconds: number, now: number): boolean {
+  return !state?.checkedAt || now - state.checkedAt >= intervalSeconds * 1000;
+}
+
+// ============================================================================
+// TASK TEMPLATES
+// ============================================================================
+
+const FIELD_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Whether a task template places any of the event's fields */
+export function usesTriggerFields(template: string): boolean {
+  return new RegExp(FIELD_PATTERN.source).test(template);
+}
+
+/** Fill {{field}} placeholders from the event that fired a trigger */
+export function renderTriggerTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(FIELD_PATTERN, (_, key: string) => {
+    const value = Object.prototype.hasOwnProperty.call(context, key) ? context[key] : undefined;
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * The event as text for a task prompt: one line per field, with long text
+ * fields (an email body, a feed summary) as blocks at the end
+ */
+export function describeTriggerEvent(context: Record<string, unknown>): string {
+  const lines = [`Trigger event (${String(context.source ?? "unknown")}):`];
+  const blocks: string[] = [];
+  for (const [key, value] of Object.entries(context)) {
+    if (key === "source" || value === undefined || value === null || value === "") continue;
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    if (text.includes("\n") || text.length > 200) {
+      blocks.push(`${key}:\n${text}`);
+    } else {
+      lines.push(`- ${key}: ${text}`);
+    }
+  }
+  return [lines.join("\n"), ...blocks].join("\n\n");
+}
+
+// ============================================================================
+// EMAIL
+// ============================================================================
+
+/**
+ * Catch-up search for when the history cursor expired: the trigger's query
+ * limited to mail received since the last check (Gmail's after: takes
+ * epoch seconds)
+ */
+export function gmailCatchUpQuery(config: Pick<EmailConfig, "query">, since: Date): string {
+  const after = `after:${Math.floor(since.getTime() / 1000)}`;
+  return config.query ? `${config.query} ${after}` : after;
+}
+
+/** An email body as plain text, HTML tags dropped and length capped */
+export function emailBodyText(body: string): string {
+  let text = body;
+  if (/<(html|body|div|p|br|table|span)[\s>/]/i.test(text)) {
+    text = decodeEntities(
+      text
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+        .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, "\n")
+        .replace(/<[^>]+>/g, "")
+    );
+  }
+  text = text.replace(/\r\n/g, "\n").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  return text.length > MAX_EMAIL_BODY_CHARS ? `${text.slice(0, MAX_EMAIL_BODY_CHARS)}…` : text;
+}
+
+// ============================================================================
+// FILE WATCH
+// ============================================================================
+
+export interface FileEntry {
+  /** Relative to the watched directory, "/"-separated */
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface FileChange {
+  event: FileWatchEvent;
+  path: string;
+  size?: number;
+  modifiedAt?: string;
+}
+
+/**
+ * Glob to regular expression: ** crosses directories, * and ? do not,
+ * {a,b} alternates and [abc] is a character class
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const slash = glob[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function globMatches(glob: string, path: string): boolean {
+  const target = glob.includes("/") ? path : path.slice(path.lastIndexOf("/") + 1);
+  return globToRegExp(glob).test(target);
+}
+
+export function matchesGlobs(path: string, include: string[], exclude: string[] = []): boolean {
+  return include.some(glob => globMatches(glob, path)) && !exclude.some(glob => globMatches(glob, path));
+}
+
+/** Files that appeared, changed or disappeared since the previous snapshot */
+export function diffFiles(
+  previous: Record<string, string> | undefined,
+  files: FileEntry[],
+  config: Pick<FileWatchConfig, "events" | "include" | "exclude">,
+): { changes: FileChange[]; files: Record<string, string> } {
+  const current: Record<string, string> = {};
+  const entries = new Map<string, FileEntry>();
+  for (const file of files) {
+    if (!matchesGlobs(file.path, config.include, config.exclude)) continue;
+    current[file.path] = `${file.size}:${Math.round(file.mtimeMs)}`;
+    entries.set(file.path, file);
+  }
+
+  // The first scan is the baseline
+  if (!previous) {
+    return { changes: [], files: current };
+  }
+
+  const changes: FileChange[] = [];
+  const describe = (event: FileWatchEvent, path: string): FileChange => {
+    const entry = entries.get(path);
+    return entry
+      ? { event, path, size: entry.size, modifiedAt: new Date(entry.mtimeMs).toISOString() }
+      : { event, path };
+  };
+
+  for (const [path, signature] of Object.entries(current)) {
+    if (!(path in previous)) {
+      changes.push(describe("create", path));
+    } else if (previous[path] !== signature) {
+      changes.push(describe("modify", path));
+    }
+  }
+  for (const path of Object.keys(previous)) {
+    if (!(path in current)) {
+      changes.push(describe("delete", path));
+    }
+  }
+
+  return {
+    changes: changes.filter(change => config.events.includes(change.event)),
+    files: current,
+  };
+}
+
+// ============================================================================
+// RSS / ATOM
+// ============================================================================
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  link?: string;
+  summary?: string;
+  published?: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Element text with entities decoded; CDATA sections are taken as is */
+function decodeXmlText(text: string): string {
+  return text
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => part.startsWith("<![CDATA[") ? part.slice(9, -3) : decodeEntities(part))
+    .join("")
+    .trim();
+}
+
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}\\s*>)`, "gi");
+  return Array.from(xml.matchAll(pattern), match => match[0]);
+}
+
+function xmlText(element: string | undefined): string | undefined {
+  if (!element) return undefined;
+  const body = /^<[^>]*>([\s\S]*)<\/[^>]+>$/.exec(element)?.[1];
+  const text = body === undefined ? "" : decodeXmlText(body);
+  return text || undefined;
+}
+
+function xmlAttribute(element: string | undefined, name: string): string | undefined {
+  const value = element && new RegExp(`^<[^>]*\\s${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(element)?.[1];
+  return value ? decodeXmlText(value) : undefined;
+}
+
+function childText(element: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const text = xmlText(xmlElements(element, tag)[0]);
+    if (text) return text;
+  }
+  return undefined;
+}
+
+/** Plain text of an HTML fragment (titles and summaries often carry markup) */
+function stripHtml(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  return decodeEntities(text.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim() || undefined;
+}
+
+/** Items of an RSS 1.0/2.0 or Atom document, in document order */
+export function parseFeed(xml: string): FeedItem[] {
+  const document = xml.replace(/<!--[\s\S]*?-->/g, "");
+  const atom = /<(?:[\w-]+:)?feed[\s>]/i.test(document) && !/<(?:[\w-]+:)?(?:rss|RDF)[\s>]/.test(document);
+
+  const items = atom ? xmlElements(document, "entry") : xmlElements(document, "item");
+  return items.flatMap(item => {
+    const title = stripHtml(childText(item, ["title"])) ?? "";
+    let link: string | undefined;
+    if (atom) {
+      const links = xmlElements(item, "link");
+      const alternate = links.find(element => !xmlAttribute(element, "rel") || xmlAttribute(element, "rel") === "alternate");
+      link = xmlAttribute(alternate ?? links[0], "href");
+    } else {
+      link = childText(item, ["link"]) ?? xmlAttribute(item, "rdf:about");
+    }
+    const summary = stripHtml(childText(item, atom ? ["summary", "content"] : ["description", "encoded"]));
+    const published = childText(item, atom ? ["published", "updated"] : ["pubDate", "date"]);
+    const id = childText(item, atom ? ["id"] : ["guid"]) ?? link ?? (title ? `${title}|${published ?? ""}` : undefined);
+    if (!id) return [];
+
+    const parsed: FeedItem = { id, title };
+    if (link) parsed.link = link;
+    if (summary) parsed.summary = summary.slice(0, 2000);
+    if (published) {
+      const date = new Date(published);
+      parsed.published = Number.isNaN(date.getTime()) ? published : date.toISOString();
+    }
+    return [parsed];
+  });
+}
+
+/** Feed items not seen before, oldest first */
+export function newFeedItems(
+  items: FeedItem[],
+  seen: string[] | undefined,
+  config: Pick<FeedConfig, "titlePattern" | "fireOnFirstCheck">,
+): { items: FeedItem[]; seen: string[] } {
+  const known = new Set(seen ?? []);
+  // Feeds list newest first; fire in publication order
+  const fresh = items.filter(item => !known.has(item.id)).reverse();
+  const nextSeen = [...(seen ?? []), ...fresh.map(item => item.id)].slice(-MAX_SEEN_FEED_ITEMS);
+
+  if (!seen && !config.fireOnFirstCheck) {
+    return { items: [], seen: nextSeen };
+  }
+  const pattern = config.titlePattern ? new RegExp(config.titlePattern, "i") : null;
+  return { items: pattern ? fresh.filter(item => pattern.test(item.title)) : fresh, seen: nextSeen };
+}
+
+// ============================================================================
+// HTTP POLLING
+// ============================================================================
+
+type JsonPathSegment = string | number | "*";
+
+/** $.a.b[0]['c d'][*] into its segments */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`JSON path must start with "$": ${path}`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  const pattern = /\.(\*|[A-Za-z_$][\w$-]*)|\[(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\]/y;
+  let index = 1;
+  while (index < trimmed.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(trimmed);
+    if (!match) {
+      throw new Error(`Invalid JSON path at "${trimmed.slice(index)}"`);
+    }
+    const token = match[1] ?? match[2];
+    if (token === "*") {
+      segments.push("*");
+    } else if (/^\d+$/.test(token) && match[2] !== undefined) {
+      segments.push(Number(token));
+    } else if (match[2] !== undefined) {
+      segments.push(token.slice(1, -1).replace(/\\(.)/g, "$1"));
+    } else {
+      segments.push(token);
+    }
+    index = pattern.lastIndex;
+  }
+  return segments;
+}
+
+/**
+ * The value at a JSON path. A wildcard collects every child, so the
+ * result of a path with one is a list.
+ */
+export function selectJsonPath(value: unknown, path: string): unknown {
+  let current: unknown[] = [value];
+  let collecting = false;
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const node of current) {
+      if (node === null || typeof node !== "object") continue;
+      if (segment === "*") {
+        collecting = true;
+        next.push(...(Array.isArray(node) ? node : Object.values(node)));
+      } else if (Object.prototype.hasOwnProperty.call(node, segment)) {
+        next.push((node as Record<string | number, unknown>)[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return collecting ? current : current[0];
+}
+
+/** Whether the watched value differs from the one seen last time */
+export function detectValueChange(
+  previous: string | undefined,
+  value: unknown,
+  config: Pick<HttpPollConfig, "fireOnFirstCheck">,
+): { changed: boolean; value: string; previousValue?: unknown } {
+  const serialized = JSON.stringify(value ?? null);
+  if (previous === undefined) {
+    return { changed: config.fireOnFirstCheck, value: serialized };
+  }
+  return {
+    changed: serialized !== previous,
+    value: serialized,
+    previousValue: JSON.parse(previous),
+  };
+}
+
+// ============================================================================
+// CALENDAR EVENTS
+// ============================================================================
+
+/** The parts of a Google Calendar event a trigger looks at */
+export interface CalendarEvent {
+  id?: string | null;
+  summary?: string | null;
+  status?: string | null;
+  location?: string | null;
+  htmlLink?: string | null;
+  start?: { dateTime?: string | null; date?: string | null } | null;
+  end?: { dateTime?: string | null; date?: string | null } | null;
+}
+
+export interface DueCalendarEvent {
+  key: string;
+  event: CalendarEvent;
+  start: Date;
+}
+
+/**
+ * Timed events starting within minutesBefore that have not fired yet. An
+ * event that already started is never fired late; all-day events have no
+ * start time to count back from and are ignored.
+ */
+export function dueCalendarEvents(
+  events: CalendarEvent[],
+  fired: Record<string, number> | undefined,
+  config: Pick<CalendarEventConfig, "minutesBefore" | "titlePattern">,
+  now: Date,
+): { due: DueCalendarEvent[]; fired: Record<string, number> } {
+  const pattern = config.titlePattern ? new RegExp(config.titlePattern, "i") : null;
+  const nextFired: Record<string, number> = {};
+
+  // Forget events that have started; they can no longer come due
+  for (const [key, start] of Object.entries(fired ?? {})) {
+    if (start > now.getTime()) nextFired[key] = start;
+  }
+
+  const due: DueCalendarEvent[] = [];
+  for (const event of events) {
+    if (!event.id || !event.start?.dateTime || event.status === "cancelled") continue;
+    if (pattern && !pattern.test(event.summary ?? "")) continue;
+
+    const start = new Date(event.start.dateTime);
+    const startMs = start.getTime();
+    if (Number.isNaN(startMs) || startMs <= now.getTime()) continue;
+    if (startMs - config.minutesBefore * 60 * 1000 > now.getTime()) continue;
+
+    // Keyed by start time too, so a rescheduled event fires again
+    const key = `${event.id}@${start.toISOString()}`;
+    if (key in nextFired) continue;
+
+    nextFired[key] = startMs;
+    due.push({ key, event, start });
+  }
+
+  return { due, fired: nextFired };
+}
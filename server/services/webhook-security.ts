@@ -0,0 +1,159 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - WEBHOOK SECURITY
+ * =============================================================================
+ *
+ * Checks an inbound webhook delivery before its trigger fires. Pure, so
+ * TriggerService only does the storage.
+ *
+ * Signature schemes (config.signature, keyed by the trigger's webhookSecret):
+ *   secret  X-Webhook-Secret equals the secret (no secret: anyone may call)
+ *   github  X-Hub-Signature-256: sha256=HMAC(secret, body), as GitHub signs
+ *   hmac    X-Webhook-Signature: sha256=HMAC(secret, "<timestamp>.<body>"),
+ *           with X-Webhook-Timestamp in Unix seconds
+ *
+ * Replays: hmac rejects timestamps outside config.toleranceSeconds, and every
+ * scheme returns nonces that the caller records, so one delivery fires once.
+ * A nonce must be covered by the signature, or a captured delivery could be
+ * resent with a fresh id header:
+ *   secret  X-Webhook-Id (the secret itself signs nothing)
+ *   github  X-GitHub-Delivery plus a digest of signature and body, so
+ *           swapping or dropping the delivery header does not help
+ *   hmac    the signature (normalised), which covers the timestamp and body
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { selectJsonPath, type WebhookConfig } from "./trigger-sources";
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export type WebhookVerification =
+  | { ok: true; nonces: string[] }
+  | { ok: false; error: string };
+
+/** Headers that carry credentials; never written to the delivery log */
+const REDACTED_HEADERS = new Set(["authorization", "cookie", "proxy-authorization", "x-webhook-secret"]);
+
+function header(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Constant-time string comparison; digests first so lengths do not leak */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHmac("sha256", "meowstic-webhook").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+export function signWebhookPayload(secret: string, payload: string | Buffer): string {
+  return `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+/**
+ * Check a delivery against the trigger's signature scheme. rawBody must be
+ * the bytes as received: re-serialised JSON does not match the signature.
+ */
+export function verifyWebhookRequest(
+  request: { headers: WebhookHeaders; rawBody?: Buffer },
+  secret: string | null | undefined,
+  config: Pick<WebhookConfig, "signature" | "toleranceSeconds">,
+  now: number,
+): WebhookVerification {
+  const body = request.rawBody ?? Buffer.alloc(0);
+  const id = header(request.headers, "x-webhook-id");
+
+  switch (config.signature) {
+    case "secret": {
+      const nonces = id ? [id] : [];
+      if (!secret) return { ok: true, nonces };
+      const given = header(request.headers, "x-webhook-secret");
+      return given && safeEqual(given, secret)
+        ? { ok: true, nonces }
+        : { ok: false, error: "Invalid webhook secret" };
+    }
+
+    case "github": {
+      if (!secret) return { ok: false, error: "No webhook secret is set for this trigger" };
+      const signature = header(request.headers, "x-hub-signature-256");
+      if (!signature) return { ok: false, error: "Missing X-Hub-Signature-256 header" };
+      if (!safeEqual(signature.trim().toLowerCase(), signWebhookPayload(secret, body))) {
+        return { ok: false, error: "Invalid signature" };
+      }
+      const delivery = header(request.headers, "x-github-delivery");
+      const digest = createHash("sha256").update(signature.trim().toLowerCase()).update(body).digest("hex");
+      return { ok: true, nonces: [...(delivery ? [delivery] : []), `sha256:${digest}`] };
+    }
+
+    case "hmac": {
+      if (!secret) return { ok: false, error: "No webhook secret is set for this trigger" };
+      const timestamp = header(request.headers, "x-webhook-timestamp");
+      const signature = header(request.headers, "x-webhook-signature");
+      if (!timestamp || !signature) {
+        return { ok: false, error: "Missing X-Webhook-Timestamp or X-Webhook-Signature header" };
+      }
+      const seconds = Number(timestamp);
+      if (!/^\d+$/.test(timestamp.trim()) || Math.abs(now / 1000 - seconds) > config.toleranceSeconds) {
+        return { ok: false, error: "Timestamp outside the allowed window" };
+      }
+      const expected = signWebhookPayload(secret, Buffer.concat([Buffer.from(`${timestamp.trim()}.`), body]));
+      const given = signature.trim().toLowerCase();
+      if (!safeEqual(given.startsWith("sha256=") ? given : `sha256=${given}`, expected)) {
+        return { ok: false, error: "Invalid signature" };
+      }
+      // Neither X-Webhook-Id nor the signature's prefix and hex case are
+      // signed, so the nonce is the normalised signature: a resend that
+      // changes any of them is still the same delivery
+      return { ok: true, nonces: [expected] };
+    }
+  }
+}
+
+/**
+ * Sliding-window rate limit: the request times still inside the window, and
+ * whether one more fits
+ */
+export function consumeRateLimit(
+  hits: number[] | undefined,
+  now: number,
+  limit: WebhookConfig["rateLimit"],
+): { allowed: boolean; hits: number[]; retryAfterSeconds?: number } {
+  const windowMs = limit.windowSeconds * 1000;
+  const recent = (hits ?? []).filter(time => now - time < windowMs);
+  if (recent.length >= limit.maxRequests) {
+    return { allowed: false, hits: recent, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+  }
+  return { allowed: true, hits: [...recent, now] };
+}
+
+/** The event fields a payload maps to; paths that match nothing are left out */
+export function mapWebhookPayload(payload: unknown, mapping: WebhookConfig["mapping"]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [field, path] of Object.entries(mapping)) {
+    const value = selectJsonPath(payload, path);
+    if (value !== undefined) fields[field] = value;
+  }
+  return fields;
+}
+
+/** A recorded body parsed the way the live request was, for replays */
+export function parseWebhookBody(body: string | null | undefined, contentType: string | undefined): unknown {
+  if (!body) return {};
+  if (contentType?.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/** Headers as logged: single strings, credentials removed */
+export function redactWebhookHeaders(headers: WebhookHeaders): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || REDACTED_HEADERS.has(name.toLowerCase())) continue;
+    kept[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return kept;
+}
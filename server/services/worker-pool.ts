@@ -82,7 +82,6 @@ class WorkerPoolService {
     try {
       const worker = createAgentWorker({
         name,
-        model: "gemini-2.5-pro",
         ...config,
       });
 
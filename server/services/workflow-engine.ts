@@ -0,0 +1,588 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - WORKFLOW ENGINE
+ * =============================================================================
+ *
+ * Runs DSL workflows (see @shared/workflow-dsl). Each run is a
+ * workflow_runs row holding a snapshot of the definition and every step's
+ * state, plus a "workflow" agent job that stands for the whole run in the
+ * queue and in schedule history. Steps become ordinary prompt/tool jobs,
+ * children of that job, started once their dependencies finish with
+ * templates filled in from earlier results.
+ *
+ * Jobs are executed by either the job queue or the dispatcher's worker
+ * pool, and only the queue emits events, so runs are reconciled against
+ * agent_jobs on a short poll as well as on job events. Reconciling is
+ * idempotent and serialized per run, so running runs simply carry on
+ * after a restart.
+ *
+ * Approval steps start no worker job: approvalService parks one in
+ * waiting_input and completes it with the operator's decision, which then
+ * settles like any other step's result.
+ *
+ * Workflows without a definition keep going through workflowExecutor's
+ * sequential step list.
+ */
+
+import { getDb } from "../db";
+import {
+  agentJobs,
+  jobResults,
+  workflowRuns,
+  type AgentJob,
+  type JobResult,
+  type Workflow,
+  type WorkflowRun,
+} from "@shared/schema";
+import {
+  buildTemplateContext,
+  evaluateCondition,
+  nextWorkflowActions,
+  normalizeStepOutput,
+  renderTemplate,
+  renderTemplateText,
+  resolveForEachItems,
+  resolveWorkflowInputs,
+  validateWorkflowDefinition,
+  workflowRunStatus,
+  workflowStepDependencies,
+  type TemplateContext,
+  type WorkflowDefinition,
+  type WorkflowIssue,
+  type WorkflowRunStatus,
+  type WorkflowStep,
+  type WorkflowStepState,
+  type WorkflowStepStates,
+} from "@shared/workflow-dsl";
+import { queuePriorityToJobPriority } from "@shared/queue";
+import { approvalStepResult, type ApprovalOutcome } from "@shared/approvals";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { approvalService } from "./approval-service";
+import { jobDispatcher } from "./job-dispatcher";
+import { jobQueue, type JobPayload, type JobSubmission } from "./job-queue";
+import { workflowExecutor } from "./workflow-executor";
+
+const POLL_INTERVAL_MS = 2000;
+
+/** worker_id of run jobs: the engine, not a queue, owns them */
+const ENGINE_WORKER_ID = "workflow-engine";
+
+const FINISHED_JOB_STATUSES = ["completed", "failed", "cancelled", "dead_letter"];
+
+export class WorkflowDefinitionError extends Error {
+  constructor(public readonly issues: WorkflowIssue[]) {
+    super(`Invalid workflow definition: ${issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join("; ")}`);
+    this.name = "WorkflowDefinitionError";
+  }
+}
+
+export interface WorkflowRunOptions {
+  inputs?: Record<string, unknown>;
+  /** Added to every step job's context, e.g. the schedule that started the run */
+  context?: Record<string, unknown>;
+  /** Jobs the first steps wait for */
+  dependencies?: string[];
+  /** Hold the first steps until this time */
+  startAt?: Date;
+}
+
+/** One step job of a run, as the workflow editor overlays it */
+export interface WorkflowRunJob {
+  id: string;
+  name: string;
+  stepId: string;
+  /** Position in the forEach list, for forEach steps */
+  itemIndex: number | null;
+  status: string;
+  input: Pick<JobPayload, "prompt" | "systemPrompt" | "toolName" | "toolArgs">;
+  output: unknown;
+  error: string | null;
+  durationMs: number | null;
+  retryCount: number;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+class WorkflowEngine {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private unsubscribeFromJobEvents: (() => void) | null = null;
+  /** Per-run chain of pending operations, so two never interleave */
+  private runQueues = new Map<string, Promise<unknown>>();
+  private pendingReconciles = new Set<string>();
+
+  async start(): Promise<void> {
+    if (this.pollTimer) return;
+
+    this.unsubscribeFromJobEvents = jobQueue.onJobEvent(event => {
+      if (event.type !== "completed" && event.type !== "failed" && event.type !== "cancelled") return;
+      const runId = (event.job?.payload as JobPayload | undefined)?.context?.workflowRunId;
+      if (typeof runId === "string") {
+        void this.reconcile(runId);
+      }
+    });
+    this.pollTimer = setInterval(() => void this.reconcileAll(), POLL_INTERVAL_MS);
+    approvalService.start();
+
+    await this.reconcileAll();
+    console.log("[WorkflowEngine] Started");
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.unsubscribeFromJobEvents?.();
+    this.unsubscribeFromJobEvents = null;
+    approvalService.stop();
+    console.log("[WorkflowEngine] Stopped");
+  }
+
+  /**
+   * Start a run of a workflow that has a DSL definition. Returns the job
+   * standing for the run.
+   */
+  async startRun(workflow: Workflow, options: WorkflowRunOptions = {}): Promise<AgentJob> {
+    const validation = validateWorkflowDefinition(workflow.definition, { inputs: options.inputs ?? {} });
+    if (!validation.valid || !validation.definition) {
+      throw new WorkflowDefinitionError(validation.errors);
+    }
+
+    // Like the dispatcher, the engine starts with its first piece of work
+    await this.start();
+
+    const definition = validation.definition;
+    const { inputs } = resolveWorkflowInputs(definition, options.inputs);
+    const runId = nanoid();
+    const now = new Date();
+
+    const [job] = await getDb().insert(agentJobs).values({
+      name: workflow.name,
+      type: "workflow",
+      status: "running",
+      payload: {
+        context: { ...options.context, workflowId: workflow.id, workflowRunId: runId },
+      } satisfies JobPayload,
+      dependencies: options.dependencies ?? [],
+      scheduledFor: options.startAt,
+      workerId: ENGINE_WORKER_ID,
+      maxRetries: 0,
+      timeout: (workflow.timeoutSeconds ?? 3600) * 1000,
+      startedAt: now,
+    }).returning();
+
+    await getDb().insert(workflowRuns).values({
+      id: runId,
+      workflowId: workflow.id,
+      definition,
+      inputs,
+      status: "running",
+      steps: Object.fromEntries(definition.steps.map(step => [step.id, { status: "pending", jobIds: [] }])),
+      jobId: job.id,
+    });
+
+    console.log(`[WorkflowEngine] Started run ${runId} of ${workflow.name} (${definition.steps.length} steps)`);
+    await this.reconcile(runId);
+    return job;
+  }
+
+  async getRun(runId: string): Promise<WorkflowRun | undefined> {
+    const [run] = await getDb().select().from(workflowRuns).where(eq(workflowRuns.id, runId));
+    return run;
+  }
+
+  async getRunByJob(jobId: string): Promise<WorkflowRun | undefined> {
+    const [run] = await getDb().select().from(workflowRuns).where(eq(workflowRuns.jobId, jobId));
+    return run;
+  }
+
+  async getRuns(workflowId: string, limit: number = 20): Promise<WorkflowRun[]> {
+    return getDb().select()
+      .from(workflowRuns)
+      .where(eq(workflowRuns.workflowId, workflowId))
+      .orderBy(desc(workflowRuns.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Every job a run started, with what it was given and what it returned
+   */
+  async getRunJobs(run: WorkflowRun): Promise<WorkflowRunJob[]> {
+    const jobIds = Object.values(run.steps as WorkflowStepStates).flatMap(state => state.jobIds);
+    if (jobIds.length === 0) return [];
+
+    const jobs = await getDb().select().from(agentJobs).where(inArray(agentJobs.id, jobIds));
+    const results = await getDb().select().from(jobResults).where(inArray(jobResults.jobId, jobIds));
+    const resultByJob = new Map<string, JobResult>(results.map((result: JobResult) => [result.jobId, result]));
+
+    return jobs.map((job: AgentJob) => {
+      const payload = job.payload as JobPayload;
+      const result = resultByJob.get(job.id);
+      return {
+        id: job.id,
+        name: job.name,
+        stepId: String(payload.context?.workflowStepId ?? ""),
+        itemIndex: typeof payload.context?.workflowItemIndex === "number" ? payload.context.workflowItemIndex : null,
+        status: job.status,
+        input: { prompt: payload.prompt, systemPrompt: payload.systemPrompt, toolName: payload.toolName, toolArgs: payload.toolArgs },
+        output: result?.output ?? null,
+        error: result?.error ?? job.lastError ?? null,
+        durationMs: result?.durationMs ?? null,
+        retryCount: job.retryCount ?? 0,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+      };
+    });
+  }
+
+  /**
+   * Stop a running run: pending steps are skipped and unfinished step
+   * jobs cancelled
+   */
+  async cancelRun(runId: string): Promise<boolean> {
+    return this.serialize(runId, async () => {
+      const run = await this.getRun(runId);
+      if (run?.status !== "running") return false;
+      await this.finish(run, { ...(run.steps as WorkflowStepStates) }, "cancelled", "Cancelled");
+      return true;
+    });
+  }
+
+  /**
+   * Pick a failed or cancelled run up where it stopped: steps that failed
+   * or never ran start again, completed steps keep their output
+   */
+  async retryRun(runId: string): Promise<boolean> {
+    const retried = await this.serialize(runId, async () => {
+      const run = await this.getRun(runId);
+      if (run?.status !== "failed" && run?.status !== "cancelled") return false;
+
+      const steps: WorkflowStepStates = {};
+      for (const [id, state] of Object.entries(run.steps as WorkflowStepStates)) {
+        const rerun = state.status === "failed" || (state.status === "skipped" && state.reason?.startsWith("Run "));
+        steps[id] = rerun ? { status: "pending", jobIds: [] } : state;
+      }
+
+      await getDb().update(workflowRuns)
+        .set({ status: "running", steps, error: null, completedAt: null, updatedAt: new Date() })
+        .where(eq(workflowRuns.id, runId));
+      if (run.jobId) {
+        await getDb().update(agentJobs)
+          .set({ status: "running", workerId: ENGINE_WORKER_ID, startedAt: new Date(), completedAt: null, lastError: null })
+          .where(eq(agentJobs.id, run.jobId));
+      }
+      return true;
+    });
+
+    if (retried) {
+      await this.start();
+      await this.reconcile(runId);
+    }
+    return retried;
+  }
+
+  /** Run the operations of one run one at a time */
+  private serialize<T>(runId: string, task: () => Promise<T>): Promise<T> {
+    const next = (this.runQueues.get(runId) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(task);
+    this.runQueues.set(runId, next);
+    void next.catch(() => undefined).finally(() => {
+      if (this.runQueues.get(runId) === next) this.runQueues.delete(runId);
+    });
+    return next;
+  }
+
+  /** Bring a run up to date; calls made while one is already waiting fold into it */
+  private async reconcile(runId: string): Promise<void> {
+    if (this.pendingReconciles.has(runId)) return;
+    this.pendingReconciles.add(runId);
+
+    try {
+      await this.serialize(runId, () => {
+        this.pendingReconciles.delete(runId);
+        return this.advance(runId);
+      });
+    } catch (error) {
+      this.pendingReconciles.delete(runId);
+      console.error(`[WorkflowEngine] Failed to advance run ${runId}:`, error);
+    }
+  }
+
+  private async reconcileAll(): Promise<void> {
+    try {
+      const running = await getDb().select({ id: workflowRuns.id })
+        .from(workflowRuns)
+        .where(eq(workflowRuns.status, "running"));
+      for (const run of running) {
+        await this.reconcile(run.id);
+      }
+    } catch (error) {
+      console.error("[WorkflowEngine] Poll error:", error);
+    }
+  }
+
+  private async advance(runId: string): Promise<void> {
+    const run = await this.getRun(runId);
+    if (run?.status !== "running") return;
+
+    const definition = run.definition as WorkflowDefinition;
+    const inputs = (run.inputs ?? {}) as Record<string, unknown>;
+    const states: WorkflowStepStates = { ...(run.steps as WorkflowStepStates) };
+    const runJob = run.jobId ? await jobQueue.getJob(run.jobId) : null;
+
+    if (runJob?.status === "cancelled") {
+      await this.finish(run, states, "cancelled", "Cancelled");
+      return;
+    }
+    const startedAt = runJob?.startedAt ?? run.createdAt;
+    if (runJob?.timeout && Date.now() - startedAt.getTime() > runJob.timeout) {
+      await this.finish(run, states, "failed", `Timed out after ${Math.round(runJob.timeout / 1000)}s`);
+      return;
+    }
+
+    let changed = false;
+    for (const step of definition.steps) {
+      const state = states[step.id];
+      if (state?.status !== "running") continue;
+      const settled = await this.settleStep(step, state);
+      if (settled) {
+        states[step.id] = settled;
+        changed = true;
+      }
+    }
+
+    const dependencies = workflowStepDependencies(definition);
+    while (workflowRunStatus(definition, states) === "running") {
+      const { start, skip } = nextWorkflowActions(definition, states);
+      if (start.length === 0 && skip.length === 0) break;
+
+      const now = new Date().toISOString();
+      for (const { id, reason } of skip) {
+        states[id] = { status: "skipped", jobIds: [], reason, finishedAt: now };
+      }
+      for (const id of start) {
+        const step = definition.steps.find(candidate => candidate.id === id)!;
+        const isRoot = dependencies[id].length === 0;
+        states[id] = await this.startStep(run, runJob, definition, step, buildTemplateContext(inputs, states), isRoot);
+        // Saved per step so a crash never re-submits jobs that already exist
+        await this.saveSteps(run.id, states);
+      }
+      changed = true;
+    }
+
+    const status = workflowRunStatus(definition, states);
+    if (status !== "running") {
+      const failed = definition.steps.find(step => states[step.id]?.status === "failed");
+      await this.finish(run, states, status, failed ? `Step ${failed.id} failed: ${states[failed.id].error}` : null);
+    } else if (changed) {
+      await this.saveSteps(run.id, states);
+    }
+  }
+
+  /**
+   * Start one step: skip it when its condition is false, otherwise submit
+   * its job (one per item for forEach steps)
+   */
+  private async startStep(
+    run: WorkflowRun,
+    runJob: AgentJob | null,
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    context: TemplateContext,
+    isRoot: boolean,
+  ): Promise<WorkflowStepState> {
+    const startedAt = new Date().toISOString();
+
+    try {
+      if (step.when !== undefined && !evaluateCondition(step.when, context)) {
+        return { status: "skipped", jobIds: [], reason: "Condition was false", startedAt, finishedAt: startedAt };
+      }
+
+      const runContext = (runJob?.payload as JobPayload | undefined)?.context ?? {};
+      if (step.type === "approval") {
+        const { job } = await approvalService.request({
+          name: `${runJob?.name ?? definition.name ?? "Workflow"}: ${step.name ?? step.id}`,
+          title: renderTemplateText(step.title, context),
+          summary: step.summary ? renderTemplateText(step.summary, context) : undefined,
+          parameters: renderTemplate(step.parameters ?? {}, context) as Record<string, unknown>,
+          expiresAfterSeconds: step.expiresAfterSeconds,
+          onExpiry: step.onExpiry,
+          notify: step.notify,
+          parentJobId: run.jobId ?? undefined,
+          context: { ...runContext, workflowRunId: run.id, workflowStepId: step.id },
+        });
+        return { status: "running", jobIds: [job.id], startedAt };
+      }
+
+      const items = step.forEach !== undefined ? resolveForEachItems(step, context) : null;
+      if (items?.length === 0) {
+        return { status: "completed", jobIds: [], output: [], startedAt, finishedAt: startedAt };
+      }
+
+      const jobIds: string[] = [];
+      const targets = items ?? [undefined];
+      for (let index = 0; index < targets.length; index++) {
+        const { type, payload } = this.buildStepJob(step, items ? { ...context, item: targets[index], index } : context);
+        const job = await jobDispatcher.submitJob({
+          name: `${runJob?.name ?? definition.name ?? "Workflow"}: ${step.name ?? step.id}${items ? ` [${index + 1}/${items.length}]` : ""}`,
+          type,
+          payload: {
+            ...payload,
+            context: {
+              ...runContext,
+              ...payload.context,
+              workflowRunId: run.id,
+              workflowStepId: step.id,
+              ...(items ? { workflowItemIndex: index } : {}),
+            },
+          },
+          priority: queuePriorityToJobPriority(step.priority ?? 5),
+          parentJobId: run.jobId ?? undefined,
+          // The run's own wait (schedule concurrency, jitter) holds back its first steps
+          dependencies: isRoot ? runJob?.dependencies ?? undefined : undefined,
+          scheduledFor: isRoot ? runJob?.scheduledFor ?? undefined : undefined,
+          maxRetries: this.maxRetries(definition, step),
+          timeout: this.timeoutMs(definition, step),
+        });
+        jobIds.push(job.id);
+      }
+
+      return { status: "running", jobIds, startedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: "failed", jobIds: [], error: message, startedAt, finishedAt: new Date().toISOString() };
+    }
+  }
+
+  private buildStepJob(step: WorkflowStep, context: TemplateContext): Pick<JobSubmission, "type" | "payload"> {
+    const payload: JobPayload = { agentId: step.agentId };
+
+    switch (step.type) {
+      case "prompt":
+        payload.prompt = renderTemplateText(step.prompt, context);
+        payload.systemPrompt = step.systemPrompt ? renderTemplateText(step.systemPrompt, context) : undefined;
+        return { type: "prompt", payload };
+      case "tool":
+        payload.toolName = step.tool;
+        payload.toolArgs = renderTemplate(step.args ?? {}, context) as Record<string, unknown>;
+        return { type: "tool", payload };
+      case "task":
+        payload.prompt = renderTemplateText(step.description, context);
+        payload.systemPrompt = workflowExecutor.getSystemPromptForType(step.taskType);
+        payload.context = {
+          ...(renderTemplate(step.input ?? {}, context) as Record<string, unknown>),
+          legacyTaskType: step.taskType,
+        };
+        return { type: "prompt", payload };
+      case "approval":
+        throw new Error(`Approval step "${step.id}" does not run as a job`);
+    }
+  }
+
+  /** Per-step attempts, falling back to the workflow's defaults, then the queue's */
+  private maxRetries(definition: WorkflowDefinition, step: WorkflowStep): number | undefined {
+    const retry = step.retry ?? definition.defaults?.retry;
+    return retry ? retry.maxAttempts - 1 : undefined;
+  }
+
+  private timeoutMs(definition: WorkflowDefinition, step: WorkflowStep): number | undefined {
+    const seconds = step.timeoutSeconds ?? definition.defaults?.timeoutSeconds;
+    return seconds ? seconds * 1000 : undefined;
+  }
+
+  /**
+   * The step's state once all of its jobs finished, or null while any is
+   * still going
+   */
+  private async settleStep(step: WorkflowStep, state: WorkflowStepState): Promise<WorkflowStepState | null> {
+    const finishedAt = new Date().toISOString();
+    const jobs = state.jobIds.length > 0
+      ? await getDb().select().from(agentJobs).where(inArray(agentJobs.id, state.jobIds))
+      : [];
+
+    if (jobs.length < state.jobIds.length) {
+      return { ...state, status: "failed", error: "A step job was deleted", finishedAt };
+    }
+    if (jobs.some((job: AgentJob) => !FINISHED_JOB_STATUSES.includes(job.status))) {
+      return null;
+    }
+
+    const results = await getDb().select().from(jobResults).where(inArray(jobResults.jobId, state.jobIds));
+    const resultByJob = new Map<string, JobResult>(results.map((result: JobResult) => [result.jobId, result]));
+
+    const failed = jobs.find((job: AgentJob) => job.status !== "completed");
+    if (failed) {
+      const error = resultByJob.get(failed.id)?.error ?? failed.lastError ?? `Job ${failed.status}`;
+      return { ...state, status: "failed", error: `${failed.name}: ${error}`, finishedAt };
+    }
+
+    const outputs = state.jobIds.map(id => normalizeStepOutput(resultByJob.get(id)?.output ?? null));
+    if (step.type === "approval") {
+      const outcome = outputs[0] as ApprovalOutcome;
+      return { ...state, ...approvalStepResult(outcome, step.onReject), output: outcome, finishedAt };
+    }
+    return {
+      ...state,
+      status: "completed",
+      output: step.forEach !== undefined ? outputs : outputs[0],
+      finishedAt,
+    };
+  }
+
+  private async saveSteps(runId: string, steps: WorkflowStepStates): Promise<void> {
+    await getDb().update(workflowRuns)
+      .set({ steps, updatedAt: new Date() })
+      .where(eq(workflowRuns.id, runId));
+  }
+
+  /**
+   * Close a run and the job standing for it. Steps that had not finished
+   * are stopped.
+   */
+  private async finish(
+    run: WorkflowRun,
+    states: WorkflowStepStates,
+    status: Exclude<WorkflowRunStatus, "running">,
+    error: string | null,
+  ): Promise<void> {
+    const now = new Date();
+
+    for (const [id, state] of Object.entries(states)) {
+      if (state.status === "pending") {
+        states[id] = { ...state, status: "skipped", reason: `Run ${status}` };
+      } else if (state.status === "running") {
+        await Promise.all(state.jobIds.map(jobId => jobQueue.cancelJob(jobId)));
+        await approvalService.cancelForJobs(state.jobIds);
+        states[id] = { ...state, status: "failed", error: `Stopped: run ${status}`, finishedAt: now.toISOString() };
+      }
+    }
+
+    await getDb().update(workflowRuns)
+      .set({ status, steps: states, error, updatedAt: now, completedAt: now })
+      .where(eq(workflowRuns.id, run.id));
+
+    if (run.jobId) {
+      const outputs = Object.fromEntries(Object.entries(states).map(([id, state]) => [id, state.output ?? null]));
+      const result = {
+        jobId: run.jobId,
+        success: status === "completed",
+        output: { workflowRunId: run.id, steps: outputs },
+        error,
+        durationMs: now.getTime() - run.createdAt.getTime(),
+      };
+
+      await getDb().update(agentJobs)
+        .set({ status, completedAt: now, lastError: error })
+        .where(and(eq(agentJobs.id, run.jobId), eq(agentJobs.workerId, ENGINE_WORKER_ID)));
+      await getDb().insert(jobResults)
+        .values(result)
+        .onConflictDoUpdate({ target: jobResults.jobId, set: { ...result, createdAt: now } });
+    }
+
+    console.log(`[WorkflowEngine] Run ${run.id} ${status}${error ? `: ${error}` : ""}`);
+  }
+}
+
+export const workflowEngine = new WorkflowEngine();
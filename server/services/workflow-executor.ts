@@ -19,18 +19,8 @@ import { dependencyResolver } from "./dependency-resolver";
 import { getDb } from "../db";
 import { agentJobs, type AgentJob } from "@shared/schema";
 import { eq } from "drizzle-orm";
-
-// Legacy task types mapped to new job types
-const TASK_TYPE_TO_JOB_TYPE: Record<string, "prompt" | "tool" | "composite" | "workflow"> = {
-  research: "prompt",
-  analysis: "prompt", 
-  synthesis: "prompt",
-  action: "tool",
-  fetch: "tool",
-  transform: "tool",
-  validate: "tool",
-  notify: "tool",
-};
+import { queuePriorityToJobPriority } from "@shared/queue";
+import { TASK_TYPE_TO_JOB_TYPE } from "./queue/legacy";
 
 // Event callback type for backward compatibility
 type TaskEventCallback = (event: TaskEvent) => void;
@@ -48,6 +38,7 @@ interface LegacyTask {
   description?: string | null;
   taskType: string;
   input?: Record<string, unknown>;
+  /** 0-10, higher runs first (see @shared/queue) */
   priority?: number;
   dependencies?: string[];
   parentId?: string;
@@ -56,6 +47,8 @@ interface LegacyTask {
   workflowId?: string;
   scheduledBy?: string;
   scheduleName?: string;
+  /** Hold the job until this time */
+  scheduledFor?: Date;
 }
 
 class WorkflowExecutor {
@@ -213,10 +206,11 @@ class WorkflowExecutor {
         },
         systemPrompt: this.getSystemPromptForType(task.taskType),
       },
-      priority: task.priority ?? 5,
+      priority: queuePriorityToJobPriority(task.priority ?? 5),
       dependencies: task.dependencies,
       parentJobId: task.parentId,
       maxRetries: task.maxRetries ?? 3,
+      scheduledFor: task.scheduledFor,
     };
 
     const job = await jobDispatcher.submitJob(submission);
@@ -246,9 +240,11 @@ class WorkflowExecutor {
         },
         systemPrompt: this.getSystemPromptForType(task.taskType),
       },
-      priority: task.priority ?? 5,
+      priority: queuePriorityToJobPriority(task.priority ?? 5),
+      dependencies: task.dependencies,
       maxRetries: task.maxRetries ?? 3,
       executionMode: mode,
+      scheduledFor: task.scheduledFor,
     }));
 
     return jobDispatcher.submitWorkflow(name, steps, mode);
@@ -364,7 +360,7 @@ class WorkflowExecutor {
     return workerPool.scaleDown();
   }
 
-  private getSystemPromptForType(taskType: string): string {
+  getSystemPromptForType(taskType: string): string {
     switch (taskType) {
       case "research":
         return "You are a research assistant. Provide comprehensive, well-researched information on the given topic.";
@@ -13,6 +13,9 @@ import {
   DEFAULT_DISPLAY_NAME,
   DEFAULT_BRAND_COLOR,
   chats,
+  chatFolders,
+  type ChatFolder,
+  type InsertChatFolder,
   messages,
   type Chat,
   type Message,
@@ -38,12 +41,20 @@ import {
   triggers,
   type Trigger,
   type InsertTrigger,
+  triggerEvents,
+  webhookDeliveries,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
   workflows,
   type Workflow,
   type InsertWorkflow,
   schedules,
   type Schedule,
   type InsertSchedule,
+  scheduleRuns,
+  type ScheduleRun,
+  type InsertScheduleRun,
+  agentJobs,
   agentIdentities,
   type AgentIdentity,
   type InsertAgentIdentity,
@@ -75,9 +86,23 @@ import {
   conversationSummaries,
   type ConversationSummaryRecord,
   type InsertConversationSummary,
+  retrievalChunks,
+  type RetrievalChunk,
+  type InsertRetrievalChunk,
 } from "@shared/schema";
+import {
+  activePath,
+  branchInfo,
+  linearParents,
+  newestLeaf,
+  pagePath,
+  sortByCreated,
+  type MessageBranchInfo,
+  type PathPage,
+} from "@shared/message-tree";
+import type { AgentPanel } from "@shared/agent-panel";
 import { db, pool } from "./db";
-import { eq, desc, and, ne, sql, inArray, or } from "drizzle-orm";
+import { eq, desc, and, ne, sql, inArray, or, isNull, isNotNull, lt } from "drizzle-orm";
 // import session from "express-session";
 
 export class DatabaseStorage {
@@ -185,18 +210,140 @@ export class DatabaseStorage {
     return chat;
   }
 
-  async getChats(userId?: string): Promise<Chat[]> {
-    if (userId) {
-      return await db.select().from(chats).where(eq(chats.userId, userId)).orderBy(desc(chats.updatedAt));
+  /**
+   * Chats, most recently active first. `archived` picks active chats
+   * ("exclude"), archived ones ("only") or both ("include", the default).
+   */
+  async getChats(userId?: string, options: { archived?: "exclude" | "only" | "include" } = {}): Promise<Chat[]> {
+    const conditions = [];
+    if (userId) conditions.push(eq(chats.userId, userId));
+    if (options.archived === "exclude") conditions.push(isNull(chats.archivedAt));
+    if (options.archived === "only") conditions.push(isNotNull(chats.archivedAt));
+    return await db.select().from(chats).where(and(...conditions)).orderBy(desc(chats.updatedAt));
+  }
+
+  async getChatsByIds(ids: string[]): Promise<Chat[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(chats).where(inArray(chats.id, ids));
+  }
+
+  /**
+   * File, tag, pin or archive chats. Leaves updatedAt alone so organizing
+   * does not reorder the sidebar by recency.
+   */
+  async updateChatOrganization(
+    ids: string[],
+    changes: { folderId?: string | null; tags?: string[]; pinned?: boolean; archived?: boolean }
+  ): Promise<Chat[]> {
+    if (ids.length === 0) return [];
+    const now = new Date();
+    const set: Partial<typeof chats.$inferInsert> = {};
+    if (changes.folderId !== undefined) set.folderId = changes.folderId;
+    if (changes.tags !== undefined) set.tags = changes.tags;
+    if (changes.pinned !== undefined) set.pinnedAt = changes.pinned ? now : null;
+    if (changes.archived !== undefined) set.archivedAt = changes.archived ? now : null;
+    if (Object.keys(set).length === 0) return this.getChatsByIds(ids);
+    return await db.update(chats).set(set).where(inArray(chats.id, ids)).returning();
+  }
+
+  /**
+   * Delete chats; messages, attachments and tool logs go with them (cascade)
+   */
+  async deleteChats(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const deleted = await db.delete(chats).where(inArray(chats.id, ids)).returning({ id: chats.id });
+    return deleted.length;
+  }
+
+  /**
+   * Recreate an exported chat (see services/chat-export) in one transaction.
+   * Rows arrive with fresh ids and their original timestamps.
+   */
+  async importChat(
+    chat: typeof chats.$inferInsert,
+    rows: {
+      messages: Array<Omit<typeof messages.$inferInsert, "chatId">>;
+      attachments: Array<typeof attachments.$inferInsert>;
+      toolCallLogs: Array<Omit<typeof toolCallLogs.$inferInsert, "chatId">>;
+      activeLeafId: string | null;
     }
-    return await db.select().from(chats).orderBy(desc(chats.updatedAt));
+  ): Promise<Chat> {
+    return db.transaction((tx) => {
+      const created = tx.insert(chats).values(chat).returning().get();
+      for (const message of rows.messages) {
+        tx.insert(messages).values({ ...message, chatId: created.id }).run();
+      }
+      for (const attachment of rows.attachments) {
+        tx.insert(attachments).values(attachment).run();
+      }
+      for (const log of rows.toolCallLogs) {
+        tx.insert(toolCallLogs).values({ ...log, chatId: created.id }).run();
+      }
+      return tx.update(chats)
+        .set({ activeLeafId: rows.activeLeafId })
+        .where(eq(chats.id, created.id))
+        .returning()
+        .get();
+    });
+  }
+
+  // Chat Folder Operations
+
+  async getChatFolders(userId: string): Promise<ChatFolder[]> {
+    return await db.select().from(chatFolders)
+      .where(eq(chatFolders.userId, userId))
+      .orderBy(chatFolders.position, chatFolders.name);
+  }
+
+  async getChatFolder(id: string): Promise<ChatFolder | undefined> {
+    const [folder] = await db.select().from(chatFolders).where(eq(chatFolders.id, id));
+    return folder;
+  }
+
+  async createChatFolder(folder: InsertChatFolder): Promise<ChatFolder> {
+    const [created] = await db.insert(chatFolders).values(folder).returning();
+    return created;
+  }
+
+  async updateChatFolder(id: string, changes: Partial<Pick<ChatFolder, "name" | "parentId" | "position">>): Promise<ChatFolder | undefined> {
+    const [updated] = await db.update(chatFolders)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(chatFolders.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Delete a folder, moving its subfolders and chats up to its parent
+   */
+  async deleteChatFolder(id: string): Promise<boolean> {
+    const folder = await this.getChatFolder(id);
+    if (!folder) return false;
+    db.transaction((tx) => {
+      tx.update(chatFolders).set({ parentId: folder.parentId }).where(eq(chatFolders.parentId, id)).run();
+      tx.update(chats).set({ folderId: folder.parentId }).where(eq(chats.folderId, id)).run();
+      tx.delete(chatFolders).where(eq(chatFolders.id, id)).run();
+    });
+    return true;
   }
 
   // Message Operations
+
+  /**
+   * Add a message to the chat. Without an explicit parentId it continues the
+   * active branch; either way it becomes the chat's active leaf.
+   */
   async addMessage(insertMessage: InsertMessage): Promise<Message> {
-    const [message] = await db.insert(messages).values(insertMessage).returning();
-    // Update chat timestamp
-    await db.update(chats).set({ updatedAt: new Date() }).where(eq(chats.id, insertMessage.chatId));
+    let parentId = insertMessage.parentId;
+    if (parentId === undefined) {
+      const chat = await this.ensureMessageTree(insertMessage.chatId);
+      parentId = chat?.activeLeafId ?? null;
+    }
+    const [message] = await db.insert(messages).values({ ...insertMessage, parentId }).returning();
+    // Update chat timestamp and move the active branch to the new message
+    await db.update(chats)
+      .set({ updatedAt: new Date(), activeLeafId: message.id })
+      .where(eq(chats.id, insertMessage.chatId));
     return message;
   }
 
@@ -204,31 +351,87 @@ export class DatabaseStorage {
     return await db.select().from(messages).where(eq(messages.chatId, chatId)).orderBy(messages.createdAt);
   }
 
-  async getMessagesByChatId(chatId: string, options: { limit?: number; offset?: number; before?: string } = {}): Promise<Message[]> {
-    let query = db.select().from(messages).where(eq(messages.chatId, chatId)).orderBy(desc(messages.createdAt));
-    
-    if (options.limit) {
-      // @ts-ignore - Drizzle types can be tricky
-      query = query.limit(options.limit);
-    }
-    
-    if (options.offset) {
-      // @ts-ignore
-      query = query.offset(options.offset);
-    }
-    
-    let results = await query;
+  /**
+   * Link a pre-branching chat's messages into one chain and point the chat
+   * at its last message. No-op once the chat has an active leaf.
+   */
+  async ensureMessageTree(chatId: string): Promise<Chat | undefined> {
+    const chat = await this.getChat(chatId);
+    if (!chat || chat.activeLeafId) return chat;
 
-    // Cursor-based pagination: if 'before' is given, filter to messages older than that ID
-    if (options.before) {
-      const cursorIdx = results.findIndex(m => m.id === options.before);
-      if (cursorIdx !== -1) {
-        results = results.slice(cursorIdx + 1);
-      }
+    const all = await this.getMessages(chatId);
+    if (all.length === 0) return chat;
+
+    for (const link of linearParents(all)) {
+      await db.update(messages).set({ parentId: link.parentId }).where(eq(messages.id, link.id));
     }
+    const [updated] = await db.update(chats)
+      .set({ activeLeafId: sortByCreated(all)[all.length - 1].id })
+      .where(eq(chats.id, chatId))
+      .returning();
+    return updated;
+  }
 
+  /**
+   * Tree shape of a chat (no content), for branch navigation
+   */
+  private async getMessageLinks(chatId: string): Promise<Array<Pick<Message, "id" | "parentId" | "createdAt">>> {
+    return await db.select({ id: messages.id, parentId: messages.parentId, createdAt: messages.createdAt })
+      .from(messages)
+      .where(eq(messages.chatId, chatId));
+  }
+
+  /**
+   * Show the branch containing a message, continuing to its newest leaf.
+   * Keeps the current branch when the message is already on it.
+   */
+  async selectBranch(chatId: string, messageId: string): Promise<string | undefined> {
+    const chat = await this.ensureMessageTree(chatId);
+    const links = await this.getMessageLinks(chatId);
+    if (!links.some(m => m.id === messageId)) return undefined;
+    if (chat?.activeLeafId && activePath(links, chat.activeLeafId).some(m => m.id === messageId)) {
+      return chat.activeLeafId;
+    }
+    const leaf = newestLeaf(links, messageId);
+    if (!leaf) return undefined;
+    await this.setActiveLeaf(chatId, leaf.id);
+    return leaf.id;
+  }
+
+  async setActiveLeaf(chatId: string, messageId: string): Promise<void> {
+    await db.update(chats).set({ activeLeafId: messageId }).where(eq(chats.id, chatId));
+  }
+
+  /**
+   * Ids of the messages on the chat's active branch
+   */
+  async getActiveMessageIds(chatId: string): Promise<Set<string>> {
+    const chat = await this.ensureMessageTree(chatId);
+    const links = await this.getMessageLinks(chatId);
+    return new Set(activePath(links, chat?.activeLeafId).map(m => m.id));
+  }
+
+  /**
+   * Paginated messages from the chat's active branch, oldest first. Messages
+   * with alternative versions carry their sibling info in `branch`.
+   */
+  async getMessagesByChatId(chatId: string, options: PathPage = {}): Promise<Array<Message & { branch?: MessageBranchInfo }>> {
+    const chat = await this.ensureMessageTree(chatId);
+    const links = await this.getMessageLinks(chatId);
+    const path = pagePath(activePath(links, chat?.activeLeafId), options);
+    if (path.length === 0) return [];
+
+    const branches = branchInfo(links, path);
+    const rows = new Map(
+      (await db.select().from(messages).where(inArray(messages.id, path.map(m => m.id)))).map(m => [m.id, m])
+    );
     // Return in chronological order since AI needs history in order
-    return results.reverse();
+    return path.flatMap(link => {
+      const message = rows.get(link.id);
+      if (!message) return [];
+      const branch = branches.get(link.id);
+      return [branch ? { ...message, branch } : message];
+    });
   }
 
   async getMessageById(id: string): Promise<Message | undefined> {
@@ -246,6 +449,13 @@ export class DatabaseStorage {
     return await db.select().from(attachments).where(eq(attachments.messageId, messageId));
   }
 
+  async getAttachmentsByMessageIds(messageIds: string[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+    return await db.select().from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(attachments.createdAt);
+  }
+
   // Tool Call Logs
   async getRecentToolCallLogs(chatId: string, limit: number = 10): Promise<ToolCallLog[]> {
     return await db.select()
@@ -255,6 +465,26 @@ export class DatabaseStorage {
       .limit(limit);
   }
 
+  /**
+   * Every tool call in a chat, oldest first
+   */
+  async getToolCallLogsByChatId(chatId: string): Promise<ToolCallLog[]> {
+    return await db.select()
+      .from(toolCallLogs)
+      .where(eq(toolCallLogs.chatId, chatId))
+      .orderBy(toolCallLogs.createdAt);
+  }
+
+  /**
+   * Every tool call an agent worker made for a job, oldest first
+   */
+  async getToolCallLogsByJobId(jobId: string): Promise<ToolCallLog[]> {
+    return await db.select()
+      .from(toolCallLogs)
+      .where(eq(toolCallLogs.jobId, jobId))
+      .orderBy(toolCallLogs.createdAt);
+  }
+
   async getToolCallLogById(id: string): Promise<ToolCallLog | undefined> {
     const [log] = await db.select().from(toolCallLogs).where(eq(toolCallLogs.id, id));
     return log;
@@ -653,6 +883,54 @@ export class DatabaseStorage {
     return updated;
   }
 
+  async updateTriggerState(id: string, state: unknown): Promise<void> {
+    await db.update(triggers).set({ state }).where(eq(triggers.id, id));
+  }
+
+  /**
+   * Record that a trigger is firing for a source item. Returns the ledger
+   * row id, or null when the item already fired this trigger.
+   */
+  async claimTriggerEvent(triggerId: string, sourceKey: string): Promise<string | null> {
+    const [claimed] = await db.insert(triggerEvents)
+      .values({ triggerId, sourceKey })
+      .onConflictDoNothing()
+      .returning({ id: triggerEvents.id });
+    return claimed?.id ?? null;
+  }
+
+  async setTriggerEventJob(id: string, jobId: string): Promise<void> {
+    await db.update(triggerEvents).set({ jobId }).where(eq(triggerEvents.id, id));
+  }
+
+  async pruneTriggerEvents(before: Date): Promise<number> {
+    const removed = await db.delete(triggerEvents).where(lt(triggerEvents.firedAt, before)).returning({ id: triggerEvents.id });
+    return removed.length;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [saved] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return saved;
+  }
+
+  async getWebhookDeliveries(triggerId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await db.select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.triggerId, triggerId))
+      .orderBy(desc(webhookDeliveries.receivedAt))
+      .limit(limit);
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async pruneWebhookDeliveries(before: Date): Promise<number> {
+    const removed = await db.delete(webhookDeliveries).where(lt(webhookDeliveries.receivedAt, before)).returning({ id: webhookDeliveries.id });
+    return removed.length;
+  }
+
   async deleteTrigger(id: string): Promise<boolean> {
     const result = await db.delete(triggers).where(eq(triggers.id, id)).returning();
     return result.length > 0;
@@ -719,6 +997,48 @@ export class DatabaseStorage {
     return await db.select().from(schedules);
   }
 
+  // Schedule run history
+  async createScheduleRun(run: InsertScheduleRun): Promise<ScheduleRun> {
+    const [saved] = await db.insert(scheduleRuns).values(run).returning();
+    return saved;
+  }
+
+  async getScheduleRuns(scheduleId: string, limit: number = 50): Promise<Array<ScheduleRun & { jobStatus: string | null; jobError: string | null; jobCompletedAt: Date | null }>> {
+    return await db.select({
+      id: scheduleRuns.id,
+      scheduleId: scheduleRuns.scheduleId,
+      trigger: scheduleRuns.trigger,
+      scheduledFor: scheduleRuns.scheduledFor,
+      firedAt: scheduleRuns.firedAt,
+      status: scheduleRuns.status,
+      reason: scheduleRuns.reason,
+      jobId: scheduleRuns.jobId,
+      createdAt: scheduleRuns.createdAt,
+      jobStatus: agentJobs.status,
+      jobError: agentJobs.lastError,
+      jobCompletedAt: agentJobs.completedAt,
+    })
+      .from(scheduleRuns)
+      .leftJoin(agentJobs, eq(agentJobs.id, scheduleRuns.jobId))
+      .where(eq(scheduleRuns.scheduleId, scheduleId))
+      .orderBy(desc(scheduleRuns.scheduledFor), desc(scheduleRuns.createdAt))
+      .limit(limit);
+  }
+
+  /** The newest run of a schedule whose job has not finished yet */
+  async getActiveScheduleRun(scheduleId: string): Promise<{ jobId: string; jobStatus: string } | undefined> {
+    const [active] = await db.select({ jobId: agentJobs.id, jobStatus: agentJobs.status })
+      .from(scheduleRuns)
+      .innerJoin(agentJobs, eq(agentJobs.id, scheduleRuns.jobId))
+      .where(and(
+        eq(scheduleRuns.scheduleId, scheduleId),
+        inArray(agentJobs.status, ["pending", "queued", "running", "waiting_input"])
+      ))
+      .orderBy(desc(scheduleRuns.scheduledFor))
+      .limit(1);
+    return active;
+  }
+
   // Agent Identity
   async logAgentActivity(activity: InsertAgentActivityLog): Promise<AgentActivityLog> {
     const [saved] = await db.insert(agentActivityLog).values(activity).returning();
@@ -786,6 +1106,54 @@ export class DatabaseStorage {
     return result.length > 0;
   }
 
+  async getDefaultUserAgent(userId: string): Promise<UserAgent | undefined> {
+    const [agent] = await db.select().from(userAgents)
+      .where(and(eq(userAgents.userId, userId), eq(userAgents.isDefault, true), eq(userAgents.isActive, true)));
+    return agent;
+  }
+
+  /**
+   * The agent answering in a chat: the one bound to it while it is active
+   * and belongs to the chat's owner, otherwise the owner's default agent
+   */
+  async getChatAgent(chatId: string): Promise<UserAgent | undefined> {
+    const chat = await this.getChat(chatId);
+    if (!chat?.userId) return undefined;
+    if (chat.agentId) {
+      const agent = await this.getUserAgent(chat.agentId);
+      if (agent && agent.userId === chat.userId && agent.isActive) return agent;
+    }
+    return this.getDefaultUserAgent(chat.userId);
+  }
+
+  async setChatAgent(chatId: string, agentId: string | null): Promise<Chat | undefined> {
+    const [chat] = await db.update(chats)
+      .set({ agentId, updatedAt: new Date() })
+      .where(eq(chats.id, chatId))
+      .returning();
+    return chat;
+  }
+
+  /**
+   * The agents on a chat's panel, in panel order. Agents since deleted,
+   * deactivated or not owned by the chat's owner are left out.
+   */
+  async getPanelAgents(chat: Chat): Promise<UserAgent[]> {
+    if (!chat.userId || !chat.agentPanel) return [];
+    const agents = await this.getUserAgents(chat.userId);
+    return chat.agentPanel.agentIds
+      .map(id => agents.find(agent => agent.id === id && agent.isActive))
+      .filter((agent): agent is UserAgent => agent !== undefined);
+  }
+
+  async setChatPanel(chatId: string, agentPanel: AgentPanel | null): Promise<Chat | undefined> {
+    const [chat] = await db.update(chats)
+      .set({ agentPanel, updatedAt: new Date() })
+      .where(eq(chats.id, chatId))
+      .returning();
+    return chat;
+  }
+
   async setDefaultUserAgent(userId: string, agentId: string): Promise<void> {
     // Unset current default
     await db.update(userAgents).set({ isDefault: false }).where(eq(userAgents.userId, userId));
@@ -850,6 +1218,18 @@ export class DatabaseStorage {
   }
 
   // Todo CRUD
+  async getTodoItems(userId: string, includeCompleted: boolean = false): Promise<TodoItem[]> {
+    if (includeCompleted) {
+      return await db.select().from(todoItems).where(eq(todoItems.userId, userId)).orderBy(desc(todoItems.priority));
+    }
+    return this.getPendingTodoItems(userId);
+  }
+
+  async getTodoItem(id: string): Promise<TodoItem | undefined> {
+    const [item] = await db.select().from(todoItems).where(eq(todoItems.id, id));
+    return item;
+  }
+
   async createTodoItem(item: InsertTodoItem): Promise<TodoItem> {
     const [saved] = await db.insert(todoItems).values(item).returning();
     return saved;
@@ -930,6 +1310,7 @@ export class DatabaseStorage {
     }
     if (tableName === "messages") {
       await db.delete(messages).where(eq(messages.id, id));
+      await this.deleteRetrievalChunks("message", id);
       return true;
     }
     return false;
@@ -958,6 +1339,69 @@ export class DatabaseStorage {
       .orderBy(desc(conversationSummaries.createdAt))
       .limit(limit);
   }
+
+  // Retrieval Chunks (server/services/retrieval)
+  async replaceRetrievalChunks(sourceType: string, sourceId: string, chunks: InsertRetrievalChunk[]): Promise<RetrievalChunk[]> {
+    await this.deleteRetrievalChunks(sourceType, sourceId);
+    if (chunks.length === 0) return [];
+    return await db.insert(retrievalChunks).values(chunks).returning();
+  }
+
+  async deleteRetrievalChunks(sourceType: string, sourceId: string): Promise<RetrievalChunk[]> {
+    return await db.delete(retrievalChunks)
+      .where(and(eq(retrievalChunks.sourceType, sourceType), eq(retrievalChunks.sourceId, sourceId)))
+      .returning();
+  }
+
+  async getRetrievalChunksBySource(sourceType: string, sourceId: string): Promise<RetrievalChunk[]> {
+    return await db.select()
+      .from(retrievalChunks)
+      .where(and(eq(retrievalChunks.sourceType, sourceType), eq(retrievalChunks.sourceId, sourceId)))
+      .orderBy(retrievalChunks.chunkIndex);
+  }
+
+  /**
+   * Vectors and filter fields for one embedding key, for building the in-memory index
+   */
+  async getRetrievalVectors(embeddingKey: string): Promise<Array<Pick<RetrievalChunk, "id" | "chatId" | "userId" | "sourceType" | "sourceId" | "embedding">>> {
+    return await db.select({
+      id: retrievalChunks.id,
+      chatId: retrievalChunks.chatId,
+      userId: retrievalChunks.userId,
+      sourceType: retrievalChunks.sourceType,
+      sourceId: retrievalChunks.sourceId,
+      embedding: retrievalChunks.embedding,
+    })
+      .from(retrievalChunks)
+      .where(eq(retrievalChunks.embeddingKey, embeddingKey));
+  }
+
+  async getRetrievalChunksByIds(ids: string[]): Promise<RetrievalChunk[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(retrievalChunks).where(inArray(retrievalChunks.id, ids));
+  }
+
+  /**
+   * Sources indexed under a different embedding key than the current one
+   */
+  async getStaleRetrievalSources(embeddingKey: string): Promise<Array<{ sourceType: string; sourceId: string }>> {
+    return await db.selectDistinct({
+      sourceType: retrievalChunks.sourceType,
+      sourceId: retrievalChunks.sourceId,
+    })
+      .from(retrievalChunks)
+      .where(ne(retrievalChunks.embeddingKey, embeddingKey));
+  }
+
+  async getRetrievalStats(): Promise<Array<{ embeddingKey: string; sourceType: string; chunks: number }>> {
+    return await db.select({
+      embeddingKey: retrievalChunks.embeddingKey,
+      sourceType: retrievalChunks.sourceType,
+      chunks: sql<number>`count(*)`,
+    })
+      .from(retrievalChunks)
+      .groupBy(retrievalChunks.embeddingKey, retrievalChunks.sourceType);
+  }
 }
 
 export const storage = new DatabaseStorage();
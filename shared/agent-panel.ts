@@ -0,0 +1,285 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - AGENT PANELS
+ * =============================================================================
+ *
+ * A chat with a panel (chats.agentPanel) is answered by several of the
+ * user's agents in turn instead of one:
+ *
+ *   user ──► coder ──► reviewer ──► coder ──► … until a stop condition
+ *
+ * Who speaks next depends on the turn policy:
+ *   round_robin  agents take turns in panel order
+ *   mention      the agent @mentioned by the previous speaker; nobody
+ *                mentioned hands the floor back to the user
+ *   moderator    a model call picks the next agent (or ends the exchange)
+ * An @mention in the user's message always picks the first speaker.
+ *
+ * The exchange stops after maxTurns agent messages, when nobody is handed
+ * the floor, or (with stopOnConsensus) once every agent's latest message
+ * ends with CONSENSUS_MARKER.
+ *
+ * Every agent sees the whole transcript, tool results included; the other
+ * agents' messages reach it as user turns labelled with their names.
+ *
+ * These helpers are pure so the server (turn taking) and the chat UI share
+ * them.
+ */
+
+import { z } from "zod";
+
+export const TURN_POLICIES = ["round_robin", "moderator", "mention"] as const;
+export type TurnPolicy = (typeof TURN_POLICIES)[number];
+
+export const MAX_PANEL_AGENTS = 6;
+export const MAX_PANEL_TURNS = 12;
+export const DEFAULT_PANEL_TURNS = 4;
+
+/** Ends an agent's message when it agrees with the answer so far */
+export const CONSENSUS_MARKER = "[AGREE]";
+
+/** Characters of one tool result passed on to the next speakers */
+const TOOL_RESULT_PREVIEW_LENGTH = 5000;
+
+export const agentPanelSchema = z.object({
+  agentIds: z.array(z.string()).min(2).max(MAX_PANEL_AGENTS)
+    .refine(ids => new Set(ids).size === ids.length, "An agent can only sit on the panel once"),
+  turnPolicy: z.enum(TURN_POLICIES).default("round_robin"),
+  maxTurns: z.number().int().min(1).max(MAX_PANEL_TURNS).default(DEFAULT_PANEL_TURNS),
+  stopOnConsensus: z.boolean().default(true),
+});
+
+export type AgentPanel = z.infer<typeof agentPanelSchema>;
+
+export interface PanelSpeaker {
+  id: string;
+  name: string;
+  displayName: string;
+}
+
+/** One agent message in the current exchange */
+export interface PanelTurn {
+  agentId: string;
+  /** The reply without the consensus marker */
+  content: string;
+  /** The reply ended with CONSENSUS_MARKER */
+  agreed: boolean;
+}
+
+/**
+ * Who wrote a panel message, as kept in its metadata.agent so the chat can
+ * show the agent's name, avatar and colour even after the agent changes
+ */
+export interface AgentAttribution {
+  id: string;
+  displayName: string;
+  avatarUrl: string | null;
+  brandColor: string | null;
+}
+
+export function agentAttribution(agent: AgentAttribution): AgentAttribution {
+  return {
+    id: agent.id,
+    displayName: agent.displayName,
+    avatarUrl: agent.avatarUrl,
+    brandColor: agent.brandColor,
+  };
+}
+
+export type PanelStopReason = "max_turns" | "consensus" | "no_mention" | "moderator_done";
+
+export type SpeakerChoice =
+  | { agentId: string }
+  | { stop: PanelStopReason }
+  | { askModerator: true };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Agents @mentioned in a message, in the order they are first mentioned.
+ * "@Code Cat", "@CodeCat" and "@code-cat" (the agent's name) all count.
+ */
+export function findMentions(text: string, speakers: PanelSpeaker[]): string[] {
+  const found: Array<{ id: string; index: number }> = [];
+  for (const speaker of speakers) {
+    const handles = [speaker.name, speaker.displayName, speaker.displayName.replace(/\s+/g, "")];
+    const pattern = new RegExp(`@(?:${handles.map(escapeRegExp).join("|")})(?![\\w-])`, "i");
+    const match = pattern.exec(text);
+    if (match) found.push({ id: speaker.id, index: match.index });
+  }
+  return found.sort((a, b) => a.index - b.index).map(mention => mention.id);
+}
+
+export function hasAgreed(content: string): boolean {
+  return content.trimEnd().endsWith(CONSENSUS_MARKER);
+}
+
+export function stripConsensusMarker(content: string): string {
+  return hasAgreed(content) ? content.trimEnd().slice(0, -CONSENSUS_MARKER.length).trimEnd() : content;
+}
+
+/**
+ * Every agent has spoken in this exchange and its latest message agrees
+ */
+export function reachedConsensus(speakers: PanelSpeaker[], turns: PanelTurn[]): boolean {
+  return speakers.every(speaker => {
+    const latest = turns.filter(turn => turn.agentId === speaker.id).at(-1);
+    return latest?.agreed === true;
+  });
+}
+
+/** The agent after the last speaker, in panel order */
+export function roundRobinAfter(speakers: PanelSpeaker[], turns: PanelTurn[]): string {
+  const last = turns.at(-1);
+  const index = last ? speakers.findIndex(speaker => speaker.id === last.agentId) : -1;
+  return speakers[(index + 1) % speakers.length].id;
+}
+
+/**
+ * Who speaks next in the exchange that userText started, or why it ends
+ */
+export function chooseNextSpeaker(
+  panel: AgentPanel,
+  speakers: PanelSpeaker[],
+  userText: string,
+  turns: PanelTurn[]
+): SpeakerChoice {
+  if (turns.length >= panel.maxTurns) return { stop: "max_turns" };
+  if (panel.stopOnConsensus && reachedConsensus(speakers, turns)) return { stop: "consensus" };
+
+  if (turns.length === 0) {
+    const [addressed] = findMentions(userText, speakers);
+    if (addressed) return { agentId: addressed };
+    return panel.turnPolicy === "moderator" ? { askModerator: true } : { agentId: speakers[0].id };
+  }
+
+  switch (panel.turnPolicy) {
+    case "round_robin":
+      return { agentId: roundRobinAfter(speakers, turns) };
+    case "mention": {
+      const last = turns[turns.length - 1];
+      const [next] = findMentions(last.content, speakers).filter(id => id !== last.agentId);
+      return next ? { agentId: next } : { stop: "no_mention" };
+    }
+    case "moderator":
+      return { askModerator: true };
+  }
+}
+
+// =============================================================================
+// TRANSCRIPT
+// =============================================================================
+
+export interface PanelTranscriptEntry {
+  role: "user" | "ai";
+  content: string;
+  /** Author of an AI message; null for the chat's single-agent replies */
+  agentId?: string | null;
+  agentName?: string;
+}
+
+/**
+ * The conversation as one agent sees it: its own messages are assistant
+ * turns, everyone else's are user turns labelled with the author. Adjacent
+ * turns of the same role are merged.
+ */
+export function panelHistory(
+  entries: PanelTranscriptEntry[],
+  speakerId: string
+): Array<{ role: "user" | "assistant"; content: string }> {
+  const history: Array<{ role: "user" | "assistant"; content: string }> = [];
+  for (const entry of entries) {
+    const own = entry.role === "ai" && entry.agentId === speakerId;
+    const role = own ? "assistant" : "user";
+    const content = entry.role === "ai" && !own ? `[${entry.agentName ?? "Assistant"}]: ${entry.content}` : entry.content;
+    const previous = history[history.length - 1];
+    if (previous?.role === role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      history.push({ role, content });
+    }
+  }
+  return history;
+}
+
+/**
+ * Successful tool results, in the form the chat history passes them on
+ */
+export function summarizeToolResults(results: Array<{ type: string; success: boolean; result?: unknown }>): string {
+  return results
+    .filter(result => result.success)
+    .map(result => `[Tool ${result.type} returned: ${JSON.stringify(result.result ?? null).slice(0, TOOL_RESULT_PREVIEW_LENGTH)}]`)
+    .join("\n");
+}
+
+// =============================================================================
+// PROMPTS
+// =============================================================================
+
+function describeSpeakers(speakers: PanelSpeaker[]): string {
+  return speakers.map(speaker => `- ${speaker.displayName} (@${speaker.name})`).join("\n");
+}
+
+/**
+ * System prompt section telling one agent how the panel works
+ */
+export function panelInstructions(speaker: PanelSpeaker, speakers: PanelSpeaker[], panel: AgentPanel): string {
+  const lines = [
+    "# Panel Conversation",
+    `You are ${speaker.displayName}, one of ${speakers.length} agents answering the user together in this chat:`,
+    describeSpeakers(speakers),
+    "",
+    'Messages from the other agents reach you as user turns starting with their name, e.g. "[Name]: ...". Build on them: add what is missing, challenge what is wrong, and do not repeat what was already said. Tool results from earlier turns are shared, so reuse them instead of calling the same tool again.',
+  ];
+  if (panel.turnPolicy === "mention") {
+    lines.push("Hand the floor to another agent by mentioning them (@name). If you mention nobody, the conversation returns to the user.");
+  }
+  if (panel.stopOnConsensus) {
+    lines.push(`When you agree with the answer as it stands and have nothing to add, end your message with ${CONSENSUS_MARKER}. The discussion ends once every agent agrees.`);
+  }
+  return lines.join("\n");
+}
+
+export function buildModeratorPrompt(userText: string, speakers: PanelSpeaker[], turns: PanelTurn[]): string {
+  const names = new Map(speakers.map(speaker => [speaker.id, speaker.displayName]));
+  const transcript = turns.map(turn => `[${names.get(turn.agentId) ?? turn.agentId}]: ${turn.content}`).join("\n\n");
+  return `You moderate a panel of agents answering a user together.
+
+Agents:
+${describeSpeakers(speakers)}
+
+User message:
+${userText}
+
+Discussion so far:
+${transcript || "(nobody has spoken yet)"}
+
+Pick the agent whose expertise is most needed next, or "done" if the user's message has been fully answered.
+
+Return only a JSON object: {"next": "<agent name>" | "done"}`;
+}
+
+const moderatorChoiceSchema = z.object({ next: z.string() });
+
+/**
+ * The moderator's pick, or null when its reply names nobody on the panel
+ */
+export function parseModeratorChoice(output: string, speakers: PanelSpeaker[]): SpeakerChoice | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, ""));
+  } catch {
+    return null;
+  }
+  const choice = moderatorChoiceSchema.safeParse(parsed);
+  if (!choice.success) return null;
+
+  const next = choice.data.next.trim().replace(/^@/, "").toLowerCase();
+  if (next === "done") return { stop: "moderator_done" };
+  const speaker = speakers.find(candidate =>
+    [candidate.id, candidate.name, candidate.displayName].some(handle => handle.toLowerCase() === next)
+  );
+  return speaker ? { agentId: speaker.id } : null;
+}
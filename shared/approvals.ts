@@ -0,0 +1,119 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - APPROVALS
+ * =============================================================================
+ *
+ * Human-in-the-loop approvals, as requested by a workflow's approval step.
+ * The step parks a job in waiting_input until an operator approves,
+ * rejects, or approves with edited parameters, or until it expires and its
+ * default outcome applies. Every request and decision is kept in the
+ * approvals table as the audit trail.
+ *
+ * The decision becomes the step's output:
+ *
+ *   { decision: "approved", action: "edit", parameters: {...}, decidedBy, comment }
+ *
+ * so later steps read {{steps.<id>.output.parameters.to}}. A rejection
+ * skips the steps that depend on the approval, or fails the run with
+ * onReject: fail.
+ */
+
+export const APPROVAL_CHANNELS = ["app", "sms", "email"] as const;
+export type ApprovalChannel = typeof APPROVAL_CHANNELS[number];
+
+/** What an operator can do with a pending approval */
+export const APPROVAL_ACTIONS = ["approve", "edit", "reject"] as const;
+export type ApprovalAction = typeof APPROVAL_ACTIONS[number];
+
+export const APPROVAL_STATUSES = ["pending", "approved", "rejected", "cancelled"] as const;
+export type ApprovalStatus = typeof APPROVAL_STATUSES[number];
+
+export type ApprovalDecision = "approved" | "rejected";
+
+/** The approval step's output */
+export interface ApprovalOutcome {
+  decision: ApprovalDecision;
+  /** "expire" when nobody decided in time */
+  action: ApprovalAction | "expire";
+  parameters: Record<string, unknown>;
+  decidedBy: string;
+  comment?: string;
+}
+
+/** Who decides when an approval expires */
+export const EXPIRED_BY = "system (expired)";
+
+export class ApprovalParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalParameterError";
+  }
+}
+
+/**
+ * The parameters an approver ends up approving. Only requested parameters
+ * can be edited; edits to anything else are refused rather than dropped,
+ * so the approver never believes a change went through when it did not.
+ */
+export function mergeApprovalParameters(
+  requested: Record<string, unknown>,
+  edits: Record<string, unknown>,
+): { parameters: Record<string, unknown>; changed: string[] } {
+  const unknown = Object.keys(edits).filter(key => !Object.prototype.hasOwnProperty.call(requested, key));
+  if (unknown.length > 0) {
+    throw new ApprovalParameterError(`Unknown parameter${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`);
+  }
+
+  const parameters = { ...requested, ...edits };
+  const changed = Object.keys(edits).filter(key => JSON.stringify(edits[key]) !== JSON.stringify(requested[key]));
+  return { parameters, changed };
+}
+
+/** The outcome recorded when an approval expires */
+export function expiredApprovalOutcome(
+  onExpiry: "approve" | "reject",
+  parameters: Record<string, unknown>,
+): ApprovalOutcome {
+  return {
+    decision: onExpiry === "approve" ? "approved" : "rejected",
+    action: "expire",
+    parameters,
+    decidedBy: EXPIRED_BY,
+  };
+}
+
+/**
+ * How an approval step settles once decided: approved completes it, and a
+ * rejection skips what depends on it or fails the run
+ */
+export function approvalStepResult(
+  outcome: ApprovalOutcome,
+  onReject: "skip" | "fail" = "skip",
+): { status: "completed" } | { status: "skipped"; reason: string } | { status: "failed"; error: string } {
+  if (outcome.decision === "approved") {
+    return { status: "completed" };
+  }
+  const message = `Rejected by ${outcome.decidedBy}${outcome.comment ? `: ${outcome.comment}` : ""}`;
+  return onReject === "fail" ? { status: "failed", error: message } : { status: "skipped", reason: message };
+}
+
+/**
+ * Notification text for SMS and email. SMS gets a shortened summary; the
+ * link is where the approval can be decided.
+ */
+export function approvalNotificationText(
+  approval: { title: string; summary?: string | null; expiresAt?: Date | null },
+  link: string,
+  channel: Exclude<ApprovalChannel, "app">,
+): string {
+  const summary = approval.summary?.trim() ?? "";
+  const lines = [`Approval needed: ${approval.title}`];
+  if (summary) {
+    lines.push(channel === "sms" && summary.length > 280 ? `${summary.slice(0, 280)}…` : summary);
+  }
+  if (approval.expiresAt) {
+    lines.push(`Expires ${approval.expiresAt.toISOString().replace("T", " ").slice(0, 16)} UTC`);
+  }
+  lines.push(`Review: ${link}`);
+  return lines.join(channel === "sms" ? "\n" : "\n\n");
+}
@@ -0,0 +1,128 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - CHAT ORGANIZATION
+ * =============================================================================
+ *
+ * Folders, tags, pinning and archiving for the sidebar. Folders nest through
+ * parentId; a chat sits in at most one folder and carries free-form tags.
+ *
+ *   📌 Pinned            (pinnedAt set, any folder)
+ *   📁 Work
+ *      📁 Deploys
+ *         💬 "ssh into prod"   #ops #urgent
+ *   💬 Unfiled chats     (folderId null, grouped by date)
+ *   🗄 Archived          (archivedAt set, hidden from the main list)
+ *
+ * These helpers are pure so the server (validation) and the sidebar share them.
+ */
+
+export interface FolderLike {
+  id: string;
+  parentId: string | null;
+  name: string;
+  position: number;
+}
+
+export interface FolderNode<F extends FolderLike = FolderLike> {
+  folder: F;
+  children: FolderNode<F>[];
+  depth: number;
+}
+
+/** Deepest nesting the sidebar renders comfortably */
+export const MAX_FOLDER_DEPTH = 5;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_TAGS_PER_CHAT = 20;
+
+/**
+ * Trim, lowercase, strip a leading "#", drop empties and duplicates
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const seen = new Set<string>();
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/^#+/, "").replace(/\s+/g, "-").toLowerCase().slice(0, MAX_TAG_LENGTH);
+    if (tag) seen.add(tag);
+  }
+  return [...seen].slice(0, MAX_TAGS_PER_CHAT);
+}
+
+/**
+ * Ids of a folder and everything nested inside it
+ */
+export function folderSubtreeIds(folders: readonly FolderLike[], folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Depth of a folder (1 = top level); unknown parents count as top level
+ */
+export function folderDepth(folders: readonly FolderLike[], folderId: string | null): number {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  let depth = 0;
+  const seen = new Set<string>();
+  for (let current = folderId ? byId.get(folderId) : undefined; current && !seen.has(current.id); current = current.parentId ? byId.get(current.parentId) : undefined) {
+    seen.add(current.id);
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Why a folder cannot move under newParentId, or null when it can
+ */
+export function validateFolderMove(
+  folders: readonly FolderLike[],
+  folderId: string,
+  newParentId: string | null
+): string | null {
+  if (newParentId === null) return null;
+  if (!folders.some(f => f.id === newParentId)) return "Parent folder not found";
+  const subtree = folderSubtreeIds(folders, folderId);
+  if (subtree.has(newParentId)) return "A folder cannot be moved into itself";
+
+  // Height of the moved subtree below the folder itself
+  let height = 0;
+  for (const id of subtree) {
+    height = Math.max(height, folderDepth(folders, id) - folderDepth(folders, folderId));
+  }
+  if (folderDepth(folders, newParentId) + 1 + height > MAX_FOLDER_DEPTH) {
+    return `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`;
+  }
+  return null;
+}
+
+/**
+ * Nested folder tree, siblings ordered by position then name
+ */
+export function buildFolderTree<F extends FolderLike>(folders: readonly F[]): FolderNode<F>[] {
+  const ids = new Set(folders.map(f => f.id));
+  const children = new Map<string | null, F[]>();
+  for (const folder of folders) {
+    // Orphans (parent deleted elsewhere) show at the top level
+    const key = folder.parentId && ids.has(folder.parentId) ? folder.parentId : null;
+    children.set(key, [...(children.get(key) ?? []), folder]);
+  }
+
+  const build = (parentId: string | null, depth: number, seen: Set<string>): FolderNode<F>[] =>
+    (children.get(parentId) ?? [])
+      .filter(folder => !seen.has(folder.id))
+      .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+      .map(folder => ({
+        folder,
+        depth,
+        children: build(folder.id, depth + 1, new Set(seen).add(folder.id)),
+      }));
+
+  return build(null, 1, new Set());
+}
@@ -0,0 +1,130 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - DEPENDENCY GRAPHS
+ * =============================================================================
+ *
+ * Cycle detection and ordering for anything shaped like a job: an id plus
+ * the ids it depends on. The dependency resolver runs these over agent
+ * jobs, the workflow DSL over workflow steps. Dependencies on ids outside
+ * the node list are ignored (they are finished jobs, or reported elsewhere).
+ */
+
+export interface DagNode {
+  id: string;
+  dependencies?: string[] | null;
+}
+
+/**
+ * Every dependency cycle, each as the ids along it with the first id
+ * repeated at the end (a -> b -> a)
+ */
+export function findCycles(nodes: DagNode[]): string[][] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+  const onPath = new Set<string>();
+
+  const visit = (id: string) => {
+    done.add(id);
+    path.push(id);
+    onPath.add(id);
+
+    for (const depId of byId.get(id)?.dependencies ?? []) {
+      if (!byId.has(depId)) continue;
+      if (onPath.has(depId)) {
+        cycles.push([...path.slice(path.indexOf(depId)), depId]);
+      } else if (!done.has(depId)) {
+        visit(depId);
+      }
+    }
+
+    path.pop();
+    onPath.delete(id);
+  };
+
+  for (const node of nodes) {
+    if (!done.has(node.id)) visit(node.id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Nodes ordered so each comes after its dependencies. Nodes on a cycle
+ * keep their relative input order.
+ */
+export function topologicalOrder<T extends DagNode>(nodes: T[]): T[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const sorted: T[] = [];
+  const visited = new Set<string>();
+
+  const visit = (node: T) => {
+    if (visited.has(node.id)) return;
+    visited.add(node.id);
+
+    for (const depId of node.dependencies ?? []) {
+      const dep = byId.get(depId);
+      if (dep) visit(dep);
+    }
+
+    sorted.push(node);
+  };
+
+  nodes.forEach(visit);
+  return sorted;
+}
+
+/**
+ * Group node ids into levels that can run side by side: level 0 has no
+ * dependencies, level n depends only on earlier levels. Nodes on (or
+ * behind) a cycle are left out.
+ */
+export function executionLevels(nodes: DagNode[]): string[][] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const levels: string[][] = [];
+  const placed = new Set<string>();
+  let remaining = nodes.map(node => node.id);
+
+  while (remaining.length > 0) {
+    const level = remaining.filter(id =>
+      (byId.get(id)?.dependencies ?? []).every(depId => placed.has(depId) || !byId.has(depId))
+    );
+    if (level.length === 0) break;
+
+    level.forEach(id => placed.add(id));
+    levels.push(level);
+    remaining = remaining.filter(id => !placed.has(id));
+  }
+
+  return levels;
+}
+
+export interface GraphValidation {
+  /** Ids used by more than one node */
+  duplicateIds: string[];
+  /** Dependencies naming an id that is not in the node list */
+  unknownDependencies: Array<{ id: string; dependency: string }>;
+  cycles: string[][];
+}
+
+/**
+ * Check a self-contained graph, such as a plan that has not been turned
+ * into jobs yet, where every dependency must name a node in the list
+ */
+export function validateGraph(nodes: DagNode[]): GraphValidation {
+  const ids = new Set<string>();
+  const duplicateIds = new Set<string>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) duplicateIds.add(node.id);
+    ids.add(node.id);
+  }
+
+  const unknownDependencies = nodes.flatMap(node =>
+    (node.dependencies ?? [])
+      .filter(dependency => !ids.has(dependency))
+      .map(dependency => ({ id: node.id, dependency }))
+  );
+
+  return { duplicateIds: Array.from(duplicateIds), unknownDependencies, cycles: findCycles(nodes) };
+}
@@ -0,0 +1,165 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - MESSAGE TREE
+ * =============================================================================
+ *
+ * Chat messages form a tree through parentId. Editing a user message or
+ * regenerating an AI reply adds a sibling, so every earlier version stays
+ * reachable. A chat shows one path through the tree at a time: the path from
+ * the root to the chat's active leaf.
+ *
+ *   user "plan a trip"
+ *   ├── ai  "Sure! Where to?"          ← branch 1 of 2
+ *   └── ai  "Happy to. Budget?"        ← branch 2 of 2 (regenerated)
+ *       └── user "about $2k"
+ *
+ * These helpers are pure so the server (history, routes) and tests share them.
+ */
+
+export interface TreeMessage {
+  id: string;
+  parentId: string | null;
+  createdAt: Date | string | number;
+}
+
+/**
+ * Sibling position of a message on the active path
+ */
+export interface MessageBranchInfo {
+  /** 0-based position among its siblings, oldest first */
+  index: number;
+  count: number;
+  /** All siblings including this message, oldest first */
+  siblingIds: string[];
+}
+
+function time(message: TreeMessage): number {
+  return new Date(message.createdAt).getTime();
+}
+
+/**
+ * Oldest-first ordering; ties keep their input order
+ */
+export function sortByCreated<T extends TreeMessage>(messages: T[]): T[] {
+  return messages
+    .map((message, position) => ({ message, position }))
+    .sort((a, b) => time(a.message) - time(b.message) || a.position - b.position)
+    .map(entry => entry.message);
+}
+
+/**
+ * Children of each message (key null = roots), oldest first
+ */
+export function childrenByParent<T extends TreeMessage>(messages: T[]): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>();
+  for (const message of sortByCreated(messages)) {
+    const key = message.parentId ?? null;
+    const list = children.get(key);
+    if (list) list.push(message);
+    else children.set(key, [message]);
+  }
+  return children;
+}
+
+/**
+ * Parent links for a chat recorded before branching existed: each message
+ * follows the one sent before it.
+ */
+export function linearParents<T extends TreeMessage>(messages: T[]): Array<{ id: string; parentId: string | null }> {
+  return sortByCreated(messages).map((message, i, sorted) => ({
+    id: message.id,
+    parentId: i === 0 ? null : sorted[i - 1].id,
+  }));
+}
+
+/**
+ * Follow the newest child from a message down to a leaf
+ */
+export function newestLeaf<T extends TreeMessage>(messages: T[], fromId: string | null): T | undefined {
+  const children = childrenByParent(messages);
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let current = fromId ? byId.get(fromId) : undefined;
+  let next = children.get(fromId);
+  const seen = new Set<string>();
+  while (next && next.length > 0) {
+    current = next[next.length - 1];
+    if (seen.has(current.id)) break; // Corrupt data: parent cycle
+    seen.add(current.id);
+    next = children.get(current.id);
+  }
+  return current;
+}
+
+/**
+ * Root-to-leaf path ending at leafId. Falls back to the newest leaf of the
+ * whole tree when leafId is unknown.
+ */
+export function activePath<T extends TreeMessage>(messages: T[], leafId: string | null | undefined): T[] {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let current = (leafId ? byId.get(leafId) : undefined) ?? newestLeaf(messages, null);
+
+  const path: T[] = [];
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * Branch positions for messages on a path that have siblings
+ */
+export function branchInfo<T extends TreeMessage>(messages: T[], path: T[]): Map<string, MessageBranchInfo> {
+  const children = childrenByParent(messages);
+  const info = new Map<string, MessageBranchInfo>();
+  for (const message of path) {
+    const siblings = children.get(message.parentId ?? null) ?? [message];
+    if (siblings.length < 2) continue;
+    const siblingIds = siblings.map(s => s.id);
+    info.set(message.id, { index: siblingIds.indexOf(message.id), count: siblingIds.length, siblingIds });
+  }
+  return info;
+}
+
+/**
+ * Which part of a path to load. Paging back (before) keeps the newest
+ * `limit` messages; paging forward (from, after) keeps the oldest.
+ */
+export interface PathPage {
+  /** Messages older than this one; ignored if it is not on the path */
+  before?: string;
+  /** This message and everything after it */
+  from?: string;
+  /** Messages newer than this one */
+  after?: string;
+  /** Leaves out this many of the newest messages */
+  offset?: number;
+  limit?: number;
+}
+
+export function pagePath<T extends { id: string }>(path: T[], page: PathPage): T[] {
+  let window = path;
+  if (page.before) {
+    const cursorIdx = window.findIndex(m => m.id === page.before);
+    if (cursorIdx !== -1) window = window.slice(0, cursorIdx);
+  }
+  // An unknown forward cursor returns nothing rather than the whole chat
+  if (page.from) {
+    const fromIdx = window.findIndex(m => m.id === page.from);
+    window = fromIdx === -1 ? [] : window.slice(fromIdx);
+  }
+  if (page.after) {
+    const afterIdx = window.findIndex(m => m.id === page.after);
+    window = afterIdx === -1 ? [] : window.slice(afterIdx + 1);
+  }
+  if (page.offset) {
+    window = window.slice(0, Math.max(0, window.length - page.offset));
+  }
+  if (page.limit) {
+    window = page.from || page.after ? window.slice(0, page.limit) : window.slice(-page.limit);
+  }
+  return window;
+}
@@ -0,0 +1,151 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - UNIFIED QUEUE MODEL
+ * =============================================================================
+ *
+ * One vocabulary for every place work can wait. Each storage backend keeps
+ * its own states; these helpers translate them so the API and the task
+ * queue page only ever see QueueStatus.
+ *
+ *   QueueStatus     sqlite (agent_jobs)     files (queues/<worker>/)
+ *   ─────────────   ─────────────────────   ─────────────────────────────
+ *   pending         pending, queued         job-*.json
+ *   running         running                 .processing/
+ *   waiting_input   waiting_input           —
+ *   completed       completed               finished/
+ *   failed          failed                  failed/
+ *   cancelled       cancelled               failed/ (last audit "cancelled")
+ *   dead_letter     dead_letter             —
+ *
+ * Items are addressed by a ref, "<backend>:<id>", so ids only need to be
+ * unique within their backend. Priorities run 0-10, higher first.
+ */
+
+export const QUEUE_STATUSES = [
+  "pending",
+  "running",
+  "waiting_input",
+  "completed",
+  "failed",
+  "cancelled",
+  "dead_letter",
+] as const;
+export type QueueStatus = typeof QUEUE_STATUSES[number];
+
+export const QUEUE_BACKENDS = ["sqlite", "files"] as const;
+export type QueueBackendName = typeof QUEUE_BACKENDS[number];
+
+export type QueueStats = Record<QueueStatus, number>;
+
+/** Where a file-queue job currently sits */
+export type FileQueueLocation = "pending" | "processing" | "finished" | "failed";
+
+export interface QueueItem {
+  ref: string;
+  backend: QueueBackendName;
+  id: string;
+  /** File-queue worker directory; null for the SQLite backend */
+  queue: string | null;
+  title: string;
+  description: string | null;
+  kind: string;
+  status: QueueStatus;
+  /** The backend's own state, e.g. "queued" vs "pending" for agent_jobs */
+  backendStatus: string;
+  priority: number;
+  /** Failed attempts so far */
+  attempts: number;
+  maxAttempts: number | null;
+  error: string | null;
+  inputPrompt: string | null;
+  input: unknown;
+  output: unknown;
+  parentRef: string | null;
+  dependencies: string[];
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  scheduledFor: string | null;
+}
+
+export const MAX_QUEUE_PRIORITY = 10;
+
+export function emptyQueueStats(): QueueStats {
+  return Object.fromEntries(QUEUE_STATUSES.map(status => [status, 0])) as QueueStats;
+}
+
+export function isQueueStatus(value: unknown): value is QueueStatus {
+  return typeof value === "string" && (QUEUE_STATUSES as readonly string[]).includes(value);
+}
+
+export function formatQueueRef(backend: QueueBackendName, id: string): string {
+  return `${backend}:${id}`;
+}
+
+export function parseQueueRef(ref: string): { backend: QueueBackendName; id: string } | null {
+  const separator = ref.indexOf(":");
+  if (separator <= 0) return null;
+  const backend = ref.slice(0, separator);
+  const id = ref.slice(separator + 1);
+  if (!id || !(QUEUE_BACKENDS as readonly string[]).includes(backend)) return null;
+  return { backend: backend as QueueBackendName, id };
+}
+
+// -----------------------------------------------------------------------------
+// agent_jobs
+// -----------------------------------------------------------------------------
+
+export function jobStatusToQueueStatus(status: string): QueueStatus {
+  if (status === "queued") return "pending";
+  return isQueueStatus(status) ? status : "pending";
+}
+
+export function queueStatusToJobStatuses(status: QueueStatus): string[] {
+  return status === "pending" ? ["pending", "queued"] : [status];
+}
+
+/** agent_jobs priorities run the other way: 0 is the most urgent */
+export function jobPriorityToQueuePriority(priority: number): number {
+  return clampPriority(MAX_QUEUE_PRIORITY - priority);
+}
+
+export function queuePriorityToJobPriority(priority: number): number {
+  return clampPriority(MAX_QUEUE_PRIORITY - priority);
+}
+
+// -----------------------------------------------------------------------------
+// File queue
+// -----------------------------------------------------------------------------
+
+export function fileStatusToQueueStatus(location: FileQueueLocation, lastEvent?: string): QueueStatus {
+  switch (location) {
+    case "pending":
+      return "pending";
+    case "processing":
+      return "running";
+    case "finished":
+      return "completed";
+    case "failed":
+      return lastEvent === "cancelled" ? "cancelled" : "failed";
+  }
+}
+
+export function queueStatusToFileLocations(status: QueueStatus): FileQueueLocation[] {
+  switch (status) {
+    case "pending":
+      return ["pending"];
+    case "running":
+      return ["processing"];
+    case "completed":
+      return ["finished"];
+    case "failed":
+    case "cancelled":
+      return ["failed"];
+    default:
+      return [];
+  }
+}
+
+export function clampPriority(priority: number): number {
+  return Math.min(MAX_QUEUE_PRIORITY, Math.max(0, Math.round(priority)));
+}
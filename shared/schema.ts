@@ -40,7 +40,7 @@ import { nanoid } from "nanoid";
  */
 
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer, blob, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, blob, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 // SQLite compatibility aliases for types not natively in sqlite-core
 const varchar = (name: string, opts?: { length?: number }) => text(name);
 const timestamp = (name: string, opts?: object) => integer(name, { mode: "timestamp_ms" }) // DB stores ms (unixepoch() * 1000);
@@ -49,6 +49,7 @@ const bigint = (name: string, opts?: object) => integer(name);
 const boolean = (name: string) => integer(name, { mode: "boolean" });
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AgentPanel } from "./agent-panel";
 
 // =============================================================================
 // CONSTANTS
@@ -170,7 +171,14 @@ export const userAgents = sqliteTable("user_agents", {
   // Personality and behavior
   personalityPrompt: text("personality_prompt"), // Custom personality description
   systemPromptOverrides: text("system_prompt_overrides"), // Additional system prompt instructions
-  
+
+  // Model selection (null = service default, see server/services/llm/selection.ts)
+  llmProvider: text("llm_provider"), // "gemini", "openai-compatible"
+  llmModel: text("llm_model"), // e.g., "gemini-2.5-pro", "llama3.1:8b"
+
+  // Tools offered in chats bound to this agent (null = every tool, see server/services/agent-persona.ts)
+  allowedTools: text("allowed_tools", { mode: "json" }).$type<string[]>(),
+
   // Signatures
   githubSignature: text("github_signature"),
   emailSignature: text("email_signature"),
@@ -257,6 +265,41 @@ export const chats = sqliteTable("chats", {
    */
   isGuest: integer("is_guest", { mode: "boolean" }).default(false).notNull(),
   
+  /**
+   * Last message of the branch currently shown (see shared/message-tree.ts)
+   * - NULL for chats created before branching; their messages are linked
+   *   into a single chain the first time the chat is read or extended
+   * - Set on every new message and when the user switches branches
+   */
+  activeLeafId: text("active_leaf_id"),
+  
+  /**
+   * Sidebar organization (see shared/chat-organization.ts)
+   * - folderId: Folder the chat is filed in; NULL = unfiled. Deleting a
+   *   folder moves its chats up to the parent folder
+   * - tags: Free-form lowercase labels
+   * - pinnedAt: When pinned (pinned chats list first); NULL = not pinned
+   * - archivedAt: When archived (hidden from the main list); NULL = active
+   */
+  folderId: text("folder_id").references((): any => chatFolders.id, { onDelete: "set null" }),
+  tags: text("tags", { mode: "json" }).$type<string[]>().default([]).notNull(),
+  pinnedAt: integer("pinned_at", { mode: "timestamp_ms" }),
+  archivedAt: integer("archived_at", { mode: "timestamp_ms" }),
+  
+  /**
+   * User agent persona answering in this chat (see server/services/agent-persona.ts)
+   * - NULL = the owner's default agent, or the built-in persona if none
+   * - Deleting the agent falls back to the default
+   */
+  agentId: text("agent_id").references(() => userAgents.id, { onDelete: "set null" }),
+  
+  /**
+   * Multi-agent panel (see shared/agent-panel.ts)
+   * - Several user agents take turns answering each message; overrides agentId
+   * - NULL = a single agent answers
+   */
+  agentPanel: text("agent_panel", { mode: "json" }).$type<AgentPanel>(),
+  
   /**
    * Timestamp when this chat was first created
    * Automatically set by PostgreSQL using defaultNow()
@@ -272,6 +315,33 @@ export const chats = sqliteTable("chats", {
   updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
 });
 
+/**
+ * CHAT FOLDERS TABLE
+ * ------------------
+ * User-defined folders for organizing chats in the sidebar. Folders nest
+ * through parentId (at most MAX_FOLDER_DEPTH levels); position orders
+ * siblings. Deleting a folder moves its subfolders and chats to its parent.
+ */
+export const chatFolders = sqliteTable("chat_folders", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  parentId: text("parent_id").references((): any => chatFolders.id, { onDelete: "set null" }),
+  position: integer("position").default(0).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  index("idx_chat_folders_user").on(table.userId),
+]);
+
+export const insertChatFolderSchema = createInsertSchema(chatFolders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertChatFolder = z.infer<typeof insertChatFolderSchema>;
+export type ChatFolder = typeof chatFolders.$inferSelect;
+
 /**
  * MESSAGES TABLE
  * --------------
@@ -286,6 +356,12 @@ export const chats = sqliteTable("chats", {
  * - role: Who sent the message ("user" or "ai")
  * - content: The actual text content of the message (supports markdown)
  * - createdAt: When the message was sent
+ * - parentId: The message this one follows (messages form a tree)
+ * 
+ * BRANCHING:
+ * Editing a user message or regenerating an AI reply adds a sibling (same
+ * parentId) instead of overwriting. The chat's activeLeafId picks which
+ * branch is shown and sent to the model as history.
  * 
  * CASCADE DELETE:
  * When a chat is deleted, all its messages are automatically deleted too.
@@ -331,6 +407,20 @@ export const messages = sqliteTable("messages", {
    */
   content: text("content").notNull(),
   
+  /**
+   * The previous message in this branch of the conversation
+   * - NULL for the first message (and for first-message edits)
+   * - Siblings (same parentId) are alternative branches
+   */
+  parentId: text("parent_id"),
+  
+  /**
+   * User agent that wrote an AI message in a panel chat (see
+   * shared/agent-panel.ts); NULL for single-agent replies. The agent's name,
+   * avatar and colour at the time are kept in metadata.agent
+   */
+  agentId: text("agent_id").references(() => userAgents.id, { onDelete: "set null" }),
+  
   /**
    * Timestamp when this message was created/sent
    * Used for chronological ordering of messages within a chat
@@ -350,7 +440,10 @@ export const messages = sqliteTable("messages", {
    * See: https://cloud.google.com/vertex-ai/generative-ai/docs/thought-signatures
    */
   geminiContent: text("gemini_content", { mode: "json" }),
-});
+}, (table) => [
+  index("idx_messages_chat").on(table.chatId),
+  index("idx_messages_parent").on(table.parentId),
+]);
 
 /**
  * ZOD VALIDATION SCHEMAS
@@ -539,15 +632,22 @@ export type ToolTask = typeof toolTasks.$inferSelect;
  */
 export const toolCallLogs = sqliteTable("tool_call_logs", {
   id: text("id").primaryKey().$defaultFn(() => nanoid()),
-  chatId: text("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  // Calls made in a chat carry chatId; calls made by an agent worker carry jobId
+  chatId: text("chat_id").references(() => chats.id, { onDelete: "cascade" }),
   messageId: text("message_id").references(() => messages.id, { onDelete: "cascade" }),
+  jobId: text("job_id").references(() => agentJobs.id, { onDelete: "cascade" }),
   
   // Tool identification
   toolCallId: text("tool_call_id").notNull(), // Unique ID for this specific tool call
   toolType: text("tool_type").notNull(), // Type of tool (e.g., "gmail_send", "drive_read")
   
   // State tracking
-  status: text("status").default("pending").notNull(), // "pending" | "success" | "failure"
+  status: text("status").default("pending").notNull(), // "pending" | "success" | "failure" | "denied"
+  
+  // Permission policy (see server/services/tool-policy.ts)
+  policyDecision: text("policy_decision"), // "allow" | "deny" | "ask"
+  policyReason: text("policy_reason"), // Matched rule's reason or default that applied
+  approvalOutcome: text("approval_outcome"), // "approved" | "denied" | "expired" (only for "ask")
   
   // Request/Response data
   request: text("request", { mode: "json" }).notNull(), // Tool call parameters
@@ -564,6 +664,7 @@ export const toolCallLogs = sqliteTable("tool_call_logs", {
 }, (table) => [
   index("idx_tool_call_logs_chat").on(table.chatId),
   index("idx_tool_call_logs_message").on(table.messageId),
+  index("idx_tool_call_logs_job").on(table.jobId),
   index("idx_tool_call_logs_status").on(table.status),
 ]);
 
@@ -1313,7 +1414,7 @@ export type StructuredLLMResponse = z.infer<typeof structuredLLMResponseSchema>;
  * 3. Chunks are stored with their embeddings for later retrieval
  * 4. On query, relevant chunks are found via vector similarity search
  */
-// Document Chunks table removed
+// Document Chunks table removed (superseded by retrieval_chunks, below)
 // export const documentChunks = sqliteTable("document_chunks", { ... });
 
 // export const insertDocumentChunkSchema = ...;
@@ -1664,6 +1765,15 @@ export const schedules = sqliteTable("schedules", {
   consecutiveFailures: integer("consecutive_failures").default(0),
   maxConsecutiveFailures: integer("max_consecutive_failures").default(3),
   
+  // Missed runs (server down, poller late)
+  misfirePolicy: text("misfire_policy").default("run_once").notNull(), // skip, run_once, run_all
+  misfireGraceSeconds: integer("misfire_grace_seconds").default(120).notNull(), // Later than this counts as missed
+  maxCatchUp: integer("max_catch_up").default(10).notNull(), // Cap on missed runs replayed by run_all
+  jitterSeconds: integer("jitter_seconds").default(0).notNull(), // Random delay of up to N seconds per run
+  
+  // Overlapping runs
+  concurrencyPolicy: text("concurrency_policy").default("allow").notNull(), // allow, skip, queue
+  
   // Timestamps
   createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
   updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
@@ -1682,6 +1792,30 @@ export const insertScheduleSchema = createInsertSchema(schedules).omit({
 export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
 export type Schedule = typeof schedules.$inferSelect;
 
+// One row per schedule firing, including the ones that were skipped
+export const scheduleRuns = sqliteTable("schedule_runs", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  scheduleId: text("schedule_id").notNull().references(() => schedules.id, { onDelete: "cascade" }),
+  
+  trigger: text("trigger").default("cron").notNull(), // cron, manual
+  scheduledFor: integer("scheduled_for", { mode: "timestamp_ms" }).notNull(), // The cron occurrence
+  firedAt: integer("fired_at", { mode: "timestamp_ms" }), // When the job was submitted
+  status: text("status").notNull(), // fired, missed, skipped, failed
+  reason: text("reason"), // Why a run was missed, skipped or failed
+  jobId: text("job_id"), // Resulting agent job (not a foreign key: runs outlive deleted jobs)
+  
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  index("idx_schedule_runs_schedule").on(table.scheduleId, table.scheduledFor),
+]);
+
+export const insertScheduleRunSchema = createInsertSchema(scheduleRuns).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertScheduleRun = z.infer<typeof insertScheduleRunSchema>;
+export type ScheduleRun = typeof scheduleRuns.$inferSelect;
+
 // ============================================================================
 // TRIGGERS - Event-driven task execution
 // ============================================================================
@@ -1694,7 +1828,8 @@ export const triggers = sqliteTable("triggers", {
   description: text("description"),
   
   // Trigger type and configuration
-  triggerType: text("trigger_type").notNull(), // email, sms, prompt_keyword, webhook, manual
+  triggerType: text("trigger_type").notNull(), // email, sms, prompt_keyword, webhook, manual, file_watch, rss, http_poll, calendar_event
+  config: text("config", { mode: "json" }), // Type-specific settings (see server/services/trigger-sources.ts)
   
   // Pattern matching (depends on trigger type)
   pattern: text("pattern"), // Regex or keyword pattern
@@ -1707,12 +1842,13 @@ export const triggers = sqliteTable("triggers", {
   priority: integer("priority").default(5).notNull(), // Priority for triggered tasks
   
   // Webhook-specific
-  webhookSecret: text("webhook_secret"), // For validating webhook calls
+  webhookSecret: text("webhook_secret"), // Shared secret or HMAC key, see config.signature
   
   // State
   enabled: integer("enabled", { mode: "boolean" }).default(true).notNull(),
   lastTriggeredAt: integer("last_triggered_at", { mode: "timestamp_ms" }),
   triggerCount: integer("trigger_count").default(0).notNull(),
+  state: text("state", { mode: "json" }), // Polled sources: what the last check saw, so nothing fires twice
   
   // Timestamps
   createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
@@ -1725,19 +1861,64 @@ export const insertTriggerSchema = createInsertSchema(triggers).omit({
   updatedAt: true,
   lastTriggeredAt: true,
   triggerCount: true,
+  state: true,
 });
 export type InsertTrigger = z.infer<typeof insertTriggerSchema>;
 export type Trigger = typeof triggers.$inferSelect;
 
+// One row per source item a trigger fired for; the unique key makes firing at-most-once
+export const triggerEvents = sqliteTable("trigger_events", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  triggerId: text("trigger_id").notNull().references(() => triggers.id, { onDelete: "cascade" }),
+  sourceKey: text("source_key").notNull(), // e.g. gmail:<messageId>, rss:<itemId>
+  jobId: text("job_id"), // Resulting agent job, once submitted
+  firedAt: integer("fired_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  uniqueIndex("idx_trigger_events_source").on(table.triggerId, table.sourceKey),
+  index("idx_trigger_events_fired").on(table.firedAt),
+]);
+
+export type TriggerEvent = typeof triggerEvents.$inferSelect;
+
+// Inbound webhook requests as received, kept so a delivery can be inspected and replayed
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  triggerId: text("trigger_id").notNull().references(() => triggers.id, { onDelete: "cascade" }),
+  
+  headers: text("headers", { mode: "json" }), // Request headers, credentials removed
+  body: text("body"), // Raw request body
+  status: text("status").notNull(), // accepted, rejected, duplicate, failed
+  statusCode: integer("status_code").notNull(), // HTTP status the sender got
+  error: text("error"),
+  jobId: text("job_id"), // Resulting agent job
+  replayOf: text("replay_of"), // Delivery this one replayed
+  
+  receivedAt: integer("received_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  index("idx_webhook_deliveries_trigger").on(table.triggerId, table.receivedAt),
+]);
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  receivedAt: true,
+});
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
 /**
  * Trigger type constants
  */
+
 export const TriggerTypes = {
   EMAIL: "email",           // Triggered by incoming email
   SMS: "sms",               // Triggered by incoming SMS (Twilio)
   PROMPT_KEYWORD: "prompt_keyword", // Triggered by keyword in user prompt
   WEBHOOK: "webhook",       // Triggered by external HTTP request
   MANUAL: "manual",         // Triggered manually by user
+  FILE_WATCH: "file_watch", // Files created, modified or deleted in a directory
+  RSS: "rss",               // New items in an RSS/Atom feed
+  HTTP_POLL: "http_poll",   // A value in a polled JSON endpoint changed
+  CALENDAR_EVENT: "calendar_event", // N minutes before a Google Calendar event
 } as const;
 
 export type TriggerType = typeof TriggerTypes[keyof typeof TriggerTypes];
@@ -1755,6 +1936,7 @@ export const workflows = sqliteTable("workflows", {
   
   // Workflow definition
   steps: text("steps", { mode: "json" }).notNull(), // Array of step definitions
+  definition: text("definition", { mode: "json" }), // Versioned DSL definition (see @shared/workflow-dsl); replaces steps when set
   
   // Execution settings
   defaultExecutionMode: text("default_execution_mode").default("sequential").notNull(),
@@ -1779,6 +1961,83 @@ export const insertWorkflowSchema = createInsertSchema(workflows).omit({
 export type InsertWorkflow = z.infer<typeof insertWorkflowSchema>;
 export type Workflow = typeof workflows.$inferSelect;
 
+// ============================================================================
+// WORKFLOW RUNS - Executions of DSL workflows
+// ============================================================================
+
+export const workflowRuns = sqliteTable("workflow_runs", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  workflowId: text("workflow_id").references(() => workflows.id, { onDelete: "set null" }),
+  
+  // The definition as it was when the run started, and the run's inputs
+  definition: text("definition", { mode: "json" }).notNull(),
+  inputs: text("inputs", { mode: "json" }),
+  
+  // Progress
+  status: text("status").default("running").notNull(), // running, completed, failed, cancelled
+  steps: text("steps", { mode: "json" }).notNull(), // Step id -> WorkflowStepState
+  error: text("error"),
+  jobId: text("job_id"), // Agent job standing for the whole run
+  
+  // Timestamps
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  index("idx_workflow_runs_workflow").on(table.workflowId, table.createdAt),
+  index("idx_workflow_runs_status").on(table.status),
+]);
+
+export const insertWorkflowRunSchema = createInsertSchema(workflowRuns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertWorkflowRun = z.infer<typeof insertWorkflowRunSchema>;
+export type WorkflowRun = typeof workflowRuns.$inferSelect;
+
+// ============================================================================
+// APPROVALS - Human-in-the-loop decisions (see shared/approvals.ts)
+// ============================================================================
+
+// One row per approval a workflow asked for; also the audit trail of who decided what
+export const approvals = sqliteTable("approvals", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  
+  // What is waiting (not foreign keys: the trail outlives runs and jobs)
+  jobId: text("job_id").notNull(), // The waiting_input job standing for the approval
+  workflowRunId: text("workflow_run_id"),
+  stepId: text("step_id"),
+  
+  // The request, as rendered when the step started
+  title: text("title").notNull(),
+  summary: text("summary"),
+  requestedParameters: text("requested_parameters", { mode: "json" }).$type<Record<string, unknown>>(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+  onExpiry: text("on_expiry").default("reject").notNull(), // approve, reject
+  notifications: text("notifications", { mode: "json" }), // [{ channel, to, ok, error }]
+  
+  // The decision
+  status: text("status").default("pending").notNull(), // pending, approved, rejected, cancelled
+  action: text("action"), // approve, edit, reject, expire
+  parameters: text("parameters", { mode: "json" }).$type<Record<string, unknown>>(), // As approved, edits applied
+  decidedBy: text("decided_by"), // Operator email or id, or "system (expired)"
+  comment: text("comment"),
+  decidedAt: integer("decided_at", { mode: "timestamp_ms" }),
+  
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  index("idx_approvals_status").on(table.status, table.createdAt),
+  index("idx_approvals_job").on(table.jobId),
+]);
+
+export const insertApprovalSchema = createInsertSchema(approvals).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertApproval = z.infer<typeof insertApprovalSchema>;
+export type Approval = typeof approvals.$inferSelect;
+
 // ============================================================================
 // EXECUTOR STATE - Track executor status
 // ============================================================================
@@ -1994,11 +2253,20 @@ export const agentJobs = sqliteTable("agent_jobs", {
   payload: text("payload", { mode: "json" }).notNull(),
   
   // Status tracking
-  status: text("status").default("pending").notNull(), // 'pending', 'queued', 'running', 'completed', 'failed', 'cancelled'
-  
+  status: text("status").default("pending").notNull(), // 'pending', 'queued', 'running', 'waiting_input', 'completed', 'failed', 'cancelled', 'dead_letter'
+
   // Assignment
   workerId: text("worker_id"),
-  
+
+  // Lease held by the worker while running; renewed by heartbeats and
+  // reclaimed by any queue once it expires (e.g. the worker crashed)
+  leaseExpiresAt: integer("lease_expires_at", { mode: "timestamp_ms" }),
+  heartbeatAt: integer("heartbeat_at", { mode: "timestamp_ms" }),
+
+  // Failure tracking
+  lastError: text("last_error"),
+  deadLetteredAt: integer("dead_lettered_at", { mode: "timestamp_ms" }),
+
   // Retry configuration
   maxRetries: integer("max_retries").default(3),
   retryCount: integer("retry_count").default(0),
@@ -2022,6 +2290,7 @@ export const agentJobs = sqliteTable("agent_jobs", {
   index("idx_agent_jobs_priority").on(table.priority),
   index("idx_agent_jobs_parent").on(table.parentJobId),
   index("idx_agent_jobs_scheduled").on(table.scheduledFor),
+  index("idx_agent_jobs_lease").on(table.status, table.leaseExpiresAt),
 ]);
 
 export const insertAgentJobSchema = createInsertSchema(agentJobs).omit({
@@ -2081,7 +2350,7 @@ export const agentWorkers = sqliteTable("agent_workers", {
   
   // Worker identification
   name: text("name").notNull(),
-  type: text("type").default("gemini").notNull(), // 'gemini', 'custom'
+  type: text("type").default("gemini").notNull(), // LLM provider name: 'gemini', 'openai-compatible'
   
   // Status
   status: text("status").default("idle").notNull(), // 'idle', 'busy', 'offline', 'error'
@@ -2116,6 +2385,96 @@ export const insertAgentWorkerSchema = createInsertSchema(agentWorkers).omit({
 export type InsertAgentWorker = z.infer<typeof insertAgentWorkerSchema>;
 export type AgentWorker = typeof agentWorkers.$inferSelect;
 
+// =============================================================================
+// ORCHESTRATION STATE
+// Durable StateManager sessions, so orchestrations survive restarts
+// =============================================================================
+
+/**
+ * STATE SESSIONS TABLE
+ * ---------------------
+ * One row per StateManager session. Orchestrations keep their goal, plan
+ * and job ids in metadata, which is what recovery on boot reattaches from.
+ */
+export const stateSessions = sqliteTable("state_sessions", {
+  id: text("id").primaryKey(), // Chosen by the caller, e.g. orch-<time>-<random>
+  kind: text("kind").default("general").notNull(), // 'general', 'orchestration'
+  status: text("status").default("active").notNull(), // 'active', 'completed', 'failed', 'cancelled'
+  userId: text("user_id"),
+  chatId: text("chat_id"),
+  metadata: text("metadata", { mode: "json" }).$type<Record<string, unknown>>(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  lastAccessedAt: integer("last_accessed_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  closedAt: integer("closed_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  index("idx_state_sessions_kind").on(table.kind, table.status),
+]);
+
+export type StateSession = typeof stateSessions.$inferSelect;
+
+// Current value of each key in a session
+export const stateEntries = sqliteTable("state_entries", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  sessionId: text("session_id").notNull().references(() => stateSessions.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  value: text("value", { mode: "json" }),
+  type: text("type").default("shared").notNull(), // 'shared', 'private', 'temporary'
+  ttl: integer("ttl"), // Seconds, counted from createdAt
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+  metadata: text("metadata", { mode: "json" }).$type<Record<string, unknown>>(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  uniqueIndex("idx_state_entries_key").on(table.sessionId, table.key),
+  index("idx_state_entries_expires").on(table.expiresAt),
+]);
+
+export type StateEntryRow = typeof stateEntries.$inferSelect;
+
+// Exclusive locks on keys; an expired lock is free for anyone to take
+export const stateLocks = sqliteTable("state_locks", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  sessionId: text("session_id").notNull().references(() => stateSessions.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  holder: text("holder").notNull(), // Agent id
+  acquiredAt: integer("acquired_at", { mode: "timestamp_ms" }).notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+}, (table) => [
+  uniqueIndex("idx_state_locks_key").on(table.sessionId, table.key),
+]);
+
+export type StateLock = typeof stateLocks.$inferSelect;
+
+// Transaction journal: operations are queued here and applied together on commit
+export const stateTransactions = sqliteTable("state_transactions", {
+  id: text("id").primaryKey(),
+  sessionId: text("session_id").notNull().references(() => stateSessions.id, { onDelete: "cascade" }),
+  status: text("status").default("open").notNull(), // 'open', 'committed', 'rolled_back', 'abandoned'
+  operations: text("operations", { mode: "json" }).$type<Array<Record<string, unknown>>>().default([]).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+  finishedAt: integer("finished_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  index("idx_state_transactions_session").on(table.sessionId, table.status),
+]);
+
+export type StateTransactionRow = typeof stateTransactions.$inferSelect;
+
+// Every change to a session's entries and locks, for the state inspector
+export const stateHistory = sqliteTable("state_history", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  sessionId: text("session_id").notNull().references(() => stateSessions.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  action: text("action").notNull(), // 'set', 'delete', 'expire', 'lock', 'unlock'
+  value: text("value", { mode: "json" }), // New value for set; lock holder for lock/unlock
+  actor: text("actor"), // Agent id, when known
+  transactionId: text("transaction_id"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  index("idx_state_history_session").on(table.sessionId, table.createdAt),
+]);
+
+export type StateHistoryEntry = typeof stateHistory.$inferSelect;
+
 // =============================================================================
 // AGENT IDENTITY SYSTEM
 // For per-agent attribution of GitHub/Google Workspace actions
@@ -2763,3 +3122,41 @@ export const insertConversationSummarySchema = createInsertSchema(conversationSu
 });
 export type InsertConversationSummary = z.infer<typeof insertConversationSummarySchema>;
 export type ConversationSummaryRecord = typeof conversationSummaries.$inferSelect;
+
+// =============================================================================
+// RETRIEVAL CHUNKS - Local vector index for recall beyond the recent window
+// =============================================================================
+/**
+ * RETRIEVAL_CHUNKS TABLE
+ * ----------------------
+ * Chunked text from messages, attachments and Drive files with an embedding
+ * per chunk (server/services/retrieval). Embeddings are little-endian
+ * Float32 blobs; rows are only comparable within one embeddingKey
+ * ("provider:model"), so switching providers means reindexing.
+ */
+export const retrievalChunks = sqliteTable("retrieval_chunks", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  sourceType: text("source_type").notNull(), // "message" | "attachment" | "drive_file"
+  sourceId: text("source_id").notNull(), // Message, attachment or Drive file ID
+  chatId: text("chat_id").references(() => chats.id, { onDelete: "cascade" }),
+  userId: text("user_id"), // Owner, for isolation (null for guest chats)
+  title: text("title"), // Chat title, filename or Drive file name
+  role: text("role"), // "user" | "ai" for message chunks
+  chunkIndex: integer("chunk_index").default(0).notNull(),
+  content: text("content").notNull(),
+  embeddingKey: text("embedding_key").notNull(),
+  embedding: blob("embedding", { mode: "buffer" }).notNull(),
+  sourceCreatedAt: integer("source_created_at", { mode: "timestamp_ms" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).default(sql`(unixepoch() * 1000)`).notNull(),
+}, (table) => [
+  index("idx_retrieval_chunks_source").on(table.sourceType, table.sourceId),
+  index("idx_retrieval_chunks_key").on(table.embeddingKey),
+  index("idx_retrieval_chunks_chat").on(table.chatId),
+]);
+
+export const insertRetrievalChunkSchema = createInsertSchema(retrievalChunks).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertRetrievalChunk = z.infer<typeof insertRetrievalChunkSchema>;
+export type RetrievalChunk = typeof retrievalChunks.$inferSelect;
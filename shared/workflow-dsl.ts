@@ -0,0 +1,783 @@
+/**
+ * =============================================================================
+ * MEOWSTIC - WORKFLOW DSL
+ * =============================================================================
+ *
+ * Versioned workflow definitions, written in YAML or JSON:
+ *
+ *   version: 1
+ *   inputs:
+ *     label: { default: INBOX }
+ *   defaults:
+ *     retry: { maxAttempts: 2 }
+ *   steps:
+ *     - id: fetch
+ *       type: tool
+ *       tool: gmail_search
+ *       args: { query: "label:{{inputs.label}} is:unread" }
+ *     - id: triage
+ *       type: prompt
+ *       when: { value: "{{steps.fetch.output.items}}", empty: false }
+ *       forEach: "{{steps.fetch.output.items}}"
+ *       prompt: "Classify this email: {{item.subject}}"
+ *       timeoutSeconds: 120
+ *     - id: confirm
+ *       type: approval
+ *       title: "Send {{steps.triage.output.length}} replies?"
+ *       parameters: { signature: "Jason" }
+ *       expiresAfterSeconds: 3600
+ *       notify: { channels: [app, sms] }
+ *
+ * Approval steps wait for an operator (see @shared/approvals); their output
+ * is the decision and the parameters as approved.
+ *
+ * Steps run as soon as the steps they depend on have finished. A step
+ * depends on everything in `needs` plus every step its templates read
+ * from, so data passing and ordering cannot drift apart.
+ *
+ * Templates: "{{path}}" where path starts at inputs, steps.<id>.output,
+ * steps.<id>.status, or (inside a forEach step) item and index. A string
+ * that is exactly one template keeps the value's type; anything else is
+ * interpolated as text.
+ *
+ * Branching: a step whose `when` is false is skipped. A step whose
+ * dependencies were all skipped is skipped too, while a step with at least
+ * one dependency that ran goes ahead, so two exclusive branches can join
+ * again. Any failed step fails the run.
+ *
+ * Everything here is pure; the workflow engine runs definitions and the
+ * orchestration routes use validateWorkflowDefinition as a dry run.
+ */
+
+import { z } from "zod";
+import YAML from "yaml";
+import { executionLevels, findCycles } from "./dag";
+import { APPROVAL_CHANNELS } from "./approvals";
+
+export const WORKFLOW_DSL_VERSION = 1;
+
+/** Most items one forEach step fans out to */
+export const MAX_FOR_EACH_ITEMS = 100;
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const identifierSchema = z.string().regex(
+  /^[A-Za-z_][A-Za-z0-9_]*$/,
+  "Use letters, digits and underscores, not starting with a digit"
+);
+
+export interface WorkflowComparison {
+  /** Template for the value under test */
+  value: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  contains?: unknown;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  exists?: boolean;
+  empty?: boolean;
+}
+
+/** A template tested for truthiness, a comparison, or a combination */
+export type WorkflowCondition =
+  | string
+  | WorkflowComparison
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] }
+  | { not: WorkflowCondition };
+
+const COMPARISON_OPERATORS = ["equals", "notEquals", "in", "contains", "gt", "gte", "lt", "lte", "exists", "empty"] as const;
+
+const comparisonSchema = z.object({
+  value: z.string().min(1),
+  equals: z.unknown().optional(),
+  notEquals: z.unknown().optional(),
+  in: z.array(z.unknown()).optional(),
+  contains: z.unknown().optional(),
+  gt: z.number().optional(),
+  gte: z.number().optional(),
+  lt: z.number().optional(),
+  lte: z.number().optional(),
+  exists: z.boolean().optional(),
+  empty: z.boolean().optional(),
+}).strict().refine(
+  comparison => COMPARISON_OPERATORS.some(op => comparison[op] !== undefined),
+  { message: `A comparison needs one of: ${COMPARISON_OPERATORS.join(", ")}` }
+);
+
+export const workflowConditionSchema: z.ZodType<WorkflowCondition> = z.lazy(() => z.union([
+  z.string().min(1),
+  z.object({ all: z.array(workflowConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(workflowConditionSchema).min(1) }).strict(),
+  z.object({ not: workflowConditionSchema }).strict(),
+  comparisonSchema,
+]));
+
+const retrySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+}).strict();
+
+const timeoutSecondsSchema = z.number().int().min(1).max(24 * 60 * 60);
+
+const stepBase = {
+  id: identifierSchema,
+  name: z.string().optional(),
+  needs: z.array(identifierSchema).optional(),
+  when: workflowConditionSchema.optional(),
+  /** Run the step once per item: a template that yields a list, or a list */
+  forEach: z.union([z.string().min(1), z.array(z.unknown())]).optional(),
+  retry: retrySchema.optional(),
+  timeoutSeconds: timeoutSecondsSchema.optional(),
+  /** 0-10, higher runs first (see @shared/queue) */
+  priority: z.number().int().min(0).max(10).optional(),
+  /** User agent whose LLM provider/model the step runs on */
+  agentId: z.string().optional(),
+};
+
+export const workflowStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...stepBase,
+    type: z.literal("prompt"),
+    prompt: z.string().min(1),
+    systemPrompt: z.string().optional(),
+  }).strict(),
+  z.object({
+    ...stepBase,
+    type: z.literal("tool"),
+    tool: z.string().min(1),
+    args: z.record(z.unknown()).optional(),
+  }).strict(),
+  z.object({
+    ...stepBase,
+    type: z.literal("task"),
+    /** Legacy task type (research, analysis, ...) choosing the system prompt */
+    taskType: z.string().min(1),
+    description: z.string().min(1),
+    input: z.record(z.unknown()).optional(),
+  }).strict(),
+  z.object({
+    ...stepBase,
+    type: z.literal("approval"),
+    title: z.string().min(1),
+    /** Markdown shown to the approver */
+    summary: z.string().optional(),
+    /** Values the approver may edit before approving */
+    parameters: z.record(z.unknown()).optional(),
+    /** Decide with onExpiry when nobody answered in time */
+    expiresAfterSeconds: z.number().int().min(60).max(30 * 24 * 60 * 60).optional(),
+    onExpiry: z.enum(["approve", "reject"]).optional(),
+    /** skip (default): steps that depend on it are skipped; fail: the run fails */
+    onReject: z.enum(["skip", "fail"]).optional(),
+    notify: z.object({
+      channels: z.array(z.enum(APPROVAL_CHANNELS)).min(1),
+      /** SMS recipient; defaults to OWNER_PHONE_NUMBER */
+      phone: z.string().optional(),
+      /** Email recipient; defaults to OWNER_EMAIL */
+      email: z.string().email().optional(),
+    }).strict().optional(),
+  }).strict(),
+]);
+
+export const workflowInputSchema = z.object({
+  description: z.string().optional(),
+  type: z.enum(["string", "number", "boolean", "array", "object"]).optional(),
+  required: z.boolean().optional(),
+  default: z.unknown().optional(),
+}).strict();
+
+export const workflowDefinitionSchema = z.object({
+  version: z.literal(WORKFLOW_DSL_VERSION),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  inputs: z.record(identifierSchema, workflowInputSchema).optional(),
+  defaults: z.object({
+    retry: retrySchema.optional(),
+    timeoutSeconds: timeoutSecondsSchema.optional(),
+  }).strict().optional(),
+  steps: z.array(workflowStepSchema).min(1),
+}).strict();
+
+export type WorkflowStep = z.infer<typeof workflowStepSchema>;
+export type WorkflowInput = z.infer<typeof workflowInputSchema>;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+
+// ============================================================================
+// RUN STATE
+// ============================================================================
+
+export const WORKFLOW_STEP_STATUSES = ["pending", "running", "completed", "failed", "skipped"] as const;
+export type WorkflowStepStatus = typeof WORKFLOW_STEP_STATUSES[number];
+
+export const WORKFLOW_RUN_STATUSES = ["running", "completed", "failed", "cancelled"] as const;
+export type WorkflowRunStatus = typeof WORKFLOW_RUN_STATUSES[number];
+
+export interface WorkflowStepState {
+  status: WorkflowStepStatus;
+  /** One job per step, or one per item for forEach steps */
+  jobIds: string[];
+  output?: unknown;
+  error?: string;
+  /** Why the step was skipped */
+  reason?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type WorkflowStepStates = Record<string, WorkflowStepState>;
+
+export interface TemplateContext {
+  inputs: Record<string, unknown>;
+  steps: Record<string, { status: WorkflowStepStatus; output?: unknown }>;
+  item?: unknown;
+  index?: number;
+}
+
+export class WorkflowTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowTemplateError";
+  }
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const TEMPLATE_PATTERN = /\{\{([^{}]*)\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{([^{}]*)\}\}$/;
+const PATH_SEGMENT_PATTERN = /\.([A-Za-z0-9_$-]+)|\[(\d+)\]/y;
+
+/**
+ * Split "steps.fetch.output.items[0].id" into its segments, or null if the
+ * expression is not a plain path
+ */
+export function parseTemplatePath(expression: string): Array<string | number> | null {
+  const trimmed = expression.trim();
+  const root = /^[A-Za-z_][A-Za-z0-9_]*/.exec(trimmed);
+  if (!root) return null;
+
+  const segments: Array<string | number> = [root[0]];
+  PATH_SEGMENT_PATTERN.lastIndex = root[0].length;
+  while (PATH_SEGMENT_PATTERN.lastIndex < trimmed.length) {
+    const match = PATH_SEGMENT_PATTERN.exec(trimmed);
+    if (!match) return null;
+    segments.push(match[1] ?? Number(match[2]));
+  }
+  return segments;
+}
+
+function resolvePath(context: TemplateContext, expression: string): unknown {
+  const segments = parseTemplatePath(expression);
+  if (!segments) {
+    throw new WorkflowTemplateError(`Invalid template expression "{{${expression}}}"`);
+  }
+
+  let current: unknown = context;
+  for (const segment of segments) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current) && segment === "length") {
+      current = current.length;
+    } else if (typeof current === "object" && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = (current as Record<string | number, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function templateText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Fill in every template in a string, or in the strings of an array or
+ * object. "{{steps.fetch.output.items}}" on its own yields the list itself.
+ */
+export function renderTemplate(value: unknown, context: TemplateContext): unknown {
+  if (typeof value === "string") {
+    const whole = WHOLE_TEMPLATE_PATTERN.exec(value);
+    if (whole) return resolvePath(context, whole[1]);
+    return value.replace(TEMPLATE_PATTERN, (_, expression: string) => templateText(resolvePath(context, expression)));
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => renderTemplate(entry, context));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, renderTemplate(entry, context)]));
+  }
+  return value;
+}
+
+/** Render a template to text, for prompts and other string fields */
+export function renderTemplateText(template: string, context: TemplateContext): string {
+  return templateText(renderTemplate(template, context));
+}
+
+interface TemplateRef {
+  /** Where the template sits, e.g. steps[1].args.query */
+  path: string;
+  expression: string;
+  segments: Array<string | number> | null;
+}
+
+function collectTemplateRefs(value: unknown, path: string, refs: TemplateRef[] = []): TemplateRef[] {
+  if (typeof value === "string") {
+    for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+      refs.push({ path, expression: match[1].trim(), segments: parseTemplatePath(match[1]) });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectTemplateRefs(entry, `${path}[${index}]`, refs));
+  } else if (value && typeof value === "object") {
+    for (const [key, entry] of Object.entries(value)) {
+      collectTemplateRefs(entry, `${path}.${key}`, refs);
+    }
+  }
+  return refs;
+}
+
+/** Templates a step reads outside its forEach expression */
+function stepBodyRefs(step: WorkflowStep, path: string): TemplateRef[] {
+  const { id: _id, name: _name, needs: _needs, forEach: _forEach, ...body } = step;
+  return collectTemplateRefs(body, path);
+}
+
+function stepForEachRefs(step: WorkflowStep, path: string): TemplateRef[] {
+  return step.forEach === undefined ? [] : collectTemplateRefs(step.forEach, `${path}.forEach`);
+}
+
+/**
+ * The steps each step waits for: its `needs` plus every step its templates
+ * read from
+ */
+export function workflowStepDependencies(definition: WorkflowDefinition): Record<string, string[]> {
+  const ids = new Set(definition.steps.map(step => step.id));
+  const dependencies: Record<string, string[]> = {};
+
+  definition.steps.forEach((step, index) => {
+    const deps = new Set(step.needs ?? []);
+    for (const ref of [...stepBodyRefs(step, `steps[${index}]`), ...stepForEachRefs(step, `steps[${index}]`)]) {
+      const [root, stepId] = ref.segments ?? [];
+      if (root === "steps" && typeof stepId === "string" && ids.has(stepId) && stepId !== step.id) {
+        deps.add(stepId);
+      }
+    }
+    dependencies[step.id] = [...deps];
+  });
+
+  return dependencies;
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * Truthiness for workflow values: empty lists and objects, and the strings
+ * "", "false", "0", "no" and "null" (LLM output often says so in words)
+ * are false
+ */
+export function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return !["", "false", "0", "no", "null"].includes(value.trim().toLowerCase());
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") return Object.keys(value).length > 0;
+  return true;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+/** Equality that lets "3" match 3, since templates often yield text */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  const primitive = (value: unknown) => ["string", "number", "boolean"].includes(typeof value);
+  if (primitive(a) && primitive(b)) return String(a) === String(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compareNumber(value: unknown, limit: number, test: (a: number, b: number) => boolean): boolean {
+  const number = typeof value === "number" ? value : Number(value);
+  return value !== null && value !== "" && !Number.isNaN(number) && test(number, limit);
+}
+
+export function evaluateCondition(condition: WorkflowCondition, context: TemplateContext): boolean {
+  if (typeof condition === "string") {
+    return isTruthy(renderTemplate(condition, context));
+  }
+  if ("all" in condition) return condition.all.every(entry => evaluateCondition(entry, context));
+  if ("any" in condition) return condition.any.some(entry => evaluateCondition(entry, context));
+  if ("not" in condition) return !evaluateCondition(condition.not, context);
+
+  const value = renderTemplate(condition.value, context);
+  const checks: boolean[] = [];
+
+  if (condition.equals !== undefined) checks.push(valuesEqual(value, condition.equals));
+  if (condition.notEquals !== undefined) checks.push(!valuesEqual(value, condition.notEquals));
+  if (condition.in !== undefined) checks.push(condition.in.some(option => valuesEqual(value, option)));
+  if (condition.contains !== undefined) {
+    checks.push(Array.isArray(value)
+      ? value.some(entry => valuesEqual(entry, condition.contains))
+      : typeof value === "string" && value.includes(templateText(condition.contains)));
+  }
+  if (condition.gt !== undefined) checks.push(compareNumber(value, condition.gt, (a, b) => a > b));
+  if (condition.gte !== undefined) checks.push(compareNumber(value, condition.gte, (a, b) => a >= b));
+  if (condition.lt !== undefined) checks.push(compareNumber(value, condition.lt, (a, b) => a < b));
+  if (condition.lte !== undefined) checks.push(compareNumber(value, condition.lte, (a, b) => a <= b));
+  if (condition.exists !== undefined) checks.push((value !== null && value !== undefined) === condition.exists);
+  if (condition.empty !== undefined) checks.push(isEmpty(value) === condition.empty);
+
+  return checks.every(Boolean);
+}
+
+function conditionStrings(condition: WorkflowCondition): string[] {
+  if (typeof condition === "string") return [condition];
+  if ("all" in condition) return condition.all.flatMap(conditionStrings);
+  if ("any" in condition) return condition.any.flatMap(conditionStrings);
+  if ("not" in condition) return conditionStrings(condition.not);
+  return [condition.value];
+}
+
+// ============================================================================
+// OUTPUTS AND INPUTS
+// ============================================================================
+
+/**
+ * Step outputs as templates see them: JSON text (optionally in a Markdown
+ * code fence, as LLMs like to answer) is parsed so fields can be read
+ */
+export function normalizeStepOutput(output: unknown): unknown {
+  if (typeof output !== "string") return output;
+
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/.exec(output.trim());
+  const text = (fenced ? fenced[1] : output).trim();
+  if (!text.startsWith("{") && !text.startsWith("[")) return output;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return output;
+  }
+}
+
+/**
+ * The items a forEach step fans out to
+ */
+export function resolveForEachItems(step: WorkflowStep, context: TemplateContext): unknown[] {
+  const items = normalizeStepOutput(renderTemplate(step.forEach, context));
+  if (!Array.isArray(items)) {
+    const kind = items === null ? "null" : typeof items;
+    throw new WorkflowTemplateError(`forEach of step "${step.id}" expected a list, got ${kind}`);
+  }
+  if (items.length > MAX_FOR_EACH_ITEMS) {
+    throw new WorkflowTemplateError(
+      `forEach of step "${step.id}" has ${items.length} items (at most ${MAX_FOR_EACH_ITEMS})`
+    );
+  }
+  return items;
+}
+
+/**
+ * Apply declared defaults to the inputs a run was started with
+ */
+export function resolveWorkflowInputs(
+  definition: WorkflowDefinition,
+  provided: Record<string, unknown> = {},
+): { inputs: Record<string, unknown>; errors: WorkflowIssue[]; warnings: WorkflowIssue[] } {
+  const inputs: Record<string, unknown> = { ...provided };
+  const errors: WorkflowIssue[] = [];
+  const warnings: WorkflowIssue[] = [];
+  const declared = definition.inputs;
+
+  for (const [name, spec] of Object.entries(declared ?? {})) {
+    if (inputs[name] === undefined && spec.default !== undefined) {
+      inputs[name] = spec.default;
+    }
+    if (inputs[name] === undefined && spec.required) {
+      errors.push({ path: `inputs.${name}`, message: `Missing required input "${name}"` });
+    }
+  }
+  if (declared) {
+    for (const name of Object.keys(provided)) {
+      if (!(name in declared)) {
+        warnings.push({ path: `inputs.${name}`, message: `Input "${name}" is not declared by the workflow` });
+      }
+    }
+  }
+
+  return { inputs, errors, warnings };
+}
+
+// ============================================================================
+// VALIDATION (DRY RUN)
+// ============================================================================
+
+export interface WorkflowIssue {
+  /** Where in the definition, e.g. steps[2].args.query */
+  path: string;
+  message: string;
+}
+
+export interface WorkflowPlanStep {
+  id: string;
+  type: WorkflowStep["type"];
+  dependsOn: string[];
+  conditional: boolean;
+  forEach: boolean;
+  maxAttempts?: number;
+  timeoutSeconds?: number;
+}
+
+export interface WorkflowValidation {
+  valid: boolean;
+  errors: WorkflowIssue[];
+  warnings: WorkflowIssue[];
+  definition?: WorkflowDefinition;
+  /** Steps with their resolved dependencies, and the levels that can run side by side */
+  plan?: { steps: WorkflowPlanStep[]; levels: string[][] };
+}
+
+function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (text, segment) => typeof segment === "number" ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment,
+    ""
+  );
+}
+
+/**
+ * Parse YAML or JSON text; objects pass through
+ */
+export function parseWorkflowSource(source: unknown): unknown {
+  return typeof source === "string" ? YAML.parse(source) : source;
+}
+
+/**
+ * Check a definition without running it: schema, step references,
+ * templates and cycles. With `inputs`, also checks the run's inputs.
+ */
+export function validateWorkflowDefinition(
+  source: unknown,
+  options: { inputs?: Record<string, unknown> } = {},
+): WorkflowValidation {
+  let raw: unknown;
+  try {
+    raw = parseWorkflowSource(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { valid: false, errors: [{ path: "", message: `Could not parse definition: ${message}` }], warnings: [] };
+  }
+
+  const parsed = workflowDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      warnings: [],
+    };
+  }
+
+  const definition = parsed.data;
+  const errors: WorkflowIssue[] = [];
+  const warnings: WorkflowIssue[] = [];
+  const stepsById = new Map<string, WorkflowStep>();
+
+  definition.steps.forEach((step, index) => {
+    if (stepsById.has(step.id)) {
+      errors.push({ path: `steps[${index}].id`, message: `Duplicate step id "${step.id}"` });
+    }
+    stepsById.set(step.id, step);
+  });
+
+  definition.steps.forEach((step, index) => {
+    const path = `steps[${index}]`;
+
+    (step.needs ?? []).forEach((needed, needIndex) => {
+      if (needed === step.id) {
+        errors.push({ path: `${path}.needs[${needIndex}]`, message: `Step "${step.id}" cannot depend on itself` });
+      } else if (!stepsById.has(needed)) {
+        errors.push({ path: `${path}.needs[${needIndex}]`, message: `Unknown step "${needed}"` });
+      }
+    });
+
+    const refs = [
+      ...stepBodyRefs(step, path).map(ref => ({ ref, inForEach: false })),
+      ...stepForEachRefs(step, path).map(ref => ({ ref, inForEach: true })),
+    ];
+
+    for (const { ref, inForEach } of refs) {
+      const error = checkTemplateRef(ref, step, inForEach, definition, stepsById);
+      if (error) {
+        errors.push({ path: ref.path, message: error });
+        continue;
+      }
+      const [root, stepId] = ref.segments!;
+      if (root === "steps" && stepsById.get(stepId as string)?.when !== undefined) {
+        warnings.push({
+          path: ref.path,
+          message: `Step "${stepId}" is conditional, so {{${ref.expression}}} is empty when it is skipped`,
+        });
+      }
+    }
+
+    if (step.when !== undefined && conditionStrings(step.when).every(text => !text.includes("{{"))) {
+      warnings.push({ path: `${path}.when`, message: "Condition has no templates, so it never changes" });
+    }
+
+    if (Array.isArray(step.forEach) && step.forEach.length > MAX_FOR_EACH_ITEMS) {
+      errors.push({ path: `${path}.forEach`, message: `At most ${MAX_FOR_EACH_ITEMS} items` });
+    }
+
+    if (step.type === "approval") {
+      for (const field of ["forEach", "retry", "agentId"] as const) {
+        if (step[field] !== undefined) {
+          errors.push({ path: `${path}.${field}`, message: `Approval steps do not support ${field}` });
+        }
+      }
+      if (step.onExpiry !== undefined && step.expiresAfterSeconds === undefined) {
+        warnings.push({ path: `${path}.onExpiry`, message: "onExpiry has no effect without expiresAfterSeconds" });
+      }
+    }
+  });
+
+  const dependencies = workflowStepDependencies(definition);
+  const nodes = definition.steps.map(step => ({ id: step.id, dependencies: dependencies[step.id] }));
+  for (const cycle of findCycles(nodes)) {
+    errors.push({ path: "steps", message: `Steps depend on each other in a cycle: ${cycle.join(" -> ")}` });
+  }
+
+  if (options.inputs !== undefined) {
+    const resolved = resolveWorkflowInputs(definition, options.inputs);
+    errors.push(...resolved.errors);
+    warnings.push(...resolved.warnings);
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings, definition };
+  }
+
+  return {
+    valid: true,
+    errors,
+    warnings,
+    definition,
+    plan: {
+      steps: definition.steps.map(step => ({
+        id: step.id,
+        type: step.type,
+        dependsOn: dependencies[step.id],
+        conditional: step.when !== undefined,
+        forEach: step.forEach !== undefined,
+        maxAttempts: (step.retry ?? definition.defaults?.retry)?.maxAttempts,
+        timeoutSeconds: step.timeoutSeconds ?? definition.defaults?.timeoutSeconds,
+      })),
+      levels: executionLevels(nodes),
+    },
+  };
+}
+
+function checkTemplateRef(
+  ref: TemplateRef,
+  step: WorkflowStep,
+  inForEach: boolean,
+  definition: WorkflowDefinition,
+  stepsById: Map<string, WorkflowStep>,
+): string | null {
+  if (!ref.segments) {
+    return `Invalid template expression "{{${ref.expression}}}"`;
+  }
+
+  const [root, name, field] = ref.segments;
+  switch (root) {
+    case "inputs":
+      if (definition.inputs && name !== undefined && !(String(name) in definition.inputs)) {
+        return `Unknown input "${name}"`;
+      }
+      return null;
+    case "steps":
+      if (typeof name !== "string") return `{{${ref.expression}}} must name a step`;
+      if (name === step.id) return `Step "${step.id}" cannot read its own output`;
+      if (!stepsById.has(name)) return `Unknown step "${name}"`;
+      if (field !== undefined && field !== "output" && field !== "status") {
+        return `Steps expose "output" and "status", not "${field}"`;
+      }
+      return null;
+    case "item":
+    case "index":
+      if (step.forEach === undefined) return `{{${root}}} is only available in forEach steps`;
+      if (inForEach) return `forEach cannot use {{${root}}} itself`;
+      return null;
+    default:
+      return `Unknown template root "${root}" (use inputs, steps, item or index)`;
+  }
+}
+
+// ============================================================================
+// EXECUTION PLANNING
+// ============================================================================
+
+/**
+ * Steps that can start now, and steps to skip because every step they
+ * depend on was skipped. Skips can unlock further skips, so callers apply
+ * them and ask again until nothing changes.
+ */
+export function nextWorkflowActions(
+  definition: WorkflowDefinition,
+  states: WorkflowStepStates,
+): { start: string[]; skip: Array<{ id: string; reason: string }> } {
+  const dependencies = workflowStepDependencies(definition);
+  const start: string[] = [];
+  const skip: Array<{ id: string; reason: string }> = [];
+
+  for (const step of definition.steps) {
+    if ((states[step.id]?.status ?? "pending") !== "pending") continue;
+
+    const deps = dependencies[step.id];
+    const depStatuses = deps.map(id => states[id]?.status ?? "pending");
+    if (depStatuses.some(status => status !== "completed" && status !== "skipped")) continue;
+
+    if (deps.length > 0 && depStatuses.every(status => status === "skipped")) {
+      skip.push({ id: step.id, reason: "Every step it depends on was skipped" });
+    } else {
+      start.push(step.id);
+    }
+  }
+
+  return { start, skip };
+}
+
+/**
+ * Overall status once steps settle: failed as soon as a step fails,
+ * completed when every step completed or was skipped
+ */
+export function workflowRunStatus(definition: WorkflowDefinition, states: WorkflowStepStates): WorkflowRunStatus {
+  const statuses = definition.steps.map(step => states[step.id]?.status ?? "pending");
+  if (statuses.includes("failed")) return "failed";
+  if (statuses.every(status => status === "completed" || status === "skipped")) return "completed";
+  return "running";
+}
+
+/**
+ * What templates can read from a run so far
+ */
+export function buildTemplateContext(inputs: Record<string, unknown>, states: WorkflowStepStates): TemplateContext {
+  return {
+    inputs,
+    steps: Object.fromEntries(
+      Object.entries(states).map(([id, state]) => [id, { status: state.status, output: state.output }])
+    ),
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  agentPanelSchema,
+  chooseNextSpeaker,
+  findMentions,
+  panelHistory,
+  parseModeratorChoice,
+  type AgentPanel,
+  type PanelTurn,
+} from "@shared/agent-panel";
+import { runPanelExchange } from "../server/services/agent-panel";
+
+const coder = { id: "a1", name: "coder", displayName: "Code Cat" };
+const reviewer = { id: "a2", name: "reviewer", displayName: "Review Cat" };
+const speakers = [coder, reviewer];
+
+const panel = (overrides: Partial<AgentPanel> = {}): AgentPanel =>
+  agentPanelSchema.parse({ agentIds: ["a1", "a2"], ...overrides });
+
+const turn = (agentId: string, content = "ok", agreed = false): PanelTurn => ({ agentId, content, agreed });
+
+describe("agentPanelSchema", () => {
+  it("defaults to a short round robin that stops on consensus", () => {
+    expect(panel()).toEqual({ agentIds: ["a1", "a2"], turnPolicy: "round_robin", maxTurns: 4, stopOnConsensus: true });
+  });
+
+  it("needs two distinct agents", () => {
+    expect(agentPanelSchema.safeParse({ agentIds: ["a1"] }).success).toBe(false);
+    expect(agentPanelSchema.safeParse({ agentIds: ["a1", "a1"] }).success).toBe(false);
+  });
+});
+
+describe("findMentions", () => {
+  it("matches names and display names in order of appearance", () => {
+    expect(findMentions("@reviewer check what @CodeCat wrote", speakers)).toEqual(["a2", "a1"]);
+    expect(findMentions("thanks @code cat", speakers)).toEqual(["a1"]);
+  });
+
+  it("ignores partial handles and bare names", () => {
+    expect(findMentions("@coders and reviewer", speakers)).toEqual([]);
+  });
+});
+
+describe("chooseNextSpeaker", () => {
+  it("lets the user address the first speaker", () => {
+    expect(chooseNextSpeaker(panel(), speakers, "@reviewer thoughts?", [])).toEqual({ agentId: "a2" });
+    expect(chooseNextSpeaker(panel(), speakers, "thoughts?", [])).toEqual({ agentId: "a1" });
+  });
+
+  it("cycles round robin until max turns", () => {
+    expect(chooseNextSpeaker(panel(), speakers, "", [turn("a2")])).toEqual({ agentId: "a1" });
+    expect(chooseNextSpeaker(panel({ maxTurns: 2 }), speakers, "", [turn("a1"), turn("a2")])).toEqual({ stop: "max_turns" });
+  });
+
+  it("stops once every agent's latest reply agrees", () => {
+    const agreeing = [turn("a1", "done", true), turn("a2", "lgtm", true)];
+    expect(chooseNextSpeaker(panel(), speakers, "", agreeing)).toEqual({ stop: "consensus" });
+    expect(chooseNextSpeaker(panel(), speakers, "", [...agreeing, turn("a1", "wait")])).toEqual({ agentId: "a2" });
+    expect(chooseNextSpeaker(panel({ stopOnConsensus: false }), speakers, "", agreeing)).toEqual({ agentId: "a1" });
+  });
+
+  it("follows mentions and hands back to the user without one", () => {
+    const mention = panel({ turnPolicy: "mention" });
+    expect(chooseNextSpeaker(mention, speakers, "", [turn("a1", "@reviewer over to you")])).toEqual({ agentId: "a2" });
+    expect(chooseNextSpeaker(mention, speakers, "", [turn("a1", "as @coder I think")])).toEqual({ stop: "no_mention" });
+  });
+
+  it("defers to the moderator", () => {
+    expect(chooseNextSpeaker(panel({ turnPolicy: "moderator" }), speakers, "hi", [])).toEqual({ askModerator: true });
+  });
+});
+
+describe("panelHistory", () => {
+  it("labels other agents as user turns and merges neighbours", () => {
+    const entries = [
+      { role: "user" as const, content: "Write a sort" },
+      { role: "ai" as const, agentId: "a1", agentName: "Code Cat", content: "Here it is" },
+      { role: "ai" as const, agentId: "a2", agentName: "Review Cat", content: "Off by one" },
+    ];
+    expect(panelHistory(entries, "a1")).toEqual([
+      { role: "user", content: "Write a sort" },
+      { role: "assistant", content: "Here it is" },
+      { role: "user", content: "[Review Cat]: Off by one" },
+    ]);
+    expect(panelHistory(entries, "a2")).toEqual([
+      { role: "user", content: "Write a sort\n\n[Code Cat]: Here it is" },
+      { role: "assistant", content: "Off by one" },
+    ]);
+  });
+});
+
+describe("parseModeratorChoice", () => {
+  it("accepts a panel member or done", () => {
+    expect(parseModeratorChoice('```json\n{"next": "@Review Cat"}\n```', speakers)).toEqual({ agentId: "a2" });
+    expect(parseModeratorChoice('{"next": "done"}', speakers)).toEqual({ stop: "moderator_done" });
+  });
+
+  it("rejects strangers and prose", () => {
+    expect(parseModeratorChoice('{"next": "Dog"}', speakers)).toBeNull();
+    expect(parseModeratorChoice("Code Cat should go", speakers)).toBeNull();
+  });
+});
+
+describe("runPanelExchange", () => {
+  it("takes turns, shares tool results and stops on consensus", async () => {
+    const seen: string[][] = [];
+    const replies = ["Draft [AGREE]", "Fixed the bound [AGREE]"];
+    const saved: string[] = [];
+    const result = await runPanelExchange({
+      panel: panel(),
+      agents: speakers,
+      userText: "Write a sort",
+      transcript: [{ role: "user", content: "Write a sort" }],
+      runTurn: async (_agent, messages) => {
+        seen.push(messages.map(message => message.content));
+        const toolResults = seen.length === 1 ? [{ toolId: "t1", type: "terminal", success: true, result: "3 passed" }] : [];
+        return { content: replies[seen.length - 1], toolResults };
+      },
+      saveTurn: async (agent, record) => {
+        saved.push(`${agent.name}: ${record.content}`);
+      },
+    });
+
+    expect(result.stopReason).toBe("consensus");
+    expect(saved).toEqual(["coder: Draft", "reviewer: Fixed the bound"]);
+    expect(seen[1]).toEqual(['Write a sort\n\n[Code Cat]: Draft\n\n[Tool terminal returned: "3 passed"]']);
+  });
+
+  it("falls back to round robin when the moderator names nobody", async () => {
+    const spoke: string[] = [];
+    const result = await runPanelExchange({
+      panel: panel({ turnPolicy: "moderator", maxTurns: 2 }),
+      agents: speakers,
+      userText: "hi",
+      transcript: [{ role: "user", content: "hi" }],
+      runTurn: async (agent) => {
+        spoke.push(agent.id);
+        return { content: "hello", toolResults: [] };
+      },
+      saveTurn: async () => {},
+      moderate: async () => "I pick the dog",
+    });
+
+    expect(spoke).toEqual(["a1", "a2"]);
+    expect(result.stopReason).toBe("max_turns");
+  });
+});
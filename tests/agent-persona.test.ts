@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyEmailSignature,
+  applyGithubSignature,
+  filterToolsForAgent,
+  personaPromptSections,
+} from "../server/services/agent-persona";
+
+describe("personaPromptSections", () => {
+  it("titles the persona and marks the overrides as taking precedence", () => {
+    const sections = personaPromptSections({
+      displayName: "Code Cat",
+      personalityPrompt: "  Terse and exacting.  ",
+      systemPromptOverrides: "Always answer in TypeScript.",
+    });
+    expect(sections.persona).toBe("# Agent Persona: Code Cat\n\nTerse and exacting.");
+    expect(sections.overrides).toMatch(/^# Agent Instructions\n.*take precedence/);
+    expect(sections.overrides).toMatch(/Always answer in TypeScript\.$/);
+  });
+
+  it("adds nothing for blank fields", () => {
+    expect(personaPromptSections({ displayName: "x", personalityPrompt: " ", systemPromptOverrides: null })).toEqual({
+      persona: undefined,
+      overrides: undefined,
+    });
+  });
+});
+
+describe("filterToolsForAgent", () => {
+  const tools = [{ name: "write" }, { name: "end_turn" }, { name: "terminal" }, { name: "gmail_send" }, { name: "get" }];
+
+  it("keeps every tool without an allowlist", () => {
+    expect(filterToolsForAgent(tools, null)).toBe(tools);
+    expect(filterToolsForAgent(tools, [])).toBe(tools);
+  });
+
+  it("keeps allowlisted tools plus chat output and turn control", () => {
+    expect(filterToolsForAgent(tools, ["get", "gmail_send"]).map(tool => tool.name)).toEqual([
+      "write",
+      "end_turn",
+      "gmail_send",
+      "get",
+    ]);
+  });
+});
+
+describe("signatures", () => {
+  it("signs plain and HTML email bodies", () => {
+    expect(applyEmailSignature("Hi Sam,\nSee attached.\n", "Code Cat\nMeowstik")).toBe(
+      "Hi Sam,\nSee attached.\n\n-- \nCode Cat\nMeowstik"
+    );
+    expect(applyEmailSignature("<p>Hi</p>", "Cat <cat@example.com>\nMeowstik")).toBe(
+      "<p>Hi</p><br><br>-- <br>Cat &lt;cat@example.com&gt;<br>Meowstik"
+    );
+  });
+
+  it("does not sign twice or sign without a signature", () => {
+    expect(applyEmailSignature("Thanks\n-- \nCode Cat", "Code Cat")).toBe("Thanks\n-- \nCode Cat");
+    expect(applyEmailSignature("Thanks", null)).toBe("Thanks");
+    expect(applyGithubSignature("LGTM", "  ")).toBe("LGTM");
+  });
+
+  it("signs GitHub comments below a rule", () => {
+    expect(applyGithubSignature("LGTM\n", "_— Code Cat_")).toBe("LGTM\n\n---\n_— Code Cat_");
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runAgenticTurn } from "../server/services/agentic-loop";
+import {
+  LlmFixtureMismatchError,
+  LlmFixtureRecorder,
+  LlmFixtureReplayer,
+  loadFixture,
+} from "../server/services/llm/fixtures";
+import type { LlmProvider, LlmStreamChunk } from "../server/services/llm/types";
+import type { ToolCall } from "@shared/schema";
+import type { ToolResultRecord } from "../server/services/tool-responses";
+
+/** A provider that must never be reached while replaying */
+const offline: LlmProvider = {
+  name: "gemini",
+  defaultModel: "gemini-2.5-pro",
+  isConfigured: () => false,
+  generate: () => { throw new Error("network call during replay"); },
+  stream: () => { throw new Error("network call during replay"); },
+};
+
+const tools = ["get", "write", "end_turn"].map(name => ({ name }));
+
+async function executeTool(toolCall: ToolCall): Promise<ToolResultRecord> {
+  const base = { toolId: toolCall.id, type: toolCall.type, success: true };
+  if (toolCall.type === "get") return { ...base, result: { content: "buy milk" } };
+  if (toolCall.type === "end_turn") return { ...base, result: { shouldEndTurn: true } };
+  return { ...base, result: { ok: true } };
+}
+
+function replayTurn(replayer: LlmFixtureReplayer, userText: string) {
+  const provider = replayer.wrap(offline, "chat");
+  const events: Array<Record<string, unknown>> = [];
+  const turn = runAgenticTurn({
+    system: "system prompt",
+    messages: [{ role: "user", content: userText }],
+    tools,
+    stream: request => provider.stream({ ...request, model: "gemini-2.5-pro" }),
+    executeTool,
+    emit: event => events.push(event),
+  });
+  return { turn, events };
+}
+
+describe("runAgenticTurn with a replayed fixture", () => {
+  it("runs the tool loop and streams SSE events offline", async () => {
+    const replayer = LlmFixtureReplayer.load("chat-tool-loop");
+    const { turn, events } = replayTurn(replayer, "What's in notes.txt?");
+    const result = await turn;
+
+    expect(replayer.remaining()).toBe(0);
+    expect(result.endedByTool).toBe(true);
+    expect(result.iterations).toBe(1);
+    expect(result.toolResults.map(r => r.type)).toEqual(["get", "write", "end_turn"]);
+    expect(result.cleanContent).toContain("notes.txt says: buy milk");
+    expect(result.usage).toEqual({ promptTokenCount: 10281, candidatesTokenCount: 49, totalTokenCount: 10330 });
+
+    const kinds = events.map(e => ("toolResult" in e ? `tool:${(e.toolResult as { type: string }).type}` : "text"));
+    expect(kinds).toEqual(["text", "tool:get", "tool:write", "text", "tool:end_turn"]);
+    expect(events[3]).toEqual({ text: "notes.txt says: buy milk" });
+  });
+
+  it("fails loudly when the conversation drifts from the recording", async () => {
+    const { turn } = replayTurn(LlmFixtureReplayer.load("chat-tool-loop"), "Something else");
+    await expect(turn).rejects.toBeInstanceOf(LlmFixtureMismatchError);
+  });
+
+  it("reports a failed tool instead of aborting the turn", async () => {
+    const provider = LlmFixtureReplayer.load("chat-tool-loop").wrap(offline, "chat");
+    const result = await runAgenticTurn({
+      system: "",
+      messages: [{ role: "user", content: "What's in notes.txt?" }],
+      tools,
+      stream: request => provider.stream({ ...request, model: "m" }),
+      executeTool: async call => {
+        if (call.type === "get") throw new Error("ENOENT");
+        return executeTool(call);
+      },
+      emit: () => {},
+    });
+
+    expect(result.endedByTool).toBe(true);
+    expect(result.toolResults[0]).toMatchObject({ type: "get", success: false, error: "ENOENT" });
+  });
+});
+
+describe("LlmFixtureRecorder", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("records streamed calls that replay identically", async () => {
+    const chunks: LlmStreamChunk[] = [
+      { text: "Hi" },
+      { toolCalls: [{ id: "call_1", name: "end_turn", args: {} }] },
+      { usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } },
+    ];
+    const live: LlmProvider = {
+      ...offline,
+      isConfigured: () => true,
+      async *stream() { yield* chunks; },
+    };
+
+    const file = path.join(dir, "greeting.json");
+    const recorder = new LlmFixtureRecorder(file);
+    const request = {
+      model: "llama3.1",
+      messages: [{ role: "user" as const, content: "hello", attachments: [{ mimeType: "image/png", data: "AAAA" }] }],
+    };
+    for await (const _ of recorder.wrap(live, "chat").stream(request)) { /* drain */ }
+
+    const fixture = loadFixture(file);
+    expect(fixture.interactions[0].request.messages[0].attachments).toEqual([{ mimeType: "image/png", size: 4 }]);
+
+    const replayed: LlmStreamChunk[] = [];
+    for await (const chunk of new LlmFixtureReplayer(fixture).wrap(offline, "chat").stream(request)) {
+      replayed.push(chunk);
+    }
+    expect(replayed).toEqual(chunks);
+  });
+});
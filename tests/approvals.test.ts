@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApprovalParameterError,
+  EXPIRED_BY,
+  approvalNotificationText,
+  approvalStepResult,
+  expiredApprovalOutcome,
+  mergeApprovalParameters,
+} from "@shared/approvals";
+
+describe("mergeApprovalParameters", () => {
+  it("applies edits to requested parameters and reports what changed", () => {
+    expect(mergeApprovalParameters({ to: "a@x.test", amount: 10 }, { amount: 12, to: "a@x.test" })).toEqual({
+      parameters: { to: "a@x.test", amount: 12 },
+      changed: ["amount"],
+    });
+  });
+
+  it("refuses parameters that were not requested", () => {
+    expect(() => mergeApprovalParameters({ to: "a@x.test" }, { cc: "b@x.test", bcc: "c@x.test" }))
+      .toThrow(new ApprovalParameterError("Unknown parameters: cc, bcc"));
+  });
+});
+
+describe("approval outcomes", () => {
+  it("settles approved steps, and skips or fails rejected ones", () => {
+    const approved = { decision: "approved" as const, action: "approve" as const, parameters: {}, decidedBy: "me" };
+    const rejected = { ...approved, decision: "rejected" as const, action: "reject" as const, comment: "not now" };
+
+    expect(approvalStepResult(approved)).toEqual({ status: "completed" });
+    expect(approvalStepResult(rejected)).toEqual({ status: "skipped", reason: "Rejected by me: not now" });
+    expect(approvalStepResult(rejected, "fail")).toEqual({ status: "failed", error: "Rejected by me: not now" });
+  });
+
+  it("applies the default outcome on expiry", () => {
+    expect(expiredApprovalOutcome("approve", { to: "a@x.test" })).toEqual({
+      decision: "approved",
+      action: "expire",
+      parameters: { to: "a@x.test" },
+      decidedBy: EXPIRED_BY,
+    });
+    expect(approvalStepResult(expiredApprovalOutcome("reject", {}))).toEqual({
+      status: "skipped",
+      reason: `Rejected by ${EXPIRED_BY}`,
+    });
+  });
+});
+
+describe("approvalNotificationText", () => {
+  it("shortens the summary for SMS and includes the expiry and link", () => {
+    const approval = { title: "Send invoice", summary: "x".repeat(300), expiresAt: new Date("2026-03-02T09:30:00Z") };
+    const sms = approvalNotificationText(approval, "https://m.test/approvals?id=1", "sms");
+    expect(sms.split("\n")).toEqual([
+      "Approval needed: Send invoice",
+      `${"x".repeat(280)}…`,
+      "Expires 2026-03-02 09:30 UTC",
+      "Review: https://m.test/approvals?id=1",
+    ]);
+    expect(approvalNotificationText({ title: "Go?" }, "/approvals?id=2", "email")).toBe("Approval needed: Go?\n\nReview: /approvals?id=2");
+  });
+});
@@ -0,0 +1,120 @@
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  chatExportSchema,
+  prepareImport,
+  renderHtml,
+  renderMarkdown,
+  type ChatExport,
+} from "../server/services/chat-export/format";
+import { crc32, createZip } from "../server/services/chat-export/zip";
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 5, 9, minute));
+
+// u1 → a1 (regenerated as a2, the active branch) → u2
+const exported: ChatExport = chatExportSchema.parse({
+  format: "meowstik-chat",
+  version: 1,
+  exportedAt: at(30).toISOString(),
+  chat: { id: "c1", title: "Deploy <prod>", createdAt: at(0), updatedAt: at(4), activeLeafId: "u2", tags: ["ops"] },
+  messages: [
+    {
+      id: "u1",
+      parentId: null,
+      role: "user",
+      content: "ssh into prod <script>alert(1)</script> [x](javascript:alert(1))",
+      createdAt: at(0),
+      attachments: [
+        { id: "f1", type: "file", filename: "notes.txt", mimeType: "text/plain", createdAt: at(0), encoding: "text", content: "uptime" },
+        { id: "f2", type: "file", filename: "shot.png", mimeType: "image/png", createdAt: at(0), encoding: "base64", content: "iVBORw0KGgo=" },
+      ],
+    },
+    { id: "a1", parentId: "u1", role: "ai", content: "First answer", createdAt: at(1) },
+    { id: "a2", parentId: "u1", role: "ai", content: "Second answer", createdAt: at(2) },
+    { id: "u2", parentId: "a2", role: "user", content: "thanks", createdAt: at(4) },
+  ],
+  toolCalls: [
+    {
+      id: "t1",
+      messageId: "a2",
+      toolCallId: "call-1",
+      toolType: "terminal_execute",
+      status: "success",
+      request: { command: "uptime" },
+      response: { stdout: "up 3 days" },
+      startedAt: at(2),
+    },
+  ],
+});
+
+describe("renderMarkdown", () => {
+  it("renders the active branch with attachments and tool calls", () => {
+    const md = renderMarkdown(exported);
+    expect(md).toContain("# Deploy <prod>");
+    expect(md).toContain("Second answer");
+    expect(md).not.toContain("First answer");
+    expect(md).toContain("📎 notes.txt\n\n```\nuptime\n```");
+    expect(md).toContain("![shot.png](<data:image/png;base64,iVBORw0KGgo=>)");
+    expect(md).toContain("<summary>🔧 terminal_execute — success</summary>");
+    expect(md).toContain('"stdout": "up 3 days"');
+  });
+
+  it("links attachments by path in zip mode", () => {
+    const md = renderMarkdown(exported, "zip");
+    expect(md).toContain("📎 [notes.txt](<attachments/f1-notes.txt>)");
+    expect(md).toContain("![shot.png](<attachments/f2-shot.png>)");
+  });
+});
+
+describe("renderHtml", () => {
+  it("escapes raw HTML and script links in messages", () => {
+    const html = renderHtml(exported);
+    expect(html).toContain("<title>Deploy &lt;prod&gt;</title>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain('href="javascript:');
+    expect(html).toContain('<img src="data:image/png;base64,iVBORw0KGgo="');
+  });
+});
+
+describe("prepareImport", () => {
+  it("remaps ids while keeping branches, attachments and tool calls linked", () => {
+    let next = 0;
+    const rows = prepareImport(exported, () => `n${++next}`);
+    const idOf = (content: string) => rows.messages.find(m => m.content === content)!.id;
+
+    expect(rows.messages.map(m => m.id)).not.toContain("u1");
+    expect(rows.messages.find(m => m.content === "Second answer")!.parentId).toBe(rows.messages[0].id);
+    expect(rows.activeLeafId).toBe(idOf("thanks"));
+    expect(rows.attachments.map(a => a.messageId)).toEqual([rows.messages[0].id, rows.messages[0].id]);
+    expect(rows.toolCalls[0].messageId).toBe(idOf("Second answer"));
+    expect(rows.skippedAttachments).toBe(0);
+  });
+
+  it("rejects files that are not chat exports", () => {
+    expect(chatExportSchema.safeParse({ format: "other", version: 1 }).success).toBe(false);
+  });
+});
+
+describe("createZip", () => {
+  it("writes entries readable with the recorded CRC", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+
+    const text = "hello ".repeat(50);
+    const zip = createZip([{ name: "chat.md", data: text }, { name: "attachments/a.bin", data: Buffer.from([1, 2, 3]) }]);
+
+    // End of central directory: two entries
+    expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(zip.length - 22 + 10)).toBe(2);
+
+    // First local entry is deflated and round-trips
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    expect(zip.readUInt16LE(8)).toBe(8);
+    const compressedSize = zip.readUInt32LE(18);
+    const nameLength = zip.readUInt16LE(26);
+    expect(zip.subarray(30, 30 + nameLength).toString()).toBe("chat.md");
+    const data = inflateRawSync(zip.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(data.toString()).toBe(text);
+    expect(zip.readUInt32LE(14)).toBe(crc32(data));
+  });
+});
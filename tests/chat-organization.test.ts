@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFolderTree,
+  folderDepth,
+  MAX_FOLDER_DEPTH,
+  normalizeTags,
+  validateFolderMove,
+  type FolderLike,
+} from "../shared/chat-organization";
+
+const folder = (id: string, parentId: string | null = null, position = 0, name = id): FolderLike => ({
+  id,
+  parentId,
+  name,
+  position,
+});
+
+// work
+//   deploys
+//     prod
+// personal
+const folders = [folder("work"), folder("deploys", "work"), folder("prod", "deploys"), folder("personal", null, 1)];
+
+describe("normalizeTags", () => {
+  it("trims, lowercases, strips # and dedupes", () => {
+    expect(normalizeTags([" #Ops", "ops", "Urgent ", "", "##follow up"])).toEqual(["ops", "urgent", "follow-up"]);
+  });
+});
+
+describe("validateFolderMove", () => {
+  it("allows moves to the top level or a sibling", () => {
+    expect(validateFolderMove(folders, "prod", null)).toBeNull();
+    expect(validateFolderMove(folders, "deploys", "personal")).toBeNull();
+  });
+
+  it("rejects moving a folder into itself or a descendant", () => {
+    expect(validateFolderMove(folders, "work", "work")).toMatch(/itself/);
+    expect(validateFolderMove(folders, "work", "prod")).toMatch(/itself/);
+    expect(validateFolderMove(folders, "work", "missing")).toMatch(/not found/);
+  });
+
+  it("rejects moves that nest the subtree too deep", () => {
+    const chain = Array.from({ length: MAX_FOLDER_DEPTH - 1 }, (_, i) => folder(`c${i}`, i ? `c${i - 1}` : null));
+    const all = [...chain, ...folders];
+    expect(folderDepth(all, `c${MAX_FOLDER_DEPTH - 2}`)).toBe(MAX_FOLDER_DEPTH - 1);
+    // A leaf fits at the last level; a two-level subtree does not
+    expect(validateFolderMove(all, "prod", `c${MAX_FOLDER_DEPTH - 2}`)).toBeNull();
+    expect(validateFolderMove(all, "deploys", `c${MAX_FOLDER_DEPTH - 2}`)).toMatch(/levels deep/);
+  });
+});
+
+describe("buildFolderTree", () => {
+  it("nests folders, orders siblings and lifts orphans to the top", () => {
+    const tree = buildFolderTree([...folders, folder("a-orphan", "deleted", 0), folder("b", null, 1, "archive")]);
+    expect(tree.map(node => node.folder.id)).toEqual(["a-orphan", "work", "b", "personal"]);
+    const work = tree[1];
+    expect(work.children[0].folder.id).toBe("deploys");
+    expect(work.children[0].children[0]).toMatchObject({ depth: 3, folder: { id: "prod" } });
+  });
+});
@@ -0,0 +1,182 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+
+/**
+ * The chat turn route replayed end to end: the LLM answers from the
+ * chat-tool-loop fixture and storage is an in-memory stand-in, so the test
+ * checks both what the client is streamed and what ends up saved.
+ */
+const { memory } = vi.hoisted(() => {
+  vi.stubEnv("LLM_FIXTURE_MODE", "replay");
+  vi.stubEnv("LLM_FIXTURE", "chat-tool-loop");
+
+  type Row = Record<string, any> & { id: string };
+  let nextId = 0;
+  const row = (values: Record<string, unknown>): Row => ({ id: `row-${++nextId}`, createdAt: new Date(), ...values });
+
+  const memory = {
+    chats: [{ id: "chat-1", userId: null, title: "Notes", agentPanel: null, activeLeafId: null }] as Row[],
+    messages: [] as Row[],
+    toolCallLogs: [] as Row[],
+    toolTasks: [] as Row[],
+    attachments: [] as Row[],
+
+    async getChat(id: string) {
+      return memory.chats.find(chat => chat.id === id);
+    },
+    async addMessage(message: Record<string, unknown>) {
+      const saved = row({ parentId: null, agentId: null, metadata: null, geminiContent: null, ...message });
+      memory.messages.push(saved);
+      return saved;
+    },
+    async getMessageById(id: string) {
+      return memory.messages.find(message => message.id === id);
+    },
+    async ensureMessageTree() {},
+    async setActiveLeaf(chatId: string, leafId: string) {
+      Object.assign(memory.chats.find(chat => chat.id === chatId)!, { activeLeafId: leafId });
+    },
+    async getMessagesByChatId(chatId: string, options: { limit?: number } = {}) {
+      const messages = memory.messages.filter(message => message.chatId === chatId);
+      return options.limit ? messages.slice(-options.limit) : messages;
+    },
+    async getAttachmentsByMessageId(messageId: string) {
+      return memory.attachments.filter(attachment => attachment.messageId === messageId);
+    },
+    async createAttachment(attachment: Record<string, unknown>) {
+      const saved = row(attachment);
+      memory.attachments.push(saved);
+      return saved;
+    },
+    async createToolTask(task: Record<string, unknown>) {
+      const saved = row(task);
+      memory.toolTasks.push(saved);
+      return saved;
+    },
+    async updateToolTaskStatus(id: string, status: string) {
+      Object.assign(memory.toolTasks.find(task => task.id === id)!, { status });
+    },
+    async createToolCallLog(log: Record<string, unknown>) {
+      const saved = row(log);
+      memory.toolCallLogs.push(saved);
+      return saved;
+    },
+    async updateToolCallLog(id: string, changes: Record<string, unknown>) {
+      Object.assign(memory.toolCallLogs.find(log => log.id === id)!, changes);
+    },
+    async replaceRetrievalChunks(_sourceType: string, _sourceId: string, chunks: Array<Record<string, unknown>>) {
+      return chunks.map(row);
+    },
+    async getRetrievalVectors() {
+      return [];
+    },
+    async logLlmUsage() {},
+    async saveLlmInteraction() {},
+  };
+  return { memory };
+});
+
+vi.mock("../server/storage", () => ({ storage: memory }));
+vi.mock("../server/db", () => ({ db: {}, rawDb: {}, pool: {}, getDb: () => ({}) }));
+// The recorded get call read notes.txt
+vi.mock("fs/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs/promises")>();
+  const readFile = (async (file: unknown, ...rest: unknown[]) =>
+    file === "notes.txt" ? "buy milk" : (actual.readFile as (...args: unknown[]) => unknown)(file, ...rest)) as typeof actual.readFile;
+  return { ...actual, readFile, default: { ...actual, readFile } };
+});
+
+import { createChatTurnRouter } from "../server/routes/chat-turns";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).authStatus = { isAuthenticated: false, userId: "guest" };
+    next();
+  });
+  app.use("/api/chats", createChatTurnRouter());
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.unstubAllEnvs();
+});
+
+function parseEvents(body: string): Array<Record<string, any>> {
+  return body
+    .split("\n\n")
+    .filter(block => block.startsWith("data: "))
+    .map(block => JSON.parse(block.slice("data: ".length)));
+}
+
+describe("POST /api/chats/:id/messages with a replayed fixture", () => {
+  it("streams the tool loop and saves the turn", async () => {
+    const res = await fetch(`${baseUrl}/api/chats/chat-1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: "What's in notes.txt?", verbosityMode: "mute" }),
+    });
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const events = parseEvents(await res.text());
+
+    expect(events.filter(event => event.error)).toEqual([]);
+    expect(events.filter(event => event.toolResult).map(event => [event.toolResult.type, event.toolResult.success])).toEqual([
+      ["get", true],
+      ["write", true],
+      ["end_turn", true],
+    ]);
+    expect(events.filter(event => event.type).map(event => `${event.type}:${event.toolType}`)).toEqual([
+      "tool_call_start:get",
+      "tool_call_success:get",
+      "tool_call_start:write",
+      "tool_call_success:write",
+      "tool_call_start:end_turn",
+      "tool_call_success:end_turn",
+    ]);
+    expect(events).toContainEqual({ text: "notes.txt says: buy milk" });
+
+    const [userMessage, aiMessage] = memory.messages;
+    expect(memory.messages).toHaveLength(2);
+    expect(userMessage).toMatchObject({ chatId: "chat-1", role: "user", content: "What's in notes.txt?" });
+    expect(aiMessage).toMatchObject({ chatId: "chat-1", role: "ai", parentId: userMessage.id });
+    expect(aiMessage.content).toContain("notes.txt says: buy milk");
+    expect(aiMessage.metadata.toolResults.map((result: { type: string }) => result.type)).toEqual(["get", "write", "end_turn"]);
+    expect(aiMessage.metadata.tokenUsage).toEqual({ promptTokens: 10281, completionTokens: 49, totalTokens: 10330 });
+
+    expect(memory.toolCallLogs.map(log => [log.toolType, log.status, log.messageId])).toEqual([
+      ["get", "success", userMessage.id],
+      ["write", "success", userMessage.id],
+      ["end_turn", "success", userMessage.id],
+    ]);
+    expect(memory.toolCallLogs[0].response).toEqual({ content: "buy milk" });
+
+    const done = events.at(-1)!;
+    expect(done.done).toBe(true);
+    expect(done.savedMessage).toMatchObject({ id: aiMessage.id, role: "ai", content: aiMessage.content });
+  });
+
+  it("refuses attachments on a regenerate instead of adding them to the old prompt", async () => {
+    const [userMessage, aiMessage] = memory.messages;
+    const res = await fetch(`${baseUrl}/api/chats/chat-1/messages/${aiMessage.id}/regenerate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ attachments: [{ filename: "more.txt", mimeType: "text/plain", content: "and eggs" }] }),
+    });
+
+    expect(await memory.getAttachmentsByMessageId(userMessage.id)).toEqual([]);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Attachments cannot be added when regenerating; edit the message instead" });
+    expect(memory.messages).toHaveLength(2);
+  });
+});
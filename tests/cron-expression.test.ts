@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { CronParseError, describeCron, isValidCron, nextCronRun, nextCronRuns, parseCron } from "../server/services/cron-expression";
+
+const runs = (expression: string, from: string, count: number, timeZone = "UTC") =>
+  nextCronRuns(expression, count, new Date(from), timeZone).map(date => date.toISOString());
+
+describe("parseCron", () => {
+  it("expands lists, stepped ranges and names", () => {
+    const cron = parseCron("1,3-5,10-20/5 * * JAN,mar-May *");
+    expect(cron.minutes).toEqual([1, 3, 4, 5, 10, 15, 20]);
+    expect(cron.months).toEqual([1, 3, 4, 5]);
+    expect(parseCron("5/20 * * * *").minutes).toEqual([5, 25, 45]);
+  });
+
+  it("wraps ranges and folds 7 into Sunday", () => {
+    expect(parseCron("0 22-2 * * *").hours).toEqual([0, 1, 2, 22, 23]);
+    expect(parseCron("0 9 * * FRI-MON").daysOfWeek.days).toEqual(new Set([5, 6, 0, 1]));
+    expect(parseCron("0 9 * * 5-7").daysOfWeek.days).toEqual(new Set([5, 6, 0]));
+  });
+
+  it("accepts seconds and macros", () => {
+    expect(parseCron("*/20 * * * * *").seconds).toEqual([0, 20, 40]);
+    expect(parseCron("@daily").source).toBe("0 0 * * *");
+  });
+
+  it.each([
+    ["60 * * * *", /minute value: 60/],
+    ["* * * *", /5 fields/],
+    ["*/0 * * * *", /step/],
+    ["1-2-3 * * * *", /range/],
+    ["0 9 * * L", /needs a day/],
+    ["0 9 * * 5#6", /#1 to #5/],
+    ["0 0 ? * ?", /Only one/],
+    ["@reboot", /Unknown cron macro/],
+  ])("rejects %s", (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronParseError);
+    expect(isValidCron(expression)).toEqual({ valid: false, error: expect.stringMatching(message) });
+  });
+});
+
+describe("nextCronRun in UTC", () => {
+  it("is strictly after the given time", () => {
+    expect(runs("0 * * * *", "2026-01-01T10:00:00Z", 2)).toEqual(["2026-01-01T11:00:00.000Z", "2026-01-01T12:00:00.000Z"]);
+    expect(runs("*/15 * * * * *", "2026-01-01T00:00:00.500Z", 2)).toEqual(["2026-01-01T00:00:15.000Z", "2026-01-01T00:00:30.000Z"]);
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // Days 13 or any Friday
+    expect(runs("0 0 13 * FRI", "2026-02-01T00:00:00Z", 3)).toEqual([
+      "2026-02-06T00:00:00.000Z",
+      "2026-02-13T00:00:00.000Z",
+      "2026-02-20T00:00:00.000Z",
+    ]);
+    // A "*"-prefixed day field restricts instead: odd days that are Mondays
+    expect(runs("0 0 */2 * MON", "2026-02-01T00:00:00Z", 2)).toEqual(["2026-02-09T00:00:00.000Z", "2026-02-23T00:00:00.000Z"]);
+  });
+
+  it("handles L, LW, W, nL and n#k", () => {
+    expect(runs("0 9 L 2 *", "2027-01-01T00:00:00Z", 2)).toEqual(["2027-02-28T09:00:00.000Z", "2028-02-29T09:00:00.000Z"]);
+    expect(runs("0 9 L-2 * *", "2026-04-01T00:00:00Z", 1)).toEqual(["2026-04-28T09:00:00.000Z"]);
+    // 31 Jan 2026 is a Saturday
+    expect(runs("0 9 LW * *", "2026-01-01T00:00:00Z", 1)).toEqual(["2026-01-30T09:00:00.000Z"]);
+    // 1 Aug 2026 is a Saturday: the nearest weekday stays in August
+    expect(runs("0 9 1W * *", "2026-07-31T00:00:00Z", 1)).toEqual(["2026-08-03T09:00:00.000Z"]);
+    expect(runs("0 9 * * 5L", "2026-01-01T00:00:00Z", 2)).toEqual(["2026-01-30T09:00:00.000Z", "2026-02-27T09:00:00.000Z"]);
+    expect(runs("0 9 * * MON#2", "2026-03-01T00:00:00Z", 1)).toEqual(["2026-03-09T09:00:00.000Z"]);
+  });
+
+  it("finds leap days and gives up on impossible dates", () => {
+    expect(runs("0 0 29 2 *", "2026-01-01T00:00:00Z", 1)).toEqual(["2028-02-29T00:00:00.000Z"]);
+    expect(nextCronRun("0 0 30 2 *", new Date("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("nextCronRun across time zones and DST", () => {
+  it("evaluates wall-clock times in the zone", () => {
+    expect(runs("0 9 * * *", "2026-01-01T00:00:00Z", 1, "Asia/Kolkata")).toEqual(["2026-01-01T03:30:00.000Z"]);
+    expect(runs("0 9 * * *", "2026-07-01T00:00:00Z", 1, "America/New_York")).toEqual(["2026-07-01T13:00:00.000Z"]);
+  });
+
+  it("fires a skipped time once, at the spring-forward jump", () => {
+    // 2026-03-08 02:00 EST jumps to 03:00 EDT (07:00Z)
+    expect(runs("30 2 * * *", "2026-03-07T12:00:00Z", 2, "America/New_York")).toEqual([
+      "2026-03-08T07:00:00.000Z",
+      "2026-03-09T06:30:00.000Z",
+    ]);
+    expect(runs("0,30 2 * * *", "2026-03-08T06:00:00Z", 2, "America/New_York")).toEqual([
+      "2026-03-08T07:00:00.000Z",
+      "2026-03-09T06:00:00.000Z",
+    ]);
+  });
+
+  it("fires a repeated time once unless it runs every hour", () => {
+    // 2026-11-01 02:00 EDT falls back to 01:00 EST
+    expect(runs("30 1 * * *", "2026-10-31T12:00:00Z", 2, "America/New_York")).toEqual([
+      "2026-11-01T05:30:00.000Z",
+      "2026-11-02T06:30:00.000Z",
+    ]);
+    expect(runs("*/30 * * * *", "2026-11-01T05:10:00Z", 5, "America/New_York")).toEqual([
+      "2026-11-01T05:30:00.000Z",
+      "2026-11-01T06:00:00.000Z",
+      "2026-11-01T06:30:00.000Z",
+      "2026-11-01T07:00:00.000Z",
+      "2026-11-01T07:30:00.000Z",
+    ]);
+  });
+
+  it("handles southern-hemisphere and half-hour DST", () => {
+    // Sydney springs forward 2026-10-04 02:00 AEST -> 03:00 AEDT (16:00Z on the 3rd)
+    expect(runs("15 2 * * *", "2026-10-03T00:00:00Z", 1, "Australia/Sydney")).toEqual(["2026-10-03T16:00:00.000Z"]);
+    // Lord Howe shifts by 30 minutes: 02:00 -> 02:30 local (15:30Z on the 3rd)
+    expect(runs("10 2 * * *", "2026-10-03T00:00:00Z", 1, "Australia/Lord_Howe")).toEqual(["2026-10-03T15:30:00.000Z"]);
+  });
+});
+
+describe("describeCron", () => {
+  it.each([
+    ["0 9 * * MON-FRI", "At 09:00 on Monday through Friday"],
+    ["*/15 * * * *", "At every 15th minute"],
+    ["30 9-17 * * *", "At minute 30 past every hour from 9 through 17"],
+    ["0 0 1,15 JAN,JUL *", "At 00:00 on day-of-month 1 and 15 in January and July"],
+    ["0 9 15 * 1", "At 09:00 on day-of-month 15 or on Monday"],
+    ["0 9 * * 5#3", "At 09:00 on the third Friday of the month"],
+    ["0 18 LW * *", "At 18:00 on the last weekday of the month"],
+    ["@hourly", "At minute 0"],
+  ])("%s", (expression, description) => {
+    expect(describeCron(expression)).toBe(description);
+  });
+});
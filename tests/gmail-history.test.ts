@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+
+/**
+ * A mailbox whose history holds one messageAdded record per message,
+ * history IDs 1001 upwards, served in pages of 60 like history.list
+ */
+const { mailbox } = vi.hoisted(() => {
+  const pageSize = 60;
+  const mailbox = {
+    records: [] as Array<{ id: string; messagesAdded: Array<{ message: { id: string } }> }>,
+    latestHistoryId: "5000",
+    list({ startHistoryId, pageToken }: { startHistoryId: string; pageToken?: string }) {
+      const after = mailbox.records.filter(record => Number(record.id) > Number(startHistoryId));
+      const offset = Number(pageToken ?? 0);
+      const history = after.slice(offset, offset + pageSize);
+      const nextPageToken = offset + pageSize < after.length ? String(offset + pageSize) : undefined;
+      return { data: { history, historyId: mailbox.latestHistoryId, nextPageToken } };
+    },
+  };
+  return { mailbox };
+});
+
+vi.mock("googleapis", () => ({
+  google: { gmail: () => ({ users: { history: { list: async (params: any) => mailbox.list(params) } } }) },
+}));
+vi.mock("../server/integrations/google-auth", () => ({ getAuthenticatedClient: async () => ({}) }));
+
+import { listAddedMessageIds } from "../server/integrations/gmail";
+
+describe("listAddedMessageIds", () => {
+  it("resumes after the last message returned when more arrived than one check takes", async () => {
+    mailbox.records = Array.from({ length: 130 }, (_, i) => ({
+      id: String(1001 + i),
+      messagesAdded: [{ message: { id: `m${i}` } }],
+    }));
+
+    const first = await listAddedMessageIds("1000");
+    expect(first.messageIds).toHaveLength(100);
+    expect(first.historyId).toBe("1100");
+
+    const second = await listAddedMessageIds(first.historyId);
+    expect(second.messageIds).toEqual(Array.from({ length: 30 }, (_, i) => `m${100 + i}`));
+    expect(second.historyId).toBe("5000");
+  });
+});
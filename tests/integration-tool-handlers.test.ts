@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storageMock, sendEmailMock, addIssueCommentMock } = vi.hoisted(() => ({
+  storageMock: {
+    getUserAgent: vi.fn(),
+    getChatAgent: vi.fn(),
+    getChat: vi.fn(),
+    getTodoItem: vi.fn(),
+    updateTodoItem: vi.fn(),
+    completeTodoItem: vi.fn(),
+    deleteTodoItem: vi.fn(),
+  },
+  sendEmailMock: vi.fn(),
+  addIssueCommentMock: vi.fn(),
+}));
+
+vi.mock("../server/storage", () => ({ storage: storageMock }));
+vi.mock("../server/integrations/gmail", () => ({ sendEmail: sendEmailMock }));
+vi.mock("../server/integrations/github", () => ({ addIssueComment: addIssueCommentMock }));
+
+import { integrationToolHandlers } from "../server/services/integration-tool-handlers";
+
+const chatAgent = { id: "a1", emailSignature: "Chat Cat", githubSignature: "_Chat Cat_" };
+const panelAgent = { id: "a2", emailSignature: "Review Cat", githubSignature: "_Review Cat_" };
+
+describe("agent signatures", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getChatAgent.mockResolvedValue(chatAgent);
+    storageMock.getUserAgent.mockImplementation(async (id: string) => (id === panelAgent.id ? panelAgent : undefined));
+    sendEmailMock.mockResolvedValue({ success: true });
+    addIssueCommentMock.mockResolvedValue({ success: true });
+  });
+
+  it("signs with the chat's agent by default", async () => {
+    await integrationToolHandlers.gmail_send({ to: "sam@example.com", subject: "Hi", body: "Hello" }, { chatId: "c1" });
+    expect(sendEmailMock).toHaveBeenCalledWith("sam@example.com", "Hi", "Hello\n\n-- \nChat Cat");
+  });
+
+  it("signs with the panel agent making the call", async () => {
+    const ctx = { chatId: "c1", agentId: panelAgent.id };
+    await integrationToolHandlers.gmail_send({ to: "sam@example.com", subject: "Hi", body: "Hello" }, ctx);
+    await integrationToolHandlers.github_issue_comment({ owner: "meow", repo: "stic", issueNumber: 7, body: "LGTM" }, ctx);
+
+    expect(sendEmailMock).toHaveBeenCalledWith("sam@example.com", "Hi", "Hello\n\n-- \nReview Cat");
+    expect(addIssueCommentMock).toHaveBeenCalledWith("meow", "stic", 7, "LGTM\n\n---\n_Review Cat_");
+    expect(storageMock.getChatAgent).not.toHaveBeenCalled();
+  });
+});
+
+describe("to-do tools", () => {
+  const todo = { id: "t1", userId: "u1", title: "Feed the cat", status: "pending" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getChat.mockImplementation(async (id: string) => ({ id, userId: id === "c1" ? "u1" : "u2" }));
+    storageMock.getTodoItem.mockImplementation(async (id: string) => (id === todo.id ? todo : undefined));
+    storageMock.updateTodoItem.mockImplementation(async (_id: string, update: object) => ({ ...todo, ...update }));
+    storageMock.completeTodoItem.mockResolvedValue({ ...todo, status: "completed" });
+    storageMock.deleteTodoItem.mockResolvedValue(true);
+  });
+
+  it("changes items belonging to the chat's user", async () => {
+    await expect(integrationToolHandlers.todo_update({ id: "t1", title: "Feed both cats" }, { chatId: "c1" }))
+      .resolves.toMatchObject({ title: "Feed both cats" });
+    expect(storageMock.updateTodoItem).toHaveBeenCalledWith("t1", { title: "Feed both cats" });
+  });
+
+  it("treats another user's item as missing", async () => {
+    const ctx = { chatId: "c2" };
+    await expect(integrationToolHandlers.todo_update({ id: "t1", title: "Mine now" }, ctx)).rejects.toThrow("To-do item t1 not found");
+    await expect(integrationToolHandlers.todo_complete({ id: "t1" }, ctx)).rejects.toThrow("To-do item t1 not found");
+    await expect(integrationToolHandlers.todo_remove({ id: "t1" }, ctx)).rejects.toThrow("To-do item t1 not found");
+    expect(storageMock.updateTodoItem).not.toHaveBeenCalled();
+    expect(storageMock.completeTodoItem).not.toHaveBeenCalled();
+    expect(storageMock.deleteTodoItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_STEP_BUDGET,
+  describeStop,
+  resolveStepBudget,
+  runJobAgentLoop,
+  toolAllowlist,
+  type StepBudget,
+} from "../server/services/job-agent-loop";
+import type { LlmRequest, LlmResponse, LlmToolCall } from "../server/services/llm/types";
+import type { ToolCall } from "@shared/schema";
+
+const tools = [{ name: "get" }, { name: "put" }];
+const budget: StepBudget = { maxToolCalls: 10, maxTokens: 10_000, wallClockMs: 60_000 };
+
+function reply(toolCalls: LlmToolCall[], text = "", tokens = 100): LlmResponse {
+  return { text, toolCalls, usage: { promptTokens: tokens, completionTokens: 0, totalTokens: tokens } };
+}
+
+/** A model that plays back its replies in order */
+function scripted(replies: LlmResponse[]) {
+  const requests: Array<Omit<LlmRequest, "model">> = [];
+  const generate = async (request: Omit<LlmRequest, "model">) => {
+    requests.push({ ...request, messages: [...request.messages] });
+    const next = replies.shift();
+    if (!next) throw new Error("model called too often");
+    return next;
+  };
+  return { generate, requests };
+}
+
+function recordingTool() {
+  const executed: ToolCall[] = [];
+  const executeTool = async (toolCall: ToolCall) => {
+    executed.push(toolCall);
+    return { toolId: toolCall.id, type: toolCall.type, success: true, result: { content: "ok" } };
+  };
+  return { executeTool, executed };
+}
+
+describe("runJobAgentLoop", () => {
+  it("feeds tool results back until the model answers", async () => {
+    const model = scripted([
+      reply([{ name: "get", args: { path: "notes.txt" } }]),
+      reply([], "The notes say ok"),
+    ]);
+    const tool = recordingTool();
+
+    const result = await runJobAgentLoop({ prompt: "Read notes.txt", tools, budget, ...model, ...tool });
+
+    expect(result.stopReason).toBe("completed");
+    expect(result.output).toBe("The notes say ok");
+    expect(result.toolCalls).toBe(1);
+    expect(result.steps).toBe(2);
+    expect(result.inputTokens).toBe(200);
+    expect(tool.executed[0].parameters).toEqual({ path: "notes.txt" });
+    expect(model.requests[0].tools?.map(t => t.name)).toEqual(["get", "put"]);
+    expect(model.requests[1].messages.map(m => m.role)).toEqual(["user", "assistant", "tool"]);
+  });
+
+  it("refuses tools that are not on the allowlist", async () => {
+    const model = scripted([reply([{ name: "terminal", args: { command: "rm -rf /" } }]), reply([], "done")]);
+    const tool = recordingTool();
+
+    const result = await runJobAgentLoop({ prompt: "Clean up", tools, budget, ...model, ...tool });
+
+    expect(tool.executed).toHaveLength(0);
+    expect(result.toolCalls).toBe(0);
+    expect(result.toolResults[0]).toMatchObject({ type: "terminal", success: false, permissionDenied: true });
+    const toolTurn = model.requests[1].messages[2];
+    expect(toolTurn.toolResults?.[0].response).toMatchObject({ error: { permissionDenied: true } });
+  });
+
+  it("stops once the tool call budget is spent", async () => {
+    const model = scripted([
+      reply([{ name: "get", args: {} }, { name: "get", args: {} }, { name: "put", args: {} }]),
+    ]);
+    const tool = recordingTool();
+
+    const result = await runJobAgentLoop({
+      prompt: "Copy files",
+      tools,
+      budget: { ...budget, maxToolCalls: 2 },
+      ...model,
+      ...tool,
+    });
+
+    expect(result.stopReason).toBe("max_tool_calls");
+    expect(tool.executed).toHaveLength(2);
+    expect(result.toolResults[2]).toMatchObject({ type: "put", success: false });
+    expect(model.requests).toHaveLength(1);
+  });
+
+  it("stops before the next model call once the token budget is spent", async () => {
+    const model = scripted([reply([{ name: "get", args: {} }], "reading", 600)]);
+    const tool = recordingTool();
+
+    const result = await runJobAgentLoop({
+      prompt: "Read",
+      tools,
+      budget: { ...budget, maxTokens: 500 },
+      ...model,
+      ...tool,
+    });
+
+    expect(result.stopReason).toBe("max_tokens");
+    expect(result.output).toBe("reading");
+    expect(tool.executed).toHaveLength(0);
+  });
+
+  it("stops when the wall clock runs out", async () => {
+    let clock = 0;
+    const model = scripted([reply([{ name: "get", args: {} }])]);
+    const executeTool = async (toolCall: ToolCall) => {
+      clock += 61_000;
+      return { toolId: toolCall.id, type: toolCall.type, success: true };
+    };
+
+    const result = await runJobAgentLoop({
+      prompt: "Read",
+      tools,
+      budget,
+      generate: model.generate,
+      executeTool,
+      now: () => clock,
+    });
+
+    expect(result.stopReason).toBe("wall_clock");
+    expect(result.toolCalls).toBe(1);
+    expect(model.requests).toHaveLength(1);
+  });
+
+  it("stops before the next tool call once the job is aborted", async () => {
+    const controller = new AbortController();
+    const model = scripted([reply([{ name: "get", args: {} }, { name: "put", args: {} }])]);
+    const executeTool = async (toolCall: ToolCall) => {
+      controller.abort(new Error("Job cancelled"));
+      return { toolId: toolCall.id, type: toolCall.type, success: true };
+    };
+
+    const result = await runJobAgentLoop({
+      prompt: "Copy",
+      tools,
+      budget,
+      generate: model.generate,
+      executeTool,
+      signal: controller.signal,
+    });
+
+    expect(result.stopReason).toBe("cancelled");
+    expect(result.toolCalls).toBe(1);
+    expect(result.toolResults[1]).toMatchObject({ type: "put", success: false, error: "Not executed: job aborted" });
+    expect(model.requests).toHaveLength(1);
+  });
+
+  it("aborts the model call in flight when the job is aborted", async () => {
+    const controller = new AbortController();
+    const generate = (request: Omit<LlmRequest, "model">) =>
+      new Promise<LlmResponse>((_resolve, reject) => {
+        request.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        controller.abort(new Error("Lease lost"));
+      });
+
+    const result = await runJobAgentLoop({
+      prompt: "Think",
+      tools,
+      budget,
+      generate,
+      executeTool: recordingTool().executeTool,
+      signal: controller.signal,
+    });
+
+    expect(result.stopReason).toBe("cancelled");
+    expect(result.steps).toBe(0);
+  });
+});
+
+describe("step budgets", () => {
+  it("never lets the wall clock outlast the job timeout", () => {
+    expect(resolveStepBudget(undefined, 60_000).wallClockMs).toBe(60_000);
+    expect(resolveStepBudget({ maxToolCalls: 3 }, null)).toEqual({ ...DEFAULT_STEP_BUDGET, maxToolCalls: 3 });
+  });
+
+  it("explains only budget stops", () => {
+    expect(describeStop("completed", budget)).toBeUndefined();
+    expect(describeStop("wall_clock", budget)).toBe("Step budget exhausted: 60s wall clock");
+  });
+
+  it("collects an agent's tools across capabilities", () => {
+    expect(toolAllowlist([{ tools: ["get", "terminal"] }, { tools: ["put", "get"] }])).toEqual(["get", "terminal", "put"]);
+  });
+});
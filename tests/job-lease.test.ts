@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { JobTimeoutError, planFailure, retryDelayMs, runWithAbort } from "../server/services/job-lease";
+
+const policy = { retryDelay: 1000, maxRetryDelay: 10000 };
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+describe("retryDelayMs", () => {
+  it("doubles per attempt with jitter in the upper half", () => {
+    expect([1, 2, 3].map(attempt => retryDelayMs(attempt, policy, () => 1))).toEqual([1000, 2000, 4000]);
+    expect(retryDelayMs(3, policy, () => 0)).toBe(2000);
+  });
+
+  it("caps the delay", () => {
+    expect(retryDelayMs(20, policy, () => 1)).toBe(10000);
+  });
+});
+
+describe("planFailure", () => {
+  it("schedules a retry while attempts remain", () => {
+    const plan = planFailure({ retryCount: 1, maxRetries: 3 }, now, policy, () => 1);
+    expect(plan).toEqual({ action: "retry", retryCount: 2, scheduledFor: new Date(now.getTime() + 2000) });
+  });
+
+  it("dead-letters once maxRetries attempts have failed", () => {
+    expect(planFailure({ retryCount: 2, maxRetries: 3 }, now, policy)).toEqual({ action: "dead_letter", retryCount: 3 });
+    expect(planFailure({ retryCount: null, maxRetries: 1 }, now, policy).action).toBe("dead_letter");
+  });
+});
+
+describe("runWithAbort", () => {
+  it("resolves with the task result", async () => {
+    await expect(runWithAbort(async () => 42, new AbortController().signal)).resolves.toBe(42);
+  });
+
+  it("rejects with the abort reason even if the task ignores the signal", async () => {
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+    const pending = runWithAbort(signal => {
+      seen = signal;
+      return new Promise(() => {});
+    }, controller.signal);
+
+    await Promise.resolve();
+    controller.abort(new JobTimeoutError(5000));
+    await expect(pending).rejects.toThrow("Job timed out after 5000ms");
+    expect(seen?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Job tool calls against a real SQLite database with the full-text search
+ * triggers installed: the calls are logged without a chat, and indexing must
+ * not turn a tool that ran into a failed call.
+ */
+vi.mock("../server/db", async () => {
+  const { createRequire } = await import("module");
+  const Database = (await import("better-sqlite3")).default;
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const { generateSQLiteDrizzleJson, generateSQLiteMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+  const { SEARCH_SCHEMA_SQL } = await import("../server/services/search/schema");
+  const schema = await import("@shared/schema");
+
+  const rawDb = new Database(":memory:");
+  const statements: string[] = await generateSQLiteMigration(
+    await generateSQLiteDrizzleJson({}),
+    await generateSQLiteDrizzleJson(schema)
+  );
+  for (const statement of statements) rawDb.exec(statement);
+  rawDb.exec(SEARCH_SCHEMA_SQL);
+  const db = drizzle(rawDb, { schema });
+  return { db, rawDb, pool: {}, getDb: () => db };
+});
+
+import { agentJobs } from "@shared/schema";
+import { db, rawDb } from "../server/db";
+import { storage } from "../server/storage";
+import { toolDispatcher } from "../server/services/tool-dispatcher";
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "job-tool-calls-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("executeJobToolCall with the search index", () => {
+  it("logs a successful call made for a job", async () => {
+    const notes = path.join(dir, "notes.txt");
+    writeFileSync(notes, "buy milk");
+    const [job] = await db.insert(agentJobs).values({ name: "Read notes", type: "tool", payload: {} }).returning();
+
+    const result = await toolDispatcher.executeJobToolCall(
+      { id: "call-1", type: "get", operation: "read", parameters: { path: notes }, priority: 0 },
+      job.id
+    );
+
+    expect(result).toMatchObject({ success: true, result: { content: "buy milk" } });
+    const [log] = await storage.getToolCallLogsByJobId(job.id);
+    expect(log).toMatchObject({ chatId: null, status: "success", response: { content: "buy milk" } });
+    expect(rawDb.prepare("SELECT count(*) AS n FROM search_documents").get()).toEqual({ n: 0 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { parseModelSpec, selectModel } from "../server/services/llm/selection";
+import {
+  ToolCallAccumulator,
+  toOpenAIMessages,
+  toOpenAIRequestBody,
+} from "../server/services/llm/openai-compatible-provider";
+import { toGeminiContents } from "../server/services/llm/gemini-provider";
+import type { LlmMessage } from "../server/services/llm/types";
+
+const toolTurn: LlmMessage[] = [
+  { role: "user", content: "list files" },
+  { role: "assistant", toolCalls: [{ name: "terminal", args: { command: "ls" } }] },
+  { role: "tool", toolResults: [{ name: "terminal", response: { output: "a.txt" } }] },
+];
+
+describe("parseModelSpec", () => {
+  it("splits on the first colon only", () => {
+    expect(parseModelSpec("openai-compatible:llama3.1:8b")).toEqual({ provider: "openai-compatible", model: "llama3.1:8b" });
+    expect(parseModelSpec("gemini")).toEqual({ provider: "gemini" });
+    expect(parseModelSpec("  ")).toBeUndefined();
+  });
+});
+
+describe("selectModel", () => {
+  it("uses the service default when nothing overrides it", () => {
+    expect(selectModel("summarization", { env: {} })).toEqual({
+      provider: "gemini",
+      model: "gemini-2.0-flash",
+      source: "default",
+    });
+  });
+
+  it("prefers the service variable over LLM_PROVIDER", () => {
+    const env = { LLM_AGENT_WORKER: "openai-compatible:qwen2.5", LLM_PROVIDER: "gemini:gemini-2.5-flash" };
+    expect(selectModel("agent-worker", { env })).toMatchObject({ provider: "openai-compatible", model: "qwen2.5" });
+    expect(selectModel("chat", { env })).toMatchObject({ provider: "gemini", model: "gemini-2.5-flash" });
+  });
+
+  it("lets the user agent override the environment", () => {
+    const selection = selectModel("chat", {
+      agent: { llmProvider: "openai-compatible", llmModel: null },
+      env: { LLM_CHAT: "gemini:gemini-2.5-pro" },
+    });
+    expect(selection).toEqual({ provider: "openai-compatible", source: "agent" });
+  });
+
+  it("keeps the caller's default model when only the same provider is named", () => {
+    const selection = selectModel("chat", { env: { LLM_CHAT: "gemini" }, defaultModel: "gemini-3-flash-preview" });
+    expect(selection.model).toBe("gemini-3-flash-preview");
+  });
+});
+
+describe("toOpenAIMessages", () => {
+  it("gives tool calls without IDs a synthetic ID shared with their results", () => {
+    const messages = toOpenAIMessages("be brief", toolTurn);
+    expect(messages[0]).toEqual({ role: "system", content: "be brief" });
+    const assistant = messages[2] as { tool_calls: Array<{ id: string; function: { arguments: string } }> };
+    const tool = messages[3] as { tool_call_id: string; content: string };
+    expect(assistant.tool_calls[0].function.arguments).toBe('{"command":"ls"}');
+    expect(tool.tool_call_id).toBe(assistant.tool_calls[0].id);
+    expect(JSON.parse(tool.content)).toEqual({ output: "a.txt" });
+  });
+
+  it("sends attachments as content parts", () => {
+    const [message] = toOpenAIMessages(undefined, [
+      { role: "user", content: "what is this?", attachments: [{ mimeType: "image/png", data: "AAAA" }] },
+    ]);
+    expect(message.content).toEqual([
+      { type: "text", text: "what is this?" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+    ]);
+  });
+
+  it("maps JSON mode and forced tool use onto the request body", () => {
+    const body = toOpenAIRequestBody({
+      model: "llama3.1",
+      messages: [{ role: "user", content: "hi" }],
+      tools: [{ name: "end_turn" }],
+      toolChoice: "required",
+      json: true,
+    }, true);
+    expect(body).toMatchObject({
+      tool_choice: "required",
+      response_format: { type: "json_object" },
+      stream_options: { include_usage: true },
+    });
+  });
+});
+
+describe("ToolCallAccumulator", () => {
+  it("joins streamed argument fragments by index", () => {
+    const calls = new ToolCallAccumulator();
+    calls.add([{ index: 0, id: "call_1", function: { name: "get", arguments: '{"pa' } }]);
+    calls.add([{ index: 0, function: { arguments: 'th":"/tmp"}' } }]);
+    calls.add([{ index: 1, id: "call_2", function: { name: "end_turn", arguments: "" } }]);
+    expect(calls.finish()).toEqual([
+      { id: "call_1", name: "get", args: { path: "/tmp" } },
+      { id: "call_2", name: "end_turn", args: {} },
+    ]);
+  });
+});
+
+describe("toGeminiContents", () => {
+  it("maps assistant tool calls and tool results to functionCall/functionResponse parts", () => {
+    const contents = toGeminiContents(toolTurn);
+    expect(contents.map(c => c.role)).toEqual(["user", "model", "user"]);
+    expect(contents[1].parts?.[0].functionCall).toEqual({ name: "terminal", args: { command: "ls" } });
+    expect(contents[2].parts?.[0].functionResponse).toEqual({ name: "terminal", response: { output: "a.txt" } });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  activePath,
+  branchInfo,
+  linearParents,
+  newestLeaf,
+  pagePath,
+  type TreeMessage,
+} from "../shared/message-tree";
+
+const msg = (id: string, parentId: string | null, minute: number): TreeMessage => ({
+  id,
+  parentId,
+  createdAt: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+});
+
+// u1 ─ a1 ─ u2 ─ a2
+//   │       └ u2b ─ a2b      (u2 edited)
+//   └ a1b                    (a1 regenerated)
+const tree = [
+  msg("u1", null, 0),
+  msg("a1", "u1", 1),
+  msg("u2", "a1", 2),
+  msg("a2", "u2", 3),
+  msg("u2b", "a1", 4),
+  msg("a2b", "u2b", 5),
+  msg("a1b", "u1", 6),
+];
+
+describe("linearParents", () => {
+  it("chains legacy messages in the order they were sent", () => {
+    const legacy = [msg("b", null, 1), msg("a", null, 0), msg("c", null, 2)];
+    expect(linearParents(legacy)).toEqual([
+      { id: "a", parentId: null },
+      { id: "b", parentId: "a" },
+      { id: "c", parentId: "b" },
+    ]);
+  });
+});
+
+describe("activePath", () => {
+  it("follows parent links from the active leaf back to the root", () => {
+    expect(activePath(tree, "a2").map(m => m.id)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(activePath(tree, "a2b").map(m => m.id)).toEqual(["u1", "a1", "u2b", "a2b"]);
+  });
+
+  it("falls back to the newest branch when the leaf is unknown", () => {
+    expect(activePath(tree, null).map(m => m.id)).toEqual(["u1", "a1b"]);
+    expect(activePath(tree, "missing").map(m => m.id)).toEqual(["u1", "a1b"]);
+    expect(activePath([], "a2")).toEqual([]);
+  });
+});
+
+describe("newestLeaf", () => {
+  it("continues from a message down its newest children", () => {
+    expect(newestLeaf(tree, "a1")?.id).toBe("a2b");
+    expect(newestLeaf(tree, "u2")?.id).toBe("a2");
+    expect(newestLeaf(tree, "a2")?.id).toBe("a2");
+  });
+});
+
+describe("branchInfo", () => {
+  it("reports sibling positions only for messages with alternatives", () => {
+    const path = activePath(tree, "a2");
+    const info = branchInfo(tree, path);
+
+    expect([...info.keys()]).toEqual(["a1", "u2"]);
+    expect(info.get("a1")).toEqual({ index: 0, count: 2, siblingIds: ["a1", "a1b"] });
+    expect(info.get("u2")).toEqual({ index: 0, count: 2, siblingIds: ["u2", "u2b"] });
+    expect(branchInfo(tree, activePath(tree, "a2b")).get("u2b")?.index).toBe(1);
+  });
+});
+
+describe("pagePath", () => {
+  const path = Array.from({ length: 10 }, (_, i) => ({ id: `m${i}` }));
+  const ids = (page: Array<{ id: string }>) => page.map(m => m.id);
+
+  it("pages back from the newest message", () => {
+    expect(ids(pagePath(path, { limit: 3 }))).toEqual(["m7", "m8", "m9"]);
+    expect(ids(pagePath(path, { before: "m5", limit: 3 }))).toEqual(["m2", "m3", "m4"]);
+  });
+
+  it("pages forward from a jump target instead of loading the rest of the chat", () => {
+    expect(ids(pagePath(path, { from: "m2", limit: 3 }))).toEqual(["m2", "m3", "m4"]);
+    expect(ids(pagePath(path, { after: "m4", limit: 3 }))).toEqual(["m5", "m6", "m7"]);
+    expect(ids(pagePath(path, { after: "m8", limit: 3 }))).toEqual(["m9"]);
+  });
+
+  it("returns nothing for a forward cursor that is not on the path", () => {
+    expect(pagePath(path, { from: "gone", limit: 3 })).toEqual([]);
+    expect(pagePath(path, { after: "gone" })).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { QueuedTask } from "@shared/schema";
+import {
+  fileStatusToQueueStatus,
+  formatQueueRef,
+  jobPriorityToQueuePriority,
+  jobStatusToQueueStatus,
+  parseQueueRef,
+  queuePriorityToJobPriority,
+  queueStatusToFileLocations,
+  queueStatusToJobStatuses,
+} from "@shared/queue";
+import { legacyTaskToJob, orderParentsFirst } from "../server/services/queue/legacy";
+
+const created = new Date("2026-03-01T12:00:00.000Z");
+
+function task(overrides: Partial<QueuedTask> = {}): QueuedTask {
+  return {
+    id: "task-1",
+    parentId: null,
+    chatId: null,
+    title: "Summarise inbox",
+    description: null,
+    taskType: "research",
+    priority: 8,
+    status: "pending",
+    input: null,
+    output: null,
+    error: null,
+    executionMode: "sequential",
+    condition: null,
+    conditionResult: null,
+    dependencies: null,
+    waitingForInput: false,
+    inputPrompt: null,
+    operatorInput: null,
+    workflowId: null,
+    estimatedDuration: null,
+    actualDuration: null,
+    retryCount: 0,
+    maxRetries: 3,
+    createdAt: created,
+    startedAt: null,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe("queue refs", () => {
+  it("round-trips ids that contain separators", () => {
+    const ref = formatQueueRef("files", "code-review/job-abc");
+    expect(ref).toBe("files:code-review/job-abc");
+    expect(parseQueueRef(ref)).toEqual({ backend: "files", id: "code-review/job-abc" });
+    expect(parseQueueRef("sqlite:a:b")).toEqual({ backend: "sqlite", id: "a:b" });
+  });
+
+  it("rejects unknown backends and empty ids", () => {
+    expect(parseQueueRef("redis:abc")).toBeNull();
+    expect(parseQueueRef("sqlite:")).toBeNull();
+    expect(parseQueueRef("abc")).toBeNull();
+  });
+});
+
+describe("status mapping", () => {
+  it("folds queued agent jobs into pending and back", () => {
+    expect(jobStatusToQueueStatus("queued")).toBe("pending");
+    expect(jobStatusToQueueStatus("dead_letter")).toBe("dead_letter");
+    expect(queueStatusToJobStatuses("pending")).toEqual(["pending", "queued"]);
+  });
+
+  it("reads cancellation from the file audit trail", () => {
+    expect(fileStatusToQueueStatus("processing")).toBe("running");
+    expect(fileStatusToQueueStatus("failed", "failed")).toBe("failed");
+    expect(fileStatusToQueueStatus("failed", "cancelled")).toBe("cancelled");
+    expect(queueStatusToFileLocations("dead_letter")).toEqual([]);
+  });
+
+  it("inverts agent job priorities", () => {
+    expect(queuePriorityToJobPriority(10)).toBe(0);
+    expect(jobPriorityToQueuePriority(queuePriorityToJobPriority(7))).toBe(7);
+    expect(queuePriorityToJobPriority(42)).toBe(0);
+  });
+});
+
+describe("legacyTaskToJob", () => {
+  it("keeps the id and carries task fields into the payload", () => {
+    const { job, result } = legacyTaskToJob(task({
+      description: "Look for invoices",
+      input: { folder: "INBOX" },
+      workflowId: "wf-1",
+    }));
+    expect(job).toMatchObject({
+      id: "task-1",
+      name: "Summarise inbox",
+      type: "prompt",
+      priority: 2,
+      status: "pending",
+      payload: {
+        prompt: "Look for invoices",
+        context: { folder: "INBOX", legacyTaskType: "research", workflowId: "wf-1" },
+      },
+    });
+    expect(job.payload).not.toHaveProperty("context.chatId");
+    expect(result).toBeNull();
+  });
+
+  it("maps waiting tasks and restarts abandoned running ones", () => {
+    expect(legacyTaskToJob(task({ waitingForInput: true, inputPrompt: "Which folder?" })).job.status).toBe("waiting_input");
+    const { job } = legacyTaskToJob(task({ status: "running", startedAt: created }));
+    expect(job.status).toBe("pending");
+    expect(job.startedAt).toBeNull();
+  });
+
+  it("produces a result row for finished tasks", () => {
+    const { result } = legacyTaskToJob(task({ status: "completed", output: { ok: true }, actualDuration: 3 }));
+    expect(result).toMatchObject({ jobId: "task-1", success: true, output: { ok: true }, durationMs: 3000 });
+  });
+});
+
+describe("orderParentsFirst", () => {
+  it("puts parents before children and tolerates cycles", () => {
+    const rows = [
+      { id: "c", parentId: "b" },
+      { id: "b", parentId: "a" },
+      { id: "a", parentId: null },
+      { id: "x", parentId: "y" },
+      { id: "y", parentId: "x" },
+    ];
+    const order = orderParentsFirst(rows).map(row => row.id);
+    expect(order.slice(0, 3)).toEqual(["a", "b", "c"]);
+    expect(order).toHaveLength(5);
+  });
+});
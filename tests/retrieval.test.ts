@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest";
+import { chunkText } from "../server/services/retrieval/chunker";
+import {
+  bufferToVector,
+  vectorToBuffer,
+  VectorIndex,
+} from "../server/services/retrieval/vector-index";
+import {
+  createEmbeddingProvider,
+  embeddingKey,
+  LocalHashEmbeddingProvider,
+} from "../server/services/retrieval/embeddings";
+import { formatRetrievedContext, type RetrievedSnippet } from "../server/services/retrieval/context";
+import { retrievalService } from "../server/services/retrieval";
+import type { Message } from "@shared/schema";
+
+const { chunkStore, activeIds } = vi.hoisted(() => ({
+  chunkStore: [] as Array<Record<string, any>>,
+  activeIds: new Map<string, Set<string>>(),
+}));
+
+vi.mock("../server/storage", () => ({
+  storage: {
+    async replaceRetrievalChunks(sourceType: string, sourceId: string, rows: Array<Record<string, unknown>>) {
+      const kept = chunkStore.filter(row => row.sourceType !== sourceType || row.sourceId !== sourceId);
+      const saved = rows.map((row, i) => ({ ...row, id: `${sourceId}#${i}` }));
+      chunkStore.splice(0, chunkStore.length, ...kept, ...saved);
+      return saved;
+    },
+    async getRetrievalVectors() {
+      return chunkStore;
+    },
+    async getRetrievalChunksByIds(ids: string[]) {
+      return chunkStore.filter(row => ids.includes(row.id));
+    },
+    async getActiveMessageIds(chatId: string) {
+      return activeIds.get(chatId) ?? new Set();
+    },
+  },
+}));
+
+describe("chunkText", () => {
+  it("keeps short text as a single chunk", () => {
+    expect(chunkText("  hello world  ")).toEqual(["hello world"]);
+    expect(chunkText("   ")).toEqual([]);
+  });
+
+  it("splits long text within the size limit and overlaps neighbours", () => {
+    const paragraphs = Array.from({ length: 12 }, (_, i) => `Paragraph ${i} ${"word ".repeat(40)}end.`);
+    const chunks = chunkText(paragraphs.join("\n\n"), { maxChars: 500, overlap: 60 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(560);
+    // Every paragraph survives somewhere
+    for (let i = 0; i < 12; i++) expect(chunks.some(c => c.includes(`Paragraph ${i} `))).toBe(true);
+    // The second chunk starts with the tail of the first
+    expect(chunks[0].endsWith(chunks[1].split("\n\n")[0])).toBe(true);
+  });
+
+  it("hard-splits text without paragraph or sentence breaks", () => {
+    const chunks = chunkText("x".repeat(2500), { maxChars: 1000, overlap: 0 });
+    expect(chunks.map(c => c.length)).toEqual([1000, 1000, 500]);
+  });
+});
+
+describe("VectorIndex", () => {
+  it("returns the nearest vectors by cosine similarity, best first", () => {
+    const index = new VectorIndex<{ tag: string }>(3);
+    index.add("a", [1, 0, 0], { tag: "x" });
+    index.add("b", [0.9, 0.1, 0], { tag: "y" });
+    index.add("c", [0, 0, 1], { tag: "x" });
+
+    expect(index.search([1, 0, 0], 2).map(m => m.id)).toEqual(["a", "b"]);
+    expect(index.search([1, 0, 0], 5, { filter: meta => meta.tag === "x" }).map(m => m.id)).toEqual(["a", "c"]);
+    expect(index.search([1, 0, 0], 5, { minScore: 0.5 }).map(m => m.id)).toEqual(["a", "b"]);
+  });
+
+  it("removes entries and rejects vectors of the wrong size", () => {
+    const index = new VectorIndex<{ source: string }>(2);
+    index.add("a", [1, 0], { source: "m1" });
+    index.add("b", [0, 1], { source: "m1" });
+    index.add("c", [1, 1], { source: "m2" });
+
+    expect(index.removeWhere(meta => meta.source === "m1")).toBe(2);
+    expect(index.size).toBe(1);
+    expect(() => index.add("d", [1, 2, 3], { source: "m3" })).toThrow(/3 dimensions/);
+  });
+
+  it("round-trips vectors through SQLite blobs", () => {
+    const vector = Float32Array.from([0.25, -1.5, 3]);
+    const buffer = vectorToBuffer(vector);
+    expect(buffer.length).toBe(12);
+    expect(Array.from(bufferToVector(buffer))).toEqual([0.25, -1.5, 3]);
+  });
+});
+
+describe("LocalHashEmbeddingProvider", () => {
+  it("ranks documents sharing the query's words above unrelated ones", async () => {
+    const provider = new LocalHashEmbeddingProvider();
+    const docs = [
+      "The quarterly budget meeting moved to Thursday at 3pm.",
+      "My cat knocked the plant off the windowsill again.",
+      "Remember to renew the car insurance before March.",
+    ];
+    const vectors = await provider.embed(docs);
+    const index = new VectorIndex<{ doc: number }>(provider.dimensions);
+    vectors.forEach((v, i) => index.add(`d${i}`, v, { doc: i }));
+
+    const [query] = await provider.embed(["when is the budget meetings?"]);
+    const [best] = index.search(query, 1, { minScore: 0.25 });
+    expect(best.meta.doc).toBe(0);
+    expect(index.search(query, 3, { minScore: 0.25 })).toHaveLength(1);
+  });
+
+  it("is deterministic", async () => {
+    const provider = new LocalHashEmbeddingProvider(64);
+    const [a] = await provider.embed(["same text"]);
+    const [b] = await provider.embed(["same text"]);
+    expect(Array.from(a)).toEqual(Array.from(b));
+  });
+});
+
+describe("createEmbeddingProvider", () => {
+  it("defaults to the local provider and keys vectors by provider and model", () => {
+    const provider = createEmbeddingProvider({});
+    expect(embeddingKey(provider)).toBe("local:hash-512");
+    expect(provider.isConfigured()).toBe(true);
+  });
+
+  it("honours EMBEDDING_PROVIDER and EMBEDDING_MODEL", () => {
+    const gemini = createEmbeddingProvider({ EMBEDDING_PROVIDER: "gemini" });
+    expect(embeddingKey(gemini)).toBe("gemini:gemini-embedding-001");
+    expect(gemini.isConfigured()).toBe(false);
+
+    const ollama = createEmbeddingProvider({ EMBEDDING_PROVIDER: "openai-compatible", EMBEDDING_MODEL: "mxbai-embed-large" });
+    expect(embeddingKey(ollama)).toBe("openai-compatible:mxbai-embed-large");
+  });
+});
+
+describe("formatRetrievedContext", () => {
+  const snippet = (overrides: Partial<RetrievedSnippet>): RetrievedSnippet => ({
+    chunkId: "c1",
+    sourceType: "message",
+    sourceId: "m1",
+    chatId: "chat1",
+    title: "Trip planning",
+    role: "user",
+    content: "We land in Lisbon on the 4th.",
+    score: 0.71234,
+    sourceCreatedAt: new Date("2026-03-02T10:00:00Z"),
+    ...overrides,
+  });
+
+  it("numbers sources and shares a citation between chunks of one source", () => {
+    const { text, citations } = formatRetrievedContext([
+      snippet({}),
+      snippet({ chunkId: "c2", sourceType: "drive_file", sourceId: "f1", chatId: null, title: "itinerary.txt", content: "Hotel: Alfama" }),
+      snippet({ chunkId: "c3", content: "Flight TP123." }),
+    ]);
+
+    expect(citations.map(c => [c.index, c.sourceId])).toEqual([[1, "m1"], [2, "f1"]]);
+    expect(citations[0].score).toBe(0.712);
+    expect(text).toContain('[1] Chat "Trip planning" (user, 2026-03-02)\n> We land in Lisbon on the 4th.');
+    expect(text).toContain("[2] Drive file itinerary.txt\n> Hotel: Alfama");
+    expect(text).toContain("[1] Chat \"Trip planning\" (user, 2026-03-02)\n> Flight TP123.");
+  });
+
+  it("returns nothing for no hits and respects the size budget", () => {
+    expect(formatRetrievedContext([])).toEqual({ text: "", citations: [] });
+
+    const long = "y".repeat(700);
+    const { citations } = formatRetrievedContext(
+      [snippet({ sourceId: "a", content: long }), snippet({ sourceId: "b", content: long })],
+      1000
+    );
+    expect(citations).toHaveLength(1);
+  });
+});
+
+describe("retrievalService.search", () => {
+  const message = (id: string, content: string) =>
+    ({ id, chatId: "c1", role: "user", content, createdAt: new Date() }) as Message;
+
+  it("only recalls messages on their chat's active branch", async () => {
+    retrievalService.setProvider(new LocalHashEmbeddingProvider());
+    const chat = { id: "c1", userId: null, title: "Trip" } as never;
+    await retrievalService.ingestMessage(message("u2", "Plan a trip to Lisbon on a budget of $2k"), chat);
+    await retrievalService.ingestMessage(message("u2b", "Plan a trip to Lisbon on a budget of $3k"), chat);
+
+    activeIds.set("c1", new Set(["u2b"]));
+    const hits = await retrievalService.search("Lisbon trip budget", { chatId: "c1" });
+    expect(hits.map(hit => hit.sourceId)).toEqual(["u2b"]);
+
+    // Switching back to the first version recalls it again without re-indexing
+    activeIds.set("c1", new Set(["u2"]));
+    expect((await retrievalService.search("Lisbon trip budget", { chatId: "c1" })).map(hit => hit.sourceId)).toEqual(["u2"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { dueOccurrences, jitterDelayMs, planDueRuns } from "../server/services/schedule-policy";
+
+const now = new Date("2026-03-02T09:00:30.000Z");
+const at = (iso: string) => new Date(iso);
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+// Daily 09:00 report, server down for three days
+const occurrences = [
+  at("2026-02-28T09:00:00Z"),
+  at("2026-03-01T09:00:00Z"),
+  at("2026-03-02T09:00:00Z"),
+];
+const options = { graceMs: 120_000, maxCatchUp: 10 };
+
+describe("planDueRuns", () => {
+  it("fires on-time occurrences and drops missed ones with skip", () => {
+    const plan = planDueRuns(occurrences, now, { ...options, misfirePolicy: "skip" });
+    expect(iso(plan.fire)).toEqual(["2026-03-02T09:00:00.000Z"]);
+    expect(plan.missed).toHaveLength(2);
+  });
+
+  it("collapses missed occurrences into one run with run_once", () => {
+    const late = new Date("2026-03-02T12:00:00Z");
+    const plan = planDueRuns(occurrences, late, { ...options, misfirePolicy: "run_once" });
+    expect(iso(plan.fire)).toEqual(["2026-03-02T09:00:00.000Z"]);
+    expect(iso(plan.missed)).toEqual(["2026-02-28T09:00:00.000Z", "2026-03-01T09:00:00.000Z"]);
+  });
+
+  it("replays the most recent missed occurrences up to the cap with run_all", () => {
+    const plan = planDueRuns(occurrences, now, { ...options, misfirePolicy: "run_all", maxCatchUp: 1 });
+    expect(iso(plan.fire)).toEqual(["2026-03-01T09:00:00.000Z", "2026-03-02T09:00:00.000Z"]);
+    expect(iso(plan.missed)).toEqual(["2026-02-28T09:00:00.000Z"]);
+
+    const none = planDueRuns(occurrences, now, { ...options, misfirePolicy: "run_all", maxCatchUp: 0 });
+    expect(none.fire).toHaveLength(1);
+    expect(none.missed).toHaveLength(2);
+  });
+});
+
+describe("dueOccurrences", () => {
+  it("lists every occurrence since the stored next run", () => {
+    const result = dueOccurrences("0 9 * * *", at("2026-02-28T09:00:00Z"), now);
+    expect(iso(result.occurrences)).toEqual(iso(occurrences));
+    expect(result.truncated).toBe(false);
+  });
+
+  it("keeps only the most recent occurrences after a long outage", () => {
+    const result = dueOccurrences("* * * * *", at("2026-01-01T00:00:00Z"), now, "UTC", 5);
+    expect(iso(result.occurrences)).toEqual([
+      "2026-03-02T08:56:00.000Z",
+      "2026-03-02T08:57:00.000Z",
+      "2026-03-02T08:58:00.000Z",
+      "2026-03-02T08:59:00.000Z",
+      "2026-03-02T09:00:00.000Z",
+    ]);
+    expect(result.truncated).toBe(true);
+  });
+});
+
+describe("jitterDelayMs", () => {
+  it("stays within the jitter window", () => {
+    expect(jitterDelayMs(0, () => 0.9)).toBe(0);
+    expect(jitterDelayMs(30, () => 0.5)).toBe(15_000);
+    expect(jitterDelayMs(30, () => 0.999)).toBeLessThan(30_000);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMatchQuery,
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  renderSnippet,
+} from "../server/services/search/query";
+
+describe("buildMatchQuery", () => {
+  it("quotes every word and prefix-matches the last one", () => {
+    expect(buildMatchQuery("ssh deploy")).toBe('"ssh" "deploy"*');
+    expect(buildMatchQuery("ssh d")).toBe('"ssh" "d"');
+  });
+
+  it("keeps phrases and turns punctuation into phrases", () => {
+    expect(buildMatchQuery('"git push --force" origin')).toBe('"git push force" "origin"*');
+    expect(buildMatchQuery("file_get v2.4")).toBe('"file get" "v2 4"');
+  });
+
+  it("excludes words prefixed with a dash", () => {
+    expect(buildMatchQuery("docker -compose")).toBe('"docker" NOT "compose"');
+    expect(buildMatchQuery('logs -"dry run" -test')).toBe('"logs" NOT "dry run" NOT "test"');
+  });
+
+  it("neutralises FTS5 syntax and returns null when nothing is searchable", () => {
+    expect(buildMatchQuery('NEAR(a b) OR title:"x')).toBe('"NEAR a" "b" "OR" "title x"');
+    expect(buildMatchQuery("  *** ")).toBeNull();
+    expect(buildMatchQuery("-only")).toBeNull();
+  });
+});
+
+describe("renderSnippet", () => {
+  it("escapes HTML and marks highlighted matches", () => {
+    const raw = `run ${HIGHLIGHT_START}ssh${HIGHLIGHT_END} <root@host> & ${HIGHLIGHT_START}deploy${HIGHLIGHT_END}\n  done`;
+    expect(renderSnippet(raw)).toBe("run <mark>ssh</mark> &lt;root@host&gt; &amp; <mark>deploy</mark> done");
+  });
+
+  it("tolerates unbalanced markers", () => {
+    expect(renderSnippet(`a${HIGHLIGHT_END}b ${HIGHLIGHT_START}c`)).toBe("ab <mark>c</mark>");
+  });
+});
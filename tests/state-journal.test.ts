@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  canTakeLock,
+  collapseOperations,
+  entryExpiresAt,
+  isExpired,
+  orchestrationStatusFromJobs,
+  planRecovery,
+  type OrchestrationRecord,
+} from "../server/services/state-journal";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+const later = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+describe("entries and locks", () => {
+  it("expires entries ttl seconds after they were first set", () => {
+    expect(entryExpiresAt(now, 30)).toEqual(later(30));
+    expect(entryExpiresAt(now)).toBeNull();
+    expect(isExpired(later(30), later(30))).toBe(true);
+    expect(isExpired(later(30), later(29))).toBe(false);
+    expect(isExpired(null, later(1000))).toBe(false);
+  });
+
+  it("lets a lock be taken when free, expired or already held", () => {
+    const lock = { holder: "coder-001", expiresAt: later(60) };
+    expect(canTakeLock(undefined, "reviewer-001", now)).toBe(true);
+    expect(canTakeLock(lock, "reviewer-001", now)).toBe(false);
+    expect(canTakeLock(lock, "coder-001", now)).toBe(true);
+    expect(canTakeLock(lock, "reviewer-001", later(60))).toBe(true);
+  });
+
+  it("commits the last write to each key", () => {
+    expect(collapseOperations([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+      { key: "a", value: 3, type: "private" },
+    ])).toEqual([
+      { key: "a", value: 3, type: "private" },
+      { key: "b", value: 2 },
+    ]);
+  });
+});
+
+describe("orchestration recovery", () => {
+  const record: OrchestrationRecord = {
+    goal: "Compare frameworks",
+    status: "executing",
+    jobIds: ["j1", "j2"],
+    startTime: now.toISOString(),
+  };
+
+  it("derives the status from the jobs", () => {
+    expect(orchestrationStatusFromJobs(["completed", "running"])).toBe("executing");
+    expect(orchestrationStatusFromJobs(["completed", "waiting_input"])).toBe("executing");
+    expect(orchestrationStatusFromJobs(["completed", "completed"])).toBe("completed");
+    expect(orchestrationStatusFromJobs(["completed", "cancelled"])).toBe("cancelled");
+    expect(orchestrationStatusFromJobs(["cancelled", "dead_letter"])).toBe("failed");
+    expect(orchestrationStatusFromJobs(["completed", undefined])).toBe("failed");
+  });
+
+  it("tracks executing orchestrations and closes finished ones", () => {
+    expect(planRecovery(record, { j1: "completed", j2: "pending" })).toEqual({ action: "track" });
+    expect(planRecovery(record, { j1: "completed", j2: "completed" })).toEqual({ action: "close", status: "completed" });
+    expect(planRecovery(record, { j1: "completed" })).toEqual({ action: "close", status: "failed" });
+  });
+
+  it("keeps a failed orchestration while it may still replan the failed steps", () => {
+    expect(planRecovery(record, { j1: "completed", j2: "failed" }, true)).toEqual({ action: "track" });
+    expect(planRecovery(record, { j1: "completed", j2: "cancelled" }, true)).toEqual({ action: "close", status: "cancelled" });
+  });
+
+  it("resumes planning only while the planning job can still produce a plan", () => {
+    const planning: OrchestrationRecord = { ...record, status: "planning", jobIds: [], planningJobId: "p1" };
+    expect(planRecovery(planning, { p1: "running" })).toEqual({ action: "resume_planning", planningJobId: "p1" });
+    expect(planRecovery(planning, { p1: "completed" })).toEqual({ action: "resume_planning", planningJobId: "p1" });
+    expect(planRecovery(planning, { p1: "failed" })).toMatchObject({ action: "close", status: "failed" });
+    expect(planRecovery({ ...planning, planningJobId: undefined }, {})).toMatchObject({ action: "close", status: "failed" });
+  });
+});
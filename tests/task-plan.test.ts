@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { validateGraph } from "@shared/dag";
+import {
+  buildRepairPrompt,
+  failedSubtree,
+  parseJsonOutput,
+  validatePlanOutput,
+  validateReplacementOutput,
+  type PlanValidationOptions,
+  type TaskStep,
+} from "../server/services/task-plan";
+
+const options: PlanValidationOptions = {
+  agents: [
+    { type: "researcher", status: "active", capabilities: [{ name: "web_search", description: "Search" }] },
+    { type: "coder", status: "active", capabilities: [{ name: "code_generation", description: "Write code" }] },
+  ],
+  checkGraph: validateGraph,
+};
+
+function step(id: string, dependencies: string[] = [], agentType: TaskStep["agentType"] = "researcher"): TaskStep {
+  return {
+    id,
+    title: id,
+    description: `Do ${id}`,
+    agentType,
+    requiredCapabilities: agentType === "coder" ? ["code_generation"] : ["web_search"],
+    dependencies,
+    priority: 5,
+  };
+}
+
+describe("validatePlanOutput", () => {
+  it("accepts a fenced JSON plan and fills in defaults", () => {
+    const output = "```json\n" + JSON.stringify({
+      steps: [
+        { id: "a", title: "Research", description: "Find options", agentType: "researcher", requiredCapabilities: ["web_search"] },
+        { id: "b", title: "Build", description: "Write it", agentType: "coder", requiredCapabilities: ["code_generation"], dependencies: ["a"] },
+      ],
+    }) + "\n```";
+
+    const result = validatePlanOutput(output, "Ship it", options);
+
+    expect(result.issues).toEqual([]);
+    expect(result.value?.goal).toBe("Ship it");
+    expect(result.value?.parallelizable).toBe(true);
+    expect(result.value?.steps[0]).toMatchObject({ dependencies: [], priority: 5 });
+  });
+
+  it("reports schema problems by path", () => {
+    const result = validatePlanOutput({ steps: [{ id: "a", title: "x", description: "y", agentType: "wizard" }] }, "g", options);
+    expect(result.value).toBeUndefined();
+    expect(result.issues[0]).toMatch(/^steps\.0\.agentType:/);
+    expect(parseJsonOutput("not json").error).toMatch(/not valid JSON/);
+  });
+
+  it("reports unknown dependencies, cycles and steps no agent can take", () => {
+    const result = validatePlanOutput({
+      steps: [
+        step("a", ["c"]),
+        step("b", ["missing"]),
+        step("c", ["a"]),
+        { ...step("d"), requiredCapabilities: ["time_travel"] },
+      ],
+    }, "g", options);
+
+    expect(result.issues).toEqual([
+      'b: depends on unknown step "missing"',
+      "dependency cycle: a -> c -> a",
+      'd: no researcher agent has the capabilities ["time_travel"]',
+    ]);
+  });
+
+  it("lists every problem in the repair prompt", () => {
+    const prompt = buildRepairPrompt('{"steps": []}', ["steps: Array must contain at least 1 element(s)"]);
+    expect(prompt).toContain('{"steps": []}');
+    expect(prompt).toContain("- steps: Array must contain at least 1 element(s)");
+  });
+});
+
+describe("replanning", () => {
+  const plan = {
+    goal: "g",
+    parallelizable: true,
+    steps: [step("a"), step("b", ["a"]), step("c", ["b"]), step("d")],
+  };
+
+  it("replaces a failed step together with everything depending on it", () => {
+    expect(failedSubtree(plan.steps, ["a"])).toEqual(["a", "b", "c"]);
+    expect(failedSubtree(plan.steps, ["b"])).toEqual(["b", "c"]);
+  });
+
+  it("merges replacement steps that depend on kept steps", () => {
+    const result = validateReplacementOutput(
+      JSON.stringify({ steps: [step("b2", ["a"]), step("c2", ["b2"], "coder")] }),
+      plan,
+      ["b", "c"],
+      options
+    );
+    expect(result.issues).toEqual([]);
+    expect(result.value?.steps.map(s => s.id)).toEqual(["a", "d", "b2", "c2"]);
+  });
+
+  it("rejects replacements that lean on removed steps or reuse their ids", () => {
+    const result = validateReplacementOutput({ steps: [step("b"), step("e", ["c"])] }, plan, ["b", "c"], options);
+    expect(result.issues).toEqual([
+      "b: reuses the id of a replaced step; choose a new id",
+      'e: depends on unknown step "c"',
+    ]);
+  });
+});
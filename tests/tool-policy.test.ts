@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "vitest";
+import * as os from "os";
+import * as path from "path";
+import {
+  DEFAULT_TOOL_POLICY,
+  ToolPolicyEngine,
+  globToRegExp,
+} from "../server/services/tool-policy";
+
+const engine = new ToolPolicyEngine(DEFAULT_TOOL_POLICY);
+
+describe("globToRegExp", () => {
+  it("matches ** across directories and * within one", () => {
+    expect(globToRegExp("/tmp/**").test("/tmp/a/b/c.txt")).toBe(true);
+    expect(globToRegExp("/tmp/*").test("/tmp/a/b.txt")).toBe(false);
+    expect(globToRegExp("**/.env").test("/srv/app/.env")).toBe(true);
+    expect(globToRegExp("**/.env").test("/srv/app/.envrc")).toBe(false);
+  });
+});
+
+describe("DEFAULT_TOOL_POLICY", () => {
+  it("allows read-only terminal commands and asks for the rest", () => {
+    expect(engine.evaluate("terminal", { command: "git status" }).decision).toBe("allow");
+    expect(engine.evaluate("terminal", { command: "npm install" }).decision).toBe("ask");
+  });
+
+  it("does not let an allowed prefix smuggle a chained command", () => {
+    expect(engine.evaluate("terminal", { command: "ls; rm -rf ~" }).decision).toBe("ask");
+    expect(engine.evaluate("terminal", { command: "cat $(whoami)" }).decision).toBe("ask");
+  });
+
+  it("denies privileged commands", () => {
+    expect(engine.evaluate("terminal", { command: "sudo reboot" }).decision).toBe("deny");
+  });
+
+  it("matches file paths after resolving ~ and ..", () => {
+    const workspaceFile = path.join(os.homedir(), "workspace", "notes.md");
+    expect(engine.evaluate("put", { path: workspaceFile }).decision).toBe("allow");
+    expect(engine.evaluate("put", { path: "~/workspace/../.ssh/authorized_keys" }).decision).toBe("deny");
+    expect(engine.evaluate("put", { path: "editor:scratch.ts" }).decision).toBe("allow");
+    expect(engine.evaluate("file_put", { path: "/opt/app/config.yml" }).decision).toBe("ask");
+  });
+
+  it("denies writes to system tables", () => {
+    expect(engine.evaluate("db_delete", { table: "users", where: { id: "1" } }).decision).toBe("deny");
+    expect(engine.evaluate("db_insert", { table: "todo_items", data: {} }).decision).toBe("ask");
+  });
+
+  it("allows tools without a policy entry", () => {
+    expect(engine.evaluate("gmail_list", {}).decision).toBe("allow");
+  });
+});
+
+describe("phone number rules", () => {
+  const original = process.env.OWNER_PHONE_NUMBER;
+  afterEach(() => {
+    if (original === undefined) delete process.env.OWNER_PHONE_NUMBER;
+    else process.env.OWNER_PHONE_NUMBER = original;
+  });
+
+  it("allows the owner's number in any format and asks for others", () => {
+    process.env.OWNER_PHONE_NUMBER = "+1 (555) 010-0000";
+    expect(engine.evaluate("sms_send", { to: "5550100000", body: "hi" }).decision).toBe("allow");
+    expect(engine.evaluate("sms_send", { to: "+15550109999", body: "hi" }).decision).toBe("ask");
+  });
+
+  it("never matches when the variable is unset", () => {
+    delete process.env.OWNER_PHONE_NUMBER;
+    expect(engine.evaluate("call_make", { to: "" }).decision).toBe("ask");
+  });
+});
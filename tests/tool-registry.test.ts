@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ToolRegistry,
+  UnknownToolError,
+  checkToolRegistry,
+} from "../server/services/tool-registry";
+
+describe("ToolRegistry", () => {
+  it("resolves a registered handler", async () => {
+    const registry = new ToolRegistry().register("echo", (params) => params);
+    const handler = registry.resolve("echo");
+    expect(await handler({ a: 1 }, { messageId: "m1" })).toEqual({ a: 1 });
+  });
+
+  it("throws UnknownToolError for an unregistered tool", () => {
+    const registry = new ToolRegistry();
+    expect(() => registry.resolve("missing")).toThrow(UnknownToolError);
+    expect(() => registry.resolve("missing")).toThrow(/"missing"/);
+  });
+
+  it("lists declarations without a handler", () => {
+    const registry = new ToolRegistry().registerAll({ a: () => null, b: () => null });
+    const unhandled = registry.findUnhandled([{ name: "a" }, { name: "c" }, { name: "b" }]);
+    expect(unhandled).toEqual(["c"]);
+  });
+});
+
+describe("checkToolRegistry", () => {
+  it("returns the union of missing tools across declaration sets", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const registry = new ToolRegistry().register("shared", () => null);
+    const missing = checkToolRegistry(registry, {
+      authenticated: [{ name: "shared" }, { name: "gmail_send" }],
+      guest: [{ name: "shared" }, { name: "gmail_send" }, { name: "open_url" }],
+    });
+
+    expect(missing.sort()).toEqual(["gmail_send", "open_url"]);
+    expect(error).toHaveBeenCalledTimes(2);
+
+    error.mockRestore();
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { ToolRegistry } from "../server/services/tool-registry";
+import { ToolValidationError } from "../server/services/tool-schemas";
+import { buildToolResults } from "../server/services/tool-responses";
+import { geminiFunctionDeclarations } from "../server/gemini-tools";
+
+function registryWithDeclarations() {
+  return new ToolRegistry().registerSchemas(geminiFunctionDeclarations);
+}
+
+function validationIssues(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ToolValidationError);
+    return (error as ToolValidationError).issues;
+  }
+  throw new Error("expected validation to fail");
+}
+
+describe("ToolRegistry.validate", () => {
+  it("accepts arguments matching the declaration", () => {
+    const registry = registryWithDeclarations();
+    expect(registry.validate("get", { path: "/tmp/a.txt", maxLength: 10 }))
+      .toEqual({ path: "/tmp/a.txt", maxLength: 10 });
+  });
+
+  it("reports a missing required field", () => {
+    const issues = validationIssues(() => registryWithDeclarations().validate("get", {}));
+    expect(issues).toEqual([{ field: "path", message: "Required", expected: "string" }]);
+  });
+
+  it("reports the received type for a wrongly typed field", () => {
+    const issues = validationIssues(() => registryWithDeclarations().validate("terminal", { command: 42 }));
+    expect(issues[0]).toMatchObject({ field: "command", expected: "string", received: "number" });
+  });
+
+  it("rejects values outside an enum", () => {
+    const issues = validationIssues(() =>
+      registryWithDeclarations().validate("exa_search", { query: "cats", type: "fuzzy" })
+    );
+    expect(issues[0]).toMatchObject({ field: "type", expected: "one of neural, keyword" });
+  });
+
+  it("treats null optional arguments as omitted", () => {
+    const params = registryWithDeclarations().validate("get", { path: "a", maxLength: null });
+    expect(params.maxLength).toBeUndefined();
+  });
+
+  it("passes through tools without a declared schema", () => {
+    const params = { anything: true };
+    expect(new ToolRegistry().validate("undeclared", params)).toBe(params);
+  });
+});
+
+describe("buildToolResults", () => {
+  it("returns one result per call, in order", () => {
+    const results = buildToolResults(
+      [{ id: "a", name: "terminal", args: {} }, { name: "get", args: {} }, { name: "put", args: {} }],
+      [
+        { toolId: "1", type: "terminal", success: true, result: { stdout: "ok" } },
+        {
+          toolId: "2",
+          type: "get",
+          success: false,
+          error: "Invalid arguments",
+          validationErrors: [{ field: "path", message: "Required" }],
+        },
+      ]
+    );
+
+    expect(results.map(r => r.name)).toEqual(["terminal", "get", "put"]);
+    expect(results[0]).toEqual({ callId: "a", name: "terminal", response: { output: { stdout: "ok" } } });
+    expect(results[1].response).toMatchObject({
+      error: { invalidArguments: [{ field: "path", message: "Required" }] },
+    });
+    expect(results[2].response).toMatchObject({ error: { message: expect.stringMatching(/limit/) } });
+  });
+});
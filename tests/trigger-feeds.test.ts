@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../server/storage", () => ({ storage: {} }));
+vi.mock("../server/db", () => ({ db: {}, rawDb: {}, pool: {}, getDb: () => ({}) }));
+
+import { readFeedBody } from "../server/services/trigger-service";
+
+/** A response streaming `chunks` chunks of `size` bytes, counting how many were pulled */
+function streamed(chunks: number, size: number, headers: Record<string, string> = {}) {
+  let pulled = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled === chunks) return controller.close();
+      pulled++;
+      controller.enqueue(new TextEncoder().encode("x".repeat(size)));
+    },
+  });
+  return { response: new Response(body, { headers }), pulled: () => pulled };
+}
+
+describe("readFeedBody", () => {
+  it("reads a feed under the cap", async () => {
+    expect(await readFeedBody(new Response("<rss>é</rss>"), 1024)).toBe("<rss>é</rss>");
+  });
+
+  it("stops reading once the body passes the cap", async () => {
+    const feed = streamed(1000, 100);
+    expect(await readFeedBody(feed.response, 250)).toBeNull();
+    expect(feed.pulled()).toBeLessThan(10);
+  });
+
+  it("refuses a declared Content-Length over the cap without reading", async () => {
+    const feed = streamed(1000, 100, { "content-length": "100000" });
+    expect(await readFeedBody(feed.response, 250)).toBeNull();
+    expect(feed.pulled()).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeTriggerEvent,
+  detectValueChange,
+  diffFiles,
+  dueCalendarEvents,
+  emailBodyText,
+  gmailCatchUpQuery,
+  globToRegExp,
+  matchesGlobs,
+  newFeedItems,
+  parseFeed,
+  parseTriggerConfig,
+  renderTriggerTemplate,
+  selectJsonPath,
+  usesTriggerFields,
+  type FileWatchConfig,
+} from "../server/services/trigger-sources";
+
+describe("parseTriggerConfig", () => {
+  it("fills in defaults and reports the failing field", () => {
+    expect(parseTriggerConfig("calendar_event", {})).toEqual({
+      success: true,
+      config: { calendarId: "primary", minutesBefore: 10, intervalSeconds: 60 },
+    });
+    expect(parseTriggerConfig("http_poll", { url: "https://x.test", jsonPath: "data.x" })).toEqual({
+      success: false,
+      error: "Invalid http_poll config (jsonPath): Invalid JSON path",
+    });
+    expect(parseTriggerConfig("rss", { url: "https://x.test/feed", titlePattern: "(" }).success).toBe(false);
+    expect(parseTriggerConfig("manual", { anything: true })).toEqual({ success: true, config: { anything: true } });
+  });
+});
+
+describe("email", () => {
+  it("validates the Gmail config and builds the catch-up search", () => {
+    expect(parseTriggerConfig("email", { query: " from:boss@x.test " })).toEqual({
+      success: true,
+      config: { query: "from:boss@x.test", labelId: "INBOX", includeBody: true, intervalSeconds: 60 },
+    });
+    expect(parseTriggerConfig("email", { senderEmail: "x" }).success).toBe(false);
+
+    const since = new Date("2026-03-02T09:00:00Z");
+    expect(gmailCatchUpQuery({ query: "has:attachment" }, since)).toBe("has:attachment after:1772442000");
+    expect(gmailCatchUpQuery({}, since)).toBe("after:1772442000");
+  });
+
+  it("turns HTML bodies into text", () => {
+    const html = "<html><style>p{}</style><body><p>Hi &amp; welcome</p><div>Invoice<br>attached</div></body></html>";
+    expect(emailBodyText(html)).toBe("Hi & welcome\nInvoice\nattached");
+    expect(emailBodyText("plain\r\n\r\n\r\n\r\ntext  ")).toBe("plain\n\ntext");
+    expect(emailBodyText("x".repeat(30000))).toHaveLength(20001);
+  });
+
+  it("fills task templates from the event, or appends the event", () => {
+    const context = { source: "email", from: "boss@x.test", subject: "Q1", labels: ["a"], body: "Line 1\nLine 2" };
+    expect(renderTriggerTemplate("Reply to {{ from }} about {{subject}} {{missing}}{{labels}}", context))
+      .toBe("Reply to boss@x.test about Q1 [\"a\"]");
+    expect(usesTriggerFields("Summarise {{body}}")).toBe(true);
+    expect(usesTriggerFields("Summarise it")).toBe(false);
+    expect(describeTriggerEvent(context)).toBe(
+      "Trigger event (email):\n- from: boss@x.test\n- subject: Q1\n- labels: [\"a\"]\n\nbody:\nLine 1\nLine 2"
+    );
+  });
+});
+
+describe("file watch", () => {
+  const config: Pick<FileWatchConfig, "events" | "include" | "exclude"> = {
+    events: ["create", "modify", "delete"],
+    include: ["*.pdf", "reports/**/*.{csv,xlsx}"],
+    exclude: ["drafts/**"],
+  };
+  const file = (path: string, size = 10, mtimeMs = 1000) => ({ path, size, mtimeMs });
+
+  it("matches globs against names at any depth or against the whole path", () => {
+    expect(globToRegExp("reports/**/*.csv").test("reports/2026/q1/sales.csv")).toBe(true);
+    expect(globToRegExp("reports/**/*.csv").test("reports/sales.csv")).toBe(true);
+    expect(globToRegExp("*.csv").test("a/b.csv")).toBe(false);
+    expect(matchesGlobs("a/b/invoice.pdf", config.include, config.exclude)).toBe(true);
+    expect(matchesGlobs("drafts/invoice.pdf", config.include, config.exclude)).toBe(false);
+    expect(matchesGlobs("reports/x/y.xlsx", config.include)).toBe(true);
+    expect(matchesGlobs("notes.txt", config.include)).toBe(false);
+  });
+
+  it("takes a baseline first, then reports each change once", () => {
+    const baseline = diffFiles(undefined, [file("a.pdf"), file("b.pdf"), file("notes.txt")], config);
+    expect(baseline.changes).toEqual([]);
+    expect(Object.keys(baseline.files)).toEqual(["a.pdf", "b.pdf"]);
+
+    const next = diffFiles(baseline.files, [file("a.pdf", 20, 2000), file("c.pdf")], config);
+    expect(next.changes.map(change => [change.event, change.path])).toEqual([
+      ["modify", "a.pdf"],
+      ["create", "c.pdf"],
+      ["delete", "b.pdf"],
+    ]);
+    expect(diffFiles(next.files, [file("a.pdf", 20, 2000), file("c.pdf")], config).changes).toEqual([]);
+    expect(diffFiles(baseline.files, [file("a.pdf"), file("b.pdf"), file("c.pdf")], { ...config, events: ["delete"] }).changes).toEqual([]);
+  });
+});
+
+describe("feeds", () => {
+  const rss = `<?xml version="1.0"?>
+    <rss version="2.0"><channel><title>Blog</title>
+      <item><title>Release 2.0 &amp; more</title><link>https://b.test/2</link><guid>post-2</guid>
+        <description><![CDATA[<p>Big <b>news</b> &amp; fixes</p>]]></description><pubDate>Tue, 03 Mar 2026 10:00:00 GMT</pubDate></item>
+      <item><title>Hello</title><link>https://b.test/1</link></item>
+    </channel></rss>`;
+  const atom = `<feed xmlns="http://www.w3.org/2005/Atom"><title>Log</title>
+    <entry><id>urn:1</id><title type="html">First</title><link rel="alternate" href="https://a.test/1"/><updated>2026-03-01T00:00:00Z</updated></entry>
+  </feed>`;
+
+  it("parses RSS and Atom items", () => {
+    expect(parseFeed(rss)).toEqual([
+      {
+        id: "post-2",
+        title: "Release 2.0 & more",
+        link: "https://b.test/2",
+        summary: "Big news & fixes",
+        published: "2026-03-03T10:00:00.000Z",
+      },
+      { id: "https://b.test/1", title: "Hello", link: "https://b.test/1" },
+    ]);
+    expect(parseFeed(atom)).toEqual([
+      { id: "urn:1", title: "First", link: "https://a.test/1", published: "2026-03-01T00:00:00.000Z" },
+    ]);
+  });
+
+  it("fires only items not seen before, oldest first", () => {
+    const items = parseFeed(rss);
+    const first = newFeedItems(items.slice(1), undefined, { fireOnFirstCheck: false });
+    expect(first.items).toEqual([]);
+
+    const second = newFeedItems(items, first.seen, { fireOnFirstCheck: false });
+    expect(second.items.map(item => item.id)).toEqual(["post-2"]);
+    expect(newFeedItems(items, second.seen, { fireOnFirstCheck: false }).items).toEqual([]);
+
+    const filtered = newFeedItems(items, [], { titlePattern: "^release", fireOnFirstCheck: false });
+    expect(filtered.items.map(item => item.id)).toEqual(["post-2"]);
+    expect(filtered.seen).toEqual(["https://b.test/1", "post-2"]);
+  });
+});
+
+describe("http polling", () => {
+  const body = { data: { items: [{ status: "open" }, { status: "done" }], "odd key": 1 } };
+
+  it("selects values by JSON path", () => {
+    expect(selectJsonPath(body, "$.data.items[1].status")).toBe("done");
+    expect(selectJsonPath(body, "$.data.items[*].status")).toEqual(["open", "done"]);
+    expect(selectJsonPath(body, "$.data['odd key']")).toBe(1);
+    expect(selectJsonPath(body, "$.data.missing.deeper")).toBeUndefined();
+    expect(selectJsonPath(body, "$")).toBe(body);
+  });
+
+  it("reports a change only when the value differs", () => {
+    const first = detectValueChange(undefined, ["open"], { fireOnFirstCheck: false });
+    expect(first.changed).toBe(false);
+    expect(detectValueChange(first.value, ["open"], { fireOnFirstCheck: false }).changed).toBe(false);
+    expect(detectValueChange(first.value, ["open", "done"], { fireOnFirstCheck: false })).toMatchObject({
+      changed: true,
+      previousValue: ["open"],
+    });
+  });
+});
+
+describe("dueCalendarEvents", () => {
+  const now = new Date("2026-03-02T08:52:00Z");
+  const event = (id: string, start: string, summary = "Standup") => ({ id, summary, start: { dateTime: start } });
+
+  it("fires events starting within the window once, and never late", () => {
+    const events = [
+      event("soon", "2026-03-02T09:00:00Z"),
+      event("later", "2026-03-02T10:00:00Z"),
+      event("started", "2026-03-02T08:50:00Z"),
+      { id: "holiday", summary: "Holiday", start: { date: "2026-03-02" } },
+    ];
+    const first = dueCalendarEvents(events, undefined, { minutesBefore: 10 }, now);
+    expect(first.due.map(due => due.event.id)).toEqual(["soon"]);
+    expect(dueCalendarEvents(events, first.fired, { minutesBefore: 10 }, now).due).toEqual([]);
+
+    // Moved to 09:05: a new occurrence
+    const moved = dueCalendarEvents([event("soon", "2026-03-02T09:05:00Z")], first.fired, { minutesBefore: 15 }, now);
+    expect(moved.due).toHaveLength(1);
+
+    // Forgotten once started
+    expect(dueCalendarEvents([], first.fired, { minutesBefore: 10 }, new Date("2026-03-02T09:01:00Z")).fired).toEqual({});
+  });
+
+  it("filters by title", () => {
+    const events = [event("a", "2026-03-02T09:00:00Z", "Standup"), event("b", "2026-03-02T09:00:00Z", "Lunch")];
+    expect(dueCalendarEvents(events, {}, { minutesBefore: 10, titlePattern: "lunch" }, now).due.map(due => due.event.id)).toEqual(["b"]);
+  });
+});
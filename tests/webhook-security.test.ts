@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseTriggerConfig, type WebhookConfig } from "../server/services/trigger-sources";
+import {
+  consumeRateLimit,
+  mapWebhookPayload,
+  parseWebhookBody,
+  redactWebhookHeaders,
+  signWebhookPayload,
+  verifyWebhookRequest,
+} from "../server/services/webhook-security";
+
+const { ledger, deliveries } = vi.hoisted(() => ({ ledger: new Set<string>(), deliveries: [] as Array<{ status: string }> }));
+
+vi.mock("../server/storage", () => ({
+  storage: {
+    async getTriggerById(id: string) {
+      return { id, name: "Deploys", triggerType: "webhook", enabled: true, config: { signature: "hmac" }, webhookSecret: secret };
+    },
+    async claimTriggerEvent(triggerId: string, sourceKey: string) {
+      const key = `${triggerId}:${sourceKey}`;
+      if (ledger.has(key)) return null;
+      ledger.add(key);
+      return key;
+    },
+    async setTriggerEventJob() {},
+    async createWebhookDelivery(delivery: { status: string }) {
+      deliveries.push(delivery);
+      return { id: `delivery-${deliveries.length}`, ...delivery };
+    },
+  },
+}));
+vi.mock("../server/db", () => ({ db: {}, rawDb: {}, pool: {}, getDb: () => ({}) }));
+
+import { triggerService } from "../server/services/trigger-service";
+
+const secret = "s3cret";
+const body = Buffer.from('{"action":"opened","repository":{"full_name":"meow/stic"}}');
+const now = Date.parse("2026-03-02T09:00:00Z");
+const config = (signature: WebhookConfig["signature"]) => ({ signature, toleranceSeconds: 300 });
+
+describe("verifyWebhookRequest", () => {
+  it("checks GitHub signatures over the raw body and uses the delivery id as nonce", () => {
+    const headers = { "x-hub-signature-256": signWebhookPayload(secret, body), "x-github-delivery": "d-1" };
+    expect(verifyWebhookRequest({ headers, rawBody: body }, secret, config("github"), now))
+      .toEqual({ ok: true, nonces: ["d-1", expect.stringMatching(/^sha256:[0-9a-f]{64}$/)] });
+    expect(verifyWebhookRequest({ headers, rawBody: Buffer.from(`${body} `) }, secret, config("github"), now))
+      .toEqual({ ok: false, error: "Invalid signature" });
+    expect(verifyWebhookRequest({ headers, rawBody: body }, null, config("github"), now).ok).toBe(false);
+  });
+
+  it("rejects hmac deliveries with a stale timestamp", () => {
+    const signed = (timestamp: number) => ({
+      "x-webhook-timestamp": String(timestamp),
+      "x-webhook-signature": signWebhookPayload(secret, `${timestamp}.${body}`),
+    });
+    const fresh = verifyWebhookRequest({ headers: signed(now / 1000 - 60), rawBody: body }, secret, config("hmac"), now);
+    expect(fresh).toEqual({ ok: true, nonces: [signed(now / 1000 - 60)["x-webhook-signature"]] });
+    expect(verifyWebhookRequest({ headers: signed(now / 1000 - 600), rawBody: body }, secret, config("hmac"), now))
+      .toEqual({ ok: false, error: "Timestamp outside the allowed window" });
+  });
+
+  it("keeps the nonce of a resent delivery when its id header changes", () => {
+    const nonces = (headers: Record<string, string>, signature: WebhookConfig["signature"]) => {
+      const result = verifyWebhookRequest({ headers, rawBody: body }, secret, config(signature), now);
+      return result.ok ? result.nonces : [];
+    };
+
+    const hmac = {
+      "x-webhook-timestamp": String(now / 1000),
+      "x-webhook-signature": signWebhookPayload(secret, `${now / 1000}.${body}`),
+    };
+    expect(nonces({ ...hmac, "x-webhook-id": "evt_2" }, "hmac")).toEqual(nonces({ ...hmac, "x-webhook-id": "evt_1" }, "hmac"));
+
+    // A swapped or dropped delivery id still collides on the signature digest
+    const github = { "x-hub-signature-256": signWebhookPayload(secret, body) };
+    const [, digest] = nonces({ ...github, "x-github-delivery": "d-1" }, "github");
+    expect(nonces({ ...github, "x-github-delivery": "d-2" }, "github")).toContain(digest);
+    expect(nonces(github, "github")).toEqual([digest]);
+  });
+
+  it("refuses an hmac delivery resent with its signature reformatted", async () => {
+    const fire = vi.spyOn(triggerService, "fireTrigger").mockResolvedValue({ id: "job-1" });
+    const signature = signWebhookPayload(secret, `${now / 1000}.${body}`);
+    const deliver = (sent: string) =>
+      triggerService.handleWebhook("trigger-1", {
+        headers: { "x-webhook-timestamp": String(now / 1000), "x-webhook-signature": sent },
+        body: JSON.parse(body.toString()),
+        rawBody: body,
+      });
+
+    vi.useFakeTimers({ now, toFake: ["Date"] });
+    try {
+      expect(await deliver(signature)).toMatchObject({ success: true, status: 200 });
+      expect(await deliver(signature.slice("sha256=".length))).toMatchObject({ status: 409, error: "Delivery already received" });
+      expect(await deliver(signature.toUpperCase())).toMatchObject({ status: 409 });
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(fire).toHaveBeenCalledTimes(1);
+    expect(deliveries.map(delivery => delivery.status)).toEqual(["accepted", "duplicate", "duplicate"]);
+  });
+
+  it("compares the plain shared secret, and lets anyone in without one", () => {
+    expect(verifyWebhookRequest({ headers: { "x-webhook-secret": secret } }, secret, config("secret"), now).ok).toBe(true);
+    expect(verifyWebhookRequest({ headers: { "x-webhook-secret": "nope" } }, secret, config("secret"), now).ok).toBe(false);
+    expect(verifyWebhookRequest({ headers: {} }, null, config("secret"), now).ok).toBe(true);
+  });
+});
+
+describe("webhook delivery handling", () => {
+  it("limits deliveries per sliding window", () => {
+    const limit = { maxRequests: 2, windowSeconds: 60 };
+    const first = consumeRateLimit(undefined, now, limit);
+    const second = consumeRateLimit(first.hits, now + 1000, limit);
+    expect(consumeRateLimit(second.hits, now + 2000, limit)).toEqual({ allowed: false, hits: second.hits, retryAfterSeconds: 58 });
+    expect(consumeRateLimit(second.hits, now + 60000, limit).allowed).toBe(true);
+  });
+
+  it("maps payload fields and validates the mapping", () => {
+    const payload = JSON.parse(body.toString());
+    expect(mapWebhookPayload(payload, { repo: "$.repository.full_name", action: "$.action", missing: "$.nope" }))
+      .toEqual({ repo: "meow/stic", action: "opened" });
+    expect(parseTriggerConfig("webhook", {})).toEqual({
+      success: true,
+      config: { signature: "secret", toleranceSeconds: 300, mapping: {}, rateLimit: { maxRequests: 60, windowSeconds: 60 } },
+    });
+    expect(parseTriggerConfig("webhook", { mapping: { repo: "repository" } }).success).toBe(false);
+    expect(parseTriggerConfig("webhook", { secret: "x" }).success).toBe(false);
+  });
+
+  it("logs headers without credentials and parses recorded bodies for replay", () => {
+    expect(redactWebhookHeaders({ "Content-Type": "application/json", authorization: "Bearer x", "x-webhook-secret": secret }))
+      .toEqual({ "content-type": "application/json" });
+    expect(parseWebhookBody(body.toString(), "application/json")).toMatchObject({ action: "opened" });
+    expect(parseWebhookBody("a=1&b=two", "application/x-www-form-urlencoded")).toEqual({ a: "1", b: "two" });
+    expect(parseWebhookBody(null, undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import { executionLevels, findCycles, topologicalOrder } from "@shared/dag";
+import {
+  evaluateCondition,
+  nextWorkflowActions,
+  normalizeStepOutput,
+  renderTemplate,
+  resolveForEachItems,
+  validateWorkflowDefinition,
+  workflowRunStatus,
+  type TemplateContext,
+  type WorkflowDefinition,
+  type WorkflowStepStates,
+} from "@shared/workflow-dsl";
+
+const digest = `
+version: 1
+inputs:
+  label: { default: INBOX }
+steps:
+  - id: fetch
+    type: tool
+    tool: gmail_search
+    args: { query: "label:{{inputs.label}}", max: 20 }
+  - id: triage
+    type: prompt
+    forEach: "{{steps.fetch.output.items}}"
+    prompt: "Classify {{item.subject}} ({{index}})"
+    retry: { maxAttempts: 2 }
+  - id: summary
+    type: prompt
+    when: { value: "{{steps.fetch.output.items}}", empty: false }
+    prompt: "Summarise {{steps.triage.output}}"
+    timeoutSeconds: 60
+`;
+
+const context = (overrides: Partial<TemplateContext> = {}): TemplateContext => ({
+  inputs: { label: "INBOX" },
+  steps: { fetch: { status: "completed", output: { items: [{ subject: "Hi" }, { subject: "Bill" }], count: 2 } } },
+  ...overrides,
+});
+
+describe("dag", () => {
+  const nodes = [
+    { id: "c", dependencies: ["a", "b"] },
+    { id: "a", dependencies: [] },
+    { id: "b", dependencies: ["a", "done-elsewhere"] },
+  ];
+
+  it("orders nodes after their dependencies and groups them into levels", () => {
+    expect(topologicalOrder(nodes).map(node => node.id)).toEqual(["a", "b", "c"]);
+    expect(executionLevels(nodes)).toEqual([["a"], ["b"], ["c"]]);
+  });
+
+  it("reports cycles with the first node repeated", () => {
+    expect(findCycles(nodes)).toEqual([]);
+    expect(findCycles([{ id: "a", dependencies: ["b"] }, { id: "b", dependencies: ["a"] }])).toEqual([["a", "b", "a"]]);
+  });
+});
+
+describe("validateWorkflowDefinition", () => {
+  it("accepts YAML and plans steps from needs and template references", () => {
+    const result = validateWorkflowDefinition(digest);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.plan?.levels).toEqual([["fetch"], ["triage"], ["summary"]]);
+    expect(result.plan?.steps.find(step => step.id === "triage")).toMatchObject({ forEach: true, maxAttempts: 2, dependsOn: ["fetch"] });
+  });
+
+  it("reports schema errors with their path", () => {
+    const result = validateWorkflowDefinition({ version: 2, steps: [{ id: "a", type: "prompt" }] });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => error.path)).toEqual(expect.arrayContaining(["version", "steps[0].prompt"]));
+  });
+
+  it("rejects unknown references, misplaced item templates and cycles", () => {
+    const result = validateWorkflowDefinition({
+      version: 1,
+      inputs: { topic: {} },
+      steps: [
+        { id: "a", type: "prompt", prompt: "{{steps.b.output}} {{inputs.nope}}", needs: ["ghost"] },
+        { id: "b", type: "prompt", prompt: "{{steps.a.result}} {{item}}" },
+        { id: "c", type: "prompt", prompt: "{{steps.a.output}}", needs: ["b"], forEach: "{{item}}" },
+        { id: "d", type: "prompt", prompt: "{{ nope( }}" },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      { path: "steps[0].needs[0]", message: 'Unknown step "ghost"' },
+      { path: "steps[0].prompt", message: 'Unknown input "nope"' },
+      { path: "steps[1].prompt", message: 'Steps expose "output" and "status", not "result"' },
+      { path: "steps[1].prompt", message: "{{item}} is only available in forEach steps" },
+      { path: "steps[2].forEach", message: "forEach cannot use {{item}} itself" },
+      { path: "steps[3].prompt", message: 'Invalid template expression "{{nope(}}"' },
+      { path: "steps", message: "Steps depend on each other in a cycle: a -> b -> a" },
+    ]));
+  });
+
+  it("checks required inputs on a dry run and warns about conditional outputs", () => {
+    const definition = {
+      version: 1,
+      inputs: { topic: { required: true } },
+      steps: [
+        { id: "check", type: "prompt", prompt: "{{inputs.topic}}", when: "{{inputs.topic}}" },
+        { id: "use", type: "prompt", prompt: "{{steps.check.output}}" },
+      ],
+    };
+
+    expect(validateWorkflowDefinition(definition).valid).toBe(true);
+    const dryRun = validateWorkflowDefinition(definition, { inputs: { other: 1 } });
+    expect(dryRun.errors).toEqual([{ path: "inputs.topic", message: 'Missing required input "topic"' }]);
+    expect(dryRun.warnings.map(warning => warning.path)).toEqual(["steps[1].prompt", "inputs.other"]);
+  });
+
+  it("checks approval steps", () => {
+    const result = validateWorkflowDefinition({
+      version: 1,
+      steps: [
+        { id: "draft", type: "prompt", prompt: "Draft a reply" },
+        {
+          id: "review",
+          type: "approval",
+          title: "Send the reply?",
+          summary: "{{steps.draft.output}}",
+          parameters: { to: "boss@x.test" },
+          onExpiry: "approve",
+        },
+        { id: "send", type: "tool", tool: "gmail_send", args: { to: "{{steps.review.output.parameters.to}}" } },
+      ],
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([{ path: "steps[1].onExpiry", message: "onExpiry has no effect without expiresAfterSeconds" }]);
+    expect(result.plan?.levels).toEqual([["draft"], ["review"], ["send"]]);
+    expect(validateWorkflowDefinition({
+      version: 1,
+      steps: [{ id: "review", type: "approval", title: "Go?", notify: { channels: ["pager"] } }],
+    }).errors.map(error => error.path)).toEqual(["steps[0].notify.channels[0]"]);
+    expect(validateWorkflowDefinition({
+      version: 1,
+      steps: [{ id: "review", type: "approval", title: "Go?", retry: { maxAttempts: 2 } }],
+    }).errors).toEqual([{ path: "steps[0].retry", message: "Approval steps do not support retry" }]);
+  });
+
+  it("reports unparseable YAML", () => {
+    const result = validateWorkflowDefinition("steps: [unclosed");
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].message).toMatch(/^Could not parse definition/);
+  });
+});
+
+describe("templates", () => {
+  it("keeps the value of a whole template and interpolates text otherwise", () => {
+    expect(renderTemplate("{{steps.fetch.output.items}}", context())).toHaveLength(2);
+    expect(renderTemplate("{{steps.fetch.output.items[1].subject}}", context())).toBe("Bill");
+    expect(renderTemplate({ q: "n={{steps.fetch.output.count}} {{steps.fetch.output.missing}}!" }, context())).toEqual({ q: "n=2 !" });
+    expect(renderTemplate("{{item.subject}} #{{index}}", context({ item: { subject: "Hi" }, index: 0 }))).toBe("Hi #0");
+    expect(renderTemplate("{{steps.fetch.output.items.length}}", context())).toBe(2);
+    expect(renderTemplate("{{inputs.constructor}}", context())).toBeUndefined();
+  });
+
+  it("parses JSON outputs, fenced or not, and fans out forEach items", () => {
+    expect(normalizeStepOutput('```json\n{"items": [1, 2]}\n```')).toEqual({ items: [1, 2] });
+    expect(normalizeStepOutput("[not json")).toBe("[not json");
+
+    const step = { id: "each", type: "prompt" as const, prompt: "x", forEach: "{{steps.fetch.output.items}}" };
+    expect(resolveForEachItems(step, context())).toHaveLength(2);
+    expect(() => resolveForEachItems({ ...step, forEach: "{{steps.fetch.output.count}}" }, context())).toThrow(/expected a list, got number/);
+  });
+});
+
+describe("evaluateCondition", () => {
+  it.each([
+    ["{{steps.fetch.output.count}}", true],
+    ["{{steps.fetch.output.missing}}", false],
+    [{ value: "{{steps.fetch.output.count}}", gte: 2, lt: 3 }, true],
+    [{ value: "{{steps.fetch.output.count}}", equals: "2" }, true],
+    [{ value: "{{inputs.label}}", in: ["SPAM", "TRASH"] }, false],
+    [{ value: "{{steps.fetch.output.items}}", empty: false }, true],
+    [{ any: [{ not: "{{inputs.label}}" }, { value: "{{inputs.label}}", contains: "BOX" }] }, true],
+  ])("%j is %s", (condition, expected) => {
+    expect(evaluateCondition(condition, context())).toBe(expected);
+  });
+});
+
+describe("nextWorkflowActions", () => {
+  const definition = validateWorkflowDefinition({
+    version: 1,
+    steps: [
+      { id: "check", type: "prompt", prompt: "Anything new?" },
+      { id: "yes", type: "prompt", prompt: "Handle it", needs: ["check"], when: "{{steps.check.output}}" },
+      { id: "no", type: "prompt", prompt: "Nothing", needs: ["check"], when: { not: "{{steps.check.output}}" } },
+      { id: "after_yes", type: "prompt", prompt: "{{steps.yes.output}}" },
+      { id: "join", type: "prompt", prompt: "Done", needs: ["yes", "no"] },
+    ],
+  }).definition as WorkflowDefinition;
+
+  it("starts steps whose dependencies finished and skips behind skipped branches", () => {
+    expect(nextWorkflowActions(definition, {})).toEqual({ start: ["check"], skip: [] });
+
+    const states: WorkflowStepStates = {
+      check: { status: "completed", jobIds: ["j1"], output: "no" },
+      yes: { status: "skipped", jobIds: [] },
+      no: { status: "completed", jobIds: ["j2"] },
+    };
+    expect(nextWorkflowActions(definition, states)).toEqual({
+      start: ["join"],
+      skip: [{ id: "after_yes", reason: "Every step it depends on was skipped" }],
+    });
+  });
+
+  it("summarises the run", () => {
+    const done: WorkflowStepStates = Object.fromEntries(
+      definition.steps.map(step => [step.id, { status: "completed" as const, jobIds: [] }])
+    );
+    expect(workflowRunStatus(definition, done)).toBe("completed");
+    expect(workflowRunStatus(definition, { ...done, join: { status: "running", jobIds: ["j"] } })).toBe("running");
+    expect(workflowRunStatus(definition, { ...done, yes: { status: "failed", jobIds: [] } })).toBe("failed");
+  });
+});
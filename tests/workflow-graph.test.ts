@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  addStep,
+  connectSteps,
+  disconnectSteps,
+  issuesByStep,
+  layoutWorkflowGraph,
+  legacyStepsToDefinition,
+  removeStep,
+  renameStep,
+  NODE_WIDTH,
+} from "@/lib/workflow-graph";
+import { validateWorkflowDefinition, type WorkflowDefinition } from "@shared/workflow-dsl";
+
+const definition: WorkflowDefinition = {
+  version: 1,
+  steps: [
+    { id: "fetch", type: "tool", tool: "gmail_search", args: { query: "is:unread" } },
+    { id: "triage", type: "prompt", prompt: "Sort {{steps.fetch.output}}" },
+    { id: "notify", type: "prompt", prompt: "Tell me", needs: ["fetch"] },
+    { id: "report", type: "prompt", prompt: "{{ steps.triage.output.summary }}", needs: ["notify"] },
+  ],
+};
+
+describe("layoutWorkflowGraph", () => {
+  it("places steps in columns by dependency level and marks explicit edges", () => {
+    const graph = layoutWorkflowGraph(definition);
+    const x = Object.fromEntries(graph.nodes.map(node => [node.id, node.x]));
+
+    expect(x.fetch).toBeLessThan(x.triage);
+    expect(x.triage).toBe(x.notify);
+    expect(x.report).toBeGreaterThan(x.notify);
+    expect(graph.width).toBeGreaterThan(3 * NODE_WIDTH);
+    expect(graph.edges).toEqual(expect.arrayContaining([
+      { from: "fetch", to: "triage", explicit: false },
+      { from: "fetch", to: "notify", explicit: true },
+    ]));
+    expect(graph.cyclic.size).toBe(0);
+  });
+
+  it("still shows steps on a cycle, flagged", () => {
+    const cyclic = connectSteps(definition, "report", "fetch");
+    const graph = layoutWorkflowGraph(cyclic);
+
+    expect(graph.nodes).toHaveLength(4);
+    expect([...graph.cyclic].sort()).toEqual(["fetch", "notify", "report", "triage"]);
+    expect(validateWorkflowDefinition(cyclic).errors.map(error => error.message)).toEqual(
+      expect.arrayContaining([expect.stringMatching(/cycle/)])
+    );
+  });
+});
+
+describe("editing", () => {
+  it("connects, disconnects, adds and removes steps without mutating the input", () => {
+    const connected = connectSteps(definition, "triage", "notify");
+    expect(connected.steps[2].needs).toEqual(["fetch", "triage"]);
+    expect(connectSteps(connected, "triage", "notify")).toEqual(connected);
+    expect(disconnectSteps(connected, "fetch", "notify").steps[2].needs).toEqual(["triage"]);
+    expect(disconnectSteps(definition, "fetch", "notify").steps[2]).not.toHaveProperty("needs");
+
+    const added = addStep(definition, "tool", "report");
+    expect(added.steps[4]).toEqual({ id: "step_5", type: "tool", tool: "", args: {}, needs: ["report"] });
+    expect(removeStep(definition, "notify").steps.find(step => step.id === "report")).not.toHaveProperty("needs");
+    expect(definition.steps).toHaveLength(4);
+  });
+
+  it("renames a step in ids, needs and templates", () => {
+    const renamed = renameStep(definition, "fetch", "inbox");
+
+    expect(renamed.steps.map(step => step.id)).toEqual(["inbox", "triage", "notify", "report"]);
+    expect(renamed.steps[1]).toMatchObject({ prompt: "Sort {{steps.inbox.output}}" });
+    expect(renamed.steps[2].needs).toEqual(["inbox"]);
+    expect(renameStep(definition, "triage", "sort").steps[3]).toMatchObject({ prompt: "{{ steps.sort.output.summary }}" });
+    expect(validateWorkflowDefinition(renamed).valid).toBe(true);
+  });
+});
+
+describe("legacyStepsToDefinition", () => {
+  it("chains legacy steps into a valid definition", () => {
+    const converted = legacyStepsToDefinition("Morning", [
+      { title: "Read mail", taskType: "fetch" },
+      { title: "Summarise", description: "Summarise what came in" },
+    ]);
+
+    expect(converted.steps[1]).toMatchObject({ type: "task", taskType: "action", needs: ["step_1"] });
+    expect(validateWorkflowDefinition(converted).valid).toBe(true);
+  });
+
+  it("maps validation issues to the steps they belong to", () => {
+    const broken = { ...definition, steps: [...definition.steps, { id: "bad", type: "prompt" as const, prompt: "{{steps.ghost.output}}" }] };
+    const issues = issuesByStep(broken, validateWorkflowDefinition(broken).errors);
+    expect([...issues.keys()]).toEqual(["bad"]);
+  });
+});